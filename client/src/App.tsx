@@ -22,6 +22,7 @@ import OptimizationDashboard from "./pages/OptimizationDashboard";
 import PrioritizationDashboard from "./pages/PrioritizationDashboard";
 import PrioritizationDashboardNew from "./pages/PrioritizationDashboardNew";
 import CapitalBudgetPlanner from "./pages/CapitalBudgetPlanner";
+import SemanticSearch from "./pages/SemanticSearch";
 import LPOptimizationDashboard from "./pages/LPOptimizationDashboard";
 import Model3DViewer from "./pages/Model3DViewer";
 import PortfolioBIDashboard from "./pages/PortfolioBIDashboard";
@@ -65,8 +66,10 @@ import ASTMCompliant from "./pages/features/ASTMCompliant";
 import OfflineMode from "./pages/features/OfflineMode";
 import AnalyticsInsights from "./pages/features/AnalyticsInsights";
 import SidebarDemo from "./pages/SidebarDemo";
+import SharedView from "./pages/SharedView";
 import { NotificationPermissionDialog } from "./components/NotificationPermissionDialog";
 import { UnitProvider } from "./contexts/UnitContext";
+import { LanguageProvider } from "./contexts/LanguageContext";
 
 function Router() {
   return (
@@ -84,6 +87,7 @@ function Router() {
       <Route path={"/terms"} component={Terms} />
       <Route path={"/contact"} component={Contact} />
       <Route path={"/pending-approval"} component={PendingApproval} />
+      <Route path={"/share/:token"} component={SharedView} />
       <Route path={"/admin"} component={Admin} />
       <Route path={"/admin/governance"} component={AdminGovernance} />
       <Route path={"/company-users"} component={CompanyUsersPage} />
@@ -106,6 +110,7 @@ function Router() {
       <Route path={"/prioritization"} component={PrioritizationDashboardNew} />
       <Route path={"/prioritization-old"} component={PrioritizationDashboard} />
       <Route path={"/capital-budget"} component={CapitalBudgetPlanner} />
+      <Route path={"/search"} component={SemanticSearch} />
       <Route path={"/lp-optimization"} component={LPOptimizationDashboard} />
       <Route path={"/projects/:id/3d-model"} component={Model3DViewer} />
       <Route path={"/portfolio-bi"} component={PortfolioBIDashboard} />
@@ -142,13 +147,15 @@ function App() {
     <ErrorBoundary>
       <ThemeProvider defaultTheme="light">
         <UnitProvider>
-          <CompanyProvider>
-            <TooltipProvider>
-              <Toaster />
-              <NotificationPermissionDialog />
-              <Router />
-            </TooltipProvider>
-          </CompanyProvider>
+          <LanguageProvider>
+            <CompanyProvider>
+              <TooltipProvider>
+                <Toaster />
+                <NotificationPermissionDialog />
+                <Router />
+              </TooltipProvider>
+            </CompanyProvider>
+          </LanguageProvider>
         </UnitProvider>
       </ThemeProvider>
     </ErrorBoundary>
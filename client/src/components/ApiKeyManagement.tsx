@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, KeyRound, Plus, Ban, Copy, FileJson } from "lucide-react";
+import { toast } from "sonner";
+import { getRoleScopes, type ApiKeyRole } from "@shared/publicApi";
+
+const ROLE_LABELS: Record<ApiKeyRole, string> = {
+  company_admin: "Company admin",
+  project_manager: "Project manager",
+  editor: "Editor",
+  viewer: "Viewer (read only)",
+};
+
+export default function ApiKeyManagement() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<ApiKeyRole>("viewer");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [rateLimit, setRateLimit] = useState("60");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: options } = trpc.apiKeys.options.useQuery();
+  const { data: keys, isLoading } = trpc.apiKeys.list.useQuery();
+
+  const resetForm = () => {
+    setName("");
+    setRole("viewer");
+    setScopes([]);
+    setRateLimit("60");
+    setExpiresOn("");
+  };
+
+  const createMutation = trpc.apiKeys.create.useMutation({
+    onSuccess: (result) => {
+      toast.success("API key created");
+      setDialogOpen(false);
+      resetForm();
+      setRevealedKey(result.key);
+      utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revokeMutation = trpc.apiKeys.revoke.useMutation({
+    onSuccess: () => {
+      toast.success("API key revoked");
+      utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const availableScopes: string[] = getRoleScopes(role);
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes((current) => checked ? [...current, scope] : current.filter((s) => s !== scope));
+  };
+
+  const getStatusBadge = (status?: string) => {
+    switch (status) {
+      case "active":
+        return <Badge variant="default" className="bg-green-500">Active</Badge>;
+      case "expired":
+        return <Badge variant="secondary">Expired</Badge>;
+      case "revoked":
+        return <Badge variant="destructive">Revoked</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return "Never";
+    return new Date(dateString).toLocaleString();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Raw key, shown once after create */}
+      {revealedKey && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardHeader>
+            <CardTitle className="text-base">New API key</CardTitle>
+            <CardDescription>
+              Copy this key now; it will not be shown again. Send it in the{" "}
+              <code>{options?.header ?? "X-API-Key"}</code> header or as a Bearer token.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <Input readOnly value={revealedKey} className="font-mono" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                navigator.clipboard.writeText(revealedKey);
+                toast.success("Key copied");
+              }}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" onClick={() => setRevealedKey(null)}>Done</Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>API Keys</CardTitle>
+            <CardDescription>
+              Company-scoped keys for the REST API at <code>{options?.baseUrl ?? "/api/v1"}</code>. Every call is recorded in the audit log.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <a href={options?.openApiUrl ?? "/api/v1/openapi.json"} target="_blank" rel="noreferrer">
+                <FileJson className="w-4 h-4 mr-2" />
+                OpenAPI Spec
+              </a>
+            </Button>
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create Key
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : keys && keys.length > 0 ? (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Role & Scopes</TableHead>
+                    <TableHead>Rate Limit</TableHead>
+                    <TableHead>Last Used</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {keys.map((key) => (
+                    <TableRow key={key.id}>
+                      <TableCell className="font-medium">{key.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{key.keyPrefix}…</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1">
+                          <span className="text-sm">{ROLE_LABELS[key.role as ApiKeyRole] || key.role}</span>
+                          <div className="flex flex-wrap gap-1">
+                            {(key.scopes as string[] | undefined)?.map((scope) => (
+                              <Badge key={scope} variant="outline" className="text-xs">{scope}</Badge>
+                            ))}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{key.rateLimitPerMinute}/min</TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex flex-col">
+                          <span>{formatDate(key.lastUsedAt)}</span>
+                          {key.lastUsedIp && <span className="text-muted-foreground">{key.lastUsedIp}</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1">
+                          {getStatusBadge(key.status)}
+                          {key.expiresAt && key.status === "active" && (
+                            <span className="text-xs text-muted-foreground">expires {formatDate(key.expiresAt)}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {key.status !== "revoked" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revoke key"
+                            onClick={() => {
+                              if (confirm(`Revoke API key "${key.name}"? Integrations using it will stop working immediately.`)) {
+                                revokeMutation.mutate({ id: key.id! });
+                              }
+                            }}
+                          >
+                            <Ban className="w-4 h-4 text-red-600" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <KeyRound className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No API keys issued</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create API Key</DialogTitle>
+            <DialogDescription>The key acts with the permissions of the selected company role</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input id="api-key-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="GIS nightly sync" />
+            </div>
+            <div>
+              <Label htmlFor="api-key-role">Role</Label>
+              <Select
+                value={role}
+                onValueChange={(value) => {
+                  setRole(value as ApiKeyRole);
+                  setScopes([]);
+                }}
+              >
+                <SelectTrigger id="api-key-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(options?.roles ?? []).map((r) => (
+                    <SelectItem key={r} value={r}>{ROLE_LABELS[r as ApiKeyRole] || r}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <p className="text-sm text-muted-foreground">Leave all unchecked to grant everything the role allows.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {availableScopes.map((scope) => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <Label htmlFor={`scope-${scope}`} className="font-normal font-mono text-xs">{scope}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="api-key-rate-limit">Requests per minute</Label>
+                <Input id="api-key-rate-limit" type="number" min={1} max={6000} value={rateLimit} onChange={(e) => setRateLimit(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="api-key-expires">Expires on (optional)</Label>
+                <Input id="api-key-expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!name || createMutation.isPending}
+              onClick={() => createMutation.mutate({
+                name,
+                role,
+                scopes: scopes.length > 0 ? (scopes as any) : undefined,
+                rateLimitPerMinute: Math.max(1, parseInt(rateLimit) || 60),
+                expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+              })}
+            >
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create Key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
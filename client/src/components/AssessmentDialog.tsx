@@ -22,6 +22,7 @@ import { useOfflineAssessment } from "@/hooks/useOfflineAssessment";
 import { useOfflinePhoto } from "@/hooks/useOfflinePhoto";
 import { initOfflineDB, STORES } from "@/lib/offlineStorage";
 import { AssessmentActionsEditor, AssessmentAction } from "@/components/AssessmentActionsEditor";
+import { pickAssessmentFields } from "@shared/assessmentMerge";
 
 // Component to display existing photos for an assessment
 function ExistingPhotosDisplay({ assessmentId, assetId, projectId, componentCode }: { assessmentId?: number; assetId: number; projectId: number; componentCode?: string }) {
@@ -301,6 +302,8 @@ interface AssessmentDialogProps {
     estimatedRepairCost?: number | null;
     replacementValue?: number | null;
     actionYear?: number | null;
+    status?: string | null;
+    version?: number | null;
   };
   onSuccess: () => void;
 }
@@ -392,6 +395,11 @@ export function AssessmentDialog({
     },
   });
 
+  // Server values this edit starts from, so offline saves can be merged field by field on sync
+  const offlineBase = existingAssessment?.id
+    ? { version: existingAssessment.version ?? null, values: pickAssessmentFields(existingAssessment) }
+    : null;
+
   const upsertAssessment = trpc.assessments.upsert.useMutation();
   const checkValidation = trpc.validation.check.useMutation();
   const logOverride = trpc.validation.logOverride.useMutation();
@@ -530,6 +538,7 @@ export function AssessmentDialog({
         actionDescription: actionDescription || null,
         repairCost: repairCost ? parseFloat(repairCost) : null,
         sectionId: sectionId || null,
+        base: offlineBase,
       };
 
       const assessmentId = await saveAssessment(assessmentData);
@@ -670,20 +679,25 @@ export function AssessmentDialog({
     // Build assessment data
     const assessmentData = {
       componentCode,
+      componentName: componentNameField || componentName,
       condition,
+      status,
       assessedAt: new Date(),
       lastTimeAction: lastTimeAction ? parseInt(lastTimeAction) : undefined,
       remainingUsefulLife: remainingUsefulLife ? parseInt(remainingUsefulLife) : undefined,
       expectedUsefulLife: estimatedServiceLife ? parseInt(estimatedServiceLife) : undefined,
       estimatedRepairCost: estimatedRepairCost ? parseFloat(estimatedRepairCost) : undefined,
+      repairCost: repairCost ? parseFloat(repairCost) : undefined,
       replacementValue: replacementValue ? parseFloat(replacementValue) : undefined,
       actionYear: actionYear ? parseInt(actionYear) : undefined,
+      reviewYear: reviewYear ? parseInt(reviewYear) : undefined,
     };
 
     // Check validation rules
     try {
       const results = await checkValidation.mutateAsync({
         projectId,
+        assetId,
         assessmentData,
       });
 
@@ -753,6 +767,7 @@ export function AssessmentDialog({
           actionYear: actionYear ? parseInt(actionYear) : null,
           actionDescription: actionDescription || null,
           repairCost: repairCost ? parseFloat(repairCost) : null,
+          base: offlineBase,
         };
         console.log('[AssessmentDialog] Saving assessment with data:', assessmentData);
 
@@ -1373,6 +1388,7 @@ export function AssessmentDialog({
                 }}
                 onCancel={() => setShowObservationsVoice(false)}
                 fieldType="observations"
+                projectId={projectId}
               />
             )}
             <RichTextEditor
@@ -1404,6 +1420,7 @@ export function AssessmentDialog({
                 }}
                 onCancel={() => setShowRecommendationsVoice(false)}
                 fieldType="recommendations"
+                projectId={projectId}
               />
             )}
             <RichTextEditor
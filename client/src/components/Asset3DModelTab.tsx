@@ -4,8 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
 import { ModelViewer } from "@/components/ModelViewer";
+import { GltfModelViewer } from "@/components/GltfModelViewer";
 import { ModelUploadDialog } from "@/components/ModelUploadDialog";
 import { ConversionStatusBar } from "@/components/ConversionStatusBar";
+import { IfcImportPanel } from "@/components/IfcImportPanel";
 import { 
   Upload, 
   Loader2, 
@@ -58,10 +60,13 @@ export function Asset3DModelTab({ assetId, projectId }: Asset3DModelTabProps) {
     { enabled: !!projectId && !!assetId }
   );
 
+  // glTF/GLB models open in the native viewer, which loads its own annotations and viewpoints
+  const isGltfModel = activeModel?.format === "glb" || activeModel?.format === "gltf";
+
   // Fetch annotations for the active model
   const { data: annotations = [] } = trpc.models.annotations.list.useQuery(
     { modelId: activeModel?.id || 0 },
-    { enabled: !!activeModel?.id }
+    { enabled: !!activeModel?.id && !isGltfModel }
   );
 
   // Delete mutation
@@ -214,30 +219,40 @@ export function Asset3DModelTab({ assetId, projectId }: Asset3DModelTabProps) {
       {activeModel ? (
         <Card className="overflow-hidden">
           <CardContent className="p-0">
-            <ModelViewer
-              modelUrl={activeModel.fileUrl}
-              modelFormat={activeModel.format}
-              modelId={activeModel.id}
-              apsUrn={activeModel.apsUrn}
-              apsTranslationStatus={activeModel.apsTranslationStatus}
-              annotations={annotations.map((a) => ({
-                id: a.id,
-                title: a.title,
-                position: {
-                  x: parseFloat(a.positionX),
-                  y: parseFloat(a.positionY),
-                  z: parseFloat(a.positionZ),
-                },
-                type: a.annotationType,
-              }))}
-              onAnnotationClick={handleAnnotationClick}
-              onApsStatusChange={() => {
-                // Refetch model data when APS conversion starts
-                utils.models.getActive.invalidate({ projectId, assetId });
-                utils.models.list.invalidate({ projectId, assetId });
-              }}
-              height="500px"
-            />
+            {isGltfModel ? (
+              <GltfModelViewer
+                modelId={activeModel.id}
+                projectId={projectId}
+                assetId={assetId}
+                modelUrl={activeModel.fileUrl}
+                height="500px"
+              />
+            ) : (
+              <ModelViewer
+                modelUrl={activeModel.fileUrl}
+                modelFormat={activeModel.format}
+                modelId={activeModel.id}
+                apsUrn={activeModel.apsUrn}
+                apsTranslationStatus={activeModel.apsTranslationStatus}
+                annotations={annotations.map((a) => ({
+                  id: a.id,
+                  title: a.title,
+                  position: {
+                    x: parseFloat(a.positionX),
+                    y: parseFloat(a.positionY),
+                    z: parseFloat(a.positionZ),
+                  },
+                  type: a.annotationType,
+                }))}
+                onAnnotationClick={handleAnnotationClick}
+                onApsStatusChange={() => {
+                  // Refetch model data when APS conversion starts
+                  utils.models.getActive.invalidate({ projectId, assetId });
+                  utils.models.list.invalidate({ projectId, assetId });
+                }}
+                height="500px"
+              />
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -263,6 +278,11 @@ export function Asset3DModelTab({ assetId, projectId }: Asset3DModelTabProps) {
         </Card>
       )}
 
+      {/* BIM components from IFC models */}
+      {activeModel && activeModel.format === "ifc" && (
+        <IfcImportPanel modelId={activeModel.id} projectId={projectId} assetId={assetId} />
+      )}
+
       {/* Model History */}
       {showHistory && models.length > 0 && (
         <Card>
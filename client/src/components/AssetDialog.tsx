@@ -9,6 +9,7 @@ import { trpc } from "@/lib/trpc";
 import { FieldTooltip } from "@/components/FieldTooltip";
 import { AddressAutocomplete } from "@/components/AddressAutocomplete";
 import { toast } from "sonner";
+import { saveOfflineAsset } from "@/lib/offlineStorage";
 import { useState, useEffect, useRef } from "react";
 import { MapPin, Loader2, CheckCircle2 } from "lucide-react";
 import type { Asset } from "../../../drizzle/schema";
@@ -216,6 +217,35 @@ export function AssetDialog({ open, onOpenChange, projectId, asset, onSuccess }:
 
     if (asset) {
       updateAsset.mutate({ id: asset.id, ...data });
+    } else if (!navigator.onLine) {
+      // No connection: keep the asset in IndexedDB until the sync engine can create it
+      saveOfflineAsset({
+        projectId,
+        name: data.name,
+        assetType: data.assetType ?? null,
+        description: data.description ?? null,
+        address: data.address ?? null,
+        city: data.city ?? null,
+        province: data.province ?? null,
+        postalCode: data.postalCode ?? null,
+        latitude: data.latitude ? parseFloat(data.latitude) : null,
+        longitude: data.longitude ? parseFloat(data.longitude) : null,
+        yearBuilt: data.yearBuilt ?? null,
+        grossFloorArea: data.grossFloorArea ?? null,
+        numberOfStories: data.numberOfStories ?? null,
+        constructionType: data.constructionType ?? null,
+        replacementValue: data.currentReplacementValue
+          ? parseFloat(data.currentReplacementValue.replace(/[^0-9.-]+/g, "")) || null
+          : null,
+      })
+        .then(() => {
+          toast.success("Asset saved offline. Will sync when connection returns.");
+          onOpenChange(false);
+          resetForm();
+        })
+        .catch((error) => {
+          toast.error(`Failed to save asset offline: ${error.message}`);
+        });
     } else {
       createAsset.mutate(data);
     }
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Link2, Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface VerificationResult {
+  valid: boolean;
+  checkedEntries: number;
+  checkpointsVerified: number;
+  firstBreak: { message: string } | null;
+}
+
+/**
+ * Tamper-evidence status of the audit chains, with verification and the auditor export bundle
+ */
+export default function AuditChainIntegrity() {
+  const [results, setResults] = useState<Record<string, VerificationResult>>({});
+  const [verifying, setVerifying] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: chains, isLoading } = trpc.audit.chainStatus.useQuery();
+
+  const verifyMutation = trpc.audit.verifyChain.useMutation();
+
+  const sealMutation = trpc.audit.sealChain.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Sealed ${result.sealed} entries, signed ${result.checkpoints} checkpoints`);
+      utils.audit.chainStatus.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const exportMutation = trpc.audit.exportBundle.useMutation({
+    onSuccess: (result) => {
+      const blob = new Blob([result.bundle], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = result.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (result.valid) toast.success("Export bundle downloaded");
+      else toast.warning("Export bundle downloaded, but a chain failed verification");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleVerify = async (companyId: number | null) => {
+    const key = String(companyId);
+    setVerifying(key);
+    try {
+      const report = await verifyMutation.mutateAsync({ companyId });
+      setResults((current) => ({ ...current, [key]: report as VerificationResult }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Verification failed");
+    } finally {
+      setVerifying(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Audit Chain Integrity
+          </CardTitle>
+          <CardDescription>
+            Every audit entry is chained to the previous entry for its company, and chain heads are signed hourly.
+            Verification reports the first entry that was altered or removed.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => sealMutation.mutate()} disabled={sealMutation.isPending}>
+            {sealMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Seal Now
+          </Button>
+          <Button size="sm" onClick={() => exportMutation.mutate({})} disabled={exportMutation.isPending}>
+            {exportMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export Bundle
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !chains || chains.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No audit entries have been sealed yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Chain</TableHead>
+                <TableHead>Entries</TableHead>
+                <TableHead>Last Checkpoint</TableHead>
+                <TableHead>Verification</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {chains.map((chain) => {
+                const key = String(chain.companyId);
+                const result = results[key];
+                return (
+                  <TableRow key={key}>
+                    <TableCell className="font-medium">{chain.companyName}</TableCell>
+                    <TableCell className="text-sm">{chain.entries}</TableCell>
+                    <TableCell className="text-sm">
+                      {chain.lastCheckpointAt
+                        ? `#${chain.lastCheckpointSequence} · ${format(new Date(chain.lastCheckpointAt), "MMM d, yyyy HH:mm")}`
+                        : "None yet"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {!result ? (
+                        <span className="text-muted-foreground">Not verified</span>
+                      ) : result.valid ? (
+                        <Badge className="bg-green-500 gap-1">
+                          <ShieldCheck className="h-3 w-3" />
+                          Intact ({result.checkedEntries} entries, {result.checkpointsVerified} checkpoints)
+                        </Badge>
+                      ) : (
+                        <div className="flex items-start gap-1 text-destructive">
+                          <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+                          <span>{result.firstBreak?.message}</span>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleVerify(chain.companyId)}
+                        disabled={verifying !== null}
+                      >
+                        {verifying === key && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Verify
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { trpc } from "@/lib/trpc";
 import { Plus, Edit, Trash2, Building2, Calendar, Ruler, Layers, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import { saveOfflineBuildingSection } from "@/lib/offlineStorage";
 import { FormattedMeasurement } from "@/components/FormattedMeasurement";
 
 interface BuildingSectionsManagerProps {
@@ -95,6 +96,21 @@ export default function BuildingSectionsManager({ projectId }: BuildingSectionsM
       if (editingSection) {
         await updateMutation.mutateAsync({ sectionId: editingSection.id, ...data });
         toast.success("Section updated successfully");
+      } else if (!navigator.onLine) {
+        // No connection: keep the section in IndexedDB until the sync engine can create it
+        await saveOfflineBuildingSection({
+          projectId,
+          name: data.name,
+          description: data.description ?? null,
+          sectionType: data.sectionType,
+          installDate: data.installDate ?? null,
+          expectedLifespan: data.expectedLifespan ?? null,
+          grossFloorArea: data.grossFloorArea ?? null,
+          numberOfStories: data.numberOfStories ?? null,
+          constructionType: data.constructionType ?? null,
+          notes: data.notes ?? null,
+        });
+        toast.success("Section saved offline. Will sync when connection returns.");
       } else {
         await createMutation.mutateAsync(data);
         toast.success("Section created successfully");
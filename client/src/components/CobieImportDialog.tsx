@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface CobieImportDialogProps {
+  projectId: number | null;
+  projectName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+interface ValidationSummary {
+  sessionId: string;
+  totalRows: number;
+  invalidRows: number;
+  duplicatesInDatabase: number;
+  validationErrors: { row: number; field: string; error: string; severity: string }[];
+}
+
+interface CobieValidation {
+  facilityName: string | null;
+  assets: ValidationSummary;
+  components: ValidationSummary;
+  warnings: string[];
+  canProceed: boolean;
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function CobieImportDialog({ projectId, projectName, open, onOpenChange, onImported }: CobieImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [validation, setValidation] = useState<CobieValidation | null>(null);
+  const [behavior, setBehavior] = useState<"skip_duplicates" | "update_existing">("skip_duplicates");
+
+  const validateMutation = trpc.cobie.validateImport.useMutation();
+  const importMutation = trpc.cobie.import.useMutation();
+
+  const reset = () => {
+    setFile(null);
+    setFileContent(null);
+    setValidation(null);
+    setBehavior("skip_duplicates");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleValidate = async () => {
+    if (!file || !projectId) return;
+    try {
+      const content = await readFileAsBase64(file);
+      setFileContent(content);
+      validateMutation.mutate(
+        { projectId, fileName: file.name, fileContent: content },
+        {
+          onSuccess: (result) => setValidation(result as CobieValidation),
+          onError: (error) => toast.error(error.message),
+        }
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleImport = () => {
+    if (!file || !fileContent || !validation || !projectId) return;
+    importMutation.mutate(
+      {
+        projectId,
+        fileName: file.name,
+        fileContent,
+        assetsSessionId: validation.assets.sessionId,
+        componentsSessionId: validation.components.sessionId,
+        behavior,
+      },
+      {
+        onSuccess: (result) => {
+          const created = (result.assets?.recordsCreated ?? 0) + (result.components?.recordsCreated ?? 0);
+          if (result.success) {
+            toast.success(`COBie import complete: ${result.assets?.recordsCreated ?? 0} assets and ${result.components?.recordsCreated ?? 0} components created`);
+          } else {
+            toast.warning(`COBie import finished with ${result.errors?.length ?? 0} failures (${created} records created)`);
+          }
+          onImported?.();
+          handleOpenChange(false);
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  const errors = validation
+    ? [
+        ...validation.assets.validationErrors.map((e) => ({ ...e, sheet: "Space" })),
+        ...validation.components.validationErrors.map((e) => ({ ...e, sheet: "Component" })),
+      ]
+    : [];
+  const duplicates = validation ? validation.assets.duplicatesInDatabase : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import COBie Workbook</DialogTitle>
+          <DialogDescription>
+            Seed assets (from the Space sheet) and components (from the Component and Type sheets)
+            {projectName ? ` into ${projectName}` : ""}. The workbook is validated before anything is imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="cobieFile">COBie 2.4 workbook (.xlsx)</Label>
+            <Input
+              id="cobieFile"
+              type="file"
+              accept=".xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setValidation(null);
+              }}
+            />
+          </div>
+
+          {validation && (
+            <div className="space-y-3 rounded-md border p-4 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                {validation.canProceed ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                ) : (
+                  <AlertTriangle className="h-4 w-4 text-red-600" />
+                )}
+                {validation.facilityName ? `Facility: ${validation.facilityName}` : "Validation results"}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{validation.assets.totalRows} spaces</Badge>
+                <Badge variant="outline">{validation.components.totalRows} components</Badge>
+                {duplicates > 0 && <Badge variant="secondary">{duplicates} spaces match existing assets</Badge>}
+                {errors.length > 0 && <Badge variant="destructive">{errors.length} issues</Badge>}
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="max-h-40 list-disc space-y-1 overflow-y-auto pl-5 text-muted-foreground">
+                  {errors.slice(0, 50).map((e, i) => (
+                    <li key={i} className={e.severity === "error" ? "text-red-600" : undefined}>
+                      {e.sheet} #{e.row} ({e.field}): {e.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {validation.warnings.length > 0 && (
+                <ul className="max-h-32 list-disc space-y-1 overflow-y-auto pl-5 text-amber-700">
+                  {validation.warnings.slice(0, 50).map((warning, i) => (
+                    <li key={i}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+
+              {validation.canProceed && (
+                <div className="grid gap-2">
+                  <Label>Existing assets and components</Label>
+                  <Select value={behavior} onValueChange={(value) => setBehavior(value as typeof behavior)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip_duplicates">Keep existing, add new only</SelectItem>
+                      <SelectItem value="update_existing">Update existing from the workbook</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {validation?.canProceed ? (
+            <Button type="button" onClick={handleImport} disabled={importMutation.isPending}>
+              {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import
+            </Button>
+          ) : (
+            <Button type="button" onClick={handleValidate} disabled={!file || validateMutation.isPending}>
+              {validateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Validate
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,6 +22,7 @@ import {
   Settings, 
   Leaf, 
   DollarSign, 
+  Search,
   Factory, 
   Sparkles, 
   FileText, 
@@ -48,55 +49,60 @@ import { Button } from "./ui/button";
 import { MFAGracePeriodBanner } from './MFAGracePeriodBanner';
 import { OfflineStatusBanner } from './OfflineStatusBanner';
 import { UnitToggleCompact } from './UnitToggle';
+import { LanguageToggleCompact } from './LanguageToggle';
 import { CompanySelector } from './CompanySelector';
 import { PendingInvitationsBanner } from './PendingInvitationsBanner';
 import { useCompany } from '@/contexts/CompanyContext';
+import { useTranslation, type MessageKey } from '@/contexts/LanguageContext';
 import { usePageVisibility } from '@/hooks/usePageVisibility';
 import { FloatingChatbot } from './FloatingChatbot';
 import { cn } from "@/lib/utils";
 
+type NavItem = { icon: typeof LayoutDashboard; label: string; labelKey: MessageKey; path: string };
+
 // Core Operations - Primary workflow items
-const coreOperationsItems = [
-  { icon: LayoutDashboard, label: "Projects", path: "/" },
-  { icon: DollarSign, label: "RSMeans Cost Data", path: "/rsmeans" },
+const coreOperationsItems: NavItem[] = [
+  { icon: LayoutDashboard, label: "Projects", labelKey: "nav.projects", path: "/" },
+  { icon: DollarSign, label: "RSMeans Cost Data", labelKey: "nav.rsmeans", path: "/rsmeans" },
+  { icon: Search, label: "Search", labelKey: "nav.search", path: "/search" },
 ];
 
 // Reporting & Analytics - Data analysis and insights
-const reportingItems = [
-  { icon: BarChart3, label: "Portfolio Analytics and BI", path: "/portfolio-analytics" },
-  { icon: LineChart, label: "Predictions", path: "/predictions" },
-  { icon: Target, label: "Prioritization", path: "/prioritization" },
-  { icon: Calculator, label: "Capital Budget", path: "/capital-budget" },
-  { icon: Building2, label: "Single Asset Report", path: "/single-asset-report" },
-  { icon: FileCheck, label: "Portfolio-Wide Report", path: "/portfolio-wide-report" },
+const reportingItems: NavItem[] = [
+  { icon: BarChart3, label: "Portfolio Analytics and BI", labelKey: "nav.portfolioAnalytics", path: "/portfolio-analytics" },
+  { icon: LineChart, label: "Predictions", labelKey: "nav.predictions", path: "/predictions" },
+  { icon: Target, label: "Prioritization", labelKey: "nav.prioritization", path: "/prioritization" },
+  { icon: Calculator, label: "Capital Budget", labelKey: "nav.capitalBudget", path: "/capital-budget" },
+  { icon: Building2, label: "Single Asset Report", labelKey: "nav.singleAssetReport", path: "/single-asset-report" },
+  { icon: FileCheck, label: "Portfolio-Wide Report", labelKey: "nav.portfolioWideReport", path: "/portfolio-wide-report" },
 ];
 
 // Sustainability & ESG - Environmental and compliance
-const sustainabilityItems = [
-  { icon: Leaf, label: "ESG Dashboard", path: "/esg-dashboard" },
-  { icon: Award, label: "ESG & LEED", path: "/esg-leed" },
-  { icon: Sparkles, label: "AI Carbon Recommendations", path: "/ai-carbon-recommendations" },
-  { icon: FileText, label: "LEED Compliance Report", path: "/leed-compliance-report" },
-  { icon: Leaf, label: "Sustainability", path: "/sustainability" },
-  { icon: Factory, label: "Carbon Footprint", path: "/carbon-footprint" },
+const sustainabilityItems: NavItem[] = [
+  { icon: Leaf, label: "ESG Dashboard", labelKey: "nav.esgDashboard", path: "/esg-dashboard" },
+  { icon: Award, label: "ESG & LEED", labelKey: "nav.esgLeed", path: "/esg-leed" },
+  { icon: Sparkles, label: "AI Carbon Recommendations", labelKey: "nav.aiCarbonRecommendations", path: "/ai-carbon-recommendations" },
+  { icon: FileText, label: "LEED Compliance Report", labelKey: "nav.leedComplianceReport", path: "/leed-compliance-report" },
+  { icon: Leaf, label: "Sustainability", labelKey: "nav.sustainability", path: "/sustainability" },
+  { icon: Factory, label: "Carbon Footprint", labelKey: "nav.carbonFootprint", path: "/carbon-footprint" },
 ];
 
 // System Management - Trash and archives
-const systemItems = [
-  { icon: Trash2, label: "Deleted Projects", path: "/deleted-projects" },
+const systemItems: NavItem[] = [
+  { icon: Trash2, label: "Deleted Projects", labelKey: "nav.deletedProjects", path: "/deleted-projects" },
 ];
 
 // Admin section items
-const adminItems = [
-  { icon: Shield, label: "Admin Dashboard", path: "/admin" },
-  { icon: Building2, label: "Building Templates", path: "/admin/building-templates" },
-  { icon: Settings, label: "Bulk Service Life", path: "/admin/bulk-service-life-updates" },
-  { icon: ClipboardCheck, label: "Compliance", path: "/admin/compliance" },
-  { icon: Lock, label: "Data Security", path: "/admin/data-security" },
-  { icon: History, label: "Audit Trail", path: "/admin/audit-trail" },
-  { icon: Archive, label: "Archive", path: "/archive" },
-  { icon: TrendingUp, label: "Economic Indicators", path: "/admin/economic-indicators" },
-  { icon: Target, label: "Portfolio Targets", path: "/admin/portfolio-targets" },
+const adminItems: NavItem[] = [
+  { icon: Shield, label: "Admin Dashboard", labelKey: "nav.adminDashboard", path: "/admin" },
+  { icon: Building2, label: "Building Templates", labelKey: "nav.buildingTemplates", path: "/admin/building-templates" },
+  { icon: Settings, label: "Bulk Service Life", labelKey: "nav.bulkServiceLife", path: "/admin/bulk-service-life-updates" },
+  { icon: ClipboardCheck, label: "Compliance", labelKey: "nav.compliance", path: "/admin/compliance" },
+  { icon: Lock, label: "Data Security", labelKey: "nav.dataSecurity", path: "/admin/data-security" },
+  { icon: History, label: "Audit Trail", labelKey: "nav.auditTrail", path: "/admin/audit-trail" },
+  { icon: Archive, label: "Archive", labelKey: "nav.archive", path: "/archive" },
+  { icon: TrendingUp, label: "Economic Indicators", labelKey: "nav.economicIndicators", path: "/admin/economic-indicators" },
+  { icon: Target, label: "Portfolio Targets", labelKey: "nav.portfolioTargets", path: "/admin/portfolio-targets" },
 ];
 
 export default function DashboardLayout({
@@ -105,6 +111,7 @@ export default function DashboardLayout({
   children: React.ReactNode;
 }) {
   const { loading, user } = useAuth();
+  const { t } = useTranslation();
 
   if (loading) {
     return <DashboardLayoutSkeleton />
@@ -130,7 +137,7 @@ export default function DashboardLayout({
                 {APP_TAGLINE}
               </p>
               <p className="text-sm text-muted-foreground">
-                Please sign in to continue
+                {t("common.signInPrompt")}
               </p>
             </div>
           </div>
@@ -141,7 +148,7 @@ export default function DashboardLayout({
             size="lg"
             className="w-full shadow-lg hover:shadow-xl transition-all"
           >
-            Sign in
+            {t("common.signIn")}
           </Button>
         </div>
       </div>
@@ -161,6 +168,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
   const isMobile = useIsMobile();
   const { isSuperAdmin, selectedCompany } = useCompany();
   const { filterMenuItems } = usePageVisibility();
+  const { t } = useTranslation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   
   // Check if any project has multiple assets for portfolio analytics visibility
@@ -233,7 +241,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                     )}
                   >
                     <item.icon className="h-4 w-4" />
-                    {item.label}
+                    {t(item.labelKey)}
                   </button>
                 );
               })}
@@ -249,7 +257,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                         : "text-muted-foreground hover:bg-accent hover:text-foreground"
                     )}>
                       <BarChart3 className="h-4 w-4" />
-                      Reporting & Analytics
+                      {t("nav.reportingAnalytics")}
                       <ChevronDown className="h-3 w-3" />
                     </button>
                   </DropdownMenuTrigger>
@@ -263,7 +271,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                           className={cn(isActive && "bg-primary/10 text-primary")}
                         >
                           <item.icon className="h-4 w-4 mr-2" />
-                          {item.label}
+                          {t(item.labelKey)}
                         </DropdownMenuItem>
                       );
                     })}
@@ -282,7 +290,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                         : "text-muted-foreground hover:bg-accent hover:text-foreground"
                     )}>
                       <Leaf className="h-4 w-4" />
-                      Sustainability & ESG
+                      {t("nav.sustainabilityEsg")}
                       <ChevronDown className="h-3 w-3" />
                     </button>
                   </DropdownMenuTrigger>
@@ -296,7 +304,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                           className={cn(isActive && "bg-primary/10 text-primary")}
                         >
                           <item.icon className="h-4 w-4 mr-2" />
-                          {item.label}
+                          {t(item.labelKey)}
                         </DropdownMenuItem>
                       );
                     })}
@@ -315,7 +323,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                         : "text-muted-foreground hover:bg-accent hover:text-foreground"
                     )}>
                       <Shield className="h-4 w-4" />
-                      Administration
+                      {t("nav.administration")}
                       <ChevronDown className="h-3 w-3" />
                     </button>
                   </DropdownMenuTrigger>
@@ -329,7 +337,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                           className={cn(isActive && "bg-primary/10 text-primary")}
                         >
                           <item.icon className="h-4 w-4 mr-2" />
-                          {item.label}
+                          {t(item.labelKey)}
                         </DropdownMenuItem>
                       );
                     })}
@@ -352,7 +360,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                     )}
                   >
                     <item.icon className="h-4 w-4" />
-                    {item.label}
+                    {t(item.labelKey)}
                   </button>
                 );
               })}
@@ -380,8 +388,9 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                 <CompanySelector />
               </div>
 
-              {/* Unit Toggle */}
+              {/* Unit and Language Toggles */}
               <UnitToggleCompact />
+              <LanguageToggleCompact />
 
               {/* User Menu */}
               <DropdownMenu>
@@ -398,14 +407,14 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                 <DropdownMenuContent align="end" className="w-56">
                   <DropdownMenuLabel>
                     <div className="flex flex-col space-y-1">
-                      <p className="text-sm font-medium">{user?.name || "User"}</p>
+                      <p className="text-sm font-medium">{user?.name || t("common.user")}</p>
                       <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
                     </div>
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={() => logout()}>
                     <LogOut className="h-4 w-4 mr-2" />
-                    Logout
+                    {t("common.logout")}
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -437,7 +446,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                     )}
                   >
                     <item.icon className="h-4 w-4" />
-                    {item.label}
+                    {t(item.labelKey)}
                   </button>
                 );
               })}
@@ -447,7 +456,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                 <>
                   <div className="pt-2 pb-1 px-3">
                     <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                      Reporting & Analytics
+                      {t("nav.reportingAnalytics")}
                     </p>
                   </div>
                   {filteredReportingItems.map(item => {
@@ -464,7 +473,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                         )}
                       >
                         <item.icon className="h-4 w-4" />
-                        {item.label}
+                        {t(item.labelKey)}
                       </button>
                     );
                   })}
@@ -476,7 +485,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                 <>
                   <div className="pt-2 pb-1 px-3">
                     <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                      Sustainability & ESG
+                      {t("nav.sustainabilityEsg")}
                     </p>
                   </div>
                   {filteredSustainabilityItems.map(item => {
@@ -493,7 +502,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                         )}
                       >
                         <item.icon className="h-4 w-4" />
-                        {item.label}
+                        {t(item.labelKey)}
                       </button>
                     );
                   })}
@@ -505,7 +514,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                 <>
                   <div className="pt-2 pb-1 px-3">
                     <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                      Administration
+                      {t("nav.administration")}
                     </p>
                   </div>
                   {filteredAdminItems.map(item => {
@@ -522,7 +531,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                         )}
                       >
                         <item.icon className="h-4 w-4" />
-                        {item.label}
+                        {t(item.labelKey)}
                       </button>
                     );
                   })}
@@ -544,7 +553,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                     )}
                   >
                     <item.icon className="h-4 w-4" />
-                    {item.label}
+                    {t(item.labelKey)}
                   </button>
                 );
               })}
@@ -558,9 +567,10 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                     </AvatarFallback>
                   </Avatar>
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{user?.name || "User"}</p>
+                    <p className="text-sm font-medium truncate">{user?.name || t("common.user")}</p>
                     <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
                   </div>
+                  <LanguageToggleCompact />
                 </div>
                 <button
                   onClick={() => {
@@ -570,7 +580,7 @@ function DashboardLayoutContent({ children }: DashboardLayoutContentProps) {
                   className="flex items-center gap-3 w-full px-3 py-2.5 text-sm text-muted-foreground hover:bg-accent hover:text-foreground rounded-md transition-colors"
                 >
                   <LogOut className="h-4 w-4" />
-                  Logout
+                  {t("common.logout")}
                 </button>
               </div>
             </div>
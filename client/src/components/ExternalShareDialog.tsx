@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Ban, Copy, Link2, Loader2, Lock } from "lucide-react";
+
+type ResourceType = "project" | "asset_report" | "portfolio_report";
+
+const RESOURCE_LABELS: Record<ResourceType, string> = {
+  project: "Project overview",
+  asset_report: "Asset report",
+  portfolio_report: "Portfolio report",
+};
+
+interface ExternalShareDialogProps {
+  projectId: number;
+  projectName: string;
+}
+
+interface ShareLinkRow {
+  id: number;
+  resourceType: ResourceType;
+  label: string | null;
+  assetId: number | null;
+  expiresAt: string;
+  viewCount: number;
+  lastViewedAt: string | null;
+  passwordProtected: boolean;
+  status: "active" | "revoked" | "expired";
+}
+
+/**
+ * Create and manage expiring read-only links for people without an account
+ */
+export function ExternalShareDialog({ projectId, projectName }: ExternalShareDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [resourceType, setResourceType] = useState<ResourceType>("project");
+  const [assetId, setAssetId] = useState("");
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [password, setPassword] = useState("");
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: assets } = trpc.assets.list.useQuery({ projectId }, { enabled: open });
+  const { data, isLoading } = trpc.sharing.listExternalLinks.useQuery({ projectId }, { enabled: open });
+  const links = (data ?? []) as ShareLinkRow[];
+
+  const createMutation = trpc.sharing.createExternalLink.useMutation({
+    onSuccess: (result) => {
+      setCreatedUrl(`${window.location.origin}/share/${result.token}`);
+      setLabel("");
+      setPassword("");
+      utils.sharing.listExternalLinks.invalidate({ projectId });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revokeMutation = trpc.sharing.revokeExternalLink.useMutation({
+    onSuccess: () => {
+      toast.success("Share link revoked");
+      utils.sharing.listExternalLinks.invalidate({ projectId });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleCreate = () => {
+    if (resourceType === "asset_report" && !assetId) {
+      toast.error("Select the asset to share");
+      return;
+    }
+    createMutation.mutate({
+      projectId,
+      resourceType,
+      assetId: resourceType === "asset_report" ? Number(assetId) : undefined,
+      label: label || undefined,
+      expiresInDays: Number(expiresInDays),
+      password: password || undefined,
+    });
+  };
+
+  const getStatusBadge = (status: ShareLinkRow["status"]) => {
+    switch (status) {
+      case "active":
+        return <Badge variant="default" className="bg-green-500">Active</Badge>;
+      case "expired":
+        return <Badge variant="secondary">Expired</Badge>;
+      default:
+        return <Badge variant="destructive">Revoked</Badge>;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) setCreatedUrl(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-none">
+          <Link2 className="mr-2 h-4 w-4" />
+          Share Link
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>External Share Links</DialogTitle>
+          <DialogDescription>
+            Send a read-only view of "{projectName}" to someone without an account. Links expire, can be revoked at any
+            time, and every view is recorded in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdUrl && (
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 space-y-2">
+            <p className="text-sm">Copy this link now; it will not be shown again.</p>
+            <div className="flex gap-2">
+              <Input readOnly value={createdUrl} className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdUrl);
+                  toast.success("Link copied");
+                }}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>Share</Label>
+            <Select value={resourceType} onValueChange={(value) => setResourceType(value as ResourceType)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RESOURCE_LABELS) as ResourceType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{RESOURCE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {resourceType === "asset_report" && (
+            <div className="space-y-1">
+              <Label>Asset</Label>
+              <Select value={assetId} onValueChange={setAssetId}>
+                <SelectTrigger><SelectValue placeholder="Select an asset..." /></SelectTrigger>
+                <SelectContent>
+                  {assets?.map((asset) => (
+                    <SelectItem key={asset.id} value={String(asset.id)}>{asset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>Label (optional)</Label>
+            <Input placeholder="e.g. Roofing contractor" value={label} onChange={(e) => setLabel(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Expires after</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 day</SelectItem>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="30">30 days</SelectItem>
+                <SelectItem value="90">90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Password (optional, min 6 characters)</Label>
+            <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+          </div>
+        </div>
+        <div>
+          <Button onClick={handleCreate} disabled={createMutation.isPending}>
+            {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Links</Label>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">No external links for this project yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Views</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {links.map((link) => (
+                  <TableRow key={link.id}>
+                    <TableCell>
+                      <span className="flex items-center gap-1">
+                        {link.passwordProtected && <Lock className="h-3 w-3" />}
+                        {link.label}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-xs">{RESOURCE_LABELS[link.resourceType]}</TableCell>
+                    <TableCell className="text-xs">{new Date(link.expiresAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-xs">
+                      {link.viewCount}
+                      {link.lastViewedAt && (
+                        <span className="text-muted-foreground"> (last {new Date(link.lastViewedAt).toLocaleDateString()})</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(link.status)}</TableCell>
+                    <TableCell>
+                      {link.status === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (confirm("Revoke this link? Anyone using it will lose access immediately.")) {
+                              revokeMutation.mutate({ id: link.id });
+                            }
+                          }}
+                        >
+                          <Ban className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
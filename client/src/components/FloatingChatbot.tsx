@@ -18,12 +18,21 @@ import {
   HelpCircle,
   Building2,
   FolderOpen,
+  ExternalLink,
 } from "lucide-react";
 import { Streamdown } from "streamdown";
 
+type Citation = {
+  ref: string;
+  label: string;
+  url: string;
+};
+
 type Message = {
   role: "user" | "assistant";
   content: string;
+  /** Records the answer was drawn from */
+  citations?: Citation[];
 };
 
 const DEFAULT_PROMPTS = [
@@ -78,6 +87,7 @@ function usePageContext() {
 
 export function FloatingChatbot() {
   const { isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -106,7 +116,15 @@ export function FloatingChatbot() {
     onSuccess: (data) => {
       setMessages((prev) => [
         ...prev,
-        { role: "assistant", content: data.response },
+        {
+          role: "assistant",
+          content: data.response,
+          citations: data.citations.map((citation) => ({
+            ref: citation.ref,
+            label: citation.label,
+            url: citation.url,
+          })),
+        },
       ]);
     },
     onError: (error) => {
@@ -152,7 +170,7 @@ export function FloatingChatbot() {
     // Send to API with context
     chatMutation.mutate({
       message: trimmedContent,
-      history: messages.slice(-10), // Keep last 10 messages for context
+      history: messages.slice(-10).map(({ role, content }) => ({ role, content })), // Keep last 10 messages for context
       projectId,
       assetId,
     });
@@ -345,6 +363,24 @@ export function FloatingChatbot() {
                             {message.role === "assistant" ? (
                               <div className="prose prose-sm dark:prose-invert max-w-none [&_p]:m-0 [&_ul]:m-0 [&_ol]:m-0 [&_li]:m-0">
                                 <Streamdown>{message.content}</Streamdown>
+                                {message.citations && message.citations.length > 0 && (
+                                  <div className="mt-2 pt-2 border-t border-border/60 not-prose">
+                                    <p className="text-xs font-medium text-muted-foreground mb-1">Sources</p>
+                                    <div className="flex flex-wrap gap-1">
+                                      {message.citations.map((citation) => (
+                                        <button
+                                          key={citation.ref}
+                                          type="button"
+                                          onClick={() => setLocation(citation.url)}
+                                          className="inline-flex items-center gap-1 rounded border bg-background px-1.5 py-0.5 text-xs hover:bg-accent"
+                                        >
+                                          <ExternalLink className="w-3 h-3" />
+                                          <span className="max-w-[180px] truncate">{citation.label}</span>
+                                        </button>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
                               </div>
                             ) : (
                               <p className="whitespace-pre-wrap">
@@ -0,0 +1,494 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { trpc } from "@/lib/trpc";
+import { Plus, Trash2, Map as MapIcon, Loader2, MapPin, X, Move } from "lucide-react";
+import { toast } from "sonner";
+import FloorPlanViewer from "@/components/FloorPlanViewer";
+import { PIN_COLORS, type FloorPlanHeatmapMode, type FloorPlanPin, type FloorPlanPinType } from "@shared/floorPlans";
+
+interface FloorPlanManagerProps {
+  projectId: number;
+}
+
+type PinSelection = { type: FloorPlanPinType; id: number; label: string };
+
+const PIN_TYPE_LABELS: Record<FloorPlanPinType, string> = {
+  assessment: "Assessment",
+  deficiency: "Deficiency",
+  photo: "Photo",
+};
+
+/**
+ * Read an image file as base64 and measure its pixel dimensions
+ */
+function readImageFile(file: File): Promise<{ base64: string; width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      const image = new Image();
+      image.onload = () => resolve({
+        base64: dataUrl.split(",")[1]!,
+        width: image.naturalWidth,
+        height: image.naturalHeight,
+      });
+      image.onerror = () => reject(new Error("File is not a readable image"));
+      image.src = dataUrl;
+    };
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function FloorPlanManager({ projectId }: FloorPlanManagerProps) {
+  const [sectionFilter, setSectionFilter] = useState<string>("all");
+  const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const [heatmapMode, setHeatmapMode] = useState<FloorPlanHeatmapMode | "none">("none");
+  const [placing, setPlacing] = useState<PinSelection | null>(null);
+  const [selectedPin, setSelectedPin] = useState<PinSelection | null>(null);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadForm, setUploadForm] = useState({
+    name: "",
+    floorLevel: "",
+    sectionId: "none",
+    assetId: "none",
+    file: null as File | null,
+  });
+
+  const utils = trpc.useUtils();
+  const { data: sections } = trpc.buildingSections.list.useQuery({ projectId });
+  const { data: assets } = trpc.assets.list.useQuery({ projectId });
+  const { data: plans, isLoading } = trpc.floorPlans.list.useQuery({
+    projectId,
+    sectionId: sectionFilter === "all" ? undefined : Number(sectionFilter),
+  });
+  const { data: plan } = trpc.floorPlans.get.useQuery(
+    { id: selectedPlanId! },
+    { enabled: selectedPlanId !== null }
+  );
+  const { data: unplaced } = trpc.floorPlans.unplaced.useQuery({ projectId });
+
+  const uploadMutation = trpc.floorPlans.upload.useMutation();
+  const deleteMutation = trpc.floorPlans.delete.useMutation();
+  const placePinMutation = trpc.floorPlans.placePin.useMutation();
+  const removePinMutation = trpc.floorPlans.removePin.useMutation();
+
+  // Keep a plan selected as the filter changes
+  useEffect(() => {
+    if (!plans) return;
+    if (plans.length === 0) {
+      setSelectedPlanId(null);
+    } else if (!plans.some(p => p.id === selectedPlanId)) {
+      setSelectedPlanId(plans[0].id);
+    }
+  }, [plans, selectedPlanId]);
+
+  const sectionNames = useMemo(
+    () => new Map((sections || []).map((s: any) => [s.id, s.name as string])),
+    [sections]
+  );
+
+  const refreshPins = async () => {
+    await Promise.all([
+      utils.floorPlans.get.invalidate(),
+      utils.floorPlans.list.invalidate(),
+      utils.floorPlans.unplaced.invalidate(),
+    ]);
+  };
+
+  const handleUpload = async () => {
+    if (!uploadForm.name.trim()) {
+      toast.error("Floor plan name is required");
+      return;
+    }
+    if (!uploadForm.file) {
+      toast.error("Select an image to upload");
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const { base64, width, height } = await readImageFile(uploadForm.file);
+      const result = await uploadMutation.mutateAsync({
+        projectId,
+        name: uploadForm.name.trim(),
+        floorLevel: uploadForm.floorLevel || undefined,
+        sectionId: uploadForm.sectionId === "none" ? null : Number(uploadForm.sectionId),
+        assetId: uploadForm.assetId === "none" ? null : Number(uploadForm.assetId),
+        fileName: uploadForm.file.name,
+        fileData: base64,
+        mimeType: uploadForm.file.type,
+        imageWidth: width,
+        imageHeight: height,
+      });
+      toast.success("Floor plan uploaded");
+      setIsUploadOpen(false);
+      setUploadForm({ name: "", floorLevel: "", sectionId: "none", assetId: "none", file: null });
+      await utils.floorPlans.list.invalidate();
+      setSelectedPlanId(result.id);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to upload floor plan");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDeletePlan = async () => {
+    if (!plan) return;
+    if (!confirm(`Delete floor plan "${plan.name}"? Pinned items will remain in the project but will be unplaced.`)) {
+      return;
+    }
+    try {
+      await deleteMutation.mutateAsync({ id: plan.id });
+      toast.success("Floor plan deleted");
+      setSelectedPlanId(null);
+      await refreshPins();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete floor plan");
+    }
+  };
+
+  const handlePlace = async (x: number, y: number) => {
+    if (!placing || !plan) return;
+    try {
+      await placePinMutation.mutateAsync({ floorPlanId: plan.id, type: placing.type, id: placing.id, x, y });
+      toast.success(`${placing.label} placed`);
+      setPlacing(null);
+      await refreshPins();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to place pin");
+    }
+  };
+
+  const handleRemovePin = async () => {
+    if (!selectedPin || !plan) return;
+    try {
+      await removePinMutation.mutateAsync({ floorPlanId: plan.id, type: selectedPin.type, id: selectedPin.id });
+      toast.success("Pin removed");
+      setSelectedPin(null);
+      await refreshPins();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to remove pin");
+    }
+  };
+
+  const renderCandidate = (type: FloorPlanPinType, id: number, label: string, detail?: string | null) => {
+    const isActive = placing?.type === type && placing.id === id;
+    return (
+      <button
+        key={`${type}-${id}`}
+        type="button"
+        disabled={!plan}
+        onClick={() => setPlacing(isActive ? null : { type, id, label })}
+        className={`w-full text-left rounded border px-2 py-1.5 text-sm hover:bg-muted disabled:opacity-50 ${
+          isActive ? "border-primary bg-muted" : ""
+        }`}
+      >
+        <p className="font-medium truncate">{label}</p>
+        {detail && <p className="text-xs text-muted-foreground capitalize">{detail}</p>}
+      </button>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Floor Plans</h3>
+          <p className="text-sm text-muted-foreground">
+            Pin photos, deficiencies and assessments to their location on each floor
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={sectionFilter} onValueChange={setSectionFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="All sections" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sections</SelectItem>
+              {sections?.map((section: any) => (
+                <SelectItem key={section.id} value={String(section.id)}>{section.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setIsUploadOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Upload Floor Plan
+          </Button>
+        </div>
+      </div>
+
+      {plans && plans.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <MapIcon className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground mb-4">
+              No floor plans uploaded yet. Upload a plan image to start placing pins.
+            </p>
+            <Button onClick={() => setIsUploadOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Upload First Floor Plan
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr_260px] gap-4">
+          {/* Plan list */}
+          <div className="space-y-2">
+            {plans?.map((p) => {
+              const total = p.pinCounts.photo + p.pinCounts.deficiency + p.pinCounts.assessment;
+              return (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedPlanId(p.id);
+                    setPlacing(null);
+                    setSelectedPin(null);
+                  }}
+                  className={`w-full text-left rounded border p-3 hover:bg-muted ${
+                    p.id === selectedPlanId ? "border-primary bg-muted" : ""
+                  }`}
+                >
+                  <p className="font-medium truncate">{p.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[p.floorLevel, p.sectionId ? sectionNames.get(p.sectionId) : null].filter(Boolean).join(" · ") || "No section"}
+                  </p>
+                  <Badge variant="secondary" className="mt-1">{total} pins</Badge>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Viewer */}
+          <Card>
+            {plan ? (
+              <>
+                <CardHeader className="pb-3">
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <CardTitle>{plan.name}</CardTitle>
+                      {plan.floorLevel && <CardDescription>{plan.floorLevel}</CardDescription>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select value={heatmapMode} onValueChange={(v) => setHeatmapMode(v as FloorPlanHeatmapMode | "none")}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No heat map</SelectItem>
+                          <SelectItem value="condition">Condition heat map</SelectItem>
+                          <SelectItem value="severity">Severity heat map</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button variant="ghost" size="icon" onClick={handleDeletePlan}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {placing && (
+                    <div className="flex items-center justify-between rounded bg-muted px-3 py-2 text-sm">
+                      <span>Click on the plan to place <strong>{placing.label}</strong></span>
+                      <Button variant="ghost" size="sm" onClick={() => setPlacing(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  <FloorPlanViewer
+                    imageUrl={plan.imageUrl}
+                    imageWidth={plan.imageWidth}
+                    imageHeight={plan.imageHeight}
+                    pins={plan.pins as FloorPlanPin[]}
+                    heatmapMode={heatmapMode}
+                    onPlace={placing ? handlePlace : undefined}
+                    selectedPin={selectedPin}
+                    onPinClick={(pin) => setSelectedPin({ type: pin.type, id: pin.id, label: pin.label })}
+                  />
+                  <div className="flex gap-4 text-xs text-muted-foreground">
+                    {(Object.keys(PIN_TYPE_LABELS) as FloorPlanPinType[]).map((type) => (
+                      <span key={type} className="flex items-center gap-1">
+                        <span
+                          className="inline-block h-3 w-3 rounded-full"
+                          style={{ backgroundColor: `rgb(${PIN_COLORS[type].join(", ")})` }}
+                        />
+                        {PIN_TYPE_LABELS[type]}
+                      </span>
+                    ))}
+                  </div>
+                </CardContent>
+              </>
+            ) : (
+              <CardContent className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </CardContent>
+            )}
+          </Card>
+
+          {/* Pin palette */}
+          <div className="space-y-4">
+            {selectedPin && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <MapPin className="h-4 w-4" />
+                    {selectedPin.label}
+                  </CardTitle>
+                  <CardDescription>{PIN_TYPE_LABELS[selectedPin.type]}</CardDescription>
+                </CardHeader>
+                <CardContent className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setPlacing(selectedPin)}>
+                    <Move className="h-4 w-4 mr-1" />
+                    Move
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={handleRemovePin}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Unplaced Items</CardTitle>
+                <CardDescription>Select an item, then click the plan</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="deficiency">
+                  <TabsList className="w-full">
+                    <TabsTrigger value="deficiency">Deficiencies</TabsTrigger>
+                    <TabsTrigger value="assessment">Assessments</TabsTrigger>
+                    <TabsTrigger value="photo">Photos</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="deficiency" className="space-y-1 max-h-96 overflow-y-auto">
+                    {unplaced?.deficiencies.length === 0 && (
+                      <p className="text-sm text-muted-foreground py-2">All deficiencies are placed</p>
+                    )}
+                    {unplaced?.deficiencies.map((d) =>
+                      renderCandidate("deficiency", d.id, d.title, `${d.componentCode} · ${d.severity}`)
+                    )}
+                  </TabsContent>
+                  <TabsContent value="assessment" className="space-y-1 max-h-96 overflow-y-auto">
+                    {unplaced?.assessments.length === 0 && (
+                      <p className="text-sm text-muted-foreground py-2">All assessments are placed</p>
+                    )}
+                    {unplaced?.assessments.map((a) =>
+                      renderCandidate(
+                        "assessment",
+                        a.id,
+                        a.componentName || a.componentCode || `Assessment #${a.id}`,
+                        [a.componentCode, a.condition].filter(Boolean).join(" · ")
+                      )
+                    )}
+                  </TabsContent>
+                  <TabsContent value="photo" className="space-y-1 max-h-96 overflow-y-auto">
+                    {unplaced?.photos.length === 0 && (
+                      <p className="text-sm text-muted-foreground py-2">All photos are placed</p>
+                    )}
+                    {unplaced?.photos.map((p) =>
+                      renderCandidate("photo", p.id, p.caption || `Photo #${p.id}`, p.componentCode)
+                    )}
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Upload Floor Plan</DialogTitle>
+            <DialogDescription>PNG, JPEG or WebP image, up to 20MB</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="floorPlanName">Name *</Label>
+              <Input
+                id="floorPlanName"
+                value={uploadForm.name}
+                onChange={(e) => setUploadForm({ ...uploadForm, name: e.target.value })}
+                placeholder="e.g., Ground Floor"
+              />
+            </div>
+            <div>
+              <Label htmlFor="floorLevel">Floor Level</Label>
+              <Input
+                id="floorLevel"
+                value={uploadForm.floorLevel}
+                onChange={(e) => setUploadForm({ ...uploadForm, floorLevel: e.target.value })}
+                placeholder="e.g., Level 1"
+              />
+            </div>
+            <div>
+              <Label>Building Section</Label>
+              <Select value={uploadForm.sectionId} onValueChange={(v) => setUploadForm({ ...uploadForm, sectionId: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No section</SelectItem>
+                  {sections?.map((section: any) => (
+                    <SelectItem key={section.id} value={String(section.id)}>{section.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Asset</Label>
+              <Select value={uploadForm.assetId} onValueChange={(v) => setUploadForm({ ...uploadForm, assetId: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No asset</SelectItem>
+                  {assets?.map((asset: any) => (
+                    <SelectItem key={asset.id} value={String(asset.id)}>{asset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Linked plans are included in the asset's PDF report
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="floorPlanFile">Image *</Label>
+              <Input
+                id="floorPlanFile"
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                onChange={(e) => setUploadForm({ ...uploadForm, file: e.target.files?.[0] || null })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsUploadOpen(false)}>Cancel</Button>
+            <Button onClick={handleUpload} disabled={isUploading}>
+              {isUploading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Upload
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  PIN_COLORS,
+  clampPinCoordinate,
+  computeHeatmapGrid,
+  heatmapColor,
+  type FloorPlanHeatmapMode,
+  type FloorPlanPin,
+} from "@shared/floorPlans";
+
+interface FloorPlanViewerProps {
+  imageUrl: string;
+  imageWidth?: number | null;
+  imageHeight?: number | null;
+  pins: FloorPlanPin[];
+  heatmapMode: FloorPlanHeatmapMode | "none";
+  /** When set, clicking the plan reports the clicked position (0-1 fractions) */
+  onPlace?: (x: number, y: number) => void;
+  selectedPin?: { type: FloorPlanPin["type"]; id: number } | null;
+  onPinClick?: (pin: FloorPlanPin) => void;
+}
+
+/**
+ * Floor plan image with pins and an optional heat-map overlay
+ * Pins are positioned in percentages so they stay put as the image scales
+ */
+export default function FloorPlanViewer({
+  imageUrl,
+  imageWidth,
+  imageHeight,
+  pins,
+  heatmapMode,
+  onPlace,
+  selectedPin,
+  onPinClick,
+}: FloorPlanViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(
+    imageWidth && imageHeight ? { width: imageWidth, height: imageHeight } : null
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    if (heatmapMode === "none" || !naturalSize) {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    const grid = computeHeatmapGrid(pins, heatmapMode, {
+      aspectRatio: naturalSize.width / naturalSize.height,
+      columns: 64,
+    });
+    canvas.width = grid.columns;
+    canvas.height = grid.rows;
+
+    // One pixel per cell; the browser smooths it when the canvas is stretched over the image
+    const image = context.createImageData(grid.columns, grid.rows);
+    grid.cells.forEach((value, index) => {
+      const [r, g, b] = heatmapColor(value);
+      image.data[index * 4] = r;
+      image.data[index * 4 + 1] = g;
+      image.data[index * 4 + 2] = b;
+      image.data[index * 4 + 3] = value < 0.05 ? 0 : Math.round(Math.min(1, value) * 150);
+    });
+    context.putImageData(image, 0, 0);
+  }, [pins, heatmapMode, naturalSize]);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPlace) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onPlace(
+      clampPinCoordinate((event.clientX - rect.left) / rect.width),
+      clampPinCoordinate((event.clientY - rect.top) / rect.height)
+    );
+  };
+
+  return (
+    <div
+      className={`relative inline-block w-full select-none ${onPlace ? "cursor-crosshair" : ""}`}
+      onClick={handleClick}
+    >
+      <img
+        src={imageUrl}
+        alt="Floor plan"
+        className="block w-full h-auto rounded border"
+        draggable={false}
+        onLoad={(e) => {
+          if (!naturalSize) {
+            setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+          }
+        }}
+      />
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none rounded"
+        style={{ display: heatmapMode === "none" ? "none" : "block" }}
+      />
+      {pins.map((pin) => {
+        const [r, g, b] = PIN_COLORS[pin.type];
+        const isSelected = selectedPin?.type === pin.type && selectedPin.id === pin.id;
+        return (
+          <Tooltip key={`${pin.type}-${pin.id}`}>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow ${
+                  isSelected ? "h-5 w-5 ring-2 ring-offset-1 ring-black" : "h-4 w-4"
+                }`}
+                style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%`, backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPinClick?.(pin);
+                }}
+              />
+            </TooltipTrigger>
+            <TooltipContent>
+              <div className="space-y-1">
+                <p className="font-medium">{pin.label}</p>
+                <p className="text-xs capitalize">
+                  {pin.type}
+                  {pin.condition && ` · ${pin.condition}`}
+                  {pin.severity && ` · ${pin.severity}`}
+                  {pin.status && ` · ${pin.status.replace(/_/g, " ")}`}
+                </p>
+                {pin.thumbnailUrl && (
+                  <img src={pin.thumbnailUrl} alt={pin.label} className="h-20 w-auto rounded" />
+                )}
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
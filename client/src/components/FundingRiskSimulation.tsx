@@ -0,0 +1,435 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Play, Trash2, Dices, GitCompare } from "lucide-react";
+import { toast } from "sonner";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+interface FundingRiskSimulationProps {
+  cycleId: number;
+}
+
+const COMPARE_COLORS = ["#8884d8", "#82ca9d", "#ff7300", "#d0021b", "#4a90e2"];
+
+const formatMoney = (value: number | string | null | undefined) =>
+  `$${Math.round(parseFloat(String(value ?? 0)) || 0).toLocaleString()}`;
+const formatPercent = (value: number | string | null | undefined, digits = 1) =>
+  `${((parseFloat(String(value ?? 0)) || 0) * 100).toFixed(digits)}%`;
+
+export function FundingRiskSimulation({ cycleId }: FundingRiskSimulationProps) {
+  const [form, setForm] = useState({
+    name: "",
+    iterations: "1000",
+    costUncertaintyLow: "15",
+    costUncertaintyHigh: "30",
+    inflationVolatility: "1",
+  });
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+
+  const utils = trpc.useUtils();
+  const { data: runs, isLoading: runsLoading } = trpc.capitalPlanning.getSimulationRuns.useQuery({ cycleId });
+  const { data: selectedRun } = trpc.capitalPlanning.getSimulationRun.useQuery(
+    { runId: selectedRunId! },
+    { enabled: selectedRunId !== null }
+  );
+  const { data: comparison } = trpc.capitalPlanning.compareSimulationRuns.useQuery(
+    { runIds: compareIds },
+    { enabled: compareIds.length >= 2 }
+  );
+
+  const runMutation = trpc.capitalPlanning.runSimulation.useMutation({
+    onSuccess: (run) => {
+      utils.capitalPlanning.getSimulationRuns.invalidate({ cycleId });
+      if (run?.status === "failed") {
+        toast.error(run.errorMessage || "Simulation failed");
+      } else if (run) {
+        toast.success("Simulation complete");
+        setSelectedRunId(run.id);
+      }
+    },
+    onError: (error) => toast.error(error.message || "Failed to run simulation"),
+  });
+
+  const deleteMutation = trpc.capitalPlanning.deleteSimulationRun.useMutation({
+    onError: (error) => toast.error(error.message || "Failed to delete run"),
+  });
+
+  const handleDelete = (runId: number) => {
+    deleteMutation.mutate({ runId }, {
+      onSuccess: () => {
+        utils.capitalPlanning.getSimulationRuns.invalidate({ cycleId });
+        setCompareIds((ids) => ids.filter((id) => id !== runId));
+        if (selectedRunId === runId) setSelectedRunId(null);
+      },
+    });
+  };
+
+  const handleRun = () => {
+    runMutation.mutate({
+      cycleId,
+      name: form.name || undefined,
+      iterations: parseInt(form.iterations),
+      costUncertaintyLow: (parseFloat(form.costUncertaintyLow) || 0) / 100,
+      costUncertaintyHigh: (parseFloat(form.costUncertaintyHigh) || 0) / 100,
+      inflationVolatility: parseFloat(form.inflationVolatility) || 0,
+    });
+  };
+
+  const toggleCompare = (runId: number, checked: boolean) => {
+    setCompareIds((ids) => (checked ? [...ids, runId].slice(-5) : ids.filter((id) => id !== runId)));
+  };
+
+  const runLabel = (run: { id?: number; name?: string | null }) => run.name || `Run #${run.id}`;
+
+  const selectedYears = selectedRun?.results?.years.map((y) => ({
+    year: y.year,
+    p10: y.backlog.p10,
+    p50: y.backlog.p50,
+    p90: y.backlog.p90,
+    fciP10: y.fci.p10 * 100,
+    fciP50: y.fci.p50 * 100,
+    fciP90: y.fci.p90 * 100,
+  }));
+
+  const comparisonYears = comparison?.[0]?.results?.years.map((y, index) => {
+    const row: Record<string, number> = { year: y.year };
+    comparison.forEach((run) => {
+      row[`run${run.id}`] = run.results?.years[index]?.backlog.p50 ?? 0;
+    });
+    return row;
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <Dices className="h-6 w-6" />
+          Funding Risk Simulation
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Monte Carlo ranges for backlog, FCI and unfunded critical needs, sampling cost, inflation and remaining-life uncertainty
+        </p>
+      </div>
+
+      {/* Run configuration */}
+      <Card>
+        <CardHeader>
+          <CardTitle>New Simulation Run</CardTitle>
+          <CardDescription>Remaining-life ranges come from each component's best, design and worst deterioration curves</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="simName">Run Name</Label>
+              <Input
+                id="simName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <Label>Iterations</Label>
+              <Select value={form.iterations} onValueChange={(v) => setForm({ ...form, iterations: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="500">500</SelectItem>
+                  <SelectItem value="1000">1,000</SelectItem>
+                  <SelectItem value="2500">2,500</SelectItem>
+                  <SelectItem value="5000">5,000</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="costLow">Cost Under-run (%)</Label>
+              <Input
+                id="costLow"
+                type="number"
+                min={0}
+                max={90}
+                value={form.costUncertaintyLow}
+                onChange={(e) => setForm({ ...form, costUncertaintyLow: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="costHigh">Cost Overrun (%)</Label>
+              <Input
+                id="costHigh"
+                type="number"
+                min={0}
+                max={300}
+                value={form.costUncertaintyHigh}
+                onChange={(e) => setForm({ ...form, costUncertaintyHigh: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="inflationVol">Inflation Std Dev (pts)</Label>
+              <Input
+                id="inflationVol"
+                type="number"
+                min={0}
+                max={10}
+                step={0.25}
+                value={form.inflationVolatility}
+                onChange={(e) => setForm({ ...form, inflationVolatility: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button className="mt-4" onClick={handleRun} disabled={runMutation.isPending}>
+            {runMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4 mr-2" />
+            )}
+            Run Simulation
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Stored runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Simulation Runs</CardTitle>
+          <CardDescription>End-of-cycle results; tick two or more runs to compare them</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : runs && runs.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Run</TableHead>
+                  <TableHead className="text-right">Iterations</TableHead>
+                  <TableHead className="text-right">P10 Backlog</TableHead>
+                  <TableHead className="text-right">P50 Backlog</TableHead>
+                  <TableHead className="text-right">P90 Backlog</TableHead>
+                  <TableHead className="text-right">P50 FCI</TableHead>
+                  <TableHead className="text-right">P(Critical Unfunded)</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow
+                    key={run.id}
+                    className={`cursor-pointer ${run.id === selectedRunId ? "bg-muted" : ""}`}
+                    onClick={() => setSelectedRunId(run.id)}
+                  >
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={compareIds.includes(run.id)}
+                        disabled={run.status !== "completed"}
+                        onCheckedChange={(checked) => toggleCompare(run.id, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{runLabel(run)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(run.createdAt).toLocaleString()}
+                        {run.status !== "completed" && (
+                          <Badge variant={run.status === "failed" ? "destructive" : "secondary"} className="ml-2">
+                            {run.status}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{run.iterations.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatMoney(run.p10Backlog)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(run.p50Backlog)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(run.p90Backlog)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(run.p50Fci)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(run.probabilityUnfundedCritical)}</TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleDelete(run.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center text-muted-foreground py-8">No simulation runs yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Selected run detail */}
+      {selectedRun?.results && selectedYears && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{runLabel(selectedRun)}</CardTitle>
+            <CardDescription>
+              {selectedRun.results.deficiencyCount} open deficiencies and {selectedRun.results.componentCount} components
+              sampled over {selectedRun.results.iterations.toLocaleString()} iterations (seed {selectedRun.seed})
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-medium mb-2">Backlog Range</h4>
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={selectedYears}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis tickFormatter={(v) => `$${(v / 1_000_000).toFixed(1)}M`} />
+                    <Tooltip formatter={(value) => formatMoney(value as number)} />
+                    <Legend />
+                    <Line type="monotone" dataKey="p10" stroke="#82ca9d" name="P10" strokeDasharray="4 4" />
+                    <Line type="monotone" dataKey="p50" stroke="#8884d8" name="P50" strokeWidth={2} />
+                    <Line type="monotone" dataKey="p90" stroke="#d0021b" name="P90" strokeDasharray="4 4" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium mb-2">FCI Trajectory</h4>
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={selectedYears}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis tickFormatter={(v) => `${v.toFixed(0)}%`} />
+                    <Tooltip formatter={(value) => `${(value as number).toFixed(1)}%`} />
+                    <Legend />
+                    <Line type="monotone" dataKey="fciP10" stroke="#82ca9d" name="P10" strokeDasharray="4 4" />
+                    <Line type="monotone" dataKey="fciP50" stroke="#8884d8" name="P50" strokeWidth={2} />
+                    <Line type="monotone" dataKey="fciP90" stroke="#d0021b" name="P90" strokeDasharray="4 4" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Year</TableHead>
+                  <TableHead className="text-right">P10 Backlog</TableHead>
+                  <TableHead className="text-right">P50 Backlog</TableHead>
+                  <TableHead className="text-right">P90 Backlog</TableHead>
+                  <TableHead className="text-right">P50 FCI</TableHead>
+                  <TableHead className="text-right">P(Critical Unfunded)</TableHead>
+                  <TableHead className="text-right">Unfunded Critical (P50 / P90)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedRun.results.years.map((year) => (
+                  <TableRow key={year.year}>
+                    <TableCell className="font-medium">{year.year}</TableCell>
+                    <TableCell className="text-right">{formatMoney(year.backlog.p10)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(year.backlog.p50)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(year.backlog.p90)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(year.fci.p50)}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={year.probabilityUnfundedCritical >= 0.5 ? "destructive" : "secondary"}>
+                        {formatPercent(year.probabilityUnfundedCritical, 0)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Math.round(year.unfundedCriticalCount.p50)} / {Math.round(year.unfundedCriticalCount.p90)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Run comparison */}
+      {comparison && comparisonYears && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Run Comparison
+            </CardTitle>
+            <CardDescription>Median (P50) backlog by year</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={comparisonYears}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" />
+                <YAxis tickFormatter={(v) => `$${(v / 1_000_000).toFixed(1)}M`} />
+                <Tooltip formatter={(value) => formatMoney(value as number)} />
+                <Legend />
+                {comparison.map((run, index) => (
+                  <Line
+                    key={run.id}
+                    type="monotone"
+                    dataKey={`run${run.id}`}
+                    name={runLabel(run)}
+                    stroke={COMPARE_COLORS[index % COMPARE_COLORS.length]}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead className="text-right">Cost Range</TableHead>
+                  <TableHead className="text-right">Inflation Std Dev</TableHead>
+                  <TableHead className="text-right">P50 Backlog</TableHead>
+                  <TableHead className="text-right">P90 Backlog</TableHead>
+                  <TableHead className="text-right">P50 FCI</TableHead>
+                  <TableHead className="text-right">P(Critical Unfunded)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">{runLabel(run)}</TableCell>
+                    <TableCell className="text-right">
+                      -{formatPercent(run.parameters.costUncertaintyLow, 0)} / +{formatPercent(run.parameters.costUncertaintyHigh, 0)}
+                    </TableCell>
+                    <TableCell className="text-right">{run.parameters.inflationVolatility} pts</TableCell>
+                    <TableCell className="text-right">{formatMoney(run.results?.finalBacklog.p50)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(run.results?.finalBacklog.p90)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(run.results?.finalFci.p50)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(run.results?.probabilityUnfundedCritical)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,646 @@
+import { Canvas, useThree, type ThreeEvent } from "@react-three/fiber";
+import { OrbitControls, Grid, Environment, PerspectiveCamera, useGLTF, Html } from "@react-three/drei";
+import { Component, Suspense, useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import * as THREE from "three";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ModelAnnotationDialog, type ModelAnnotationValues } from "@/components/ModelAnnotationDialog";
+import {
+  ANNOTATION_PRIORITY_LABELS,
+  getAnnotationColor,
+  getAnnotationPriority,
+  parseModelVector,
+  rgbToHex,
+  type AnnotationMarkerState,
+  type ModelVector,
+} from "@shared/modelAnnotations";
+import { Camera, Eye, EyeOff, FileImage, Grid3X3, Home, Loader2, MapPin, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface GltfModelViewerProps {
+  modelId: number;
+  projectId: number;
+  assetId: number;
+  modelUrl: string;
+  height?: string;
+}
+
+interface MarkerAnnotation extends AnnotationMarkerState {
+  id: number;
+  title: string;
+  annotationType: string;
+  position: ModelVector;
+}
+
+interface CameraView {
+  position: ModelVector;
+  target: ModelVector;
+  zoom: number;
+}
+
+interface ViewerSnapshot {
+  imageData: string;
+  width: number;
+  height: number;
+  annotationIds: number[];
+}
+
+/** Imperative camera access for the toolbar and side panel, which live outside the canvas */
+interface ViewerApi {
+  getView: () => CameraView;
+  setView: (view: CameraView) => void;
+  fit: () => void;
+  capture: (markers: MarkerAnnotation[]) => ViewerSnapshot;
+}
+
+const toVector = ({ x, y, z }: THREE.Vector3): ModelVector => ({ x, y, z });
+
+// Keeps a failed download inside the canvas instead of unmounting the whole tab
+class ModelErrorBoundary extends Component<{ children: ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <Html center>
+          <div className="bg-destructive/10 backdrop-blur-sm p-4 rounded-lg border border-destructive max-w-md text-center">
+            <p className="text-sm text-destructive font-medium">Failed to load model</p>
+            <p className="text-xs text-muted-foreground">{this.state.error.message}</p>
+          </div>
+        </Html>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * The glTF scene, left in its own coordinates so annotation positions and saved
+ * cameras stay valid across sessions; the camera is fitted to it instead
+ */
+function GltfModel({
+  url,
+  placing,
+  onLoaded,
+  onPick,
+}: {
+  url: string;
+  placing: boolean;
+  onLoaded: (bounds: THREE.Box3) => void;
+  onPick: (position: ModelVector, componentName: string | null) => void;
+}) {
+  const { scene } = useGLTF(url, true);
+
+  useEffect(() => {
+    onLoaded(new THREE.Box3().setFromObject(scene));
+  }, [scene, onLoaded]);
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    // Ignore clicks that end an orbit drag
+    if (!placing || event.delta > 4) return;
+    event.stopPropagation();
+    onPick(toVector(event.point), event.object.name || null);
+  };
+
+  return <primitive object={scene} onClick={handleClick} />;
+}
+
+function AnnotationMarker({
+  annotation,
+  radius,
+  selected,
+  onSelect,
+}: {
+  annotation: MarkerAnnotation;
+  radius: number;
+  selected: boolean;
+  onSelect: (id: number) => void;
+}) {
+  const [hovered, setHovered] = useState(false);
+  const priority = getAnnotationPriority(annotation);
+  const { x, y, z } = annotation.position;
+
+  return (
+    <group position={[x, y, z]}>
+      <mesh
+        renderOrder={1}
+        scale={hovered || selected ? 1.4 : 1}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelect(annotation.id);
+        }}
+        onPointerOver={() => setHovered(true)}
+        onPointerOut={() => setHovered(false)}
+      >
+        <sphereGeometry args={[radius, 16, 16]} />
+        {/* Drawn through walls so markers inside the building stay visible */}
+        <meshBasicMaterial color={rgbToHex(getAnnotationColor(annotation))} depthTest={false} transparent opacity={0.9} />
+      </mesh>
+      {(hovered || selected) && (
+        <Html style={{ pointerEvents: "none" }}>
+          <div className="bg-card/95 backdrop-blur-sm border rounded-lg px-3 py-2 shadow-lg whitespace-nowrap translate-x-3">
+            <p className="text-sm font-medium">{annotation.title}</p>
+            <p className="text-xs text-muted-foreground capitalize">
+              {annotation.annotationType}
+              {priority && ` · ${ANNOTATION_PRIORITY_LABELS[priority]}`}
+            </p>
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
+
+/**
+ * Exposes the camera, controls and renderer to the surrounding UI
+ */
+function ViewerController({
+  apiRef,
+  controlsRef,
+  bounds,
+}: {
+  apiRef: React.MutableRefObject<ViewerApi | null>;
+  controlsRef: React.RefObject<any>;
+  bounds: THREE.Box3 | null;
+}) {
+  const { camera, gl, scene } = useThree();
+
+  const fit = useCallback(() => {
+    const controls = controlsRef.current;
+    if (!bounds || bounds.isEmpty() || !controls) return;
+    const perspective = camera as THREE.PerspectiveCamera;
+    const center = bounds.getCenter(new THREE.Vector3());
+    const size = Math.max(bounds.getSize(new THREE.Vector3()).length(), 0.001);
+    const distance = size / (2 * Math.tan((perspective.fov * Math.PI) / 360));
+
+    perspective.position.copy(center).add(new THREE.Vector3(1, 0.8, 1).normalize().multiplyScalar(distance));
+    perspective.near = size / 1000;
+    perspective.far = size * 100;
+    perspective.zoom = 1;
+    perspective.updateProjectionMatrix();
+    controls.target.copy(center);
+    controls.minDistance = size / 200;
+    controls.maxDistance = size * 10;
+    controls.update();
+  }, [bounds, camera, controlsRef]);
+
+  useEffect(() => {
+    fit();
+  }, [fit]);
+
+  useEffect(() => {
+    apiRef.current = {
+      fit,
+      getView: () => ({
+        position: toVector(camera.position),
+        target: toVector(controlsRef.current?.target ?? new THREE.Vector3()),
+        zoom: camera.zoom,
+      }),
+      setView: ({ position, target, zoom }) => {
+        camera.position.set(position.x, position.y, position.z);
+        camera.zoom = zoom;
+        camera.updateProjectionMatrix();
+        controlsRef.current?.target.set(target.x, target.y, target.z);
+        controlsRef.current?.update();
+      },
+      capture: (markers) => {
+        // Render now so the buffer holds the current view, then number the markers in frame
+        gl.render(scene, camera);
+        const source = gl.domElement;
+        const canvas = document.createElement("canvas");
+        canvas.width = source.width;
+        canvas.height = source.height;
+        const context = canvas.getContext("2d")!;
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(source, 0, 0);
+
+        const scale = canvas.width / Math.max(source.clientWidth, 1);
+        const annotationIds: number[] = [];
+        for (const marker of markers) {
+          const projected = new THREE.Vector3(marker.position.x, marker.position.y, marker.position.z).project(camera);
+          if (projected.z > 1 || Math.abs(projected.x) > 1 || Math.abs(projected.y) > 1) continue;
+          annotationIds.push(marker.id);
+
+          const x = ((projected.x + 1) / 2) * canvas.width;
+          const y = ((1 - projected.y) / 2) * canvas.height;
+          context.beginPath();
+          context.arc(x, y, 10 * scale, 0, Math.PI * 2);
+          context.fillStyle = rgbToHex(getAnnotationColor(marker));
+          context.fill();
+          context.lineWidth = 2 * scale;
+          context.strokeStyle = "#ffffff";
+          context.stroke();
+          context.fillStyle = "#ffffff";
+          context.font = `bold ${11 * scale}px sans-serif`;
+          context.textAlign = "center";
+          context.textBaseline = "middle";
+          context.fillText(String(annotationIds.length), x, y);
+        }
+
+        return {
+          imageData: canvas.toDataURL("image/png").split(",")[1],
+          width: canvas.width,
+          height: canvas.height,
+          annotationIds,
+        };
+      },
+    };
+  }, [apiRef, camera, controlsRef, fit, gl, scene]);
+
+  return null;
+}
+
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+/**
+ * Native three.js viewer for glTF/GLB models, independent of APS translation
+ * Shows the model's annotations as markers colored by deficiency priority, places new
+ * ones by clicking the model, restores saved viewpoints and exports annotated
+ * viewpoint snapshots into the asset report
+ */
+export function GltfModelViewer({ modelId, projectId, assetId, modelUrl, height = "600px" }: GltfModelViewerProps) {
+  const [bounds, setBounds] = useState<THREE.Box3 | null>(null);
+  const [showGrid, setShowGrid] = useState(true);
+  const [showMarkers, setShowMarkers] = useState(true);
+  const [placing, setPlacing] = useState(false);
+  const [pending, setPending] = useState<{ position: ModelVector; componentName: string | null } | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [viewpointName, setViewpointName] = useState("");
+  const [exportingId, setExportingId] = useState<number | null>(null);
+  const apiRef = useRef<ViewerApi | null>(null);
+  const controlsRef = useRef<any>(null);
+
+  const utils = trpc.useUtils();
+
+  const { data: annotations = [] } = trpc.models.annotations.list.useQuery({ modelId });
+  const { data: viewpoints = [] } = trpc.models.viewpoints.list.useQuery({ modelId });
+
+  const markers = useMemo<MarkerAnnotation[]>(
+    () =>
+      annotations.map((annotation) => ({
+        id: annotation.id,
+        title: annotation.title,
+        annotationType: annotation.annotationType,
+        priority: annotation.priority,
+        status: annotation.status,
+        deficiencyPriority: annotation.deficiencyPriority,
+        deficiencyStatus: annotation.deficiencyStatus,
+        position: {
+          x: parseFloat(annotation.positionX),
+          y: parseFloat(annotation.positionY),
+          z: parseFloat(annotation.positionZ),
+        },
+      })),
+    [annotations]
+  );
+
+  const boundsSize = bounds && !bounds.isEmpty() ? bounds.getSize(new THREE.Vector3()).length() : 1;
+  const markerRadius = Math.max(boundsSize * 0.006, 0.02);
+  const gridCell = Math.pow(10, Math.floor(Math.log10(Math.max(boundsSize / 20, 0.01))));
+
+  const createAnnotation = trpc.models.annotations.create.useMutation({
+    onSuccess: (result) => {
+      toast.success("Annotation added");
+      utils.models.annotations.list.invalidate({ modelId });
+      setPending(null);
+      setSelectedId(result.id);
+    },
+    onError: (error) => toast.error(`Failed to add annotation: ${error.message}`),
+  });
+
+  const deleteAnnotation = trpc.models.annotations.delete.useMutation({
+    onSuccess: () => utils.models.annotations.list.invalidate({ modelId }),
+    onError: (error) => toast.error(`Failed to delete annotation: ${error.message}`),
+  });
+
+  const saveViewpoint = trpc.models.viewpoints.save.useMutation({
+    onSuccess: () => {
+      toast.success("Viewpoint saved");
+      setViewpointName("");
+      utils.models.viewpoints.list.invalidate({ modelId });
+    },
+    onError: (error) => toast.error(`Failed to save viewpoint: ${error.message}`),
+  });
+
+  const deleteViewpoint = trpc.models.viewpoints.delete.useMutation({
+    onSuccess: () => utils.models.viewpoints.list.invalidate({ modelId }),
+    onError: (error) => toast.error(`Failed to delete viewpoint: ${error.message}`),
+  });
+
+  const exportSnapshot = trpc.models.viewpoints.exportSnapshot.useMutation({
+    onSuccess: () => {
+      toast.success("Snapshot added to the asset report");
+      utils.models.viewpoints.list.invalidate({ modelId });
+    },
+    onError: (error) => toast.error(`Failed to export snapshot: ${error.message}`),
+    onSettled: () => setExportingId(null),
+  });
+
+  const removeFromReport = trpc.models.viewpoints.removeFromReport.useMutation({
+    onSuccess: () => utils.models.viewpoints.list.invalidate({ modelId }),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handlePick = useCallback((position: ModelVector, componentName: string | null) => {
+    setPending({ position, componentName });
+    setPlacing(false);
+  }, []);
+
+  const handleCreateAnnotation = (values: ModelAnnotationValues) => {
+    if (!pending) return;
+    const view = apiRef.current?.getView();
+    createAnnotation.mutate({
+      ...values,
+      modelId,
+      projectId,
+      componentName: pending.componentName ?? undefined,
+      positionX: pending.position.x,
+      positionY: pending.position.y,
+      positionZ: pending.position.z,
+      cameraPosition: view?.position,
+      cameraTarget: view?.target,
+    });
+  };
+
+  const restoreView = (cameraPosition: unknown, cameraTarget: unknown, zoom?: string | null) => {
+    const position = parseModelVector(cameraPosition);
+    const target = parseModelVector(cameraTarget);
+    if (!position || !target) return false;
+    apiRef.current?.setView({ position, target, zoom: zoom ? parseFloat(zoom) || 1 : 1 });
+    return true;
+  };
+
+  const handleSelectAnnotation = (id: number) => {
+    setSelectedId(id);
+    const annotation = annotations.find((a) => a.id === id);
+    if (annotation) restoreView(annotation.cameraPosition, annotation.cameraTarget);
+  };
+
+  const handleSaveViewpoint = () => {
+    const view = apiRef.current?.getView();
+    if (!view || !viewpointName.trim()) return;
+    saveViewpoint.mutate({
+      modelId,
+      projectId,
+      name: viewpointName.trim(),
+      cameraPosition: view.position,
+      cameraTarget: view.target,
+      cameraZoom: view.zoom,
+    });
+  };
+
+  const handleExportViewpoint = async (viewpoint: (typeof viewpoints)[number]) => {
+    if (!restoreView(viewpoint.cameraPosition, viewpoint.cameraTarget, viewpoint.cameraZoom) || !apiRef.current) {
+      toast.error("This viewpoint has no camera position");
+      return;
+    }
+    setExportingId(viewpoint.id);
+    setSelectedId(null);
+    // Let the controls settle on the restored camera before capturing
+    await nextFrame();
+    await nextFrame();
+    const snapshot = apiRef.current.capture(showMarkers ? markers : []);
+    exportSnapshot.mutate({ id: viewpoint.id, assetId, ...snapshot });
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row" style={{ minHeight: height }}>
+      <div className="relative flex-1 bg-muted/30" style={{ height }}>
+        {/* Toolbar */}
+        <div className="absolute top-4 right-4 z-10 flex flex-col gap-2">
+          <Button size="icon" variant="secondary" onClick={() => apiRef.current?.fit()} title="Fit Model">
+            <Home className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="secondary" onClick={() => setShowGrid(!showGrid)} title={showGrid ? "Hide Grid" : "Show Grid"}>
+            <Grid3X3 className={`h-4 w-4 ${showGrid ? "" : "opacity-50"}`} />
+          </Button>
+          <Button
+            size="icon"
+            variant="secondary"
+            onClick={() => setShowMarkers(!showMarkers)}
+            title={showMarkers ? "Hide Annotations" : "Show Annotations"}
+          >
+            {showMarkers ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+          </Button>
+          <Button
+            size="icon"
+            variant={placing ? "default" : "secondary"}
+            onClick={() => setPlacing(!placing)}
+            disabled={!bounds}
+            title={placing ? "Cancel Annotation" : "Add Annotation"}
+          >
+            {placing ? <X className="h-4 w-4" /> : <MapPin className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        {placing && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-primary text-primary-foreground px-4 py-2 rounded-lg text-sm">
+            Click the model where the annotation belongs
+          </div>
+        )}
+
+        <Canvas
+          frameloop="always"
+          gl={{ preserveDrawingBuffer: true, antialias: true }}
+          onCreated={({ gl }) => gl.setClearColor(0x000000, 0)}
+          onPointerMissed={() => setSelectedId(null)}
+          style={{ cursor: placing ? "crosshair" : undefined }}
+        >
+          <PerspectiveCamera makeDefault position={[5, 5, 5]} fov={50} />
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <directionalLight position={[-5, 5, -5]} intensity={0.3} />
+          <Environment preset="city" />
+
+          {showGrid && bounds && (
+            <Grid
+              position={[0, bounds.min.y, 0]}
+              infiniteGrid
+              fadeDistance={boundsSize * 3}
+              cellSize={gridCell}
+              sectionSize={gridCell * 10}
+              cellColor="#6b7280"
+              sectionColor="#374151"
+            />
+          )}
+
+          <ModelErrorBoundary>
+            <Suspense
+              fallback={
+                <Html center>
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </Html>
+              }
+            >
+              <GltfModel url={modelUrl} placing={placing} onLoaded={setBounds} onPick={handlePick} />
+            </Suspense>
+          </ModelErrorBoundary>
+
+          {showMarkers && bounds && markers.map((marker) => (
+            <AnnotationMarker
+              key={marker.id}
+              annotation={marker}
+              radius={markerRadius}
+              selected={marker.id === selectedId}
+              onSelect={handleSelectAnnotation}
+            />
+          ))}
+
+          <OrbitControls ref={controlsRef} makeDefault enableDamping dampingFactor={0.1} />
+          <ViewerController apiRef={apiRef} controlsRef={controlsRef} bounds={bounds} />
+        </Canvas>
+      </div>
+
+      {/* Annotations and viewpoints */}
+      <div className="w-full lg:w-80 border-t lg:border-t-0 lg:border-l">
+        <Tabs defaultValue="annotations" className="p-3">
+          <TabsList className="w-full">
+            <TabsTrigger value="annotations" className="flex-1">Annotations ({annotations.length})</TabsTrigger>
+            <TabsTrigger value="viewpoints" className="flex-1">Viewpoints ({viewpoints.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="annotations">
+            <ScrollArea style={{ height: `calc(${height} - 70px)` }}>
+              {annotations.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Use the pin button to place an annotation on the model
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {annotations.map((annotation) => {
+                    const priority = getAnnotationPriority(annotation);
+                    return (
+                      <div
+                        key={annotation.id}
+                        className={`flex items-start gap-2 p-2 rounded-md cursor-pointer hover:bg-muted/50 ${
+                          annotation.id === selectedId ? "bg-muted" : ""
+                        }`}
+                        onClick={() => handleSelectAnnotation(annotation.id)}
+                      >
+                        <span
+                          className="mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full"
+                          style={{ backgroundColor: rgbToHex(getAnnotationColor(annotation)) }}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{annotation.title}</p>
+                          <p className="text-xs text-muted-foreground capitalize truncate">
+                            {annotation.annotationType}
+                            {priority && ` · ${ANNOTATION_PRIORITY_LABELS[priority]}`}
+                            {annotation.assessmentComponentCode && ` · ${annotation.assessmentComponentCode}`}
+                          </p>
+                        </div>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteAnnotation.mutate({ id: annotation.id });
+                          }}
+                          title="Delete Annotation"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="viewpoints" className="space-y-3">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Name this view"
+                value={viewpointName}
+                onChange={(e) => setViewpointName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSaveViewpoint()}
+              />
+              <Button
+                size="icon"
+                onClick={handleSaveViewpoint}
+                disabled={!viewpointName.trim() || !bounds || saveViewpoint.isPending}
+                title="Save Viewpoint"
+              >
+                <Camera className="h-4 w-4" />
+              </Button>
+            </div>
+            <ScrollArea style={{ height: `calc(${height} - 120px)` }}>
+              <div className="space-y-1">
+                {viewpoints.map((viewpoint) => (
+                  <div
+                    key={viewpoint.id}
+                    className="flex items-center gap-2 p-2 rounded-md cursor-pointer hover:bg-muted/50"
+                    onClick={() => restoreView(viewpoint.cameraPosition, viewpoint.cameraTarget, viewpoint.cameraZoom)}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{viewpoint.name}</p>
+                      {viewpoint.reportAssetId === assetId && (
+                        <Badge variant="secondary" className="text-xs">In report</Badge>
+                      )}
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      disabled={!bounds || exportingId !== null}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleExportViewpoint(viewpoint);
+                      }}
+                      title={viewpoint.reportAssetId === assetId ? "Update Report Snapshot" : "Add Snapshot to Report"}
+                    >
+                      {exportingId === viewpoint.id ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <FileImage className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (viewpoint.reportAssetId === assetId) {
+                          removeFromReport.mutate({ id: viewpoint.id });
+                        } else {
+                          deleteViewpoint.mutate({ id: viewpoint.id });
+                        }
+                      }}
+                      title={viewpoint.reportAssetId === assetId ? "Remove from Report" : "Delete Viewpoint"}
+                    >
+                      {viewpoint.reportAssetId === assetId ? <X className="h-3.5 w-3.5" /> : <Trash2 className="h-3.5 w-3.5" />}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <ModelAnnotationDialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+        projectId={projectId}
+        assetId={assetId}
+        componentName={pending?.componentName}
+        isSubmitting={createAnnotation.isPending}
+        onSubmit={handleCreateAnnotation}
+      />
+    </div>
+  );
+}
+
+export default GltfModelViewer;
@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Layers, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface IfcImportPanelProps {
+  modelId: number;
+  projectId: number;
+  assetId: number;
+}
+
+const formatQuantity = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Parses an IFC model locally and lets the assessor accept the proposed building
+ * sections and UNIFORMAT components into the asset's assessments
+ */
+export function IfcImportPanel({ modelId, projectId, assetId }: IfcImportPanelProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [createSections, setCreateSections] = useState(true);
+
+  const utils = trpc.useUtils();
+
+  const propose = trpc.models.ifc.propose.useMutation({
+    onSuccess: (result) => {
+      // Preselect everything that is mapped and not fully accepted yet
+      setSelected(new Set(
+        result.components
+          .filter((component) => component.componentCode && component.linkedElements < component.elements.length)
+          .map((component) => component.key)
+      ));
+      setCodes({});
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const accept = trpc.models.ifc.accept.useMutation({
+    onSuccess: (result) => {
+      const summary = `${result.componentsCreated} components created, ${result.componentsUpdated} updated, ` +
+        `${result.sectionsCreated} sections created`;
+      if (result.errors.length > 0) {
+        toast.warning(summary, { description: result.errors.join("\n") });
+      } else {
+        toast.success(summary);
+      }
+      utils.assessments.listByAsset.invalidate({ assetId, projectId });
+      utils.buildingSections.invalidate();
+      propose.mutate({ modelId });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const plan = propose.data;
+  const sectionNames = useMemo(
+    () => new Map((plan?.sections ?? []).map((section) => [section.globalId, section])),
+    [plan]
+  );
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleAccept = () => {
+    if (!plan) return;
+    const selections = plan.components
+      .filter((component) => selected.has(component.key))
+      .map((component) => ({
+        key: component.key,
+        componentCode: codes[component.key]?.trim().toUpperCase() || undefined,
+      }));
+    const missingCode = plan.components.find(
+      (component) => selected.has(component.key) && !component.componentCode && !codes[component.key]?.trim()
+    );
+    if (missingCode) {
+      toast.error(`Enter a UNIFORMAT code for ${missingCode.componentName}`);
+      return;
+    }
+    accept.mutate({ modelId, assetId, selections, createSections });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            BIM Components
+          </CardTitle>
+          <CardDescription>
+            Read storeys, spaces and building elements from the IFC file and add them to this asset as components.
+            Each component keeps the GlobalIds of its IFC elements.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => propose.mutate({ modelId })} disabled={propose.isPending}>
+          {propose.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {plan ? "Re-read Model" : "Read IFC Model"}
+        </Button>
+      </CardHeader>
+
+      {plan && (
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {plan.schema ?? "IFC"} · {plan.elementCount} elements · {plan.sections.length} storeys
+            {plan.projectName && ` · ${plan.projectName}`}
+          </p>
+
+          {plan.warnings.length > 0 && (
+            <ul className="space-y-1 text-sm text-amber-700">
+              {plan.warnings.map((warning) => (
+                <li key={warning} className="flex gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {plan.sections.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {plan.sections.map((section) => (
+                <Badge key={section.globalId} variant={section.sectionId ? "secondary" : "outline"}>
+                  {section.name}
+                  {section.floorArea !== null && ` · ${formatQuantity(section.floorArea)} m²`}
+                  {section.sectionId ? " · section exists" : ""}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {plan.components.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">The model has no building elements in its spatial structure</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Storey</TableHead>
+                  <TableHead>Component</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>IFC Elements</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.components.map((component) => {
+                  const accepted = component.linkedElements === component.elements.length;
+                  return (
+                    <TableRow key={component.key}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(component.key)}
+                          disabled={accepted}
+                          onCheckedChange={(checked) => toggle(component.key, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {component.storeyGlobalId ? sectionNames.get(component.storeyGlobalId)?.name : "Site"}
+                      </TableCell>
+                      <TableCell>
+                        {component.componentCode ? (
+                          <span className="font-mono text-xs mr-2">{component.componentCode}</span>
+                        ) : (
+                          <Input
+                            className="inline-flex h-7 w-24 mr-2 font-mono text-xs"
+                            placeholder="Code"
+                            value={codes[component.key] ?? ""}
+                            disabled={accepted}
+                            onChange={(e) => setCodes((current) => ({ ...current, [component.key]: e.target.value }))}
+                          />
+                        )}
+                        {component.componentName}
+                        {component.spaces.length > 0 && (
+                          <span className="block text-xs text-muted-foreground">{component.spaces.slice(0, 5).join(", ")}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatQuantity(component.measure === "count" ? component.elements.length : component.quantity)} {component.unit}
+                        {component.elementsWithoutQuantity > 0 && component.measure !== "count" && (
+                          <span className="block text-xs text-amber-700">{component.elementsWithoutQuantity} without quantity</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {component.elements.length} · {component.ifcTypes.join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        {accepted ? (
+                          <Badge variant="secondary">Accepted</Badge>
+                        ) : component.linkedElements > 0 ? (
+                          <Badge variant="outline">{component.elements.length - component.linkedElements} new</Badge>
+                        ) : (
+                          <Badge variant="outline">Proposed</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="ifcCreateSections"
+                checked={createSections}
+                onCheckedChange={(checked) => setCreateSections(checked === true)}
+              />
+              <Label htmlFor="ifcCreateSections">Create building sections for storeys</Label>
+            </div>
+            <Button onClick={handleAccept} disabled={accept.isPending || selected.size === 0}>
+              {accept.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Accept {selected.size} Component{selected.size === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default IfcImportPanel;
@@ -0,0 +1,37 @@
+import { useTranslation, LANGUAGE_LABELS, SUPPORTED_LANGUAGES } from '@/contexts/LanguageContext';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Languages, Check } from 'lucide-react';
+
+// Compact version for use in headers/toolbars
+export function LanguageToggleCompact({ className }: { className?: string }) {
+  const { language, setLanguage, t, isLoading } = useTranslation();
+
+  if (isLoading) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className={`px-2 ${className ?? ''}`} title={t('common.language')}>
+          <Languages className="h-4 w-4" />
+          <span className="ml-1 text-xs font-medium uppercase">{language}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {SUPPORTED_LANGUAGES.map((option) => (
+          <DropdownMenuItem key={option} onClick={() => setLanguage(option)}>
+            <Check className={`h-4 w-4 mr-2 ${language === option ? 'opacity-100' : 'opacity-0'}`} />
+            {LANGUAGE_LABELS[option]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default LanguageToggleCompact;
@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "sonner";
+import { saveOfflineMaintenanceEntry } from "@/lib/offlineStorage";
 
 interface MaintenanceEntryDialogProps {
   open: boolean;
@@ -176,6 +177,34 @@ export function MaintenanceEntryDialog({
 
     if (entry) {
       await updateEntry.mutateAsync({ id: entry.id, ...data });
+    } else if (!navigator.onLine) {
+      // No connection: keep the entry in IndexedDB until the sync engine can create it
+      try {
+        await saveOfflineMaintenanceEntry({
+          projectId,
+          assessmentId: null,
+          componentName: data.componentName,
+          location: data.location ?? null,
+          entryType: data.entryType,
+          actionType: data.actionType,
+          description: data.description,
+          workPerformed: data.workPerformed ?? null,
+          findings: data.findings ?? null,
+          estimatedCost: data.estimatedCost ?? null,
+          actualCost: data.actualCost ?? null,
+          status: data.status,
+          priority: data.priority,
+          dateIdentified: data.dateIdentified?.getTime() ?? null,
+          dateScheduled: data.dateScheduled?.getTime() ?? null,
+          dateCompleted: data.dateCompleted?.getTime() ?? null,
+          contractor: data.contractor ?? null,
+          notes: data.notes ?? null,
+        });
+        toast.success("Maintenance entry saved offline. Will sync when connection returns.");
+        onClose();
+      } catch (error: any) {
+        toast.error(`Failed to save entry offline: ${error.message}`);
+      }
     } else {
       await createEntry.mutateAsync(data);
     }
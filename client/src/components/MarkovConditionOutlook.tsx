@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+interface MarkovConditionOutlookProps {
+  projectId: number;
+  componentCode: string;
+}
+
+const STATE_COLORS = ["#16a34a", "#84cc16", "#eab308", "#f97316", "#dc2626"];
+
+export function MarkovConditionOutlook({ projectId, componentCode }: MarkovConditionOutlookProps) {
+  const [horizonYears, setHorizonYears] = useState(40);
+
+  const outlookQuery = trpc.predictions.conditionDistribution.useQuery({
+    projectId,
+    componentCode,
+    horizonYears,
+  });
+
+  const outlook = outlookQuery.data;
+  const states = (outlook?.states || []) as { state: number; label: string }[];
+  const currentYear = new Date().getFullYear();
+
+  const chartData = (outlook?.distribution || []).map((point) => {
+    const row: Record<string, number> = { year: currentYear + (point.yearOffset || 0) };
+    (point.probabilities || []).forEach((p, state) => {
+      row[states[state]?.label || `State ${state}`] = Math.round((p || 0) * 1000) / 10;
+    });
+    return row;
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Condition Outlook (Markov Model)</CardTitle>
+            <CardDescription>
+              Probability of each condition state by year, calibrated for UNIFORMAT class {outlook?.componentClass || componentCode.substring(0, 3)}
+            </CardDescription>
+          </div>
+          <Select value={horizonYears.toString()} onValueChange={(v) => setHorizonYears(parseInt(v))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="20">20 Years</SelectItem>
+              <SelectItem value="40">40 Years</SelectItem>
+              <SelectItem value="60">60 Years</SelectItem>
+              <SelectItem value="100">100 Years</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {outlookQuery.isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !outlook ? (
+          <p className="text-sm text-muted-foreground">Condition outlook unavailable.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Badge variant="outline">Typical life: {outlook.serviceLife} yrs</Badge>
+              <Badge variant="outline">Calibration pairs: {outlook.sampleSize}</Badge>
+              <Badge variant="outline">Median failure: {outlook.predictedFailureYear}</Badge>
+              <Badge variant="outline">Current estimate: {outlook.currentConditionEstimate}%</Badge>
+            </div>
+            <ResponsiveContainer width="100%" height={280}>
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" />
+                <YAxis unit="%" domain={[0, 100]} />
+                <Tooltip formatter={(value: number) => `${value}%`} />
+                <Legend />
+                {states.map((s) => (
+                  <Area
+                    key={s.state}
+                    type="monotone"
+                    dataKey={s.label}
+                    stackId="states"
+                    stroke={STATE_COLORS[s.state]}
+                    fill={STATE_COLORS[s.state]}
+                    fillOpacity={0.6}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+type AnnotationType = "deficiency" | "assessment" | "maintenance" | "note" | "issue";
+type AnnotationPriority = "immediate" | "high" | "medium" | "low";
+
+export interface ModelAnnotationValues {
+  annotationType: AnnotationType;
+  title: string;
+  description?: string;
+  assessmentId?: number;
+  deficiencyId?: number;
+  priority?: AnnotationPriority;
+}
+
+interface ModelAnnotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: number;
+  assetId: number;
+  /** Name of the mesh that was clicked, shown as the location */
+  componentName?: string | null;
+  isSubmitting?: boolean;
+  onSubmit: (values: ModelAnnotationValues) => void;
+}
+
+const NONE = "none";
+
+/**
+ * Details for an annotation placed on the 3D model, optionally linked to one of the
+ * asset's assessments or deficiencies
+ */
+export function ModelAnnotationDialog({
+  open,
+  onOpenChange,
+  projectId,
+  assetId,
+  componentName,
+  isSubmitting,
+  onSubmit,
+}: ModelAnnotationDialogProps) {
+  const [annotationType, setAnnotationType] = useState<AnnotationType>("note");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [assessmentId, setAssessmentId] = useState(NONE);
+  const [deficiencyId, setDeficiencyId] = useState(NONE);
+  const [priority, setPriority] = useState(NONE);
+
+  const { data: assessments = [] } = trpc.assessments.listByAsset.useQuery(
+    { assetId, projectId },
+    { enabled: open }
+  );
+  const { data: deficiencies = [] } = trpc.deficiencies.listByAsset.useQuery(
+    { assetId, projectId },
+    { enabled: open }
+  );
+
+  useEffect(() => {
+    if (open) {
+      setAnnotationType("note");
+      setTitle("");
+      setDescription("");
+      setAssessmentId(NONE);
+      setDeficiencyId(NONE);
+      setPriority(NONE);
+    }
+  }, [open]);
+
+  const handleAssessmentChange = (value: string) => {
+    setAssessmentId(value);
+    const assessment = assessments.find((a) => String(a.id) === value);
+    if (!assessment) return;
+    if (annotationType === "note") setAnnotationType("assessment");
+    if (!title) setTitle([assessment.componentCode, assessment.componentName].filter(Boolean).join(" "));
+  };
+
+  const handleDeficiencyChange = (value: string) => {
+    setDeficiencyId(value);
+    const deficiency = deficiencies.find((d) => String(d.id) === value);
+    if (!deficiency) return;
+    // Deficiency markers are colored by the deficiency's own priority
+    setAnnotationType("deficiency");
+    if (!title) setTitle(deficiency.title);
+    if (deficiency.assessmentId) setAssessmentId(String(deficiency.assessmentId));
+  };
+
+  const handleSubmit = () => {
+    onSubmit({
+      annotationType,
+      title: title.trim(),
+      description: description.trim() || undefined,
+      assessmentId: assessmentId !== NONE ? Number(assessmentId) : undefined,
+      deficiencyId: deficiencyId !== NONE ? Number(deficiencyId) : undefined,
+      priority: priority !== NONE ? (priority as AnnotationPriority) : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Annotation</DialogTitle>
+          <DialogDescription>
+            {componentName ? `Placed on ${componentName}` : "Placed on the model"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Deficiency</Label>
+            <Select value={deficiencyId} onValueChange={handleDeficiencyChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Not linked" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not linked</SelectItem>
+                {deficiencies.map((deficiency) => (
+                  <SelectItem key={deficiency.id} value={String(deficiency.id)}>
+                    {deficiency.componentCode} - {deficiency.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Assessment</Label>
+            <Select value={assessmentId} onValueChange={handleAssessmentChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Not linked" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not linked</SelectItem>
+                {assessments.map((assessment) => (
+                  <SelectItem key={assessment.id} value={String(assessment.id)}>
+                    {[assessment.componentCode, assessment.componentName].filter(Boolean).join(" - ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={annotationType} onValueChange={(value) => setAnnotationType(value as AnnotationType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deficiency">Deficiency</SelectItem>
+                  <SelectItem value="assessment">Assessment</SelectItem>
+                  <SelectItem value="maintenance">Maintenance</SelectItem>
+                  <SelectItem value="issue">Issue</SelectItem>
+                  <SelectItem value="note">Note</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={setPriority} disabled={deficiencyId !== NONE}>
+                <SelectTrigger>
+                  <SelectValue placeholder="None" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>{deficiencyId !== NONE ? "From deficiency" : "None"}</SelectItem>
+                  <SelectItem value="immediate">Immediate</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="annotationTitle">Title</Label>
+            <Input id="annotationTitle" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={255} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="annotationDescription">Description</Label>
+            <Textarea
+              id="annotationDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!title.trim() || isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Annotation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ModelAnnotationDialog;
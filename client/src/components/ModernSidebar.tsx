@@ -55,6 +55,7 @@ export function ModernSidebar() {
   const mainItems: NavItem[] = [
     { icon: LayoutDashboard, label: "Projects", path: "/" },
     { icon: Building2, label: "Portfolio Projects", path: "/portfolio-projects" },
+    { icon: Search, label: "Search", path: "/search" },
   ];
 
   const sections: NavSection[] = [
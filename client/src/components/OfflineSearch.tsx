@@ -53,7 +53,7 @@ interface SearchResult {
   type: "project" | "asset" | "assessment" | "photo" | "deficiency";
   title: string;
   subtitle?: string;
-  status?: "pending" | "synced" | "failed" | "syncing";
+  status?: "pending" | "synced" | "failed" | "syncing" | "conflict";
   projectId?: number;
   assetId?: number;
   timestamp?: number;
@@ -287,7 +287,7 @@ export function OfflineSearch({ open, onOpenChange }: OfflineSearchProps) {
     }
   };
 
-  const getStatusIcon = (status?: "pending" | "synced" | "failed" | "syncing") => {
+  const getStatusIcon = (status?: "pending" | "synced" | "failed" | "syncing" | "conflict") => {
     switch (status) {
       case "pending":
         return <Clock className="h-3 w-3 text-yellow-500" />;
@@ -297,6 +297,8 @@ export function OfflineSearch({ open, onOpenChange }: OfflineSearchProps) {
         return <XCircle className="h-3 w-3 text-red-500" />;
       case "syncing":
         return <Loader2 className="h-3 w-3 text-blue-500 animate-spin" />;
+      case "conflict":
+        return <AlertTriangle className="h-3 w-3 text-amber-500" />;
       default:
         return null;
     }
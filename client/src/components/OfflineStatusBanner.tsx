@@ -19,8 +19,9 @@ import {
   ChevronDown,
   ChevronUp
 } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { formatBytes } from "@/lib/offlineStorage";
+import { ConflictResolutionDialog } from "@/components/ConflictResolutionDialog";
 
 export function OfflineStatusBanner() {
   const {
@@ -31,21 +32,41 @@ export function OfflineStatusBanner() {
     lastSyncTime,
     stats,
     pendingCount,
+    conflicts,
     startSync,
     stopSync,
+    resolveConflicts,
   } = useOfflineSync();
 
   const [isExpanded, setIsExpanded] = useState(false);
   const [isDismissed, setIsDismissed] = useState(false);
+  const [conflictsDismissed, setConflictsDismissed] = useState(false);
+
+  // Re-open the dialog when a later sync reports new conflicts
+  useEffect(() => {
+    setConflictsDismissed(false);
+  }, [conflicts.length]);
+
+  // Offline edits that clash with newer server edits, shown until resolved or dismissed
+  const conflictDialog = (
+    <ConflictResolutionDialog
+      open={conflicts.length > 0 && !conflictsDismissed}
+      onOpenChange={(open) => setConflictsDismissed(!open)}
+      conflicts={conflicts}
+      onResolve={resolveConflicts}
+    />
+  );
 
   // Don't show banner if online, not syncing, and no pending items
   if (isOnline && !isSyncing && pendingCount === 0 && !isDismissed) {
-    return null;
+    return conflictDialog;
   }
 
   // Show minimal banner when dismissed
   if (isDismissed && pendingCount > 0) {
     return (
+      <>
+      {conflictDialog}
       <div className="fixed top-0 left-0 right-0 z-50 bg-amber-500/90 backdrop-blur-sm">
         <div className="container mx-auto px-4 py-2 flex items-center justify-between">
           <div className="flex items-center gap-2">
@@ -64,10 +85,13 @@ export function OfflineStatusBanner() {
           </Button>
         </div>
       </div>
+      </>
     );
   }
 
   return (
+    <>
+    {conflictDialog}
     <div className="fixed top-0 left-0 right-0 z-50 bg-gradient-to-r from-amber-500 to-amber-600 shadow-lg">
       <div className="container mx-auto px-4 py-3">
         {/* Main Status Row */}
@@ -287,5 +311,6 @@ export function OfflineStatusBanner() {
         )}
       </div>
     </div>
+    </>
   );
 }
@@ -0,0 +1,242 @@
+import { useMemo, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { useCompany } from "@/contexts/CompanyContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ProjectFilterBar, type ProjectFilters } from "@/components/ProjectFilterBar";
+import { Download, Loader2, MapPinned, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+type GisScope = "assets" | "projects";
+type GisFormat = "geojson" | "kml";
+
+interface ImportPreview {
+  dryRun: boolean;
+  featureCount: number;
+  planned: { feature: number; assetId: number; assetName: string; matchedBy: string; lat: number | null; lng: number | null; geocode: string | null }[];
+  updated: number;
+  geocoded: number;
+  issues: { feature: number; message: string }[];
+}
+
+function downloadText(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * GeoJSON/KML export of portfolio locations and GeoJSON import of asset coordinates
+ */
+export default function PortfolioGisToolbar() {
+  const { selectedCompanyId } = useCompany();
+  const [filters, setFilters] = useState<ProjectFilters>({ assetType: "all", conditionLevel: "all", fundingStatus: "all" });
+  const [exporting, setExporting] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [content, setContent] = useState<string | null>(null);
+  const [geocodeMissing, setGeocodeMissing] = useState(true);
+  const [overwriteExisting, setOverwriteExisting] = useState(true);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: mapAssets } = trpc.assets.getAllAssetsWithCoordinates.useQuery();
+  const importMutation = trpc.gis.importAssetLocations.useMutation();
+
+  const assetTypes = useMemo(
+    () => Array.from(new Set((mapAssets ?? []).map((a) => a.propertyType).filter((t): t is string => !!t && t !== "Unknown"))).sort(),
+    [mapAssets]
+  );
+
+  const handleExport = async (scope: GisScope, format: GisFormat) => {
+    setExporting(true);
+    try {
+      const result = await utils.gis.export.fetch({
+        scope,
+        format,
+        assetType: filters.assetType,
+        conditionLevel: filters.conditionLevel,
+        fundingStatus: filters.fundingStatus,
+        companyId: selectedCompanyId ?? undefined,
+      });
+      downloadText(result.content, result.filename, result.mimeType);
+      toast.success(`Exported ${result.featureCount} ${scope} to ${format === "kml" ? "KML" : "GeoJSON"}`);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to export locations");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const resetImport = () => {
+    setFile(null);
+    setContent(null);
+    setPreview(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    const text = content ?? await file.text();
+    setContent(text);
+    importMutation.mutate(
+      {
+        fileName: file.name,
+        content: text,
+        geocodeMissing,
+        overwriteExisting,
+        dryRun,
+        companyId: selectedCompanyId ?? undefined,
+      },
+      {
+        onSuccess: (result) => {
+          if (dryRun) {
+            setPreview(result as ImportPreview);
+            return;
+          }
+          toast.success(`Updated ${result.updated} asset locations${result.geocoded ? ` (${result.geocoded} geocoded)` : ""}`);
+          utils.assets.getAllAssetsWithCoordinates.invalidate();
+          setImportOpen(false);
+          resetImport();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-start gap-3">
+        <div className="flex-1 min-w-[300px]">
+          <ProjectFilterBar filters={filters} onFiltersChange={setFilters} availableAssetTypes={assetTypes} />
+        </div>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={exporting}>
+                {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                Export GIS
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Assets</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => handleExport("assets", "geojson")}>GeoJSON</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("assets", "kml")}>KML</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Projects</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => handleExport("projects", "geojson")}>GeoJSON</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("projects", "kml")}>KML</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Locations
+          </Button>
+        </div>
+      </div>
+
+      <Dialog
+        open={importOpen}
+        onOpenChange={(open) => {
+          setImportOpen(open);
+          if (!open) resetImport();
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Asset Locations</DialogTitle>
+            <DialogDescription>
+              Update asset coordinates from GeoJSON, including GeoJSON converted from a shapefile. Features match assets by
+              asset id, unique id, asset code or name; footprints use their centre point and features without geometry are
+              geocoded from their address.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="gis-import-file">GeoJSON file (WGS84)</Label>
+              <Input
+                id="gis-import-file"
+                type="file"
+                accept=".geojson,.json,application/geo+json"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setContent(null);
+                  setPreview(null);
+                }}
+              />
+            </div>
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Switch id="gis-geocode" checked={geocodeMissing} onCheckedChange={(v) => { setGeocodeMissing(v); setPreview(null); }} />
+                <Label htmlFor="gis-geocode">Geocode features without geometry</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="gis-overwrite" checked={overwriteExisting} onCheckedChange={(v) => { setOverwriteExisting(v); setPreview(null); }} />
+                <Label htmlFor="gis-overwrite">Overwrite existing coordinates</Label>
+              </div>
+            </div>
+
+            {preview && (
+              <div className="space-y-3 rounded-md border p-4 text-sm">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{preview.featureCount} features</Badge>
+                  <Badge variant="default">{preview.planned.length} assets to update</Badge>
+                  {preview.planned.some((p) => p.geocode) && (
+                    <Badge variant="secondary">{preview.planned.filter((p) => p.geocode).length} to geocode</Badge>
+                  )}
+                  {preview.issues.length > 0 && <Badge variant="destructive">{preview.issues.length} issues</Badge>}
+                </div>
+                {preview.planned.length > 0 && (
+                  <ul className="max-h-40 overflow-y-auto space-y-1 text-muted-foreground">
+                    {preview.planned.slice(0, 100).map((p) => (
+                      <li key={p.feature} className="flex items-center gap-2">
+                        <MapPinned className="h-3 w-3 shrink-0" />
+                        <span className="font-medium text-foreground">{p.assetName}</span>
+                        <span>
+                          {p.geocode ? `geocode "${p.geocode}"` : `${p.lat?.toFixed(5)}, ${p.lng?.toFixed(5)}`} · by {p.matchedBy}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {preview.issues.length > 0 && (
+                  <ul className="max-h-32 list-disc overflow-y-auto pl-5 text-amber-700">
+                    {preview.issues.slice(0, 100).map((issue, i) => (
+                      <li key={i}>Feature {issue.feature}: {issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>Cancel</Button>
+            {preview && preview.planned.length > 0 ? (
+              <Button onClick={() => runImport(false)} disabled={importMutation.isPending}>
+                {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Update {preview.planned.length} Assets
+              </Button>
+            ) : (
+              <Button onClick={() => runImport(true)} disabled={!file || importMutation.isPending}>
+                {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { X } from "lucide-react";
+import { useTranslation } from "@/contexts/LanguageContext";
 
 export interface ProjectFilters {
   assetType?: string;
@@ -16,27 +17,16 @@ interface ProjectFilterBarProps {
   availableAssetTypes?: string[];
 }
 
-const CONDITION_LEVELS = [
-  { value: "all", label: "All Conditions" },
-  { value: "excellent", label: "Excellent" },
-  { value: "good", label: "Good" },
-  { value: "fair", label: "Fair" },
-  { value: "poor", label: "Poor" },
-  { value: "critical", label: "Critical" },
-];
+const CONDITION_LEVELS = ["excellent", "good", "fair", "poor", "critical"];
 
-const FUNDING_STATUS = [
-  { value: "all", label: "All Status" },
-  { value: "funded", label: "Funded" },
-  { value: "proposed", label: "Proposed" },
-  { value: "deferred", label: "Deferred" },
-];
+const FUNDING_STATUS = ["funded", "proposed", "deferred"] as const;
 
 export function ProjectFilterBar({
   filters,
   onFiltersChange,
   availableAssetTypes = [],
 }: ProjectFilterBarProps) {
+  const { t, conditionLabel } = useTranslation();
   const hasActiveFilters =
     (filters.assetType && filters.assetType !== "all") ||
     (filters.conditionLevel && filters.conditionLevel !== "all") ||
@@ -58,7 +48,7 @@ export function ProjectFilterBar({
 
   return (
     <div className="flex flex-wrap items-center gap-3 p-4 bg-muted/30 rounded-lg border">
-      <span className="text-sm font-medium text-muted-foreground">Filter by:</span>
+      <span className="text-sm font-medium text-muted-foreground">{t("common.filterBy")}</span>
 
       {/* Asset Type Filter */}
       {availableAssetTypes.length > 0 && (
@@ -69,10 +59,10 @@ export function ProjectFilterBar({
           }
         >
           <SelectTrigger className="w-[180px] bg-background">
-            <SelectValue placeholder="Asset Type" />
+            <SelectValue placeholder={t("filters.assetType")} />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="all">All Asset Types</SelectItem>
+            <SelectItem value="all">{t("filters.allAssetTypes")}</SelectItem>
             {availableAssetTypes.map((type) => (
               <SelectItem key={type} value={type}>
                 {type}
@@ -90,12 +80,13 @@ export function ProjectFilterBar({
         }
       >
         <SelectTrigger className="w-[180px] bg-background">
-          <SelectValue placeholder="Condition" />
+          <SelectValue placeholder={t("filters.condition")} />
         </SelectTrigger>
         <SelectContent>
+          <SelectItem value="all">{t("filters.allConditions")}</SelectItem>
           {CONDITION_LEVELS.map((level) => (
-            <SelectItem key={level.value} value={level.value}>
-              {level.label}
+            <SelectItem key={level} value={level}>
+              {conditionLabel(level)}
             </SelectItem>
           ))}
         </SelectContent>
@@ -109,12 +100,13 @@ export function ProjectFilterBar({
         }
       >
         <SelectTrigger className="w-[180px] bg-background">
-          <SelectValue placeholder="Status" />
+          <SelectValue placeholder={t("filters.status")} />
         </SelectTrigger>
         <SelectContent>
+          <SelectItem value="all">{t("filters.allStatus")}</SelectItem>
           {FUNDING_STATUS.map((status) => (
-            <SelectItem key={status.value} value={status.value}>
-              {status.label}
+            <SelectItem key={status} value={status}>
+              {t(`funding.${status}`)}
             </SelectItem>
           ))}
         </SelectContent>
@@ -124,7 +116,7 @@ export function ProjectFilterBar({
       {hasActiveFilters && (
         <>
           <Badge variant="secondary" className="gap-1">
-            {activeFilterCount} {activeFilterCount === 1 ? "filter" : "filters"} active
+            {activeFilterCount === 1 ? t("common.filterActive") : t("common.filtersActive", { count: activeFilterCount })}
           </Badge>
           <Button
             variant="ghost"
@@ -133,14 +125,14 @@ export function ProjectFilterBar({
             className="gap-1 h-8"
           >
             <X className="h-3 w-3" />
-            Clear all
+            {t("common.clearAll")}
           </Button>
         </>
       )}
 
       {!hasActiveFilters && (
         <span className="text-xs text-muted-foreground">
-          No filters applied
+          {t("common.noFilters")}
         </span>
       )}
     </div>
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gavel, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { RETENTION_DATA_TYPE_LABELS } from "@shared/retention";
+
+/**
+ * Dry-run preview of the retention policies and management of project legal holds
+ */
+export default function RetentionEnforcement() {
+  const [projectId, setProjectId] = useState("");
+  const [reason, setReason] = useState("");
+
+  const utils = trpc.useUtils();
+  const preview = trpc.dataSecurity.previewRetention.useQuery(undefined, { enabled: false });
+  const { data: holds, isLoading: holdsLoading } = trpc.dataSecurity.getLegalHolds.useQuery();
+
+  const setHold = trpc.dataSecurity.setProjectLegalHold.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.project.legalHold ? `Legal hold placed on ${result.project.name}` : `Legal hold released on ${result.project.name}`);
+      setProjectId("");
+      setReason("");
+      utils.dataSecurity.getLegalHolds.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handlePlaceHold = () => {
+    const id = parseInt(projectId);
+    if (!id) {
+      toast.error("Enter a project ID");
+      return;
+    }
+    setHold.mutate({ projectId: id, hold: true, reason });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Search className="h-5 w-5" />
+              Retention Preview
+            </CardTitle>
+            <CardDescription>
+              Records each policy would dispose of now. The weekly cleanup job records the same dry run in its report;
+              records are only deleted when the job runs in auto-fix mode.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => preview.refetch()} disabled={preview.isFetching}>
+            {preview.isFetching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Run Dry Run
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {!preview.data ? (
+            <p className="text-center py-6 text-muted-foreground">Run a dry run to see what is past retention</p>
+          ) : preview.data.results.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">Nothing is past retention</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Past Retention</TableHead>
+                  <TableHead>Legal Hold</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.data.results.map((rule) => (
+                  <TableRow key={`${rule.companyId}-${rule.dataType}`}>
+                    <TableCell className="font-medium">{rule.companyName}</TableCell>
+                    <TableCell>{RETENTION_DATA_TYPE_LABELS[rule.dataType]}</TableCell>
+                    <TableCell className="text-sm">
+                      {rule.policyName} ({rule.retentionDays} days)
+                    </TableCell>
+                    <TableCell>
+                      {rule.eligibleCount}
+                      {rule.truncated && "+"}
+                    </TableCell>
+                    <TableCell>{rule.heldCount > 0 ? <Badge variant="secondary">{rule.heldCount} kept</Badge> : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {preview.data && preview.data.errors.length > 0 && (
+            <ul className="mt-4 text-sm text-destructive space-y-1">
+              {preview.data.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Legal Holds
+          </CardTitle>
+          <CardDescription>
+            Projects under legal hold, with their photos, voice recordings and audit entries, are never disposed of by retention policies
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-[140px_1fr_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="holdProjectId">Project ID</Label>
+              <Input id="holdProjectId" type="number" value={projectId} onChange={(e) => setProjectId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holdReason">Reason</Label>
+              <Input
+                id="holdReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Litigation, investigation or records request"
+              />
+            </div>
+            <Button onClick={handlePlaceHold} disabled={setHold.isPending || !reason.trim()}>
+              Place Hold
+            </Button>
+          </div>
+
+          {holdsLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !holds || holds.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No projects are under legal hold</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Since</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holds.map((project) => (
+                  <TableRow key={project.id}>
+                    <TableCell className="font-medium">
+                      {project.name}
+                      <span className="block text-xs text-muted-foreground">#{project.id} · {project.company}</span>
+                    </TableCell>
+                    <TableCell className="text-sm">{project.legalHoldReason}</TableCell>
+                    <TableCell className="text-sm">
+                      {project.legalHoldAt ? format(new Date(project.legalHoldAt), "MMM d, yyyy") : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHold.mutate({ projectId: project.id, hold: false })}
+                        disabled={setHold.isPending}
+                      >
+                        Release
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Plus, Ban, Copy, UsersRound } from "lucide-react";
+import { toast } from "sonner";
+
+type CompanyRole = "company_admin" | "project_manager" | "editor" | "viewer";
+
+const ROLE_LABELS: Record<CompanyRole, string> = {
+  company_admin: "Company admin",
+  project_manager: "Project manager",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+/**
+ * SCIM tokens for the company's identity provider and the group to role mapping
+ */
+export default function ScimProvisioning() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [revealedToken, setRevealedToken] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: options } = trpc.scim.options.useQuery();
+  const { data: tokens, isLoading } = trpc.scim.listTokens.useQuery();
+  const { data: groups, isLoading: groupsLoading } = trpc.scim.groups.useQuery();
+
+  const scimUrl = `${window.location.origin}${options?.baseUrl ?? "/api/scim/v2"}`;
+
+  const createMutation = trpc.scim.createToken.useMutation({
+    onSuccess: (result) => {
+      toast.success("SCIM token created");
+      setDialogOpen(false);
+      setName("");
+      setRevealedToken(result.token);
+      utils.scim.listTokens.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revokeMutation = trpc.scim.revokeToken.useMutation({
+    onSuccess: () => {
+      toast.success("SCIM token revoked");
+      utils.scim.listTokens.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setRoleMutation = trpc.scim.setGroupRole.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Group role updated (${result.updatedMembers} member${result.updatedMembers === 1 ? "" : "s"} changed)`);
+      utils.scim.groups.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const copy = (value: string, label: string) => {
+    navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  };
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return "Never";
+    return new Date(dateString).toLocaleString();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Raw token, shown once after create */}
+      {revealedToken && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardHeader>
+            <CardTitle className="text-base">New SCIM token</CardTitle>
+            <CardDescription>
+              Copy this token now; it will not be shown again. Enter it as the secret or bearer token in your identity provider.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <Input readOnly value={revealedToken} className="font-mono" />
+            <Button variant="outline" size="icon" onClick={() => copy(revealedToken, "Token")}>
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" onClick={() => setRevealedToken(null)}>Done</Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>SCIM Provisioning</CardTitle>
+            <CardDescription>
+              Let your identity provider create, update and deactivate users alongside SAML single sign-on.
+              Every provisioning change is recorded in the audit log.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Token
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label>Tenant URL</Label>
+            <div className="flex gap-2">
+              <Input readOnly value={scimUrl} className="font-mono text-sm" />
+              <Button variant="outline" size="icon" onClick={() => copy(scimUrl, "URL")}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : tokens && tokens.length > 0 ? (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Token</TableHead>
+                    <TableHead>Last Used</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tokens.map((token) => (
+                    <TableRow key={token.id}>
+                      <TableCell className="font-medium">{token.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{token.tokenPrefix}…</TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex flex-col">
+                          <span>{formatDate(token.lastUsedAt)}</span>
+                          {token.lastUsedIp && <span className="text-muted-foreground">{token.lastUsedIp}</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {token.status === "active"
+                          ? <Badge variant="default" className="bg-green-500">Active</Badge>
+                          : <Badge variant="destructive">Revoked</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {token.status === "active" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revoke token"
+                            onClick={() => {
+                              if (confirm(`Revoke SCIM token "${token.name}"? Provisioning with it will stop immediately.`)) {
+                                revokeMutation.mutate({ id: token.id });
+                              }
+                            }}
+                          >
+                            <Ban className="w-4 h-4 text-red-600" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-center py-6 text-muted-foreground">No SCIM tokens issued</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Group Roles</CardTitle>
+          <CardDescription>
+            Groups pushed by your identity provider. Members receive the highest role among their groups; members in no
+            group are viewers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {groupsLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : groups && groups.length > 0 ? (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Group</TableHead>
+                    <TableHead>Members</TableHead>
+                    <TableHead>Company Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map((group) => (
+                    <TableRow key={group.id}>
+                      <TableCell className="font-medium">{group.displayName}</TableCell>
+                      <TableCell className="text-sm">{group.memberCount}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={group.companyRole}
+                          disabled={setRoleMutation.isPending}
+                          onValueChange={(value) => setRoleMutation.mutate({ groupId: group.id, companyRole: value as CompanyRole })}
+                        >
+                          <SelectTrigger className="w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(options?.roles ?? []).map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <UsersRound className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No groups have been pushed yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create SCIM Token</DialogTitle>
+            <DialogDescription>The token can provision users and groups for your company only</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="scim-token-name">Name</Label>
+            <Input id="scim-token-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Azure AD provisioning" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button disabled={!name || createMutation.isPending} onClick={() => createMutation.mutate({ name })}>
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create Token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
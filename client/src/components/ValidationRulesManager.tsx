@@ -0,0 +1,429 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, ListChecks, Loader2, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  checkRuleExpression,
+  getCustomLogicExpression,
+  RULE_FIELDS,
+  RULE_FUNCTIONS,
+  RULE_SCOPES,
+} from "@shared/ruleExpression";
+
+type Severity = "error" | "warning" | "info";
+
+const RULE_TYPE_LABELS: Record<string, string> = {
+  date_range: "Date range",
+  numeric_range: "Numeric range",
+  required_field: "Required field",
+  custom_logic: "Custom logic",
+  same_year_inspection: "Same-year inspection",
+};
+
+const SEVERITY_VARIANTS: Record<Severity, "destructive" | "secondary" | "outline"> = {
+  error: "destructive",
+  warning: "secondary",
+  info: "outline",
+};
+
+const EXAMPLES = [
+  'condition is "poor" and remainingUsefulLife > 10',
+  "repairCost > replacementValue × 0.6",
+  "yearsSince(asset.yearBuilt) > 50 and isBlank(recommendedAction)",
+];
+
+interface RuleForm {
+  ruleId: number | null;
+  name: string;
+  field: string;
+  severity: Severity;
+  message: string;
+  expression: string;
+  projectId: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  ruleId: null,
+  name: "",
+  field: "",
+  severity: "warning",
+  message: "",
+  expression: "",
+  projectId: "",
+};
+
+/**
+ * Validation rule list, the custom_logic expression editor and a test bench that runs an
+ * expression against existing assessments
+ */
+export default function ValidationRulesManager() {
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [testProjectId, setTestProjectId] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: rules, isLoading } = trpc.validation.rules.list.useQuery();
+
+  const check = useMemo(() => (form.expression.trim() ? checkRuleExpression(form.expression) : null), [form.expression]);
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setForm(EMPTY_FORM);
+    utils.validation.rules.list.invalidate();
+  };
+
+  const createRule = trpc.validation.rules.create.useMutation({
+    onSuccess: () => onSaved("Rule created"),
+    onError: (error) => toast.error(error.message),
+  });
+  const updateRule = trpc.validation.rules.update.useMutation({
+    onSuccess: () => onSaved("Rule updated"),
+    onError: (error) => toast.error(error.message),
+  });
+  const toggleRule = trpc.validation.rules.toggle.useMutation({
+    onSuccess: () => utils.validation.rules.list.invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+  const deleteRule = trpc.validation.rules.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Rule deleted");
+      utils.validation.rules.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+  const testRule = trpc.validation.rules.test.useMutation({
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateForm = (changes: Partial<RuleForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const handleEdit = (rule: NonNullable<typeof rules>[number]) => {
+    setForm({
+      ruleId: rule.id,
+      name: rule.name,
+      field: rule.field,
+      severity: rule.severity as Severity,
+      message: rule.message,
+      expression: getCustomLogicExpression(rule.condition),
+      projectId: rule.projectId ? String(rule.projectId) : "",
+    });
+    testRule.reset();
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim() || !form.field.trim() || !form.message.trim()) {
+      toast.error("Name, field and message are required");
+      return;
+    }
+    const rule = {
+      name: form.name.trim(),
+      field: form.field.trim(),
+      severity: form.severity,
+      message: form.message.trim(),
+      condition: JSON.stringify({ expression: form.expression }),
+      projectId: form.projectId ? parseInt(form.projectId) : undefined,
+    };
+    if (form.ruleId) {
+      updateRule.mutate({ ruleId: form.ruleId, ruleType: "custom_logic", ...rule });
+    } else {
+      createRule.mutate({ ruleType: "custom_logic", ...rule });
+    }
+  };
+
+  const handleTest = () => {
+    testRule.mutate({
+      expression: form.expression,
+      projectId: testProjectId ? parseInt(testProjectId) : undefined,
+    });
+  };
+
+  const saving = createRule.isPending || updateRule.isPending;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Validation Rules
+          </CardTitle>
+          <CardDescription>
+            Rules checked when an assessment is saved. Rules without a project apply to every project.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !rules || rules.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No validation rules yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">
+                      {rule.name}
+                      {rule.ruleType === "custom_logic" && (
+                        <code className="block text-xs text-muted-foreground font-normal">
+                          {getCustomLogicExpression(rule.condition)}
+                        </code>
+                      )}
+                    </TableCell>
+                    <TableCell>{RULE_TYPE_LABELS[rule.ruleType] ?? rule.ruleType}</TableCell>
+                    <TableCell>
+                      <Badge variant={SEVERITY_VARIANTS[rule.severity as Severity]}>{rule.severity}</Badge>
+                    </TableCell>
+                    <TableCell>{rule.projectId ? `#${rule.projectId}` : "All"}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive === 1}
+                        onCheckedChange={(checked) => toggleRule.mutate({ ruleId: rule.id, isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      {rule.ruleType === "custom_logic" && (
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (confirm(`Delete the rule "${rule.name}"?`)) deleteRule.mutate({ ruleId: rule.id });
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            {form.ruleId ? "Edit Custom Rule" : "New Custom Rule"}
+          </CardTitle>
+          <CardDescription>
+            The rule flags an assessment when its expression is true. Bare field names are assessment fields;
+            use <code>asset.</code> and <code>project.</code> for the related records.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="ruleName">Name</Label>
+              <Input id="ruleName" value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleField">Field</Label>
+              <Input
+                id="ruleField"
+                value={form.field}
+                onChange={(e) => updateForm({ field: e.target.value })}
+                placeholder="Field the warning is shown on, e.g. repairCost"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select value={form.severity} onValueChange={(value: Severity) => updateForm({ severity: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="error">Error (blocks saving)</SelectItem>
+                  <SelectItem value="warning">Warning (can be overridden)</SelectItem>
+                  <SelectItem value="info">Info</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleProjectId">Project ID</Label>
+              <Input
+                id="ruleProjectId"
+                type="number"
+                value={form.projectId}
+                onChange={(e) => updateForm({ projectId: e.target.value })}
+                placeholder="Leave empty for all projects"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ruleMessage">Message</Label>
+            <Input id="ruleMessage" value={form.message} onChange={(e) => updateForm({ message: e.target.value })} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ruleExpression">Expression</Label>
+            <Textarea
+              id="ruleExpression"
+              className="font-mono text-sm"
+              rows={3}
+              value={form.expression}
+              onChange={(e) => updateForm({ expression: e.target.value })}
+              placeholder={EXAMPLES[0]}
+            />
+            {check && !check.ok && (
+              <pre className="text-xs text-destructive whitespace-pre-wrap font-mono">{check.error.display}</pre>
+            )}
+            {check?.ok && <p className="text-xs text-muted-foreground">Expression is valid</p>}
+          </div>
+
+          <details className="text-sm">
+            <summary className="cursor-pointer text-muted-foreground">Fields, functions and examples</summary>
+            <div className="mt-3 space-y-3">
+              <div>
+                <p className="font-medium">Examples</p>
+                {EXAMPLES.map((example) => (
+                  <button
+                    key={example}
+                    type="button"
+                    className="block font-mono text-xs text-primary hover:underline"
+                    onClick={() => updateForm({ expression: example })}
+                  >
+                    {example}
+                  </button>
+                ))}
+              </div>
+              <p className="text-muted-foreground">
+                Operators: <code>and or not</code>, <code>= != &lt; &lt;= &gt; &gt;=</code>, <code>is [not]</code>,{" "}
+                <code>[not] in ["a", "b"]</code>, <code>+ - × / %</code>. Missing values are null, and comparisons with
+                null are false, so check them with <code>is null</code> or <code>isBlank()</code>.
+              </p>
+              {RULE_SCOPES.map((scope) => (
+                <div key={scope}>
+                  <p className="font-medium">{scope === "assessment" ? "Assessment" : `${scope}.`}</p>
+                  <p className="font-mono text-xs text-muted-foreground">
+                    {Object.entries(RULE_FIELDS[scope])
+                      .map(([field, type]) => `${field} (${type})`)
+                      .join(", ")}
+                  </p>
+                </div>
+              ))}
+              <div>
+                <p className="font-medium">Functions</p>
+                <ul className="text-xs text-muted-foreground">
+                  {Object.entries(RULE_FUNCTIONS).map(([name, fn]) => (
+                    <li key={name}>
+                      <code>{name}()</code> {fn.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </details>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving || !check?.ok}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {form.ruleId ? "Update Rule" : "Create Rule"}
+            </Button>
+            {form.ruleId && (
+              <Button variant="outline" onClick={() => setForm(EMPTY_FORM)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Rule Test Bench
+          </CardTitle>
+          <CardDescription>
+            Run the expression above against the 200 most recently updated assessments to see which it would flag
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-[200px_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="testProjectId">Project ID</Label>
+              <Input
+                id="testProjectId"
+                type="number"
+                value={testProjectId}
+                onChange={(e) => setTestProjectId(e.target.value)}
+                placeholder="All projects"
+              />
+            </div>
+            <Button variant="outline" className="w-fit" onClick={handleTest} disabled={testRule.isPending || !check?.ok}>
+              {testRule.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Run Test
+            </Button>
+          </div>
+
+          {testRule.data && (
+            <>
+              <p className="text-sm">
+                Flags <strong>{testRule.data.matches.length}</strong> of {testRule.data.tested} assessments
+              </p>
+              {testRule.data.matches.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Project</TableHead>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Component</TableHead>
+                      <TableHead>Condition</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {testRule.data.matches.map((match) => (
+                      <TableRow key={match.assessmentId}>
+                        <TableCell>
+                          {match.projectId ? (
+                            <Link href={`/projects/${match.projectId}`} className="hover:underline">
+                              {match.projectName}
+                            </Link>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>{match.assetName ?? "-"}</TableCell>
+                        <TableCell>
+                          <span className="font-mono text-xs">{match.componentCode}</span> {match.componentName}
+                        </TableCell>
+                        <TableCell>{match.condition ?? "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -16,9 +16,10 @@ interface VoiceRecorderProps {
   onCancel?: () => void;
   context?: string; // e.g., "Assessment", "Project Notes"
   fieldType?: "observations" | "recommendations"; // For AI enhancement
+  projectId?: number; // Makes the transcript searchable within the project
 }
 
-export function VoiceRecorder({ onTranscriptionComplete, onCancel, context = "Assessment", fieldType }: VoiceRecorderProps) {
+export function VoiceRecorder({ onTranscriptionComplete, onCancel, context = "Assessment", fieldType, projectId }: VoiceRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
@@ -271,7 +272,7 @@ export function VoiceRecorder({ onTranscriptionComplete, onCancel, context = "As
       const { url } = await uploadResponse.json();
       
       // Transcribe using manus-speech-to-text
-      const result = await transcribeMutation.mutateAsync({ audioUrl: url });
+      const result = await transcribeMutation.mutateAsync({ audioUrl: url, projectId });
       
       setTranscribedText(result.text);
       
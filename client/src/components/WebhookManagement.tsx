@@ -0,0 +1,509 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Webhook, CheckCircle, XCircle, Clock, RefreshCw, Plus, Send, KeyRound, Trash2, RotateCcw, Copy } from "lucide-react";
+import { toast } from "sonner";
+
+type DeliveryStatus = "pending" | "delivered" | "retrying" | "failed" | "all";
+
+const EVENT_LABELS: Record<string, string> = {
+  "assessment.status_changed": "Assessment status changed",
+  "deficiency.created": "Deficiency created",
+  "deficiency.resolved": "Deficiency resolved",
+  "project.status_changed": "Project status changed",
+  "consultant_submission.approved": "Consultant submission approved",
+  ping: "Test ping",
+};
+
+export default function WebhookManagement() {
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus>("all");
+  const [subscriptionFilter, setSubscriptionFilter] = useState<string>("all");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<string[]>([]);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: eventTypesData } = trpc.webhooks.eventTypes.useQuery();
+  const { data: subscriptions, isLoading: subscriptionsLoading } = trpc.webhooks.list.useQuery();
+  const { data: stats } = trpc.webhooks.stats.useQuery();
+  const { data: deliveriesData, isLoading: deliveriesLoading, refetch } = trpc.webhooks.deliveries.useQuery({
+    status: statusFilter,
+    subscriptionId: subscriptionFilter === "all" ? undefined : Number(subscriptionFilter),
+    limit: 50,
+    offset: 0,
+  });
+
+  const invalidate = () => {
+    utils.webhooks.list.invalidate();
+    utils.webhooks.deliveries.invalidate();
+    utils.webhooks.stats.invalidate();
+  };
+
+  const createMutation = trpc.webhooks.create.useMutation({
+    onSuccess: (result) => {
+      toast.success("Webhook created");
+      setDialogOpen(false);
+      setName("");
+      setUrl("");
+      setDescription("");
+      setEvents([]);
+      setRevealedSecret(result.secret);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateMutation = trpc.webhooks.update.useMutation({
+    onSuccess: () => invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.webhooks.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Webhook deleted");
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const rotateMutation = trpc.webhooks.rotateSecret.useMutation({
+    onSuccess: (result) => {
+      setRevealedSecret(result.secret);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const testMutation = trpc.webhooks.sendTest.useMutation({
+    onSuccess: (result) => {
+      if (result.success) {
+        toast.success(`Test delivered (HTTP ${result.responseStatus})`);
+      } else {
+        toast.error(`Test failed: ${result.error || "Unknown error"}`);
+      }
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const replayMutation = trpc.webhooks.replay.useMutation({
+    onSuccess: (result) => {
+      if (result.delivered === result.replayed) {
+        toast.success("Delivery replayed successfully");
+      } else {
+        toast.error("Replay failed; see the delivery log for details");
+      }
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const toggleEvent = (eventType: string, checked: boolean) => {
+    setEvents((current) => checked ? [...current, eventType] : current.filter((e) => e !== eventType));
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "delivered":
+        return <Badge variant="default" className="bg-green-500"><CheckCircle className="w-3 h-3 mr-1" />Delivered</Badge>;
+      case "failed":
+        return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Failed</Badge>;
+      case "retrying":
+        return <Badge variant="default" className="bg-amber-500"><RefreshCw className="w-3 h-3 mr-1" />Retrying</Badge>;
+      case "pending":
+        return <Badge variant="secondary"><Clock className="w-3 h-3 mr-1" />Pending</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "N/A";
+    return new Date(dateString).toLocaleString();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Statistics Cards */}
+      {stats && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Total Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats.total}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Delivered</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{stats.delivered}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Retrying</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-amber-600">{stats.retrying + stats.pending}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Failed</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600">{stats.failed}</div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Signing secret, shown once after create or rotate */}
+      {revealedSecret && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardHeader>
+            <CardTitle className="text-base">Signing secret</CardTitle>
+            <CardDescription>
+              Copy this secret now; it will not be shown again. Receivers verify the{" "}
+              <code>{eventTypesData?.signatureHeader ?? "X-BCA-Signature"}</code> header with it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <Input readOnly value={revealedSecret} className="font-mono" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                navigator.clipboard.writeText(revealedSecret);
+                toast.success("Secret copied");
+              }}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" onClick={() => setRevealedSecret(null)}>Done</Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Subscriptions */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Webhook Subscriptions</CardTitle>
+            <CardDescription>Send signed event notifications to external systems</CardDescription>
+          </div>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Webhook
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {subscriptionsLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : subscriptions && subscriptions.length > 0 ? (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead>Secret</TableHead>
+                    <TableHead>Last Delivery</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map((subscription) => (
+                    <TableRow key={subscription.id}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span className="font-medium">{subscription.name}</span>
+                          <span className="text-sm text-muted-foreground max-w-xs truncate">{subscription.url}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {subscription.events.map((eventType) => (
+                            <Badge key={eventType} variant="outline">{EVENT_LABELS[eventType] || eventType}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{subscription.secretHint}</TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex flex-col gap-1">
+                          {subscription.lastDeliveryStatus ? getStatusBadge(subscription.lastDeliveryStatus) : "-"}
+                          <span className="text-muted-foreground">{formatDate(subscription.lastDeliveryAt)}</span>
+                          {subscription.consecutiveFailures > 0 && (
+                            <span className="text-red-600">{subscription.consecutiveFailures} consecutive failures</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={subscription.isActive === 1}
+                          onCheckedChange={(checked) => updateMutation.mutate({ id: subscription.id, isActive: checked })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Send test event"
+                            disabled={testMutation.isPending}
+                            onClick={() => testMutation.mutate({ id: subscription.id })}
+                          >
+                            <Send className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Rotate signing secret"
+                            onClick={() => {
+                              if (confirm("Rotate the signing secret? Receivers must be updated with the new secret.")) {
+                                rotateMutation.mutate({ id: subscription.id });
+                              }
+                            }}
+                          >
+                            <KeyRound className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete webhook"
+                            onClick={() => {
+                              if (confirm(`Delete webhook "${subscription.name}" and its delivery history?`)) {
+                                deleteMutation.mutate({ id: subscription.id });
+                              }
+                            }}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Webhook className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No webhooks configured</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delivery Log */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>Every event sent to a webhook, with retry status and receiver responses</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <Label htmlFor="webhook-status-filter">Status</Label>
+              <Select value={statusFilter} onValueChange={(value: any) => setStatusFilter(value)}>
+                <SelectTrigger id="webhook-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                  <SelectItem value="retrying">Retrying</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="webhook-subscription-filter">Webhook</Label>
+              <Select value={subscriptionFilter} onValueChange={setSubscriptionFilter}>
+                <SelectTrigger id="webhook-subscription-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Webhooks</SelectItem>
+                  {subscriptions?.map((subscription) => (
+                    <SelectItem key={subscription.id} value={String(subscription.id)}>{subscription.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end mb-4">
+            <Button onClick={() => refetch()}>
+              Refresh
+            </Button>
+          </div>
+
+          {deliveriesLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : deliveriesData && deliveriesData.deliveries.length > 0 ? (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Webhook</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveriesData.deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="font-mono text-sm">
+                        {delivery.id}
+                        {delivery.replayOfDeliveryId && (
+                          <div className="text-xs text-muted-foreground">replay of {delivery.replayOfDeliveryId}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{EVENT_LABELS[delivery.eventType] || delivery.eventType}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">{delivery.subscriptionName || "Deleted"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1">
+                          {getStatusBadge(delivery.status)}
+                          {delivery.status === "retrying" && (
+                            <span className="text-xs text-muted-foreground">next {formatDate(delivery.nextAttemptAt)}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{delivery.attempts}/{delivery.maxAttempts}</TableCell>
+                      <TableCell className="max-w-xs">
+                        {delivery.failureReason ? (
+                          <span className="text-sm text-red-600">{delivery.failureReason}</span>
+                        ) : delivery.responseStatus ? (
+                          <span className="text-sm">HTTP {delivery.responseStatus}{delivery.durationMs != null && ` · ${delivery.durationMs} ms`}</span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDate(delivery.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        {(delivery.status === "failed" || delivery.status === "retrying" || delivery.status === "delivered") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={replayMutation.isPending}
+                            onClick={() => replayMutation.mutate({ deliveryIds: [delivery.id] })}
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Webhook className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No deliveries found matching the current filters</p>
+            </div>
+          )}
+
+          {deliveriesData && deliveriesData.total > 0 && (
+            <div className="mt-4 text-sm text-muted-foreground text-center">
+              Showing {deliveriesData.deliveries.length} of {deliveriesData.total} total deliveries
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Webhook</DialogTitle>
+            <DialogDescription>Events are POSTed as JSON and signed with HMAC-SHA256</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input id="webhook-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="CMMS integration" />
+            </div>
+            <div>
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input id="webhook-url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/webhooks/bca" />
+            </div>
+            <div>
+              <Label htmlFor="webhook-description">Description</Label>
+              <Textarea id="webhook-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              {eventTypesData?.eventTypes.map((eventType) => (
+                <div key={eventType} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`event-${eventType}`}
+                    checked={events.includes(eventType)}
+                    onCheckedChange={(checked) => toggleEvent(eventType, checked === true)}
+                  />
+                  <Label htmlFor={`event-${eventType}`} className="font-normal">{EVENT_LABELS[eventType] || eventType}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!name || !url || events.length === 0 || createMutation.isPending}
+              onClick={() => createMutation.mutate({
+                name,
+                url,
+                description: description || undefined,
+                events: events as any,
+                isActive: true,
+              })}
+            >
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create Webhook
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,521 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Plus, Pencil, Trash2, Search, CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+type Effect = "allow" | "deny";
+
+interface AttributeConditions {
+  [attribute: string]: string[];
+}
+
+interface PolicyRecord {
+  id: number;
+  name: string;
+  description: string | null;
+  effect: Effect;
+  actions: string[];
+  subjectRoles: string[];
+  subjectUserIds: number[];
+  conditions: { project?: AttributeConditions; asset?: AttributeConditions; componentGroups?: string[] };
+  isActive: boolean;
+}
+
+interface Explanation {
+  allowed: boolean;
+  exempt: boolean;
+  reason: string;
+  message: string;
+  companyRole: string | null;
+  evaluations: {
+    policyId: number;
+    policyName: string;
+    effect: Effect;
+    matched: boolean;
+    matchedConditions: string[];
+    failedConditions: string[];
+    unresolvedConditions: string[];
+  }[];
+}
+
+interface PolicyForm {
+  id?: number;
+  name: string;
+  description: string;
+  effect: Effect;
+  actions: string[];
+  subjectRoles: string[];
+  subjectUserIds: string;
+  project: Record<string, string>;
+  asset: Record<string, string>;
+  componentGroups: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PolicyForm = {
+  name: "",
+  description: "",
+  effect: "allow",
+  actions: [],
+  subjectRoles: [],
+  subjectUserIds: "",
+  project: {},
+  asset: {},
+  componentGroups: "",
+  isActive: true,
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  company_admin: "Company admin",
+  project_manager: "Project manager",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const splitList = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+
+const toConditions = (values: Record<string, string>): AttributeConditions => {
+  const conditions: AttributeConditions = {};
+  for (const [attribute, value] of Object.entries(values)) {
+    const list = splitList(value);
+    if (list.length > 0) conditions[attribute] = list;
+  }
+  return conditions;
+};
+
+const fromConditions = (conditions?: AttributeConditions): Record<string, string> =>
+  Object.fromEntries(Object.entries(conditions ?? {}).map(([attribute, values]) => [attribute, values.join(", ")]));
+
+const describeConditions = (policy: PolicyRecord) => {
+  const parts: string[] = [];
+  for (const [attribute, values] of Object.entries(policy.conditions.project ?? {})) {
+    parts.push(`project.${attribute} ∈ ${values.join(", ")}`);
+  }
+  for (const [attribute, values] of Object.entries(policy.conditions.asset ?? {})) {
+    parts.push(`asset.${attribute} ∈ ${values.join(", ")}`);
+  }
+  if (policy.conditions.componentGroups?.length) {
+    parts.push(`components ${policy.conditions.componentGroups.join(", ")}`);
+  }
+  return parts.length > 0 ? parts.join("; ") : "All buildings";
+};
+
+export function AccessPoliciesEditor() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [check, setCheck] = useState({ action: "project.view", projectId: "", assetId: "", componentCode: "", userId: "" });
+  const [explanation, setExplanation] = useState<Explanation | null>(null);
+  const [explaining, setExplaining] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: options } = trpc.accessPolicies.options.useQuery();
+  const { data, isLoading, isError, error } = trpc.accessPolicies.list.useQuery();
+  const policies = (data ?? []) as PolicyRecord[];
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setDialogOpen(false);
+    setForm(EMPTY_FORM);
+    utils.accessPolicies.list.invalidate();
+  };
+
+  const createMutation = trpc.accessPolicies.create.useMutation({
+    onSuccess: () => onSaved("Access policy created"),
+    onError: (err) => toast.error(err.message),
+  });
+
+  const updateMutation = trpc.accessPolicies.update.useMutation({
+    onSuccess: () => onSaved("Access policy updated"),
+    onError: (err) => toast.error(err.message),
+  });
+
+  const deleteMutation = trpc.accessPolicies.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Access policy deleted");
+      utils.accessPolicies.list.invalidate();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const openEditor = (policy?: PolicyRecord) => {
+    setForm(policy ? {
+      id: policy.id,
+      name: policy.name,
+      description: policy.description ?? "",
+      effect: policy.effect,
+      actions: policy.actions,
+      subjectRoles: policy.subjectRoles,
+      subjectUserIds: policy.subjectUserIds.join(", "),
+      project: fromConditions(policy.conditions.project),
+      asset: fromConditions(policy.conditions.asset),
+      componentGroups: (policy.conditions.componentGroups ?? []).join(", "),
+      isActive: policy.isActive,
+    } : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const toggleIn = (key: "actions" | "subjectRoles", value: string, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      [key]: checked ? [...current[key], value] : current[key].filter((v) => v !== value),
+    }));
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim() || form.actions.length === 0) {
+      toast.error("Name and at least one action are required");
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      description: form.description || undefined,
+      effect: form.effect,
+      actions: form.actions,
+      subjectRoles: form.subjectRoles as ("company_admin" | "project_manager" | "editor" | "viewer")[],
+      subjectUserIds: splitList(form.subjectUserIds).map(Number).filter((n) => Number.isInteger(n)),
+      conditions: {
+        project: toConditions(form.project),
+        asset: toConditions(form.asset),
+        componentGroups: splitList(form.componentGroups),
+      },
+      isActive: form.isActive,
+    };
+
+    if (form.id) {
+      updateMutation.mutate({ id: form.id, ...payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const handleExplain = async () => {
+    if (!check.projectId) {
+      toast.error("Enter a project ID to check");
+      return;
+    }
+    setExplaining(true);
+    try {
+      const result = await utils.accessPolicies.explain.fetch({
+        action: check.action,
+        projectId: Number(check.projectId),
+        assetId: check.assetId ? Number(check.assetId) : undefined,
+        componentCode: check.componentCode || undefined,
+        userId: check.userId ? Number(check.userId) : undefined,
+      });
+      setExplanation(result as Explanation);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setExplaining(false);
+    }
+  };
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Access Policies</CardTitle>
+            <CardDescription>
+              Limit what company roles and users can do per building, by project and asset attributes or component group.
+              Deny policies win; when allow policies exist for an action, one of them must match.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor()}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Policy
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : isError ? (
+            <div className="text-center py-8 text-destructive">Error loading access policies: {error.message}</div>
+          ) : policies.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              No access policies. Role permissions alone decide access.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Effect</TableHead>
+                  <TableHead>Actions</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Conditions</TableHead>
+                  <TableHead className="text-right">Manage</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map((policy) => (
+                  <TableRow key={policy.id} className={policy.isActive ? "" : "opacity-50"}>
+                    <TableCell className="font-medium">
+                      {policy.name}
+                      {!policy.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {policy.effect === "deny"
+                        ? <Badge variant="destructive">Deny</Badge>
+                        : <Badge variant="default" className="bg-green-500">Allow</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs">{policy.actions.join(", ")}</TableCell>
+                    <TableCell className="text-xs">
+                      {policy.subjectRoles.length === 0 && policy.subjectUserIds.length === 0
+                        ? "Everyone"
+                        : [
+                            ...policy.subjectRoles.map((r) => ROLE_LABELS[r] ?? r),
+                            ...policy.subjectUserIds.map((id) => `User #${id}`),
+                          ].join(", ")}
+                    </TableCell>
+                    <TableCell className="text-xs">{describeConditions(policy)}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(policy)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (confirm(`Delete policy "${policy.name}"?`)) deleteMutation.mutate({ id: policy.id });
+                        }}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Why was I denied? */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Check Access</CardTitle>
+          <CardDescription>
+            Explain whether a user may perform an action on a project, asset or component, and which policies decided it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div className="space-y-1">
+              <Label>Action</Label>
+              <Select value={check.action} onValueChange={(action) => setCheck({ ...check, action })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(options?.actions ?? []).map((action) => (
+                    <SelectItem key={action} value={action}>{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Project ID</Label>
+              <Input value={check.projectId} onChange={(e) => setCheck({ ...check, projectId: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Asset ID (optional)</Label>
+              <Input value={check.assetId} onChange={(e) => setCheck({ ...check, assetId: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Component Code (optional)</Label>
+              <Input
+                placeholder="e.g. D3020"
+                value={check.componentCode}
+                onChange={(e) => setCheck({ ...check, componentCode: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>User ID (blank = you)</Label>
+              <Input value={check.userId} onChange={(e) => setCheck({ ...check, userId: e.target.value })} />
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleExplain} disabled={explaining}>
+            {explaining ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            Explain
+          </Button>
+
+          {explanation && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2 font-medium">
+                {explanation.allowed
+                  ? <CheckCircle className="w-5 h-5 text-green-600" />
+                  : <XCircle className="w-5 h-5 text-destructive" />}
+                {explanation.allowed ? "Allowed" : "Denied"}
+                {explanation.companyRole && (
+                  <Badge variant="outline">{ROLE_LABELS[explanation.companyRole] ?? explanation.companyRole}</Badge>
+                )}
+              </div>
+              <p className="text-sm">{explanation.message}</p>
+              {explanation.evaluations.map((evaluation) => (
+                <div key={evaluation.policyId} className="text-sm border-t pt-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{evaluation.policyName}</span>
+                    <Badge variant={evaluation.effect === "deny" ? "destructive" : "secondary"}>{evaluation.effect}</Badge>
+                    <Badge variant="outline">{evaluation.matched ? "matched" : "not matched"}</Badge>
+                  </div>
+                  <ul className="list-disc ml-5 text-xs text-muted-foreground">
+                    {evaluation.matchedConditions.map((c) => <li key={`m-${c}`}>✓ {c}</li>)}
+                    {evaluation.failedConditions.map((c) => <li key={`f-${c}`}>✗ {c}</li>)}
+                    {evaluation.unresolvedConditions.map((c) => <li key={`u-${c}`}>? not checked: {c}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form.id ? "Edit Access Policy" : "New Access Policy"}</DialogTitle>
+            <DialogDescription>
+              Leave a condition blank to match any value. Separate multiple values with commas.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Effect</Label>
+                <Select value={form.effect} onValueChange={(effect) => setForm({ ...form, effect: effect as Effect })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="allow">Allow only where conditions match</SelectItem>
+                    <SelectItem value="deny">Deny where conditions match</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Description</Label>
+              <Textarea
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Actions</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(options?.actions ?? []).map((action) => (
+                  <label key={action} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.actions.includes(action)}
+                      onCheckedChange={(checked) => toggleIn("actions", action, checked === true)}
+                    />
+                    {action}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to company roles (none selected = everyone)</Label>
+              <div className="flex flex-wrap gap-4">
+                {(options?.companyRoles ?? []).filter((r) => r !== "company_admin").map((role) => (
+                  <label key={role} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.subjectRoles.includes(role)}
+                      onCheckedChange={(checked) => toggleIn("subjectRoles", role, checked === true)}
+                    />
+                    {ROLE_LABELS[role] ?? role}
+                  </label>
+                ))}
+              </div>
+              <Input
+                placeholder="And/or user IDs, e.g. 12, 15"
+                value={form.subjectUserIds}
+                onChange={(e) => setForm({ ...form, subjectUserIds: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Company admins are never restricted by policies.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Project conditions</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(options?.projectAttributes ?? []).map((attribute) => (
+                  <Input
+                    key={attribute}
+                    placeholder={attribute}
+                    value={form.project[attribute] ?? ""}
+                    onChange={(e) => setForm({ ...form, project: { ...form.project, [attribute]: e.target.value } })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Asset conditions</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(options?.assetAttributes ?? []).map((attribute) => (
+                  <Input
+                    key={attribute}
+                    placeholder={attribute}
+                    value={form.asset[attribute] ?? ""}
+                    onChange={(e) => setForm({ ...form, asset: { ...form.asset, [attribute]: e.target.value } })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Component groups (UNIFORMAT prefixes)</Label>
+              <Input
+                placeholder="e.g. D30, D50"
+                value={form.componentGroups}
+                onChange={(e) => setForm({ ...form, componentGroups: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} />
+              <Label>Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Policy
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
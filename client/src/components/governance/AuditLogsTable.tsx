@@ -132,6 +132,8 @@ export function AuditLogsTable() {
             <SelectItem value="export">Export</SelectItem>
             <SelectItem value="bulk_delete">Bulk Delete</SelectItem>
             <SelectItem value="bulk_update">Bulk Update</SelectItem>
+            <SelectItem value="api_access">API Access</SelectItem>
+            <SelectItem value="share_view">Share Link View</SelectItem>
           </SelectContent>
         </Select>
 
@@ -0,0 +1,107 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { trpc } from '@/lib/trpc';
+import { useAuth } from '@/_core/hooks/useAuth';
+import {
+  formatLocalizedDate,
+  getConditionLabel,
+  getPriorityLabel,
+  getProjectStatusLabel,
+  getSeverityLabel,
+  isSupportedLanguage,
+  translate,
+  type Language,
+  type MessageKey,
+} from '../../../shared/i18n';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  conditionLabel: (condition: string | null | undefined) => string;
+  severityLabel: (severity: string | null | undefined) => string;
+  priorityLabel: (priority: string | null | undefined) => string;
+  projectStatusLabel: (status: string | null | undefined) => string;
+  formatDate: (value: Date | string) => string;
+  isLoading: boolean;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+interface LanguageProviderProps {
+  children: ReactNode;
+}
+
+export function LanguageProvider({ children }: LanguageProviderProps) {
+  const { user, isAuthenticated } = useAuth();
+  const [language, setLanguageState] = useState<Language>('en');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const updatePreferenceMutation = trpc.settings.updateLanguagePreference.useMutation();
+
+  // Initialize from user preference, localStorage, then the browser language
+  useEffect(() => {
+    if (isAuthenticated && user) {
+      const userPref = (user as any).languagePreference;
+      if (isSupportedLanguage(userPref)) {
+        setLanguageState(userPref);
+      }
+      setIsLoading(false);
+    } else {
+      const stored = localStorage.getItem('languagePreference');
+      if (isSupportedLanguage(stored)) {
+        setLanguageState(stored);
+      } else if (navigator.language?.toLowerCase().startsWith('fr')) {
+        setLanguageState('fr');
+      }
+      setIsLoading(false);
+    }
+  }, [isAuthenticated, user]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    localStorage.setItem('languagePreference', next);
+
+    // Save to server if authenticated
+    if (isAuthenticated) {
+      updatePreferenceMutation.mutate({ languagePreference: next });
+    }
+  }, [isAuthenticated, updatePreferenceMutation]);
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(language, key, params),
+    [language]
+  );
+
+  return (
+    <LanguageContext.Provider
+      value={{
+        language,
+        setLanguage,
+        t,
+        conditionLabel: (condition) => getConditionLabel(language, condition),
+        severityLabel: (severity) => getSeverityLabel(language, severity),
+        priorityLabel: (priority) => getPriorityLabel(language, priority),
+        projectStatusLabel: (status) => getProjectStatusLabel(language, status),
+        formatDate: (value) => formatLocalizedDate(value, language),
+        isLoading,
+      }}
+    >
+      {children}
+    </LanguageContext.Provider>
+  );
+}
+
+export function useTranslation(): LanguageContextType {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LanguageProvider');
+  }
+  return context;
+}
+
+export { LANGUAGE_LABELS, SUPPORTED_LANGUAGES } from '../../../shared/i18n';
+export type { Language, MessageKey } from '../../../shared/i18n';
@@ -11,6 +11,7 @@ import {
   saveOfflineAssessment,
   getAssessmentsByProject,
   type OfflineAssessment,
+  type OfflineAssessmentBase,
 } from "@/lib/offlineStorage";
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
@@ -31,11 +32,14 @@ export interface AssessmentFormData {
   observations: string | null;
   recommendations: string | null;
   estimatedServiceLife: number | null;
+  expectedUsefulLife?: number | null;
   reviewYear: number | null;
   lastTimeAction: number | null;
   estimatedRepairCost: number | null;
   replacementValue: number | null;
   actionYear: number | null;
+  // Snapshot of the server assessment being edited, kept for merging offline edits
+  base?: OfflineAssessmentBase | null;
 }
 
 export interface UseOfflineAssessmentOptions {
@@ -137,7 +141,7 @@ export function useOfflineAssessment({
           } catch (onlineError) {
             // If online save fails, fall back to offline
             console.warn("Online save failed, falling back to offline:", onlineError);
-            const offlineId = await saveOfflineAssessment(data);
+            const offlineId = await saveOfflineAssessment({ ...data, serverId: data.id ?? null });
             
             toast.warning(
               "Saved offline. Will sync when backend is ready.",
@@ -154,7 +158,7 @@ export function useOfflineAssessment({
           }
         } else {
           // Save offline to IndexedDB
-          const offlineId = await saveOfflineAssessment(data);
+          const offlineId = await saveOfflineAssessment({ ...data, serverId: data.id ?? null });
           
           toast.success(
             "Saved offline. Will sync when connection returns.",
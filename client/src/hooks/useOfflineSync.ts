@@ -10,6 +10,8 @@ import { getSyncEngine, type SyncProgress, type SyncResult, type SyncEvent } fro
 import { getStorageStats, type StorageStats } from "@/lib/offlineStorage";
 import { toast } from "sonner";
 import { sendSyncNotification, sendOfflineNotification } from "./useNotificationPermission";
+import type { SyncConflict } from "@shared/assessmentMerge";
+import type { ConflictResolution } from "@/components/ConflictResolutionDialog";
 
 export interface OfflineSyncState {
   isOnline: boolean;
@@ -19,12 +21,14 @@ export interface OfflineSyncState {
   lastSyncTime: number | null;
   stats: StorageStats | null;
   pendingCount: number;
+  conflicts: SyncConflict[];
 }
 
 export interface OfflineSyncActions {
   startSync: () => Promise<void>;
   stopSync: () => void;
   refreshStats: () => Promise<void>;
+  resolveConflicts: (resolutions: ConflictResolution[]) => Promise<void>;
 }
 
 /**
@@ -71,6 +75,7 @@ export function useOfflineSync(): OfflineSyncState & OfflineSyncActions {
   const [lastSyncTime, setLastSyncTime] = useState<number | null>(null);
   const [stats, setStats] = useState<StorageStats | null>(null);
   const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
 
   const syncEngine = useRef(getSyncEngine());
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -87,14 +92,33 @@ export function useOfflineSync(): OfflineSyncState & OfflineSyncActions {
       const pending = 
         newStats.assessments.pending +
         newStats.photos.pending +
-        newStats.deficiencies.pending;
+        newStats.deficiencies.pending +
+        newStats.assets.pending +
+        newStats.buildingSections.pending +
+        newStats.maintenanceEntries.pending;
       
       setPendingCount(pending);
+      setConflicts(await syncEngine.current.getConflicts());
     } catch (error) {
       console.error("Failed to refresh stats:", error);
     }
   }, []);
 
+  /**
+   * Apply the user's choices for conflicting fields
+   */
+  const resolveConflicts = useCallback(async (resolutions: ConflictResolution[]) => {
+    try {
+      await syncEngine.current.resolveConflicts(resolutions);
+      toast.success("Conflicts resolved");
+    } catch (error: any) {
+      toast.error(`Failed to resolve conflicts: ${error.message}`);
+      throw error;
+    } finally {
+      await refreshStats();
+    }
+  }, [refreshStats]);
+
   /**
    * Start manual sync
    */
@@ -191,6 +215,11 @@ export function useOfflineSync(): OfflineSyncState & OfflineSyncActions {
           setIsSyncing(false);
           setProgress(null);
           break;
+        
+        case "conflict":
+          toast.warning("Some offline changes conflict with newer server edits. Please review them.");
+          syncEngine.current.getConflicts().then(setConflicts);
+          break;
       }
     };
 
@@ -261,9 +290,11 @@ export function useOfflineSync(): OfflineSyncState & OfflineSyncActions {
     lastSyncTime,
     stats,
     pendingCount,
+    conflicts,
     startSync,
     stopSync,
     refreshStats,
+    resolveConflicts,
   };
 }
 
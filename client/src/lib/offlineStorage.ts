@@ -5,6 +5,10 @@
  * Stores assessments, photos, deficiencies, and sync queue locally.
  */
 
+import type { AssessmentFieldValues, SyncConflict } from "@shared/assessmentMerge";
+// Schema migrations live with the optimized store so both modules open the same version
+import { DB_VERSION, upgradeOfflineDB } from "./offlineStorageOptimized";
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -12,7 +16,8 @@
 export interface OfflineAssessment {
   id: string; // Temporary ID (e.g., "offline_assessment_123")
   projectId: number;
-  assetId: number;
+  assetId: number | string; // Real asset ID, or OfflineAsset.id for an asset created offline
+  sectionId?: number | string | null; // Real section ID, or OfflineBuildingSection.id
   componentCode: string | null;
   componentName: string | null;
   componentLocation: string | null;
@@ -25,22 +30,33 @@ export interface OfflineAssessment {
   observations: string | null;
   recommendations: string | null;
   estimatedServiceLife: number | null;
+  expectedUsefulLife?: number | null;
   reviewYear: number | null;
   lastTimeAction: number | null;
   estimatedRepairCost: number | null;
   replacementValue: number | null;
   actionYear: number | null;
+  // Server assessment this edit started from, used for the three-way merge on sync
+  serverId?: number | null;
+  base?: OfflineAssessmentBase | null;
+  // Fields that changed on the server and offline, awaiting the user's choice
+  conflict?: SyncConflict | null;
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
-  syncStatus: "pending" | "syncing" | "synced" | "failed";
+  syncStatus: "pending" | "syncing" | "synced" | "failed" | "conflict";
   syncError?: string;
   retryCount: number;
 }
 
+export interface OfflineAssessmentBase {
+  version: number | null;
+  values: AssessmentFieldValues;
+}
+
 export interface OfflinePhoto {
   id: string; // Temporary ID (e.g., "offline_photo_123")
   assessmentId: string; // Links to OfflineAssessment.id or real assessment ID
-  assetId: number | null; // Asset ID for asset-level photos
+  assetId: number | string | null; // Asset ID for asset-level photos (OfflineAsset.id until synced)
   projectId: number;
   blob: Blob; // Compressed image data
   originalBlob: Blob; // Original uncompressed image
@@ -74,9 +90,79 @@ export interface OfflineDeficiency {
   retryCount: number;
 }
 
+export interface OfflineAsset {
+  id: string; // Temporary ID (e.g., "offline_asset_123")
+  projectId: number;
+  name: string;
+  assetType: string | null;
+  description: string | null;
+  address: string | null;
+  city: string | null;
+  province: string | null;
+  postalCode: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  yearBuilt: number | null;
+  grossFloorArea: number | null;
+  numberOfStories: number | null;
+  constructionType: string | null;
+  replacementValue: number | null;
+  createdAt: number;
+  updatedAt: number;
+  syncStatus: "pending" | "syncing" | "synced" | "failed";
+  syncError?: string;
+  retryCount: number;
+}
+
+export interface OfflineBuildingSection {
+  id: string; // Temporary ID (e.g., "offline_section_123")
+  projectId: number;
+  name: string;
+  description: string | null;
+  sectionType: "original" | "extension" | "addition" | "renovation";
+  installDate: string | null; // YYYY-MM-DD
+  expectedLifespan: number | null;
+  grossFloorArea: number | null;
+  numberOfStories: number | null;
+  constructionType: string | null;
+  notes: string | null;
+  createdAt: number;
+  updatedAt: number;
+  syncStatus: "pending" | "syncing" | "synced" | "failed";
+  syncError?: string;
+  retryCount: number;
+}
+
+export interface OfflineMaintenanceEntry {
+  id: string; // Temporary ID (e.g., "offline_maintenance_123")
+  projectId: number;
+  assessmentId: number | string | null; // Real assessment ID, or OfflineAssessment.id
+  componentName: string;
+  location: string | null;
+  entryType: "identified" | "executed";
+  actionType: "repair" | "rehabilitation" | "replacement" | "preventive_maintenance" | "emergency_repair" | "inspection" | "upgrade";
+  description: string;
+  workPerformed: string | null;
+  findings: string | null;
+  estimatedCost: number | null;
+  actualCost: number | null;
+  status: "planned" | "approved" | "in_progress" | "completed" | "deferred" | "cancelled";
+  priority: "immediate" | "high" | "medium" | "low";
+  dateIdentified: number | null; // Timestamps
+  dateScheduled: number | null;
+  dateCompleted: number | null;
+  contractor: string | null;
+  notes: string | null;
+  createdAt: number;
+  updatedAt: number;
+  syncStatus: "pending" | "syncing" | "synced" | "failed";
+  syncError?: string;
+  retryCount: number;
+}
+
 export interface SyncQueueItem {
   id: string;
-  type: "assessment" | "photo" | "deficiency";
+  type: "assessment" | "photo" | "deficiency" | "asset" | "building_section" | "maintenance_entry";
   itemId: string; // ID of the offline item
   priority: number; // 1 = highest, 5 = lowest
   createdAt: number;
@@ -112,7 +198,6 @@ export interface CachedBuildingComponent {
 // ============================================================================
 
 const DB_NAME = "bca_offline_storage";
-const DB_VERSION = 1;
 
 // Store names
 export const STORES = {
@@ -122,6 +207,9 @@ export const STORES = {
   SYNC_QUEUE: "sync_queue",
   CACHED_PROJECTS: "cached_projects",
   CACHED_COMPONENTS: "cached_components",
+  ASSETS: "offline_assets",
+  MAINTENANCE_ENTRIES: "offline_maintenance_entries",
+  BUILDING_SECTIONS: "offline_building_sections",
 } as const;
 
 let db: IDBDatabase | null = null;
@@ -147,55 +235,7 @@ export async function initOfflineDB(): Promise<IDBDatabase> {
     };
 
     request.onupgradeneeded = (event) => {
-      const database = (event.target as IDBOpenDBRequest).result;
-
-      // Create offline_assessments store
-      if (!database.objectStoreNames.contains(STORES.ASSESSMENTS)) {
-        const assessmentStore = database.createObjectStore(STORES.ASSESSMENTS, { keyPath: "id" });
-        assessmentStore.createIndex("projectId", "projectId", { unique: false });
-        assessmentStore.createIndex("assetId", "assetId", { unique: false });
-        assessmentStore.createIndex("syncStatus", "syncStatus", { unique: false });
-        assessmentStore.createIndex("createdAt", "createdAt", { unique: false });
-      }
-
-      // Create offline_photos store
-      if (!database.objectStoreNames.contains(STORES.PHOTOS)) {
-        const photoStore = database.createObjectStore(STORES.PHOTOS, { keyPath: "id" });
-        photoStore.createIndex("assessmentId", "assessmentId", { unique: false });
-        photoStore.createIndex("projectId", "projectId", { unique: false });
-        photoStore.createIndex("syncStatus", "syncStatus", { unique: false });
-        photoStore.createIndex("createdAt", "createdAt", { unique: false });
-      }
-
-      // Create offline_deficiencies store
-      if (!database.objectStoreNames.contains(STORES.DEFICIENCIES)) {
-        const deficiencyStore = database.createObjectStore(STORES.DEFICIENCIES, { keyPath: "id" });
-        deficiencyStore.createIndex("projectId", "projectId", { unique: false });
-        deficiencyStore.createIndex("assessmentId", "assessmentId", { unique: false });
-        deficiencyStore.createIndex("syncStatus", "syncStatus", { unique: false });
-      }
-
-      // Create sync_queue store
-      if (!database.objectStoreNames.contains(STORES.SYNC_QUEUE)) {
-        const syncStore = database.createObjectStore(STORES.SYNC_QUEUE, { keyPath: "id" });
-        syncStore.createIndex("type", "type", { unique: false });
-        syncStore.createIndex("priority", "priority", { unique: false });
-        syncStore.createIndex("status", "status", { unique: false });
-        syncStore.createIndex("nextRetryAt", "nextRetryAt", { unique: false });
-      }
-
-      // Create cached_projects store
-      if (!database.objectStoreNames.contains(STORES.CACHED_PROJECTS)) {
-        const projectStore = database.createObjectStore(STORES.CACHED_PROJECTS, { keyPath: "id" });
-        projectStore.createIndex("cachedAt", "cachedAt", { unique: false });
-      }
-
-      // Create cached_components store (UNIFORMAT II)
-      if (!database.objectStoreNames.contains(STORES.CACHED_COMPONENTS)) {
-        const componentStore = database.createObjectStore(STORES.CACHED_COMPONENTS, { keyPath: "id" });
-        componentStore.createIndex("code", "code", { unique: false });
-        componentStore.createIndex("level", "level", { unique: false });
-      }
+      upgradeOfflineDB(request.result, request.transaction!, event.oldVersion, event.newVersion || DB_VERSION);
     };
   });
 }
@@ -366,6 +406,13 @@ export async function getPendingAssessments(): Promise<OfflineAssessment[]> {
   return getItemsByIndex<OfflineAssessment>(STORES.ASSESSMENTS, "syncStatus", "pending");
 }
 
+/**
+ * Get assessments waiting for the user to resolve sync conflicts
+ */
+export async function getConflictedAssessments(): Promise<OfflineAssessment[]> {
+  return getItemsByIndex<OfflineAssessment>(STORES.ASSESSMENTS, "syncStatus", "conflict");
+}
+
 /**
  * Get assessments by project
  */
@@ -463,6 +510,113 @@ export async function updatePhotoSyncStatus(
   await updateItem(STORES.PHOTOS, photo);
 }
 
+// ============================================================================
+// Asset, Building Section & Maintenance Entry Operations
+// ============================================================================
+
+export type OfflineRecord = OfflineAsset | OfflineBuildingSection | OfflineMaintenanceEntry;
+type NewOfflineRecord<T extends OfflineRecord> = Omit<T, "id" | "createdAt" | "updatedAt" | "syncStatus" | "retryCount">;
+
+/**
+ * Store an offline record and queue it for sync
+ */
+async function saveOfflineRecord<T extends OfflineRecord>(
+  storeName: string,
+  type: SyncQueueItem["type"],
+  prefix: string,
+  priority: number,
+  record: NewOfflineRecord<T>
+): Promise<string> {
+  const id = `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const now = Date.now();
+
+  await addItem(storeName, {
+    ...record,
+    id,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: "pending",
+    retryCount: 0,
+  });
+
+  await addToSyncQueue({
+    id: `sync_${id}`,
+    type,
+    itemId: id,
+    priority,
+    createdAt: now,
+    attempts: 0,
+    lastAttemptAt: null,
+    nextRetryAt: now,
+    status: "pending",
+  });
+
+  return id;
+}
+
+/**
+ * Save asset offline
+ */
+export async function saveOfflineAsset(asset: NewOfflineRecord<OfflineAsset>): Promise<string> {
+  // Same priority as assessments; queue order (createdAt) puts the asset before anything created under it
+  return saveOfflineRecord<OfflineAsset>(STORES.ASSETS, "asset", "offline_asset", 1, asset);
+}
+
+/**
+ * Save building section offline
+ */
+export async function saveOfflineBuildingSection(section: NewOfflineRecord<OfflineBuildingSection>): Promise<string> {
+  return saveOfflineRecord<OfflineBuildingSection>(STORES.BUILDING_SECTIONS, "building_section", "offline_section", 1, section);
+}
+
+/**
+ * Save maintenance entry offline
+ */
+export async function saveOfflineMaintenanceEntry(entry: NewOfflineRecord<OfflineMaintenanceEntry>): Promise<string> {
+  return saveOfflineRecord<OfflineMaintenanceEntry>(STORES.MAINTENANCE_ENTRIES, "maintenance_entry", "offline_maintenance", 2, entry);
+}
+
+/**
+ * Get offline assets for a project
+ */
+export async function getOfflineAssetsByProject(projectId: number): Promise<OfflineAsset[]> {
+  return getItemsByIndex<OfflineAsset>(STORES.ASSETS, "projectId", projectId);
+}
+
+/**
+ * Get offline building sections for a project
+ */
+export async function getOfflineBuildingSectionsByProject(projectId: number): Promise<OfflineBuildingSection[]> {
+  return getItemsByIndex<OfflineBuildingSection>(STORES.BUILDING_SECTIONS, "projectId", projectId);
+}
+
+/**
+ * Get offline maintenance entries for a project
+ */
+export async function getOfflineMaintenanceEntriesByProject(projectId: number): Promise<OfflineMaintenanceEntry[]> {
+  return getItemsByIndex<OfflineMaintenanceEntry>(STORES.MAINTENANCE_ENTRIES, "projectId", projectId);
+}
+
+/**
+ * Update sync status of an offline asset, building section or maintenance entry
+ */
+export async function updateRecordSyncStatus(
+  storeName: string,
+  id: string,
+  status: OfflineRecord["syncStatus"],
+  error?: string
+): Promise<void> {
+  const record = await getItem<OfflineRecord>(storeName, id);
+  if (!record) throw new Error("Offline record not found");
+
+  record.syncStatus = status;
+  record.updatedAt = Date.now();
+  if (error) record.syncError = error;
+  if (status === "failed") record.retryCount++;
+
+  await updateItem(storeName, record);
+}
+
 // ============================================================================
 // Sync Queue Operations
 // ============================================================================
@@ -528,6 +682,7 @@ export interface StorageStats {
     pending: number;
     synced: number;
     failed: number;
+    conflicts: number;
   };
   photos: {
     total: number;
@@ -542,6 +697,21 @@ export interface StorageStats {
     synced: number;
     failed: number;
   };
+  assets: {
+    total: number;
+    pending: number;
+    failed: number;
+  };
+  buildingSections: {
+    total: number;
+    pending: number;
+    failed: number;
+  };
+  maintenanceEntries: {
+    total: number;
+    pending: number;
+    failed: number;
+  };
   syncQueue: {
     total: number;
     pending: number;
@@ -558,6 +728,9 @@ export async function getStorageStats(): Promise<StorageStats> {
   const photos = await getAllItems<OfflinePhoto>(STORES.PHOTOS);
   const deficiencies = await getAllItems<OfflineDeficiency>(STORES.DEFICIENCIES);
   const syncQueue = await getAllItems<SyncQueueItem>(STORES.SYNC_QUEUE);
+  const assets = await getAllItems<OfflineAsset>(STORES.ASSETS);
+  const buildingSections = await getAllItems<OfflineBuildingSection>(STORES.BUILDING_SECTIONS);
+  const maintenanceEntries = await getAllItems<OfflineMaintenanceEntry>(STORES.MAINTENANCE_ENTRIES);
 
   return {
     assessments: {
@@ -565,6 +738,7 @@ export async function getStorageStats(): Promise<StorageStats> {
       pending: assessments.filter(a => a.syncStatus === "pending").length,
       synced: assessments.filter(a => a.syncStatus === "synced").length,
       failed: assessments.filter(a => a.syncStatus === "failed").length,
+      conflicts: assessments.filter(a => a.syncStatus === "conflict").length,
     },
     photos: {
       total: photos.length,
@@ -579,6 +753,21 @@ export async function getStorageStats(): Promise<StorageStats> {
       synced: deficiencies.filter(d => d.syncStatus === "synced").length,
       failed: deficiencies.filter(d => d.syncStatus === "failed").length,
     },
+    assets: {
+      total: assets.length,
+      pending: assets.filter(a => a.syncStatus === "pending").length,
+      failed: assets.filter(a => a.syncStatus === "failed").length,
+    },
+    buildingSections: {
+      total: buildingSections.length,
+      pending: buildingSections.filter(b => b.syncStatus === "pending").length,
+      failed: buildingSections.filter(b => b.syncStatus === "failed").length,
+    },
+    maintenanceEntries: {
+      total: maintenanceEntries.length,
+      pending: maintenanceEntries.filter(m => m.syncStatus === "pending").length,
+      failed: maintenanceEntries.filter(m => m.syncStatus === "failed").length,
+    },
     syncQueue: {
       total: syncQueue.length,
       pending: syncQueue.filter(s => s.status === "pending").length,
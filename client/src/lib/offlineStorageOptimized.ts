@@ -17,6 +17,7 @@ import type {
   SyncQueueItem,
   CachedProject,
   CachedBuildingComponent,
+  OfflineRecord,
   StorageStats,
 } from "./offlineStorage";
 
@@ -25,7 +26,8 @@ import type {
 // ============================================================================
 
 const DB_NAME = "bca_offline_storage";
-const DB_VERSION = 2; // Bumped for new indexes and stores
+// Shared with offlineStorage.ts, which opens the same database through upgradeOfflineDB
+export const DB_VERSION = 3; // v3: offline assets, maintenance entries and building sections
 
 // Storage limits
 export const STORAGE_LIMITS = {
@@ -47,6 +49,9 @@ export const STORES = {
   CACHED_COMPONENTS: "cached_components",
   CACHED_ASSETS: "cached_assets",
   METADATA: "storage_metadata",
+  ASSETS: "offline_assets",
+  MAINTENANCE_ENTRIES: "offline_maintenance_entries",
+  BUILDING_SECTIONS: "offline_building_sections",
 } as const;
 
 // ============================================================================
@@ -152,8 +157,48 @@ const migrations: Record<number, (db: IDBDatabase, transaction: IDBTransaction)
       database.createObjectStore(STORES.METADATA, { keyPath: "key" });
     }
   },
+  3: (database) => {
+    // Version 3: Entities that can be created offline and referenced by assessments
+    if (!database.objectStoreNames.contains(STORES.ASSETS)) {
+      const assetStore = database.createObjectStore(STORES.ASSETS, { keyPath: "id" });
+      assetStore.createIndex("projectId", "projectId", { unique: false });
+      assetStore.createIndex("syncStatus", "syncStatus", { unique: false });
+    }
+
+    if (!database.objectStoreNames.contains(STORES.MAINTENANCE_ENTRIES)) {
+      const entryStore = database.createObjectStore(STORES.MAINTENANCE_ENTRIES, { keyPath: "id" });
+      entryStore.createIndex("projectId", "projectId", { unique: false });
+      entryStore.createIndex("assessmentId", "assessmentId", { unique: false });
+      entryStore.createIndex("syncStatus", "syncStatus", { unique: false });
+    }
+
+    if (!database.objectStoreNames.contains(STORES.BUILDING_SECTIONS)) {
+      const sectionStore = database.createObjectStore(STORES.BUILDING_SECTIONS, { keyPath: "id" });
+      sectionStore.createIndex("projectId", "projectId", { unique: false });
+      sectionStore.createIndex("syncStatus", "syncStatus", { unique: false });
+    }
+  },
 };
 
+/**
+ * Run the migrations between two database versions inside an upgrade transaction
+ */
+export function upgradeOfflineDB(
+  database: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number
+): void {
+  console.log(`[OfflineStorage] Upgrading database from v${oldVersion} to v${newVersion}`);
+
+  for (let version = oldVersion + 1; version <= newVersion; version++) {
+    if (migrations[version]) {
+      console.log(`[OfflineStorage] Running migration for v${version}`);
+      migrations[version](database, transaction);
+    }
+  }
+}
+
 /**
  * Initialize IndexedDB with migration support
  */
@@ -191,18 +236,7 @@ export async function initOfflineDB(): Promise<IDBDatabase> {
     request.onupgradeneeded = (event) => {
       const database = (event.target as IDBOpenDBRequest).result;
       const transaction = (event.target as IDBOpenDBRequest).transaction!;
-      const oldVersion = event.oldVersion;
-      const newVersion = event.newVersion || DB_VERSION;
-
-      console.log(`[OfflineStorage] Upgrading database from v${oldVersion} to v${newVersion}`);
-
-      // Run migrations for each version
-      for (let version = oldVersion + 1; version <= newVersion; version++) {
-        if (migrations[version]) {
-          console.log(`[OfflineStorage] Running migration for v${version}`);
-          migrations[version](database, transaction);
-        }
-      }
+      upgradeOfflineDB(database, transaction, event.oldVersion, event.newVersion || DB_VERSION);
     };
 
     request.onblocked = () => {
@@ -809,6 +843,23 @@ export async function getEnhancedStorageStats(): Promise<EnhancedStorageStats> {
     }),
   ]);
 
+  // Offline-created assets, sections and maintenance entries
+  const [assets, buildingSections, maintenanceEntries] = await Promise.all(
+    [STORES.ASSETS, STORES.BUILDING_SECTIONS, STORES.MAINTENANCE_ENTRIES].map(storeName =>
+      new Promise<OfflineRecord[]>((resolve, reject) => {
+        const tx = database.transaction([storeName], "readonly");
+        const request = tx.objectStore(storeName).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      })
+    )
+  );
+  const countRecords = (records: OfflineRecord[]) => ({
+    total: records.length,
+    pending: records.filter(r => r.syncStatus === "pending").length,
+    failed: records.filter(r => r.syncStatus === "failed").length,
+  });
+
   const usage = await getStorageUsage();
 
   // Calculate pending item timestamps
@@ -830,6 +881,7 @@ export async function getEnhancedStorageStats(): Promise<EnhancedStorageStats> {
       pending: assessments.filter(a => a.syncStatus === "pending").length,
       synced: assessments.filter(a => a.syncStatus === "synced").length,
       failed: assessments.filter(a => a.syncStatus === "failed").length,
+      conflicts: assessments.filter(a => a.syncStatus === "conflict").length,
     },
     photos: {
       total: photos.length,
@@ -844,6 +896,9 @@ export async function getEnhancedStorageStats(): Promise<EnhancedStorageStats> {
       synced: deficiencies.filter(d => d.syncStatus === "synced").length,
       failed: deficiencies.filter(d => d.syncStatus === "failed").length,
     },
+    assets: countRecords(assets),
+    buildingSections: countRecords(buildingSections),
+    maintenanceEntries: countRecords(maintenanceEntries),
     syncQueue: {
       total: syncQueue.length,
       pending: syncQueue.filter(s => s.status === "pending").length,
@@ -21,6 +21,7 @@ const trpcClient = createTRPCProxyClient<AppRouter>({
   ],
 });
 import {
+  getConflictedAssessments,
   getPendingSyncItems,
   getItemsReadyForRetry,
   updateSyncQueueItem,
@@ -28,13 +29,26 @@ import {
   updateAssessmentSyncStatus,
   updatePhotoSyncStatus,
   deleteItem,
+  updateItem,
+  getAllItems,
+  updateRecordSyncStatus,
   initOfflineDB,
   STORES,
   type SyncQueueItem,
   type OfflineAssessment,
   type OfflinePhoto,
   type OfflineDeficiency,
+  type OfflineAsset,
+  type OfflineBuildingSection,
+  type OfflineMaintenanceEntry,
 } from "./offlineStorage";
+import {
+  MERGEABLE_ASSESSMENT_FIELDS,
+  type AssessmentFieldValues,
+  type MergeableAssessmentField,
+  type SyncConflict,
+} from "@shared/assessmentMerge";
+import type { ConflictResolution } from "@/components/ConflictResolutionDialog";
 // Storage import will be added when implementing photo sync
 // import { storagePut } from "@/lib/storage";
 
@@ -57,7 +71,7 @@ export interface SyncResult {
   errors: Array<{ itemId: string; error: string }>;
 }
 
-export type SyncEventType = "start" | "progress" | "complete" | "error" | "item_synced" | "item_failed";
+export type SyncEventType = "start" | "progress" | "complete" | "error" | "item_synced" | "item_failed" | "conflict";
 
 export interface SyncEvent {
   type: SyncEventType;
@@ -65,6 +79,39 @@ export interface SyncEvent {
   result?: SyncResult;
   error?: string;
   itemId?: string;
+  conflicts?: SyncConflict[];
+}
+
+/**
+ * Where each mergeable assessment field lives on the offline record
+ */
+const OFFLINE_ASSESSMENT_FIELDS: Partial<Record<MergeableAssessmentField, keyof OfflineAssessment>> = {
+  componentName: "componentName",
+  componentLocation: "componentLocation",
+  condition: "condition",
+  status: "status",
+  observations: "observations",
+  recommendations: "recommendations",
+  remainingUsefulLife: "estimatedServiceLife",
+  expectedUsefulLife: "expectedUsefulLife",
+  reviewYear: "reviewYear",
+  lastTimeAction: "lastTimeAction",
+  estimatedRepairCost: "estimatedRepairCost",
+  replacementValue: "replacementValue",
+  actionYear: "actionYear",
+};
+
+/**
+ * Only send base values for fields the offline record carries, so fields the
+ * form never loaded are not mistaken for values cleared offline
+ */
+function pickSyncedFields(base: AssessmentFieldValues, assessment: OfflineAssessment): AssessmentFieldValues {
+  const values: AssessmentFieldValues = {};
+  for (const field of MERGEABLE_ASSESSMENT_FIELDS) {
+    const source = OFFLINE_ASSESSMENT_FIELDS[field];
+    if (source && source in assessment && field in base) values[field] = base[field];
+  }
+  return values;
 }
 
 // ============================================================================
@@ -78,6 +125,8 @@ export class SyncEngine {
   
   // Map offline IDs to real database IDs after syncing
   private assessmentIdMap: Map<string, number> = new Map();
+  private assetIdMap: Map<string, number> = new Map();
+  private sectionIdMap: Map<string, number> = new Map();
 
   // Exponential backoff configuration
   private readonly INITIAL_RETRY_DELAY = 1000; // 1 second
@@ -219,6 +268,15 @@ export class SyncEngine {
         case "deficiency":
           await this.syncDeficiency(queueItem.itemId);
           break;
+        case "asset":
+          await this.syncAsset(queueItem.itemId);
+          break;
+        case "building_section":
+          await this.syncBuildingSection(queueItem.itemId);
+          break;
+        case "maintenance_entry":
+          await this.syncMaintenanceEntry(queueItem.itemId);
+          break;
       }
 
       // Mark as completed
@@ -244,13 +302,7 @@ export class SyncEngine {
     await updateAssessmentSyncStatus(assessmentId, "syncing");
 
     try {
-      // Sync assessment via tRPC
-      const result = await trpcClient.offlineSync.syncAssessment.mutate({
-        offlineId: assessmentId,
-        createdAt: new Date(assessment.createdAt).toISOString(),
-        projectId: assessment.projectId,
-        assetId: assessment.assetId || undefined,
-        componentCode: assessment.componentCode || undefined,
+      const local = {
         componentName: assessment.componentName || undefined,
         componentLocation: assessment.componentLocation || undefined,
         condition: assessment.condition as any,
@@ -258,11 +310,29 @@ export class SyncEngine {
         observations: assessment.observations || undefined,
         recommendations: assessment.recommendations || undefined,
         remainingUsefulLife: assessment.estimatedServiceLife || undefined,
+        expectedUsefulLife: assessment.expectedUsefulLife || undefined,
         reviewYear: assessment.reviewYear || undefined,
         lastTimeAction: assessment.lastTimeAction || undefined,
         estimatedRepairCost: assessment.estimatedRepairCost || undefined,
         replacementValue: assessment.replacementValue || undefined,
         actionYear: assessment.actionYear || undefined,
+      };
+
+      // Sync assessment via tRPC
+      const result = await trpcClient.offlineSync.syncAssessment.mutate({
+        offlineId: assessmentId,
+        createdAt: new Date(assessment.createdAt).toISOString(),
+        projectId: assessment.projectId,
+        assetId: this.resolveId(assessment.assetId, this.assetIdMap, "asset"),
+        sectionId: this.resolveId(assessment.sectionId, this.sectionIdMap, "building section"),
+        componentCode: assessment.componentCode || undefined,
+        ...local,
+        // Base snapshot for the server-side three-way merge
+        ...(assessment.serverId ? { assessmentId: assessment.serverId } : {}),
+        ...(assessment.base ? {
+          baseVersion: assessment.base.version ?? undefined,
+          base: pickSyncedFields(assessment.base.values, assessment),
+        } : {}),
       });
 
       console.log("[SyncEngine] Assessment synced:", result);
@@ -272,10 +342,15 @@ export class SyncEngine {
       
       // Update all photos that reference this offline assessment ID
       await this.updatePhotosWithRealAssessmentId(assessmentId, result.assessmentId);
+      await this.remapOfflineReferences(STORES.MAINTENANCE_ENTRIES, "assessmentId", assessmentId, result.assessmentId);
       
-      // If there was a conflict, log it
-      if (result.conflict) {
-        console.warn("[SyncEngine] Conflict detected:", result.resolution);
+      // Non-conflicting fields are already merged on the server; keep the rest for the user
+      const conflicts = (result.conflicts ?? []) as SyncConflict[];
+      if (conflicts.length > 0) {
+        console.warn("[SyncEngine] Conflict detected:", result.resolution, conflicts);
+        await this.saveConflict(assessment, conflicts[0], result.version ?? null);
+        this.emit({ type: "conflict", itemId: assessmentId, conflicts });
+        return;
       }
 
       // Mark as synced
@@ -293,6 +368,70 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Keep an assessment offline until the user resolves its conflicting fields
+   */
+  private async saveConflict(assessment: OfflineAssessment, conflict: SyncConflict, serverVersion: number | null): Promise<void> {
+    assessment.syncStatus = "conflict";
+    assessment.conflict = conflict;
+    assessment.serverId = Number(conflict.entityId);
+    // What the user sees as "server" becomes the base for applying their choice
+    assessment.base = {
+      version: serverVersion,
+      values: Object.fromEntries(conflict.fields.map(f => [f.field, f.serverValue])) as AssessmentFieldValues,
+    };
+    assessment.updatedAt = Date.now();
+    await updateItem(STORES.ASSESSMENTS, assessment);
+  }
+
+  /**
+   * Get conflicts waiting for the user
+   */
+  async getConflicts(): Promise<SyncConflict[]> {
+    const assessments = await getConflictedAssessments();
+    return assessments
+      .map(a => a.conflict)
+      .filter((conflict): conflict is SyncConflict => !!conflict);
+  }
+
+  /**
+   * Apply the user's choices from the conflict dialog
+   */
+  async resolveConflicts(resolutions: ConflictResolution[]): Promise<void> {
+    for (const resolution of resolutions) {
+      const assessment = await getItem<OfflineAssessment>(STORES.ASSESSMENTS, resolution.conflictId);
+      if (!assessment?.conflict || !assessment.serverId) continue;
+
+      const values: AssessmentFieldValues = {};
+      for (const field of assessment.conflict.fields) {
+        if (resolution.strategy === "keep_server") continue;
+        values[field.field] = resolution.strategy === "keep_local"
+          ? field.localValue
+          : (resolution.resolvedData?.[field.field] as AssessmentFieldValues[typeof field.field]) ?? null;
+      }
+
+      if (Object.keys(values).length > 0) {
+        const result = await trpcClient.offlineSync.resolveAssessmentConflict.mutate({
+          offlineId: assessment.id,
+          assessmentId: assessment.serverId,
+          version: assessment.base?.version ?? 0,
+          base: assessment.base?.values ?? {},
+          values,
+        });
+
+        // Saved again on the server while the dialog was open
+        if (!result.resolved) {
+          const conflicts = (result.conflicts ?? []) as SyncConflict[];
+          await this.saveConflict(assessment, conflicts[0], result.version ?? null);
+          this.emit({ type: "conflict", itemId: assessment.id, conflicts });
+          continue;
+        }
+      }
+
+      await deleteItem(STORES.ASSESSMENTS, assessment.id);
+    }
+  }
+
   /**
    * Update photos that reference an offline assessment ID with the real database ID
    */
@@ -371,7 +510,7 @@ export class SyncEngine {
         offlineId: photoId,
         createdAt: new Date(photo.createdAt).toISOString(),
         assessmentId,
-        assetId: photo.assetId || undefined,
+        assetId: this.resolveId(photo.assetId, this.assetIdMap, "asset"),
         projectId: photo.projectId,
         fileName: photo.fileName,
         caption: photo.caption || undefined,
@@ -401,6 +540,191 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Sync an asset created offline, then point its assessments and photos at the real ID
+   */
+  private async syncAsset(offlineAssetId: string): Promise<void> {
+    const asset = await getItem<OfflineAsset>(STORES.ASSETS, offlineAssetId);
+    if (!asset) throw new Error("Asset not found");
+
+    await updateRecordSyncStatus(STORES.ASSETS, offlineAssetId, "syncing");
+
+    try {
+      const result = await trpcClient.offlineSync.syncAsset.mutate({
+        offlineId: offlineAssetId,
+        createdAt: new Date(asset.createdAt).toISOString(),
+        projectId: asset.projectId,
+        name: asset.name,
+        assetType: asset.assetType || undefined,
+        description: asset.description || undefined,
+        address: asset.address || undefined,
+        city: asset.city || undefined,
+        province: asset.province || undefined,
+        postalCode: asset.postalCode || undefined,
+        latitude: asset.latitude ?? undefined,
+        longitude: asset.longitude ?? undefined,
+        yearBuilt: asset.yearBuilt || undefined,
+        grossFloorArea: asset.grossFloorArea || undefined,
+        numberOfStories: asset.numberOfStories || undefined,
+        constructionType: asset.constructionType || undefined,
+        replacementValue: asset.replacementValue || undefined,
+      });
+
+      console.log("[SyncEngine] Asset synced:", result);
+
+      this.assetIdMap.set(offlineAssetId, result.assetId);
+      await this.remapOfflineReferences(STORES.ASSESSMENTS, "assetId", offlineAssetId, result.assetId);
+      await this.remapOfflineReferences(STORES.PHOTOS, "assetId", offlineAssetId, result.assetId);
+
+      await deleteItem(STORES.ASSETS, offlineAssetId);
+    } catch (error) {
+      await updateRecordSyncStatus(
+        STORES.ASSETS,
+        offlineAssetId,
+        "failed",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Sync a building section created offline, then point its assessments at the real ID
+   */
+  private async syncBuildingSection(offlineSectionId: string): Promise<void> {
+    const section = await getItem<OfflineBuildingSection>(STORES.BUILDING_SECTIONS, offlineSectionId);
+    if (!section) throw new Error("Building section not found");
+
+    await updateRecordSyncStatus(STORES.BUILDING_SECTIONS, offlineSectionId, "syncing");
+
+    try {
+      const result = await trpcClient.offlineSync.syncBuildingSection.mutate({
+        offlineId: offlineSectionId,
+        createdAt: new Date(section.createdAt).toISOString(),
+        projectId: section.projectId,
+        name: section.name,
+        description: section.description || undefined,
+        sectionType: section.sectionType,
+        installDate: section.installDate || undefined,
+        expectedLifespan: section.expectedLifespan || undefined,
+        grossFloorArea: section.grossFloorArea || undefined,
+        numberOfStories: section.numberOfStories || undefined,
+        constructionType: section.constructionType || undefined,
+        notes: section.notes || undefined,
+      });
+
+      console.log("[SyncEngine] Building section synced:", result);
+
+      this.sectionIdMap.set(offlineSectionId, result.sectionId);
+      await this.remapOfflineReferences(STORES.ASSESSMENTS, "sectionId", offlineSectionId, result.sectionId);
+
+      await deleteItem(STORES.BUILDING_SECTIONS, offlineSectionId);
+    } catch (error) {
+      await updateRecordSyncStatus(
+        STORES.BUILDING_SECTIONS,
+        offlineSectionId,
+        "failed",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Sync a maintenance entry created offline
+   */
+  private async syncMaintenanceEntry(offlineEntryId: string): Promise<void> {
+    const entry = await getItem<OfflineMaintenanceEntry>(STORES.MAINTENANCE_ENTRIES, offlineEntryId);
+    if (!entry) throw new Error("Maintenance entry not found");
+
+    await updateRecordSyncStatus(STORES.MAINTENANCE_ENTRIES, offlineEntryId, "syncing");
+
+    try {
+      const toIso = (timestamp: number | null) => (timestamp ? new Date(timestamp).toISOString() : undefined);
+
+      const result = await trpcClient.offlineSync.syncMaintenanceEntry.mutate({
+        offlineId: offlineEntryId,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        projectId: entry.projectId,
+        assessmentId: this.resolveId(entry.assessmentId, this.assessmentIdMap, "assessment"),
+        componentName: entry.componentName,
+        location: entry.location || undefined,
+        entryType: entry.entryType,
+        actionType: entry.actionType,
+        description: entry.description,
+        workPerformed: entry.workPerformed || undefined,
+        findings: entry.findings || undefined,
+        estimatedCost: entry.estimatedCost ?? undefined,
+        actualCost: entry.actualCost ?? undefined,
+        status: entry.status,
+        priority: entry.priority,
+        dateIdentified: toIso(entry.dateIdentified),
+        dateScheduled: toIso(entry.dateScheduled),
+        dateCompleted: toIso(entry.dateCompleted),
+        contractor: entry.contractor || undefined,
+        notes: entry.notes || undefined,
+      });
+
+      console.log("[SyncEngine] Maintenance entry synced:", result);
+
+      await deleteItem(STORES.MAINTENANCE_ENTRIES, offlineEntryId);
+    } catch (error) {
+      await updateRecordSyncStatus(
+        STORES.MAINTENANCE_ENTRIES,
+        offlineEntryId,
+        "failed",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a stored reference into a real database ID.
+   * Offline IDs are looked up in the map filled as parents sync; a parent that
+   * has not synced yet fails the child so it is retried after the parent.
+   */
+  private resolveId(
+    id: number | string | null | undefined,
+    idMap: Map<string, number>,
+    label: string
+  ): number | undefined {
+    if (id === null || id === undefined || id === "") return undefined;
+    if (typeof id === "number") return id;
+
+    const mapped = idMap.get(id);
+    if (mapped !== undefined) return mapped;
+
+    const parsed = Number(id);
+    if (!Number.isNaN(parsed)) return parsed;
+
+    throw new Error(`Waiting for offline ${label} ${id} to sync`);
+  }
+
+  /**
+   * Replace an offline parent ID with its real ID on stored child records,
+   * so the mapping survives a reload before the children sync
+   */
+  private async remapOfflineReferences(
+    storeName: string,
+    field: string,
+    offlineId: string,
+    realId: number
+  ): Promise<void> {
+    try {
+      const children = (await getAllItems<Record<string, unknown>>(storeName)).filter(item => item[field] === offlineId);
+      for (const child of children) {
+        await updateItem(storeName, { ...child, [field]: realId });
+      }
+      if (children.length > 0) {
+        console.log(`[SyncEngine] Remapped ${field} on ${children.length} ${storeName} records to ${realId}`);
+      }
+    } catch (error) {
+      console.error(`[SyncEngine] Failed to remap ${field} in ${storeName}:`, error);
+      // Don't throw - the in-memory map still resolves the ID this session
+    }
+  }
+
   /**
    * Sync a deficiency
    */
@@ -620,6 +620,11 @@ export class OptimizedSyncEngine {
     await updateItem(STORES.ASSESSMENTS, assessment);
 
     try {
+      // Assets created offline are synced (and remapped to a real ID) by SyncEngine first
+      if (typeof assessment.assetId === "string") {
+        throw new Error(`Waiting for offline asset ${assessment.assetId} to sync`);
+      }
+
       // Sync via tRPC
       const syncResult = await trpcClient.offlineSync.syncAssessment.mutate({
         offlineId: assessment.id,
@@ -31,6 +31,10 @@ import { MFAComplianceReport } from "@/components/MFAComplianceReport";
 import { AdminMFARecovery } from "@/components/AdminMFARecovery";
 import { CompanyManagement } from "@/components/CompanyManagement";
 import EmailDeliveryLogs from "@/components/EmailDeliveryLogs";
+import WebhookManagement from "@/components/WebhookManagement";
+import ApiKeyManagement from "@/components/ApiKeyManagement";
+import ScimProvisioning from "@/components/ScimProvisioning";
+import ValidationRulesManager from "@/components/ValidationRulesManager";
 import EconomicIndicators from "./EconomicIndicators";
 import PortfolioTargets from "./PortfolioTargets";
 import { BulkUserActions } from "@/components/BulkUserActions";
@@ -42,7 +46,7 @@ import { BackupManagement } from "@/components/BackupManagement";
 import { BackButton } from "@/components/BackButton";
 import { ProjectPermissionsManager } from "@/components/ProjectPermissionsManager";
 import { CompanyPageVisibilityManager } from "@/components/CompanyPageVisibilityManager";
-import { Eye } from "lucide-react";
+import { Eye, Webhook, KeyRound, UserCog, ListChecks } from "lucide-react";
 
 export default function Admin() {
   const { user, loading } = useAuth();
@@ -292,6 +296,22 @@ export default function Admin() {
             <Mail className="w-4 h-4" />
             Email Logs
           </TabsTrigger>
+          <TabsTrigger value="webhooks" className="gap-2">
+            <Webhook className="w-4 h-4" />
+            Webhooks
+          </TabsTrigger>
+          <TabsTrigger value="api-keys" className="gap-2">
+            <KeyRound className="w-4 h-4" />
+            API Keys
+          </TabsTrigger>
+          <TabsTrigger value="scim" className="gap-2">
+            <UserCog className="w-4 h-4" />
+            SCIM Provisioning
+          </TabsTrigger>
+          <TabsTrigger value="validation-rules" className="gap-2">
+            <ListChecks className="w-4 h-4" />
+            Validation Rules
+          </TabsTrigger>
           <TabsTrigger value="economic-indicators" className="gap-2">
             <TrendingUp className="w-4 h-4" />
             Economic Indicators
@@ -889,6 +909,26 @@ export default function Admin() {
           <EmailDeliveryLogs />
         </TabsContent>
 
+        {/* Webhooks Tab */}
+        <TabsContent value="webhooks" className="space-y-4">
+          <WebhookManagement />
+        </TabsContent>
+
+        {/* API Keys Tab */}
+        <TabsContent value="api-keys" className="space-y-4">
+          <ApiKeyManagement />
+        </TabsContent>
+
+        {/* SCIM Provisioning Tab */}
+        <TabsContent value="scim" className="space-y-4">
+          <ScimProvisioning />
+        </TabsContent>
+
+        {/* Validation Rules Tab */}
+        <TabsContent value="validation-rules" className="space-y-4">
+          <ValidationRulesManager />
+        </TabsContent>
+
         {/* Economic Indicators Tab */}
         <TabsContent value="economic-indicators" className="space-y-4">
           <EconomicIndicators />
@@ -5,10 +5,11 @@ import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BackButton } from "@/components/BackButton";
-import { Shield, FileText, Database, AlertTriangle, Play, Download } from "lucide-react";
+import { Shield, FileText, Database, AlertTriangle, Play, Download, Lock } from "lucide-react";
 import { AuditLogsTable } from "@/components/governance/AuditLogsTable";
 import { DataIntegrityDashboard } from "@/components/governance/DataIntegrityDashboard";
 import { CleanupReportsTable } from "@/components/governance/CleanupReportsTable";
+import { AccessPoliciesEditor } from "@/components/governance/AccessPoliciesEditor";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 
@@ -130,7 +131,7 @@ export default function AdminGovernance() {
 
         {/* Main Content Tabs */}
         <Tabs value={selectedTab} onValueChange={setSelectedTab}>
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="audit-logs">
               <FileText className="h-4 w-4 mr-2" />
               Audit Logs
@@ -147,6 +148,10 @@ export default function AdminGovernance() {
               <Play className="h-4 w-4 mr-2" />
               Jobs
             </TabsTrigger>
+            <TabsTrigger value="access-policies">
+              <Lock className="h-4 w-4 mr-2" />
+              Access Policies
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="audit-logs" className="space-y-4">
@@ -201,6 +206,10 @@ export default function AdminGovernance() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="access-policies" className="space-y-4">
+            <AccessPoliciesEditor />
+          </TabsContent>
+
           <TabsContent value="jobs" className="space-y-4">
             <Card>
               <CardHeader>
@@ -7,6 +7,7 @@ import { trpc } from "@/lib/trpc";
 import { Loader2, History, Shield, AlertCircle } from "lucide-react";
 import { format } from "date-fns";
 import { useState } from "react";
+import AuditChainIntegrity from "@/components/AuditChainIntegrity";
 
 export default function AuditTrailDashboard() {
   const { user, loading: authLoading } = useAuth();
@@ -111,6 +112,8 @@ export default function AuditTrailDashboard() {
           </div>
         </div>
 
+        <AuditChainIntegrity />
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -16,6 +16,7 @@ import { YearRangeSummary } from "@/components/YearRangeSummary";
 import { ProjectFilterBar, ProjectFilters } from "@/components/ProjectFilterBar";
 import { CycleManagement } from "@/components/CycleManagement";
 import { AssessmentAnalytics } from "@/components/AssessmentAnalytics";
+import { FundingRiskSimulation } from "@/components/FundingRiskSimulation";
 import { Loader2, Plus, Calendar, DollarSign, TrendingUp, FileText, ArrowLeft, Info, HelpCircle, Pencil, Trash2, Check, X } from "lucide-react";
 import {
   Tooltip,
@@ -581,6 +582,11 @@ export default function CapitalBudgetPlanner() {
                   {selectedCycleId && (
                     <AssessmentAnalytics cycleId={selectedCycleId} />
                   )}
+
+                  {/* Funding Risk Simulation */}
+                  {selectedCycleId && (
+                    <FundingRiskSimulation cycleId={selectedCycleId} />
+                  )}
                 </>
               ) : null}
             </div>
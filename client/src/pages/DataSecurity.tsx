@@ -28,16 +28,23 @@ import {
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import RetentionEnforcement from "@/components/RetentionEnforcement";
+import { RETENTION_DATA_TYPE_LABELS, type RetentionDataType } from "@shared/retention";
 
 export default function DataSecurity() {
   const [disposalDialogOpen, setDisposalDialogOpen] = useState(false);
   const [disposalType, setDisposalType] = useState<string>("project");
   const [disposalReason, setDisposalReason] = useState("");
+  const [certificateRequestId, setCertificateRequestId] = useState<number | null>(null);
 
   const { data: summary } = trpc.dataSecurity.getSecuritySummary.useQuery();
   const { data: retentionPolicies } = trpc.dataSecurity.getRetentionPolicies.useQuery();
   const { data: encryptionKeys } = trpc.dataSecurity.getEncryptionKeys.useQuery();
   const { data: disposalRequests } = trpc.dataSecurity.getDisposalRequests.useQuery();
+  const { data: certificate } = trpc.dataSecurity.getDisposalCertificate.useQuery(
+    { requestId: certificateRequestId! },
+    { enabled: certificateRequestId !== null }
+  );
 
   const requestDisposal = trpc.dataSecurity.requestDataDisposal.useMutation({
     onSuccess: () => {
@@ -241,11 +248,19 @@ export default function DataSecurity() {
                           <div className="flex items-center gap-4 text-sm">
                             <div>
                               <span className="text-muted-foreground">Data Type:</span>{" "}
-                              <span className="font-medium capitalize">{policy.dataType}</span>
+                              <span className="font-medium capitalize">
+                                {RETENTION_DATA_TYPE_LABELS[policy.dataType as RetentionDataType] ?? policy.dataType}
+                              </span>
                             </div>
                             <div>
                               <span className="text-muted-foreground">Retention:</span>{" "}
-                              <span className="font-medium">{policy.retentionPeriodYears} years</span>
+                              <span className="font-medium">
+                                {policy.retentionPeriodDays ? `${policy.retentionPeriodDays} days` : `${policy.retentionPeriodYears} years`}
+                              </span>
+                            </div>
+                            <div>
+                              <span className="text-muted-foreground">Applies to:</span>{" "}
+                              <span className="font-medium">{policy.companyId ? `Company #${policy.companyId}` : "All companies"}</span>
                             </div>
                           </div>
                         </div>
@@ -267,6 +282,8 @@ export default function DataSecurity() {
                 </div>
               </CardContent>
             </Card>
+
+            <RetentionEnforcement />
           </TabsContent>
 
           {/* Disposal Tab */}
@@ -314,6 +331,12 @@ export default function DataSecurity() {
                             </div>
                             <p className="text-sm text-muted-foreground">{request.reason}</p>
                           </div>
+                          {request.requestType === "retention_policy" && request.status === "completed" && (
+                            <Button variant="outline" size="sm" onClick={() => setCertificateRequestId(request.id)}>
+                              <FileText className="h-4 w-4 mr-2" />
+                              Certificate
+                            </Button>
+                          )}
                         </div>
                         <div className="grid grid-cols-2 gap-4 text-sm mt-3">
                           <div>
@@ -347,6 +370,80 @@ export default function DataSecurity() {
         </Tabs>
       </div>
 
+      {/* Certificate of Disposal Dialog */}
+      <Dialog open={certificateRequestId !== null} onOpenChange={(open) => !open && setCertificateRequestId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Certificate of Disposal</DialogTitle>
+            <DialogDescription>
+              Records removed under a retention policy. The verification hash is the SHA-256 of this certificate.
+            </DialogDescription>
+          </DialogHeader>
+          {certificate && (
+            <div className="space-y-3 text-sm">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <span className="text-muted-foreground">Company:</span> {certificate.certificate.companyName}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Data:</span>{" "}
+                  {RETENTION_DATA_TYPE_LABELS[certificate.certificate.dataType]}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Policy:</span> {certificate.certificate.policy.name} (
+                  {certificate.certificate.policy.retentionDays} days)
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Records:</span> {certificate.certificate.recordCount}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Cutoff:</span>{" "}
+                  {new Date(certificate.certificate.cutoff).toLocaleString()}
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Disposed:</span>{" "}
+                  {new Date(certificate.certificate.disposedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {certificate.verified ? (
+                  <Badge className="bg-green-500 gap-1">
+                    <CheckCircle className="h-3 w-3" />
+                    Hash verified
+                  </Badge>
+                ) : (
+                  <Badge variant="destructive" className="gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    Hash mismatch
+                  </Badge>
+                )}
+                <code className="text-xs break-all">{certificate.verificationHash}</code>
+              </div>
+              {certificate.certificate.storageKeysPendingPurge.length > 0 && (
+                <p className="text-muted-foreground">
+                  {certificate.certificate.storageKeysPendingPurge.length} stored files are listed for purge from file storage.
+                </p>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const blob = new Blob([JSON.stringify(certificate, null, 2)], { type: "application/json" });
+                  const url = URL.createObjectURL(blob);
+                  const link = document.createElement("a");
+                  link.href = url;
+                  link.download = `disposal_certificate_${certificate.requestId}.json`;
+                  link.click();
+                  URL.revokeObjectURL(url);
+                }}
+              >
+                Download
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Disposal Request Dialog */}
       <Dialog open={disposalDialogOpen} onOpenChange={setDisposalDialogOpen}>
         <DialogContent>
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { AlertCircle, RotateCcw, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { BackButton } from "@/components/BackButton";
+import { useTranslation } from "@/contexts/LanguageContext";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,16 +20,17 @@ import {
 } from "@/components/ui/alert-dialog";
 
 export default function DeletedProjects() {
+  const { t, projectStatusLabel, formatDate } = useTranslation();
   const utils = trpc.useUtils();
   const { data: deletedProjects, isLoading } = trpc.projects.listDeleted.useQuery();
   const restoreMutation = trpc.projects.restore.useMutation({
     onSuccess: () => {
-      toast.success("Project restored successfully");
+      toast.success(t('deletedProjects.toast.restored'));
       utils.projects.listDeleted.invalidate();
       utils.projects.list.invalidate();
     },
     onError: (error) => {
-      toast.error(`Failed to restore project: ${error.message}`);
+      toast.error(t('deletedProjects.toast.restoreFailed', { message: error.message }));
     },
   });
 
@@ -40,6 +42,8 @@ export default function DeletedProjects() {
     setRestoreDialogOpen(true);
   };
 
+  const formatDays = (days: number) => (days === 1 ? t('common.day') : t('common.days', { count: days }));
+
   const confirmRestore = () => {
     if (selectedProject) {
       restoreMutation.mutate({ id: selectedProject });
@@ -61,7 +65,7 @@ export default function DeletedProjects() {
     return (
       <DashboardLayout>
         <div className="flex items-center justify-center h-64">
-          <div className="text-muted-foreground">Loading deleted projects...</div>
+          <div className="text-muted-foreground">{t('deletedProjects.loading')}</div>
         </div>
       </DashboardLayout>
     );
@@ -72,9 +76,9 @@ export default function DeletedProjects() {
       <div className="space-y-6">
       <BackButton to="dashboard" />
       <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Deleted Projects</h1>
+        <h1 className="text-3xl font-bold mb-2">{t('nav.deletedProjects')}</h1>
         <p className="text-muted-foreground">
-          Projects deleted within the last 90 days can be restored. After 90 days, they will be permanently deleted.
+          {t('deletedProjects.subtitle')}
         </p>
       </div>
 
@@ -82,9 +86,9 @@ export default function DeletedProjects() {
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <Trash2 className="h-12 w-12 text-muted-foreground mb-4" />
-            <p className="text-lg font-medium mb-1">No deleted projects</p>
+            <p className="text-lg font-medium mb-1">{t('deletedProjects.emptyTitle')}</p>
             <p className="text-sm text-muted-foreground">
-              Projects you delete will appear here for 90 days before being permanently removed.
+              {t('deletedProjects.emptyDescription')}
             </p>
           </CardContent>
         </Card>
@@ -101,17 +105,17 @@ export default function DeletedProjects() {
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <CardTitle className="text-xl">{project.name}</CardTitle>
-                        <Badge variant="destructive">Deleted</Badge>
+                        <Badge variant="destructive">{projectStatusLabel('deleted')}</Badge>
                         {isExpiringSoon && (
                           <Badge variant="outline" className="text-orange-600 border-orange-600">
                             <AlertCircle className="h-3 w-3 mr-1" />
-                            Expiring Soon
+                            {t('deletedProjects.expiringSoon')}
                           </Badge>
                         )}
                       </div>
                       <CardDescription>
                         {project.address && <span className="block">{project.address}</span>}
-                        {project.clientName && <span className="block">Client: {project.clientName}</span>}
+                        {project.clientName && <span className="block">{t('projects.client', { name: project.clientName })}</span>}
                       </CardDescription>
                     </div>
                     <Button
@@ -121,20 +125,20 @@ export default function DeletedProjects() {
                       disabled={restoreMutation.isPending}
                     >
                       <RotateCcw className="h-4 w-4 mr-2" />
-                      Restore
+                      {t('common.restore')}
                     </Button>
                   </div>
                 </CardHeader>
                 <CardContent>
                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
                     <div>
-                      <span className="font-medium">Deleted:</span>{" "}
-                      {project.deletedAt ? new Date(project.deletedAt).toLocaleDateString() : "Unknown"}
+                      <span className="font-medium">{t('deletedProjects.deletedOn')}</span>{" "}
+                      {project.deletedAt ? formatDate(project.deletedAt) : t('common.unknown')}
                     </div>
                     <div>
-                      <span className="font-medium">Days remaining:</span>{" "}
+                      <span className="font-medium">{t('deletedProjects.daysRemaining')}</span>{" "}
                       <span className={isExpiringSoon ? "text-orange-600 font-semibold" : ""}>
-                        {daysRemaining} {daysRemaining === 1 ? "day" : "days"}
+                        {formatDays(daysRemaining)}
                       </span>
                     </div>
                   </div>
@@ -142,8 +146,7 @@ export default function DeletedProjects() {
                     <div className="mt-3 p-3 bg-orange-50 dark:bg-orange-950/20 border border-orange-200 dark:border-orange-900 rounded-md">
                       <p className="text-sm text-orange-800 dark:text-orange-200">
                         <AlertCircle className="h-4 w-4 inline mr-1" />
-                        This project will be permanently deleted in {daysRemaining}{" "}
-                        {daysRemaining === 1 ? "day" : "days"}. Restore it now to prevent data loss.
+                        {t('deletedProjects.expiringWarning', { days: formatDays(daysRemaining) })}
                       </p>
                     </div>
                   )}
@@ -157,15 +160,14 @@ export default function DeletedProjects() {
       <AlertDialog open={restoreDialogOpen} onOpenChange={setRestoreDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Restore Project</AlertDialogTitle>
+            <AlertDialogTitle>{t('deletedProjects.restoreTitle')}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to restore this project? It will be moved back to your active projects with a
-              "Draft" status.
+              {t('deletedProjects.restoreDescription')}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmRestore}>Restore Project</AlertDialogAction>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRestore}>{t('deletedProjects.restoreTitle')}</AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
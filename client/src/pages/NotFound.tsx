@@ -2,9 +2,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { AlertCircle, Home } from "lucide-react";
 import { useLocation } from "wouter";
+import { useTranslation } from "@/contexts/LanguageContext";
 
 export default function NotFound() {
   const [, setLocation] = useLocation();
+  const { t } = useTranslation();
 
   const handleGoHome = () => {
     setLocation("/");
@@ -24,13 +26,13 @@ export default function NotFound() {
           <h1 className="text-4xl font-bold text-slate-900 mb-2">404</h1>
 
           <h2 className="text-xl font-semibold text-slate-700 mb-4">
-            Page Not Found
+            {t('notFound.title')}
           </h2>
 
           <p className="text-slate-600 mb-8 leading-relaxed">
-            Sorry, the page you are looking for doesn't exist.
+            {t('notFound.description')}
             <br />
-            It may have been moved or deleted.
+            {t('notFound.hint')}
           </p>
 
           <div
@@ -42,7 +44,7 @@ export default function NotFound() {
               className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2.5 rounded-lg transition-all duration-200 shadow-md hover:shadow-lg"
             >
               <Home className="w-4 h-4 mr-2" />
-              Go Home
+              {t('notFound.goHome')}
             </Button>
           </div>
         </CardContent>
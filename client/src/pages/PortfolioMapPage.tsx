@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import { Link } from "wouter";
 import PortfolioMap from "@/components/PortfolioMap";
+import PortfolioGisToolbar from "@/components/PortfolioGisToolbar";
 
 export default function PortfolioMapPage() {
   const { user, loading: authLoading } = useAuth();
@@ -49,6 +50,9 @@ export default function PortfolioMapPage() {
           </div>
         </div>
 
+        {/* GIS export / import */}
+        <PortfolioGisToolbar />
+
         {/* Map Component */}
         <PortfolioMap />
       </div>
@@ -10,6 +10,7 @@ import { Loader2, AlertTriangle, TrendingDown, TrendingUp, Activity, ArrowLeft,
 import { trpc } from "@/lib/trpc";
 import { DeteriorationCurveEditor } from "@/components/DeteriorationCurveEditor";
 import { ScenarioComparison } from "@/components/ScenarioComparison";
+import { MarkovConditionOutlook } from "@/components/MarkovConditionOutlook";
 import { PredictionsSkeleton } from "@/components/PredictionsSkeleton";
 import { APP_TITLE, getLoginUrl } from "@/const";
 
@@ -21,10 +22,11 @@ export default function PredictionsDashboard() {
   const [selectedComponent, setSelectedComponent] = useState<{ projectId: number; componentCode: string } | null>(null);
   const [scenarioComponent, setScenarioComponent] = useState<{ componentCode: string; failureYear: number; remainingLife: number; replacementCost: number } | null>(null);
   const [timeHorizon, setTimeHorizon] = useState<number>(10); // Planning horizon in years
+  const [model, setModel] = useState<"linear" | "markov">("linear");
 
   const projectsQuery = trpc.projects.list.useQuery(undefined, { enabled: !!user });
   const predictionsQuery = trpc.predictions.project.useQuery(
-    { projectId: selectedProjectId!, method: "hybrid" },
+    { projectId: selectedProjectId!, method: "hybrid", model },
     { enabled: !!selectedProjectId }
   );
 
@@ -207,9 +209,9 @@ export default function PredictionsDashboard() {
       <Card>
         <CardHeader>
           <CardTitle>Select Project</CardTitle>
-          <CardDescription>Choose a project to view component predictions</CardDescription>
+          <CardDescription>Choose a project and deterioration model to view component predictions</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="flex flex-col md:flex-row gap-4">
           <Select
             value={selectedProjectId?.toString() || ""}
             onValueChange={(v) => setSelectedProjectId(parseInt(v))}
@@ -225,6 +227,15 @@ export default function PredictionsDashboard() {
               ))}
             </SelectContent>
           </Select>
+          <Select value={model} onValueChange={(v) => setModel(v as "linear" | "markov")}>
+            <SelectTrigger className="w-full md:w-96">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="linear">Linear trend model</SelectItem>
+              <SelectItem value="markov">Markov condition-state model</SelectItem>
+            </SelectContent>
+          </Select>
         </CardContent>
       </Card>
 
@@ -561,6 +572,12 @@ export default function PredictionsDashboard() {
           <DialogHeader>
             <DialogTitle>Deterioration Curve Editor - {selectedComponent?.componentCode}</DialogTitle>
           </DialogHeader>
+          {selectedComponent && model === "markov" && (
+            <MarkovConditionOutlook
+              projectId={selectedComponent.projectId}
+              componentCode={selectedComponent.componentCode}
+            />
+          )}
           {selectedComponent && (
             <DeteriorationCurveEditor
               projectId={selectedComponent.projectId}
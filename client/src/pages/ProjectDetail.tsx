@@ -31,10 +31,12 @@ import { ProjectAssetsMap } from "@/components/ProjectAssetsMap";
 import ProjectHierarchyConfig from "@/components/ProjectHierarchyConfig";
 import ProjectRatingConfig from "@/components/ProjectRatingConfig";
 import BuildingSectionsManager from "@/components/BuildingSectionsManager";
+import FloorPlanManager from "@/components/FloorPlanManager";
 import FacilitySummaryTab from "@/components/FacilitySummaryTab";
 import { BackButton } from "@/components/BackButton";
 import { AIChatBox, Message } from "@/components/AIChatBox";
 import { PortfolioReportDialog } from "@/components/PortfolioReportDialog";
+import { ExternalShareDialog } from "@/components/ExternalShareDialog";
 
 export default function ProjectDetail() {
   const { id } = useParams();
@@ -357,6 +359,7 @@ export default function ProjectDetail() {
             {stats && stats.assets > 1 && (
               <PortfolioReportDialog projectId={projectId} projectName={project.name} />
             )}
+            <ExternalShareDialog projectId={projectId} projectName={project.name} />
             <Button variant="outline" className="flex-none" onClick={handleEditProject}>
               <Edit className="mr-2 h-4 w-4" />
               Edit
@@ -438,6 +441,7 @@ export default function ProjectDetail() {
             <TabsTrigger value="deficiencies">Deficiencies</TabsTrigger>
             <TabsTrigger value="photos">Photos</TabsTrigger>
             <TabsTrigger value="sections">Sections</TabsTrigger>
+            <TabsTrigger value="floorPlans">Floor Plans</TabsTrigger>
             <TabsTrigger value="hierarchy">Hierarchy</TabsTrigger>
             <TabsTrigger value="ratings">Ratings</TabsTrigger>
             <TabsTrigger value="report">Report</TabsTrigger>
@@ -966,6 +970,10 @@ export default function ProjectDetail() {
             <BuildingSectionsManager projectId={projectId} />
           </TabsContent>
 
+          <TabsContent value="floorPlans">
+            <FloorPlanManager projectId={projectId} />
+          </TabsContent>
+
           <TabsContent value="hierarchy">
             <ProjectHierarchyConfig projectId={projectId} />
           </TabsContent>
@@ -24,6 +24,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { motion } from "framer-motion";
 import { pageVariants, containerVariants, cardVariants } from "@/lib/animations";
 import { AnimatedButton } from "@/components/AnimatedButton";
+import { CobieImportDialog } from "@/components/CobieImportDialog";
+import { useTranslation } from "@/contexts/LanguageContext";
 
 // Component to display document count badge
 function ProjectDocumentBadge({ projectId }: { projectId: number }) {
@@ -42,6 +44,7 @@ function ProjectDocumentBadge({ projectId }: { projectId: number }) {
 export default function Projects() {
   const { user, loading: authLoading } = useAuth();
   const { selectedCompanyId } = useCompany();
+  const { t, projectStatusLabel, formatDate } = useTranslation();
   const [, setLocation] = useLocation();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -122,9 +125,11 @@ export default function Projects() {
   const [showArchived, setShowArchived] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [importFile, setImportFile] = useState<File | null>(null);
+  const [cobieImportProject, setCobieImportProject] = useState<{ id: number; name: string } | null>(null);
   
   
 
+  const trpcUtils = trpc.useUtils();
   const { data: projects, isLoading, refetch } = trpc.projects.list.useQuery(
     selectedCompanyId ? { companyId: selectedCompanyId } : undefined,
     {
@@ -276,9 +281,9 @@ export default function Projects() {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
       
-      toast.success(`Successfully exported ${ids.length} project(s) to Excel`);
+      toast.success(t('projects.toast.bulkExported', { count: ids.length }));
     } catch (error) {
-      toast.error('Failed to export selected projects');
+      toast.error(t('projects.toast.bulkExportFailed'));
     }
   };
 
@@ -304,9 +309,9 @@ export default function Projects() {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
       
-      toast.success('Project exported successfully');
+      toast.success(t('projects.toast.exported'));
     } catch (error) {
-      toast.error('Failed to export project');
+      toast.error(t('projects.toast.exportFailed'));
     }
   };
 
@@ -327,9 +332,9 @@ export default function Projects() {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
       
-      toast.success(`${type} exported to CSV successfully`);
+      toast.success(t('projects.toast.csvExported', { type: t(`projects.csvType.${type}`) }));
     } catch (error) {
-      toast.error(`Failed to export ${type} to CSV`);
+      toast.error(t('projects.toast.csvExportFailed', { type: t(`projects.csvType.${type}`) }));
     }
   };
 
@@ -357,45 +362,71 @@ export default function Projects() {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
       
-      toast.success('Data exported to Excel successfully');
+      toast.success(t('projects.toast.excelExported'));
     } catch (error) {
-      toast.error('Failed to export to Excel');
+      toast.error(t('projects.toast.excelExportFailed'));
+    }
+  };
+
+  const handleExportCobie = async (projectId: number) => {
+    try {
+      const { data: base64Data, filename } = await trpcUtils.cobie.export.fetch({ projectId });
+      
+      const binaryString = atob(base64Data);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+      const blob = new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      
+      toast.success(t('projects.toast.cobieExported'));
+    } catch (error) {
+      toast.error(t('projects.toast.cobieExportFailed'));
     }
   };
 
   const updateProject = trpc.projects.update.useMutation({
     onSuccess: () => {
-      toast.success("Project updated successfully");
+      toast.success(t('projects.toast.updated'));
       setEditDialogOpen(false);
       setSelectedProject(null);
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message || "Failed to update project");
+      toast.error(error.message || t('projects.toast.updateFailed'));
     },
   });
 
   const deleteProject = trpc.projects.delete.useMutation({
     onSuccess: () => {
-      toast.success("Project deleted successfully");
+      toast.success(t('projects.toast.deleted'));
       setDeleteDialogOpen(false);
       setSelectedProject(null);
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message || "Failed to delete project");
+      toast.error(error.message || t('projects.toast.deleteFailed'));
     },
   });
 
   const bulkDeleteProjects = trpc.projects.bulkDelete.useMutation({
     onSuccess: (data) => {
-      toast.success(`${data.count} project(s) deleted successfully`);
+      toast.success(t('projects.toast.bulkDeleted', { count: data.count }));
       setBulkDeleteDialogOpen(false);
       setSelectedProjects(new Set());
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message || "Failed to delete projects");
+      toast.error(error.message || t('projects.toast.bulkDeleteFailed'));
     },
   });
 
@@ -403,54 +434,54 @@ export default function Projects() {
 
   const bulkUpdateStatus = trpc.projects.bulkUpdateStatus.useMutation({
     onSuccess: (data) => {
-      toast.success(`${data.success} project(s) status updated successfully`);
+      toast.success(t('projects.toast.statusUpdated', { count: data.success }));
       if (data.failed > 0) {
-        toast.warning(`${data.failed} project(s) failed to update`);
+        toast.warning(t('projects.toast.statusPartial', { count: data.failed }));
       }
       setBulkStatusDialogOpen(false);
       setSelectedProjects(new Set());
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message || "Failed to delete projects");
+      toast.error(error.message || t('projects.toast.statusFailed'));
     },
   });
 
   const archiveProject = trpc.projects.archive.useMutation({
     onSuccess: () => {
-      toast.success("Project archived successfully");
+      toast.success(t('projects.toast.archived'));
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message || "Failed to archive project");
+      toast.error(error.message || t('projects.toast.archiveFailed'));
     },
   });
 
   const unarchiveProject = trpc.projects.unarchive.useMutation({
     onSuccess: () => {
-      toast.success("Project unarchived successfully");
+      toast.success(t('projects.toast.unarchived'));
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message || "Failed to unarchive project");
+      toast.error(error.message || t('projects.toast.unarchiveFailed'));
     },
   });
 
   const importProject = trpc.projects.import.useMutation({
     onSuccess: () => {
-      toast.success("Project imported successfully");
+      toast.success(t('projects.toast.imported'));
       setImportDialogOpen(false);
       setImportFile(null);
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message || "Failed to import project");
+      toast.error(error.message || t('projects.toast.importFailed'));
     },
   });
 
   const handleImport = async () => {
     if (!importFile) {
-      toast.error("Please select a file to import");
+      toast.error(t('projects.toast.selectFile'));
       return;
     }
 
@@ -459,13 +490,13 @@ export default function Projects() {
       const data = JSON.parse(text);
       importProject.mutate({ data });
     } catch (error: any) {
-      toast.error("Invalid JSON file: " + error.message);
+      toast.error(t('projects.toast.invalidJson', { message: error.message }));
     }
   };
 
   const createProject = trpc.projects.create.useMutation({
     onSuccess: (data) => {
-      toast.success("Project created successfully");
+      toast.success(t('projects.toast.created'));
       setDialogOpen(false);
       setFormData({
         name: "",
@@ -487,7 +518,7 @@ export default function Projects() {
       setLocation(`/projects/${data.id}/assets`);
     },
     onError: (error) => {
-      toast.error("Failed to create project: " + error.message);
+      toast.error(t('projects.toast.createFailed', { message: error.message }));
     },
   });
 
@@ -499,7 +530,7 @@ export default function Projects() {
       const year = parseInt(formData.yearBuilt);
       const currentYear = new Date().getFullYear();
       if (year < 1800 || year > currentYear + 5) {
-        errors.yearBuilt = `Year must be between 1800 and ${currentYear + 5}`;
+        errors.yearBuilt = t('projects.validation.yearBuilt', { max: currentYear + 5 });
       }
     }
     
@@ -507,7 +538,7 @@ export default function Projects() {
     if (formData.numberOfUnits) {
       const units = parseInt(formData.numberOfUnits);
       if (units < 0 || units > 10000) {
-        errors.numberOfUnits = "Number of units must be between 0 and 10,000";
+        errors.numberOfUnits = t('projects.validation.numberOfUnits');
       }
     }
     
@@ -515,7 +546,7 @@ export default function Projects() {
     if (formData.numberOfStories) {
       const stories = parseInt(formData.numberOfStories);
       if (stories < 0 || stories > 200) {
-        errors.numberOfStories = "Number of stories must be between 0 and 200";
+        errors.numberOfStories = t('projects.validation.numberOfStories');
       }
     }
     
@@ -527,7 +558,7 @@ export default function Projects() {
     e.preventDefault();
     
     if (!validateForm()) {
-      toast.error("Please fix validation errors before submitting");
+      toast.error(t('projects.validation.fixErrors'));
       return;
     }
     
@@ -563,10 +594,6 @@ export default function Projects() {
     }
   };
 
-  const getStatusLabel = (status: string) => {
-    return status.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
-  };
-
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -586,9 +613,9 @@ export default function Projects() {
       >
         <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 md:mb-8 gap-4">
           <div>
-            <h1 className="text-3xl md:text-4xl font-semibold tracking-tight text-foreground mb-2">Projects</h1>
+            <h1 className="text-3xl md:text-4xl font-semibold tracking-tight text-foreground mb-2">{t('nav.projects')}</h1>
             <p className="text-sm md:text-base text-muted-foreground font-normal">
-              Manage your building condition assessment projects
+              {t('projects.subtitle')}
             </p>
           </div>
           <div className="flex flex-wrap gap-2 md:gap-3">
@@ -601,7 +628,7 @@ export default function Projects() {
               <svg className="mr-1 md:mr-2 h-3 w-3 md:h-4 md:w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
               </svg>
-              <span className="hidden sm:inline">Import JSON</span>
+              <span className="hidden sm:inline">{t('projects.importJson')}</span>
               <span className="sm:hidden">JSON</span>
             </Button>
 
@@ -609,21 +636,21 @@ export default function Projects() {
               <DialogTrigger asChild>
                 <AnimatedButton className="btn-gradient shadow-md hover:shadow-lg">
                   <Plus className="mr-2 h-4 w-4" />
-                  New Project
+                  {t('projects.newProject')}
                 </AnimatedButton>
               </DialogTrigger>
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <form onSubmit={handleSubmit}>
                 <DialogHeader>
-                  <DialogTitle>Create New Project</DialogTitle>
+                  <DialogTitle>{t('projects.createTitle')}</DialogTitle>
                   <DialogDescription>
-                    Enter the details for your building condition assessment project
+                    {t('projects.createDescription')}
                   </DialogDescription>
                 </DialogHeader>
                 <div className="grid gap-4 py-4">
                   <div className="grid gap-2">
                     <Label htmlFor="name">
-                      Project Name *
+                      {t('projects.field.name')}
                     </Label>
                     <Input
                       id="name"
@@ -635,7 +662,7 @@ export default function Projects() {
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="address">
-                      Property Address
+                      {t('projects.field.propertyAddress')}
                     </Label>
                     <AddressAutocomplete
                       value={formData.address}
@@ -656,54 +683,54 @@ export default function Projects() {
                         }));
                         console.log('[Projects] Form data updated');
                       }}
-                      placeholder="Enter property address"
+                      placeholder={t('projects.field.propertyAddressPlaceholder')}
                     />
                     
                     {/* Address Component Fields - Auto-populated from autocomplete */}
                     <div className="grid grid-cols-2 gap-4 mt-4">
                       <div className="grid gap-2">
-                        <Label htmlFor="streetAddress">Street Address</Label>
+                        <Label htmlFor="streetAddress">{t('projects.field.streetAddress')}</Label>
                         <Input
                           id="streetAddress"
                           value={formData.streetAddress}
                           onChange={(e) => setFormData(prev => ({ ...prev, streetAddress: e.target.value }))}
-                          placeholder="Auto-filled from address above"
+                          placeholder={t('projects.field.autoFilled')}
                         />
                       </div>
                       <div className="grid gap-2">
-                        <Label htmlFor="city">City</Label>
+                        <Label htmlFor="city">{t('projects.field.city')}</Label>
                         <Input
                           id="city"
                           value={formData.city}
                           onChange={(e) => setFormData(prev => ({ ...prev, city: e.target.value }))}
-                          placeholder="Auto-filled from address above"
+                          placeholder={t('projects.field.autoFilled')}
                         />
                       </div>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div className="grid gap-2">
-                        <Label htmlFor="province">Province</Label>
+                        <Label htmlFor="province">{t('projects.field.province')}</Label>
                         <Input
                           id="province"
                           value={formData.province}
                           onChange={(e) => setFormData(prev => ({ ...prev, province: e.target.value }))}
-                          placeholder="Auto-filled from address above"
+                          placeholder={t('projects.field.autoFilled')}
                         />
                       </div>
                       <div className="grid gap-2">
-                        <Label htmlFor="postalCode">Postal Code</Label>
+                        <Label htmlFor="postalCode">{t('projects.field.postalCode')}</Label>
                         <Input
                           id="postalCode"
                           value={formData.postalCode}
                           onChange={(e) => setFormData(prev => ({ ...prev, postalCode: e.target.value }))}
-                          placeholder="Auto-filled from address above"
+                          placeholder={t('projects.field.autoFilled')}
                         />
                       </div>
                     </div>
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="clientName">
-                      Client Name
+                      {t('projects.field.clientName')}
                     </Label>
                     <Input
                       id="clientName"
@@ -715,7 +742,7 @@ export default function Projects() {
                   <div className="grid grid-cols-2 gap-4">
                     <div className="grid gap-2">
                       <Label htmlFor="propertyType">
-                        Property Type
+                        {t('projects.field.propertyType')}
                       </Label>
                       <Input
                         id="propertyType"
@@ -726,7 +753,7 @@ export default function Projects() {
                     </div>
                     <div className="grid gap-2">
                       <Label htmlFor="constructionType">
-                        Construction Type
+                        {t('projects.field.constructionType')}
                       </Label>
                       <Input
                         id="constructionType"
@@ -739,7 +766,7 @@ export default function Projects() {
                   <div className="grid grid-cols-3 gap-4">
                     <div className="grid gap-2">
                       <Label htmlFor="yearBuilt">
-                        Year Built
+                        {t('projects.field.yearBuilt')}
                       </Label>
                       <Input
                         id="yearBuilt"
@@ -756,7 +783,7 @@ export default function Projects() {
                       )}
                     </div>
                     <div className="grid gap-2">
-                      <Label htmlFor="numberOfUnits">Number of Units</Label>
+                      <Label htmlFor="numberOfUnits">{t('projects.field.numberOfUnits')}</Label>
                       <Input
                         id="numberOfUnits"
                         type="number"
@@ -772,7 +799,7 @@ export default function Projects() {
                       )}
                     </div>
                     <div className="grid gap-2">
-                      <Label htmlFor="numberOfStories">Number of Stories</Label>
+                      <Label htmlFor="numberOfStories">{t('projects.field.numberOfStories')}</Label>
                       <Input
                         id="numberOfStories"
                         type="number"
@@ -789,7 +816,7 @@ export default function Projects() {
                     </div>
                   </div>
                   <div className="grid gap-2">
-                    <Label htmlFor="buildingCode">Building Code</Label>
+                    <Label htmlFor="buildingCode">{t('projects.field.buildingCode')}</Label>
                     <BuildingCodeSelect
                       value={formData.buildingCodeId}
                       onChange={(value) => setFormData({ ...formData, buildingCodeId: value })}
@@ -797,7 +824,7 @@ export default function Projects() {
                   </div>
                   <div className="grid gap-2">
                     <div className="flex items-center justify-between">
-                      <Label htmlFor="observations">Initial Observations</Label>
+                      <Label htmlFor="observations">{t('projects.field.observations')}</Label>
                       <Button
                         type="button"
                         variant="outline"
@@ -806,7 +833,7 @@ export default function Projects() {
                         className="gap-2"
                       >
                         <Mic className="w-4 h-4" />
-                        {showObservationsVoice ? "Hide" : "Voice Input"}
+                        {showObservationsVoice ? t('common.hide') : t('common.voiceInput')}
                       </Button>
                     </div>
                     {showObservationsVoice && (
@@ -822,18 +849,18 @@ export default function Projects() {
                       id="observations"
                       value={formData.observations || ""}
                       onChange={(e) => setFormData({ ...formData, observations: e.target.value })}
-                      placeholder="Enter any initial observations about the facility..."
+                      placeholder={t('projects.field.observationsPlaceholder')}
                       rows={4}
                     />
                   </div>
                 </div>
                 <DialogFooter>
                   <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                   <Button type="submit" disabled={createProject.isPending}>
                     {createProject.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Create Project
+                    {t('projects.createProject')}
                   </Button>
                 </DialogFooter>
               </form>
@@ -848,7 +875,7 @@ export default function Projects() {
           <div className="relative">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
             <Input
-              placeholder="Search projects..."
+              placeholder={t('projects.searchPlaceholder')}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-12 pr-12 h-12 text-base border-border/50 focus:border-primary transition-colors"
@@ -868,21 +895,21 @@ export default function Projects() {
             <div className="bg-primary/10 border border-primary/20 rounded-lg p-4 flex items-center justify-between">
               <div className="flex items-center gap-4">
                 <span className="text-sm font-medium">
-                  {selectedProjects.size} project(s) selected
+                  {t('projects.selectedCount', { count: selectedProjects.size })}
                 </span>
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={selectAllProjects}
                 >
-                  Select All ({filteredAndSortedProjects.length})
+                  {t('projects.selectAll', { count: filteredAndSortedProjects.length })}
                 </Button>
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={clearSelection}
                 >
-                  Clear Selection
+                  {t('projects.clearSelection')}
                 </Button>
               </div>
               <Button
@@ -898,7 +925,7 @@ export default function Projects() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                   </svg>
                 )}
-                Export Selected
+                {t('projects.exportSelected')}
               </Button>
               <div className="flex gap-2">
                 <Button
@@ -909,7 +936,7 @@ export default function Projects() {
                   <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
-                  Change Status
+                  {t('projects.changeStatus')}
                 </Button>
                 <Button
                   variant="destructive"
@@ -917,7 +944,7 @@ export default function Projects() {
                   onClick={() => setBulkDeleteDialogOpen(true)}
                 >
                   <Trash2 className="mr-2 h-4 w-4" />
-                  Delete Selected
+                  {t('projects.deleteSelected')}
                 </Button>
               </div>
             </div>
@@ -928,7 +955,7 @@ export default function Projects() {
                 {/* Sort Dropdown */}
                 <div className="flex items-center gap-2">
                   <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm font-medium">Sort by:</span>
+                  <span className="text-sm font-medium">{t('common.sortBy')}</span>
                 </div>
                 
                 <Select value={sortBy} onValueChange={(value) => handleSort(value)}>
@@ -938,7 +965,7 @@ export default function Projects() {
                   <SelectContent>
                     <SelectItem value="updatedAt">
                       <div className="flex items-center gap-2">
-                        <span>Last Updated</span>
+                        <span>{t('projects.sort.updatedAt')}</span>
                         {sortBy === 'updatedAt' && (
                           sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                         )}
@@ -946,7 +973,7 @@ export default function Projects() {
                     </SelectItem>
                     <SelectItem value="createdAt">
                       <div className="flex items-center gap-2">
-                        <span>Date Created</span>
+                        <span>{t('projects.sort.createdAt')}</span>
                         {sortBy === 'createdAt' && (
                           sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                         )}
@@ -954,7 +981,7 @@ export default function Projects() {
                     </SelectItem>
                     <SelectItem value="name">
                       <div className="flex items-center gap-2">
-                        <span>Project Name</span>
+                        <span>{t('projects.sort.name')}</span>
                         {sortBy === 'name' && (
                           sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                         )}
@@ -962,7 +989,7 @@ export default function Projects() {
                     </SelectItem>
                     <SelectItem value="clientName">
                       <div className="flex items-center gap-2">
-                        <span>Client Name</span>
+                        <span>{t('projects.field.clientName')}</span>
                         {sortBy === 'clientName' && (
                           sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                         )}
@@ -970,7 +997,7 @@ export default function Projects() {
                     </SelectItem>
                     <SelectItem value="status">
                       <div className="flex items-center gap-2">
-                        <span>Status</span>
+                        <span>{t('filters.status')}</span>
                         {sortBy === 'status' && (
                           sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                         )}
@@ -978,7 +1005,7 @@ export default function Projects() {
                     </SelectItem>
                     <SelectItem value="address">
                       <div className="flex items-center gap-2">
-                        <span>Address</span>
+                        <span>{t('projects.field.address')}</span>
                         {sortBy === 'address' && (
                           sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                         )}
@@ -986,7 +1013,7 @@ export default function Projects() {
                     </SelectItem>
                     <SelectItem value="buildingCodeId">
                       <div className="flex items-center gap-2">
-                        <span>Building Code</span>
+                        <span>{t('projects.field.buildingCode')}</span>
                         {sortBy === 'buildingCodeId' && (
                           sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                         )}
@@ -1003,9 +1030,9 @@ export default function Projects() {
                   className="gap-2"
                 >
                   {sortDirection === 'asc' ? (
-                    <><ArrowUp className="h-4 w-4" /> Ascending</>
+                    <><ArrowUp className="h-4 w-4" /> {t('common.ascending')}</>
                   ) : (
-                    <><ArrowDown className="h-4 w-4" /> Descending</>
+                    <><ArrowDown className="h-4 w-4" /> {t('common.descending')}</>
                   )}
                 </Button>
                 
@@ -1013,26 +1040,26 @@ export default function Projects() {
 
                 <div className="flex items-center gap-2">
                   <Filter className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm font-medium">Filters:</span>
+                  <span className="text-sm font-medium">{t('common.filters')}</span>
                 </div>
 
                 {/* Status Filter */}
                 <Select value={statusFilter} onValueChange={setStatusFilter}>
                   <SelectTrigger className="w-[160px]">
-                    <SelectValue placeholder="All Statuses" />
+                    <SelectValue placeholder={t('filters.allStatus')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Statuses</SelectItem>
-                    <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="in_progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                    <SelectItem value="archived">Archived</SelectItem>
+                    <SelectItem value="all">{t('filters.allStatus')}</SelectItem>
+                    <SelectItem value="draft">{projectStatusLabel('draft')}</SelectItem>
+                    <SelectItem value="in_progress">{projectStatusLabel('in_progress')}</SelectItem>
+                    <SelectItem value="completed">{projectStatusLabel('completed')}</SelectItem>
+                    <SelectItem value="archived">{projectStatusLabel('archived')}</SelectItem>
                   </SelectContent>
                 </Select>
 
                 {/* Date Range Filters */}
                 <div className="flex items-center gap-2 w-full md:w-auto">
-                  <Label className="text-sm text-muted-foreground shrink-0">From:</Label>
+                  <Label className="text-sm text-muted-foreground shrink-0">{t('common.from')}</Label>
                   <Input
                     type="date"
                     value={dateRangeFilter.start}
@@ -1041,7 +1068,7 @@ export default function Projects() {
                   />
                 </div>
                 <div className="flex items-center gap-2 w-full md:w-auto">
-                  <Label className="text-sm text-muted-foreground shrink-0">To:</Label>
+                  <Label className="text-sm text-muted-foreground shrink-0">{t('common.to')}</Label>
                   <Input
                     type="date"
                     value={dateRangeFilter.end}
@@ -1059,7 +1086,7 @@ export default function Projects() {
                     className="gap-2"
                   >
                     <X className="h-3 w-3" />
-                    Clear {activeFiltersCount} {activeFiltersCount === 1 ? 'filter' : 'filters'}
+                    {t(activeFiltersCount === 1 ? 'projects.clearFilter' : 'projects.clearFilters', { count: activeFiltersCount })}
                   </Button>
                 )}
 
@@ -1073,13 +1100,13 @@ export default function Projects() {
                     className="rounded"
                   />
                   <Label htmlFor="showArchived" className="text-sm cursor-pointer">
-                    Show Archived
+                    {t('projects.showArchived')}
                   </Label>
                 </div>
 
             {/* Results Count */}
             <div className="ml-auto text-sm text-muted-foreground font-medium">
-              Showing {filteredAndSortedProjects.length} of {projects?.length || 0} projects
+              {t('projects.showing', { shown: filteredAndSortedProjects.length, total: projects?.length || 0 })}
             </div>
           </div>
         </div>
@@ -1089,7 +1116,7 @@ export default function Projects() {
         {isLoading ? (
           <div className="loading-container">
             <Loader2 className="loading-spinner" />
-            <p className="loading-text">Loading projects...</p>
+            <p className="loading-text">{t('projects.loading')}</p>
           </div>
         ) : filteredAndSortedProjects && filteredAndSortedProjects.length > 0 ? (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -1118,7 +1145,7 @@ export default function Projects() {
                     </div>
                     <div className="flex items-center gap-2">
                       <span className={getStatusColor(project.status)}>
-                        {getStatusLabel(project.status)}
+                        {projectStatusLabel(project.status)}
                       </span>
                       <ProjectDocumentBadge projectId={project.id} />
                       <DropdownMenu>
@@ -1152,14 +1179,14 @@ export default function Projects() {
                             }}
                           >
                             <Pencil className="mr-2 h-4 w-4" />
-                            Edit
+                            {t('common.edit')}
                           </DropdownMenuItem>
                           <DropdownMenuSub>
                             <DropdownMenuSubTrigger>
                               <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                               </svg>
-                              Export
+                              {t('common.export')}
                             </DropdownMenuSubTrigger>
                             <DropdownMenuSubContent>
                               <DropdownMenuItem
@@ -1171,7 +1198,7 @@ export default function Projects() {
                                 <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                                 </svg>
-                                Full Project (JSON)
+                                {t('projects.export.json')}
                               </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={(e) => {
@@ -1182,7 +1209,7 @@ export default function Projects() {
                                 <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                                 </svg>
-                                Data (Excel)
+                                {t('projects.export.excel')}
                               </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={(e) => {
@@ -1193,7 +1220,7 @@ export default function Projects() {
                                 <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                                 </svg>
-                                Assessments (CSV)
+                                {t('projects.export.assessmentsCsv')}
                               </DropdownMenuItem>
                               <DropdownMenuItem
                                 onClick={(e) => {
@@ -1204,10 +1231,32 @@ export default function Projects() {
                                 <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                                 </svg>
-                                Deficiencies (CSV)
+                                {t('projects.export.deficienciesCsv')}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleExportCobie(project.id);
+                                }}
+                              >
+                                <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                                </svg>
+                                {t('projects.export.cobie')}
                               </DropdownMenuItem>
                             </DropdownMenuSubContent>
                           </DropdownMenuSub>
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setCobieImportProject({ id: project.id, name: project.name });
+                            }}
+                          >
+                            <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                            </svg>
+                            {t('projects.importCobie')}
+                          </DropdownMenuItem>
                           {project.status !== "archived" ? (
                             <DropdownMenuItem
                               onClick={(e) => {
@@ -1218,7 +1267,7 @@ export default function Projects() {
                               <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
                               </svg>
-                              Archive
+                              {t('common.archive')}
                             </DropdownMenuItem>
                           ) : (
                             <DropdownMenuItem
@@ -1230,7 +1279,7 @@ export default function Projects() {
                               <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                               </svg>
-                              Unarchive
+                              {t('common.unarchive')}
                             </DropdownMenuItem>
                           )}
                           <DropdownMenuItem
@@ -1242,7 +1291,7 @@ export default function Projects() {
                             }}
                           >
                             <Trash2 className="mr-2 h-4 w-4" />
-                            Delete
+                            {t('common.delete')}
                           </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
@@ -1250,7 +1299,7 @@ export default function Projects() {
                   </div>
                   <CardTitle className="project-title mb-1">{project.name}</CardTitle>
                   {project.clientName && (
-                    <p className="text-sm text-muted-foreground">Client: {project.clientName}</p>
+                    <p className="text-sm text-muted-foreground">{t('projects.client', { name: project.clientName })}</p>
                   )}
                 </CardHeader>
                 <CardContent className="card-content">
@@ -1263,10 +1312,10 @@ export default function Projects() {
                     )}
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4" />
-                      <span>Updated {new Date(project.updatedAt).toLocaleDateString()}</span>
+                      <span>{t('projects.updated', { date: formatDate(project.updatedAt) })}</span>
                     </div>
                     {project.yearBuilt && (
-                      <div>Built: {project.yearBuilt}</div>
+                      <div>{t('projects.built', { year: project.yearBuilt })}</div>
                     )}
                   </div>
                 </CardContent>
@@ -1279,13 +1328,13 @@ export default function Projects() {
               <div className="empty-state-icon">
                 <Filter className="h-12 w-12 text-muted-foreground" />
               </div>
-              <h3 className="empty-state-title">No projects match your filters</h3>
+              <h3 className="empty-state-title">{t('projects.noMatchTitle')}</h3>
               <p className="empty-state-description">
-                Try adjusting your search query or filter criteria to find what you're looking for
+                {t('projects.noMatchDescription')}
               </p>
               <Button onClick={clearFilters} className="btn-outline-enhanced">
                 <X className="mr-2 h-4 w-4" />
-                Clear All Filters
+                {t('projects.clearAllFilters')}
               </Button>
             </CardContent>
           </Card>
@@ -1295,13 +1344,13 @@ export default function Projects() {
               <div className="empty-state-icon">
                 <Building2 className="h-12 w-12 text-primary" />
               </div>
-              <h3 className="empty-state-title">No projects yet</h3>
+              <h3 className="empty-state-title">{t('projects.emptyTitle')}</h3>
               <p className="empty-state-description">
-                Get started by creating your first building condition assessment project and begin tracking facility conditions
+                {t('projects.emptyDescription')}
               </p>
               <Button onClick={() => setDialogOpen(true)} className="btn-gradient">
                 <Plus className="mr-2 h-4 w-4" />
-                Create Your First Project
+                {t('projects.createFirst')}
               </Button>
             </CardContent>
           </Card>
@@ -1311,9 +1360,9 @@ export default function Projects() {
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Edit Project</DialogTitle>
+            <DialogTitle>{t('projects.editTitle')}</DialogTitle>
             <DialogDescription>
-              Update the project information below.
+              {t('projects.editDescription')}
             </DialogDescription>
           </DialogHeader>
           <form
@@ -1336,7 +1385,7 @@ export default function Projects() {
           >
             <div className="grid gap-4 py-4">
               <div className="grid gap-2">
-                <Label htmlFor="edit-name">Project Name *</Label>
+                <Label htmlFor="edit-name">{t('projects.field.name')}</Label>
                 <Input
                   id="edit-name"
                   value={formData.name}
@@ -1345,7 +1394,7 @@ export default function Projects() {
                 />
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="edit-address">Address</Label>
+                <Label htmlFor="edit-address">{t('projects.field.address')}</Label>
                 <Input
                   id="edit-address"
                   value={formData.address}
@@ -1353,7 +1402,7 @@ export default function Projects() {
                 />
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="edit-clientName">Client Name</Label>
+                <Label htmlFor="edit-clientName">{t('projects.field.clientName')}</Label>
                 <Input
                   id="edit-clientName"
                   value={formData.clientName}
@@ -1362,37 +1411,37 @@ export default function Projects() {
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="grid gap-2">
-                  <Label htmlFor="edit-propertyType">Property Type</Label>
+                  <Label htmlFor="edit-propertyType">{t('projects.field.propertyType')}</Label>
                   <Select value={formData.propertyType} onValueChange={(value) => setFormData({ ...formData, propertyType: value })}>
                     <SelectTrigger id="edit-propertyType">
-                      <SelectValue placeholder="Select type" />
+                      <SelectValue placeholder={t('projects.field.selectType')} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="residential">Residential</SelectItem>
-                      <SelectItem value="commercial">Commercial</SelectItem>
-                      <SelectItem value="industrial">Industrial</SelectItem>
-                      <SelectItem value="mixed-use">Mixed Use</SelectItem>
+                      <SelectItem value="residential">{t('projects.propertyType.residential')}</SelectItem>
+                      <SelectItem value="commercial">{t('projects.propertyType.commercial')}</SelectItem>
+                      <SelectItem value="industrial">{t('projects.propertyType.industrial')}</SelectItem>
+                      <SelectItem value="mixed-use">{t('projects.propertyType.mixedUse')}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="grid gap-2">
-                  <Label htmlFor="edit-constructionType">Construction Type</Label>
+                  <Label htmlFor="edit-constructionType">{t('projects.field.constructionType')}</Label>
                   <Select value={formData.constructionType} onValueChange={(value) => setFormData({ ...formData, constructionType: value })}>
                     <SelectTrigger id="edit-constructionType">
-                      <SelectValue placeholder="Select type" />
+                      <SelectValue placeholder={t('projects.field.selectType')} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="wood-frame">Wood Frame</SelectItem>
-                      <SelectItem value="concrete">Concrete</SelectItem>
-                      <SelectItem value="steel">Steel</SelectItem>
-                      <SelectItem value="masonry">Masonry</SelectItem>
+                      <SelectItem value="wood-frame">{t('projects.constructionType.woodFrame')}</SelectItem>
+                      <SelectItem value="concrete">{t('projects.constructionType.concrete')}</SelectItem>
+                      <SelectItem value="steel">{t('projects.constructionType.steel')}</SelectItem>
+                      <SelectItem value="masonry">{t('projects.constructionType.masonry')}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
               <div className="grid grid-cols-3 gap-4">
                 <div className="grid gap-2">
-                  <Label htmlFor="edit-yearBuilt">Year Built</Label>
+                  <Label htmlFor="edit-yearBuilt">{t('projects.field.yearBuilt')}</Label>
                   <Input
                     id="edit-yearBuilt"
                     type="number"
@@ -1401,7 +1450,7 @@ export default function Projects() {
                   />
                 </div>
                 <div className="grid gap-2">
-                  <Label htmlFor="edit-numberOfUnits">Number of Units</Label>
+                  <Label htmlFor="edit-numberOfUnits">{t('projects.field.numberOfUnits')}</Label>
                   <Input
                     id="edit-numberOfUnits"
                     type="number"
@@ -1410,7 +1459,7 @@ export default function Projects() {
                   />
                 </div>
                 <div className="grid gap-2">
-                  <Label htmlFor="edit-numberOfStories">Number of Stories</Label>
+                  <Label htmlFor="edit-numberOfStories">{t('projects.field.numberOfStories')}</Label>
                   <Input
                     id="edit-numberOfStories"
                     type="number"
@@ -1420,7 +1469,7 @@ export default function Projects() {
                 </div>
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="edit-buildingCode">Building Code</Label>
+                <Label htmlFor="edit-buildingCode">{t('projects.field.buildingCode')}</Label>
                 <BuildingCodeSelect
                   value={formData.buildingCodeId}
                   onChange={(value) => setFormData({ ...formData, buildingCodeId: value })}
@@ -1429,11 +1478,11 @@ export default function Projects() {
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setEditDialogOpen(false)}>
-                Cancel
+                {t('common.cancel')}
               </Button>
               <Button type="submit" disabled={updateProject.isPending}>
                 {updateProject.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Update Project
+                {t('projects.updateProject')}
               </Button>
             </DialogFooter>
           </form>
@@ -1444,13 +1493,13 @@ export default function Projects() {
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>{t('common.areYouSure')}</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the project "{selectedProject?.name}" and all associated assessments, deficiencies, and photos. This action cannot be undone.
+              {t('projects.deleteDescription', { name: selectedProject?.name ?? '' })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
             <AlertDialogAction
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
               onClick={() => {
@@ -1460,7 +1509,7 @@ export default function Projects() {
               }}
             >
               {deleteProject.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Delete Project
+              {t('projects.deleteProject')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1470,19 +1519,19 @@ export default function Projects() {
       <AlertDialog open={bulkDeleteDialogOpen} onOpenChange={setBulkDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete {selectedProjects.size} Projects?</AlertDialogTitle>
+            <AlertDialogTitle>{t('projects.bulkDeleteTitle', { count: selectedProjects.size })}</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {selectedProjects.size} project(s) and all associated assessments, deficiencies, and photos. This action cannot be undone.
+              {t('projects.bulkDeleteDescription', { count: selectedProjects.size })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
             <AlertDialogAction
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
               onClick={handleBulkDelete}
             >
               {bulkDeleteProjects.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Delete {selectedProjects.size} Projects
+              {t('projects.bulkDeleteConfirm', { count: selectedProjects.size })}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1492,38 +1541,40 @@ export default function Projects() {
       <Dialog open={bulkStatusDialogOpen} onOpenChange={setBulkStatusDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Change Status for {selectedProjects.size} Projects</DialogTitle>
+            <DialogTitle>{t('projects.bulkStatusTitle', { count: selectedProjects.size })}</DialogTitle>
             <DialogDescription>
-              Select the new status for the selected {selectedProjects.size} project(s).
+              {t('projects.bulkStatusDescription', { count: selectedProjects.size })}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <label className="text-sm font-medium">New Status</label>
+              <label className="text-sm font-medium">{t('projects.newStatus')}</label>
               <Select value={bulkStatusValue} onValueChange={(value: any) => setBulkStatusValue(value)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="draft">Draft</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="archived">Archived</SelectItem>
+                  <SelectItem value="draft">{projectStatusLabel('draft')}</SelectItem>
+                  <SelectItem value="in_progress">{projectStatusLabel('in_progress')}</SelectItem>
+                  <SelectItem value="completed">{projectStatusLabel('completed')}</SelectItem>
+                  <SelectItem value="archived">{projectStatusLabel('archived')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div className="bg-muted p-3 rounded-md">
               <p className="text-sm text-muted-foreground">
-                Selected projects: {Array.from(selectedProjects).map(id => {
-                  const project = projects?.find(p => p.id === id);
-                  return project?.name;
-                }).filter(Boolean).join(", ")}
+                {t('projects.selectedProjects', {
+                  names: Array.from(selectedProjects).map(id => {
+                    const project = projects?.find(p => p.id === id);
+                    return project?.name;
+                  }).filter(Boolean).join(", "),
+                })}
               </p>
             </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setBulkStatusDialogOpen(false)}>
-              Cancel
+              {t('common.cancel')}
             </Button>
             <Button 
               onClick={() => {
@@ -1535,7 +1586,7 @@ export default function Projects() {
               disabled={bulkUpdateStatus.isPending}
             >
               {bulkUpdateStatus.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Update Status
+              {t('projects.updateStatus')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1545,14 +1596,14 @@ export default function Projects() {
       <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Import Project</DialogTitle>
+            <DialogTitle>{t('projects.importTitle')}</DialogTitle>
             <DialogDescription>
-              Upload a JSON file exported from another BCA project
+              {t('projects.importDescription')}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="grid gap-2">
-              <Label htmlFor="importFile">Select JSON File</Label>
+              <Label htmlFor="importFile">{t('projects.importFile')}</Label>
               <Input
                 id="importFile"
                 type="file"
@@ -1562,7 +1613,7 @@ export default function Projects() {
             </div>
             {importFile && (
               <div className="text-sm text-muted-foreground">
-                Selected: {importFile.name} ({(importFile.size / 1024).toFixed(2)} KB)
+                {t('projects.importSelected', { name: importFile.name, size: (importFile.size / 1024).toFixed(2) })}
               </div>
             )}
           </div>
@@ -1575,7 +1626,7 @@ export default function Projects() {
                 setImportFile(null);
               }}
             >
-              Cancel
+              {t('common.cancel')}
             </Button>
             <Button
               type="button"
@@ -1583,13 +1634,21 @@ export default function Projects() {
               disabled={!importFile || importProject.isPending}
             >
               {importProject.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Import
+              {t('common.import')}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
-
+      <CobieImportDialog
+        projectId={cobieImportProject?.id ?? null}
+        projectName={cobieImportProject?.name}
+        open={cobieImportProject !== null}
+        onOpenChange={(open) => {
+          if (!open) setCobieImportProject(null);
+        }}
+        onImported={() => refetch()}
+      />
 
       </motion.div>
     </DashboardLayout>
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import DashboardLayout from "@/components/DashboardLayout";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { useTranslation } from "@/contexts/LanguageContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, AlertTriangle, Camera, FileText, Mic, Loader2, Search, Sparkles } from "lucide-react";
+
+type SourceType = "assessment" | "deficiency" | "photo" | "project_document" | "voice_transcript";
+
+const SOURCE_TYPES: { value: SourceType; icon: typeof Search }[] = [
+  { value: "assessment", icon: ClipboardList },
+  { value: "deficiency", icon: AlertTriangle },
+  { value: "photo", icon: Camera },
+  { value: "project_document", icon: FileText },
+  { value: "voice_transcript", icon: Mic },
+];
+
+const ALL = "all";
+
+interface SearchFilters {
+  query: string;
+  projectId: string;
+  companyId: string;
+  componentCode: string;
+  sourceTypes: SourceType[];
+}
+
+/**
+ * Search across years of assessments by meaning: observations and recommendations, deficiencies,
+ * text read from photos, project documents and voice transcripts
+ */
+export default function SemanticSearch() {
+  const { user } = useAuth();
+  const isSuperAdmin = user?.isSuperAdmin === 1;
+  const { t } = useTranslation();
+
+  const [query, setQuery] = useState("");
+  const [projectId, setProjectId] = useState(ALL);
+  const [companyId, setCompanyId] = useState(ALL);
+  const [componentCode, setComponentCode] = useState("");
+  const [sourceTypes, setSourceTypes] = useState<SourceType[]>([]);
+  const [submitted, setSubmitted] = useState<SearchFilters | null>(null);
+
+  const { data: projects = [] } = trpc.projects.list.useQuery();
+  const { data: companies = [] } = trpc.companyRoles.getAllCompanies.useQuery(undefined, { enabled: isSuperAdmin });
+
+  const { data, isFetching, error } = trpc.search.query.useQuery(
+    {
+      query: submitted?.query ?? "",
+      projectIds: submitted && submitted.projectId !== ALL ? [Number(submitted.projectId)] : undefined,
+      companyId: submitted && submitted.companyId !== ALL ? Number(submitted.companyId) : undefined,
+      componentCode: submitted?.componentCode || undefined,
+      sourceTypes: submitted && submitted.sourceTypes.length > 0 ? submitted.sourceTypes : undefined,
+      limit: 50,
+    },
+    { enabled: !!submitted && submitted.query.length >= 2 }
+  );
+
+  const handleSearch = () => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) return;
+    setSubmitted({ query: trimmed, projectId, companyId, componentCode: componentCode.trim().toUpperCase(), sourceTypes });
+  };
+
+  const toggleSourceType = (value: SourceType) => {
+    setSourceTypes((prev) => (prev.includes(value) ? prev.filter((type) => type !== value) : [...prev, value]));
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{t('nav.search')}</h1>
+          <p className="text-muted-foreground">
+            {t('search.subtitle')}
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSearch();
+              }}
+            >
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('search.placeholder')}
+                maxLength={200}
+                autoFocus
+              />
+              <Button type="submit" disabled={query.trim().length < 2 || isFetching}>
+                {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                <span className="ml-2">{t('common.search')}</span>
+              </Button>
+            </form>
+
+            <div className="flex flex-wrap items-center gap-3">
+              {isSuperAdmin && (
+                <Select value={companyId} onValueChange={setCompanyId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder={t('search.allCompanies')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>{t('search.allCompanies')}</SelectItem>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={String(company.id)}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder={t('search.allProjects')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>{t('search.allProjects')}</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={String(project.id)}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={componentCode}
+                onChange={(e) => setComponentCode(e.target.value.replace(/[^A-Za-z0-9]/g, ""))}
+                placeholder={t('search.componentPlaceholder')}
+                className="w-52"
+                maxLength={20}
+              />
+              <div className="flex flex-wrap gap-1">
+                {SOURCE_TYPES.map(({ value, icon: Icon }) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={sourceTypes.includes(value) ? "default" : "outline"}
+                    onClick={() => toggleSourceType(value)}
+                  >
+                    <Icon className="h-3.5 w-3.5 mr-1" />
+                    {t(`search.source.${value}`)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Card>
+            <CardContent className="py-6 text-destructive">{error.message}</CardContent>
+          </Card>
+        )}
+
+        {data && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              {data.results.length === 1 ? t('search.result') : t('search.results', { count: data.results.length })}
+              {data.mode === "semantic" ? (
+                <Badge variant="secondary">
+                  <Sparkles className="h-3 w-3 mr-1" />
+                  {t('search.semantic')}
+                </Badge>
+              ) : (
+                <Badge variant="outline">{t('search.keyword')}</Badge>
+              )}
+            </p>
+            {data.truncated && (
+              <p className="text-sm text-muted-foreground">{t('search.truncated')}</p>
+            )}
+
+            {data.results.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Search className="h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-lg font-medium mb-1">{t('search.noMatchesTitle')}</p>
+                  <p className="text-sm text-muted-foreground">{t('search.noMatchesDescription')}</p>
+                </CardContent>
+              </Card>
+            ) : (
+              data.results.map((result) => {
+                const source = SOURCE_TYPES.find((type) => type.value === result.sourceType);
+                const Icon = source?.icon ?? Search;
+                return (
+                  <Link key={`${result.sourceType}-${result.sourceId}`} href={result.url}>
+                    <Card className="hover:shadow-md transition-shadow cursor-pointer">
+                      <CardHeader className="pb-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <Icon className="h-4 w-4 text-muted-foreground" />
+                              {result.title}
+                            </CardTitle>
+                            <CardDescription>
+                              {[result.projectName, result.componentCode, result.sourceUpdatedAt?.slice(0, 10)].filter(Boolean).join(" · ")}
+                            </CardDescription>
+                          </div>
+                          <div className="flex gap-1 shrink-0">
+                            <Badge variant="outline">{source ? t(`search.source.${source.value}`) : result.sourceType}</Badge>
+                            {result.matchedBy.includes("semantic") && !result.matchedBy.includes("text") && (
+                              <Badge variant="secondary">{t('search.related')}</Badge>
+                            )}
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground">{result.snippet}</p>
+                      </CardContent>
+                    </Card>
+                  </Link>
+                );
+              })
+            )}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,368 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Building2, Eye, Loader2, Lock, XCircle } from "lucide-react";
+
+interface Summary {
+  totalAssets: number;
+  totalCurrentReplacementValue: number;
+  totalDeferredMaintenanceCost: number;
+  portfolioFCI: number;
+  portfolioFCIRating: string;
+  averageConditionRating: string;
+  totalDeficiencies: number;
+}
+
+interface AssetMetricRow {
+  assetId: number;
+  assetName: string;
+  address?: string;
+  yearBuilt?: number;
+  currentReplacementValue: number;
+  deferredMaintenanceCost: number;
+  fci: number;
+  fciRating: string;
+  conditionRating: string;
+}
+
+interface ForecastRow {
+  year: number;
+  immediateNeeds: number;
+  shortTermNeeds: number;
+  mediumTermNeeds: number;
+  longTermNeeds: number;
+  totalProjectedCost: number;
+}
+
+interface ComponentRow {
+  id: number;
+  uniformatCode: string;
+  componentName: string;
+  condition: string;
+  priority: string;
+  actionYear: number | null;
+  repairCost: number | null;
+  recommendations: string | null;
+}
+
+interface OverviewAsset {
+  id: number;
+  name: string;
+  address: string | null;
+  city: string | null;
+  yearBuilt: number | null;
+  primaryUse: string | null;
+  overallCondition: string | null;
+  fciScore: string | null;
+}
+
+interface SharedData {
+  resourceType: "project" | "asset_report" | "portfolio_report";
+  label: string | null;
+  expiresAt: string;
+  report?: {
+    project?: { name: string; address: string | null; clientName: string | null };
+    asset?: { name: string; address: string | null; yearBuilt: number | null; projectName: string | null };
+    summary: Summary;
+    assetMetrics: AssetMetricRow[];
+    capitalForecast: ForecastRow[];
+    components?: ComponentRow[];
+  };
+  overview?: {
+    project: { name: string; address: string | null; clientName: string | null; propertyType: string | null; yearBuilt: number | null };
+    assets: OverviewAsset[];
+    summary: Summary;
+  };
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-CA", { style: "currency", currency: "CAD", maximumFractionDigits: 0 }).format(value || 0);
+
+function SummaryCards({ summary }: { summary: Summary }) {
+  const items = [
+    { label: "Assets", value: String(summary.totalAssets) },
+    { label: "Replacement Value", value: formatCurrency(summary.totalCurrentReplacementValue) },
+    { label: "Deferred Maintenance", value: formatCurrency(summary.totalDeferredMaintenanceCost) },
+    { label: "FCI", value: `${Number(summary.portfolioFCI || 0).toFixed(1)}% (${summary.portfolioFCIRating})` },
+    { label: "Average Condition", value: summary.averageConditionRating },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+      {items.map((item) => (
+        <Card key={item.label}>
+          <CardHeader className="pb-2">
+            <CardDescription>{item.label}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold">{item.value}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+function ForecastTable({ forecast }: { forecast: ForecastRow[] }) {
+  if (forecast.length === 0) return null;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Capital Renewal Forecast</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead className="text-right">Immediate</TableHead>
+              <TableHead className="text-right">Short Term</TableHead>
+              <TableHead className="text-right">Medium Term</TableHead>
+              <TableHead className="text-right">Long Term</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {forecast.map((row) => (
+              <TableRow key={row.year}>
+                <TableCell>{row.year}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.immediateNeeds)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.shortTermNeeds)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.mediumTermNeeds)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.longTermNeeds)}</TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(row.totalProjectedCost)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function AssetMetricsTable({ rows }: { rows: AssetMetricRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Assets</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Asset</TableHead>
+              <TableHead>Year Built</TableHead>
+              <TableHead className="text-right">Replacement Value</TableHead>
+              <TableHead className="text-right">Deferred Maintenance</TableHead>
+              <TableHead>FCI</TableHead>
+              <TableHead>Condition</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.assetId}>
+                <TableCell>
+                  <div className="font-medium">{row.assetName}</div>
+                  {row.address && <div className="text-xs text-muted-foreground">{row.address}</div>}
+                </TableCell>
+                <TableCell>{row.yearBuilt ?? "—"}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.currentReplacementValue)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.deferredMaintenanceCost)}</TableCell>
+                <TableCell>{Number(row.fci || 0).toFixed(1)}% ({row.fciRating})</TableCell>
+                <TableCell>{row.conditionRating}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Read-only project, asset report or portfolio report behind an external share link
+ */
+export default function SharedView() {
+  const { token } = useParams<{ token: string }>();
+  const [passwordInput, setPasswordInput] = useState("");
+
+  // A mutation keeps the password out of the URL; each call counts as a view
+  const { mutate: view, data, isPending, isIdle, error } = trpc.sharing.viewExternalLink.useMutation();
+  const shared = data as SharedData | undefined;
+
+  useEffect(() => {
+    if (token) view({ token });
+  }, [token, view]);
+
+  if (isPending || (isIdle && token)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !shared) {
+    const needsPassword = error?.data?.code === "UNAUTHORIZED";
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {needsPassword ? <Lock className="h-5 w-5" /> : <XCircle className="h-5 w-5 text-destructive" />}
+              {needsPassword ? "Password Required" : "Link Unavailable"}
+            </CardTitle>
+            <CardDescription>{error?.message ?? "This share link is not valid"}</CardDescription>
+          </CardHeader>
+          {needsPassword && (
+            <CardContent>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  view({ token: token ?? "", password: passwordInput });
+                }}
+              >
+                <Input
+                  type="password"
+                  placeholder="Password"
+                  value={passwordInput}
+                  onChange={(e) => setPasswordInput(e.target.value)}
+                  autoFocus
+                />
+                <Button type="submit" disabled={!passwordInput}>View</Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  const title = shared.overview?.project.name
+    ?? shared.report?.asset?.name
+    ?? shared.report?.project?.name
+    ?? shared.label
+    ?? "Shared Report";
+  const subtitle = shared.overview?.project.address
+    ?? shared.report?.asset?.address
+    ?? shared.report?.project?.address;
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="container mx-auto py-8 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Building2 className="h-8 w-8" />
+              {title}
+            </h1>
+            {subtitle && <p className="text-muted-foreground mt-1">{subtitle}</p>}
+          </div>
+          <div className="text-right space-y-1">
+            <Badge variant="outline" className="gap-1">
+              <Eye className="h-3 w-3" />
+              Read-only view
+            </Badge>
+            <p className="text-xs text-muted-foreground">
+              Link expires {new Date(shared.expiresAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {shared.overview && (
+          <>
+            <SummaryCards summary={shared.overview.summary} />
+            <Card>
+              <CardHeader>
+                <CardTitle>Assets</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Primary Use</TableHead>
+                      <TableHead>Year Built</TableHead>
+                      <TableHead>Condition</TableHead>
+                      <TableHead>FCI</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shared.overview.assets.map((asset) => (
+                      <TableRow key={asset.id}>
+                        <TableCell>
+                          <div className="font-medium">{asset.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[asset.address, asset.city].filter(Boolean).join(", ")}
+                          </div>
+                        </TableCell>
+                        <TableCell>{asset.primaryUse ?? "—"}</TableCell>
+                        <TableCell>{asset.yearBuilt ?? "—"}</TableCell>
+                        <TableCell className="capitalize">{asset.overallCondition ?? "—"}</TableCell>
+                        <TableCell>
+                          {asset.fciScore ? `${(Number(asset.fciScore) * 100).toFixed(1)}%` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {shared.report && (
+          <>
+            <SummaryCards summary={shared.report.summary} />
+            {shared.resourceType === "portfolio_report" && <AssetMetricsTable rows={shared.report.assetMetrics} />}
+            {shared.report.components && shared.report.components.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Components</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Code</TableHead>
+                        <TableHead>Component</TableHead>
+                        <TableHead>Condition</TableHead>
+                        <TableHead>Priority</TableHead>
+                        <TableHead>Action Year</TableHead>
+                        <TableHead className="text-right">Repair Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {shared.report.components.map((component) => (
+                        <TableRow key={component.id}>
+                          <TableCell className="font-mono text-xs">{component.uniformatCode}</TableCell>
+                          <TableCell>
+                            <div>{component.componentName}</div>
+                            {component.recommendations && (
+                              <div className="text-xs text-muted-foreground">{component.recommendations}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{component.condition}</TableCell>
+                          <TableCell className="capitalize">{component.priority}</TableCell>
+                          <TableCell>{component.actionYear ?? "—"}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(component.repairCost ?? 0)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+            <ForecastTable forecast={shared.report.capitalForecast} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,10 +9,19 @@
  * - Inline photos with captions
  * - Actions list with priority and cost breakdown
  * - Proper data validation (no NaN, proper currency formatting)
+ * - English or French labels and boilerplate (config.language)
  */
 
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import {
+  DEFAULT_LANGUAGE,
+  formatLocalizedCurrency,
+  getConditionLabel as getLocalizedConditionLabel,
+  getPriorityLabel,
+  getTranslator,
+  type Language,
+} from '../../../shared/i18n';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -160,6 +169,9 @@ export interface ProfessionalReportConfig {
   
   // Footer
   footerText: string;
+
+  // Report language (defaults to English)
+  language?: Language;
 }
 
 export interface ProfessionalReportData {
@@ -187,27 +199,15 @@ function safeNumber(value: number | null | undefined, defaultValue: number = 0):
 /**
  * Format currency with proper validation
  */
-function formatCurrency(value: number | null | undefined): string {
-  const num = safeNumber(value, 0);
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(num);
+function formatCurrency(value: number | null | undefined, language: Language = DEFAULT_LANGUAGE): string {
+  return formatLocalizedCurrency(safeNumber(value, 0), language, 0);
 }
 
 /**
  * Format currency with decimals
  */
-function formatCurrencyDetailed(value: number | null | undefined): string {
-  const num = safeNumber(value, 0);
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  }).format(num);
+function formatCurrencyDetailed(value: number | null | undefined, language: Language = DEFAULT_LANGUAGE): string {
+  return formatLocalizedCurrency(safeNumber(value, 0), language, 2);
 }
 
 /**
@@ -232,12 +232,12 @@ function getConditionColor(percentage: number | null | undefined): [number, numb
 /**
  * Get condition label based on percentage
  */
-function getConditionLabel(percentage: number | null | undefined): string {
+function getConditionLabel(percentage: number | null | undefined, language: Language = DEFAULT_LANGUAGE): string {
   const pct = safeNumber(percentage, 0);
-  if (pct >= 75) return 'Good';
-  if (pct >= 50) return 'Fair';
-  if (pct >= 25) return 'Poor';
-  return 'Failed';
+  if (pct >= 75) return getLocalizedConditionLabel(language, 'good');
+  if (pct >= 50) return getLocalizedConditionLabel(language, 'fair');
+  if (pct >= 25) return getLocalizedConditionLabel(language, 'poor');
+  return getLocalizedConditionLabel(language, 'failed');
 }
 
 /**
@@ -304,7 +304,11 @@ export async function generateProfessionalPDF(
   data: ProfessionalReportData,
   onProgress?: (message: string, percentage: number) => void
 ): Promise<void> {
-  onProgress?.('Initializing PDF generator...', 5);
+  const language = config.language ?? DEFAULT_LANGUAGE;
+  const t = getTranslator(language);
+  const na = t('common.notAvailable');
+
+  onProgress?.(t('bca.progress.init'), 5);
   
   const doc = new jsPDF({
     orientation: 'portrait',
@@ -371,7 +375,7 @@ export async function generateProfessionalPDF(
       doc.text(config.propertyInfo.name, margin, pageHeight - 8);
       
       // Page number (right)
-      doc.text(`Page ${i} of ${totalPages}`, pageWidth - margin, pageHeight - 8, { align: 'right' });
+      doc.text(t('common.page', { page: i, total: totalPages }), pageWidth - margin, pageHeight - 8, { align: 'right' });
     }
   }
   
@@ -449,7 +453,7 @@ export async function generateProfessionalPDF(
   // COVER PAGE
   // ============================================
   
-  onProgress?.('Generating cover page...', 10);
+  onProgress?.(t('bca.progress.cover'), 10);
   
   // Company header
   doc.setFillColor(...colors.primary);
@@ -471,7 +475,7 @@ export async function generateProfessionalPDF(
   doc.setTextColor(...colors.primary);
   doc.setFontSize(28);
   doc.setFont('helvetica', 'bold');
-  doc.text('Building Condition Assessment - BCA', pageWidth / 2, 75, { align: 'center' });
+  doc.text(t('bca.title'), pageWidth / 2, 75, { align: 'center' });
   
   // Property photos placeholder (would be actual photos in production)
   doc.setFillColor(...colors.lightGray);
@@ -480,25 +484,25 @@ export async function generateProfessionalPDF(
   
   doc.setFontSize(10);
   doc.setTextColor(...colors.text);
-  doc.text('Property Photo 1', margin + contentWidth / 4 - 2.5, 120, { align: 'center' });
-  doc.text('Property Photo 2', margin + contentWidth * 3 / 4 + 2.5, 120, { align: 'center' });
+  doc.text(t('bca.propertyPhoto', { number: 1 }), margin + contentWidth / 4 - 2.5, 120, { align: 'center' });
+  doc.text(t('bca.propertyPhoto', { number: 2 }), margin + contentWidth * 3 / 4 + 2.5, 120, { align: 'center' });
   
   // Photo captions
   doc.setFontSize(9);
-  doc.text('Northwest View', margin + 5, 155);
-  doc.text('Southwest View', margin + contentWidth / 2 + 10, 155);
+  doc.text(t('bca.northwestView'), margin + 5, 155);
+  doc.text(t('bca.southwestView'), margin + contentWidth / 2 + 10, 155);
   
   // Property and client info
   let yPos = 170;
   doc.setFontSize(11);
   doc.setFont('helvetica', 'normal');
-  doc.text('Property:', margin, yPos);
+  doc.text(t('bca.property'), margin, yPos);
   doc.setFont('helvetica', 'bold');
   doc.text(config.propertyInfo.name, margin + 30, yPos);
   
   yPos += 10;
   doc.setFont('helvetica', 'normal');
-  doc.text('Client:', margin, yPos);
+  doc.text(t('bca.client'), margin, yPos);
   doc.setFont('helvetica', 'bold');
   doc.text(config.clientName, margin + 30, yPos);
   
@@ -508,14 +512,14 @@ export async function generateProfessionalPDF(
   doc.setFontSize(8);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(...colors.text);
-  doc.text('Client Logo', pageWidth - margin - 25, 182, { align: 'center' });
+  doc.text(t('bca.clientLogo'), pageWidth - margin - 25, 182, { align: 'center' });
   
   // Issue info
   yPos = 220;
   doc.setFontSize(10);
-  doc.text('Issued:', margin, yPos);
+  doc.text(t('bca.issued'), margin, yPos);
   doc.text(config.reportDate, margin + 30, yPos);
-  doc.text('Revision #' + config.revisionNumber, margin + 70, yPos);
+  doc.text(t('bca.revision', { number: config.revisionNumber }), margin + 70, yPos);
   
   // Status checkboxes
   yPos += 8;
@@ -524,7 +528,7 @@ export async function generateProfessionalPDF(
     doc.setFillColor(...colors.primary);
     doc.rect(margin + 100, yPos - 4, 4, 4, 'F');
   }
-  doc.text('Final for Client Distribution', margin + 108, yPos);
+  doc.text(t('bca.finalForClient'), margin + 108, yPos);
   
   yPos += 6;
   doc.rect(margin + 100, yPos - 4, 4, 4);
@@ -532,16 +536,16 @@ export async function generateProfessionalPDF(
     doc.setFillColor(...colors.primary);
     doc.rect(margin + 100, yPos - 4, 4, 4, 'F');
   }
-  doc.text('For Internal Review', margin + 108, yPos);
+  doc.text(t('bca.internalReview'), margin + 108, yPos);
   
-  tocEntries.push({ title: 'Cover Page', page: 1, level: 0 });
+  tocEntries.push({ title: t('bca.coverPage'), page: 1, level: 0 });
   
   // ============================================
   // TABLE OF CONTENTS
   // ============================================
   
   if (config.includeTableOfContents) {
-    onProgress?.('Generating table of contents...', 15);
+    onProgress?.(t('bca.progress.toc'), 15);
     
     doc.addPage();
     currentPage++;
@@ -551,7 +555,7 @@ export async function generateProfessionalPDF(
     doc.setFontSize(18);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(...colors.primary);
-    doc.text('1) Table Of Contents', margin, 45);
+    doc.text(t('bca.tocHeading'), margin, 45);
     
     // Yellow underline
     doc.setDrawColor(...colors.secondary);
@@ -563,9 +567,9 @@ export async function generateProfessionalPDF(
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(...colors.text);
-    doc.text('(Table of Contents will be generated after all sections)', margin, 60);
+    doc.text(t('bca.tocPending'), margin, 60);
     
-    tocEntries.push({ title: 'Table of Contents', page: currentPage, level: 1 });
+    tocEntries.push({ title: t('bca.toc'), page: currentPage, level: 1 });
   }
   
   // ============================================
@@ -573,41 +577,37 @@ export async function generateProfessionalPDF(
   // ============================================
   
   if (config.includeIntroduction) {
-    onProgress?.('Generating introduction...', 20);
+    onProgress?.(t('bca.progress.introduction'), 20);
     
     doc.addPage();
     currentPage++;
     addHeader();
     
-    yPos = addSectionTitle('2) Introduction');
+    yPos = addSectionTitle(t('bca.introduction'));
     
     // Scope Work and Objective
-    yPos = addSubsectionTitle('Scope Work and Objective');
+    yPos = addSubsectionTitle(t('bca.scopeTitle'));
     
-    const scopeText = `Commissioned by ${config.clientName}, B3NMA has carried out a Building Condition Assessment (BCA) for the ${config.propertyInfo.name}.
-
-This report provides an on-site visual review and assessment of the property's major systems, including the building envelope, mechanical & electrical systems (referred to in this report as "Services"), and exposed structural components and assemblies, with a focus on their current performance, durability, and remaining service life.
-
-The purpose of this report is to assist the Client in developing a clear understanding of the current condition of the property and to identify potential issues or maintenance requirements that may arise in the short, medium, and long term. This information is intended to support proactive planning, budgeting, and decision-making related to the repair, renewal, and overall management of the building's assets.`;
+    const scopeText = t('bca.scopeText', { client: config.clientName, property: config.propertyInfo.name });
     
     yPos = addParagraph(scopeText, yPos);
     
     // Property Information
     yPos += 5;
-    yPos = addSubsectionTitle('Property Information');
+    yPos = addSubsectionTitle(t('bca.propertyInformation'));
     
     const propInfo = config.propertyInfo;
     autoTable(doc, {
       startY: yPos,
       body: [
-        ['Property', `Name: ${propInfo.name}`],
-        ['Description:', `Address: ${propInfo.address}`],
-        ['', `Type of Construction: ${propInfo.typeOfConstruction}`],
-        ['', `Occupancy: ${propInfo.occupancy}`],
-        ['', `Number of Units / Buildings: ${propInfo.numberOfBuildings}`],
-        ['', `Height / Number of Storeys: ${propInfo.numberOfStoreys}`],
-        ['', `Year of Construction: ${propInfo.yearOfConstruction}`],
-        ['', `Applicable Building Code: ${propInfo.applicableBuildingCode}`],
+        [t('report.property'), t('bca.name', { value: propInfo.name })],
+        [t('bca.propertyDescription'), t('bca.address', { value: propInfo.address })],
+        ['', t('bca.typeOfConstruction', { value: propInfo.typeOfConstruction })],
+        ['', t('bca.occupancy', { value: propInfo.occupancy })],
+        ['', t('bca.numberOfBuildings', { value: propInfo.numberOfBuildings })],
+        ['', t('bca.numberOfStoreys', { value: propInfo.numberOfStoreys })],
+        ['', t('bca.yearOfConstruction', { value: propInfo.yearOfConstruction })],
+        ['', t('bca.buildingCode', { value: propInfo.applicableBuildingCode })],
       ],
       theme: 'plain',
       styles: {
@@ -627,30 +627,30 @@ The purpose of this report is to assist the Client in developing a clear underst
   // ============================================
   
   if (config.includeExecutiveSummary || config.includeDashboard) {
-    onProgress?.('Generating executive summary...', 30);
+    onProgress?.(t('bca.progress.summary'), 30);
     
     doc.addPage();
     currentPage++;
     addHeader();
     
-    yPos = addSectionTitle('Dashboard');
+    yPos = addSectionTitle(t('bca.dashboard'));
     
     const summary = data.executiveSummary;
     
     // Key metrics table
     autoTable(doc, {
       startY: yPos,
-      head: [['Metric', 'Value']],
+      head: [[t('bca.metric'), t('bca.value')]],
       body: [
-        ['Total Assets', safeNumber(summary.totalAssets).toString()],
-        ['Total Components', safeNumber(summary.totalComponents).toString()],
-        ['Total Current Replacement Value (CRV)', formatCurrency(summary.totalCRV)],
-        ['Total Deferred Maintenance', formatCurrency(summary.totalDeferredMaintenance)],
-        ['Portfolio Facility Condition Index (FCI)', formatPercentage(summary.portfolioFCI)],
-        ['Critical Items (0-5 years)', safeNumber(summary.criticalItems).toString()],
-        ['Necessary Items (6-10 years)', safeNumber(summary.necessaryItems).toString()],
-        ['Recommended Items (11-20 years)', safeNumber(summary.recommendedItems).toString()],
-        ['5-Year Capital Need', formatCurrency(summary.fiveYearCapitalNeed)],
+        [t('bca.totalAssets'), safeNumber(summary.totalAssets).toString()],
+        [t('bca.totalComponents'), safeNumber(summary.totalComponents).toString()],
+        [t('bca.totalCRV'), formatCurrency(summary.totalCRV, language)],
+        [t('bca.totalDeferredMaintenance'), formatCurrency(summary.totalDeferredMaintenance, language)],
+        [t('bca.portfolioFCI'), formatPercentage(summary.portfolioFCI)],
+        [t('bca.criticalItems'), safeNumber(summary.criticalItems).toString()],
+        [t('bca.necessaryItems'), safeNumber(summary.necessaryItems).toString()],
+        [t('bca.recommendedItems'), safeNumber(summary.recommendedItems).toString()],
+        [t('bca.fiveYearCapitalNeed'), formatCurrency(summary.fiveYearCapitalNeed, language)],
       ],
       theme: 'striped',
       headStyles: {
@@ -675,7 +675,7 @@ The purpose of this report is to assist the Client in developing a clear underst
   // ============================================
   
   if (config.includeComponentAssessments && data.components.length > 0) {
-    onProgress?.('Generating component assessments...', 40);
+    onProgress?.(t('bca.progress.components'), 40);
     
     // Group components by UNIFORMAT Level 1
     const uniformatGroups: { [key: string]: ComponentAssessment[] } = {};
@@ -695,7 +695,7 @@ The purpose of this report is to assist the Client in developing a clear underst
     
     for (const groupCode of sortedGroups) {
       const components = uniformatGroups[groupCode];
-      const groupName = components[0]?.uniformatGroupName || 'Unknown';
+      const groupName = components[0]?.uniformatGroupName || t('bca.unknownGroup');
       
       doc.addPage();
       currentPage++;
@@ -709,7 +709,7 @@ The purpose of this report is to assist the Client in developing a clear underst
       for (let i = 0; i < components.length; i++) {
         const component = components[i];
         const progress = 40 + (i / components.length) * 40;
-        onProgress?.(`Processing component ${i + 1} of ${components.length}...`, progress);
+        onProgress?.(t('bca.progress.component', { current: i + 1, total: components.length }), progress);
         
         // Check if we need a new page
         if (yPos > pageHeight - 100) {
@@ -746,13 +746,16 @@ The purpose of this report is to assist the Client in developing a clear underst
         }
         
         // Condition summary table
-        const conditionLabel = `${getConditionLabel(component.conditionPercentage)} – ${safeNumber(component.conditionPercentage)}% of ESL`;
+        const conditionLabel = t('bca.conditionOfEsl', {
+          label: getConditionLabel(component.conditionPercentage, language),
+          percentage: safeNumber(component.conditionPercentage),
+        });
         
         autoTable(doc, {
           startY: yPos,
           body: [
-            ['Condition:', conditionLabel, 'Estimated Service Life:', `${safeNumber(component.estimatedServiceLife)} years`],
-            ['Review Year:', safeNumber(component.reviewYear, new Date().getFullYear()).toString(), 'Last Time Action:', component.lastTimeAction?.toString() || 'N/A'],
+            [t('bca.conditionLabel'), conditionLabel, t('bca.estimatedServiceLife'), t('common.years', { count: safeNumber(component.estimatedServiceLife) })],
+            [t('bca.reviewYear'), safeNumber(component.reviewYear, new Date().getFullYear()).toString(), t('bca.lastTimeAction'), component.lastTimeAction?.toString() || na],
           ],
           theme: 'plain',
           styles: {
@@ -792,7 +795,7 @@ The purpose of this report is to assist the Client in developing a clear underst
             if (deficiency.actionDescription) {
               doc.setFontSize(9);
               doc.setFont('helvetica', 'bold');
-              doc.text('Action Description', margin, yPos);
+              doc.text(t('bca.actionDescription'), margin, yPos);
               yPos += 5;
               
               doc.setFont('helvetica', 'normal');
@@ -807,21 +810,21 @@ The purpose of this report is to assist the Client in developing a clear underst
             // Priority, Action Year, Cost
             doc.setFontSize(9);
             doc.setFont('helvetica', 'bold');
-            doc.text('Priority', margin, yPos);
-            doc.text('Action Year', margin + 50, yPos);
+            doc.text(t('bca.priority'), margin, yPos);
+            doc.text(t('bca.actionYear'), margin + 50, yPos);
             yPos += 5;
             
             doc.setFont('helvetica', 'normal');
-            doc.text(deficiency.priority || 'N/A', margin, yPos);
-            doc.text(deficiency.actionYear?.toString() || 'N/A', margin + 50, yPos);
+            doc.text(getPriorityLabel(language, deficiency.priority), margin, yPos);
+            doc.text(deficiency.actionYear?.toString() || na, margin + 50, yPos);
             yPos += 6;
             
             if (config.includeCostFields) {
               doc.setFont('helvetica', 'bold');
-              doc.text('Current Cost', margin, yPos);
+              doc.text(t('bca.currentCost'), margin, yPos);
               yPos += 5;
               doc.setFont('helvetica', 'normal');
-              doc.text(formatCurrencyDetailed(deficiency.currentCost), margin, yPos);
+              doc.text(formatCurrencyDetailed(deficiency.currentCost, language), margin, yPos);
               yPos += 8;
             }
             
@@ -841,13 +844,13 @@ The purpose of this report is to assist the Client in developing a clear underst
   // ============================================
   
   if (config.includeActionsList && data.actionsList.length > 0) {
-    onProgress?.('Generating actions list...', 85);
+    onProgress?.(t('bca.progress.actions'), 85);
     
     doc.addPage();
     currentPage++;
     addHeader();
     
-    yPos = addSectionTitle('Actions List');
+    yPos = addSectionTitle(t('bca.actionsList'));
     
     // Filter actions by capital planning horizon
     const filteredActions = data.actionsList.filter(action => {
@@ -861,14 +864,14 @@ The purpose of this report is to assist the Client in developing a clear underst
       action.uniformatCode,
       action.componentName.substring(0, 25),
       action.actionType,
-      action.priority,
-      action.actionYear?.toString() || 'N/A',
-      formatCurrency(action.currentCost)
+      getPriorityLabel(language, action.priority),
+      action.actionYear?.toString() || na,
+      formatCurrency(action.currentCost, language)
     ]);
     
     autoTable(doc, {
       startY: yPos,
-      head: [['#', 'Code', 'Component', 'Action', 'Priority', 'Year', 'Cost']],
+      head: [['#', t('bca.code'), t('bca.component'), t('bca.action'), t('bca.priority'), t('bca.year'), t('bca.cost')]],
       body: actionsTableData,
       theme: 'striped',
       headStyles: {
@@ -895,7 +898,7 @@ The purpose of this report is to assist the Client in developing a clear underst
       }
     });
     
-    tocEntries.push({ title: 'Actions List', page: currentPage, level: 1 });
+    tocEntries.push({ title: t('bca.actionsList'), page: currentPage, level: 1 });
   }
   
   // ============================================
@@ -903,44 +906,43 @@ The purpose of this report is to assist the Client in developing a clear underst
   // ============================================
   
   if (config.includeClosingRemarks) {
-    onProgress?.('Generating closing remarks...', 95);
+    onProgress?.(t('bca.progress.closing'), 95);
     
     doc.addPage();
     currentPage++;
     addHeader();
     
-    yPos = addSectionTitle('Closing Remarks');
+    yPos = addSectionTitle(t('bca.closingRemarks'));
     
-    const closingText = `This Building Condition Assessment report has been prepared to provide ${config.clientName} with a comprehensive overview of the current condition of ${config.propertyInfo.name}.
-
-The findings and recommendations contained in this report are based on visual observations made during the site assessment and should be used as a guide for planning and budgeting purposes. Actual costs may vary based on market conditions, scope refinement, and detailed engineering assessments.
-
-We recommend that the client review this report with their facilities management team and prioritize actions based on available budget and operational requirements.
-
-For questions or clarification regarding this report, please contact B3NMA at ${config.companyEmail || 'info@b3nma.com'} or ${config.companyPhone || ''}.`;
+    const closingText = t('bca.closingText', {
+      client: config.clientName,
+      property: config.propertyInfo.name,
+      email: config.companyEmail || 'info@b3nma.com',
+      phone: config.companyPhone || '',
+    });
     
     yPos = addParagraph(closingText, yPos);
     
-    tocEntries.push({ title: 'Closing Remarks', page: currentPage, level: 1 });
+    tocEntries.push({ title: t('bca.closingRemarks'), page: currentPage, level: 1 });
   }
   
   // ============================================
   // ADD FOOTERS TO ALL PAGES
   // ============================================
   
-  onProgress?.('Adding footers...', 98);
+  onProgress?.(t('bca.progress.footers'), 98);
   addFooter();
   
   // ============================================
   // SAVE PDF
   // ============================================
   
-  onProgress?.('Saving PDF...', 99);
+  onProgress?.(t('bca.progress.saving'), 99);
   
-  const fileName = `BCA_Report_${config.propertyInfo.name.replace(/[^a-zA-Z0-9]/g, '_')}_${config.reportDate.replace(/\//g, '-')}.pdf`;
+  const fileName = `${t('bca.fileName')}_${config.propertyInfo.name.replace(/[^a-zA-Z0-9]/g, '_')}_${config.reportDate.replace(/\//g, '-')}.pdf`;
   doc.save(fileName);
   
-  onProgress?.('Complete!', 100);
+  onProgress?.(t('bca.progress.complete'), 100);
 }
 
 /**
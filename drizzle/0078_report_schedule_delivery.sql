@@ -0,0 +1,34 @@
+CREATE TABLE `report_schedule_runs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`scheduleId` int NOT NULL,
+	`trigger` enum('schedule','manual','retry') NOT NULL DEFAULT 'schedule',
+	`attempt` int NOT NULL DEFAULT 1,
+	`retryOfRunId` int,
+	`status` enum('running','success','failed','retry_pending') NOT NULL DEFAULT 'running',
+	`startedAt` timestamp NOT NULL DEFAULT (now()),
+	`completedAt` timestamp,
+	`durationMs` int,
+	`fileName` varchar(255),
+	`fileUrl` varchar(500),
+	`fileSize` int,
+	`recipientCount` int NOT NULL DEFAULT 0,
+	`deliveredCount` int NOT NULL DEFAULT 0,
+	`nextRetryAt` timestamp,
+	`errorMessage` text,
+	CONSTRAINT `report_schedule_runs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `companyId` int;--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `createdBy` int;--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `reportType` enum('custom_report','portfolio_report') NOT NULL DEFAULT 'custom_report';--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `templateId` int;--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `format` enum('pdf','excel','word','html') NOT NULL DEFAULT 'pdf';--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `options` json;--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `cronExpression` varchar(100);--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `timezone` varchar(100) NOT NULL DEFAULT 'America/Toronto';--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `maxRetries` int NOT NULL DEFAULT 3;--> statement-breakpoint
+ALTER TABLE `report_schedules` ADD `lastRunStatus` enum('success','failed');--> statement-breakpoint
+CREATE INDEX `idx_report_schedule_company` ON `report_schedules` (`companyId`);--> statement-breakpoint
+CREATE INDEX `idx_report_schedule_due` ON `report_schedules` (`active`,`nextRun`);--> statement-breakpoint
+CREATE INDEX `idx_schedule_runs` ON `report_schedule_runs` (`scheduleId`,`startedAt`);--> statement-breakpoint
+CREATE INDEX `idx_schedule_run_retry` ON `report_schedule_runs` (`status`,`nextRetryAt`);
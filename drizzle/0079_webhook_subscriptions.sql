@@ -0,0 +1,45 @@
+CREATE TABLE `webhook_subscriptions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`description` text,
+	`url` varchar(1000) NOT NULL,
+	`secret` varchar(128) NOT NULL,
+	`events` json NOT NULL,
+	`isActive` int NOT NULL DEFAULT 1,
+	`consecutiveFailures` int NOT NULL DEFAULT 0,
+	`lastDeliveryAt` timestamp,
+	`lastDeliveryStatus` enum('delivered','failed'),
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `webhook_subscriptions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `webhook_delivery_log` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`subscriptionId` int NOT NULL,
+	`companyId` int NOT NULL,
+	`eventId` varchar(64) NOT NULL,
+	`eventType` varchar(100) NOT NULL,
+	`payload` text NOT NULL,
+	`status` enum('pending','delivered','retrying','failed') NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 6,
+	`nextAttemptAt` timestamp,
+	`responseStatus` int,
+	`responseBody` text,
+	`failureReason` text,
+	`durationMs` int,
+	`replayOfDeliveryId` int,
+	`replayedBy` int,
+	`deliveredAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `webhook_delivery_log_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_webhook_company` ON `webhook_subscriptions` (`companyId`,`isActive`);--> statement-breakpoint
+CREATE INDEX `idx_webhook_delivery_subscription` ON `webhook_delivery_log` (`subscriptionId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `idx_webhook_delivery_company` ON `webhook_delivery_log` (`companyId`,`status`);--> statement-breakpoint
+CREATE INDEX `idx_webhook_delivery_retry` ON `webhook_delivery_log` (`status`,`nextAttemptAt`);--> statement-breakpoint
+CREATE INDEX `idx_webhook_delivery_event` ON `webhook_delivery_log` (`eventId`);
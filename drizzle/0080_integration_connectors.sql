@@ -0,0 +1,8 @@
+ALTER TABLE `integration_runs` ADD `recordsCreated` int DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `integration_runs` ADD `recordsUpdated` int DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `integration_runs` ADD `companyId` int;--> statement-breakpoint
+ALTER TABLE `integration_runs` ADD `inputKind` enum('file','drop','endpoint');--> statement-breakpoint
+ALTER TABLE `integration_runs` ADD `inputSource` varchar(500);--> statement-breakpoint
+ALTER TABLE `assessments` ADD `externalId` varchar(100);--> statement-breakpoint
+CREATE INDEX `idx_integration_runs_source` ON `integration_runs` (`companyId`,`source`,`status`);--> statement-breakpoint
+CREATE INDEX `idx_assessments_external` ON `assessments` (`assetId`,`externalId`);
@@ -0,0 +1,14 @@
+ALTER TABLE `floor_plans` ADD `assetId` int;--> statement-breakpoint
+ALTER TABLE `floor_plans` ADD `fileKey` varchar(500);--> statement-breakpoint
+ALTER TABLE `floor_plans` ADD `mimeType` varchar(100);--> statement-breakpoint
+ALTER TABLE `floor_plans` ADD `sortOrder` int DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `floor_plans` ADD `uploadedBy` int;--> statement-breakpoint
+ALTER TABLE `deficiencies` ADD `floorPlanId` int;--> statement-breakpoint
+ALTER TABLE `deficiencies` ADD `floorPlanX` decimal(10,4);--> statement-breakpoint
+ALTER TABLE `deficiencies` ADD `floorPlanY` decimal(10,4);--> statement-breakpoint
+ALTER TABLE `assessments` ADD `floorPlanId` int;--> statement-breakpoint
+ALTER TABLE `assessments` ADD `floorPlanX` decimal(10,4);--> statement-breakpoint
+ALTER TABLE `assessments` ADD `floorPlanY` decimal(10,4);--> statement-breakpoint
+ALTER TABLE `deficiencies` ADD CONSTRAINT `deficiencies_floorPlanId_floor_plans_id_fk` FOREIGN KEY (`floorPlanId`) REFERENCES `floor_plans`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `assessments` ADD CONSTRAINT `assessments_floorPlanId_floor_plans_id_fk` FOREIGN KEY (`floorPlanId`) REFERENCES `floor_plans`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_floor_plans_project` ON `floor_plans` (`projectId`,`sectionId`);
@@ -0,0 +1,23 @@
+CREATE TABLE `capital_plan_simulations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`cycleId` int NOT NULL,
+	`name` varchar(255),
+	`status` enum('running','completed','failed') NOT NULL DEFAULT 'running',
+	`iterations` int NOT NULL,
+	`seed` int NOT NULL,
+	`parameters` text NOT NULL,
+	`results` text,
+	`p10Backlog` decimal(15,2),
+	`p50Backlog` decimal(15,2),
+	`p90Backlog` decimal(15,2),
+	`p50Fci` decimal(8,4),
+	`probabilityUnfundedCritical` decimal(5,4),
+	`errorMessage` text,
+	`durationMs` int,
+	`createdBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`completedAt` timestamp,
+	CONSTRAINT `capital_plan_simulations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_capital_plan_simulations_cycle` ON `capital_plan_simulations` (`cycleId`,`createdAt`);
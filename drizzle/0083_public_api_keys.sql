@@ -0,0 +1,22 @@
+CREATE TABLE `api_keys` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`keyPrefix` varchar(16) NOT NULL,
+	`keyHash` varchar(64) NOT NULL,
+	`role` enum('company_admin','project_manager','editor','viewer') NOT NULL DEFAULT 'viewer',
+	`scopes` json,
+	`rateLimitPerMinute` int NOT NULL DEFAULT 60,
+	`expiresAt` timestamp,
+	`lastUsedAt` timestamp,
+	`lastUsedIp` varchar(45),
+	`revokedAt` timestamp,
+	`revokedBy` int,
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `api_keys_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_api_keys_prefix` ON `api_keys` (`keyPrefix`);--> statement-breakpoint
+CREATE INDEX `idx_api_keys_company` ON `api_keys` (`companyId`);--> statement-breakpoint
+ALTER TABLE `audit_logs` MODIFY COLUMN `actionType` enum('create','update','delete','recalculate','import','export','bulk_delete','bulk_update','api_access') NOT NULL;
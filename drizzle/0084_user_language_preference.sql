@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `languagePreference` enum('en','fr') DEFAULT 'en' NOT NULL;
@@ -0,0 +1 @@
+ALTER TABLE `assessments` ADD `version` int DEFAULT 1 NOT NULL;
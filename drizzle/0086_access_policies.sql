@@ -0,0 +1,18 @@
+CREATE TABLE `access_policies` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`description` text,
+	`effect` enum('allow','deny') NOT NULL DEFAULT 'allow',
+	`actions` json NOT NULL,
+	`subjectRoles` json,
+	`subjectUserIds` json,
+	`conditions` json,
+	`isActive` int NOT NULL DEFAULT 1,
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `access_policies_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_access_policies_company` ON `access_policies` (`companyId`,`isActive`);
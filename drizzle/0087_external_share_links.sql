@@ -0,0 +1,23 @@
+CREATE TABLE `external_share_links` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int,
+	`projectId` int NOT NULL,
+	`assetId` int,
+	`resourceType` enum('project','asset_report','portfolio_report') NOT NULL,
+	`label` varchar(255),
+	`tokenPrefix` varchar(16) NOT NULL,
+	`tokenHash` varchar(64) NOT NULL,
+	`passwordHash` varchar(255),
+	`expiresAt` timestamp NOT NULL,
+	`viewCount` int NOT NULL DEFAULT 0,
+	`lastViewedAt` timestamp,
+	`revokedAt` timestamp,
+	`revokedBy` int,
+	`createdBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `external_share_links_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_external_share_prefix` ON `external_share_links` (`tokenPrefix`);--> statement-breakpoint
+CREATE INDEX `idx_external_share_project` ON `external_share_links` (`projectId`);--> statement-breakpoint
+ALTER TABLE `audit_logs` MODIFY COLUMN `actionType` enum('create','update','delete','recalculate','import','export','bulk_delete','bulk_update','api_access','share_view') NOT NULL;
@@ -0,0 +1,40 @@
+CREATE TABLE `scim_tokens` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`tokenPrefix` varchar(16) NOT NULL,
+	`tokenHash` varchar(64) NOT NULL,
+	`lastUsedAt` timestamp,
+	`lastUsedIp` varchar(45),
+	`revokedAt` timestamp,
+	`revokedBy` int,
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `scim_tokens_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `scim_groups` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int NOT NULL,
+	`displayName` varchar(255) NOT NULL,
+	`externalId` varchar(255),
+	`companyRole` enum('company_admin','project_manager','editor','viewer') NOT NULL DEFAULT 'viewer',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `scim_groups_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `scim_group_members` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`groupId` int NOT NULL,
+	`userId` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `scim_group_members_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `company_users` ADD `scimExternalId` varchar(255);--> statement-breakpoint
+CREATE INDEX `idx_scim_tokens_prefix` ON `scim_tokens` (`tokenPrefix`);--> statement-breakpoint
+CREATE INDEX `idx_scim_tokens_company` ON `scim_tokens` (`companyId`);--> statement-breakpoint
+CREATE INDEX `idx_scim_groups_company` ON `scim_groups` (`companyId`);--> statement-breakpoint
+CREATE INDEX `idx_scim_group_members_group` ON `scim_group_members` (`groupId`);--> statement-breakpoint
+CREATE INDEX `idx_scim_group_members_user` ON `scim_group_members` (`userId`);
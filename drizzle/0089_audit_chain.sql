@@ -0,0 +1,27 @@
+CREATE TABLE `audit_chain_links` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int,
+	`sequence` int NOT NULL,
+	`sourceTable` enum('audit_logs','audit_log','mfa_audit_log','criteria_audit_log','scoring_audit_log','data_disposal_requests') NOT NULL,
+	`sourceId` int NOT NULL,
+	`contentHash` varchar(64) NOT NULL,
+	`prevHash` varchar(64) NOT NULL,
+	`entryHash` varchar(64) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audit_chain_links_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `audit_chain_checkpoints` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`companyId` int,
+	`sequence` int NOT NULL,
+	`entryHash` varchar(64) NOT NULL,
+	`signature` varchar(64) NOT NULL,
+	`keyId` varchar(16) NOT NULL,
+	`createdAt` timestamp NOT NULL,
+	CONSTRAINT `audit_chain_checkpoints_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_audit_chain_source` ON `audit_chain_links` (`sourceTable`,`sourceId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_audit_chain_sequence` ON `audit_chain_links` (`companyId`,`sequence`);--> statement-breakpoint
+CREATE INDEX `idx_audit_checkpoint_company` ON `audit_chain_checkpoints` (`companyId`,`sequence`);
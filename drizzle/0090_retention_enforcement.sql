@@ -0,0 +1,23 @@
+ALTER TABLE `data_retention_policies` ADD `companyId` int;--> statement-breakpoint
+ALTER TABLE `data_retention_policies` ADD `retentionPeriodDays` int;--> statement-breakpoint
+ALTER TABLE `data_disposal_requests` MODIFY COLUMN `requestType` enum('project','user_data','audit_logs','backups','full_account','retention_policy') NOT NULL;--> statement-breakpoint
+ALTER TABLE `data_disposal_requests` ADD `companyId` int;--> statement-breakpoint
+ALTER TABLE `data_disposal_requests` ADD `certificate` json;--> statement-breakpoint
+ALTER TABLE `projects` ADD `legalHold` tinyint DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `projects` ADD `legalHoldReason` text;--> statement-breakpoint
+ALTER TABLE `projects` ADD `legalHoldBy` int;--> statement-breakpoint
+ALTER TABLE `projects` ADD `legalHoldAt` timestamp;--> statement-breakpoint
+ALTER TABLE `cleanup_reports` ADD `retentionSummary` json;--> statement-breakpoint
+CREATE TABLE `voice_recordings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`companyId` int,
+	`fileKey` varchar(500) NOT NULL,
+	`url` text NOT NULL,
+	`mimeType` varchar(100),
+	`fileSize` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `voice_recordings_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_voice_recordings_company` ON `voice_recordings` (`companyId`,`createdAt`);
@@ -0,0 +1,18 @@
+ALTER TABLE `building_sections` ADD `ifcGlobalId` varchar(22);--> statement-breakpoint
+CREATE TABLE `ifc_element_links` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`modelId` int NOT NULL,
+	`assessmentId` int NOT NULL,
+	`globalId` varchar(22) NOT NULL,
+	`ifcType` varchar(64) NOT NULL,
+	`name` varchar(255),
+	`storeyGlobalId` varchar(22),
+	`createdBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ifc_element_links_id` PRIMARY KEY(`id`),
+	CONSTRAINT `idx_ifc_element_model_global` UNIQUE(`modelId`,`globalId`)
+);
+--> statement-breakpoint
+ALTER TABLE `ifc_element_links` ADD CONSTRAINT `ifc_element_links_modelId_facility_models_id_fk` FOREIGN KEY (`modelId`) REFERENCES `facility_models`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `ifc_element_links` ADD CONSTRAINT `ifc_element_links_assessmentId_assessments_id_fk` FOREIGN KEY (`assessmentId`) REFERENCES `assessments`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_ifc_element_assessment` ON `ifc_element_links` (`assessmentId`);
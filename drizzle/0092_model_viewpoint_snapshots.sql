@@ -0,0 +1,7 @@
+ALTER TABLE `model_viewpoints` ADD `snapshotUrl` varchar(500);--> statement-breakpoint
+ALTER TABLE `model_viewpoints` ADD `snapshotKey` varchar(500);--> statement-breakpoint
+ALTER TABLE `model_viewpoints` ADD `snapshotWidth` int;--> statement-breakpoint
+ALTER TABLE `model_viewpoints` ADD `snapshotHeight` int;--> statement-breakpoint
+ALTER TABLE `model_viewpoints` ADD `snapshotAnnotationIds` json;--> statement-breakpoint
+ALTER TABLE `model_viewpoints` ADD `reportAssetId` int;--> statement-breakpoint
+ALTER TABLE `model_viewpoints` ADD CONSTRAINT `model_viewpoints_reportAssetId_assets_id_fk` FOREIGN KEY (`reportAssetId`) REFERENCES `assets`(`id`) ON DELETE set null ON UPDATE no action;
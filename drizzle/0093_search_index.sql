@@ -0,0 +1,36 @@
+ALTER TABLE `project_documents` ADD `extractedText` mediumtext;--> statement-breakpoint
+ALTER TABLE `voice_recordings` ADD `projectId` int;--> statement-breakpoint
+ALTER TABLE `voice_recordings` ADD `transcript` text;--> statement-breakpoint
+ALTER TABLE `voice_recordings` ADD `transcribedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `voice_recordings` ADD CONSTRAINT `voice_recordings_projectId_projects_id_fk` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_voice_recordings_transcribed` ON `voice_recordings` (`transcribedAt`);--> statement-breakpoint
+CREATE TABLE `search_index_entries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sourceType` enum('assessment','deficiency','photo','project_document','voice_transcript') NOT NULL,
+	`sourceId` int NOT NULL,
+	`chunkIndex` int NOT NULL DEFAULT 0,
+	`projectId` int NOT NULL,
+	`assetId` int,
+	`componentCode` varchar(20),
+	`title` varchar(255) NOT NULL,
+	`content` text NOT NULL,
+	`contentHash` varchar(64) NOT NULL,
+	`embedding` mediumtext,
+	`embeddingModel` varchar(100),
+	`sourceUpdatedAt` timestamp,
+	`indexedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `search_index_entries_id` PRIMARY KEY(`id`),
+	CONSTRAINT `idx_search_index_source` UNIQUE(`sourceType`,`sourceId`,`chunkIndex`)
+);
+--> statement-breakpoint
+CREATE TABLE `search_index_state` (
+	`sourceType` varchar(32) NOT NULL,
+	`cursorAt` timestamp,
+	`cursorId` int NOT NULL DEFAULT 0,
+	`lastRunAt` timestamp,
+	CONSTRAINT `search_index_state_sourceType` PRIMARY KEY(`sourceType`)
+);
+--> statement-breakpoint
+ALTER TABLE `search_index_entries` ADD CONSTRAINT `search_index_entries_projectId_projects_id_fk` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_search_index_project` ON `search_index_entries` (`projectId`,`sourceType`);--> statement-breakpoint
+CREATE INDEX `idx_search_index_component` ON `search_index_entries` (`componentCode`);
@@ -1,4 +1,4 @@
-import { mysqlTable, mysqlSchema, AnyMySqlColumn, int, varchar, text, mysqlEnum, timestamp, index, foreignKey, decimal, date, json, tinyint } from "drizzle-orm/mysql-core"
+import { mysqlTable, mysqlSchema, AnyMySqlColumn, int, varchar, text, mediumtext, mysqlEnum, timestamp, index, uniqueIndex, foreignKey, decimal, date, json, tinyint } from "drizzle-orm/mysql-core"
 import { sql } from "drizzle-orm"
 
 export const accessRequests = mysqlTable("access_requests", {
@@ -77,6 +77,7 @@ export const companyUsers = mysqlTable("company_users", {
 	invitedAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
 	acceptedAt: timestamp({ mode: 'string' }),
 	status: mysqlEnum(['active', 'inactive', 'pending']).default('active').notNull(),
+	scimExternalId: varchar({ length: 255 }), // Identity provider's id for members provisioned over SCIM
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
 	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
 },
@@ -218,7 +219,15 @@ export const assessments = mysqlTable("assessments", {
 	deletedAt: timestamp({ mode: 'string' }),
 	deletedBy: int(),
 	hidden: int().default(0).notNull(),
-});
+	externalId: varchar({ length: 100 }), // Source-system key for assessments loaded by integration connectors
+	floorPlanId: int().references(() => floorPlans.id, { onDelete: "set null" } ),
+	floorPlanX: decimal({ precision: 10, scale: 4 }),
+	floorPlanY: decimal({ precision: 10, scale: 4 }),
+	version: int().default(1).notNull(), // Bumped on every write; offline edits carry the version they started from
+},
+(table) => [
+	index("idx_assessments_external").on(table.assetId, table.externalId),
+]);
 
 // Assessment recommended actions (multiple actions per assessment)
 export const assessmentActions = mysqlTable("assessment_actions", {
@@ -418,6 +427,7 @@ export const buildingSections = mysqlTable("building_sections", {
 	numberOfStories: int(),
 	constructionType: varchar({ length: 100 }),
 	notes: text(),
+	ifcGlobalId: varchar({ length: 22 }), // IfcBuildingStorey the section was created from
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
 	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
 },
@@ -676,7 +686,7 @@ export const dataAccessRequests = mysqlTable("data_access_requests", {
 
 export const dataDisposalRequests = mysqlTable("data_disposal_requests", {
 	id: int().autoincrement().notNull(),
-	requestType: mysqlEnum(['project','user_data','audit_logs','backups','full_account']).notNull(),
+	requestType: mysqlEnum(['project','user_data','audit_logs','backups','full_account','retention_policy']).notNull(),
 	targetId: int(),
 	targetType: varchar({ length: 100 }),
 	requestedBy: int().notNull(),
@@ -691,6 +701,8 @@ export const dataDisposalRequests = mysqlTable("data_disposal_requests", {
 	approvedAt: timestamp({ mode: 'string' }),
 	completedAt: timestamp({ mode: 'string' }),
 	notes: text(),
+	companyId: int(),
+	certificate: json(), // Certificate of disposal for retention policy runs; verificationHash is its SHA-256
 });
 
 export const dataResidencySettings = mysqlTable("data_residency_settings", {
@@ -716,6 +728,8 @@ export const dataRetentionPolicies = mysqlTable("data_retention_policies", {
 	createdBy: int().notNull(),
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
 	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
+	companyId: int(), // Null applies to every company without its own policy for the data type
+	retentionPeriodDays: int(), // Overrides retentionPeriodYears for short-lived data such as deleted items
 });
 
 export const databaseBackups = mysqlTable("database_backups", {
@@ -780,6 +794,9 @@ export const deficiencies = mysqlTable("deficiencies", {
 	status: mysqlEnum(['open','in_progress','resolved','deferred']).default('open').notNull(),
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
 	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
+	floorPlanId: int().references(() => floorPlans.id, { onDelete: "set null" } ),
+	floorPlanX: decimal({ precision: 10, scale: 4 }),
+	floorPlanY: decimal({ precision: 10, scale: 4 }),
 });
 
 export const deficiencyVersions = mysqlTable("deficiency_versions", {
@@ -1072,16 +1089,24 @@ export const floorPlans = mysqlTable("floor_plans", {
 	id: int().autoincrement().notNull(),
 	projectId: int().notNull().references(() => projects.id, { onDelete: "cascade" } ),
 	sectionId: int().references(() => buildingSections.id, { onDelete: "set null" } ),
+	assetId: int(), // Optional: include this plan in the asset's report even before anything is pinned
 	name: varchar({ length: 255 }).notNull(),
 	description: text(),
 	floorLevel: varchar({ length: 50 }),
 	imageUrl: text().notNull(),
+	fileKey: varchar({ length: 500 }),
+	mimeType: varchar({ length: 100 }),
+	sortOrder: int().default(0),
+	uploadedBy: int(),
 	imageWidth: int(),
 	imageHeight: int(),
 	scale: decimal({ precision: 10, scale: 4 }),
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP'),
 	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow(),
-});
+},
+(table) => [
+	index("idx_floor_plans_project").on(table.projectId, table.sectionId),
+]);
 
 export const greenUpgrades = mysqlTable("green_upgrades", {
 	id: int().autoincrement().notNull(),
@@ -1124,11 +1149,19 @@ export const integrationRuns = mysqlTable("integration_runs", {
 	recordsTransformed: int().default(0),
 	recordsLoaded: int().default(0),
 	recordsFailed: int().default(0),
+	recordsCreated: int().default(0),
+	recordsUpdated: int().default(0),
 	errorMessage: text(),
-	errorDetails: text(),
+	errorDetails: text(), // JSON array of failed rows: { row, recordType, externalId, stage, message }
+	companyId: int(),
+	inputKind: mysqlEnum(['file','drop','endpoint']),
+	inputSource: varchar({ length: 500 }), // File name(s) or endpoint URL
 	triggeredBy: int(),
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
-});
+},
+(table) => [
+	index("idx_integration_runs_source").on(table.companyId, table.source, table.status),
+]);
 
 export const kpiSnapshots = mysqlTable("kpi_snapshots", {
 	id: int().autoincrement().notNull(),
@@ -1284,6 +1317,13 @@ export const modelViewpoints = mysqlTable("model_viewpoints", {
 	cameraZoom: decimal({ precision: 10, scale: 6 }),
 	visibleLayers: json(),
 	isShared: tinyint().default(0).notNull(),
+	// Annotated snapshot exported from the glTF viewer; annotation ids are in legend order
+	snapshotUrl: varchar({ length: 500 }),
+	snapshotKey: varchar({ length: 500 }),
+	snapshotWidth: int(),
+	snapshotHeight: int(),
+	snapshotAnnotationIds: json(),
+	reportAssetId: int().references(() => assets.id, { onDelete: "set null" } ),
 	createdBy: int().notNull(),
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
 });
@@ -1485,6 +1525,7 @@ export const projectDocuments = mysqlTable("project_documents", {
 	uploadedBy: int().notNull(),
 	description: text(),
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+	extractedText: mediumtext(), // Plain text pulled from PDF, Word and text uploads for search; '' when none could be read
 },
 (table) => [
 	index("idx_project_documents_projectId").on(table.projectId),
@@ -1616,6 +1657,10 @@ export const projects = mysqlTable("projects", {
 	province: varchar({ length: 100 }),
 	latitude: decimal({ precision: 10, scale: 7 }),
 	longitude: decimal({ precision: 10, scale: 7 }),
+	legalHold: tinyint().default(0).notNull(), // Held projects, their photos and audit entries are never disposed
+	legalHoldReason: text(),
+	legalHoldBy: int(),
+	legalHoldAt: timestamp({ mode: 'string' }),
 });
 
 export const ratingScales = mysqlTable("rating_scales", {
@@ -1704,7 +1749,21 @@ export const reportSchedules = mysqlTable("report_schedules", {
 	nextRun: timestamp({ mode: 'string' }),
 	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
 	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
-});
+	companyId: int(),
+	createdBy: int(),
+	reportType: mysqlEnum(['custom_report','portfolio_report']).default('custom_report').notNull(),
+	templateId: int(), // report_templates.id for custom reports
+	format: mysqlEnum(['pdf','excel','word','html']).default('pdf').notNull(),
+	options: json(), // Report options (custom report options or portfolio report sections)
+	cronExpression: varchar({ length: 100 }), // Overrides frequency/dayOfWeek/dayOfMonth when set
+	timezone: varchar({ length: 100 }).default('America/Toronto').notNull(),
+	maxRetries: int().default(3).notNull(),
+	lastRunStatus: mysqlEnum(['success','failed']),
+},
+(table) => [
+	index("idx_report_schedule_company").on(table.companyId),
+	index("idx_report_schedule_due").on(table.active, table.nextRun),
+]);
 
 export const reportSections = mysqlTable("report_sections", {
 	id: int().autoincrement().notNull(),
@@ -1953,6 +2012,7 @@ export const users = mysqlTable("users", {
 	mfaEnforcedAt: timestamp({ mode: 'string' }),
 	mfaGracePeriodEnd: timestamp({ mode: 'string' }),
 	unitPreference: mysqlEnum(['metric','imperial']).default('metric').notNull(),
+	languagePreference: mysqlEnum(['en','fr']).default('en').notNull(),
 	welcomeEmailSent: tinyint().default(0).notNull(),
 	welcomeEmailSentAt: timestamp({ mode: 'string' }),
 	companyId: int(),
@@ -3367,6 +3427,37 @@ export const cycleAnalyticsCache = mysqlTable("cycle_analytics_cache", {
 export type CycleAnalyticsCache = typeof cycleAnalyticsCache.$inferSelect;
 export type InsertCycleAnalyticsCache = typeof cycleAnalyticsCache.$inferInsert;
 
+/**
+ * Capital Plan Simulations
+ * Stored Monte Carlo funding-risk runs for a capital budget cycle, kept so runs can be compared
+ */
+export const capitalPlanSimulations = mysqlTable("capital_plan_simulations", {
+	id: int().autoincrement().notNull().primaryKey(),
+	cycleId: int().notNull(),
+	name: varchar({ length: 255 }),
+	status: mysqlEnum(['running', 'completed', 'failed']).default('running').notNull(),
+	iterations: int().notNull(),
+	seed: int().notNull(),
+	parameters: text().notNull(), // JSON: sampling assumptions used for the run
+	results: text(), // JSON: year-by-year percentiles
+	p10Backlog: decimal({ precision: 15, scale: 2 }), // End-of-cycle backlog percentiles
+	p50Backlog: decimal({ precision: 15, scale: 2 }),
+	p90Backlog: decimal({ precision: 15, scale: 2 }),
+	p50Fci: decimal({ precision: 8, scale: 4 }),
+	probabilityUnfundedCritical: decimal({ precision: 5, scale: 4 }), // Share of iterations with a critical need unfunded in any year
+	errorMessage: text(),
+	durationMs: int(),
+	createdBy: int().notNull(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+	completedAt: timestamp({ mode: 'string' }),
+},
+(table) => [
+	index("idx_capital_plan_simulations_cycle").on(table.cycleId, table.createdAt),
+]);
+
+export type CapitalPlanSimulation = typeof capitalPlanSimulations.$inferSelect;
+export type InsertCapitalPlanSimulation = typeof capitalPlanSimulations.$inferInsert;
+
 
 
 /**
@@ -3519,7 +3610,7 @@ export const auditLogs = mysqlTable("audit_logs", {
 	userEmail: varchar({ length: 320 }),
 	companyId: int(),
 	companyName: varchar({ length: 255 }),
-	actionType: mysqlEnum(['create', 'update', 'delete', 'recalculate', 'import', 'export', 'bulk_delete', 'bulk_update']).notNull(),
+	actionType: mysqlEnum(['create', 'update', 'delete', 'recalculate', 'import', 'export', 'bulk_delete', 'bulk_update', 'api_access', 'share_view']).notNull(),
 	entityType: mysqlEnum(['project', 'asset', 'assessment', 'deficiency', 'photo', 'criteria', 'cycle', 'allocation', 'analytics', 'ranking', 'esg_rating', 'report', 'user', 'company', 'building_code', 'maintenance_schedule', 'capital_plan', 'risk_assessment', 'timeline_event']).notNull(),
 	entityId: int(),
 	entityName: varchar({ length: 500 }),
@@ -3582,6 +3673,7 @@ export const cleanupReports = mysqlTable("cleanup_reports", {
 	// Detailed results
 	affectedRecords: json(), // Array of {type, id, issue, severity, action}
 	recommendations: json(), // Array of recommended actions
+	retentionSummary: json(), // Per company and data type retention results (dry run or disposed)
 	errorLog: text(), // Any errors encountered during cleanup
 	
 	// Notification tracking
@@ -3717,3 +3809,376 @@ export const dataIntegrityMetrics = mysqlTable("data_integrity_metrics", {
 export type DataIntegrityMetric = typeof dataIntegrityMetrics.$inferSelect;
 export type InsertDataIntegrityMetric = typeof dataIntegrityMetrics.$inferInsert;
 
+/**
+ * Report Schedule Runs Table
+ * Run history for scheduled report delivery, including retries of failed runs
+ */
+export const reportScheduleRuns = mysqlTable("report_schedule_runs", {
+	id: int().autoincrement().notNull().primaryKey(),
+	scheduleId: int().notNull(),
+	trigger: mysqlEnum(['schedule', 'manual', 'retry']).default('schedule').notNull(),
+	attempt: int().default(1).notNull(), // 1 for the first attempt, incremented on each retry
+	retryOfRunId: int(), // Run this attempt is retrying
+	status: mysqlEnum(['running', 'success', 'failed', 'retry_pending']).default('running').notNull(),
+	startedAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+	completedAt: timestamp({ mode: 'string' }),
+	durationMs: int(),
+	fileName: varchar({ length: 255 }),
+	fileUrl: varchar({ length: 500 }),
+	fileSize: int(),
+	recipientCount: int().default(0).notNull(),
+	deliveredCount: int().default(0).notNull(),
+	nextRetryAt: timestamp({ mode: 'string' }), // Set while status is retry_pending
+	errorMessage: text(),
+},
+(table) => [
+	index("idx_schedule_runs").on(table.scheduleId, table.startedAt),
+	index("idx_schedule_run_retry").on(table.status, table.nextRetryAt),
+]);
+
+export type ReportScheduleRun = typeof reportScheduleRuns.$inferSelect;
+export type InsertReportScheduleRun = typeof reportScheduleRuns.$inferInsert;
+
+/**
+ * Webhook Subscriptions Table
+ * Company-scoped outbound webhooks for assessment, deficiency and project lifecycle events
+ */
+export const webhookSubscriptions = mysqlTable("webhook_subscriptions", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int().notNull(),
+	name: varchar({ length: 255 }).notNull(),
+	description: text(),
+	url: varchar({ length: 1000 }).notNull(),
+	secret: varchar({ length: 128 }).notNull(), // HMAC-SHA256 signing secret
+	events: json().notNull(), // Array of subscribed event types
+	isActive: int().default(1).notNull(),
+	consecutiveFailures: int().default(0).notNull(),
+	lastDeliveryAt: timestamp({ mode: 'string' }),
+	lastDeliveryStatus: mysqlEnum(['delivered', 'failed']),
+	createdBy: int(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
+},
+(table) => [
+	index("idx_webhook_company").on(table.companyId, table.isActive),
+]);
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+
+/**
+ * Webhook Delivery Log Table
+ * One row per event delivered to a subscription, with retry state
+ */
+export const webhookDeliveryLog = mysqlTable("webhook_delivery_log", {
+	id: int().autoincrement().notNull().primaryKey(),
+	subscriptionId: int().notNull(),
+	companyId: int().notNull(),
+	eventId: varchar({ length: 64 }).notNull(), // Stable across retries and replays of the same event
+	eventType: varchar({ length: 100 }).notNull(),
+	payload: text().notNull(), // JSON body exactly as sent
+	status: mysqlEnum(['pending', 'delivered', 'retrying', 'failed']).default('pending').notNull(),
+	attempts: int().default(0).notNull(),
+	maxAttempts: int().default(6).notNull(),
+	nextAttemptAt: timestamp({ mode: 'string' }),
+	responseStatus: int(),
+	responseBody: text(), // Truncated response body from the receiver
+	failureReason: text(),
+	durationMs: int(),
+	replayOfDeliveryId: int(),
+	replayedBy: int(),
+	deliveredAt: timestamp({ mode: 'string' }),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+},
+(table) => [
+	index("idx_webhook_delivery_subscription").on(table.subscriptionId, table.createdAt),
+	index("idx_webhook_delivery_company").on(table.companyId, table.status),
+	index("idx_webhook_delivery_retry").on(table.status, table.nextAttemptAt),
+	index("idx_webhook_delivery_event").on(table.eventId),
+]);
+
+export type WebhookDeliveryLog = typeof webhookDeliveryLog.$inferSelect;
+export type InsertWebhookDeliveryLog = typeof webhookDeliveryLog.$inferInsert;
+
+/**
+ * API Keys Table
+ * Company-scoped keys for the public REST API (/api/v1); only a SHA-256 hash of the key is stored
+ */
+export const apiKeys = mysqlTable("api_keys", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int().notNull(),
+	name: varchar({ length: 255 }).notNull(),
+	keyPrefix: varchar({ length: 16 }).notNull(), // Leading characters of the key, used for lookup and display
+	keyHash: varchar({ length: 64 }).notNull(),
+	role: mysqlEnum(['company_admin', 'project_manager', 'editor', 'viewer']).default('viewer').notNull(),
+	scopes: json(), // Optional narrowing of the role's scopes, e.g. ["projects:read"]
+	rateLimitPerMinute: int().default(60).notNull(),
+	expiresAt: timestamp({ mode: 'string' }),
+	lastUsedAt: timestamp({ mode: 'string' }),
+	lastUsedIp: varchar({ length: 45 }),
+	revokedAt: timestamp({ mode: 'string' }),
+	revokedBy: int(),
+	createdBy: int(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+},
+(table) => [
+	index("idx_api_keys_prefix").on(table.keyPrefix),
+	index("idx_api_keys_company").on(table.companyId),
+]);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+
+/**
+ * Access Policies Table
+ * Company-defined attribute-based rules that narrow what users in given company roles
+ * may do, based on project and asset attributes and UNIFORMAT component groups
+ */
+export const accessPolicies = mysqlTable("access_policies", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int().notNull(),
+	name: varchar({ length: 255 }).notNull(),
+	description: text(),
+	effect: mysqlEnum(['allow', 'deny']).default('allow').notNull(),
+	actions: json().notNull(), // Permissions the policy governs, e.g. ["assessment.edit"]
+	subjectRoles: json(), // Company roles the policy applies to; empty = everyone in the company
+	subjectUserIds: json(), // Individual users the policy applies to
+	conditions: json(), // { project: { holdingDepartment: ["Parks"] }, asset: {...}, componentGroups: ["D"] }
+	isActive: int().default(1).notNull(),
+	createdBy: int(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
+},
+(table) => [
+	index("idx_access_policies_company").on(table.companyId, table.isActive),
+]);
+
+export type AccessPolicy = typeof accessPolicies.$inferSelect;
+export type InsertAccessPolicy = typeof accessPolicies.$inferInsert;
+
+/**
+ * External Share Links Table
+ * Expiring, revocable read-only links to a project, asset report or portfolio report
+ * for people without an account. Only the token prefix and SHA-256 hash are stored.
+ */
+export const externalShareLinks = mysqlTable("external_share_links", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int(),
+	projectId: int().notNull(),
+	assetId: int(), // Required for asset reports
+	resourceType: mysqlEnum(['project', 'asset_report', 'portfolio_report']).notNull(),
+	label: varchar({ length: 255 }),
+	tokenPrefix: varchar({ length: 16 }).notNull(),
+	tokenHash: varchar({ length: 64 }).notNull(),
+	passwordHash: varchar({ length: 255 }), // scrypt "salt:hash"; null = no password
+	expiresAt: timestamp({ mode: 'string' }).notNull(),
+	viewCount: int().default(0).notNull(),
+	lastViewedAt: timestamp({ mode: 'string' }),
+	revokedAt: timestamp({ mode: 'string' }),
+	revokedBy: int(),
+	createdBy: int().notNull(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+},
+(table) => [
+	index("idx_external_share_prefix").on(table.tokenPrefix),
+	index("idx_external_share_project").on(table.projectId),
+]);
+
+export type ExternalShareLink = typeof externalShareLinks.$inferSelect;
+export type InsertExternalShareLink = typeof externalShareLinks.$inferInsert;
+
+/**
+ * SCIM Tokens Table
+ * Per-company bearer tokens for the SCIM 2.0 provisioning endpoint (/scim/v2).
+ * Only the token prefix and SHA-256 hash are stored.
+ */
+export const scimTokens = mysqlTable("scim_tokens", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int().notNull(),
+	name: varchar({ length: 255 }).notNull(),
+	tokenPrefix: varchar({ length: 16 }).notNull(),
+	tokenHash: varchar({ length: 64 }).notNull(),
+	lastUsedAt: timestamp({ mode: 'string' }),
+	lastUsedIp: varchar({ length: 45 }),
+	revokedAt: timestamp({ mode: 'string' }),
+	revokedBy: int(),
+	createdBy: int(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+},
+(table) => [
+	index("idx_scim_tokens_prefix").on(table.tokenPrefix),
+	index("idx_scim_tokens_company").on(table.companyId),
+]);
+
+export type ScimToken = typeof scimTokens.$inferSelect;
+export type InsertScimToken = typeof scimTokens.$inferInsert;
+
+/**
+ * SCIM Groups Table
+ * Identity provider groups pushed over SCIM; each maps to a company role that its
+ * members receive in company_users
+ */
+export const scimGroups = mysqlTable("scim_groups", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int().notNull(),
+	displayName: varchar({ length: 255 }).notNull(),
+	externalId: varchar({ length: 255 }),
+	companyRole: mysqlEnum(['company_admin', 'project_manager', 'editor', 'viewer']).default('viewer').notNull(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+	updatedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
+},
+(table) => [
+	index("idx_scim_groups_company").on(table.companyId),
+]);
+
+export type ScimGroup = typeof scimGroups.$inferSelect;
+export type InsertScimGroup = typeof scimGroups.$inferInsert;
+
+export const scimGroupMembers = mysqlTable("scim_group_members", {
+	id: int().autoincrement().notNull().primaryKey(),
+	groupId: int().notNull(),
+	userId: int().notNull(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+},
+(table) => [
+	index("idx_scim_group_members_group").on(table.groupId),
+	index("idx_scim_group_members_user").on(table.userId),
+]);
+
+export type ScimGroupMember = typeof scimGroupMembers.$inferSelect;
+
+/**
+ * Audit Chain Links Table
+ * Hash chain over the audit tables (audit_logs, audit_log, mfa_audit_log,
+ * criteria_audit_log, scoring_audit_log), one chain per company; null companyId is
+ * the platform chain for entries that belong to no company
+ */
+export const auditChainLinks = mysqlTable("audit_chain_links", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int(),
+	sequence: int().notNull(), // Position in the company's chain, starting at 1
+	sourceTable: mysqlEnum(['audit_logs', 'audit_log', 'mfa_audit_log', 'criteria_audit_log', 'scoring_audit_log', 'data_disposal_requests']).notNull(),
+	sourceId: int().notNull(),
+	contentHash: varchar({ length: 64 }).notNull(), // SHA-256 of the audit row when it was sealed
+	prevHash: varchar({ length: 64 }).notNull(),
+	entryHash: varchar({ length: 64 }).notNull(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+},
+(table) => [
+	uniqueIndex("idx_audit_chain_source").on(table.sourceTable, table.sourceId),
+	uniqueIndex("idx_audit_chain_sequence").on(table.companyId, table.sequence),
+]);
+
+export type AuditChainLink = typeof auditChainLinks.$inferSelect;
+export type InsertAuditChainLink = typeof auditChainLinks.$inferInsert;
+
+/**
+ * Audit Chain Checkpoints Table
+ * Periodic HMAC-signed snapshots of each chain's head
+ */
+export const auditChainCheckpoints = mysqlTable("audit_chain_checkpoints", {
+	id: int().autoincrement().notNull().primaryKey(),
+	companyId: int(),
+	sequence: int().notNull(),
+	entryHash: varchar({ length: 64 }).notNull(),
+	signature: varchar({ length: 64 }).notNull(), // HMAC-SHA256 over company, sequence, entry hash and time
+	keyId: varchar({ length: 16 }).notNull(), // Identifies the signing secret
+	createdAt: timestamp({ mode: 'string' }).notNull(),
+},
+(table) => [
+	index("idx_audit_checkpoint_company").on(table.companyId, table.sequence),
+]);
+
+export type AuditChainCheckpoint = typeof auditChainCheckpoints.$inferSelect;
+export type InsertAuditChainCheckpoint = typeof auditChainCheckpoints.$inferInsert;
+
+/**
+ * Voice Recordings Table
+ * Audio uploaded for dictation, tracked so recordings fall under retention policies
+ */
+export const voiceRecordings = mysqlTable("voice_recordings", {
+	id: int().autoincrement().notNull().primaryKey(),
+	userId: int().notNull(),
+	companyId: int(),
+	fileKey: varchar({ length: 500 }).notNull(),
+	url: text().notNull(),
+	mimeType: varchar({ length: 100 }),
+	fileSize: int(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+	projectId: int().references(() => projects.id, { onDelete: "set null" } ), // Project the recording was made for, when known
+	transcript: text(),
+	transcribedAt: timestamp({ mode: 'string' }),
+},
+(table) => [
+	index("idx_voice_recordings_company").on(table.companyId, table.createdAt),
+	index("idx_voice_recordings_transcribed").on(table.transcribedAt),
+]);
+
+export type VoiceRecording = typeof voiceRecordings.$inferSelect;
+export type InsertVoiceRecording = typeof voiceRecordings.$inferInsert;
+
+/**
+ * IFC Element Links Table
+ * IFC elements (by GlobalId) accepted from a facility model into an assessment
+ */
+export const ifcElementLinks = mysqlTable("ifc_element_links", {
+	id: int().autoincrement().notNull().primaryKey(),
+	modelId: int().notNull().references(() => facilityModels.id, { onDelete: "cascade" } ),
+	assessmentId: int().notNull().references(() => assessments.id, { onDelete: "cascade" } ),
+	globalId: varchar({ length: 22 }).notNull(),
+	ifcType: varchar({ length: 64 }).notNull(), // STEP entity name, e.g. IFCWALLSTANDARDCASE
+	name: varchar({ length: 255 }),
+	storeyGlobalId: varchar({ length: 22 }),
+	createdBy: int().notNull(),
+	createdAt: timestamp({ mode: 'string' }).default('CURRENT_TIMESTAMP').notNull(),
+},
+(table) => [
+	uniqueIndex("idx_ifc_element_model_global").on(table.modelId, table.globalId),
+	index("idx_ifc_element_assessment").on(table.assessmentId),
+]);
+
+export type IfcElementLink = typeof ifcElementLinks.$inferSelect;
+export type InsertIfcElementLink = typeof ifcElementLinks.$inferInsert;
+
+/**
+ * Search Index Entries Table
+ * Searchable text from assessments, deficiencies, photo OCR, project documents and voice
+ * transcripts, split into chunks, with an optional embedding per chunk for semantic search
+ */
+export const searchIndexEntries = mysqlTable("search_index_entries", {
+	id: int().autoincrement().notNull().primaryKey(),
+	sourceType: mysqlEnum(['assessment','deficiency','photo','project_document','voice_transcript']).notNull(),
+	sourceId: int().notNull(),
+	chunkIndex: int().default(0).notNull(),
+	projectId: int().notNull().references(() => projects.id, { onDelete: "cascade" } ),
+	assetId: int(),
+	componentCode: varchar({ length: 20 }), // UNIFORMAT code of the source record, when it has one
+	title: varchar({ length: 255 }).notNull(),
+	content: text().notNull(),
+	contentHash: varchar({ length: 64 }).notNull(),
+	embedding: mediumtext(), // Base64 of the unit-length Float32 vector; null when no embedding model was available
+	embeddingModel: varchar({ length: 100 }),
+	sourceUpdatedAt: timestamp({ mode: 'string' }),
+	indexedAt: timestamp({ mode: 'string' }).defaultNow().onUpdateNow().notNull(),
+},
+(table) => [
+	uniqueIndex("idx_search_index_source").on(table.sourceType, table.sourceId, table.chunkIndex),
+	index("idx_search_index_project").on(table.projectId, table.sourceType),
+	index("idx_search_index_component").on(table.componentCode),
+]);
+
+export type SearchIndexEntry = typeof searchIndexEntries.$inferSelect;
+export type InsertSearchIndexEntry = typeof searchIndexEntries.$inferInsert;
+
+/**
+ * Search Index State Table
+ * How far the background indexer has read each source table, as a (changedAt, id) cursor
+ */
+export const searchIndexState = mysqlTable("search_index_state", {
+	sourceType: varchar({ length: 32 }).notNull().primaryKey(),
+	cursorAt: timestamp({ mode: 'string' }),
+	cursorId: int().default(0).notNull(),
+	lastRunAt: timestamp({ mode: 'string' }),
+});
+
+export type SearchIndexState = typeof searchIndexState.$inferSelect;
@@ -0,0 +1,74 @@
+/**
+ * Text embeddings for semantic search
+ *
+ * Calls an OpenAI-compatible /embeddings endpoint, which lets the model run locally
+ * (Ollama, llama.cpp server or Hugging Face text-embeddings-inference all serve it):
+ *
+ *   EMBEDDING_API_URL=http://localhost:11434/v1
+ *   EMBEDDING_MODEL=nomic-embed-text
+ *
+ * When no endpoint is configured, or it fails, callers get null and search falls back to
+ * plain-text matching.
+ */
+import { ENV } from "./env";
+
+// Inputs per request; larger batches are split
+const BATCH_SIZE = 32;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+type EmbeddingResponse = {
+  data: Array<{ index: number; embedding: number[] }>;
+};
+
+export function isEmbeddingConfigured(): boolean {
+  return ENV.embeddingApiUrl.trim().length > 0;
+}
+
+/**
+ * Name of the embedding model in use, or null when semantic search is not configured
+ */
+export function getEmbeddingModel(): string | null {
+  return isEmbeddingConfigured() ? ENV.embeddingModel : null;
+}
+
+/**
+ * Embed texts in order; null when embeddings are unavailable
+ */
+export async function embedTexts(texts: string[]): Promise<number[][] | null> {
+  if (!isEmbeddingConfigured() || texts.length === 0) {
+    return isEmbeddingConfigured() ? [] : null;
+  }
+
+  const url = `${ENV.embeddingApiUrl.replace(/\/$/, "")}/embeddings`;
+  const vectors: number[][] = [];
+
+  try {
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const batch = texts.slice(start, start + BATCH_SIZE);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(ENV.embeddingApiKey ? { authorization: `Bearer ${ENV.embeddingApiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: ENV.embeddingModel, input: batch }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding request failed: ${response.status} ${response.statusText} – ${errorText}`);
+      }
+
+      const result = (await response.json()) as EmbeddingResponse;
+      if (!Array.isArray(result.data) || result.data.length !== batch.length) {
+        throw new Error("Embedding response does not match the request");
+      }
+      vectors.push(...result.data.slice().sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+    return vectors;
+  } catch (error) {
+    console.error("[Embeddings] Falling back to plain-text search:", error);
+    return null;
+  }
+}
@@ -7,4 +7,8 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // OpenAI-compatible embeddings endpoint for semantic search, e.g. a local Ollama at http://localhost:11434/v1
+  embeddingApiUrl: process.env.EMBEDDING_API_URL ?? "",
+  embeddingApiKey: process.env.EMBEDDING_API_KEY ?? "",
+  embeddingModel: process.env.EMBEDDING_MODEL ?? "nomic-embed-text",
 };
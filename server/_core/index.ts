@@ -19,6 +19,10 @@ import {
   limitRequestSize,
 } from "./security";
 import { startBackupScheduler } from "../services/backupScheduler";
+import { startReportScheduler } from "../services/reportScheduler";
+import { startWebhookRetryWorker } from "../services/webhookService";
+import { startAuditChainSealer } from "../services/auditChain.service";
+import { startSearchIndexer } from "../services/searchIndex.service";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -94,6 +98,12 @@ async function startServer() {
   app.post("/api/export/progress/:exportId/cancel", handleCancelExport);
   app.post("/api/export/progress/create", express.json(), handleCreateExportSession);
   
+  // Mock SAP / TRIRIGA endpoints for exercising integration connectors without a live source
+  if (process.env.NODE_ENV !== "production") {
+    const { handleIntegrationMock } = await import('../api/integration-mock');
+    app.get("/api/integrations/mock/:source", handleIntegrationMock);
+  }
+  
   // Audio upload endpoint (with rate limiting)
   app.post("/api/upload-audio", uploadRateLimiter, handleAudioUpload, uploadAudio);
   
@@ -108,6 +118,13 @@ async function startServer() {
   // 3D Model upload endpoint (with rate limiting) - uses multipart form data for large files
   const { uploadModelHandler, handleModelUpload } = await import('../api/upload-model');
   app.post("/api/upload-model", uploadRateLimiter, uploadModelHandler, handleModelUpload);
+  // Public REST API for API-key integrations (per-key rate limiting)
+  const { createPublicApiRouter } = await import('../api/public-v1');
+  app.use("/api/v1", createPublicApiRouter());
+  // SCIM 2.0 user and group provisioning for identity providers (per-company bearer tokens)
+  const { createScimRouter } = await import('../api/scim-v2');
+  app.use("/api/scim/v2", createScimRouter());
+  
   // tRPC API (with rate limiting)
   app.use("/api/trpc", apiRateLimiter);
   app.use(
@@ -136,6 +153,18 @@ async function startServer() {
     
     // Start backup scheduler for automated daily backups
     startBackupScheduler();
+
+    // Start report scheduler for scheduled report delivery
+    startReportScheduler();
+
+    // Start webhook retry worker for failed outbound deliveries
+    startWebhookRetryWorker();
+
+    // Seal new audit entries into the tamper-evident chain and sign hourly checkpoints
+    startAuditChainSealer();
+
+    // Keep the search index in step with assessments, deficiencies, photos, documents and transcripts
+    startSearchIndexer();
   });
 }
 
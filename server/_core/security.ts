@@ -151,6 +151,63 @@ export const uploadRateLimiter = rateLimit({
   },
 });
 
+type KeyedRequest = Request & { apiKey?: { id: number; rateLimitPerMinute: number } };
+
+/**
+ * Public REST API rate limiter
+ * Limits each API key (not IP) to its configured requests per minute
+ * Must run after the API key middleware has attached req.apiKey
+ */
+export const apiKeyRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: (req: Request) => (req as KeyedRequest).apiKey?.rateLimitPerMinute ?? 60,
+  keyGenerator: (req: Request) => `api-key:${(req as KeyedRequest).apiKey?.id ?? "anonymous"}`,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: Request, res: Response) => {
+    console.warn("[Security] API key rate limit exceeded:", {
+      apiKeyId: (req as KeyedRequest).apiKey?.id,
+      ip: req.ip,
+      path: req.path,
+    });
+    
+    res.status(429).json({
+      error: "Too many requests",
+      message: "This API key has exceeded its rate limit. Please try again later.",
+      retryAfter: res.getHeader("Retry-After"),
+    });
+  },
+});
+
+type ScimRequest = Request & { scimToken?: { id: number } };
+
+/**
+ * SCIM provisioning rate limiter
+ * Limits each company's SCIM token; identity providers batch syncs, so the limit is generous
+ * Must run after the SCIM token middleware has attached req.scimToken
+ */
+export const scimRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: 600,
+  keyGenerator: (req: Request) => `scim:${(req as ScimRequest).scimToken?.id ?? "anonymous"}`,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: Request, res: Response) => {
+    console.warn("[Security] SCIM rate limit exceeded:", {
+      scimTokenId: (req as ScimRequest).scimToken?.id,
+      ip: req.ip,
+      path: req.path,
+    });
+
+    // SCIM clients expect SCIM error bodies
+    res.status(429).type("application/scim+json").send(JSON.stringify({
+      schemas: ["urn:ietf:params:scim:api:messages:2.0:Error"],
+      status: "429",
+      detail: "Too many provisioning requests. Please try again later.",
+    }));
+  },
+});
+
 /**
  * Input validation middleware
  * Validates and sanitizes user input to prevent injection attacks
@@ -2,6 +2,7 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import type { Permission } from "../permissions";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -62,3 +63,31 @@ export const adminProcedure = t.procedure.use(
     });
   }),
 );
+
+/**
+ * Protected procedure that also enforces company access policies for the project,
+ * asset and component named in the input (projectId / assetId / componentCode).
+ * This only sees what the client sends; procedures changing existing assessments
+ * must also check the stored records with assertAssessmentsAccess.
+ */
+export const policyProcedure = (action: Permission) =>
+  protectedProcedure.use(
+    t.middleware(async opts => {
+      const { ctx, next } = opts;
+      const input = (await opts.getRawInput()) as Record<string, unknown> | undefined;
+      const projectId = typeof input?.projectId === "number" ? input.projectId : undefined;
+      const assetId = typeof input?.assetId === "number" ? input.assetId : undefined;
+
+      if (ctx.user && (projectId || assetId)) {
+        const { assertAccess } = await import("../services/accessPolicy.service");
+        await assertAccess(ctx.user, {
+          action,
+          projectId,
+          assetId,
+          componentCode: typeof input?.componentCode === "string" ? input.componentCode : undefined,
+        });
+      }
+
+      return next();
+    }),
+  );
@@ -0,0 +1,116 @@
+/**
+ * Tests for attribute-based access policy evaluation
+ */
+
+import { describe, expect, it } from "vitest";
+import { evaluatePolicies, formatDenial, parsePolicyRow, type PolicyRule } from "./accessPolicy";
+
+function policy(overrides: Partial<PolicyRule>): PolicyRule {
+  return {
+    id: 1,
+    name: "Policy",
+    effect: "allow",
+    actions: ["assessment.edit"],
+    subjectRoles: [],
+    subjectUserIds: [],
+    conditions: {},
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const editor = { userId: 7, companyRole: "editor" as const };
+const parksProject = { holdingDepartment: "Parks", facilityType: "Arena", city: "Calgary" };
+const financeProject = { holdingDepartment: "Finance", facilityType: "Office", city: "Calgary" };
+
+describe("access policy evaluation", () => {
+  it("should fall back to role permissions when no policy applies", () => {
+    const decision = evaluatePolicies(
+      [policy({ subjectRoles: ["viewer"] }), policy({ actions: ["project.delete"] })],
+      editor,
+      "assessment.edit",
+      { project: financeProject }
+    );
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.evaluations).toEqual([]);
+  });
+
+  it("should limit a role to buildings matching its allow policies", () => {
+    const policies = [
+      policy({
+        name: "Parks editors",
+        subjectRoles: ["editor"],
+        conditions: { project: { holdingDepartment: ["parks", "Recreation"] } },
+      }),
+    ];
+
+    expect(evaluatePolicies(policies, editor, "assessment.edit", { project: parksProject }).allowed).toBe(true);
+
+    const denied = evaluatePolicies(policies, editor, "assessment.edit", { project: financeProject });
+    expect(denied.allowed).toBe(false);
+    expect(formatDenial(denied, "assessment.edit")).toContain(
+      '"Parks editors" did not match: project.holdingDepartment is "Finance", policy requires one of: parks, Recreation'
+    );
+  });
+
+  it("should let a matching deny policy override allows", () => {
+    const policies = [
+      policy({ id: 1, name: "All editors", subjectRoles: ["editor"] }),
+      policy({
+        id: 2,
+        name: "No HVAC for user 7",
+        effect: "deny",
+        subjectUserIds: [7],
+        conditions: { componentGroups: ["D30"], asset: { ownershipType: ["municipal"] } },
+      }),
+    ];
+    const asset = { ownershipType: "municipal" };
+
+    const denied = evaluatePolicies(policies, editor, "assessment.edit", {
+      project: parksProject,
+      asset,
+      componentCode: "D3020",
+    });
+    expect(denied.allowed).toBe(false);
+    expect(denied.decidingPolicy).toEqual({ id: 2, name: "No HVAC for user 7", effect: "deny" });
+    expect(formatDenial(denied, "assessment.edit")).toContain("component D3020 is in group D30");
+
+    const roofing = evaluatePolicies(policies, editor, "assessment.edit", {
+      project: parksProject,
+      asset,
+      componentCode: "B3010",
+    });
+    expect(roofing.allowed).toBe(true);
+    expect(roofing.decidingPolicy?.id).toBe(1);
+  });
+
+  it("should not let unresolved conditions trigger a deny or rule out an allow", () => {
+    const policies = [
+      policy({ effect: "deny", conditions: { componentGroups: ["D"] } }),
+      policy({ id: 2, conditions: { asset: { primaryUse: ["School"] } } }),
+    ];
+
+    const decision = evaluatePolicies(policies, editor, "assessment.edit", { project: parksProject });
+    expect(decision.allowed).toBe(true);
+    expect(decision.evaluations[0]).toMatchObject({ matched: false, unresolvedConditions: ["component group (one of: D)"] });
+    expect(decision.evaluations[1]).toMatchObject({ matched: true, unresolvedConditions: ["asset.primaryUse (one of: School)"] });
+  });
+
+  it("should ignore inactive policies and parse stored JSON", () => {
+    const rule = parsePolicyRow({
+      id: 3,
+      name: "Stored",
+      effect: "allow",
+      actions: '["project.view"]',
+      subjectRoles: null,
+      subjectUserIds: [7],
+      conditions: '{"project":{"city":["Edmonton"]}}',
+      isActive: 0,
+    });
+
+    expect(rule).toMatchObject({ actions: ["project.view"], subjectRoles: [], isActive: false });
+    expect(evaluatePolicies([rule], editor, "project.view", { project: parksProject }).allowed).toBe(true);
+    expect(evaluatePolicies([{ ...rule, isActive: true }], editor, "project.view", { project: parksProject }).allowed).toBe(false);
+  });
+});
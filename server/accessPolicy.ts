@@ -0,0 +1,311 @@
+/**
+ * Attribute-Based Access Control (ABAC) Policies
+ *
+ * Company policies narrow the role permissions in permissions.ts per building:
+ * they match on project attributes, asset attributes and UNIFORMAT component groups
+ * and apply to users by company role or individually
+ */
+
+import type { Permission } from "./permissions";
+
+export type CompanyRole = "company_admin" | "project_manager" | "editor" | "viewer";
+
+export type PolicyEffect = "allow" | "deny";
+
+/**
+ * Attribute name -> accepted values (matched case-insensitively)
+ */
+export type AttributeConditions = Record<string, string[]>;
+
+export interface PolicyConditions {
+  project?: AttributeConditions;
+  asset?: AttributeConditions;
+  /** UNIFORMAT prefixes, e.g. "D" (Services) or "D30" (HVAC) */
+  componentGroups?: string[];
+}
+
+export interface PolicyRule {
+  id: number;
+  name: string;
+  effect: PolicyEffect;
+  actions: Permission[];
+  subjectRoles: CompanyRole[];
+  subjectUserIds: number[];
+  conditions: PolicyConditions;
+  isActive: boolean;
+}
+
+export interface PolicySubject {
+  userId: number;
+  companyRole: CompanyRole | null;
+}
+
+export interface PolicyResource {
+  project?: Record<string, unknown> | null;
+  asset?: Record<string, unknown> | null;
+  componentCode?: string | null;
+}
+
+export interface PolicyEvaluation {
+  policyId: number;
+  policyName: string;
+  effect: PolicyEffect;
+  matched: boolean;
+  matchedConditions: string[];
+  failedConditions: string[];
+  /** Conditions on attributes the request did not include (e.g. no component for a list) */
+  unresolvedConditions: string[];
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason: string;
+  decidingPolicy: { id: number; name: string; effect: PolicyEffect } | null;
+  evaluations: PolicyEvaluation[];
+}
+
+/**
+ * Project attributes policies can match on
+ */
+export const PROJECT_POLICY_ATTRIBUTES = [
+  "holdingDepartment",
+  "facilityType",
+  "propertyType",
+  "criticalityLevel",
+  "status",
+  "city",
+  "province",
+] as const;
+
+/**
+ * Asset attributes policies can match on
+ */
+export const ASSET_POLICY_ATTRIBUTES = [
+  "primaryUse",
+  "ownershipType",
+  "occupancyType",
+  "status",
+  "city",
+  "province",
+] as const;
+
+/**
+ * Actions policies can govern; project.edit also covers a project's deficiencies and photos
+ */
+export const POLICY_ACTIONS: Permission[] = [
+  "project.view",
+  "project.edit",
+  "project.delete",
+  "project.share",
+  "assessment.view",
+  "assessment.create",
+  "assessment.edit",
+  "assessment.delete",
+];
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+/**
+ * Check whether a policy targets the user, by id or by company role.
+ * A policy without subjects applies to every member of the company.
+ */
+export function policyAppliesToSubject(policy: PolicyRule, subject: PolicySubject): boolean {
+  if (policy.subjectRoles.length === 0 && policy.subjectUserIds.length === 0) return true;
+  if (policy.subjectUserIds.includes(subject.userId)) return true;
+  return subject.companyRole !== null && policy.subjectRoles.includes(subject.companyRole);
+}
+
+interface ConditionResults {
+  matched: string[];
+  failed: string[];
+  unresolved: string[];
+}
+
+function checkAttributes(
+  dimension: "project" | "asset",
+  conditions: AttributeConditions | undefined,
+  attributes: Record<string, unknown> | null | undefined,
+  results: ConditionResults
+): void {
+  if (!conditions) return;
+
+  for (const [attribute, values] of Object.entries(conditions)) {
+    if (!values || values.length === 0) continue;
+    const label = `${dimension}.${attribute}`;
+    const expected = values.join(", ");
+
+    if (!attributes) {
+      results.unresolved.push(`${label} (one of: ${expected})`);
+      continue;
+    }
+
+    const actual = attributes[attribute];
+    if (actual === null || actual === undefined || actual === "") {
+      results.failed.push(`${label} is not set, policy requires one of: ${expected}`);
+    } else if (values.some(v => normalize(v) === normalize(actual))) {
+      results.matched.push(`${label} is "${actual}"`);
+    } else {
+      results.failed.push(`${label} is "${actual}", policy requires one of: ${expected}`);
+    }
+  }
+}
+
+/**
+ * Evaluate one policy's conditions against a resource.
+ * Conditions on attributes missing from the request cannot rule an allow policy out,
+ * but they also cannot trigger a deny policy; list lookups filter per item instead.
+ */
+export function evaluatePolicy(policy: PolicyRule, resource: PolicyResource): PolicyEvaluation {
+  const results: ConditionResults = { matched: [], failed: [], unresolved: [] };
+  const { conditions } = policy;
+
+  checkAttributes("project", conditions.project, resource.project, results);
+  checkAttributes("asset", conditions.asset, resource.asset, results);
+
+  const groups = (conditions.componentGroups ?? []).filter(g => g.trim() !== "");
+  if (groups.length > 0) {
+    const code = resource.componentCode?.trim();
+    const expected = groups.join(", ");
+    const group = code ? groups.find(g => normalize(code).startsWith(normalize(g))) : undefined;
+    if (!code) {
+      results.unresolved.push(`component group (one of: ${expected})`);
+    } else if (group) {
+      results.matched.push(`component ${code} is in group ${group}`);
+    } else {
+      results.failed.push(`component ${code} is outside groups: ${expected}`);
+    }
+  }
+
+  const matched = results.failed.length === 0 &&
+    (policy.effect === "allow" || results.unresolved.length === 0);
+
+  return {
+    policyId: policy.id,
+    policyName: policy.name,
+    effect: policy.effect,
+    matched,
+    matchedConditions: results.matched,
+    failedConditions: results.failed,
+    unresolvedConditions: results.unresolved,
+  };
+}
+
+/**
+ * Decide whether a subject may perform an action on a resource.
+ *
+ * - Policies only narrow access; role permissions are checked separately
+ * - A matching deny policy always wins
+ * - When allow policies target the subject and action, one of them must match
+ * - When no policy targets the subject and action, access is allowed
+ */
+export function evaluatePolicies(
+  policies: PolicyRule[],
+  subject: PolicySubject,
+  action: Permission,
+  resource: PolicyResource
+): PolicyDecision {
+  const applicable = policies.filter(
+    p => p.isActive && p.actions.includes(action) && policyAppliesToSubject(p, subject)
+  );
+  const evaluations = applicable.map(p => evaluatePolicy(p, resource));
+
+  const deny = evaluations.find(e => e.effect === "deny" && e.matched);
+  if (deny) {
+    return {
+      allowed: false,
+      reason: `Denied by policy "${deny.policyName}"`,
+      decidingPolicy: { id: deny.policyId, name: deny.policyName, effect: "deny" },
+      evaluations,
+    };
+  }
+
+  const allows = evaluations.filter(e => e.effect === "allow");
+  const allow = allows.find(e => e.matched);
+  if (allow) {
+    return {
+      allowed: true,
+      reason: `Allowed by policy "${allow.policyName}"`,
+      decidingPolicy: { id: allow.policyId, name: allow.policyName, effect: "allow" },
+      evaluations,
+    };
+  }
+
+  if (allows.length > 0) {
+    return {
+      allowed: false,
+      reason: `None of the ${allows.length} allow ${allows.length === 1 ? "policy" : "policies"} for ${action} match this resource`,
+      decidingPolicy: null,
+      evaluations,
+    };
+  }
+
+  return {
+    allowed: true,
+    reason: "No access policy applies; role permissions decide",
+    decidingPolicy: null,
+    evaluations,
+  };
+}
+
+/**
+ * Human-readable "why was I denied" message for a decision
+ */
+export function formatDenial(decision: PolicyDecision, action: Permission): string {
+  if (decision.allowed) return decision.reason;
+
+  const lines = [`Access denied for ${action}: ${decision.reason}.`];
+
+  const deny = decision.decidingPolicy?.effect === "deny"
+    ? decision.evaluations.find(e => e.policyId === decision.decidingPolicy!.id)
+    : undefined;
+  if (deny) {
+    if (deny.matchedConditions.length > 0) {
+      lines.push(`It matched because ${deny.matchedConditions.join("; ")}.`);
+    }
+    return lines.join(" ");
+  }
+
+  for (const evaluation of decision.evaluations.filter(e => e.effect === "allow")) {
+    lines.push(`"${evaluation.policyName}" did not match: ${evaluation.failedConditions.join("; ")}.`);
+  }
+  return lines.join(" ");
+}
+
+/**
+ * Normalize a stored policy row (JSON columns may arrive as strings)
+ */
+export function parsePolicyRow(row: {
+  id: number;
+  name: string;
+  effect: PolicyEffect;
+  actions: unknown;
+  subjectRoles: unknown;
+  subjectUserIds: unknown;
+  conditions: unknown;
+  isActive: number | boolean;
+}): PolicyRule {
+  const parse = <T>(value: unknown, fallback: T): T => {
+    if (value === null || value === undefined) return fallback;
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        return fallback;
+      }
+    }
+    return value as T;
+  };
+
+  return {
+    id: row.id,
+    name: row.name,
+    effect: row.effect,
+    actions: parse<Permission[]>(row.actions, []),
+    subjectRoles: parse<CompanyRole[]>(row.subjectRoles, []),
+    subjectUserIds: parse<number[]>(row.subjectUserIds, []),
+    conditions: parse<PolicyConditions>(row.conditions, {}),
+    isActive: Boolean(row.isActive),
+  };
+}
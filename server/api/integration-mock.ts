@@ -0,0 +1,35 @@
+import { Request, Response } from 'express';
+import {
+  filterModifiedSince,
+  getConnector,
+  parseJsonExtract,
+  parseSourceDate,
+  type IntegrationSource,
+} from '../integrations/connector';
+import '../integrations/sap.connector';
+import '../integrations/tririga.connector';
+
+/**
+ * Mock SAP / TRIRIGA Endpoints
+ *
+ * Serves each connector's sample extract so endpoint-mode integration runs can be
+ * exercised without a live source system. Honours ?since= like the real services.
+ * Only mounted outside production.
+ */
+
+const MOCK_SOURCES: IntegrationSource[] = ['sap', 'tririga'];
+
+export function handleIntegrationMock(req: Request, res: Response): void {
+  const source = req.params.source as IntegrationSource;
+
+  if (!MOCK_SOURCES.includes(source)) {
+    res.status(404).json({ error: `Unknown integration source: ${req.params.source}` });
+    return;
+  }
+
+  const connector = getConnector(source);
+  const since = parseSourceDate(req.query.since);
+  const records = filterModifiedSince(connector, parseJsonExtract(connector, connector.sampleData()), since);
+
+  res.json({ value: records.map(record => ({ ...record.data, [connector.recordTypeField]: record.recordType })) });
+}
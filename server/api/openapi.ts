@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { PUBLIC_API_VERSION, type PublicApiAccess, type PublicApiResource } from "../../shared/publicApi";
+
+/**
+ * OpenAPI document generation for the public REST API
+ * The document is built from the same route table that registers the Express handlers,
+ * so the spec cannot drift from what is actually served
+ */
+
+export interface PublicApiRouteSpec {
+  method: "get" | "post" | "patch";
+  path: string; // Express-style path relative to /api/v1, e.g. "/projects/:id"
+  resource: PublicApiResource;
+  access: PublicApiAccess;
+  summary: string;
+  query?: z.ZodObject<any>;
+  body?: z.ZodObject<any>;
+  response: { schema: string; list?: boolean; status?: number };
+}
+
+type JsonSchema = Record<string, unknown>;
+
+function toSchema(schema: z.ZodType): JsonSchema {
+  const { $schema, ...rest } = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as JsonSchema;
+  return rest;
+}
+
+/**
+ * Convert an Express path ("/projects/:id") to an OpenAPI path ("/projects/{id}")
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+function getPathParams(path: string): string[] {
+  return Array.from(path.matchAll(/:([A-Za-z0-9_]+)/g), m => m[1]);
+}
+
+function getQueryParameters(query?: z.ZodObject<any>) {
+  if (!query) return [];
+  const schema = toSchema(query) as { properties?: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(schema.properties ?? {}).map(([name, propertySchema]) => ({
+    name,
+    in: "query",
+    required: schema.required?.includes(name) ?? false,
+    schema: propertySchema,
+  }));
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+/**
+ * Build the OpenAPI 3.1 document for the given routes
+ */
+export function buildOpenApiDocument(
+  routes: PublicApiRouteSpec[],
+  componentSchemas: Record<string, z.ZodType>,
+  serverUrl: string = `/api/${PUBLIC_API_VERSION}`
+) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const openApiPath = toOpenApiPath(route.path);
+    const ref = { $ref: `#/components/schemas/${route.response.schema}` };
+    const dataSchema = route.response.list
+      ? {
+          type: "object",
+          properties: {
+            data: { type: "array", items: ref },
+            pagination: { $ref: "#/components/schemas/Pagination" },
+          },
+          required: ["data", "pagination"],
+        }
+      : { type: "object", properties: { data: ref }, required: ["data"] };
+
+    const operation: Record<string, unknown> = {
+      summary: route.summary,
+      operationId: `${route.method}${openApiPath.replace(/[{}]/g, "").split("/").map(s => s.charAt(0).toUpperCase() + s.slice(1)).join("")}`,
+      tags: [route.resource],
+      security: [{ ApiKeyHeader: [] }, { BearerAuth: [] }],
+      "x-required-scope": `${route.resource}:${route.access}`,
+      parameters: [
+        ...getPathParams(route.path).map(name => ({
+          name,
+          in: "path",
+          required: true,
+          schema: { type: "integer" },
+        })),
+        ...getQueryParameters(route.query),
+      ],
+      responses: {
+        [String(route.response.status ?? 200)]: {
+          description: "Successful response",
+          content: { "application/json": { schema: dataSchema } },
+        },
+        "400": errorResponse("Invalid request"),
+        "401": errorResponse("Missing, invalid, revoked or expired API key"),
+        "403": errorResponse("API key lacks the required scope"),
+        "404": errorResponse("Resource not found in the key's company"),
+        "429": errorResponse("Per-key rate limit exceeded"),
+      },
+    };
+
+    if (route.body) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: toSchema(route.body) } },
+      };
+    }
+
+    paths[openApiPath] = { ...paths[openApiPath], [route.method]: operation };
+  }
+
+  const schemas: Record<string, JsonSchema> = {
+    Error: {
+      type: "object",
+      properties: { error: { type: "string" }, message: { type: "string" } },
+      required: ["error", "message"],
+    },
+    Pagination: {
+      type: "object",
+      properties: {
+        limit: { type: "integer" },
+        offset: { type: "integer" },
+        total: { type: "integer" },
+      },
+      required: ["limit", "offset", "total"],
+    },
+  };
+  for (const [name, schema] of Object.entries(componentSchemas)) {
+    schemas[name] = toSchema(schema);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Building Condition Assessment API",
+      version: PUBLIC_API_VERSION,
+      description: "Company-scoped REST access to projects, assets, assessments, deficiencies and photos. " +
+        "Authenticate with an API key issued by a company administrator.",
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        ApiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+        BearerAuth: { type: "http", scheme: "bearer" },
+      },
+    },
+  };
+}
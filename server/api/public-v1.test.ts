@@ -0,0 +1,107 @@
+/**
+ * Tests for the public REST API
+ * Tests API key helpers, role-bounded scopes, the generated OpenAPI document and resource filters
+ */
+
+import { describe, expect, it } from "vitest";
+import { and } from "drizzle-orm";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import {
+  extractApiKey,
+  generateApiKey,
+  getKeyLookupPrefix,
+  getKeyStatus,
+  hashApiKey,
+  isWellFormedApiKey,
+  parseKeyScopes,
+} from "../services/apiKeyService";
+import { getRoleScopes, hasScope, resolveKeyScopes } from "../../shared/publicApi";
+import { toOpenApiPath } from "./openapi";
+import { PUBLIC_API_ROUTES, getOpenApiDocument } from "./public-v1";
+import { visibleAssessmentConditions } from "../db/publicApi.db";
+
+describe("public REST API", () => {
+  describe("API keys", () => {
+    it("should generate well-formed, unique keys with a stable hash", () => {
+      const key = generateApiKey();
+      expect(isWellFormedApiKey(key)).toBe(true);
+      expect(generateApiKey()).not.toBe(key);
+      expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashApiKey(key)).toBe(hashApiKey(key));
+      expect(getKeyLookupPrefix(key)).toHaveLength(12);
+      expect(isWellFormedApiKey("bca_not-a-key")).toBe(false);
+    });
+
+    it("should read the key from X-API-Key or a bearer token", () => {
+      expect(extractApiKey({ "x-api-key": " bca_abc " })).toBe("bca_abc");
+      expect(extractApiKey({ authorization: "Bearer bca_def" })).toBe("bca_def");
+      expect(extractApiKey({ authorization: "Basic xyz" })).toBeNull();
+      expect(extractApiKey({})).toBeNull();
+    });
+
+    it("should report revoked and expired keys", () => {
+      const now = new Date("2026-06-01T00:00:00Z");
+      expect(getKeyStatus({ revokedAt: null, expiresAt: null }, now)).toBe("active");
+      expect(getKeyStatus({ revokedAt: "2026-05-01 00:00:00", expiresAt: null }, now)).toBe("revoked");
+      expect(getKeyStatus({ revokedAt: null, expiresAt: "2026-05-31T00:00:00Z" }, now)).toBe("expired");
+      expect(getKeyStatus({ revokedAt: null, expiresAt: "2026-07-01T00:00:00Z" }, now)).toBe("active");
+    });
+
+    it("should parse stored scopes from arrays or JSON text", () => {
+      expect(parseKeyScopes(["projects:read", 4])).toEqual(["projects:read"]);
+      expect(parseKeyScopes('["assets:read"]')).toEqual(["assets:read"]);
+      expect(parseKeyScopes("{")).toEqual([]);
+      expect(parseKeyScopes(null)).toEqual([]);
+    });
+  });
+
+  describe("scopes", () => {
+    it("should limit viewers to read scopes", () => {
+      expect(getRoleScopes("viewer").every(scope => scope.endsWith(":read"))).toBe(true);
+      expect(getRoleScopes("editor")).toContain("deficiencies:write");
+    });
+
+    it("should narrow requested scopes to what the role allows", () => {
+      expect(resolveKeyScopes("viewer", ["projects:read", "deficiencies:write"])).toEqual(["projects:read"]);
+      expect(resolveKeyScopes("editor", null)).toEqual(getRoleScopes("editor"));
+      expect(hasScope(resolveKeyScopes("viewer", []), "photos", "read")).toBe(true);
+      expect(hasScope(resolveKeyScopes("viewer", []), "deficiencies", "write")).toBe(false);
+    });
+  });
+
+  describe("OpenAPI document", () => {
+    it("should convert Express paths", () => {
+      expect(toOpenApiPath("/projects/:id")).toBe("/projects/{id}");
+    });
+
+    it("should document every registered route", () => {
+      const doc = getOpenApiDocument();
+      for (const route of PUBLIC_API_ROUTES) {
+        const operation = (doc.paths[toOpenApiPath(route.path)] as any)?.[route.method];
+        expect(operation, `${route.method} ${route.path}`).toBeDefined();
+        expect(operation["x-required-scope"]).toBe(`${route.resource}:${route.access}`);
+      }
+      expect(doc.servers[0].url).toBe("/api/v1");
+    });
+
+    it("should describe query parameters, bodies and list envelopes", () => {
+      const doc = getOpenApiDocument() as any;
+      const listAssessments = doc.paths["/assessments"].get;
+      expect(listAssessments.parameters.map((p: any) => p.name)).toEqual(["limit", "offset", "projectId", "assetId"]);
+      expect(listAssessments.responses["200"].content["application/json"].schema.properties.pagination).toBeDefined();
+
+      const createDeficiency = doc.paths["/deficiencies"].post;
+      expect(createDeficiency.requestBody.content["application/json"].schema.required).toContain("title");
+      expect(createDeficiency.responses["201"]).toBeDefined();
+      expect(doc.components.schemas.Deficiency.properties.severity.enum).toContain("critical");
+    });
+  });
+
+  describe("resources", () => {
+    it("should leave deleted and hidden assessments out", () => {
+      const { sql } = new MySqlDialect().sqlToQuery(and(...visibleAssessmentConditions())!);
+      expect(sql).toContain("`assessments`.`deletedAt` is null");
+      expect(sql).toContain("(`assessments`.`hidden` = ? or `assessments`.`hidden` is null)");
+    });
+  });
+});
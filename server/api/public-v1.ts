@@ -0,0 +1,448 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import crypto from 'crypto';
+import { apiKeyRateLimiter } from '../_core/security';
+import { createAuditLog, type AuditEntityType } from '../auditLog';
+import {
+  authenticateApiKey,
+  extractApiKey,
+  type AuthenticatedApiKey,
+} from '../services/apiKeyService';
+import * as publicApiDb from '../db/publicApi.db';
+import { checkApiKeyAccess, type AccessRequest } from '../services/accessPolicy.service';
+import { buildOpenApiDocument, type PublicApiRouteSpec } from './openapi';
+import { hasScope, type PublicApiResource } from '../../shared/publicApi';
+
+/**
+ * Public REST API (v1)
+ *
+ * Versioned, API-key authenticated REST access for reporting scripts and GIS tools.
+ * Keys are company-scoped and carry scopes derived from a company role; each key
+ * has its own rate limit and every key-authenticated call is written to audit_logs.
+ * The OpenAPI document at /api/v1/openapi.json is generated from the route table below.
+ */
+
+type KeyedRequest = Request & { apiKey?: AuthenticatedApiKey; requestId?: string };
+
+interface RouteContext {
+  key: AuthenticatedApiKey;
+  companyName: string;
+  params: Record<string, number>;
+  query: any;
+  body: any;
+}
+
+interface PublicApiRoute extends PublicApiRouteSpec {
+  handler: (ctx: RouteContext) => Promise<unknown>;
+}
+
+class PublicApiError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+const notFound = (resource: string) => new PublicApiError(404, 'Not found', `${resource} not found`);
+
+/**
+ * Apply the company's access policies to a key's write, as the role the key was issued with
+ */
+async function requirePolicyAccess(key: AuthenticatedApiKey, request: AccessRequest) {
+  const result = await checkApiKeyAccess(key, request);
+  if (!result.allowed) throw new PublicApiError(403, 'Forbidden', result.message);
+}
+
+function found<T>(value: T | undefined, resource: string): { data: T } {
+  if (!value) throw notFound(resource);
+  return { data: value };
+}
+
+const ENTITY_TYPES: Record<PublicApiResource, AuditEntityType> = {
+  projects: 'project',
+  assets: 'asset',
+  assessments: 'assessment',
+  deficiencies: 'deficiency',
+  photos: 'photo',
+};
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const pageQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const projectFilterQuery = pageQuery.extend({
+  projectId: z.coerce.number().int().positive().optional(),
+});
+
+const assetFilterQuery = projectFilterQuery.extend({
+  assetId: z.coerce.number().int().positive().optional(),
+});
+
+const severityEnum = z.enum(['low', 'medium', 'high', 'critical']);
+const priorityEnum = z.enum(['immediate', 'short_term', 'medium_term', 'long_term']);
+
+const createDeficiencyBody = z.object({
+  projectId: z.number().int().positive(),
+  assessmentId: z.number().int().positive().optional(),
+  componentCode: z.string().min(1).max(20),
+  title: z.string().min(1).max(255),
+  description: z.string().optional(),
+  location: z.string().max(255).optional(),
+  severity: severityEnum,
+  priority: priorityEnum,
+  recommendedAction: z.string().optional(),
+  estimatedCost: z.number().int().min(0).optional(),
+});
+
+const updateDeficiencyBody = z.object({
+  title: z.string().min(1).max(255).optional(),
+  description: z.string().optional(),
+  location: z.string().max(255).optional(),
+  severity: severityEnum.optional(),
+  priority: priorityEnum.optional(),
+  status: z.enum(['open', 'in_progress', 'resolved', 'deferred']).optional(),
+  recommendedAction: z.string().optional(),
+  estimatedCost: z.number().int().min(0).optional(),
+}).refine(body => Object.keys(body).length > 0, { message: 'At least one field is required' });
+
+/**
+ * Response shapes documented in the OpenAPI spec (records may carry additional fields)
+ */
+const responseSchemas: Record<string, z.ZodType> = {
+  Project: z.looseObject({
+    id: z.number().int(),
+    name: z.string(),
+    projectNumber: z.string().nullable(),
+    address: z.string().nullable(),
+    status: z.string(),
+    yearBuilt: z.number().int().nullable(),
+    fci: z.string().nullable(),
+    currentReplacementValue: z.string().nullable(),
+    latitude: z.string().nullable(),
+    longitude: z.string().nullable(),
+    updatedAt: z.string(),
+  }),
+  Asset: z.looseObject({
+    id: z.number().int(),
+    projectId: z.number().int(),
+    name: z.string(),
+    assetCode: z.string(),
+    status: z.string().nullable(),
+    yearBuilt: z.number().int().nullable(),
+    latitude: z.string().nullable(),
+    longitude: z.string().nullable(),
+    replacementValue: z.string().nullable(),
+    overallCondition: z.string().nullable(),
+    fciScore: z.string().nullable(),
+  }),
+  Assessment: z.looseObject({
+    id: z.number().int(),
+    projectId: z.number().int().nullable(),
+    assetId: z.number().int().nullable(),
+    componentCode: z.string().nullable(),
+    componentName: z.string().nullable(),
+    condition: z.string().nullable(),
+    conditionPercentage: z.string().nullable(),
+    status: z.string().nullable(),
+    assessedAt: z.string().nullable(),
+  }),
+  Deficiency: z.looseObject({
+    id: z.number().int(),
+    projectId: z.number().int(),
+    assessmentId: z.number().int().nullable(),
+    componentCode: z.string(),
+    title: z.string(),
+    severity: severityEnum,
+    priority: priorityEnum,
+    status: z.string(),
+    estimatedCost: z.number().int().nullable(),
+  }),
+  Photo: z.looseObject({
+    id: z.number().int(),
+    projectId: z.number().int(),
+    assetId: z.number().int().nullable(),
+    assessmentId: z.number().int().nullable(),
+    deficiencyId: z.number().int().nullable(),
+    url: z.string(),
+    caption: z.string().nullable(),
+    takenAt: z.string().nullable(),
+    latitude: z.string().nullable(),
+    longitude: z.string().nullable(),
+  }),
+};
+
+function paginated<T>(result: { data: T[]; total: number }, query: { limit: number; offset: number }) {
+  return {
+    data: result.data,
+    pagination: { limit: query.limit, offset: query.offset, total: result.total },
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export const PUBLIC_API_ROUTES: PublicApiRoute[] = [
+  {
+    method: 'get', path: '/projects', resource: 'projects', access: 'read',
+    summary: 'List projects',
+    query: pageQuery,
+    response: { schema: 'Project', list: true },
+    handler: async ({ companyName, query }) => paginated(await publicApiDb.listProjects(companyName, query), query),
+  },
+  {
+    method: 'get', path: '/projects/:id', resource: 'projects', access: 'read',
+    summary: 'Get a project',
+    response: { schema: 'Project' },
+    handler: async ({ companyName, params }) => found(await publicApiDb.getProject(companyName, params.id), 'Project'),
+  },
+  {
+    method: 'get', path: '/assets', resource: 'assets', access: 'read',
+    summary: 'List assets',
+    query: projectFilterQuery,
+    response: { schema: 'Asset', list: true },
+    handler: async ({ companyName, query }) => paginated(await publicApiDb.listAssets(companyName, query, query), query),
+  },
+  {
+    method: 'get', path: '/assets/:id', resource: 'assets', access: 'read',
+    summary: 'Get an asset',
+    response: { schema: 'Asset' },
+    handler: async ({ companyName, params }) => found(await publicApiDb.getAsset(companyName, params.id), 'Asset'),
+  },
+  {
+    method: 'get', path: '/assessments', resource: 'assessments', access: 'read',
+    summary: 'List assessments',
+    query: assetFilterQuery,
+    response: { schema: 'Assessment', list: true },
+    handler: async ({ companyName, query }) => paginated(await publicApiDb.listAssessments(companyName, query, query), query),
+  },
+  {
+    method: 'get', path: '/assessments/:id', resource: 'assessments', access: 'read',
+    summary: 'Get an assessment',
+    response: { schema: 'Assessment' },
+    handler: async ({ companyName, params }) => found(await publicApiDb.getAssessment(companyName, params.id), 'Assessment'),
+  },
+  {
+    method: 'get', path: '/deficiencies', resource: 'deficiencies', access: 'read',
+    summary: 'List deficiencies',
+    query: projectFilterQuery,
+    response: { schema: 'Deficiency', list: true },
+    handler: async ({ companyName, query }) => paginated(await publicApiDb.listDeficiencies(companyName, query, query), query),
+  },
+  {
+    method: 'get', path: '/deficiencies/:id', resource: 'deficiencies', access: 'read',
+    summary: 'Get a deficiency',
+    response: { schema: 'Deficiency' },
+    handler: async ({ companyName, params }) => found(await publicApiDb.getDeficiency(companyName, params.id), 'Deficiency'),
+  },
+  {
+    method: 'post', path: '/deficiencies', resource: 'deficiencies', access: 'write',
+    summary: 'Create a deficiency',
+    body: createDeficiencyBody,
+    response: { schema: 'Deficiency', status: 201 },
+    handler: async ({ key, companyName, body }) => {
+      if (!(await publicApiDb.isCompanyProject(companyName, body.projectId))) throw notFound('Project');
+      if (body.assessmentId !== undefined) {
+        const assessment = await publicApiDb.getAssessment(companyName, body.assessmentId);
+        if (!assessment || assessment.projectId !== body.projectId) throw notFound('Assessment');
+      }
+      await requirePolicyAccess(key, { action: 'assessment.edit', projectId: body.projectId, componentCode: body.componentCode });
+
+      const deficiency = await publicApiDb.createDeficiency({ ...body, status: 'open' });
+      await logApiDeficiencyChange(key, deficiency.id, body.projectId, body.componentCode, true);
+      return { data: deficiency };
+    },
+  },
+  {
+    method: 'patch', path: '/deficiencies/:id', resource: 'deficiencies', access: 'write',
+    summary: 'Update a deficiency',
+    body: updateDeficiencyBody,
+    response: { schema: 'Deficiency' },
+    handler: async ({ key, companyName, params, body }) => {
+      const existing = await publicApiDb.getDeficiency(companyName, params.id);
+      if (!existing) throw notFound('Deficiency');
+      await requirePolicyAccess(key, { action: 'assessment.edit', projectId: existing.projectId, componentCode: existing.componentCode });
+
+      const updated = await publicApiDb.updateDeficiency(params.id, body);
+      const { detectChanges } = await import('../componentHistoryService');
+      await logApiDeficiencyChange(key, params.id, existing.projectId, existing.componentCode, false, detectChanges(existing, updated));
+      return { data: updated };
+    },
+  },
+  {
+    method: 'get', path: '/photos', resource: 'photos', access: 'read',
+    summary: 'List photos',
+    query: assetFilterQuery,
+    response: { schema: 'Photo', list: true },
+    handler: async ({ companyName, query }) => paginated(await publicApiDb.listPhotos(companyName, query, query), query),
+  },
+  {
+    method: 'get', path: '/photos/:id', resource: 'photos', access: 'read',
+    summary: 'Get a photo',
+    response: { schema: 'Photo' },
+    handler: async ({ companyName, params }) => found(await publicApiDb.getPhoto(companyName, params.id), 'Photo'),
+  },
+];
+
+/**
+ * Record API writes in component history (which also notifies webhook subscribers)
+ * Writes are attributed to the admin who issued the key
+ */
+async function logApiDeficiencyChange(
+  key: AuthenticatedApiKey,
+  deficiencyId: number,
+  projectId: number,
+  componentCode: string,
+  isNew: boolean,
+  changes?: Record<string, { old: any; new: any }>
+) {
+  if (!key.createdBy) return;
+  const { logDeficiencyChange } = await import('../componentHistoryService');
+  await logDeficiencyChange({
+    projectId,
+    componentCode,
+    deficiencyId,
+    userId: key.createdBy,
+    userName: `API key "${key.name}"`,
+    isNew,
+    changes,
+  });
+}
+
+export function getOpenApiDocument() {
+  return buildOpenApiDocument(PUBLIC_API_ROUTES, responseSchemas);
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Authenticate the API key and attach it to the request
+ */
+async function requireApiKey(req: KeyedRequest, res: Response, next: NextFunction) {
+  try {
+    const result = await authenticateApiKey(extractApiKey(req.headers), req.ip);
+    if ('error' in result) {
+      console.warn('[PublicAPI] Rejected API key:', { reason: result.error, ip: req.ip, path: req.path });
+      res.status(401).json({ error: 'Unauthorized', message: `API key ${result.error === 'missing' ? 'required' : result.error}` });
+      return;
+    }
+
+    req.apiKey = result.key;
+    req.requestId = crypto.randomUUID();
+    res.setHeader('X-Request-Id', req.requestId);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Write an audit entry for every key-authenticated call once the response is sent
+ */
+function auditApiCall(resource: PublicApiResource) {
+  return (req: KeyedRequest, res: Response, next: NextFunction) => {
+    const startedAt = Date.now();
+    res.on('finish', () => {
+      const key = req.apiKey;
+      if (!key) return;
+
+      const entityId = req.params.id ? parseInt(req.params.id, 10) : null;
+      createAuditLog({
+        companyId: key.companyId,
+        actionType: 'api_access',
+        entityType: ENTITY_TYPES[resource],
+        entityId: Number.isFinite(entityId) ? entityId : null,
+        module: 'public_api',
+        changesSummary: `${req.method} ${req.baseUrl}${req.path} → ${res.statusCode}`,
+        status: res.statusCode < 400 ? 'success' : 'failed',
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+        requestId: req.requestId,
+        metadata: {
+          apiKeyId: key.id,
+          apiKeyName: key.name,
+          keyPrefix: key.keyPrefix,
+          method: req.method,
+          path: `${req.baseUrl}${req.path}`,
+          query: req.query,
+          statusCode: res.statusCode,
+          durationMs: Date.now() - startedAt,
+        },
+      });
+    });
+    next();
+  };
+}
+
+function handle(route: PublicApiRoute) {
+  return async (req: KeyedRequest, res: Response) => {
+    const key = req.apiKey!;
+
+    if (!hasScope(key.scopes, route.resource, route.access)) {
+      res.status(403).json({ error: 'Forbidden', message: `API key lacks the ${route.resource}:${route.access} scope` });
+      return;
+    }
+    if (!key.companyName) {
+      res.status(403).json({ error: 'Forbidden', message: 'API key company not found' });
+      return;
+    }
+
+    const params: Record<string, number> = {};
+    for (const [name, value] of Object.entries(req.params)) {
+      const id = Number(value);
+      if (!Number.isInteger(id) || id <= 0) {
+        res.status(400).json({ error: 'Invalid request', message: `Invalid ${name}` });
+        return;
+      }
+      params[name] = id;
+    }
+
+    const query = route.query ? route.query.safeParse(req.query) : { success: true as const, data: {} };
+    const body = route.body ? route.body.safeParse(req.body) : { success: true as const, data: undefined };
+    for (const parsed of [query, body]) {
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid request', message: parsed.error.issues.map(i => `${i.path.join('.') || 'body'}: ${i.message}`).join('; ') });
+        return;
+      }
+    }
+
+    try {
+      const result = await route.handler({ key, companyName: key.companyName, params, query: query.data, body: body.data });
+      res.status(route.response.status ?? 200).json(result);
+    } catch (error) {
+      if (error instanceof PublicApiError) {
+        res.status(error.status).json({ error: error.code, message: error.message });
+        return;
+      }
+      console.error(`[PublicAPI] ${route.method.toUpperCase()} ${route.path} failed:`, error);
+      res.status(500).json({ error: 'Internal server error', message: 'The request could not be completed' });
+    }
+  };
+}
+
+/**
+ * Build the /api/v1 router
+ */
+export function createPublicApiRouter(): Router {
+  const router = Router();
+
+  router.get('/openapi.json', (_req, res) => {
+    res.json(getOpenApiDocument());
+  });
+
+  for (const route of PUBLIC_API_ROUTES) {
+    router[route.method](route.path, requireApiKey, auditApiCall(route.resource), apiKeyRateLimiter, handle(route));
+  }
+
+  router.use((_req, res) => {
+    res.status(404).json({ error: 'Not found', message: 'Unknown API endpoint' });
+  });
+
+  return router;
+}
@@ -0,0 +1,240 @@
+import express, { Router, type Request, type Response, type NextFunction } from 'express';
+import crypto from 'crypto';
+import { scimRateLimiter } from '../_core/security';
+import {
+  GROUP_FILTER_ATTRIBUTES,
+  USER_FILTER_ATTRIBUTES,
+  authenticateScimToken,
+  createScimGroup,
+  createScimUser,
+  deleteScimGroup,
+  deleteScimUser,
+  extractBearerToken,
+  getScimGroup,
+  getScimUser,
+  listScimGroups,
+  listScimUsers,
+  updateScimGroup,
+  updateScimUser,
+  type AuthenticatedScimToken,
+  type ScimRequestContext,
+} from '../services/scimService';
+import {
+  SCIM_CONTENT_TYPE,
+  ScimError,
+  applyGroupPatch,
+  applyUserPatch,
+  buildResourceTypes,
+  buildSchemas,
+  buildServiceProviderConfig,
+  parseListParams,
+  parseScimFilter,
+  parseScimGroup,
+  parseScimUser,
+  toListResponse,
+  toScimErrorBody,
+  toScimGroup,
+  toScimUser,
+  toUserAttributes,
+} from '../scim';
+
+/**
+ * SCIM 2.0 provisioning endpoint (/api/scim/v2)
+ *
+ * Lets a company's identity provider create, update and deactivate its members and push
+ * groups that map to company roles. Each company authenticates with its own bearer token;
+ * every change is written to audit_logs by the SCIM service.
+ */
+
+type ScimRequest = Request & { scimToken?: AuthenticatedScimToken; requestId?: string };
+
+type ScimHandler = (req: ScimRequest, ctx: ScimRequestContext) => Promise<{ status?: number; body?: unknown }>;
+
+function sendScim(res: Response, status: number, body?: unknown) {
+  res.status(status);
+  if (body === undefined) {
+    res.end();
+    return;
+  }
+  res.type(SCIM_CONTENT_TYPE).send(JSON.stringify(body));
+}
+
+/**
+ * Absolute base URL used in resource locations
+ */
+function getBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) throw new ScimError(404, `Resource ${value} not found`);
+  return id;
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Authenticate the company's bearer token and attach it to the request
+ */
+async function requireScimToken(req: ScimRequest, res: Response, next: NextFunction) {
+  try {
+    const result = await authenticateScimToken(extractBearerToken(req.headers.authorization), req.ip);
+    if ('error' in result) {
+      console.warn('[SCIM] Rejected token:', { reason: result.error, ip: req.ip, path: req.path });
+      sendScim(res, 401, toScimErrorBody(401, `SCIM token ${result.error === 'missing' ? 'required' : result.error}`));
+      return;
+    }
+
+    req.scimToken = result.token;
+    req.requestId = crypto.randomUUID();
+    res.setHeader('X-Request-Id', req.requestId);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+function handle(handler: ScimHandler) {
+  return async (req: ScimRequest, res: Response) => {
+    const ctx: ScimRequestContext = {
+      token: req.scimToken!,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestId: req.requestId,
+    };
+
+    try {
+      const result = await handler(req, ctx);
+      sendScim(res, result.status ?? 200, result.body);
+    } catch (error) {
+      if (error instanceof ScimError) {
+        sendScim(res, error.status, toScimErrorBody(error.status, error.message, error.scimType));
+        return;
+      }
+      console.error(`[SCIM] ${req.method} ${req.baseUrl}${req.path} failed:`, error);
+      sendScim(res, 500, toScimErrorBody(500, 'The request could not be completed'));
+    }
+  };
+}
+
+// ============================================================================
+// Router
+// ============================================================================
+
+/**
+ * Build the /api/scim/v2 router
+ */
+export function createScimRouter(): Router {
+  const router = Router();
+
+  // Identity providers send application/scim+json, which the app-wide JSON parser skips
+  router.use(express.json({ type: ['application/json', SCIM_CONTENT_TYPE], limit: '1mb' }));
+  router.use(requireScimToken, scimRateLimiter);
+
+  router.get('/ServiceProviderConfig', handle(async req => ({ body: buildServiceProviderConfig(getBaseUrl(req)) })));
+
+  router.get('/ResourceTypes', handle(async req => {
+    const resourceTypes = buildResourceTypes(getBaseUrl(req));
+    return { body: toListResponse(resourceTypes, resourceTypes.length, 1) };
+  }));
+
+  router.get('/Schemas', handle(async req => {
+    const schemas = buildSchemas(getBaseUrl(req));
+    return { body: toListResponse(schemas, schemas.length, 1) };
+  }));
+
+  // Users
+
+  router.get('/Users', handle(async (req, ctx) => {
+    const filter = parseScimFilter(req.query.filter as string | undefined, USER_FILTER_ATTRIBUTES);
+    const page = parseListParams(req.query);
+    const { total, members } = await listScimUsers(ctx.token.companyId, filter, page);
+    const baseUrl = getBaseUrl(req);
+    return { body: toListResponse(members.map(member => toScimUser(member, baseUrl)), total, page.startIndex) };
+  }));
+
+  router.get('/Users/:id', handle(async (req, ctx) => {
+    const member = await getScimUser(ctx.token.companyId, parseId(req.params.id));
+    if (!member) throw new ScimError(404, `User ${req.params.id} not found`);
+    return { body: toScimUser(member, getBaseUrl(req)) };
+  }));
+
+  router.post('/Users', handle(async (req, ctx) => {
+    const member = await createScimUser(ctx, parseScimUser(req.body));
+    return { status: 201, body: toScimUser(member, getBaseUrl(req)) };
+  }));
+
+  router.put('/Users/:id', handle(async (req, ctx) => {
+    const member = await updateScimUser(ctx, parseId(req.params.id), parseScimUser(req.body));
+    return { body: toScimUser(member, getBaseUrl(req)) };
+  }));
+
+  router.patch('/Users/:id', handle(async (req, ctx) => {
+    const userId = parseId(req.params.id);
+    const current = await getScimUser(ctx.token.companyId, userId);
+    if (!current) throw new ScimError(404, `User ${req.params.id} not found`);
+
+    const member = await updateScimUser(ctx, userId, applyUserPatch(toUserAttributes(current), req.body));
+    return { body: toScimUser(member, getBaseUrl(req)) };
+  }));
+
+  router.delete('/Users/:id', handle(async (req, ctx) => {
+    await deleteScimUser(ctx, parseId(req.params.id));
+    return { status: 204 };
+  }));
+
+  // Groups
+
+  router.get('/Groups', handle(async (req, ctx) => {
+    const filter = parseScimFilter(req.query.filter as string | undefined, GROUP_FILTER_ATTRIBUTES);
+    const page = parseListParams(req.query);
+    const { total, groups } = await listScimGroups(ctx.token.companyId, filter, page);
+    const baseUrl = getBaseUrl(req);
+    return { body: toListResponse(groups.map(group => toScimGroup(group, baseUrl)), total, page.startIndex) };
+  }));
+
+  router.get('/Groups/:id', handle(async (req, ctx) => {
+    const group = await getScimGroup(ctx.token.companyId, parseId(req.params.id));
+    if (!group) throw new ScimError(404, `Group ${req.params.id} not found`);
+    return { body: toScimGroup(group, getBaseUrl(req)) };
+  }));
+
+  router.post('/Groups', handle(async (req, ctx) => {
+    const group = await createScimGroup(ctx, parseScimGroup(req.body));
+    return { status: 201, body: toScimGroup(group, getBaseUrl(req)) };
+  }));
+
+  router.put('/Groups/:id', handle(async (req, ctx) => {
+    const group = await updateScimGroup(ctx, parseId(req.params.id), parseScimGroup(req.body));
+    return { body: toScimGroup(group, getBaseUrl(req)) };
+  }));
+
+  router.patch('/Groups/:id', handle(async (req, ctx) => {
+    const groupId = parseId(req.params.id);
+    const current = await getScimGroup(ctx.token.companyId, groupId);
+    if (!current) throw new ScimError(404, `Group ${req.params.id} not found`);
+
+    const attributes = applyGroupPatch({
+      displayName: current.displayName,
+      externalId: current.externalId,
+      memberIds: current.members.map(member => member.userId),
+    }, req.body);
+    await updateScimGroup(ctx, groupId, attributes);
+    // Azure AD and Okta accept 204 for PATCH; skipping the body avoids echoing large member lists
+    return { status: 204 };
+  }));
+
+  router.delete('/Groups/:id', handle(async (req, ctx) => {
+    await deleteScimGroup(ctx, parseId(req.params.id));
+    return { status: 204 };
+  }));
+
+  router.use((_req: Request, res: Response) => {
+    sendScim(res, 404, toScimErrorBody(404, 'Unknown SCIM endpoint'));
+  });
+
+  return router;
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for the offline assessment three-way merge
+ */
+
+import { describe, expect, it } from "vitest";
+import { normalizeFieldValue, pickAssessmentFields, threeWayMerge } from "../shared/assessmentMerge";
+
+describe("assessment three-way merge", () => {
+  const server = {
+    condition: "fair",
+    status: "active",
+    observations: "Cracking at north wall",
+    remainingUsefulLife: 12,
+    estimatedRepairCost: "15000.00",
+    replacementValue: null,
+  };
+
+  it("should compare decimal strings and numbers by value", () => {
+    expect(normalizeFieldValue("estimatedRepairCost", "15000.00")).toBe(15000);
+    expect(normalizeFieldValue("observations", "  ")).toBeNull();
+    expect(pickAssessmentFields({ condition: "good", id: 4, reviewYear: undefined })).toEqual({ condition: "good" });
+  });
+
+  it("should take offline edits to fields the server did not change", () => {
+    const base = { condition: "fair", remainingUsefulLife: 12, estimatedRepairCost: 15000 };
+    const local = { condition: "poor", remainingUsefulLife: 5, estimatedRepairCost: 15000 };
+
+    const result = threeWayMerge(base, local, server);
+    expect(result.patch).toEqual({ condition: "poor", remainingUsefulLife: 5 });
+    expect(result.mergedFields).toEqual(["condition", "remainingUsefulLife"]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("should keep server edits the offline copy did not touch", () => {
+    const base = { condition: "good", status: "initial" };
+    const local = { condition: "good", status: "initial" };
+
+    expect(threeWayMerge(base, local, server)).toEqual({ patch: {}, mergedFields: [], conflicts: [] });
+  });
+
+  it("should report fields changed on both sides with all three values", () => {
+    const base = { condition: "good", estimatedRepairCost: 9000 };
+    const local = { condition: "poor", estimatedRepairCost: 15000 };
+
+    const result = threeWayMerge(base, local, server);
+    expect(result.patch).toEqual({});
+    expect(result.conflicts).toEqual([
+      { field: "condition", label: "Condition", localValue: "poor", serverValue: "fair", baseValue: "good" },
+    ]);
+  });
+
+  it("should treat a field missing from the offline copy as cleared", () => {
+    const result = threeWayMerge({ observations: "Cracking at north wall" }, {}, server);
+    expect(result.patch).toEqual({ observations: null });
+  });
+
+  it("should fill empty server fields and flag differing ones when there is no base", () => {
+    const local = { condition: "poor", replacementValue: 250000, observations: "Cracking at north wall" };
+
+    const result = threeWayMerge(null, local, server);
+    expect(result.patch).toEqual({ replacementValue: 250000 });
+    expect(result.conflicts.map(c => c.field)).toEqual(["condition"]);
+    expect(result.conflicts[0].baseValue).toBeNull();
+  });
+});
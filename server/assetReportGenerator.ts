@@ -1,7 +1,9 @@
-import { jsPDF } from "jspdf";
+import { jsPDF, GState } from "jspdf";
 import autoTable from "jspdf-autotable";
 import type { Asset, Assessment, Deficiency, Photo } from "../drizzle/schema";
-import { validateAssetReport, calculateFCI, getFCIRating, fciToPercentage, type AssetReportData, type AssessmentAction } from "./reportDataValidation";
+import { validateAssetReport, calculateFCI, getFCIRating, fciToPercentage, type AssetReportData, type AssessmentAction, type AssetReportFloorPlan, type AssetReportModelViewpoint } from "./reportDataValidation";
+import { PIN_COLORS, computeHeatmapGrid, getPinHeatWeight, heatmapColor, type FloorPlanHeatmapMode } from "../shared/floorPlans";
+import { ANNOTATION_PRIORITY_LABELS, getAnnotationColor, getAnnotationPriority, isAnnotationResolved } from "../shared/modelAnnotations";
 
 // AssetReportData type is now imported from reportDataValidation
 
@@ -723,6 +725,205 @@ export async function generateAssetReport(inputData: AssetReportData): Promise<B
     yPos = (doc as any).lastAutoTable.finalY + 15;
   }
 
+  // ============================================
+  // FLOOR PLANS SECTION (snapshots with this asset's pins)
+  // ============================================
+  const floorPlans: AssetReportFloorPlan[] = data.floorPlans || [];
+  for (const plan of floorPlans) {
+    doc.addPage();
+    addB3NMAHeader();
+    yPos = 25;
+
+    doc.setFontSize(18);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...B3NMA_TEAL);
+    doc.text(plan.floorLevel ? `Floor Plan: ${plan.name} (${plan.floorLevel})` : `Floor Plan: ${plan.name}`, 10, yPos);
+    doc.setTextColor(0, 0, 0);
+    yPos += 8;
+
+    try {
+      const response = await fetch(plan.imageUrl);
+      if (!response.ok) throw new Error('Failed to fetch floor plan image');
+      const base64 = Buffer.from(await response.arrayBuffer()).toString('base64');
+      const format = plan.mimeType === 'image/png' ? 'PNG' : plan.mimeType === 'image/webp' ? 'WEBP' : 'JPEG';
+      const dataUrl = `data:${plan.mimeType || 'image/jpeg'};base64,${base64}`;
+
+      const props = plan.imageWidth && plan.imageHeight
+        ? { width: plan.imageWidth, height: plan.imageHeight }
+        : doc.getImageProperties(dataUrl);
+      const aspectRatio = props.width / props.height;
+
+      // Fit within the page body, leaving room for the pin legend
+      let imgWidth = 190;
+      let imgHeight = imgWidth / aspectRatio;
+      if (imgHeight > 170) {
+        imgHeight = 170;
+        imgWidth = imgHeight * aspectRatio;
+      }
+      const imgX = 10 + (190 - imgWidth) / 2;
+      const imgY = yPos;
+
+      doc.addImage(dataUrl, format, imgX, imgY, imgWidth, imgHeight);
+
+      // Severity hot spots when the asset has pinned deficiencies, otherwise condition
+      const heatmapMode: FloorPlanHeatmapMode = plan.pins.some(p => getPinHeatWeight(p, 'severity') !== null)
+        ? 'severity'
+        : 'condition';
+      const grid = computeHeatmapGrid(plan.pins, heatmapMode, { aspectRatio, columns: 32 });
+      const cellWidth = imgWidth / grid.columns;
+      const cellHeight = imgHeight / grid.rows;
+      doc.setGState(new GState({ opacity: 0.35 }));
+      grid.cells.forEach((value, index) => {
+        if (value < 0.05) return;
+        const col = index % grid.columns;
+        const row = Math.floor(index / grid.columns);
+        doc.setFillColor(...heatmapColor(value));
+        doc.rect(imgX + col * cellWidth, imgY + row * cellHeight, cellWidth, cellHeight, "F");
+      });
+      doc.setGState(new GState({ opacity: 1 }));
+
+      // Numbered pins, keyed to the legend below
+      plan.pins.forEach((pin, index) => {
+        const pinX = imgX + pin.x * imgWidth;
+        const pinY = imgY + pin.y * imgHeight;
+        doc.setFillColor(...PIN_COLORS[pin.type]);
+        doc.setDrawColor(255, 255, 255);
+        doc.circle(pinX, pinY, 2.5, "FD");
+        doc.setFontSize(6);
+        doc.setFont("helvetica", "bold");
+        doc.setTextColor(255, 255, 255);
+        doc.text(String(index + 1), pinX, pinY + 0.8, { align: "center" });
+      });
+      doc.setTextColor(0, 0, 0);
+      doc.setDrawColor(0, 0, 0);
+
+      yPos = imgY + imgHeight + 6;
+      if (grid.cells.some(v => v >= 0.05)) {
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "italic");
+        doc.text(`Heat map shaded by ${heatmapMode === 'severity' ? 'deficiency severity' : 'component condition'}`, 10, yPos);
+        yPos += 4;
+      }
+    } catch (error) {
+      console.error(`[AssetReport] Floor plan "${plan.name}" unavailable:`, error);
+      doc.setFontSize(9);
+      doc.setFont("helvetica", "normal");
+      doc.text("[Floor plan unavailable]", 10, yPos + 10);
+      yPos += 20;
+    }
+
+    if (plan.pins.length > 0) {
+      autoTable(doc, {
+        startY: yPos,
+        head: [["#", "Type", "Item", "Condition / Severity", "Status"]],
+        body: plan.pins.map((pin, index) => [
+          String(index + 1),
+          pin.type.charAt(0).toUpperCase() + pin.type.slice(1),
+          pin.componentCode ? `${pin.componentCode} - ${pin.label}` : pin.label,
+          pin.condition || pin.severity || "-",
+          pin.status ? pin.status.replace(/_/g, " ") : "-",
+        ]),
+        theme: "striped",
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: B3NMA_NAVY, textColor: [255, 255, 255], fontStyle: "bold" },
+        columnStyles: {
+          0: { cellWidth: 10 },
+          1: { cellWidth: 25 },
+          2: { cellWidth: 95 },
+        },
+        didParseCell: (cell) => {
+          if (cell.section === 'body' && cell.column.index === 1) {
+            cell.cell.styles.textColor = PIN_COLORS[plan.pins[cell.row.index].type];
+            cell.cell.styles.fontStyle = "bold";
+          }
+        },
+        didDrawPage: () => addB3NMAHeader(),
+        margin: { top: 20 },
+      });
+    }
+  }
+
+  // ============================================
+  // 3D VIEWPOINTS SECTION (annotated snapshots from the model viewer)
+  // ============================================
+  const modelViewpoints: AssetReportModelViewpoint[] = data.modelViewpoints || [];
+  for (const viewpoint of modelViewpoints) {
+    doc.addPage();
+    addB3NMAHeader();
+    yPos = 25;
+
+    doc.setFontSize(18);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...B3NMA_TEAL);
+    doc.text(`3D View: ${viewpoint.name}`, 10, yPos);
+    doc.setTextColor(0, 0, 0);
+    yPos += 6;
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    doc.text(viewpoint.description ? `${viewpoint.modelName} - ${viewpoint.description}` : viewpoint.modelName, 10, yPos);
+    yPos += 5;
+
+    try {
+      // Markers and their numbers are drawn into the snapshot by the viewer
+      const response = await fetch(viewpoint.snapshotUrl);
+      if (!response.ok) throw new Error('Failed to fetch viewpoint snapshot');
+      const dataUrl = `data:image/png;base64,${Buffer.from(await response.arrayBuffer()).toString('base64')}`;
+
+      const props = viewpoint.snapshotWidth && viewpoint.snapshotHeight
+        ? { width: viewpoint.snapshotWidth, height: viewpoint.snapshotHeight }
+        : doc.getImageProperties(dataUrl);
+      const aspectRatio = props.width / props.height;
+
+      let imgWidth = 190;
+      let imgHeight = imgWidth / aspectRatio;
+      if (imgHeight > 160) {
+        imgHeight = 160;
+        imgWidth = imgHeight * aspectRatio;
+      }
+      doc.addImage(dataUrl, 'PNG', 10 + (190 - imgWidth) / 2, yPos, imgWidth, imgHeight);
+      yPos += imgHeight + 6;
+    } catch (error) {
+      console.error(`[AssetReport] Viewpoint "${viewpoint.name}" unavailable:`, error);
+      doc.setFontSize(9);
+      doc.text("[Viewpoint snapshot unavailable]", 10, yPos + 10);
+      yPos += 20;
+    }
+
+    if (viewpoint.annotations.length > 0) {
+      autoTable(doc, {
+        startY: yPos,
+        head: [["#", "Type", "Annotation", "Priority", "Status"]],
+        body: viewpoint.annotations.map(annotation => {
+          const priority = getAnnotationPriority(annotation);
+          const item = annotation.componentCode ? `${annotation.componentCode} - ${annotation.title}` : annotation.title;
+          return [
+            String(annotation.number),
+            annotation.annotationType.charAt(0).toUpperCase() + annotation.annotationType.slice(1),
+            annotation.componentName ? `${item} (${annotation.componentName})` : item,
+            priority ? ANNOTATION_PRIORITY_LABELS[priority] : "-",
+            isAnnotationResolved(annotation) ? "Resolved" : (annotation.deficiencyStatus || annotation.status || "-").replace(/_/g, " "),
+          ];
+        }),
+        theme: "striped",
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: B3NMA_NAVY, textColor: [255, 255, 255], fontStyle: "bold" },
+        columnStyles: {
+          0: { cellWidth: 10 },
+          1: { cellWidth: 25 },
+          2: { cellWidth: 95 },
+        },
+        didParseCell: (cell) => {
+          if (cell.section === 'body' && cell.column.index === 3) {
+            cell.cell.styles.textColor = getAnnotationColor(viewpoint.annotations[cell.row.index]);
+            cell.cell.styles.fontStyle = "bold";
+          }
+        },
+        didDrawPage: () => addB3NMAHeader(),
+        margin: { top: 20 },
+      });
+    }
+  }
+
   // ============================================
   // FINANCIAL METRICS SECTION (NEW DEDICATED PAGE)
   // ============================================
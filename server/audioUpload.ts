@@ -1,6 +1,9 @@
 import type { Request, Response } from "express";
 import multer from "multer";
 import { storagePut } from "./storage";
+import { sdk } from "./_core/sdk";
+import { getDb } from "./db";
+import { voiceRecordings } from "../drizzle/schema";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -28,9 +31,29 @@ export async function uploadAudio(req: Request, res: Response) {
       file.mimetype || "audio/webm"
     );
 
+    await recordVoiceRecording(req, { fileKey, url, mimeType: file.mimetype || "audio/webm", fileSize: file.size });
+
     res.json({ url, key: fileKey });
   } catch (error) {
     console.error("Audio upload error:", error);
     res.status(500).json({ error: "Failed to upload audio" });
   }
 }
+
+/**
+ * Track the upload against the signed-in user's company so retention policies cover it
+ */
+async function recordVoiceRecording(
+  req: Request,
+  recording: { fileKey: string; url: string; mimeType: string; fileSize: number }
+) {
+  try {
+    const user = await sdk.authenticateRequest(req).catch(() => null);
+    const db = await getDb();
+    if (!user || !db) return;
+
+    await db.insert(voiceRecordings).values({ ...recording, userId: user.id, companyId: user.companyId ?? null });
+  } catch (error) {
+    console.error("Failed to record voice recording:", error);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for audit chain hashing, verification and signed checkpoints
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  GENESIS_HASH,
+  buildChainLinks,
+  canonicalize,
+  collectDisposedLinks,
+  describeChainBreak,
+  findChainBreak,
+  findCheckpointBreak,
+  hashAuditRow,
+  signCheckpoint,
+  type ChainLinkInput,
+} from "./auditChain";
+
+const rows = [
+  { id: 1, actionType: "create", entityType: "project", entityId: 10, timestamp: "2026-03-01 09:00:00" },
+  { id: 2, actionType: "update", entityType: "project", entityId: 10, timestamp: "2026-03-01 09:05:00" },
+  { id: 3, actionType: "delete", entityType: "asset", entityId: 4, timestamp: "2026-03-01 09:10:00" },
+];
+
+function entries(): ChainLinkInput[] {
+  return rows.map(row => ({ sourceTable: "audit_logs", sourceId: row.id, contentHash: hashAuditRow(row) }));
+}
+
+function currentHashes(source: Record<string, unknown>[]) {
+  return new Map(source.map(row => [`audit_logs:${row.id}`, hashAuditRow(row)] as [string, string | null]));
+}
+
+describe("audit chain", () => {
+  it("should hash rows independently of key order and link each entry to the previous one", () => {
+    expect(canonicalize({ b: 1, a: [new Date("2026-03-01T00:00:00Z"), null] }))
+      .toBe('{"a":["2026-03-01T00:00:00.000Z",null],"b":1}');
+    expect(hashAuditRow({ id: 1, status: "success" })).toBe(hashAuditRow({ status: "success", id: 1 }));
+
+    const links = buildChainLinks(null, entries());
+    expect(links.map(link => link.sequence)).toEqual([1, 2, 3]);
+    expect(links[0].prevHash).toBe(GENESIS_HASH);
+    expect(links[1].prevHash).toBe(links[0].entryHash);
+
+    const continued = buildChainLinks(links[2], entries().slice(0, 1));
+    expect(continued[0]).toMatchObject({ sequence: 4, prevHash: links[2].entryHash });
+  });
+
+  it("should accept an untouched chain and report the first altered, deleted or rewritten entry", () => {
+    const links = buildChainLinks(null, entries());
+    expect(findChainBreak(links, currentHashes(rows), null)).toBeNull();
+
+    const edited = rows.map(row => (row.id === 2 ? { ...row, actionType: "create" } : row));
+    const contentBreak = findChainBreak(links, currentHashes(edited), null);
+    expect(contentBreak).toMatchObject({ reason: "content_mismatch", sequence: 2, sourceId: 2 });
+    expect(describeChainBreak(contentBreak!)).toContain("audit_logs #2");
+
+    expect(findChainBreak(links, currentHashes([rows[0], rows[2]]), null))
+      .toMatchObject({ reason: "source_missing", sequence: 2 });
+
+    // Rows removed under a retention policy are released by the certificate chained after them
+    const certificate = { recordCount: 1, chainLinks: [{ sequence: 2, entryHash: links[1].entryHash }] };
+    const [disposal] = buildChainLinks(links[2], [{ sourceTable: "data_disposal_requests", sourceId: 8, contentHash: hashAuditRow(certificate) }]);
+    const withDisposal = [...links, disposal];
+    const afterDisposal = currentHashes([rows[0], rows[2]]).set("data_disposal_requests:8", hashAuditRow(certificate));
+    const released = collectDisposedLinks([disposal], new Map([[8, certificate]]));
+    expect(findChainBreak(withDisposal, afterDisposal, null, released)).toBeNull();
+
+    // A certificate edited after it was chained releases nothing
+    const altered = { ...certificate, chainLinks: [...certificate.chainLinks, { sequence: 3, entryHash: links[2].entryHash }] };
+    expect(collectDisposedLinks([disposal], new Map([[8, altered]])).size).toBe(0);
+    expect(findChainBreak(withDisposal, afterDisposal, null, collectDisposedLinks([disposal], new Map([[8, altered]]))))
+      .toMatchObject({ reason: "source_missing", sequence: 2 });
+
+    // Dropping a link and re-numbering the rest breaks the hash linkage
+    const spliced = [links[0], { ...links[2], sequence: 2 }];
+    expect(findChainBreak(spliced, currentHashes(rows), null)).toMatchObject({ reason: "link_mismatch", sequence: 2 });
+    expect(findChainBreak([links[0], links[2]], currentHashes(rows), null)).toMatchObject({ reason: "sequence_gap" });
+  });
+
+  it("should detect a rebuilt chain through signed checkpoints", () => {
+    const secret = "test-secret";
+    const links = buildChainLinks(null, entries());
+    const unsigned = { companyId: 7, sequence: 2, entryHash: links[1].entryHash, createdAt: "2026-03-01 10:00:00" };
+    const checkpoint = { ...unsigned, id: 1, signature: signCheckpoint(unsigned, secret) };
+    const entryHashes = new Map(links.map(link => [link.sequence, link.entryHash]));
+
+    expect(findCheckpointBreak([checkpoint], entryHashes, secret)).toBeNull();
+
+    // Someone edits row 1 and recomputes every link: the chain is self-consistent but no longer matches the checkpoint
+    const rebuilt = buildChainLinks(null, [{ ...entries()[0], contentHash: hashAuditRow({ id: 1 }) }, ...entries().slice(1)]);
+    const rebuiltHashes = new Map(rebuilt.map(link => [link.sequence, link.entryHash]));
+    expect(findCheckpointBreak([checkpoint], rebuiltHashes, secret)).toMatchObject({ reason: "checkpoint_mismatch", sequence: 2 });
+
+    expect(findCheckpointBreak([{ ...checkpoint, signature: "00".repeat(32) }], entryHashes, secret))
+      .toMatchObject({ reason: "invalid_signature" });
+    expect(findCheckpointBreak([checkpoint], new Map([[1, links[0].entryHash]]), secret))
+      .toMatchObject({ reason: "truncated" });
+  });
+});
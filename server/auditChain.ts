@@ -0,0 +1,255 @@
+/**
+ * Audit Chain
+ * Pure hashing and verification for the tamper-evident audit chain. Every row of the
+ * audit tables is linked into its company's chain: each link stores a hash of the row
+ * and a hash of the previous link, so editing, deleting or reordering rows breaks the
+ * chain from that point on. Signed checkpoints pin the chain head so the links table
+ * itself cannot be silently rebuilt without the signing secret. Rows removed under a
+ * retention policy are accounted for by chaining their certificate of disposal, which
+ * lists the links it released.
+ */
+
+import crypto from "crypto";
+
+export const AUDIT_CHAIN_SOURCES = [
+  "audit_logs",
+  "audit_log",
+  "mfa_audit_log",
+  "criteria_audit_log",
+  "scoring_audit_log",
+] as const;
+export type AuditChainSource = typeof AUDIT_CHAIN_SOURCES[number];
+
+/** Source of disposal entries: the data_disposal_requests row holding the certificate */
+export const DISPOSAL_CHAIN_SOURCE = "data_disposal_requests";
+export type ChainSource = AuditChainSource | typeof DISPOSAL_CHAIN_SOURCE;
+
+/** prevHash of the first link in every chain */
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface ChainHead {
+  sequence: number;
+  entryHash: string;
+}
+
+export interface ChainLinkInput {
+  sourceTable: ChainSource;
+  sourceId: number;
+  contentHash: string;
+}
+
+export interface ChainLink extends ChainLinkInput, ChainHead {
+  id?: number;
+  prevHash: string;
+}
+
+/**
+ * A link released by a disposal certificate, pinned by its entry hash
+ */
+export interface DisposedChainLink {
+  sequence: number;
+  entryHash: string;
+}
+
+export interface ChainCheckpoint {
+  id?: number;
+  companyId: number | null;
+  sequence: number;
+  entryHash: string;
+  createdAt: string;
+  signature: string;
+}
+
+export type ChainBreakReason =
+  | "sequence_gap"
+  | "link_mismatch"
+  | "source_missing"
+  | "content_mismatch"
+  | "invalid_signature"
+  | "checkpoint_mismatch"
+  | "truncated";
+
+export interface ChainBreak {
+  reason: ChainBreakReason;
+  sequence: number;
+  sourceTable?: ChainSource;
+  sourceId?: number;
+  checkpointId?: number;
+}
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * Deterministic JSON: object keys sorted, dates as ISO strings, undefined dropped
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+export function hashAuditRow(row: Record<string, unknown>): string {
+  return sha256(canonicalize(row));
+}
+
+export function computeEntryHash(link: Omit<ChainLink, "entryHash" | "id">): string {
+  return sha256([link.prevHash, link.sequence, link.sourceTable, link.sourceId, link.contentHash].join("|"));
+}
+
+/**
+ * Append entries to a chain whose current head is `head` (null for an empty chain)
+ */
+export function buildChainLinks(head: ChainHead | null, entries: ChainLinkInput[]): ChainLink[] {
+  const links: ChainLink[] = [];
+  let previous = head ?? { sequence: 0, entryHash: GENESIS_HASH };
+
+  for (const entry of entries) {
+    const link = { ...entry, sequence: previous.sequence + 1, prevHash: previous.entryHash };
+    const chained = { ...link, entryHash: computeEntryHash(link) };
+    links.push(chained);
+    previous = chained;
+  }
+  return links;
+}
+
+// ============================================================================
+// Checkpoints
+// ============================================================================
+
+function checkpointPayload(checkpoint: Omit<ChainCheckpoint, "signature" | "id">): string {
+  return [checkpoint.companyId ?? "platform", checkpoint.sequence, checkpoint.entryHash, checkpoint.createdAt].join("|");
+}
+
+export function signCheckpoint(checkpoint: Omit<ChainCheckpoint, "signature" | "id">, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(checkpointPayload(checkpoint)).digest("hex");
+}
+
+export function isCheckpointSignatureValid(checkpoint: ChainCheckpoint, secret: string): boolean {
+  const expected = Buffer.from(signCheckpoint(checkpoint, secret), "hex");
+  const actual = Buffer.from(checkpoint.signature, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Signature over an export bundle manifest, so the bundle can be checked as a whole
+ */
+export function signManifest(manifest: unknown, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(canonicalize(manifest)).digest("hex");
+}
+
+/**
+ * Short identifier of the signing secret, so checkpoints signed before a key rotation can be told apart
+ */
+export function getSigningKeyId(secret: string): string {
+  return sha256(secret).slice(0, 8);
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Links released by the disposal entries of a chain, as sequence to entry hash
+ * `certificates` maps each disposal entry's sourceId to its stored certificate. A
+ * certificate only counts while it still hashes to the entry that chained it, and only
+ * releases links sealed before that entry.
+ */
+export function collectDisposedLinks(
+  disposalEntries: Pick<ChainLink, "sequence" | "sourceId" | "contentHash">[],
+  certificates: Map<number, { chainLinks?: DisposedChainLink[] } | null>
+): Map<number, string> {
+  const disposed = new Map<number, string>();
+  for (const entry of disposalEntries) {
+    const certificate = certificates.get(entry.sourceId);
+    if (!certificate || hashAuditRow(certificate) !== entry.contentHash) continue;
+
+    for (const link of certificate.chainLinks ?? []) {
+      if (link.sequence < entry.sequence) disposed.set(link.sequence, link.entryHash);
+    }
+  }
+  return disposed;
+}
+
+/**
+ * Walk a run of links in sequence order, continuing from `previous`
+ * `contentHashes` maps "table:id" to the current hash of the source row, or null when
+ * the row no longer exists. A missing row is accepted only for a link in `disposedLinks`
+ * (see collectDisposedLinks). Returns the first broken link, or null.
+ */
+export function findChainBreak(
+  links: ChainLink[],
+  contentHashes: Map<string, string | null>,
+  previous: ChainHead | null,
+  disposedLinks: Map<number, string> = new Map()
+): ChainBreak | null {
+  let expected = previous ?? { sequence: 0, entryHash: GENESIS_HASH };
+
+  for (const link of links) {
+    const at = { sequence: link.sequence, sourceTable: link.sourceTable, sourceId: link.sourceId };
+
+    if (link.sequence !== expected.sequence + 1) return { reason: "sequence_gap", ...at };
+    if (link.prevHash !== expected.entryHash || computeEntryHash(link) !== link.entryHash) {
+      return { reason: "link_mismatch", ...at };
+    }
+
+    const current = contentHashes.get(`${link.sourceTable}:${link.sourceId}`);
+    if (!current && disposedLinks.get(link.sequence) === link.entryHash) {
+      expected = link;
+      continue;
+    }
+    if (!current) return { reason: "source_missing", ...at };
+    if (current !== link.contentHash) return { reason: "content_mismatch", ...at };
+
+    expected = link;
+  }
+  return null;
+}
+
+/**
+ * Check checkpoint signatures and that each still matches the link it pinned
+ * `entryHashes` maps sequence to the stored entry hash
+ */
+export function findCheckpointBreak(
+  checkpoints: ChainCheckpoint[],
+  entryHashes: Map<number, string>,
+  secret: string
+): ChainBreak | null {
+  for (const checkpoint of [...checkpoints].sort((a, b) => a.sequence - b.sequence)) {
+    const at = { sequence: checkpoint.sequence, checkpointId: checkpoint.id };
+
+    if (!isCheckpointSignatureValid(checkpoint, secret)) return { reason: "invalid_signature", ...at };
+
+    const entryHash = entryHashes.get(checkpoint.sequence);
+    if (entryHash === undefined) return { reason: "truncated", ...at };
+    if (entryHash !== checkpoint.entryHash) return { reason: "checkpoint_mismatch", ...at };
+  }
+  return null;
+}
+
+const BREAK_DESCRIPTIONS: Record<ChainBreakReason, string> = {
+  sequence_gap: "a link is missing from the chain",
+  link_mismatch: "the link does not match the hash of the previous entry",
+  source_missing: "the audit entry was deleted",
+  content_mismatch: "the audit entry was modified after it was recorded",
+  invalid_signature: "the checkpoint signature is invalid",
+  checkpoint_mismatch: "the chain was rewritten after this checkpoint was signed",
+  truncated: "entries signed by this checkpoint were removed",
+};
+
+export function describeChainBreak(chainBreak: ChainBreak): string {
+  const entry = chainBreak.sourceTable ? ` (${chainBreak.sourceTable} #${chainBreak.sourceId})` : "";
+  return `Chain broken at entry ${chainBreak.sequence}${entry}: ${BREAK_DESCRIPTIONS[chainBreak.reason]}`;
+}
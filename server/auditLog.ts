@@ -6,7 +6,7 @@ import type { User } from "../drizzle/schema";
 /**
  * Action types for audit logging
  */
-export type AuditActionType = 'create' | 'update' | 'delete' | 'recalculate' | 'import' | 'export' | 'bulk_delete' | 'bulk_update';
+export type AuditActionType = 'create' | 'update' | 'delete' | 'recalculate' | 'import' | 'export' | 'bulk_delete' | 'bulk_update' | 'api_access' | 'share_view';
 
 /**
  * Entity types that can be audited
@@ -37,6 +37,7 @@ export type AuditEntityType =
  */
 export interface AuditLogParams {
   user?: User | null;
+  companyId?: number | null; // For calls without a user (e.g., API key requests)
   actionType: AuditActionType;
   entityType: AuditEntityType;
   entityId?: number | null;
@@ -76,7 +77,7 @@ export async function createAuditLog(params: AuditLogParams): Promise<typeof aud
       userId: params.user?.id ?? null,
       userName: params.user?.name ?? null,
       userEmail: params.user?.email ?? null,
-      companyId: params.user?.companyId ?? null,
+      companyId: params.companyId ?? params.user?.companyId ?? null,
       companyName: null, // Will be populated if needed
       actionType: params.actionType,
       entityType: params.entityType,
@@ -0,0 +1,139 @@
+/**
+ * Tests for the tool-calling chatbot agent
+ * The LLM is a stub that replays scripted tool calls, so these cover the loop, permission
+ * scoping of the tools and citation linking without a model
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import type { InvokeParams, InvokeResult, ToolCall } from "./_core/llm";
+
+vi.mock("./db", () => ({
+  getUserProjects: vi.fn().mockResolvedValue([
+    { id: 1, name: "Central High School", propertyType: "School", status: "in_progress" },
+    { id: 2, name: "Riverside Elementary School", propertyType: "School", status: "completed" },
+    { id: 3, name: "City Hall", propertyType: "Office", status: "in_progress" },
+  ]),
+  getProjectFCI: vi.fn(async (projectId: number) => ({
+    1: { totalRepairCost: 450000, totalReplacementValue: 1000000, fci: 0.45, rating: "critical" },
+    2: { totalRepairCost: 50000, totalReplacementValue: 2000000, fci: 0.025, rating: "good" },
+    3: { totalRepairCost: 400000, totalReplacementValue: 1000000, fci: 0.4, rating: "critical" },
+  }[projectId] ?? null)),
+  getProjectDeficiencies: vi.fn(async (projectId: number) => projectId === 1
+    ? [
+        { id: 10, componentCode: "B3010", title: "Roof membrane failure", severity: "critical", priority: "immediate", status: "open", estimatedCost: 120000 },
+        { id: 11, componentCode: "D3020", title: "Boiler at end of life", severity: "critical", priority: "short_term", status: "resolved", estimatedCost: 80000 },
+      ]
+    : projectId === 99
+    ? [{ id: 99, componentCode: "A1010", title: "Another company's deficiency", severity: "critical", priority: "immediate", status: "open", estimatedCost: 1 }]
+    : []),
+}));
+
+vi.mock("./db-assets", () => ({ getProjectAssets: vi.fn().mockResolvedValue([]) }));
+vi.mock("./db/capitalPlanning.db", () => ({}));
+
+const { runChatbotAgent } = await import("./services/chatbotAgent.service");
+const { createChatbotToolContext } = await import("./services/chatbotTools.service");
+
+const user = { id: 7, role: "user", company: "Acme", companyId: 1, isSuperAdmin: 0 } as any;
+
+const toolCall = (id: string, name: string, args: unknown): ToolCall => ({
+  id,
+  type: "function",
+  function: { name, arguments: typeof args === "string" ? args : JSON.stringify(args) },
+});
+
+/**
+ * Stub LLM that returns the scripted replies in order and records what it was sent
+ */
+function scriptedLLM(replies: Array<{ content?: string; tool_calls?: ToolCall[] }>) {
+  const calls: InvokeParams[] = [];
+  const invoke = async (params: InvokeParams): Promise<InvokeResult> => {
+    calls.push({ ...params, messages: [...params.messages] });
+    const reply = replies[calls.length - 1];
+    return {
+      id: `stub-${calls.length}`,
+      created: 0,
+      model: "stub",
+      choices: [{ index: 0, message: { role: "assistant", content: reply.content ?? "", tool_calls: reply.tool_calls }, finish_reason: "stop" }],
+    };
+  };
+  return { invoke, calls };
+}
+
+const question = (content: string) => [
+  { role: "system" as const, content: "You are a BCA assistant." },
+  { role: "user" as const, content },
+];
+
+describe("chatbot agent", () => {
+  it("should answer over several tool steps and link cited records", async () => {
+    const { invoke, calls } = scriptedLLM([
+      { tool_calls: [toolCall("c1", "search_projects", { query: "school" })] },
+      { tool_calls: [
+        toolCall("c2", "get_project_fci", { projectIds: [1, 2], minFci: 0.3 }),
+        toolCall("c3", "query_deficiencies", { projectIds: [1], severity: ["critical"] }),
+      ] },
+      { content: "Central High School [project:1] has an FCI of 0.45 and an open roof failure [deficiency:10]. See also [project:3]." },
+    ]);
+
+    const result = await runChatbotAgent({
+      messages: question("Which schools have FCI above 0.3 and open critical deficiencies?"),
+      context: createChatbotToolContext(user),
+      invoke,
+    });
+
+    expect(calls).toHaveLength(3);
+    expect(calls[0].tools?.map(tool => tool.function.name)).toContain("query_deficiencies");
+
+    // Tool results are sent back with the id of the call that requested them
+    const toolMessages = calls[2].messages.filter(message => message.role === "tool");
+    expect(toolMessages.map(message => message.tool_call_id)).toEqual(["c1", "c2", "c3"]);
+    const fci = JSON.parse(toolMessages[1].content as string);
+    expect(fci.projects.map((project: any) => project.ref)).toEqual(["project:1"]);
+    const deficiencies = JSON.parse(toolMessages[2].content as string);
+    expect(deficiencies.deficiencies.map((deficiency: any) => deficiency.ref)).toEqual(["deficiency:10"]);
+
+    // project:3 was never returned by a tool, so its marker is dropped rather than linked
+    expect(result.response).toBe(
+      "[Central High School](/projects/1) has an FCI of 0.45 and an open roof failure [B3010 Roof membrane failure](/projects/1). See also."
+    );
+    expect(result.citations.map(citation => citation.ref)).toEqual(["project:1", "deficiency:10"]);
+    expect(result.toolCalls.map(call => call.name)).toEqual(["search_projects", "get_project_fci", "query_deficiencies"]);
+  });
+
+  it("should only reach projects the user can see", async () => {
+    const { invoke, calls } = scriptedLLM([
+      { tool_calls: [toolCall("c1", "query_deficiencies", { projectIds: [99] })] },
+      { content: "No deficiencies found." },
+    ]);
+
+    const result = await runChatbotAgent({ messages: question("Deficiencies in project 99?"), context: createChatbotToolContext(user), invoke });
+
+    const output = JSON.parse(calls[1].messages.at(-1)!.content as string);
+    expect(output.total).toBe(0);
+    expect(output.notFound).toEqual([99]);
+    expect(result.citations).toEqual([]);
+  });
+
+  it("should return bad arguments to the model as errors and stop at the step limit", async () => {
+    const { invoke, calls } = scriptedLLM([
+      { tool_calls: [toolCall("c1", "get_project_fci", "{not json")] },
+      { tool_calls: [toolCall("c2", "query_deficiencies", { severity: ["urgent"] }), toolCall("c3", "drop_tables", {})] },
+      { content: "Sorry, I could not load that.", tool_calls: [toolCall("c4", "search_projects", {})] },
+    ]);
+
+    const result = await runChatbotAgent({ messages: question("FCI?"), context: createChatbotToolContext(user), invoke, maxSteps: 3 });
+
+    const errors = calls[2].messages
+      .filter(message => message.role === "tool")
+      .map(message => JSON.parse(message.content as string).error);
+    expect(errors[0]).toBe("Arguments must be a JSON object");
+    expect(errors[1]).toMatch(/^Invalid arguments: severity\.0/);
+    expect(errors[2]).toBe('Unknown tool "drop_tables"');
+
+    // The last step is sent without tools, and any tool calls it still makes are ignored
+    expect(calls[2].tools).toBeUndefined();
+    expect(result.response).toBe("Sorry, I could not load that.");
+    expect(result.toolCalls.every(call => call.error)).toBe(true);
+  });
+});
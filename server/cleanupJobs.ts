@@ -3,6 +3,8 @@ import { cleanupReports, users, type InsertCleanupReport } from "../drizzle/sche
 import { runAllIntegrityChecks, type IntegrityCheckResult } from "./dataIntegrity";
 import { eq } from "drizzle-orm";
 import { sendEmail } from "./_core/email";
+import { runRetentionPolicies, type RetentionRunResult } from "./services/retentionPolicy.service";
+import { RETENTION_DATA_TYPE_LABELS } from "./retentionPolicy";
 
 /**
  * Cleanup mode
@@ -22,6 +24,7 @@ export interface CleanupJobResult {
   totalIssuesCount: number;
   affectedRecords: any[];
   recommendations: string[];
+  retention: RetentionRunResult | null;
   errorLog?: string;
 }
 
@@ -127,15 +130,44 @@ export async function runCleanupJob(mode: CleanupMode = 'read_only'): Promise<Cl
       console.log('[CleanupJob] Auto-fix mode enabled, but no fixes implemented yet');
     }
 
+    // Apply retention policies; read-only runs are a dry run of what would be disposed
+    let retention: RetentionRunResult | null = null;
+    const errors: string[] = [];
+    try {
+      retention = await runRetentionPolicies({ dryRun: mode !== 'auto_fix', cleanupReportId: reportId });
+      errors.push(...retention.errors);
+    } catch (retentionError) {
+      errors.push(`Retention: ${retentionError instanceof Error ? retentionError.message : String(retentionError)}`);
+    }
+
+    for (const rule of retention?.results ?? []) {
+      const label = RETENTION_DATA_TYPE_LABELS[rule.dataType];
+      for (const id of rule.sampleIds) {
+        affectedRecords.push({
+          type: rule.dataType,
+          id,
+          issue: `${label} past the ${rule.retentionDays}-day retention of "${rule.policyName}" (${rule.companyName})`,
+          severity: 'info',
+          action: retention!.dryRun ? 'would_dispose' : 'disposed',
+        });
+      }
+      if (retention!.dryRun && rule.eligibleCount > 0) {
+        recommendations.push(`${rule.eligibleCount}${rule.truncated ? '+' : ''} ${label.toLowerCase()} for ${rule.companyName} are past retention; run in auto-fix mode to dispose of them`);
+      }
+    }
+    recordsDeleted += retention?.disposedCount ?? 0;
+
     // Calculate duration
     const duration = Math.floor((Date.now() - startTime) / 1000);
 
+    const status = errors.length > 0 ? 'partial' : 'completed';
+
     // Update report with results
     await db.update(cleanupReports)
       .set({
         completedAt: new Date().toISOString(),
         duration,
-        status: 'completed',
+        status,
         criticalIssuesCount: criticalCount,
         warningIssuesCount: warningCount,
         infoIssuesCount: infoCount,
@@ -147,19 +179,23 @@ export async function runCleanupJob(mode: CleanupMode = 'read_only'): Promise<Cl
         recordsFixed,
         affectedRecords: JSON.stringify(affectedRecords),
         recommendations: JSON.stringify(recommendations),
+        retentionSummary: retention ? JSON.stringify(retention) : null,
+        errorLog: errors.length > 0 ? errors.join('\n') : null,
       })
       .where(eq(cleanupReports.id, reportId));
 
     return {
       reportId,
       duration,
-      status: 'completed',
+      status,
       criticalIssuesCount: criticalCount,
       warningIssuesCount: warningCount,
       infoIssuesCount: infoCount,
       totalIssuesCount: criticalCount + warningCount + infoCount,
       affectedRecords,
       recommendations,
+      retention,
+      errorLog: errors.length > 0 ? errors.join('\n') : undefined,
     };
 
   } catch (error) {
@@ -195,6 +231,23 @@ export async function runCleanupJob(mode: CleanupMode = 'read_only'): Promise<Cl
   }
 }
 
+/**
+ * Retention section of the notification email
+ */
+function retentionSummaryHtml(summary: unknown): string {
+  const retention = (typeof summary === 'string' ? JSON.parse(summary) : summary) as RetentionRunResult;
+  if (retention.results.length === 0) return '';
+
+  const rows = retention.results.map(rule => `
+    <li><strong>${rule.companyName}</strong> - ${RETENTION_DATA_TYPE_LABELS[rule.dataType]}:
+      ${retention.dryRun ? `${rule.eligibleCount} past retention` : `${rule.disposedCount} disposed`}${rule.heldCount > 0 ? `, ${rule.heldCount} under legal hold` : ''}</li>`).join('');
+
+  return `
+      <h3>Data Retention${retention.dryRun ? ' (dry run)' : ''}</h3>
+      <ul>${rows}</ul>
+  `;
+}
+
 /**
  * Send cleanup report notification email to admins
  */
@@ -250,6 +303,8 @@ export async function sendCleanupReportNotification(reportId: number): Promise<v
         <li><strong>Invalid Weights:</strong> ${report.invalidWeightsCount}</li>
       </ul>
 
+      ${report.retentionSummary ? retentionSummaryHtml(report.retentionSummary) : ''}
+
       ${report.mode === 'auto_fix' ? `
         <h3>Actions Taken</h3>
         <ul>
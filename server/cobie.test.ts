@@ -0,0 +1,188 @@
+/**
+ * Tests for COBie 2.4 workbook mapping
+ * Tests the project-to-COBie sheet mapping, workbook round trip and import planning
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  COBIE_COLUMNS,
+  buildCobieSheets,
+  cobieSheetsToWorkbook,
+  extractUniformatCode,
+  planCobieImport,
+  readCobieWorkbook,
+  toValidationRows,
+  toYears,
+  type CobieExportData,
+} from "./cobie";
+
+const exportData: CobieExportData = {
+  project: {
+    id: 7,
+    name: "City Hall",
+    uniqueId: "PRJ-7",
+    projectNumber: "2026-014",
+    address: "1 Main St",
+    clientName: "City of Example",
+    propertyType: "Office",
+    facilityType: null,
+    status: "in_progress",
+    observations: null,
+    city: "Example",
+    province: "ON",
+    postalCode: null,
+  },
+  contact: { email: "assessor@example.com", name: "Alex Reviewer", company: "Example Engineering" },
+  createdOn: new Date("2026-10-01T12:00:00Z"),
+  sections: [
+    { id: 1, name: "Main Building", description: null, sectionType: "original", numberOfStories: 3 },
+  ],
+  assets: [
+    { id: 10, name: "North Wing", assetCode: "NW-1", description: null, primaryUse: "Office", squareFootage: "12000.00" },
+    { id: 11, name: "Parking Garage", assetCode: "PG-1", description: null, primaryUse: "Parking", squareFootage: null },
+  ],
+  components: [
+    {
+      id: 100, assetId: 10, sectionId: 1, componentCode: "B3010", componentName: "Roof Coverings",
+      componentLocation: "Upper roof", condition: "fair", expectedUsefulLife: 25, estimatedServiceLife: null,
+      replacementValue: "150000.00", lastTimeAction: 2005, externalId: null,
+      assessedAt: "2026-05-01 00:00:00", createdAt: "2026-05-01 00:00:00",
+    },
+    {
+      // Older assessment of the same roof is history, not a second component
+      id: 90, assetId: 10, sectionId: 1, componentCode: "B3010", componentName: "Roof Coverings",
+      componentLocation: "Upper roof", condition: "good", expectedUsefulLife: 20, estimatedServiceLife: null,
+      replacementValue: "140000.00", lastTimeAction: 2005, externalId: null,
+      assessedAt: "2021-05-01 00:00:00", createdAt: "2021-05-01 00:00:00",
+    },
+    {
+      id: 101, assetId: 11, sectionId: null, componentCode: "D5020", componentName: "Lighting",
+      componentLocation: null, condition: "poor", expectedUsefulLife: null, estimatedServiceLife: 20,
+      replacementValue: null, lastTimeAction: null, externalId: "SAP-LGT-1",
+      assessedAt: null, createdAt: "2026-05-02 00:00:00",
+    },
+  ],
+  maintenance: [
+    {
+      id: 500, assessmentId: 100, componentName: "Roof Coverings", actionType: "preventive_maintenance",
+      status: "planned", description: "Clear drains", isRecurring: 1, recurringFrequency: "semi_annual",
+      dateScheduled: "2026-11-01 00:00:00", contractor: "Roofco",
+    },
+    {
+      id: 501, assessmentId: null, componentName: "Lighting", actionType: "replacement",
+      status: "completed", description: "Replace fixtures", isRecurring: 0, recurringFrequency: null,
+      dateScheduled: null, contractor: null,
+    },
+  ],
+};
+
+describe("COBie", () => {
+  describe("export mapping", () => {
+    it("should map the project to one Facility row and the exporter to Contact", () => {
+      const sheets = buildCobieSheets(exportData);
+      expect(sheets.Facility).toHaveLength(1);
+      expect(sheets.Facility[0].Name).toBe("City Hall");
+      expect(sheets.Facility[0].ProjectName).toBe("2026-014");
+      expect(sheets.Contact[0].Email).toBe("assessor@example.com");
+      expect(sheets.Contact[0].FamilyName).toBe("Reviewer");
+      expect(sheets.Facility[0].CreatedBy).toBe("assessor@example.com");
+      expect(sheets.Facility[0].CreatedOn).toBe("2026-10-01T12:00:00");
+    });
+
+    it("should place assets on their section's floor and add a Site floor for the rest", () => {
+      const sheets = buildCobieSheets(exportData);
+      expect(sheets.Floor.map(f => f.Name)).toEqual(["Main Building", "Site"]);
+      expect(sheets.Space.find(s => s.Name === "North Wing")?.FloorName).toBe("Main Building");
+      expect(sheets.Space.find(s => s.Name === "Parking Garage")?.FloorName).toBe("Site");
+      expect(sheets.Space.find(s => s.Name === "Parking Garage")?.GrossArea).toBe("n/a");
+    });
+
+    it("should export the latest assessment per component with its type", () => {
+      const sheets = buildCobieSheets(exportData);
+      expect(sheets.Component).toHaveLength(2);
+      const roof = sheets.Component.find(c => c.TypeName === "B3010 - Roof Coverings")!;
+      expect(roof.Space).toBe("North Wing");
+      expect(roof.ExtIdentifier).toBe("100");
+      expect(roof.InstallationDate).toBe("2005-01-01T00:00:00");
+      expect(sheets.Component.find(c => c.TypeName === "D5020 - Lighting")?.ExtIdentifier).toBe("SAP-LGT-1");
+
+      const roofType = sheets.Type.find(t => t.Name === "B3010 - Roof Coverings")!;
+      expect(roofType.ExpectedLife).toBe("25");
+      expect(roofType.ReplacementCost).toBe("150000");
+      expect(sheets.Type.find(t => t.Name === "D5020 - Lighting")?.ExpectedLife).toBe("20");
+    });
+
+    it("should map maintenance entries to jobs with COBie categories and frequencies", () => {
+      const sheets = buildCobieSheets(exportData);
+      const [drains, fixtures] = sheets.Job;
+      expect(drains.Category).toBe("PM");
+      expect(drains.Status).toBe("Not Yet Started");
+      expect(drains.TypeName).toBe("B3010 - Roof Coverings");
+      expect([drains.Frequency, drains.FrequencyUnit]).toEqual(["6", "month"]);
+      expect(fixtures.TypeName).toBe("D5020 - Lighting");
+      expect(fixtures.Status).toBe("Completed");
+      expect(fixtures.Frequency).toBe("n/a");
+    });
+  });
+
+  describe("import", () => {
+    it("should round-trip an exported workbook into assets and components", async () => {
+      const buffer = await cobieSheetsToWorkbook(buildCobieSheets(exportData));
+      const sheets = await readCobieWorkbook(buffer);
+      expect(Object.keys(sheets).sort()).toEqual(Object.keys(COBIE_COLUMNS).sort());
+
+      const plan = planCobieImport(sheets);
+      expect(plan.facilityName).toBe("City Hall");
+      expect(plan.assets.map(a => a.name)).toEqual(["North Wing", "Parking Garage"]);
+      expect(plan.assets[0].grossArea).toBe(12000);
+
+      const roof = plan.components.find(c => c.componentCode === "B3010")!;
+      expect(roof.assetName).toBe("North Wing");
+      expect(roof.componentName).toBe("Roof Coverings");
+      expect(roof.expectedUsefulLife).toBe(25);
+      expect(roof.replacementValue).toBe(150000);
+      expect(roof.installYear).toBe(2005);
+      expect(roof.externalId).toBe("100");
+      expect(plan.warnings).toEqual([]);
+    });
+
+    it("should assign components with unknown spaces to a facility asset and warn", () => {
+      const plan = planCobieImport({
+        Facility: [{ __row: "2", Name: "Depot" }],
+        Space: [],
+        Type: [{ __row: "2", Name: "Pump", Category: "23-27 00 00 D2010", ExpectedLife: "120", DurationUnit: "month" }],
+        Component: [{ __row: "2", Name: "Pump 1", TypeName: "Pump", Space: "Room 101", ExtIdentifier: "n/a" }],
+      });
+
+      expect(plan.assets.map(a => a.name)).toEqual(["Depot"]);
+      expect(plan.components[0]).toMatchObject({
+        assetName: "Depot",
+        componentCode: "D2010",
+        expectedUsefulLife: 10,
+        externalId: "Pump 1",
+      });
+      expect(plan.warnings[0]).toContain("Room 101");
+    });
+
+    it("should build validation rows that flag missing names", () => {
+      const plan = planCobieImport({
+        Space: [{ __row: "2", Name: "n/a", GrossArea: "-5" }],
+        Component: [],
+      });
+      const rows = toValidationRows(plan);
+      expect(rows.assets[0]).toMatchObject({ name: "", area: -5 });
+      expect(rows.components).toEqual([]);
+    });
+  });
+
+  describe("helpers", () => {
+    it("should extract UNIFORMAT codes and convert durations", () => {
+      expect(extractUniformatCode("UNIFORMAT II B2010")).toBe("B2010");
+      expect(extractUniformatCode(null, "D3040.10 - Air distribution")).toBe("D3040.10");
+      expect(extractUniformatCode("Pumps")).toBeNull();
+      expect(toYears(24, "month")).toBe(2);
+      expect(toYears(15, null)).toBe(15);
+      expect(toYears(0, "year")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,628 @@
+import ExcelJS from 'exceljs';
+import type { Asset, Assessment, BuildingSection, MaintenanceEntry, Project } from '../drizzle/schema';
+
+/**
+ * COBie 2.4 Workbook Mapping
+ *
+ * Export writes a project as a COBie handover workbook:
+ * - Facility  <- project
+ * - Floor     <- building sections (plus a "Site" floor for assets not tied to a section)
+ * - Space     <- assets
+ * - Type      <- distinct UNIFORMAT components (component code + name)
+ * - Component <- latest assessment per asset and component
+ * - Job       <- maintenance entries
+ *
+ * Import reads the same sheets back: spaces seed assets and components seed
+ * assessment components on the asset of their first listed space. Components
+ * keep their COBie ExtIdentifier in assessments.externalId so re-imports match.
+ */
+
+export const COBIE_VERSION = '2.4';
+export const COBIE_EXTERNAL_SYSTEM = 'BCA System';
+// COBie marks intentionally empty cells with n/a rather than leaving them blank
+const NOT_APPLICABLE = 'n/a';
+const SITE_FLOOR_NAME = 'Site';
+
+// ============================================================================
+// Sheet Layout
+// ============================================================================
+
+export const COBIE_COLUMNS = {
+  Contact: ['Email', 'CreatedBy', 'CreatedOn', 'Category', 'Company', 'Phone', 'ExternalSystem', 'ExternalObject',
+    'ExternalIdentifier', 'Department', 'OrganizationCode', 'GivenName', 'FamilyName', 'Street', 'PostalBox', 'Town',
+    'StateRegion', 'PostalCode', 'Country'],
+  Facility: ['Name', 'CreatedBy', 'CreatedOn', 'Category', 'ProjectName', 'SiteName', 'LinearUnits', 'AreaUnits',
+    'VolumeUnits', 'CurrencyUnit', 'AreaMeasurement', 'ExternalSystem', 'ExternalProjectObject',
+    'ExternalProjectIdentifier', 'ExternalSiteObject', 'ExternalSiteIdentifier', 'ExternalFacilityObject',
+    'ExternalFacilityIdentifier', 'Description', 'ProjectDescription', 'SiteDescription', 'Phase'],
+  Floor: ['Name', 'CreatedBy', 'CreatedOn', 'Category', 'ExtSystem', 'ExtObject', 'ExtIdentifier', 'Description',
+    'Elevation', 'Height'],
+  Space: ['Name', 'CreatedBy', 'CreatedOn', 'Category', 'FloorName', 'Description', 'ExtSystem', 'ExtObject',
+    'ExtIdentifier', 'RoomTag', 'UsableHeight', 'GrossArea', 'NetArea'],
+  Type: ['Name', 'CreatedBy', 'CreatedOn', 'Category', 'Description', 'AssetType', 'Manufacturer', 'ModelNumber',
+    'WarrantyGuarantorParts', 'WarrantyDurationParts', 'WarrantyGuarantorLabor', 'WarrantyDurationLabor',
+    'WarrantyDurationUnit', 'ExtSystem', 'ExtObject', 'ExtIdentifier', 'ReplacementCost', 'ExpectedLife',
+    'DurationUnit', 'WarrantyDescription', 'NominalLength', 'NominalWidth', 'NominalHeight', 'ModelReference',
+    'Shape', 'Size', 'Color', 'Finish', 'Grade', 'Material', 'Constituents', 'Features', 'AccessibilityPerformance',
+    'CodePerformance', 'SustainabilityPerformance'],
+  Component: ['Name', 'CreatedBy', 'CreatedOn', 'TypeName', 'Space', 'Description', 'ExtSystem', 'ExtObject',
+    'ExtIdentifier', 'SerialNumber', 'InstallationDate', 'WarrantyStartDate', 'TagNumber', 'BarCode',
+    'AssetIdentifier'],
+  Job: ['Name', 'CreatedBy', 'CreatedOn', 'Category', 'Status', 'TypeName', 'Description', 'Duration', 'DurationUnit',
+    'Start', 'TaskStartUnit', 'Frequency', 'FrequencyUnit', 'ExtSystem', 'ExtObject', 'ExtIdentifier', 'TaskNumber',
+    'Priors', 'ResourceNames'],
+} as const;
+
+export type CobieSheetName = keyof typeof COBIE_COLUMNS;
+export type CobieRow = Record<string, string>;
+export type CobieSheets = Record<CobieSheetName, CobieRow[]>;
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export interface CobieExportData {
+  project: Pick<Project, 'id' | 'name' | 'uniqueId' | 'projectNumber' | 'address' | 'clientName' | 'propertyType' | 'facilityType' | 'status' | 'observations' | 'city' | 'province' | 'postalCode'>;
+  contact: { email: string; name?: string | null; company?: string | null };
+  createdOn: Date;
+  sections: Pick<BuildingSection, 'id' | 'name' | 'description' | 'sectionType' | 'numberOfStories'>[];
+  assets: Pick<Asset, 'id' | 'name' | 'assetCode' | 'description' | 'primaryUse' | 'squareFootage'>[];
+  components: Pick<Assessment, 'id' | 'assetId' | 'sectionId' | 'componentCode' | 'componentName' | 'componentLocation' | 'condition' | 'expectedUsefulLife' | 'estimatedServiceLife' | 'replacementValue' | 'lastTimeAction' | 'externalId' | 'assessedAt' | 'createdAt'>[];
+  maintenance: Pick<MaintenanceEntry, 'id' | 'assessmentId' | 'componentName' | 'actionType' | 'status' | 'description' | 'isRecurring' | 'recurringFrequency' | 'dateScheduled' | 'contractor'>[];
+}
+
+const JOB_CATEGORIES: Record<MaintenanceEntry['actionType'], string> = {
+  preventive_maintenance: 'PM',
+  inspection: 'PM',
+  repair: 'Trouble',
+  emergency_repair: 'Trouble',
+  rehabilitation: 'Operation',
+  replacement: 'Operation',
+  upgrade: 'Operation',
+};
+
+const JOB_STATUSES: Record<MaintenanceEntry['status'], string> = {
+  planned: 'Not Yet Started',
+  approved: 'Not Yet Started',
+  in_progress: 'Started',
+  completed: 'Completed',
+  deferred: 'Deferred',
+  cancelled: 'Cancelled',
+};
+
+const JOB_FREQUENCIES: Record<NonNullable<MaintenanceEntry['recurringFrequency']>, [number, string]> = {
+  weekly: [1, 'week'],
+  monthly: [1, 'month'],
+  quarterly: [3, 'month'],
+  semi_annual: [6, 'month'],
+  annual: [1, 'year'],
+  biennial: [2, 'year'],
+};
+
+/**
+ * Format a date the way COBie expects (ISO 8601 without zone)
+ */
+export function formatCobieDate(value: Date | string | null | undefined): string {
+  if (!value) return NOT_APPLICABLE;
+  const date = typeof value === 'string' ? new Date(value.includes('T') ? value : value.replace(' ', 'T')) : value;
+  if (isNaN(date.getTime())) return NOT_APPLICABLE;
+  return date.toISOString().slice(0, 19);
+}
+
+function text(value: unknown): string {
+  if (value === null || value === undefined) return NOT_APPLICABLE;
+  const str = String(value).trim();
+  return str === '' ? NOT_APPLICABLE : str;
+}
+
+/**
+ * Name used for a component's COBie Type: "B2010 - Exterior Walls", or the bare name for custom components
+ */
+export function getCobieTypeName(componentCode: string | null | undefined, componentName: string | null | undefined): string {
+  const name = componentName?.trim() || 'Unnamed component';
+  return componentCode ? `${componentCode} - ${name}` : name;
+}
+
+/**
+ * COBie requires unique names per sheet; suffix repeats with a counter
+ */
+function createUniqueNamer() {
+  const used = new Map<string, number>();
+  return (name: string): string => {
+    const key = name.toLowerCase();
+    const seen = used.get(key) ?? 0;
+    used.set(key, seen + 1);
+    return seen === 0 ? name : `${name} (${seen + 1})`;
+  };
+}
+
+/**
+ * Keep the most recent assessment for each asset/component pair; older ones are history, not separate components
+ */
+function getLatestComponents(components: CobieExportData['components']) {
+  const latest = new Map<string, CobieExportData['components'][number]>();
+  for (const component of components) {
+    const key = `${component.assetId}:${component.componentCode || component.componentName || component.id}`;
+    const existing = latest.get(key);
+    const when = component.assessedAt || component.createdAt;
+    if (!existing || (existing.assessedAt || existing.createdAt) < when) {
+      latest.set(key, component);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Map project data to COBie sheet rows
+ */
+export function buildCobieSheets(data: CobieExportData): CobieSheets {
+  const createdBy = data.contact.email;
+  const createdOn = formatCobieDate(data.createdOn);
+  const base = { CreatedBy: createdBy, CreatedOn: createdOn };
+  const external = (object: string, identifier: unknown) => ({
+    ExtSystem: COBIE_EXTERNAL_SYSTEM,
+    ExtObject: object,
+    ExtIdentifier: text(identifier),
+  });
+
+  const [givenName, ...familyNames] = (data.contact.name || '').trim().split(/\s+/);
+  const contact: CobieRow = {
+    Email: createdBy,
+    ...base,
+    Category: 'Facility Manager',
+    Company: text(data.contact.company),
+    Phone: NOT_APPLICABLE,
+    ExternalSystem: COBIE_EXTERNAL_SYSTEM,
+    ExternalObject: 'users',
+    ExternalIdentifier: createdBy,
+    Department: NOT_APPLICABLE,
+    OrganizationCode: NOT_APPLICABLE,
+    GivenName: text(givenName),
+    FamilyName: text(familyNames.join(' ')),
+    Street: NOT_APPLICABLE,
+    PostalBox: NOT_APPLICABLE,
+    Town: NOT_APPLICABLE,
+    StateRegion: NOT_APPLICABLE,
+    PostalCode: NOT_APPLICABLE,
+    Country: NOT_APPLICABLE,
+  };
+
+  const { project } = data;
+  const facility: CobieRow = {
+    Name: project.name,
+    ...base,
+    Category: text(project.facilityType || project.propertyType),
+    ProjectName: text(project.projectNumber || project.name),
+    SiteName: text(project.address || project.name),
+    LinearUnits: 'feet',
+    AreaUnits: 'square feet',
+    VolumeUnits: 'cubic feet',
+    CurrencyUnit: 'Dollars',
+    AreaMeasurement: 'Gross floor area',
+    ExternalSystem: COBIE_EXTERNAL_SYSTEM,
+    ExternalProjectObject: 'projects',
+    ExternalProjectIdentifier: String(project.id),
+    ExternalSiteObject: NOT_APPLICABLE,
+    ExternalSiteIdentifier: NOT_APPLICABLE,
+    ExternalFacilityObject: 'projects',
+    ExternalFacilityIdentifier: text(project.uniqueId || project.id),
+    Description: text(project.observations),
+    ProjectDescription: text(project.clientName ? `Building condition assessment for ${project.clientName}` : null),
+    SiteDescription: text([project.city, project.province, project.postalCode].filter(Boolean).join(', ')),
+    Phase: text(project.status),
+  };
+
+  // Floors
+  const nameFloor = createUniqueNamer();
+  const floorNames = new Map<number, string>();
+  const floors: CobieRow[] = data.sections.map(section => {
+    const name = nameFloor(section.name);
+    floorNames.set(section.id, name);
+    return {
+      Name: name,
+      ...base,
+      Category: 'Floor',
+      ...external('building_sections', section.id),
+      Description: text(section.description || section.sectionType),
+      Elevation: NOT_APPLICABLE,
+      Height: NOT_APPLICABLE,
+    };
+  });
+
+  const components = getLatestComponents(data.components);
+
+  // Spaces: an asset sits on the section most of its components reference
+  const nameSpace = createUniqueNamer();
+  const spaceNames = new Map<number, string>();
+  let needsSiteFloor = false;
+  const spaces: CobieRow[] = data.assets.map(asset => {
+    const sectionCounts = new Map<number, number>();
+    for (const component of components) {
+      if (component.assetId === asset.id && component.sectionId && floorNames.has(component.sectionId)) {
+        sectionCounts.set(component.sectionId, (sectionCounts.get(component.sectionId) ?? 0) + 1);
+      }
+    }
+    const [topSection] = Array.from(sectionCounts.entries()).sort((a, b) => b[1] - a[1]);
+    if (!topSection) needsSiteFloor = true;
+
+    const name = nameSpace(asset.name);
+    spaceNames.set(asset.id, name);
+    return {
+      Name: name,
+      ...base,
+      Category: text(asset.primaryUse),
+      FloorName: topSection ? floorNames.get(topSection[0])! : SITE_FLOOR_NAME,
+      Description: text(asset.description || asset.name),
+      ...external('assets', asset.id),
+      RoomTag: text(asset.assetCode),
+      UsableHeight: NOT_APPLICABLE,
+      GrossArea: text(asset.squareFootage != null ? Number(asset.squareFootage) : null),
+      NetArea: NOT_APPLICABLE,
+    };
+  });
+
+  if (needsSiteFloor && !floors.some(floor => floor.Name.toLowerCase() === SITE_FLOOR_NAME.toLowerCase())) {
+    floors.push({
+      Name: SITE_FLOOR_NAME,
+      ...base,
+      Category: 'Site',
+      ExtSystem: COBIE_EXTERNAL_SYSTEM,
+      ExtObject: 'projects',
+      ExtIdentifier: String(project.id),
+      Description: 'Assets not assigned to a building section',
+      Elevation: NOT_APPLICABLE,
+      Height: NOT_APPLICABLE,
+    });
+  }
+
+  // Types: one per distinct component, with the longest service life and average replacement cost seen
+  const typeStats = new Map<string, { code: string | null; name: string; lives: number[]; costs: number[] }>();
+  for (const component of components) {
+    const typeName = getCobieTypeName(component.componentCode, component.componentName);
+    const stats = typeStats.get(typeName) ?? { code: component.componentCode, name: component.componentName || typeName, lives: [], costs: [] };
+    const life = component.expectedUsefulLife ?? component.estimatedServiceLife;
+    if (life) stats.lives.push(life);
+    if (component.replacementValue != null && Number(component.replacementValue) > 0) {
+      stats.costs.push(Number(component.replacementValue));
+    }
+    typeStats.set(typeName, stats);
+  }
+
+  const types: CobieRow[] = Array.from(typeStats.entries()).map(([typeName, stats]) => {
+    const row: CobieRow = {};
+    for (const column of COBIE_COLUMNS.Type) row[column] = NOT_APPLICABLE;
+    return {
+      ...row,
+      Name: typeName,
+      ...base,
+      Category: stats.code ? `UNIFORMAT II ${stats.code}` : 'Custom',
+      Description: stats.name,
+      AssetType: 'Fixed',
+      ...external('building_components', stats.code),
+      ReplacementCost: stats.costs.length > 0
+        ? String(Math.round(stats.costs.reduce((sum, cost) => sum + cost, 0) / stats.costs.length * 100) / 100)
+        : NOT_APPLICABLE,
+      ExpectedLife: stats.lives.length > 0 ? String(Math.max(...stats.lives)) : NOT_APPLICABLE,
+      DurationUnit: 'year',
+    };
+  });
+
+  // Components
+  const nameComponent = createUniqueNamer();
+  const componentTypeNames = new Map<number, string>();
+  const exportedComponents: CobieRow[] = [];
+  for (const component of components) {
+    const typeName = getCobieTypeName(component.componentCode, component.componentName);
+    const spaceName = component.assetId ? spaceNames.get(component.assetId) : undefined;
+    if (!spaceName) continue;
+    componentTypeNames.set(component.id, typeName);
+
+    const asset = data.assets.find(a => a.id === component.assetId);
+    const installed = component.lastTimeAction ? `${component.lastTimeAction}-01-01` : null;
+    exportedComponents.push({
+      Name: nameComponent(`${component.componentName || typeName} - ${spaceName}`),
+      ...base,
+      TypeName: typeName,
+      Space: spaceName,
+      Description: text([component.componentLocation, component.condition ? `Condition: ${component.condition}` : null].filter(Boolean).join('; ')),
+      ...external('assessments', component.externalId || component.id),
+      SerialNumber: NOT_APPLICABLE,
+      InstallationDate: formatCobieDate(installed),
+      WarrantyStartDate: formatCobieDate(installed),
+      TagNumber: NOT_APPLICABLE,
+      BarCode: NOT_APPLICABLE,
+      AssetIdentifier: text(asset?.assetCode),
+    });
+  }
+
+  // Jobs
+  const nameJob = createUniqueNamer();
+  const typeByComponentName = new Map<string, string>();
+  for (const component of components) {
+    if (component.componentName) {
+      typeByComponentName.set(component.componentName.toLowerCase(), getCobieTypeName(component.componentCode, component.componentName));
+    }
+  }
+
+  const jobs: CobieRow[] = data.maintenance.map(entry => {
+    const typeName = (entry.assessmentId && componentTypeNames.get(entry.assessmentId))
+      || typeByComponentName.get(entry.componentName.toLowerCase())
+      || NOT_APPLICABLE;
+    const frequency = entry.isRecurring && entry.recurringFrequency ? JOB_FREQUENCIES[entry.recurringFrequency] : null;
+    return {
+      Name: nameJob(`${entry.componentName} ${entry.actionType.replace(/_/g, ' ')}`),
+      ...base,
+      Category: JOB_CATEGORIES[entry.actionType] ?? 'Operation',
+      Status: JOB_STATUSES[entry.status] ?? NOT_APPLICABLE,
+      TypeName: typeName,
+      Description: text(entry.description),
+      Duration: NOT_APPLICABLE,
+      DurationUnit: NOT_APPLICABLE,
+      Start: formatCobieDate(entry.dateScheduled),
+      TaskStartUnit: entry.dateScheduled ? 'day' : NOT_APPLICABLE,
+      Frequency: frequency ? String(frequency[0]) : NOT_APPLICABLE,
+      FrequencyUnit: frequency ? frequency[1] : NOT_APPLICABLE,
+      ...external('maintenance_entries', entry.id),
+      TaskNumber: String(entry.id),
+      Priors: NOT_APPLICABLE,
+      ResourceNames: text(entry.contractor),
+    };
+  });
+
+  return {
+    Contact: [contact],
+    Facility: [facility],
+    Floor: floors,
+    Space: spaces,
+    Type: types,
+    Component: exportedComponents,
+    Job: jobs,
+  };
+}
+
+/**
+ * Write COBie sheets to an .xlsx buffer
+ */
+export async function cobieSheetsToWorkbook(sheets: CobieSheets): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = COBIE_EXTERNAL_SYSTEM;
+  workbook.created = new Date();
+
+  for (const sheetName of Object.keys(COBIE_COLUMNS) as CobieSheetName[]) {
+    const worksheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] });
+    worksheet.columns = COBIE_COLUMNS[sheetName].map(column => ({ header: column, key: column, width: Math.max(14, column.length + 4) }));
+    worksheet.getRow(1).font = { bold: true };
+    for (const row of sheets[sheetName]) {
+      worksheet.addRow(row);
+    }
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
+
+/**
+ * Build the COBie 2.4 workbook for a project
+ */
+export async function projectToCobieWorkbook(data: CobieExportData): Promise<Buffer> {
+  return cobieSheetsToWorkbook(buildCobieSheets(data));
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export interface CobieImportAsset {
+  sheetRow: number;
+  name: string;
+  assetCode: string | null;
+  description: string | null;
+  primaryUse: string | null;
+  floorName: string | null;
+  grossArea: number | null;
+}
+
+export interface CobieImportComponent {
+  sheetRow: number;
+  name: string;
+  assetName: string;
+  componentCode: string | null;
+  componentName: string;
+  componentLocation: string | null;
+  expectedUsefulLife: number | null;
+  replacementValue: number | null;
+  installYear: number | null;
+  externalId: string;
+}
+
+export interface CobieImportPlan {
+  facilityName: string | null;
+  assets: CobieImportAsset[];
+  components: CobieImportComponent[];
+  warnings: string[];
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 19);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * Read COBie sheets from an .xlsx buffer; sheet and column names are matched case-insensitively
+ */
+export async function readCobieWorkbook(content: Buffer): Promise<Partial<CobieSheets>> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(content as any);
+
+  const sheets: Partial<CobieSheets> = {};
+  for (const sheetName of Object.keys(COBIE_COLUMNS) as CobieSheetName[]) {
+    const worksheet = workbook.worksheets.find(ws => ws.name.trim().toLowerCase() === sheetName.toLowerCase());
+    if (!worksheet) continue;
+
+    const headers = new Map<number, string>();
+    worksheet.getRow(1).eachCell((cell, column) => {
+      const header = cellText(cell.value).trim();
+      const known = COBIE_COLUMNS[sheetName].find(c => c.toLowerCase() === header.toLowerCase());
+      headers.set(column, known ?? header);
+    });
+
+    const rows: CobieRow[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+      const record: CobieRow = { __row: String(rowNumber) };
+      row.eachCell((cell, column) => {
+        const header = headers.get(column);
+        if (header) record[header] = cellText(cell.value).trim();
+      });
+      rows.push(record);
+    });
+    sheets[sheetName] = rows;
+  }
+  return sheets;
+}
+
+function value(row: CobieRow, column: string): string | null {
+  const raw = row[column]?.trim();
+  if (!raw || raw.toLowerCase() === NOT_APPLICABLE) return null;
+  return raw;
+}
+
+function numberValue(row: CobieRow, column: string): number | null {
+  const raw = value(row, column);
+  if (raw === null) return null;
+  const parsed = Number(raw.replace(/[,$\s]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Pull a UNIFORMAT II code ("B2010", "D3040.10") out of a type's category or name
+ */
+export function extractUniformatCode(...candidates: (string | null | undefined)[]): string | null {
+  for (const candidate of candidates) {
+    const match = candidate?.match(/\b([A-G]\d{2}(?:\d{2})?(?:\.\d{2})?)\b/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Convert a COBie duration to years
+ */
+export function toYears(duration: number | null, unit: string | null): number | null {
+  if (duration === null || duration <= 0) return null;
+  const normalized = (unit || 'year').toLowerCase();
+  if (normalized.startsWith('month')) return Math.max(1, Math.round(duration / 12));
+  if (normalized.startsWith('week')) return Math.max(1, Math.round(duration / 52));
+  if (normalized.startsWith('day')) return Math.max(1, Math.round(duration / 365));
+  return Math.round(duration);
+}
+
+/**
+ * Turn parsed COBie sheets into the assets and components to seed
+ */
+export function planCobieImport(sheets: Partial<CobieSheets>): CobieImportPlan {
+  const warnings: string[] = [];
+  const facilityName = sheets.Facility?.[0] ? value(sheets.Facility[0], 'Name') : null;
+
+  if (!sheets.Component || sheets.Component.length === 0) {
+    warnings.push('Workbook has no Component rows; only spaces will be imported');
+  }
+
+  const assets: CobieImportAsset[] = [];
+  const assetsByName = new Map<string, CobieImportAsset>();
+  for (const row of sheets.Space ?? []) {
+    const name = value(row, 'Name');
+    const asset: CobieImportAsset = {
+      sheetRow: Number(row.__row),
+      name: name ?? '',
+      assetCode: value(row, 'RoomTag'),
+      description: value(row, 'Description'),
+      primaryUse: value(row, 'Category'),
+      floorName: value(row, 'FloorName'),
+      grossArea: numberValue(row, 'GrossArea'),
+    };
+    assets.push(asset);
+    if (name) assetsByName.set(name.toLowerCase(), asset);
+  }
+
+  const typesByName = new Map<string, CobieRow>();
+  for (const row of sheets.Type ?? []) {
+    const name = value(row, 'Name');
+    if (name) typesByName.set(name.toLowerCase(), row);
+  }
+
+  // Components without a known space land on an asset named after the facility
+  const fallbackName = facilityName || 'COBie Facility';
+  const components: CobieImportComponent[] = [];
+  for (const row of sheets.Component ?? []) {
+    const sheetRow = Number(row.__row);
+    const name = value(row, 'Name') ?? '';
+    const typeName = value(row, 'TypeName');
+    const type = typeName ? typesByName.get(typeName.toLowerCase()) : undefined;
+    if (typeName && !type) {
+      warnings.push(`Component row ${sheetRow}: type "${typeName}" is not on the Type sheet`);
+    }
+
+    const spaceNames = (value(row, 'Space') ?? '').split(',').map(s => s.trim()).filter(Boolean);
+    let asset = spaceNames.map(s => assetsByName.get(s.toLowerCase())).find(Boolean);
+    if (!asset) {
+      if (spaceNames.length > 0) {
+        warnings.push(`Component row ${sheetRow}: space "${spaceNames[0]}" is not on the Space sheet; assigned to "${fallbackName}"`);
+      }
+      asset = assetsByName.get(fallbackName.toLowerCase());
+      if (!asset) {
+        asset = { sheetRow: 0, name: fallbackName, assetCode: null, description: 'Created from COBie facility', primaryUse: null, floorName: null, grossArea: null };
+        assets.push(asset);
+        assetsByName.set(fallbackName.toLowerCase(), asset);
+      }
+    }
+
+    const installed = value(row, 'InstallationDate');
+    const installYear = installed ? Number(installed.slice(0, 4)) : NaN;
+    const componentCode = extractUniformatCode(type && value(type, 'Category'), typeName, name);
+    const typeDescription = type ? value(type, 'Description') : null;
+    const componentName = (typeDescription || typeName || name).replace(/^[A-G]\d{2}(?:\d{2})?(?:\.\d{2})?\s*-\s*/, '');
+
+    components.push({
+      sheetRow,
+      name,
+      assetName: asset.name,
+      componentCode,
+      componentName,
+      componentLocation: [asset.floorName, value(row, 'Description')].filter(Boolean).join(' - ') || null,
+      expectedUsefulLife: type ? toYears(numberValue(type, 'ExpectedLife'), value(type, 'DurationUnit')) : null,
+      replacementValue: type ? numberValue(type, 'ReplacementCost') : null,
+      installYear: installYear > 1800 && installYear < 2200 ? installYear : null,
+      externalId: (value(row, 'ExtIdentifier') || name).slice(0, 100),
+    });
+  }
+
+  return { facilityName, assets, components, warnings };
+}
+
+/**
+ * Rows handed to importValidation.validateBulkImport ('assets' and 'assessments' import types)
+ */
+export function toValidationRows(plan: CobieImportPlan) {
+  return {
+    assets: plan.assets.map(asset => ({
+      name: asset.name,
+      area: asset.grossArea ?? undefined,
+      description: asset.description,
+    })),
+    components: plan.components.map(component => ({
+      componentId: component.externalId,
+      name: component.name,
+      // COBie carries no condition; seeded components start unassessed
+      condition: 'not_assessed',
+      cost: component.replacementValue ?? undefined,
+    })),
+  };
+}
@@ -1,5 +1,6 @@
 import * as db from "./db";
 import { sanitizeRichText, stripHtml } from "./htmlSanitizer";
+import { emitWebhookEvent } from "./services/webhookService";
 
 export type ChangeType =
   | "assessment_created"
@@ -152,6 +153,22 @@ export async function logAssessmentChange(params: {
       });
     }
   }
+
+  if (!isNew && changes?.status) {
+    emitWebhookEvent({
+      type: "assessment.status_changed",
+      projectId: params.projectId,
+      data: {
+        assessmentId: params.assessmentId,
+        projectId: params.projectId,
+        componentCode: params.componentCode,
+        componentName: params.componentName ?? null,
+        previousStatus: changes.status.old ?? null,
+        newStatus: changes.status.new,
+        changedBy: { id: params.userId, name: params.userName ?? null },
+      },
+    });
+  }
 }
 
 /**
@@ -201,6 +218,24 @@ export async function logDeficiencyChange(params: {
       });
     }
   }
+
+  const webhookData = {
+    deficiencyId: params.deficiencyId,
+    projectId: params.projectId,
+    componentCode: params.componentCode,
+    componentName: params.componentName ?? null,
+    changedBy: { id: params.userId, name: params.userName ?? null },
+  };
+
+  if (isNew) {
+    emitWebhookEvent({ type: "deficiency.created", projectId: params.projectId, data: webhookData });
+  } else if (changes?.status && changes.status.new === "resolved") {
+    emitWebhookEvent({
+      type: "deficiency.resolved",
+      projectId: params.projectId,
+      data: { ...webhookData, previousStatus: changes.status.old ?? null },
+    });
+  }
 }
 
 /**
@@ -0,0 +1,54 @@
+/**
+ * Tests for comparing project rankings across criteria weighting presets
+ */
+
+import { describe, expect, it } from "vitest";
+import { compareRankings, normalizeWeightSet } from "./services/prioritization.service";
+
+describe("criteria preset ranking comparison", () => {
+  // Criteria 1 = Safety, 2 = Energy Savings
+  const projects = [
+    { projectId: 1, projectName: "City Hall", scores: { "1": 9, "2": 2 } },
+    { projectId: 2, projectName: "Library", scores: { "1": 4, "2": 9 } },
+    { projectId: 3, projectName: "Arena", scores: { "1": 6, "2": 6 } },
+  ];
+
+  it("should normalize a preset over the active criteria", () => {
+    expect(normalizeWeightSet({ "1": 40, "2": 40, "9": 20 }, [1, 2])).toEqual({ "1": 50, "2": 50 });
+    expect(normalizeWeightSet({ "1": 3 }, [1, 2])).toEqual({ "1": 100, "2": 0 });
+    expect(normalizeWeightSet({}, [1, 2])).toEqual({ "1": 50, "2": 50 });
+  });
+
+  it("should report rank changes against the current weights", () => {
+    const comparison = compareRankings(projects, [1, 2], { "1": 70, "2": 30 }, [
+      { name: "Energy first", presetId: 5, weights: { "1": 20, "2": 80 } },
+    ]);
+
+    expect(comparison.projects.map(p => [p.projectName, p.baselineRank])).toEqual([
+      ["City Hall", 1],
+      ["Arena", 2],
+      ["Library", 3],
+    ]);
+
+    const library = comparison.projects.find(p => p.projectId === 2)!;
+    expect(library.results[0]).toMatchObject({ scenario: "Energy first", rank: 1, rankChange: 2 });
+    expect(library.results[0].compositeScore).toBeCloseTo(8, 6);
+
+    const cityHall = comparison.projects.find(p => p.projectId === 1)!;
+    expect(cityHall.results[0]).toMatchObject({ rank: 3, rankChange: -2 });
+  });
+
+  it("should rank several presets side by side", () => {
+    const comparison = compareRankings(projects, [1, 2], { "1": 50, "2": 50 }, [
+      { name: "Safety only", weights: { "1": 1 } },
+      { name: "Energy only", weights: { "2": 1 } },
+    ]);
+
+    expect(comparison.scenarios.map(s => s.weights)).toEqual([
+      { "1": 100, "2": 0 },
+      { "1": 0, "2": 100 },
+    ]);
+    const arena = comparison.projects.find(p => p.projectId === 3)!;
+    expect(arena.results.map(r => r.rank)).toEqual([2, 2]);
+  });
+});
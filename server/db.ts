@@ -333,7 +333,15 @@ export async function getProjectById(
     console.warn(`[Security] User ${userId} from company "${userCompany}" attempted to access project ${projectId} from company "${project.company}"`);
     return undefined;
   }
-  
+
+  // Company access policies can narrow visibility per building
+  const { evaluateForProject } = await import("./services/accessPolicy.service");
+  const decision = await evaluateForProject({ id: userId, role: "user", isSuperAdmin: 0 }, "project.view", project);
+  if (!decision.allowed) {
+    console.warn(`[Security] Access policy denied user ${userId} viewing project ${projectId}: ${decision.reason}`);
+    return undefined;
+  }
+
   return project;
 }
 
@@ -806,7 +814,7 @@ export async function upsertAssessment(data: InsertAssessment) {
   
   // If an ID is provided, this is an update operation
   if (data.id) {
-    const updateData = { ...assessmentData, updatedAt: new Date().toISOString() };
+    const updateData = { ...assessmentData, updatedAt: new Date().toISOString(), version: sql`${assessments.version} + 1` };
     console.log('[upsertAssessment] Updating existing assessment:', data.id, 'with componentName:', updateData.componentName);
     await db
       .update(assessments)
@@ -819,7 +827,7 @@ export async function upsertAssessment(data: InsertAssessment) {
   const existing = data.componentCode ? await getAssessmentByComponent(data.projectId, data.componentCode) : null;
   
   if (existing) {
-    const updateData = { ...assessmentData, updatedAt: new Date().toISOString() };
+    const updateData = { ...assessmentData, updatedAt: new Date().toISOString(), version: sql`${assessments.version} + 1` };
     console.log('[upsertAssessment] Updating existing assessment by componentCode:', existing.id, 'with componentName:', updateData.componentName);
     await db
       .update(assessments)
@@ -833,6 +841,26 @@ export async function upsertAssessment(data: InsertAssessment) {
   }
 }
 
+/**
+ * Write fields to an assessment only if it is still at the expected version.
+ * Returns the new version, or null when someone else saved in between.
+ */
+export async function updateAssessmentIfVersion(
+  assessmentId: number,
+  expectedVersion: number,
+  data: Partial<InsertAssessment>
+): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(assessments)
+    .set({ ...data, updatedAt: new Date().toISOString(), version: expectedVersion + 1 })
+    .where(and(eq(assessments.id, assessmentId), eq(assessments.version, expectedVersion)));
+
+  return ((result[0] as any).affectedRows || 0) > 0 ? expectedVersion + 1 : null;
+}
+
 // Deficiencies
 export async function getProjectDeficiencies(projectId: number) {
   const db = await getDb();
@@ -3086,6 +3114,33 @@ export async function getUserUnitPreference(userId: number): Promise<'metric' |
   return result[0]?.unitPreference || null;
 }
 
+// ============================================================================
+// User Language Preference Functions
+// ============================================================================
+
+export async function updateUserLanguagePreference(userId: number, languagePreference: 'en' | 'fr') {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db
+    .update(users)
+    .set({ languagePreference })
+    .where(eq(users.id, userId));
+}
+
+export async function getUserLanguagePreference(userId: number): Promise<'en' | 'fr' | null> {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db
+    .select({ languagePreference: users.languagePreference })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  
+  return result[0]?.languagePreference || null;
+}
+
 
 // ============================================================================
 // Assessment Deletion Functions
@@ -0,0 +1,80 @@
+import { and, desc, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { accessPolicies, type AccessPolicy, type InsertAccessPolicy } from "../../drizzle/schema";
+import { parsePolicyRow, type PolicyRule } from "../accessPolicy";
+
+/**
+ * Database helpers for company access policies
+ * Active policies are cached briefly because they are read on every guarded request
+ */
+
+const POLICY_CACHE_TTL_MS = 30_000;
+const policyCache = new Map<number, { policies: PolicyRule[]; expiresAt: number }>();
+
+function invalidatePolicyCache(companyId: number) {
+  policyCache.delete(companyId);
+}
+
+export async function getCompanyPolicies(companyId: number): Promise<AccessPolicy[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(accessPolicies)
+    .where(eq(accessPolicies.companyId, companyId))
+    .orderBy(desc(accessPolicies.createdAt));
+}
+
+/**
+ * Active policies of a company, parsed for evaluation
+ */
+export async function getActivePolicyRules(companyId: number): Promise<PolicyRule[]> {
+  const cached = policyCache.get(companyId);
+  if (cached && cached.expiresAt > Date.now()) return cached.policies;
+
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select()
+    .from(accessPolicies)
+    .where(and(eq(accessPolicies.companyId, companyId), eq(accessPolicies.isActive, 1)));
+
+  const policies = rows.map(parsePolicyRow);
+  policyCache.set(companyId, { policies, expiresAt: Date.now() + POLICY_CACHE_TTL_MS });
+  return policies;
+}
+
+export async function getPolicyById(id: number): Promise<AccessPolicy | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(accessPolicies).where(eq(accessPolicies.id, id)).limit(1);
+  return result[0] || null;
+}
+
+export async function createPolicy(data: InsertAccessPolicy): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(accessPolicies).values(data);
+  invalidatePolicyCache(data.companyId);
+  return Number(result[0].insertId);
+}
+
+export async function updatePolicy(id: number, companyId: number, data: Partial<InsertAccessPolicy>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(accessPolicies).set(data).where(eq(accessPolicies.id, id));
+  invalidatePolicyCache(companyId);
+}
+
+export async function deletePolicy(id: number, companyId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(accessPolicies).where(eq(accessPolicies.id, id));
+  invalidatePolicyCache(companyId);
+}
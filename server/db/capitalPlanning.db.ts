@@ -1,9 +1,14 @@
 import { getDb } from "../db";
-import { eq, and, sql, inArray } from "drizzle-orm";
-import type {
-  CapitalBudgetCycle,
-  BudgetAllocation,
+import { eq, and, sql, inArray, desc, or, getTableColumns, type SQL } from "drizzle-orm";
+import {
+  capitalPlanSimulations,
+  deteriorationCurves,
+  type CapitalBudgetCycle,
+  type BudgetAllocation,
+  type DeteriorationCurve,
+  type InsertCapitalPlanSimulation,
 } from "../../drizzle/schema";
+import type { SimulationResult } from "../services/capitalPlanSimulation.service";
 
 /**
  * Database helper functions for Capital Planning
@@ -68,6 +73,11 @@ export async function deleteCycleWithDependencies(cycleId: number): Promise<void
       DELETE FROM cycle_analytics_cache WHERE cycleId = ${cycleId}
     `);
 
+    // Delete stored simulation runs
+    await db.execute(sql`
+      DELETE FROM capital_plan_simulations WHERE cycleId = ${cycleId}
+    `);
+
     // Delete the cycle itself
     await db.execute(sql`
       DELETE FROM capital_budget_cycles WHERE id = ${cycleId}
@@ -444,3 +454,164 @@ export async function invalidateCycleAnalytics(cycleId: number): Promise<void> {
     DELETE FROM cycle_analytics_cache WHERE cycleId = ${cycleId}
   `);
 }
+
+// ============================================================================
+// MONTE CARLO SIMULATION RUNS
+// ============================================================================
+
+/**
+ * Portfolio data the funding-risk simulation samples from
+ * Scoped like calculateBacklogSummary: all open deficiencies, optionally one facility
+ */
+export async function getSimulationSourceData(facilityId?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const facilityFilter = (column: SQL) =>
+    facilityId ? sql` AND ${column} = ${facilityId}` : sql``;
+
+  const [allocationResult, deficiencyResult, componentResult, crvResult] = await Promise.all([
+    db.execute(sql`
+      SELECT year, SUM(allocatedAmount) as amount
+      FROM budget_allocations
+      WHERE status IN ('approved', 'funded', 'completed')
+      GROUP BY year
+    `),
+    db.execute(sql`
+      SELECT d.id, d.estimatedCost, d.severity, d.priority
+      FROM deficiencies d
+      WHERE d.status != 'resolved'
+        AND COALESCE(d.estimatedCost, 0) > 0
+        ${facilityFilter(sql.raw("d.projectId"))}
+    `),
+    db.execute(sql`
+      SELECT
+        ass.id,
+        ass.componentCode,
+        ass.remainingUsefulLife,
+        ass.replacementValue,
+        ass.renewCost,
+        cdc.bestCaseCurveId,
+        cdc.designCaseCurveId,
+        cdc.worstCaseCurveId
+      FROM assessments ass
+      LEFT JOIN component_deterioration_config cdc
+        ON cdc.projectId = ass.projectId AND cdc.componentCode = ass.componentCode
+      WHERE ass.deletedAt IS NULL
+        AND ass.hidden = 0
+        AND ass.remainingUsefulLife > 0
+        AND COALESCE(ass.replacementValue, ass.renewCost, 0) > 0
+        ${facilityFilter(sql.raw("ass.projectId"))}
+    `),
+    db.execute(sql`
+      SELECT SUM(COALESCE(ass.replacementValue, 0)) as currentReplacementValue
+      FROM assessments ass
+      WHERE ass.deletedAt IS NULL
+        AND ass.hidden = 0
+        ${facilityFilter(sql.raw("ass.projectId"))}
+    `),
+  ]);
+
+  const rows = (result: any) => (Array.isArray(result[0]) ? result[0] : []);
+  const components = rows(componentResult);
+
+  // Curves referenced by component configuration plus saved defaults
+  const curveIds = Array.from(new Set(
+    components.flatMap((c: any) => [c.bestCaseCurveId, c.designCaseCurveId, c.worstCaseCurveId]).filter(Boolean)
+  )) as number[];
+  const curves: DeteriorationCurve[] = await db
+    .select()
+    .from(deteriorationCurves)
+    .where(curveIds.length > 0
+      ? or(eq(deteriorationCurves.isDefault, 1), inArray(deteriorationCurves.id, curveIds))
+      : eq(deteriorationCurves.isDefault, 1));
+
+  return {
+    allocationsByYear: rows(allocationResult) as Array<{ year: number; amount: string | number }>,
+    deficiencies: rows(deficiencyResult),
+    components,
+    curves,
+    currentReplacementValue: rows(crvResult)[0]?.currentReplacementValue ?? 0,
+  };
+}
+
+export async function createSimulationRun(data: InsertCapitalPlanSimulation): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(capitalPlanSimulations).values(data);
+  return Number(result[0].insertId);
+}
+
+export async function completeSimulationRun(id: number, result: SimulationResult, durationMs: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(capitalPlanSimulations)
+    .set({
+      status: "completed",
+      results: JSON.stringify(result),
+      p10Backlog: result.finalBacklog.p10.toFixed(2),
+      p50Backlog: result.finalBacklog.p50.toFixed(2),
+      p90Backlog: result.finalBacklog.p90.toFixed(2),
+      p50Fci: result.finalFci.p50.toFixed(4),
+      probabilityUnfundedCritical: result.probabilityUnfundedCritical.toFixed(4),
+      durationMs,
+      completedAt: sql`NOW()`,
+    })
+    .where(eq(capitalPlanSimulations.id, id));
+}
+
+export async function failSimulationRun(id: number, errorMessage: string, durationMs: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(capitalPlanSimulations)
+    .set({ status: "failed", errorMessage, durationMs, completedAt: sql`NOW()` })
+    .where(eq(capitalPlanSimulations.id, id));
+}
+
+/**
+ * Stored runs for a cycle, newest first, without the per-year results payload
+ */
+export async function getSimulationRuns(cycleId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const { results, ...columns } = getTableColumns(capitalPlanSimulations);
+  return db
+    .select(columns)
+    .from(capitalPlanSimulations)
+    .where(eq(capitalPlanSimulations.cycleId, cycleId))
+    .orderBy(desc(capitalPlanSimulations.createdAt), desc(capitalPlanSimulations.id));
+}
+
+/**
+ * A stored run with its parsed parameters and year-by-year results
+ */
+export async function getSimulationRun(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [run] = await db
+    .select()
+    .from(capitalPlanSimulations)
+    .where(eq(capitalPlanSimulations.id, id))
+    .limit(1);
+  if (!run) return null;
+
+  return {
+    ...run,
+    parameters: JSON.parse(run.parameters),
+    results: run.results ? (JSON.parse(run.results) as SimulationResult) : null,
+  };
+}
+
+export async function deleteSimulationRun(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(capitalPlanSimulations).where(eq(capitalPlanSimulations.id, id));
+}
@@ -0,0 +1,308 @@
+import { eq, and, asc, inArray, isNull, isNotNull, or, count } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  floorPlans,
+  photos,
+  deficiencies,
+  assessments,
+  type FloorPlan,
+  type InsertFloorPlan,
+} from "../../drizzle/schema";
+import type { FloorPlanPin, FloorPlanPinType } from "../../shared/floorPlans";
+
+/**
+ * Get floor plans for a project, optionally limited to one building section
+ * Includes pin counts per plan
+ */
+export async function getFloorPlans(projectId: number, sectionId?: number | null) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [eq(floorPlans.projectId, projectId)];
+  if (sectionId !== undefined) {
+    conditions.push(sectionId === null ? isNull(floorPlans.sectionId) : eq(floorPlans.sectionId, sectionId));
+  }
+
+  const plans = await db
+    .select()
+    .from(floorPlans)
+    .where(and(...conditions))
+    .orderBy(asc(floorPlans.sortOrder), asc(floorPlans.floorLevel), asc(floorPlans.name));
+
+  if (plans.length === 0) return [];
+
+  const planIds = plans.map(p => p.id);
+  const [photoCounts, deficiencyCounts, assessmentCounts] = await Promise.all([
+    db.select({ floorPlanId: photos.floorPlanId, count: count() }).from(photos)
+      .where(and(inArray(photos.floorPlanId, planIds), isNull(photos.deletedAt)))
+      .groupBy(photos.floorPlanId),
+    db.select({ floorPlanId: deficiencies.floorPlanId, count: count() }).from(deficiencies)
+      .where(inArray(deficiencies.floorPlanId, planIds))
+      .groupBy(deficiencies.floorPlanId),
+    db.select({ floorPlanId: assessments.floorPlanId, count: count() }).from(assessments)
+      .where(and(inArray(assessments.floorPlanId, planIds), isNull(assessments.deletedAt)))
+      .groupBy(assessments.floorPlanId),
+  ]);
+
+  const countFor = (rows: { floorPlanId: number | null; count: number }[], id: number) =>
+    rows.find(r => r.floorPlanId === id)?.count ?? 0;
+
+  return plans.map(plan => ({
+    ...plan,
+    pinCounts: {
+      photo: countFor(photoCounts, plan.id),
+      deficiency: countFor(deficiencyCounts, plan.id),
+      assessment: countFor(assessmentCounts, plan.id),
+    },
+  }));
+}
+
+/**
+ * Get a floor plan by ID
+ */
+export async function getFloorPlanById(id: number): Promise<FloorPlan | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [plan] = await db.select().from(floorPlans).where(eq(floorPlans.id, id)).limit(1);
+  return plan;
+}
+
+/**
+ * Create a floor plan
+ */
+export async function createFloorPlan(data: InsertFloorPlan): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(floorPlans).values(data);
+  return Number(result[0].insertId);
+}
+
+/**
+ * Update a floor plan
+ */
+export async function updateFloorPlan(id: number, data: Partial<InsertFloorPlan>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(floorPlans).set(data).where(eq(floorPlans.id, id));
+}
+
+/**
+ * Delete a floor plan, unpinning everything placed on it
+ */
+export async function deleteFloorPlan(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const cleared = { floorPlanId: null, floorPlanX: null, floorPlanY: null };
+  await db.update(photos).set(cleared).where(eq(photos.floorPlanId, id));
+  await db.update(deficiencies).set(cleared).where(eq(deficiencies.floorPlanId, id));
+  await db.update(assessments).set(cleared).where(eq(assessments.floorPlanId, id));
+  await db.delete(floorPlans).where(eq(floorPlans.id, id));
+}
+
+const toCoordinate = (value: string | null) => (value == null ? 0 : Number(value));
+
+/**
+ * Get every pin on a floor plan
+ * Optional ID filters restrict pins to a subset (e.g. one asset's items for its report)
+ */
+export async function getFloorPlanPins(
+  floorPlanId: number,
+  filter?: { photoIds?: number[]; deficiencyIds?: number[]; assessmentIds?: number[] }
+): Promise<FloorPlanPin[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const restrict = <T>(ids: number[] | undefined, column: T) =>
+    ids === undefined ? [] : [inArray(column as any, ids.length > 0 ? ids : [-1])];
+
+  const [photoRows, deficiencyRows, assessmentRows] = await Promise.all([
+    db.select().from(photos).where(and(
+      eq(photos.floorPlanId, floorPlanId),
+      isNull(photos.deletedAt),
+      ...restrict(filter?.photoIds, photos.id),
+    )),
+    db.select().from(deficiencies).where(and(
+      eq(deficiencies.floorPlanId, floorPlanId),
+      ...restrict(filter?.deficiencyIds, deficiencies.id),
+    )),
+    db.select().from(assessments).where(and(
+      eq(assessments.floorPlanId, floorPlanId),
+      isNull(assessments.deletedAt),
+      ...restrict(filter?.assessmentIds, assessments.id),
+    )),
+  ]);
+
+  return [
+    ...assessmentRows.map((a): FloorPlanPin => ({
+      type: 'assessment',
+      id: a.id,
+      x: toCoordinate(a.floorPlanX),
+      y: toCoordinate(a.floorPlanY),
+      label: a.componentName || a.componentCode || `Assessment #${a.id}`,
+      componentCode: a.componentCode,
+      condition: a.condition ?? a.conditionRating ?? null,
+      status: a.status,
+    })),
+    ...deficiencyRows.map((d): FloorPlanPin => ({
+      type: 'deficiency',
+      id: d.id,
+      x: toCoordinate(d.floorPlanX),
+      y: toCoordinate(d.floorPlanY),
+      label: d.title,
+      componentCode: d.componentCode,
+      severity: d.severity,
+      priority: d.priority,
+      status: d.status,
+    })),
+    ...photoRows.map((p): FloorPlanPin => ({
+      type: 'photo',
+      id: p.id,
+      x: toCoordinate(p.floorPlanX),
+      y: toCoordinate(p.floorPlanY),
+      label: p.caption || `Photo #${p.id}`,
+      componentCode: p.componentCode,
+      thumbnailUrl: p.url,
+    })),
+  ];
+}
+
+/**
+ * Get the project a pinnable item belongs to, or null if it does not exist
+ */
+export async function getPinTargetProjectId(type: FloorPlanPinType, id: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const table = type === 'photo' ? photos : type === 'deficiency' ? deficiencies : assessments;
+  const [row] = await db.select({ projectId: table.projectId }).from(table).where(eq(table.id, id)).limit(1);
+  return row?.projectId ?? null;
+}
+
+/**
+ * Place (or move) an item on a floor plan; pass null to remove it from its plan
+ */
+export async function setPinPosition(
+  type: FloorPlanPinType,
+  id: number,
+  position: { floorPlanId: number; x: number; y: number } | null
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values = position
+    ? { floorPlanId: position.floorPlanId, floorPlanX: position.x.toFixed(4), floorPlanY: position.y.toFixed(4) }
+    : { floorPlanId: null, floorPlanX: null, floorPlanY: null };
+
+  if (type === 'photo') {
+    await db.update(photos).set(values).where(eq(photos.id, id));
+  } else if (type === 'deficiency') {
+    await db.update(deficiencies).set(values).where(eq(deficiencies.id, id));
+  } else {
+    await db.update(assessments).set(values).where(eq(assessments.id, id));
+  }
+}
+
+/**
+ * Items in a project not yet placed on any floor plan, for the viewer's pin palette
+ */
+export async function getUnplacedPinCandidates(projectId: number) {
+  const db = await getDb();
+  if (!db) return { assessments: [], deficiencies: [], photos: [] };
+
+  const [assessmentRows, deficiencyRows, photoRows] = await Promise.all([
+    db.select({
+      id: assessments.id,
+      componentCode: assessments.componentCode,
+      componentName: assessments.componentName,
+      condition: assessments.condition,
+      sectionId: assessments.sectionId,
+    })
+      .from(assessments)
+      .where(and(eq(assessments.projectId, projectId), isNull(assessments.floorPlanId), isNull(assessments.deletedAt)))
+      .limit(500),
+    db.select({
+      id: deficiencies.id,
+      title: deficiencies.title,
+      componentCode: deficiencies.componentCode,
+      severity: deficiencies.severity,
+      status: deficiencies.status,
+    })
+      .from(deficiencies)
+      .where(and(eq(deficiencies.projectId, projectId), isNull(deficiencies.floorPlanId)))
+      .limit(500),
+    db.select({
+      id: photos.id,
+      caption: photos.caption,
+      url: photos.url,
+      componentCode: photos.componentCode,
+    })
+      .from(photos)
+      .where(and(eq(photos.projectId, projectId), isNull(photos.floorPlanId), isNull(photos.deletedAt)))
+      .limit(500),
+  ]);
+
+  return { assessments: assessmentRows, deficiencies: deficiencyRows, photos: photoRows };
+}
+
+/**
+ * Floor plans to embed in an asset report, each with only that asset's pins
+ * A plan is included if it is linked to the asset or holds at least one of its items
+ */
+export async function getAssetReportFloorPlans(
+  projectId: number,
+  assetId: number,
+  items: { assessmentIds: number[]; deficiencyIds: number[] }
+) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const assessmentIds = items.assessmentIds.length > 0 ? items.assessmentIds : [-1];
+  const deficiencyIds = items.deficiencyIds.length > 0 ? items.deficiencyIds : [-1];
+
+  const assetPhotos = await db
+    .select({ id: photos.id })
+    .from(photos)
+    .where(and(
+      eq(photos.projectId, projectId),
+      isNull(photos.deletedAt),
+      isNotNull(photos.floorPlanId),
+      or(eq(photos.assetId, assetId), inArray(photos.assessmentId, assessmentIds))
+    ));
+  const photoIds = assetPhotos.map(p => p.id);
+
+  const [assessmentPlans, deficiencyPlans, photoPlans] = await Promise.all([
+    db.selectDistinct({ id: assessments.floorPlanId }).from(assessments)
+      .where(and(inArray(assessments.id, assessmentIds), isNotNull(assessments.floorPlanId))),
+    db.selectDistinct({ id: deficiencies.floorPlanId }).from(deficiencies)
+      .where(and(inArray(deficiencies.id, deficiencyIds), isNotNull(deficiencies.floorPlanId))),
+    photoIds.length > 0
+      ? db.selectDistinct({ id: photos.floorPlanId }).from(photos).where(inArray(photos.id, photoIds))
+      : Promise.resolve([] as { id: number | null }[]),
+  ]);
+
+  const pinnedPlanIds = [...assessmentPlans, ...deficiencyPlans, ...photoPlans]
+    .map(row => row.id)
+    .filter((id): id is number => id != null);
+
+  const plans = await db
+    .select()
+    .from(floorPlans)
+    .where(and(
+      eq(floorPlans.projectId, projectId),
+      or(eq(floorPlans.assetId, assetId), inArray(floorPlans.id, pinnedPlanIds.length > 0 ? pinnedPlanIds : [-1]))
+    ))
+    .orderBy(asc(floorPlans.sortOrder), asc(floorPlans.floorLevel), asc(floorPlans.name));
+
+  return Promise.all(plans.map(async plan => ({
+    ...plan,
+    pins: await getFloorPlanPins(plan.id, {
+      assessmentIds: items.assessmentIds,
+      deficiencyIds: items.deficiencyIds,
+      photoIds,
+    }),
+  })));
+}
@@ -0,0 +1,271 @@
+import { and, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  assessments,
+  assets,
+  budgetAllocations,
+  deficiencies,
+  projectPriorityScores,
+  type Project,
+} from "../../drizzle/schema";
+import {
+  DEFICIENCY_PRIORITIES,
+  averageCI,
+  ciToConditionLevel,
+  getFundingStatus,
+  normalizeConditionLevel,
+  type GisLocation,
+} from "../gis";
+
+/**
+ * Location and condition metrics for GIS export, and bulk asset location updates
+ * Callers pass the projects the user may access; nothing here re-checks permissions
+ */
+
+type ProjectRef = Pick<Project, "id" | "name" | "address" | "propertyType" | "latitude" | "longitude" | "ci" | "overallConditionRating" | "uniqueId" | "projectNumber" | "currentReplacementValue">;
+
+interface AssessmentAggregate {
+  repairCost: number;
+  componentReplacementValue: number;
+  conditionPercentages: (string | null)[];
+}
+
+function mostUrgent(priorities: string[]): string | null {
+  for (const priority of DEFICIENCY_PRIORITIES) {
+    if (priorities.includes(priority)) return priority;
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Repair cost, component replacement value and condition percentages per asset and per project
+ */
+async function getAssessmentAggregates(projectIds: number[]) {
+  const db = await getDb();
+  const byAsset = new Map<number, AssessmentAggregate>();
+  const byProject = new Map<number, AssessmentAggregate>();
+  if (!db || projectIds.length === 0) return { byAsset, byProject };
+
+  const rows = await db
+    .select({
+      assetId: assessments.assetId,
+      projectId: sql<number>`COALESCE(${assets.projectId}, ${assessments.projectId})`,
+      estimatedRepairCost: assessments.estimatedRepairCost,
+      replacementValue: assessments.replacementValue,
+      conditionPercentage: assessments.conditionPercentage,
+    })
+    .from(assessments)
+    .leftJoin(assets, eq(assessments.assetId, assets.id))
+    .where(and(
+      or(inArray(assets.projectId, projectIds), inArray(assessments.projectId, projectIds)),
+      isNull(assessments.deletedAt),
+      or(eq(assessments.hidden, 0), isNull(assessments.hidden))
+    ));
+
+  const add = (map: Map<number, AssessmentAggregate>, key: number, row: typeof rows[number]) => {
+    const aggregate = map.get(key) ?? { repairCost: 0, componentReplacementValue: 0, conditionPercentages: [] };
+    aggregate.repairCost += toNumber(row.estimatedRepairCost) ?? 0;
+    aggregate.componentReplacementValue += toNumber(row.replacementValue) ?? 0;
+    aggregate.conditionPercentages.push(row.conditionPercentage);
+    map.set(key, aggregate);
+  };
+
+  for (const row of rows) {
+    if (row.assetId) add(byAsset, row.assetId, row);
+    if (row.projectId) add(byProject, Number(row.projectId), row);
+  }
+  return { byAsset, byProject };
+}
+
+/**
+ * Open deficiency priorities per asset (through their assessment) and per project
+ */
+async function getOpenDeficiencyPriorities(projectIds: number[]) {
+  const db = await getDb();
+  const byAsset = new Map<number, string[]>();
+  const byProject = new Map<number, string[]>();
+  if (!db || projectIds.length === 0) return { byAsset, byProject };
+
+  const rows = await db
+    .select({ projectId: deficiencies.projectId, assetId: assessments.assetId, priority: deficiencies.priority })
+    .from(deficiencies)
+    .leftJoin(assessments, eq(deficiencies.assessmentId, assessments.id))
+    .where(and(
+      inArray(deficiencies.projectId, projectIds),
+      inArray(deficiencies.status, ["open", "in_progress", "deferred"])
+    ));
+
+  for (const row of rows) {
+    byProject.set(row.projectId, [...(byProject.get(row.projectId) ?? []), row.priority]);
+    if (row.assetId) byAsset.set(row.assetId, [...(byAsset.get(row.assetId) ?? []), row.priority]);
+  }
+  return { byAsset, byProject };
+}
+
+async function getProjectFunding(projectIds: number[]) {
+  const db = await getDb();
+  const statuses = new Map<number, string[]>();
+  const scores = new Map<number, number>();
+  if (!db || projectIds.length === 0) return { statuses, scores };
+
+  const [allocations, priorityScores] = await Promise.all([
+    db
+      .select({ projectId: budgetAllocations.projectId, status: budgetAllocations.status })
+      .from(budgetAllocations)
+      .where(inArray(budgetAllocations.projectId, projectIds)),
+    db
+      .select({ projectId: projectPriorityScores.projectId, compositeScore: projectPriorityScores.compositeScore })
+      .from(projectPriorityScores)
+      .where(inArray(projectPriorityScores.projectId, projectIds)),
+  ]);
+
+  for (const row of allocations) {
+    statuses.set(row.projectId, [...(statuses.get(row.projectId) ?? []), row.status]);
+  }
+  for (const row of priorityScores) {
+    scores.set(row.projectId, Number(row.compositeScore));
+  }
+  return { statuses, scores };
+}
+
+/**
+ * Assets with coordinates in the given projects, with their condition metrics
+ */
+export async function getAssetLocations(projectList: ProjectRef[]): Promise<GisLocation[]> {
+  const db = await getDb();
+  if (!db || projectList.length === 0) return [];
+
+  const projectIds = projectList.map(p => p.id);
+  const projectsById = new Map(projectList.map(p => [p.id, p]));
+
+  const [assetRows, aggregates, priorities, funding] = await Promise.all([
+    db.select().from(assets).where(inArray(assets.projectId, projectIds)),
+    getAssessmentAggregates(projectIds),
+    getOpenDeficiencyPriorities(projectIds),
+    getProjectFunding(projectIds),
+  ]);
+
+  const locations: GisLocation[] = [];
+  for (const asset of assetRows) {
+    const lat = toNumber(asset.latitude);
+    const lng = toNumber(asset.longitude);
+    if (lat === null || lng === null) continue;
+
+    const project = projectsById.get(asset.projectId)!;
+    const aggregate = aggregates.byAsset.get(asset.id);
+    const repairCost = aggregate?.repairCost ?? 0;
+    const replacementValue = toNumber(asset.replacementValue) || aggregate?.componentReplacementValue || null;
+    const ci = aggregate ? averageCI(aggregate.conditionPercentages) : null;
+
+    locations.push({
+      kind: "asset",
+      id: asset.id,
+      name: asset.name,
+      lat,
+      lng,
+      properties: {
+        projectId: project.id,
+        projectName: project.name,
+        assetCode: asset.assetCode,
+        uniqueId: asset.uniqueId,
+        address: asset.address || [asset.streetNumber, asset.streetAddress, asset.city, asset.province].filter(Boolean).join(" ") || null,
+        assetType: asset.primaryUse,
+        fci: replacementValue ? Math.round(repairCost / replacementValue * 10000) / 10000 : null,
+        ci,
+        condition: normalizeConditionLevel(asset.overallCondition) ?? ciToConditionLevel(ci),
+        deferredMaintenanceCost: repairCost,
+        replacementValue,
+        priority: mostUrgent(priorities.byAsset.get(asset.id) ?? []),
+        priorityScore: funding.scores.get(project.id) ?? null,
+        fundingStatus: getFundingStatus(funding.statuses.get(project.id) ?? [], repairCost),
+      },
+    });
+  }
+  return locations;
+}
+
+/**
+ * Projects with coordinates, with their condition metrics
+ */
+export async function getProjectLocations(projectList: ProjectRef[]): Promise<GisLocation[]> {
+  const located = projectList.filter(p => toNumber(p.latitude) !== null && toNumber(p.longitude) !== null);
+  if (located.length === 0) return [];
+
+  const projectIds = located.map(p => p.id);
+  const [aggregates, priorities, funding] = await Promise.all([
+    getAssessmentAggregates(projectIds),
+    getOpenDeficiencyPriorities(projectIds),
+    getProjectFunding(projectIds),
+  ]);
+
+  return located.map(project => {
+    const aggregate = aggregates.byProject.get(project.id);
+    const repairCost = aggregate?.repairCost ?? 0;
+    const replacementValue = aggregate?.componentReplacementValue || toNumber(project.currentReplacementValue);
+    const ci = toNumber(project.ci) ?? (aggregate ? averageCI(aggregate.conditionPercentages) : null);
+
+    return {
+      kind: "project" as const,
+      id: project.id,
+      name: project.name,
+      lat: toNumber(project.latitude)!,
+      lng: toNumber(project.longitude)!,
+      properties: {
+        projectId: project.id,
+        projectName: project.name,
+        assetCode: project.projectNumber,
+        uniqueId: project.uniqueId,
+        address: project.address,
+        assetType: project.propertyType,
+        fci: replacementValue ? Math.round(repairCost / replacementValue * 10000) / 10000 : null,
+        ci,
+        condition: normalizeConditionLevel(project.overallConditionRating) ?? ciToConditionLevel(ci),
+        deferredMaintenanceCost: repairCost,
+        replacementValue,
+        priority: mostUrgent(priorities.byProject.get(project.id) ?? []),
+        priorityScore: funding.scores.get(project.id) ?? null,
+        fundingStatus: getFundingStatus(funding.statuses.get(project.id) ?? [], repairCost),
+      },
+    };
+  });
+}
+
+/**
+ * Assets that location updates can be matched against
+ */
+export async function getMatchableAssets(projectIds: number[]) {
+  const db = await getDb();
+  if (!db || projectIds.length === 0) return [];
+
+  return db
+    .select({
+      id: assets.id,
+      projectId: assets.projectId,
+      name: assets.name,
+      assetCode: assets.assetCode,
+      uniqueId: assets.uniqueId,
+      latitude: assets.latitude,
+      longitude: assets.longitude,
+    })
+    .from(assets)
+    .where(inArray(assets.projectId, projectIds));
+}
+
+export async function updateAssetLocation(assetId: number, lat: number, lng: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(assets)
+    .set({
+      latitude: lat.toFixed(8),
+      longitude: lng.toFixed(8),
+    })
+    .where(eq(assets.id, assetId));
+}
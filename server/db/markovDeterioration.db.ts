@@ -0,0 +1,107 @@
+import { eq, and, like, inArray, isNotNull, isNull } from "drizzle-orm";
+import { getDb } from "../db";
+import { assessments, assessmentVersions, componentHistory } from "../../drizzle/schema";
+
+export interface RawConditionRecord {
+  sequenceKey: string;
+  observedAt: string | null;
+  value: unknown;
+}
+
+const CONDITION_FIELDS = ["conditionPercentage", "condition"];
+
+// One sequence per component on one asset; the same component on different assets deteriorates separately
+const sequenceKey = (projectId: number | null, assetId: number | null, componentCode: string | null) =>
+  `${projectId ?? 0}:${assetId ?? 0}:${componentCode ?? ""}`;
+
+// Deleted and hidden assessments are left out of calibration
+const liveAssessment = and(isNull(assessments.deletedAt), eq(assessments.hidden, 0));
+
+/**
+ * Get every recorded condition observation for a UNIFORMAT class
+ * Combines current assessments, assessment version snapshots and component
+ * history condition changes, keyed by project, asset and component code
+ */
+export async function getConditionObservations(componentClass: string): Promise<RawConditionRecord[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const codePattern = `${componentClass}%`;
+
+  const [current, versions, history] = await Promise.all([
+    db
+      .select({
+        projectId: assessments.projectId,
+        assetId: assessments.assetId,
+        componentCode: assessments.componentCode,
+        conditionPercentage: assessments.conditionPercentage,
+        condition: assessments.condition,
+        assessedAt: assessments.assessedAt,
+        assessmentDate: assessments.assessmentDate,
+      })
+      .from(assessments)
+      .where(and(like(assessments.componentCode, codePattern), liveAssessment)),
+    db
+      .select({
+        projectId: assessments.projectId,
+        assetId: assessments.assetId,
+        componentCode: assessments.componentCode,
+        data: assessmentVersions.data,
+        createdAt: assessmentVersions.createdAt,
+      })
+      .from(assessmentVersions)
+      .innerJoin(assessments, eq(assessments.id, assessmentVersions.assessmentId))
+      .where(and(like(assessments.componentCode, codePattern), liveAssessment)),
+    db
+      .select({
+        projectId: componentHistory.projectId,
+        assetId: assessments.assetId,
+        componentCode: componentHistory.componentCode,
+        newValue: componentHistory.newValue,
+        timestamp: componentHistory.timestamp,
+      })
+      .from(componentHistory)
+      // History is attributed to an asset through its assessment; entries without one cannot be placed in a sequence
+      .innerJoin(assessments, eq(assessments.id, componentHistory.assessmentId))
+      .where(and(
+        like(componentHistory.componentCode, codePattern),
+        liveAssessment,
+        inArray(componentHistory.fieldName, CONDITION_FIELDS),
+        isNotNull(componentHistory.newValue)
+      )),
+  ]);
+
+  const records: RawConditionRecord[] = [];
+
+  for (const row of current) {
+    records.push({
+      sequenceKey: sequenceKey(row.projectId, row.assetId, row.componentCode),
+      observedAt: row.assessedAt || row.assessmentDate,
+      value: row.conditionPercentage ?? row.condition,
+    });
+  }
+
+  for (const row of versions) {
+    let snapshot: Record<string, any>;
+    try {
+      snapshot = JSON.parse(row.data);
+    } catch {
+      continue;
+    }
+    records.push({
+      sequenceKey: sequenceKey(row.projectId, row.assetId, row.componentCode),
+      observedAt: snapshot.assessedAt || snapshot.assessmentDate || row.createdAt,
+      value: snapshot.conditionPercentage ?? snapshot.condition,
+    });
+  }
+
+  for (const row of history) {
+    records.push({
+      sequenceKey: sequenceKey(row.projectId, row.assetId, row.componentCode),
+      observedAt: row.timestamp,
+      value: row.newValue,
+    });
+  }
+
+  return records;
+}
@@ -1,6 +1,8 @@
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, desc, inArray, isNotNull, getTableColumns } from "drizzle-orm";
 import { getDb } from "../db";
 import {
+  assessments,
+  deficiencies,
   facilityModels,
   modelAnnotations,
   modelViewpoints,
@@ -8,6 +10,7 @@ import {
   InsertModelAnnotation,
   InsertModelViewpoint,
 } from "../../drizzle/schema";
+import type { AssetReportModelViewpoint } from "../reportDataValidation";
 
 export async function createFacilityModel(model: InsertFacilityModel) {
   const db = await getDb();
@@ -102,13 +105,24 @@ export async function createModelAnnotation(annotation: InsertModelAnnotation) {
   return result;
 }
 
+/**
+ * Annotations with the linked deficiency's priority and status, which decide the marker color
+ */
 export async function getModelAnnotations(modelId: number) {
   const db = await getDb();
   if (!db) return [];
 
   const result = await db
-    .select()
+    .select({
+      ...getTableColumns(modelAnnotations),
+      assessmentComponentCode: assessments.componentCode,
+      deficiencyTitle: deficiencies.title,
+      deficiencyPriority: deficiencies.priority,
+      deficiencyStatus: deficiencies.status,
+    })
     .from(modelAnnotations)
+    .leftJoin(assessments, eq(assessments.id, modelAnnotations.assessmentId))
+    .leftJoin(deficiencies, eq(deficiencies.id, modelAnnotations.deficiencyId))
     .where(eq(modelAnnotations.modelId, modelId))
     .orderBy(desc(modelAnnotations.createdAt));
 
@@ -183,6 +197,19 @@ export async function getModelViewpoint(id: number) {
   return result[0];
 }
 
+export async function updateModelViewpoint(
+  id: number,
+  updates: Partial<InsertModelViewpoint>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(modelViewpoints)
+    .set(updates)
+    .where(eq(modelViewpoints.id, id));
+}
+
 export async function deleteModelViewpoint(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -240,3 +267,59 @@ export async function getModelByApsUrn(apsUrn: string) {
 
   return result[0];
 }
+
+function parseSnapshotAnnotationIds(value: unknown): number[] {
+  const ids = typeof value === "string" ? JSON.parse(value) : value;
+  return Array.isArray(ids) ? ids.filter((id): id is number => Number.isInteger(id)) : [];
+}
+
+/**
+ * Viewpoint snapshots exported into an asset's report, with their annotations in legend order
+ * Annotations deleted since the export keep their number so the legend still matches the image
+ */
+export async function getAssetReportViewpoints(assetId: number): Promise<AssetReportModelViewpoint[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ viewpoint: modelViewpoints, modelName: facilityModels.name })
+    .from(modelViewpoints)
+    .innerJoin(facilityModels, eq(facilityModels.id, modelViewpoints.modelId))
+    .where(and(eq(modelViewpoints.reportAssetId, assetId), isNotNull(modelViewpoints.snapshotUrl)))
+    .orderBy(asc(modelViewpoints.createdAt));
+  if (rows.length === 0) return [];
+
+  const modelIds = Array.from(new Set(rows.map(row => row.viewpoint.modelId)));
+  const annotations = await db
+    .select({
+      id: modelAnnotations.id,
+      title: modelAnnotations.title,
+      annotationType: modelAnnotations.annotationType,
+      componentName: modelAnnotations.componentName,
+      priority: modelAnnotations.priority,
+      status: modelAnnotations.status,
+      componentCode: assessments.componentCode,
+      deficiencyPriority: deficiencies.priority,
+      deficiencyStatus: deficiencies.status,
+    })
+    .from(modelAnnotations)
+    .leftJoin(assessments, eq(assessments.id, modelAnnotations.assessmentId))
+    .leftJoin(deficiencies, eq(deficiencies.id, modelAnnotations.deficiencyId))
+    .where(inArray(modelAnnotations.modelId, modelIds));
+  const byId = new Map(annotations.map(annotation => [annotation.id, annotation]));
+
+  return rows.map(({ viewpoint, modelName }) => ({
+    name: viewpoint.name,
+    description: viewpoint.description,
+    modelName,
+    snapshotUrl: viewpoint.snapshotUrl!,
+    snapshotWidth: viewpoint.snapshotWidth,
+    snapshotHeight: viewpoint.snapshotHeight,
+    annotations: parseSnapshotAnnotationIds(viewpoint.snapshotAnnotationIds).map((id, index) => {
+      const annotation = byId.get(id);
+      return annotation
+        ? { ...annotation, number: index + 1 }
+        : { id, number: index + 1, title: "(annotation deleted)", annotationType: "note" };
+    }),
+  }));
+}
@@ -10,6 +10,9 @@ import type {
   InsertCapitalBudgetCycle,
   BudgetAllocation,
   InsertBudgetAllocation,
+  StrategicObjective,
+  InsertStrategicObjective,
+  CriteriaObjectiveLink,
 } from "../../drizzle/schema";
 
 /**
@@ -33,6 +36,24 @@ export async function getAllCriteria(): Promise<PrioritizationCriteria[]> {
   return Array.isArray(result[0]) ? result[0] : [];
 }
 
+/**
+ * Criteria the live scoring model uses: enabled and not removed from the model
+ * Presets are applied to, and scenarios compared over, exactly this set.
+ */
+export async function getScoringCriteria(): Promise<Array<Pick<PrioritizationCriteria, "id" | "name" | "weight">>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.execute(sql`
+    SELECT id, name, weight
+    FROM prioritization_criteria
+    WHERE isActive = 1 AND status = 'active'
+    ORDER BY displayOrder, name
+  `);
+
+  return Array.isArray(result[0]) ? (result[0] as any[]) : [];
+}
+
 export async function getCriteriaById(id: number): Promise<PrioritizationCriteria | null> {
   const db = await getDb();
   if (!db) return null;
@@ -249,6 +270,126 @@ export async function deleteProjectScore(projectId: number, criteriaId: number):
   `);
 }
 
+// ============================================================================
+// STRATEGIC OBJECTIVES
+// ============================================================================
+
+export async function getAllObjectives(includeInactive = false): Promise<StrategicObjective[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const result = await db.execute(sql`
+    SELECT * FROM strategic_objectives
+    ${includeInactive ? sql`` : sql`WHERE isActive = 1`}
+    ORDER BY displayOrder, name
+  `);
+
+  return Array.isArray(result[0]) ? result[0] : [];
+}
+
+export async function getObjectiveById(id: number): Promise<StrategicObjective | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.execute(sql`
+    SELECT * FROM strategic_objectives
+    WHERE id = ${id}
+  `);
+
+  const rows = Array.isArray(result[0]) ? result[0] : [];
+  return rows.length > 0 ? rows[0] : null;
+}
+
+export async function createObjective(objective: InsertStrategicObjective): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.execute(sql`
+    INSERT INTO strategic_objectives (
+      name, description, category, targetYear, isActive, displayOrder
+    ) VALUES (
+      ${objective.name},
+      ${objective.description || null},
+      ${objective.category || null},
+      ${objective.targetYear || null},
+      ${objective.isActive !== undefined ? objective.isActive : 1},
+      ${objective.displayOrder || 0}
+    )
+  `);
+
+  return result[0].insertId;
+}
+
+export async function updateObjective(
+  id: number,
+  updates: Partial<StrategicObjective>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const setParts: any[] = [];
+
+  if (updates.name !== undefined) setParts.push(sql`name = ${updates.name}`);
+  if (updates.description !== undefined) setParts.push(sql`description = ${updates.description}`);
+  if (updates.category !== undefined) setParts.push(sql`category = ${updates.category}`);
+  if (updates.targetYear !== undefined) setParts.push(sql`targetYear = ${updates.targetYear}`);
+  if (updates.isActive !== undefined) setParts.push(sql`isActive = ${updates.isActive}`);
+  if (updates.displayOrder !== undefined) setParts.push(sql`displayOrder = ${updates.displayOrder}`);
+
+  if (setParts.length === 0) return;
+
+  await db.execute(sql`UPDATE strategic_objectives SET ${sql.join(setParts, sql`, `)} WHERE id = ${id}`);
+}
+
+export async function deleteObjective(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Remove criteria links first
+  await db.execute(sql`
+    DELETE FROM criteria_objective_links WHERE objectiveId = ${id}
+  `);
+
+  await db.execute(sql`
+    DELETE FROM strategic_objectives WHERE id = ${id}
+  `);
+}
+
+export async function getCriteriaObjectiveLinks(criteriaId?: number): Promise<CriteriaObjectiveLink[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const result = await db.execute(sql`
+    SELECT * FROM criteria_objective_links
+    ${criteriaId !== undefined ? sql`WHERE criteriaId = ${criteriaId}` : sql``}
+    ORDER BY criteriaId, objectiveId
+  `);
+
+  return Array.isArray(result[0]) ? result[0] : [];
+}
+
+/**
+ * Replace the objectives a criterion serves
+ */
+export async function setCriteriaObjectiveLinks(
+  criteriaId: number,
+  links: Array<{ objectiveId: number; alignmentStrength: number }>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.execute(sql`
+    DELETE FROM criteria_objective_links WHERE criteriaId = ${criteriaId}
+  `);
+
+  for (const link of links) {
+    await db.execute(sql`
+      INSERT INTO criteria_objective_links (criteriaId, objectiveId, alignmentStrength)
+      VALUES (${criteriaId}, ${link.objectiveId}, ${link.alignmentStrength.toFixed(2)})
+    `);
+  }
+}
+
 // ============================================================================
 // CAPITAL BUDGET CYCLES
 // ============================================================================
@@ -417,6 +558,23 @@ export async function deleteBudgetAllocation(id: number): Promise<void> {
   `);
 }
 
+/**
+ * Clear proposed allocations so a regenerated plan replaces them
+ * Approved and funded allocations are left alone
+ */
+export async function deleteProposedAllocations(cycleId: number, projectIds?: number[]): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (projectIds && projectIds.length === 0) return 0;
+
+  const result = await db.execute(sql`
+    DELETE FROM budget_allocations WHERE cycleId = ${cycleId} AND status = 'proposed'
+    ${projectIds ? sql`AND projectId IN (${sql.join(projectIds.map((id) => sql`${id}`), sql`, `)})` : sql``}
+  `);
+
+  return (result[0] as any).affectedRows || 0;
+}
+
 export async function getBudgetSummaryByYear(cycleId: number): Promise<
   Array<{
     year: number;
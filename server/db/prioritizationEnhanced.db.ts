@@ -5,6 +5,7 @@ import type {
   InsertCriteriaModelVersion,
   ScoringAuditLog,
   InsertScoringAuditLog,
+  CriteriaPreset,
 } from "../../drizzle/schema";
 
 /**
@@ -106,6 +107,124 @@ export async function getCriteriaByModelVersion(versionId: number) {
   return Array.isArray(result[0]) ? result[0] : [];
 }
 
+// ============================================================================
+// CRITERIA WEIGHTING PRESETS
+// ============================================================================
+
+/**
+ * Weight set stored in criteria_presets.configuration
+ * Weights are keyed by criteria id so presets survive criteria renames
+ */
+export interface CriteriaPresetConfiguration {
+  weights: Record<string, number>;
+}
+
+export type CriteriaPresetWithWeights = Omit<CriteriaPreset, "configuration"> & {
+  configuration: CriteriaPresetConfiguration;
+};
+
+function parsePreset(row: any): CriteriaPresetWithWeights {
+  let configuration: CriteriaPresetConfiguration = { weights: {} };
+  try {
+    const parsed = JSON.parse(row.configuration);
+    if (parsed && typeof parsed.weights === "object") configuration = parsed;
+  } catch {
+    // Leave an unreadable preset empty rather than failing the whole list
+  }
+  return { ...row, configuration };
+}
+
+/**
+ * Get all weighting presets
+ */
+export async function getAllPresets(): Promise<CriteriaPresetWithWeights[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const result = await db.execute(sql`
+    SELECT * FROM criteria_presets
+    ORDER BY isDefault DESC, name
+  `);
+
+  return (Array.isArray(result[0]) ? result[0] : []).map(parsePreset);
+}
+
+/**
+ * Get a weighting preset by ID
+ */
+export async function getPresetById(id: number): Promise<CriteriaPresetWithWeights | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.execute(sql`
+    SELECT * FROM criteria_presets
+    WHERE id = ${id}
+  `);
+
+  const rows = Array.isArray(result[0]) ? result[0] : [];
+  return rows.length > 0 ? parsePreset(rows[0]) : null;
+}
+
+/**
+ * Create a weighting preset
+ */
+export async function createPreset(preset: {
+  name: string;
+  description?: string | null;
+  configuration: CriteriaPresetConfiguration;
+  createdBy: number;
+}): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.execute(sql`
+    INSERT INTO criteria_presets (
+      name, description, configuration, isDefault, createdBy
+    ) VALUES (
+      ${preset.name},
+      ${preset.description || null},
+      ${JSON.stringify(preset.configuration)},
+      0,
+      ${preset.createdBy}
+    )
+  `);
+
+  return result[0].insertId;
+}
+
+/**
+ * Update a weighting preset's name, description or weights
+ */
+export async function updatePreset(
+  id: number,
+  updates: { name?: string; description?: string | null; configuration?: CriteriaPresetConfiguration }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const setParts: any[] = [];
+
+  if (updates.name !== undefined) setParts.push(sql`name = ${updates.name}`);
+  if (updates.description !== undefined) setParts.push(sql`description = ${updates.description}`);
+  if (updates.configuration !== undefined) setParts.push(sql`configuration = ${JSON.stringify(updates.configuration)}`);
+
+  if (setParts.length === 0) return;
+
+  await db.execute(sql`UPDATE criteria_presets SET ${sql.join(setParts, sql`, `)} WHERE id = ${id}`);
+}
+
+/**
+ * Delete a weighting preset
+ */
+export async function deletePreset(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.execute(sql`
+    DELETE FROM criteria_presets WHERE id = ${id}
+  `);
+}
+
 // ============================================================================
 // SCORING AUDIT LOG
 // ============================================================================
@@ -0,0 +1,226 @@
+import { eq, and, desc, isNull, ne, or, inArray, count, type SQL } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  projects,
+  assets,
+  assessments,
+  deficiencies,
+  photos,
+  type InsertDeficiency,
+} from "../../drizzle/schema";
+
+/**
+ * Company-scoped reads and writes behind the public REST API
+ * Every query is restricted to the projects owned by the key's company
+ */
+
+export interface PageOptions {
+  limit: number;
+  offset: number;
+}
+
+export interface ResourceFilter {
+  projectId?: number;
+  assetId?: number;
+}
+
+function companyProjectConditions(companyName: string): SQL[] {
+  return [
+    eq(projects.company, companyName),
+    isNull(projects.deletedAt),
+    ne(projects.status, "deleted"),
+  ];
+}
+
+/**
+ * Assessments the app still shows: not soft-deleted and not hidden
+ */
+export function visibleAssessmentConditions(): SQL[] {
+  return [
+    isNull(assessments.deletedAt),
+    or(eq(assessments.hidden, 0), isNull(assessments.hidden)),
+  ];
+}
+
+/**
+ * IDs of the company's live projects, optionally narrowed to one project
+ */
+async function getCompanyProjectIds(companyName: string, projectId?: number): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = companyProjectConditions(companyName);
+  if (projectId !== undefined) conditions.push(eq(projects.id, projectId));
+
+  const rows = await db.select({ id: projects.id }).from(projects).where(and(...conditions));
+  return rows.map(r => r.id);
+}
+
+export async function isCompanyProject(companyName: string, projectId: number): Promise<boolean> {
+  const ids = await getCompanyProjectIds(companyName, projectId);
+  return ids.length > 0;
+}
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+export async function listProjects(companyName: string, page: PageOptions) {
+  const db = await getDb();
+  if (!db) return { data: [], total: 0 };
+
+  const where = and(...companyProjectConditions(companyName));
+  const [data, [{ total }]] = await Promise.all([
+    db.select().from(projects).where(where).orderBy(desc(projects.updatedAt)).limit(page.limit).offset(page.offset),
+    db.select({ total: count() }).from(projects).where(where),
+  ]);
+  return { data, total };
+}
+
+export async function getProject(companyName: string, projectId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(and(eq(projects.id, projectId), ...companyProjectConditions(companyName)))
+    .limit(1);
+  return project;
+}
+
+// ============================================================================
+// Project-owned resources
+// ============================================================================
+
+export async function listAssets(companyName: string, filter: ResourceFilter, page: PageOptions) {
+  const db = await getDb();
+  if (!db) return { data: [], total: 0 };
+
+  const projectIds = await getCompanyProjectIds(companyName, filter.projectId);
+  if (projectIds.length === 0) return { data: [], total: 0 };
+
+  const where = inArray(assets.projectId, projectIds);
+  const [data, [{ total }]] = await Promise.all([
+    db.select().from(assets).where(where).orderBy(desc(assets.updatedAt)).limit(page.limit).offset(page.offset),
+    db.select({ total: count() }).from(assets).where(where),
+  ]);
+  return { data, total };
+}
+
+export async function getAsset(companyName: string, assetId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [asset] = await db.select().from(assets).where(eq(assets.id, assetId)).limit(1);
+  if (!asset || !(await isCompanyProject(companyName, asset.projectId))) return undefined;
+  return asset;
+}
+
+export async function listAssessments(companyName: string, filter: ResourceFilter, page: PageOptions) {
+  const db = await getDb();
+  if (!db) return { data: [], total: 0 };
+
+  const projectIds = await getCompanyProjectIds(companyName, filter.projectId);
+  if (projectIds.length === 0) return { data: [], total: 0 };
+
+  const conditions: SQL[] = [inArray(assessments.projectId, projectIds), ...visibleAssessmentConditions()];
+  if (filter.assetId !== undefined) conditions.push(eq(assessments.assetId, filter.assetId));
+
+  const where = and(...conditions);
+  const [data, [{ total }]] = await Promise.all([
+    db.select().from(assessments).where(where).orderBy(desc(assessments.updatedAt)).limit(page.limit).offset(page.offset),
+    db.select({ total: count() }).from(assessments).where(where),
+  ]);
+  return { data, total };
+}
+
+export async function getAssessment(companyName: string, assessmentId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [assessment] = await db
+    .select()
+    .from(assessments)
+    .where(and(eq(assessments.id, assessmentId), ...visibleAssessmentConditions()))
+    .limit(1);
+  if (!assessment?.projectId || !(await isCompanyProject(companyName, assessment.projectId))) return undefined;
+  return assessment;
+}
+
+export async function listDeficiencies(companyName: string, filter: ResourceFilter, page: PageOptions) {
+  const db = await getDb();
+  if (!db) return { data: [], total: 0 };
+
+  const projectIds = await getCompanyProjectIds(companyName, filter.projectId);
+  if (projectIds.length === 0) return { data: [], total: 0 };
+
+  const where = inArray(deficiencies.projectId, projectIds);
+  const [data, [{ total }]] = await Promise.all([
+    db.select().from(deficiencies).where(where).orderBy(desc(deficiencies.updatedAt)).limit(page.limit).offset(page.offset),
+    db.select({ total: count() }).from(deficiencies).where(where),
+  ]);
+  return { data, total };
+}
+
+export async function getDeficiency(companyName: string, deficiencyId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [deficiency] = await db.select().from(deficiencies).where(eq(deficiencies.id, deficiencyId)).limit(1);
+  if (!deficiency || !(await isCompanyProject(companyName, deficiency.projectId))) return undefined;
+  return deficiency;
+}
+
+export async function listPhotos(companyName: string, filter: ResourceFilter, page: PageOptions) {
+  const db = await getDb();
+  if (!db) return { data: [], total: 0 };
+
+  const projectIds = await getCompanyProjectIds(companyName, filter.projectId);
+  if (projectIds.length === 0) return { data: [], total: 0 };
+
+  const conditions: SQL[] = [inArray(photos.projectId, projectIds), isNull(photos.deletedAt)];
+  if (filter.assetId !== undefined) conditions.push(eq(photos.assetId, filter.assetId));
+
+  const where = and(...conditions);
+  const [data, [{ total }]] = await Promise.all([
+    db.select().from(photos).where(where).orderBy(desc(photos.createdAt)).limit(page.limit).offset(page.offset),
+    db.select({ total: count() }).from(photos).where(where),
+  ]);
+  return { data, total };
+}
+
+export async function getPhoto(companyName: string, photoId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [photo] = await db
+    .select()
+    .from(photos)
+    .where(and(eq(photos.id, photoId), isNull(photos.deletedAt)))
+    .limit(1);
+  if (!photo || !(await isCompanyProject(companyName, photo.projectId))) return undefined;
+  return photo;
+}
+
+// ============================================================================
+// Deficiency writes
+// ============================================================================
+
+export async function createDeficiency(data: InsertDeficiency) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(deficiencies).values(data);
+  const [created] = await db.select().from(deficiencies).where(eq(deficiencies.id, result[0].insertId)).limit(1);
+  return created;
+}
+
+export async function updateDeficiency(deficiencyId: number, data: Partial<InsertDeficiency>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(deficiencies).set(data).where(eq(deficiencies.id, deficiencyId));
+  const [updated] = await db.select().from(deficiencies).where(eq(deficiencies.id, deficiencyId)).limit(1);
+  return updated;
+}
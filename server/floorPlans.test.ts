@@ -0,0 +1,93 @@
+/**
+ * Tests for floor plan heat-map overlays
+ * Tests pin weighting and grid rasterization shared by the viewer and PDF snapshots
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  clampPinCoordinate,
+  computeHeatmapGrid,
+  getPinHeatWeight,
+  heatmapColor,
+  type FloorPlanPin,
+} from "../shared/floorPlans";
+
+const pin = (overrides: Partial<FloorPlanPin>): FloorPlanPin => ({
+  type: "assessment",
+  id: 1,
+  x: 0.5,
+  y: 0.5,
+  label: "Pin",
+  ...overrides,
+});
+
+describe("floor plan heat maps", () => {
+  describe("getPinHeatWeight", () => {
+    it("should weight assessment pins by condition", () => {
+      expect(getPinHeatWeight(pin({ condition: "critical" }), "condition")).toBe(1);
+      expect(getPinHeatWeight(pin({ condition: "Fair" }), "condition")).toBe(0.5);
+      expect(getPinHeatWeight(pin({ condition: "4" }), "condition")).toBe(0.8);
+      expect(getPinHeatWeight(pin({ condition: null }), "condition")).toBeNull();
+    });
+
+    it("should weight open deficiency pins by severity", () => {
+      expect(getPinHeatWeight(pin({ type: "deficiency", severity: "high" }), "severity")).toBe(0.75);
+      expect(getPinHeatWeight(pin({ type: "deficiency", severity: "critical", status: "resolved" }), "severity")).toBeNull();
+    });
+
+    it("should ignore pins that do not apply to the mode", () => {
+      expect(getPinHeatWeight(pin({ type: "deficiency", severity: "high" }), "condition")).toBeNull();
+      expect(getPinHeatWeight(pin({ condition: "poor" }), "severity")).toBeNull();
+      expect(getPinHeatWeight(pin({ type: "photo" }), "condition")).toBeNull();
+    });
+  });
+
+  describe("computeHeatmapGrid", () => {
+    it("should size rows from the aspect ratio", () => {
+      const grid = computeHeatmapGrid([], "condition", { aspectRatio: 2, columns: 40 });
+      expect(grid.columns).toBe(40);
+      expect(grid.rows).toBe(20);
+      expect(grid.cells).toHaveLength(800);
+      expect(grid.cells.every(v => v === 0)).toBe(true);
+    });
+
+    it("should peak at the pin and fall off with distance", () => {
+      const grid = computeHeatmapGrid([pin({ x: 0.25, y: 0.25, condition: "critical" })], "condition", { columns: 20 });
+      const at = (col: number, row: number) => grid.cells[row * grid.columns + col];
+
+      expect(at(4, 4)).toBeGreaterThan(0.9);
+      expect(at(10, 10)).toBeLessThan(at(6, 6));
+      expect(at(19, 19)).toBeLessThan(0.01);
+    });
+
+    it("should keep the strongest value where pins overlap", () => {
+      const single = computeHeatmapGrid([pin({ condition: "poor" })], "condition", { columns: 10 });
+      const stacked = computeHeatmapGrid(
+        [pin({ condition: "poor" }), pin({ id: 2, condition: "poor" }), pin({ id: 3, condition: "fair" })],
+        "condition",
+        { columns: 10 }
+      );
+      expect(stacked.cells).toEqual(single.cells);
+      expect(Math.max(...stacked.cells)).toBeLessThanOrEqual(0.8);
+    });
+  });
+
+  describe("heatmapColor", () => {
+    it("should ramp from green to red", () => {
+      const [lowR, lowG] = heatmapColor(0);
+      const [highR, highG] = heatmapColor(1);
+      expect(lowG).toBeGreaterThan(lowR);
+      expect(highR).toBeGreaterThan(highG);
+      expect(heatmapColor(2)).toEqual(heatmapColor(1));
+    });
+  });
+
+  describe("clampPinCoordinate", () => {
+    it("should clamp into the image bounds", () => {
+      expect(clampPinCoordinate(-0.2)).toBe(0);
+      expect(clampPinCoordinate(1.4)).toBe(1);
+      expect(clampPinCoordinate(0.3)).toBe(0.3);
+      expect(clampPinCoordinate(NaN)).toBe(0);
+    });
+  });
+});
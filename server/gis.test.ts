@@ -0,0 +1,168 @@
+/**
+ * Tests for GIS export / import
+ * Tests GeoJSON and KML generation, portfolio filters and asset location parsing/matching
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  averageCI,
+  ciToConditionLevel,
+  getFundingStatus,
+  getRepresentativePoint,
+  matchAssetLocationUpdates,
+  matchesGisFilters,
+  parseAssetLocationGeoJSON,
+  toGeoJSON,
+  toKml,
+  type GisLocation,
+} from "./gis";
+
+function location(overrides: Partial<GisLocation["properties"]> = {}, name = "City Hall"): GisLocation {
+  return {
+    kind: "asset",
+    id: 12,
+    name,
+    lat: 45.4215,
+    lng: -75.6972,
+    properties: {
+      projectId: 3,
+      projectName: "Civic Portfolio",
+      assetCode: "CH-1",
+      uniqueId: "AST-12",
+      address: "110 Laurier Ave W",
+      assetType: "Office",
+      fci: 0.12,
+      ci: 62,
+      condition: "fair",
+      deferredMaintenanceCost: 120000,
+      replacementValue: 1000000,
+      priority: "short_term",
+      priorityScore: 71.5,
+      fundingStatus: "proposed",
+      ...overrides,
+    },
+  };
+}
+
+describe("GIS", () => {
+  describe("metrics", () => {
+    it("should band CI into condition levels", () => {
+      expect(ciToConditionLevel(95)).toBe("excellent");
+      expect(ciToConditionLevel(75)).toBe("good");
+      expect(ciToConditionLevel(50)).toBe("fair");
+      expect(ciToConditionLevel(30)).toBe("poor");
+      expect(ciToConditionLevel(10)).toBe("critical");
+      expect(ciToConditionLevel(null)).toBeNull();
+    });
+
+    it("should average condition percentages and ignore missing ones", () => {
+      expect(averageCI(["75-50%", "100-75%", null])).toBe(87.5);
+      expect(averageCI([null])).toBeNull();
+    });
+
+    it("should derive funding status from budget allocations", () => {
+      expect(getFundingStatus(["proposed", "funded"], 0)).toBe("funded");
+      expect(getFundingStatus(["approved"], 5000)).toBe("proposed");
+      expect(getFundingStatus([], 5000)).toBe("deferred");
+      expect(getFundingStatus([], 0)).toBeNull();
+    });
+
+    it("should apply ProjectFilterBar filters and treat 'all' as no filter", () => {
+      const loc = location();
+      expect(matchesGisFilters(loc, { assetType: "all", conditionLevel: "all", fundingStatus: "all" })).toBe(true);
+      expect(matchesGisFilters(loc, { assetType: "office", conditionLevel: "fair" })).toBe(true);
+      expect(matchesGisFilters(loc, { conditionLevel: "poor" })).toBe(false);
+      expect(matchesGisFilters(loc, { fundingStatus: "funded" })).toBe(false);
+    });
+  });
+
+  describe("export", () => {
+    it("should write GeoJSON points as [lng, lat] with metrics as properties", () => {
+      const geojson = toGeoJSON([location()]);
+      expect(geojson.type).toBe("FeatureCollection");
+      const [feature] = geojson.features;
+      expect(feature.geometry.coordinates).toEqual([-75.6972, 45.4215]);
+      expect(feature.properties).toMatchObject({ kind: "asset", id: 12, fci: 0.12, ci: 62, condition: "fair", deferredMaintenanceCost: 120000, priority: "short_term" });
+    });
+
+    it("should write escaped KML placemarks styled by FCI", () => {
+      const kml = toKml([location({ fci: 0.5 }, "Smith & Sons <Annex>")], "Portfolio");
+      expect(kml).toContain("<name>Smith &amp; Sons &lt;Annex&gt;</name>");
+      expect(kml).toContain("<styleUrl>#fci-critical</styleUrl>");
+      expect(kml).toContain("<coordinates>-75.6972,45.4215,0</coordinates>");
+      expect(kml).toContain('<Data name="deferredMaintenanceCost"><value>120000</value></Data>');
+    });
+  });
+
+  describe("import", () => {
+    it("should use the centre of building footprints", () => {
+      const point = getRepresentativePoint({
+        type: "Polygon",
+        coordinates: [[[-75, 45], [-74, 45], [-74, 46], [-75, 46], [-75, 45]]],
+      });
+      expect(point).toEqual({ lat: 45.5, lng: -74.5 });
+      expect(getRepresentativePoint(null)).toBeNull();
+      expect(getRepresentativePoint({ type: "Point", coordinates: [500000, 5000000] })).toBeNull();
+    });
+
+    it("should read shapefile-style attributes and fall back to addresses", () => {
+      const parsed = parseAssetLocationGeoJSON(JSON.stringify({
+        type: "FeatureCollection",
+        features: [
+          { type: "Feature", geometry: { type: "Point", coordinates: [-75.7, 45.4] }, properties: { ASSET_CODE: "CH-1", OBJECTID: 99 } },
+          { type: "Feature", geometry: null, properties: { BLDG_NAME: "Depot", ADDRESS: "1 Yard Rd", CITY: "Ottawa" } },
+          { type: "Feature", geometry: null, properties: { OBJECTID: 7 } },
+        ],
+      }));
+
+      expect(parsed.updates).toHaveLength(2);
+      expect(parsed.updates[0]).toMatchObject({ match: { assetCode: "CH-1", assetId: undefined }, lat: 45.4, lng: -75.7 });
+      expect(parsed.updates[1]).toMatchObject({ match: { name: "Depot" }, lat: null, address: "1 Yard Rd, Ottawa" });
+      expect(parsed.errors).toEqual([{ feature: 3, message: expect.stringContaining("no asset id") }]);
+    });
+
+    it("should round-trip exported asset features by id", () => {
+      const parsed = parseAssetLocationGeoJSON(toGeoJSON([location()]));
+      expect(parsed.updates[0].match.assetId).toBe(12);
+    });
+
+    it("should reject projected coordinate systems", () => {
+      const parsed = parseAssetLocationGeoJSON({
+        type: "FeatureCollection",
+        crs: { type: "name", properties: { name: "urn:ogc:def:crs:EPSG::32618" } },
+        features: [],
+      });
+      expect(parsed.updates).toEqual([]);
+      expect(parsed.errors[0].message).toContain("WGS84");
+    });
+
+    it("should match by id, unique id, code, then unambiguous name", () => {
+      const candidates = [
+        { id: 1, projectId: 3, name: "Depot", assetCode: "D-1", uniqueId: "AST-1" },
+        { id: 2, projectId: 3, name: "Library", assetCode: "L-1", uniqueId: "AST-2" },
+        { id: 3, projectId: 4, name: "Library", assetCode: "L-2", uniqueId: "AST-3" },
+      ];
+      const update = (feature: number, match: object) => ({ feature, match, lat: 1, lng: 2, address: null });
+      const { matched, unmatched } = matchAssetLocationUpdates(
+        [
+          update(1, { assetId: 2 }),
+          update(2, { uniqueId: "ast-3" }),
+          update(3, { assetCode: "D-1" }),
+          update(4, { name: "depot" }),
+          update(5, { name: "Library" }),
+          update(6, { assetId: 999 }),
+        ],
+        candidates
+      );
+
+      expect(matched.map(m => [m.update.feature, m.asset.id, m.matchedBy])).toEqual([
+        [1, 2, "id"],
+        [2, 3, "uniqueId"],
+        [3, 1, "assetCode"],
+        [4, 1, "name"],
+      ]);
+      expect(unmatched.map(u => u.feature)).toEqual([5, 6]);
+      expect(unmatched[0].message).toContain("Several assets");
+    });
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * GIS Export / Import
+ *
+ * Builds GeoJSON and KML of portfolio asset and project locations with their
+ * condition metrics as feature properties, and reads asset locations back from
+ * GeoJSON (including shapefile-derived GeoJSON with truncated upper-case fields).
+ */
+
+import { conditionPercentageToCI } from "./ciCalculationService";
+
+export type GisScope = "assets" | "projects";
+export type GisFormat = "geojson" | "kml";
+export type ConditionLevel = "excellent" | "good" | "fair" | "poor" | "critical";
+export type FundingStatus = "funded" | "proposed" | "deferred";
+
+/**
+ * Same shape as ProjectFilters on the client ("all" or missing means no filter)
+ */
+export interface GisFilters {
+  assetType?: string;
+  conditionLevel?: string;
+  fundingStatus?: string;
+}
+
+export interface GisLocation {
+  kind: "asset" | "project";
+  id: number;
+  name: string;
+  lat: number;
+  lng: number;
+  properties: {
+    projectId: number;
+    projectName: string;
+    assetCode: string | null;
+    uniqueId: string | null;
+    address: string | null;
+    assetType: string | null;
+    fci: number | null;
+    ci: number | null;
+    condition: ConditionLevel | null;
+    deferredMaintenanceCost: number;
+    replacementValue: number | null;
+    priority: string | null;
+    priorityScore: number | null;
+    fundingStatus: FundingStatus | null;
+  };
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+// Most urgent first
+export const DEFICIENCY_PRIORITIES = ["immediate", "short_term", "medium_term", "long_term"] as const;
+
+/**
+ * Condition level from a 0-100 CI, using the ciCalculationService bands
+ */
+export function ciToConditionLevel(ci: number | null): ConditionLevel | null {
+  if (ci === null) return null;
+  if (ci >= 90) return "excellent";
+  if (ci >= 75) return "good";
+  if (ci >= 50) return "fair";
+  if (ci >= 25) return "poor";
+  return "critical";
+}
+
+/**
+ * Mean CI over assessments that recorded a condition percentage; null when none did
+ */
+export function averageCI(conditionPercentages: (string | null)[]): number | null {
+  const values = conditionPercentages.filter((p): p is string => !!p).map(conditionPercentageToCI);
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length * 100) / 100;
+}
+
+export function normalizeConditionLevel(value: string | null | undefined): ConditionLevel | null {
+  const normalized = value?.trim().toLowerCase();
+  return normalized && ["excellent", "good", "fair", "poor", "critical"].includes(normalized)
+    ? normalized as ConditionLevel
+    : null;
+}
+
+/**
+ * Funding status from a project's capital budget allocations: funded once any allocation is funded,
+ * proposed while allocations are only proposed or approved, deferred when a backlog has no allocation
+ */
+export function getFundingStatus(allocationStatuses: string[], deferredMaintenanceCost: number): FundingStatus | null {
+  if (allocationStatuses.some(s => s === "funded" || s === "completed")) return "funded";
+  if (allocationStatuses.some(s => s === "proposed" || s === "approved")) return "proposed";
+  return deferredMaintenanceCost > 0 ? "deferred" : null;
+}
+
+export function matchesGisFilters(location: GisLocation, filters: GisFilters): boolean {
+  const active = (value?: string) => value && value !== "all" ? value : null;
+  const assetType = active(filters.assetType);
+  const conditionLevel = active(filters.conditionLevel);
+  const fundingStatus = active(filters.fundingStatus);
+
+  if (assetType && location.properties.assetType?.toLowerCase() !== assetType.toLowerCase()) return false;
+  if (conditionLevel && location.properties.condition !== conditionLevel) return false;
+  if (fundingStatus && location.properties.fundingStatus !== fundingStatus) return false;
+  return true;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * GeoJSON FeatureCollection (RFC 7946: coordinates are [longitude, latitude])
+ */
+export function toGeoJSON(locations: GisLocation[]) {
+  return {
+    type: "FeatureCollection" as const,
+    features: locations.map(location => ({
+      type: "Feature" as const,
+      id: `${location.kind}-${location.id}`,
+      geometry: { type: "Point" as const, coordinates: [location.lng, location.lat] },
+      properties: {
+        kind: location.kind,
+        id: location.id,
+        name: location.name,
+        ...location.properties,
+      },
+    })),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// KML colours are aabbggrr; matches the FCI bands used by the portfolio map
+const FCI_STYLES = [
+  { id: "fci-good", max: 0.05, color: "ff5ec522" },
+  { id: "fci-fair", max: 0.1, color: "ff0b9ef5" },
+  { id: "fci-poor", max: 0.3, color: "ff1673f9" },
+  { id: "fci-critical", max: Infinity, color: "ff4444ef" },
+];
+
+function getFciStyle(fci: number | null): string {
+  if (fci === null) return "fci-unknown";
+  return FCI_STYLES.find(style => fci <= style.max)!.id;
+}
+
+/**
+ * KML document with one placemark per location; metrics go in ExtendedData
+ */
+export function toKml(locations: GisLocation[], documentName: string): string {
+  const styles = [
+    ...FCI_STYLES.map(style => ({ id: style.id, color: style.color })),
+    { id: "fci-unknown", color: "ff9ca3af" },
+  ].map(style =>
+    `    <Style id="${style.id}"><IconStyle><color>${style.color}</color>` +
+    `<Icon><href>http://maps.google.com/mapfiles/kml/paddle/wht-blank.png</href></Icon></IconStyle></Style>`
+  );
+
+  const placemarks = locations.map(location => {
+    const data = Object.entries({ kind: location.kind, id: location.id, ...location.properties })
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`);
+    return [
+      "    <Placemark>",
+      `      <name>${escapeXml(location.name)}</name>`,
+      location.properties.address ? `      <address>${escapeXml(location.properties.address)}</address>` : null,
+      `      <styleUrl>#${getFciStyle(location.properties.fci)}</styleUrl>`,
+      "      <ExtendedData>",
+      ...data,
+      "      </ExtendedData>",
+      `      <Point><coordinates>${location.lng},${location.lat},0</coordinates></Point>`,
+      "    </Placemark>",
+    ].filter(line => line !== null).join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...styles,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export interface AssetLocationUpdate {
+  feature: number; // 1-based feature index in the file
+  match: { assetId?: number; uniqueId?: string; assetCode?: string; name?: string };
+  lat: number | null;
+  lng: number | null;
+  // Used to geocode features without a usable geometry
+  address: string | null;
+}
+
+export interface ParsedLocationFile {
+  updates: AssetLocationUpdate[];
+  errors: { feature: number; message: string }[];
+}
+
+// Shapefile attribute names are upper-cased and cut to 10 characters, so match loosely
+const ID_KEYS = ["assetid", "asset_id"];
+const UNIQUE_ID_KEYS = ["uniqueid", "unique_id", "uniqueid_"];
+const ASSET_CODE_KEYS = ["assetcode", "asset_code", "asset_cod", "assetcod", "code"];
+const NAME_KEYS = ["name", "assetname", "asset_name", "asset_nam", "bldg_name", "building"];
+const ADDRESS_KEYS = ["address", "full_addr", "fulladdr", "addr", "street", "streetaddr", "street_add"];
+const CITY_KEYS = ["city", "town", "municipali"];
+const PROVINCE_KEYS = ["province", "state", "prov"];
+const POSTAL_KEYS = ["postalcode", "postal_cod", "postcode", "zip", "zipcode"];
+
+function pick(properties: Record<string, unknown>, keys: string[]): string | null {
+  for (const [key, value] of Object.entries(properties)) {
+    if (keys.includes(key.toLowerCase()) && value !== null && value !== undefined && String(value).trim() !== "") {
+      return String(value).trim();
+    }
+  }
+  return null;
+}
+
+function isPosition(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length >= 2 && typeof value[0] === "number" && typeof value[1] === "number";
+}
+
+function collectPositions(coordinates: unknown, into: [number, number][]) {
+  if (isPosition(coordinates)) {
+    into.push([coordinates[0], coordinates[1]]);
+  } else if (Array.isArray(coordinates)) {
+    for (const item of coordinates) collectPositions(item, into);
+  }
+}
+
+/**
+ * Representative point of a geometry: the point itself, or the mean of all vertices for
+ * multipoints, lines and building footprints
+ */
+export function getRepresentativePoint(geometry: any): { lat: number; lng: number } | null {
+  if (!geometry || typeof geometry !== "object") return null;
+
+  const positions: [number, number][] = [];
+  if (geometry.type === "GeometryCollection" && Array.isArray(geometry.geometries)) {
+    for (const child of geometry.geometries) collectPositions(child?.coordinates, positions);
+  } else if (geometry.type === "Polygon" || geometry.type === "MultiPolygon") {
+    // Outer rings only; the closing vertex repeats the first one
+    const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+    for (const polygon of Array.isArray(polygons) ? polygons : []) {
+      const ring = Array.isArray(polygon) ? polygon[0] : null;
+      if (!Array.isArray(ring)) continue;
+      const vertices: [number, number][] = [];
+      collectPositions(ring, vertices);
+      if (vertices.length > 1 && vertices[0][0] === vertices[vertices.length - 1][0] && vertices[0][1] === vertices[vertices.length - 1][1]) {
+        vertices.pop();
+      }
+      positions.push(...vertices);
+    }
+  } else {
+    collectPositions(geometry.coordinates, positions);
+  }
+
+  if (positions.length === 0) return null;
+  const lng = positions.reduce((sum, p) => sum + p[0], 0) / positions.length;
+  const lat = positions.reduce((sum, p) => sum + p[1], 0) / positions.length;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat: Math.round(lat * 1e8) / 1e8, lng: Math.round(lng * 1e8) / 1e8 };
+}
+
+/**
+ * Read asset location updates from a GeoJSON FeatureCollection (or a single Feature)
+ */
+export function parseAssetLocationGeoJSON(input: string | object): ParsedLocationFile {
+  let json: any;
+  try {
+    json = typeof input === "string" ? JSON.parse(input) : input;
+  } catch {
+    return { updates: [], errors: [{ feature: 0, message: "File is not valid JSON" }] };
+  }
+
+  const features: any[] | null = json?.type === "FeatureCollection" && Array.isArray(json.features)
+    ? json.features
+    : json?.type === "Feature" ? [json] : null;
+  if (!features) {
+    return { updates: [], errors: [{ feature: 0, message: "File is not a GeoJSON FeatureCollection" }] };
+  }
+
+  // Projected shapefile exports put metres here; GeoJSON must be WGS84
+  const crsName: string | undefined = json?.crs?.properties?.name;
+  if (crsName && !/CRS84|4326/.test(crsName)) {
+    return { updates: [], errors: [{ feature: 0, message: `Coordinates must be WGS84 longitude/latitude (file uses ${crsName})` }] };
+  }
+  if (features.length === 0) {
+    return { updates: [], errors: [{ feature: 0, message: "GeoJSON file has no features" }] };
+  }
+
+  const updates: AssetLocationUpdate[] = [];
+  const errors: ParsedLocationFile["errors"] = [];
+
+  features.forEach((feature, index) => {
+    const featureNumber = index + 1;
+    const properties: Record<string, unknown> = feature?.properties && typeof feature.properties === "object" ? feature.properties : {};
+
+    // Features exported from here carry kind/id; project features are not asset locations
+    if (String(properties.kind ?? "").toLowerCase() === "project") {
+      errors.push({ feature: featureNumber, message: "Project features cannot update asset locations" });
+      return;
+    }
+
+    // A bare "id" is only trusted on features this app exported; elsewhere it is usually a GIS object id
+    const ownExport = String(properties.kind ?? "").toLowerCase() === "asset";
+    const rawId = pick(properties, ID_KEYS) ?? (ownExport ? pick(properties, ["id"]) : null);
+    const assetId = rawId && /^\d+$/.test(rawId) ? Number(rawId) : undefined;
+    const match = {
+      assetId,
+      uniqueId: pick(properties, UNIQUE_ID_KEYS) ?? undefined,
+      assetCode: pick(properties, ASSET_CODE_KEYS) ?? undefined,
+      name: pick(properties, NAME_KEYS) ?? undefined,
+    };
+    if (!match.assetId && !match.uniqueId && !match.assetCode && !match.name) {
+      errors.push({ feature: featureNumber, message: "Feature has no asset id, unique id, asset code or name" });
+      return;
+    }
+
+    const point = getRepresentativePoint(feature?.geometry);
+    const address = [pick(properties, ADDRESS_KEYS), pick(properties, CITY_KEYS), pick(properties, PROVINCE_KEYS), pick(properties, POSTAL_KEYS)]
+      .filter(Boolean)
+      .join(", ") || null;
+
+    if (!point && !address) {
+      errors.push({ feature: featureNumber, message: "Feature has no usable geometry or address to geocode" });
+      return;
+    }
+
+    updates.push({ feature: featureNumber, match, lat: point?.lat ?? null, lng: point?.lng ?? null, address });
+  });
+
+  return { updates, errors };
+}
+
+export interface MatchableAsset {
+  id: number;
+  projectId: number;
+  name: string;
+  assetCode: string | null;
+  uniqueId: string | null;
+}
+
+/**
+ * Resolve each update to one accessible asset: by id, unique id, asset code, then name.
+ * Names only match when exactly one accessible asset carries that name.
+ */
+export function matchAssetLocationUpdates(updates: AssetLocationUpdate[], candidates: MatchableAsset[]) {
+  const byId = new Map(candidates.map(a => [a.id, a]));
+  const index = (key: (a: MatchableAsset) => string | null) => {
+    const map = new Map<string, MatchableAsset[]>();
+    for (const asset of candidates) {
+      const value = key(asset)?.trim().toLowerCase();
+      if (value) map.set(value, [...(map.get(value) ?? []), asset]);
+    }
+    return map;
+  };
+  const byUniqueId = index(a => a.uniqueId);
+  const byAssetCode = index(a => a.assetCode);
+  const byName = index(a => a.name);
+
+  const matched: { update: AssetLocationUpdate; asset: MatchableAsset; matchedBy: string }[] = [];
+  const unmatched: { feature: number; message: string }[] = [];
+
+  for (const update of updates) {
+    const { match } = update;
+    const unique = (map: Map<string, MatchableAsset[]>, value?: string) => {
+      const found = value ? map.get(value.trim().toLowerCase()) : undefined;
+      return found && found.length === 1 ? found[0] : undefined;
+    };
+
+    let asset: MatchableAsset | undefined;
+    let matchedBy = "";
+    if (match.assetId && byId.has(match.assetId)) {
+      asset = byId.get(match.assetId);
+      matchedBy = "id";
+    } else if ((asset = unique(byUniqueId, match.uniqueId))) {
+      matchedBy = "uniqueId";
+    } else if ((asset = unique(byAssetCode, match.assetCode))) {
+      matchedBy = "assetCode";
+    } else if ((asset = unique(byName, match.name))) {
+      matchedBy = "name";
+    }
+
+    if (!asset) {
+      const ambiguous = match.name && (byName.get(match.name.trim().toLowerCase())?.length ?? 0) > 1;
+      unmatched.push({
+        feature: update.feature,
+        message: ambiguous
+          ? `Several assets are named "${match.name}"; add an asset id, unique id or asset code`
+          : `No accessible asset matches ${match.assetId ?? match.uniqueId ?? match.assetCode ?? match.name}`,
+      });
+      continue;
+    }
+    matched.push({ update, asset, matchedBy });
+  }
+
+  return { matched, unmatched };
+}
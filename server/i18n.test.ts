@@ -0,0 +1,52 @@
+/**
+ * Tests for shared i18n utilities
+ * Tests message translation, French catalog coverage and localized enum labels
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  formatLocalizedCurrency,
+  getConditionLabel,
+  getPriorityLabel,
+  getSeverityLabel,
+  getTranslator,
+  resolveLanguage,
+  translate,
+} from "../shared/i18n";
+
+describe("i18n", () => {
+  it("should translate keys and substitute parameters", () => {
+    expect(translate("en", "nav.projects")).toBe("Projects");
+    expect(translate("fr", "nav.projects")).toBe("Projets");
+    expect(translate("fr", "common.page", { page: 2, total: 5 })).toBe("Page 2 de 5");
+    expect(getTranslator("en")("esg.totalProjects", { count: 12 })).toBe("Total Projects: 12");
+  });
+
+  it("should leave unknown placeholders intact", () => {
+    expect(translate("en", "common.page", { page: 1 })).toBe("Page 1 of {total}");
+  });
+
+  it("should fall back to English for unsupported languages", () => {
+    expect(resolveLanguage("fr")).toBe("fr");
+    expect(resolveLanguage("de")).toBe("en");
+    expect(resolveLanguage(null)).toBe("en");
+  });
+
+  it("should localize condition, severity and priority labels", () => {
+    expect(getConditionLabel("fr", "fair")).toBe("Passable");
+    expect(getConditionLabel("fr", "Not Assessed")).toBe("Non évalué");
+    expect(getSeverityLabel("fr", "high")).toBe("Élevée");
+    expect(getPriorityLabel("fr", "short_term")).toBe("Court terme");
+    expect(getPriorityLabel("en", "short-term")).toBe("Short Term");
+    expect(getPriorityLabel("en", null)).toBe("N/A");
+  });
+
+  it("should show values outside the catalog as stored", () => {
+    expect(getConditionLabel("fr", "4 - Satisfactory")).toBe("4 - Satisfactory");
+  });
+
+  it("should format currency for the report locale", () => {
+    expect(formatLocalizedCurrency(1234, "en")).toBe("$1,234");
+    expect(formatLocalizedCurrency(1234, "fr").replace(/\s/g, " ")).toBe("1 234 $");
+  });
+});
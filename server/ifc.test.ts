@@ -0,0 +1,118 @@
+/**
+ * Tests for IFC parsing and the UNIFORMAT proposal mapping
+ */
+
+import { describe, expect, it } from "vitest";
+import { decodeStepString, mapIfcElementToUniformat, planIfcImport, readIfcModel } from "./ifc";
+
+const SAMPLE_IFC = `ISO-10303-21;
+HEADER;
+FILE_DESCRIPTION(('ViewDefinition [CoordinationView]'),'2;1');
+FILE_NAME('clinic.ifc','2025-03-01T10:00:00',(''),(''),'','','');
+FILE_SCHEMA(('IFC4'));
+ENDSEC;
+DATA;
+#1=IFCPROJECT('0YvctVUKr0kugbFTf53O9L',$,'Riverside Clinic',$,$,$,$,(#2),#3);
+#2=IFCGEOMETRICREPRESENTATIONCONTEXT($,'Model',3,1.E-05,#4,$);
+#3=IFCUNITASSIGNMENT((#5,#6));
+#4=IFCAXIS2PLACEMENT3D(#7,$,$);
+#5=IFCSIUNIT(*,.LENGTHUNIT.,.MILLI.,.METRE.);
+#6=IFCSIUNIT(*,.AREAUNIT.,$,.SQUARE_METRE.);
+#7=IFCCARTESIANPOINT((0.,0.,0.));
+#10=IFCBUILDING('2FCZDorxHDT8NI01kdXi8P',$,'Clinic',$,$,$,$,$,.ELEMENT.,$,$,$);
+#11=IFCBUILDINGSTOREY('1Kk0xQb5zBQfp4p3mpgWiZ',$,'Level 2',$,$,$,$,$,.ELEMENT.,3500.);
+#12=IFCBUILDINGSTOREY('0h3wYfGdb3vB8xNQ1C7Zc_',$,'Level 1',$,$,$,$,$,.ELEMENT.,0.);
+#13=IFCRELAGGREGATES('3Tq1b1Q0X0xuEyV4mNqzN1',$,$,$,#1,(#10));
+#14=IFCRELAGGREGATES('1rB2Wn0fD1wQbbxmNYqJ8f',$,$,$,#10,(#11,#12));
+#15=IFCSPACE('2yH1ZkQ5b3uO0m0l7wF0aA',$,'101',$,$,$,$,'Waiting Room',.ELEMENT.,.INTERNAL.,$);
+#16=IFCRELAGGREGATES('0k7N3yW2v4Ww0gQ9sQJ1Xq',$,$,$,#12,(#15));
+#20=IFCWALLSTANDARDCASE('3vB2YO$MX4xv5uCqZZG05x',$,'Basic Wall:Exterior',$,$,$,$,$,.STANDARD.);
+#21=IFCWALL('1Bq8KxA5H0fQ6t2q$Y3hVd',$,'Partition',$,$,$,$,$,$);
+#22=IFCDOOR('0LV8Pf$bj0Iv3s6d8b1Z4g',$,'Entry Door \\X2\\00E9\\X0\\',$,$,$,$,$,2100.,900.,.DOOR.,$,$);
+#23=IFCSLAB('2LYqQ4gC5F8R1q9vCzUS4h',$,'Floor',$,$,$,$,$,.FLOOR.);
+#24=IFCBUILDINGELEMENTPROXY('0jM6xIo5T6VhXj1uEGSxWR',$,'Kiosk',$,$,$,$,$,$);
+#25=IFCSANITARYTERMINAL('1hB8P9V0v8ZfE5pE5m3R2K',$,'WC',$,$,$,$,$,.WCSEAT.);
+#26=IFCOPENINGELEMENT('2mK7Yd3x51PwbCzXQ8l1Aa',$,$,$,$,$,$,$,$);
+#30=IFCRELCONTAINEDINSPATIALSTRUCTURE('0Ao6hVBWL2gwE1W1YjAqxO',$,$,$,(#20,#21,#22,#23,#24,#26),#12);
+#31=IFCRELCONTAINEDINSPATIALSTRUCTURE('3Xk5Z2pR93Xw6s9n3Bz8vQ',$,$,$,(#25),#15);
+#40=IFCPROPERTYSET('2pG8K0uPv7cQ4oN1sQ3vB3',$,'Pset_WallCommon',$,(#41));
+#41=IFCPROPERTYSINGLEVALUE('IsExternal',$,IFCBOOLEAN(.T.),$);
+#42=IFCRELDEFINESBYPROPERTIES('1nD4v9x8T2Yw3l0q6P5jKc',$,$,$,(#20),#40);
+#43=IFCELEMENTQUANTITY('0ZqH7Xk2L9Bs5v3W1yT8mN',$,'Qto_WallBaseQuantities',$,$,(#44,#45));
+#44=IFCQUANTITYAREA('GrossSideArea',$,$,30.,$);
+#45=IFCQUANTITYAREA('NetSideArea',$,$,24.5,$);
+#46=IFCRELDEFINESBYPROPERTIES('3QhB9c7w15Aun0Q5c2RkZt',$,$,$,(#20),#43);
+#47=IFCELEMENTQUANTITY('1Wq3Zk8L02Xv7b6N4yT1pR',$,'Qto_SpaceBaseQuantities',$,$,(#48));
+#48=IFCQUANTITYAREA('NetFloorArea',$,$,42.25,$);
+#49=IFCRELDEFINESBYPROPERTIES('2Yt5Q3x0b8Dw9m1Z6sA4hV',$,$,$,(#15),#47);
+ENDSEC;
+END-ISO-10303-21;
+`;
+
+describe("IFC parsing", () => {
+  it("should read storeys, spaces and contained elements with properties and quantities", () => {
+    const model = readIfcModel(SAMPLE_IFC);
+
+    expect(model.schema).toBe("IFC4");
+    expect(model.projectName).toBe("Riverside Clinic");
+    // Sorted by elevation, converted from millimetres
+    expect(model.storeys.map(storey => [storey.name, storey.elevation])).toEqual([["Level 1", 0], ["Level 2", 3.5]]);
+    expect(model.spaces).toHaveLength(1);
+    expect(model.spaces[0].storeyGlobalId).toBe("0h3wYfGdb3vB8xNQ1C7Zc_");
+
+    // Openings are not components
+    expect(model.elements.map(element => element.ifcType)).toEqual([
+      "IFCWALLSTANDARDCASE", "IFCWALL", "IFCDOOR", "IFCSLAB", "IFCBUILDINGELEMENTPROXY", "IFCSANITARYTERMINAL",
+    ]);
+
+    const wall = model.elements[0];
+    expect(wall.globalId).toBe("3vB2YO$MX4xv5uCqZZG05x");
+    expect(wall.isExternal).toBe(true);
+    expect(wall.quantities.NetSideArea).toEqual({ measure: "area", value: 24.5 });
+
+    const door = model.elements[2];
+    expect(door.name).toBe("Entry Door é");
+    expect(door.predefinedType).toBe("DOOR");
+
+    const toilet = model.elements[5];
+    expect(toilet.spaceName).toBe("Waiting Room");
+    expect(toilet.storeyGlobalId).toBe("0h3wYfGdb3vB8xNQ1C7Zc_");
+  });
+
+  it("should propose sections and UNIFORMAT components per storey", () => {
+    const plan = planIfcImport(readIfcModel(SAMPLE_IFC));
+
+    expect(plan.sections.map(section => [section.name, section.spaceCount, section.floorArea])).toEqual([
+      ["Level 1", 1, 42.25],
+      ["Level 2", 0, null],
+    ]);
+
+    const byCode = new Map(plan.components.map(component => [component.componentCode ?? component.componentName, component]));
+    expect(byCode.get("B2010")).toMatchObject({ componentName: "Exterior Walls", unit: "m²", quantity: 24.5, elementsWithoutQuantity: 0 });
+    expect(byCode.get("C1010")).toMatchObject({ unit: "m²", quantity: 0, elementsWithoutQuantity: 1 });
+    expect(byCode.get("C1020")).toMatchObject({ componentName: "Interior Doors", unit: "EA", quantity: 1 });
+    expect(byCode.get("D2010")?.spaces).toEqual(["Waiting Room"]);
+    expect(byCode.get("IfcBuildingElementProxy")).toMatchObject({ componentCode: null, storeyName: "Level 1" });
+    expect(byCode.get("B2010")?.elements[0].globalId).toBe("3vB2YO$MX4xv5uCqZZG05x");
+
+    expect(plan.warnings).toEqual(expect.arrayContaining([
+      "C1010 Partitions on Level 1: 1 of 1 elements have no area quantity in the model",
+      "1 element group could not be mapped to UNIFORMAT; choose a component code to accept it",
+    ]));
+  });
+
+  it("should map element types using predefined types and IsExternal", () => {
+    expect(mapIfcElementToUniformat({ ifcType: "IFCSLAB", predefinedType: "BASESLAB", isExternal: null })?.code).toBe("A1030");
+    expect(mapIfcElementToUniformat({ ifcType: "IFCSLAB", predefinedType: "ROOF", isExternal: null })?.code).toBe("B1020");
+    expect(mapIfcElementToUniformat({ ifcType: "IFCWINDOW", predefinedType: null, isExternal: null })?.code).toBe("B2020");
+    expect(mapIfcElementToUniformat({ ifcType: "IFCDOOR", predefinedType: null, isExternal: true })?.code).toBe("B2030");
+    expect(mapIfcElementToUniformat({ ifcType: "IFCCOVERING", predefinedType: "CEILING", isExternal: null })?.code).toBe("C3030");
+    expect(mapIfcElementToUniformat({ ifcType: "IFCFLOWTERMINAL", predefinedType: null, isExternal: null })).toBeNull();
+  });
+
+  it("should decode STEP string escapes and reject files without a DATA section", () => {
+    expect(decodeStepString("Caf\\X\\E9")).toBe("Café");
+    expect(decodeStepString("\\X2\\00C400D6\\X0\\ wing")).toBe("ÄÖ wing");
+    expect(() => readIfcModel("not an ifc file")).toThrow("no DATA section");
+  });
+});
@@ -0,0 +1,935 @@
+/**
+ * IFC Model Mapping
+ *
+ * Reads an IFC2x3 / IFC4 STEP file locally (no Autodesk round trip) and proposes
+ * how it lands in the assessment model:
+ * - IfcBuildingStorey  -> building section
+ * - IfcSpace           -> location of the elements it contains, floor area of its storey
+ * - building elements  -> UNIFORMAT II components per storey, with quantities from
+ *                         their IfcElementQuantity sets (or a count)
+ *
+ * Every proposal carries the GlobalId of each element behind it, so accepted
+ * assessments link back to the model (ifc_element_links) and re-imports only add
+ * elements that are not linked yet.
+ */
+
+// ============================================================================
+// STEP Physical File
+// ============================================================================
+
+export interface StepRef { ref: number }
+export interface StepEnum { enum: string }
+export interface StepTyped { type: string; value: StepValue }
+export type StepValue = null | number | string | StepRef | StepEnum | StepTyped | StepValue[];
+
+export interface StepEntity {
+  id: number;
+  type: string;
+  args: StepValue[];
+}
+
+interface RawEntity {
+  type: string;
+  start: number;
+  end: number;
+}
+
+/** Match an anchored pattern at an offset; tokens are short, so only a window is searched */
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  return pattern.exec(text.slice(index, index + 256));
+}
+
+/**
+ * Entity index over the DATA section; arguments are parsed on first access, since
+ * most of a model is geometry that the mapping never reads
+ */
+export class StepFile {
+  readonly schema: string | null;
+  private raw = new Map<number, RawEntity>();
+  private parsed = new Map<number, StepEntity>();
+  private byType = new Map<string, number[]>();
+
+  constructor(private text: string) {
+    const header = /FILE_SCHEMA\s*\(\s*\(\s*'([^']*)'/i.exec(text.slice(0, 10000));
+    this.schema = header ? header[1].toUpperCase() : null;
+    this.index();
+  }
+
+  get size(): number {
+    return this.raw.size;
+  }
+
+  private index() {
+    const text = this.text;
+    const data = /(^|[\s;])DATA\s*;/m.exec(text);
+    if (!data) throw new Error('Not an IFC file: no DATA section');
+
+    const entityPattern = /^#(\d+)\s*=\s*([A-Za-z0-9_]+)\s*\(/;
+    let i = data.index + data[0].length;
+
+    while (i < text.length) {
+      // Skip whitespace and comments between entities
+      const char = text.charCodeAt(i);
+      if (char <= 32) {
+        i++;
+        continue;
+      }
+      if (text.startsWith('/*', i)) {
+        const close = text.indexOf('*/', i + 2);
+        i = close === -1 ? text.length : close + 2;
+        continue;
+      }
+      if (text.startsWith('ENDSEC', i)) break;
+
+      const match = matchAt(entityPattern, text, i);
+      if (!match) {
+        // Complex instances, #1=(A(...)B(...)); IFC exporters rarely write them and the mapping never needs them
+        const complex = matchAt(/^#\d+\s*=\s*\(/, text, i);
+        if (!complex) {
+          const line = text.slice(0, i).split('\n').length;
+          throw new Error(`Malformed IFC entity on line ${line}`);
+        }
+        const semicolon = text.indexOf(';', this.findArgumentsEnd(i + complex[0].length));
+        i = semicolon === -1 ? text.length : semicolon + 1;
+        continue;
+      }
+
+      const start = i + match[0].length;
+      const end = this.findArgumentsEnd(start);
+      const type = match[2].toUpperCase();
+      this.raw.set(Number(match[1]), { type, start, end });
+      const ids = this.byType.get(type);
+      if (ids) ids.push(Number(match[1]));
+      else this.byType.set(type, [Number(match[1])]);
+
+      // Past the closing ")" and ";"
+      const semicolon = text.indexOf(';', end);
+      i = semicolon === -1 ? text.length : semicolon + 1;
+    }
+  }
+
+  /** Offset of the ")" closing an entity's argument list that opens just before start */
+  private findArgumentsEnd(start: number): number {
+    const text = this.text;
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (char === "'") {
+        // Strings escape quotes by doubling them
+        i++;
+        while (i < text.length && !(text[i] === "'" && text[i + 1] !== "'")) {
+          i += text[i] === "'" ? 2 : 1;
+        }
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    throw new Error('Malformed IFC file: unterminated entity');
+  }
+
+  typeOf(id: number): string | undefined {
+    return this.raw.get(id)?.type;
+  }
+
+  idsOfType(...types: string[]): number[] {
+    return types.flatMap(type => this.byType.get(type) ?? []);
+  }
+
+  types(): string[] {
+    return Array.from(this.byType.keys());
+  }
+
+  get(id: number): StepEntity | undefined {
+    const cached = this.parsed.get(id);
+    if (cached) return cached;
+
+    const raw = this.raw.get(id);
+    if (!raw) return undefined;
+    const entity = { id, type: raw.type, args: new StepArgumentParser(this.text, raw.start, raw.end).parseList() };
+    this.parsed.set(id, entity);
+    return entity;
+  }
+
+  deref(value: StepValue): StepEntity | undefined {
+    return isRef(value) ? this.get(value.ref) : undefined;
+  }
+}
+
+class StepArgumentParser {
+  constructor(private text: string, private i: number, private end: number) {}
+
+  /** Comma separated values up to end (or the matching ")" when nested) */
+  parseList(): StepValue[] {
+    const values: StepValue[] = [];
+    this.skipSpace();
+    if (this.i >= this.end || this.text[this.i] === ')') return values;
+
+    while (this.i < this.end) {
+      values.push(this.parseValue());
+      this.skipSpace();
+      if (this.text[this.i] === ',') {
+        this.i++;
+        continue;
+      }
+      break;
+    }
+    return values;
+  }
+
+  private skipSpace() {
+    while (this.i < this.end && this.text.charCodeAt(this.i) <= 32) this.i++;
+  }
+
+  private parseValue(): StepValue {
+    this.skipSpace();
+    const text = this.text;
+    const char = text[this.i];
+
+    if (char === '$' || char === '*') {
+      this.i++;
+      return null;
+    }
+    if (char === '#') {
+      const result = matchAt(/^#(\d+)/, text, this.i)!;
+      this.i += result[0].length;
+      return { ref: Number(result[1]) };
+    }
+    if (char === "'") return this.parseString();
+    if (char === '.') {
+      const close = text.indexOf('.', this.i + 1);
+      const value = text.slice(this.i + 1, close);
+      this.i = close + 1;
+      return { enum: value.toUpperCase() };
+    }
+    if (char === '(') {
+      this.i++;
+      const values = this.parseList();
+      this.skipSpace();
+      this.i++; // ")"
+      return values;
+    }
+    if (char === '"') {
+      // Binary; not used by the mapping
+      const close = text.indexOf('"', this.i + 1);
+      this.i = close + 1;
+      return null;
+    }
+
+    const numeric = matchAt(/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/, text, this.i);
+    if (numeric) {
+      this.i += numeric[0].length;
+      return Number(numeric[0]);
+    }
+
+    // Typed value, e.g. IFCBOOLEAN(.T.) or IFCAREAMEASURE(12.5)
+    const type = matchAt(/^([A-Za-z0-9_]+)\s*\(/, text, this.i);
+    if (type) {
+      this.i += type[0].length;
+      const [value] = this.parseList();
+      this.skipSpace();
+      this.i++; // ")"
+      return { type: type[1].toUpperCase(), value: value ?? null };
+    }
+
+    throw new Error(`Unexpected "${char}" in IFC entity arguments`);
+  }
+
+  private parseString(): string {
+    const text = this.text;
+    let value = '';
+    this.i++;
+    while (this.i < this.end) {
+      const char = text[this.i];
+      if (char === "'") {
+        if (text[this.i + 1] === "'") {
+          value += "'";
+          this.i += 2;
+          continue;
+        }
+        this.i++;
+        break;
+      }
+      value += char;
+      this.i++;
+    }
+    return decodeStepString(value);
+  }
+}
+
+/**
+ * Decode the STEP string escapes IFC exporters use for non-ASCII text
+ */
+export function decodeStepString(value: string): string {
+  if (!value.includes('\\')) return value;
+  return value
+    .replace(/\\X2\\((?:[0-9A-Fa-f]{4})+)\\X0\\/g, (_, hex: string) =>
+      String.fromCharCode(...(hex.match(/.{4}/g) ?? []).map(code => parseInt(code, 16)))
+    )
+    .replace(/\\X\\([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\S\\(.)/g, (_, char: string) => String.fromCharCode(char.charCodeAt(0) + 128))
+    .replace(/\\\\/g, '\\');
+}
+
+function isRef(value: StepValue): value is StepRef {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'ref' in value;
+}
+
+function isEnum(value: StepValue): value is StepEnum {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'enum' in value;
+}
+
+function isTyped(value: StepValue): value is StepTyped {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'type' in value;
+}
+
+function asString(value: StepValue = null): string | null {
+  if (isTyped(value)) return asString(value.value);
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function asNumber(value: StepValue = null): number | null {
+  if (isTyped(value)) return asNumber(value.value);
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function asRefs(value: StepValue = null): number[] {
+  if (!Array.isArray(value)) return isRef(value) ? [value.ref] : [];
+  return value.filter(isRef).map(ref => ref.ref);
+}
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export type IfcMeasure = 'area' | 'length' | 'volume' | 'count';
+
+export interface IfcQuantities {
+  [name: string]: { measure: IfcMeasure; value: number };
+}
+
+export interface IfcStorey {
+  globalId: string;
+  name: string;
+  elevation: number | null;
+}
+
+export interface IfcSpace {
+  globalId: string;
+  name: string;
+  longName: string | null;
+  storeyGlobalId: string | null;
+  quantities: IfcQuantities;
+}
+
+export interface IfcElement {
+  globalId: string;
+  /** STEP entity name, e.g. IFCWALLSTANDARDCASE */
+  ifcType: string;
+  name: string | null;
+  predefinedType: string | null;
+  isExternal: boolean | null;
+  storeyGlobalId: string | null;
+  spaceName: string | null;
+  quantities: IfcQuantities;
+}
+
+export interface IfcModel {
+  schema: string | null;
+  projectName: string | null;
+  storeys: IfcStorey[];
+  spaces: IfcSpace[];
+  elements: IfcElement[];
+}
+
+// Shared attribute positions of IfcRoot / IfcProduct subtypes
+const GLOBAL_ID = 0;
+const NAME = 2;
+const LONG_NAME = 7;
+const ELEVATION = 9;
+const FIRST_ELEMENT_ATTRIBUTE = 8;
+
+const SPATIAL_TYPES = new Set(['IFCSITE', 'IFCBUILDING', 'IFCBUILDINGSTOREY', 'IFCSPACE']);
+
+/** Contained products that are not building components */
+const NON_COMPONENT_TYPES = new Set([
+  'IFCANNOTATION', 'IFCGRID', 'IFCOPENINGELEMENT', 'IFCVIRTUALELEMENT', 'IFCBUILDINGELEMENTPART',
+  'IFCDISTRIBUTIONPORT', 'IFCPORT', 'IFCSPACE', 'IFCZONE', 'IFCPROXY',
+]);
+
+const SI_PREFIXES: Record<string, number> = {
+  EXA: 1e18, PETA: 1e15, TERA: 1e12, GIGA: 1e9, MEGA: 1e6, KILO: 1e3, HECTO: 1e2, DECA: 1e1,
+  DECI: 1e-1, CENTI: 1e-2, MILLI: 1e-3, MICRO: 1e-6, NANO: 1e-9,
+};
+
+interface UnitScales {
+  length: number;
+  area: number;
+  volume: number;
+}
+
+/**
+ * Factors converting the project's length, area and volume units to metres
+ */
+function readUnitScales(file: StepFile): UnitScales {
+  const scales: UnitScales = { length: 1, area: 1, volume: 1 };
+  const [projectId] = file.idsOfType('IFCPROJECT');
+  const assignment = projectId !== undefined ? file.deref(file.get(projectId)!.args[8]) : undefined;
+  if (!assignment) return scales;
+
+  const siScale = (unit: StepEntity): number => {
+    const prefix = isEnum(unit.args[2]) ? SI_PREFIXES[unit.args[2].enum] ?? 1 : 1;
+    const name = isEnum(unit.args[3]) ? unit.args[3].enum : '';
+    // A prefix applies to the metre, so it is squared for areas and cubed for volumes
+    return name.startsWith('SQUARE') ? prefix ** 2 : name.startsWith('CUBIC') ? prefix ** 3 : prefix;
+  };
+
+  for (const unitId of asRefs(assignment.args[0])) {
+    const unit = file.get(unitId);
+    if (!unit || !isEnum(unit.args[1])) continue;
+
+    let scale: number | null = null;
+    if (unit.type === 'IFCSIUNIT') {
+      scale = siScale(unit);
+    } else if (unit.type === 'IFCCONVERSIONBASEDUNIT') {
+      // e.g. FOOT = IFCMEASUREWITHUNIT(IFCLENGTHMEASURE(0.3048), #metre)
+      const factor = file.deref(unit.args[3]);
+      const value = factor ? asNumber(factor.args[0]) : null;
+      const base = factor ? file.deref(factor.args[1]) : undefined;
+      if (value !== null) scale = value * (base?.type === 'IFCSIUNIT' ? siScale(base) : 1);
+    }
+    if (scale === null) continue;
+
+    switch (unit.args[1].enum) {
+      case 'LENGTHUNIT': scales.length = scale; break;
+      case 'AREAUNIT': scales.area = scale; break;
+      case 'VOLUMEUNIT': scales.volume = scale; break;
+    }
+  }
+  return scales;
+}
+
+const QUANTITY_TYPES: Record<string, IfcMeasure> = {
+  IFCQUANTITYAREA: 'area',
+  IFCQUANTITYLENGTH: 'length',
+  IFCQUANTITYVOLUME: 'volume',
+  IFCQUANTITYCOUNT: 'count',
+};
+
+interface ObjectData {
+  quantities: IfcQuantities;
+  properties: Map<string, StepValue>;
+}
+
+/**
+ * Quantities and single-value properties per object, from IfcRelDefinesByProperties and,
+ * with lower precedence, the property sets of its type (IfcRelDefinesByType)
+ */
+function readObjectData(file: StepFile, scales: UnitScales): Map<number, ObjectData> {
+  const data = new Map<number, ObjectData>();
+  const dataFor = (id: number) => {
+    let entry = data.get(id);
+    if (!entry) {
+      entry = { quantities: {}, properties: new Map() };
+      data.set(id, entry);
+    }
+    return entry;
+  };
+
+  const apply = (objectIds: number[], definitionId: number, override: boolean) => {
+    const definition = file.get(definitionId);
+    if (!definition) return;
+
+    if (definition.type === 'IFCELEMENTQUANTITY') {
+      for (const quantityId of asRefs(definition.args[5])) {
+        const quantity = file.get(quantityId);
+        const measure = quantity ? QUANTITY_TYPES[quantity.type] : undefined;
+        const name = quantity ? asString(quantity.args[0]) : null;
+        const value = quantity ? asNumber(quantity.args[3]) : null;
+        if (!measure || !name || value === null) continue;
+
+        const scale = measure === 'area' ? scales.area : measure === 'length' ? scales.length : measure === 'volume' ? scales.volume : 1;
+        for (const objectId of objectIds) {
+          const target = dataFor(objectId).quantities;
+          if (override || !target[name]) target[name] = { measure, value: value * scale };
+        }
+      }
+    } else if (definition.type === 'IFCPROPERTYSET') {
+      for (const propertyId of asRefs(definition.args[4])) {
+        const property = file.get(propertyId);
+        if (property?.type !== 'IFCPROPERTYSINGLEVALUE') continue;
+        const name = asString(property.args[0]);
+        if (!name) continue;
+        for (const objectId of objectIds) {
+          const target = dataFor(objectId).properties;
+          if (override || !target.has(name)) target.set(name, property.args[2]);
+        }
+      }
+    }
+  };
+
+  for (const relId of file.idsOfType('IFCRELDEFINESBYPROPERTIES')) {
+    const rel = file.get(relId)!;
+    const objects = asRefs(rel.args[4]);
+    for (const definitionId of asRefs(rel.args[5])) apply(objects, definitionId, true);
+  }
+
+  for (const relId of file.idsOfType('IFCRELDEFINESBYTYPE')) {
+    const rel = file.get(relId)!;
+    const type = file.deref(rel.args[5]);
+    if (!type) continue;
+    const objects = asRefs(rel.args[4]);
+    for (const definitionId of asRefs(type.args[5])) apply(objects, definitionId, false);
+  }
+
+  return data;
+}
+
+function isExternalProperty(properties: Map<string, StepValue> | undefined): boolean | null {
+  const value = properties?.get('IsExternal');
+  if (value === undefined || value === null) return null;
+  const raw = isTyped(value) ? value.value : value;
+  if (isEnum(raw)) return raw.enum === 'T' ? true : raw.enum === 'F' ? false : null;
+  return null;
+}
+
+/** First enumeration among an element's own attributes is its PredefinedType */
+function readPredefinedType(entity: StepEntity): string | null {
+  for (let i = FIRST_ELEMENT_ATTRIBUTE; i < entity.args.length; i++) {
+    const value = entity.args[i];
+    if (isEnum(value)) return value.enum === 'NOTDEFINED' || value.enum === 'USERDEFINED' ? null : value.enum;
+  }
+  return null;
+}
+
+/**
+ * Read the spatial structure and contained building elements of an IFC model
+ */
+export function readIfcModel(text: string): IfcModel {
+  const file = new StepFile(text);
+  if (file.schema && !file.schema.startsWith('IFC')) {
+    throw new Error(`Unsupported STEP schema ${file.schema}; expected IFC2X3 or IFC4`);
+  }
+
+  const scales = readUnitScales(file);
+  const objectData = readObjectData(file, scales);
+
+  // Parents from IfcRelAggregates, so spaces (and nested spaces) resolve to their storey
+  const parent = new Map<number, number>();
+  for (const relId of file.idsOfType('IFCRELAGGREGATES')) {
+    const rel = file.get(relId)!;
+    const relating = isRef(rel.args[4]) ? rel.args[4].ref : null;
+    if (relating === null) continue;
+    for (const child of asRefs(rel.args[5])) parent.set(child, relating);
+  }
+
+  const storeyOf = (id: number): number | null => {
+    let current: number | undefined = id;
+    for (let depth = 0; current !== undefined && depth < 20; depth++) {
+      if (file.typeOf(current) === 'IFCBUILDINGSTOREY') return current;
+      current = parent.get(current);
+    }
+    return null;
+  };
+  const globalIdOf = (id: number | null) => (id === null ? null : asString(file.get(id)?.args[GLOBAL_ID]));
+
+  const storeys: IfcStorey[] = file.idsOfType('IFCBUILDINGSTOREY').map(id => {
+    const storey = file.get(id)!;
+    const elevation = asNumber(storey.args[ELEVATION]);
+    return {
+      globalId: asString(storey.args[GLOBAL_ID]) ?? `#${id}`,
+      name: asString(storey.args[NAME]) ?? asString(storey.args[LONG_NAME]) ?? `Storey #${id}`,
+      elevation: elevation === null ? null : elevation * scales.length,
+    };
+  });
+  storeys.sort((a, b) => (a.elevation ?? 0) - (b.elevation ?? 0));
+
+  const spaces: IfcSpace[] = file.idsOfType('IFCSPACE').map(id => {
+    const space = file.get(id)!;
+    return {
+      globalId: asString(space.args[GLOBAL_ID]) ?? `#${id}`,
+      name: asString(space.args[NAME]) ?? `Space #${id}`,
+      longName: asString(space.args[LONG_NAME]),
+      storeyGlobalId: globalIdOf(storeyOf(id)),
+      quantities: objectData.get(id)?.quantities ?? {},
+    };
+  });
+
+  const elements: IfcElement[] = [];
+  const seen = new Set<number>();
+  for (const relId of file.idsOfType('IFCRELCONTAINEDINSPATIALSTRUCTURE')) {
+    const rel = file.get(relId)!;
+    const structureId = isRef(rel.args[5]) ? rel.args[5].ref : null;
+    if (structureId === null) continue;
+
+    const structure = file.get(structureId);
+    const spaceName = structure?.type === 'IFCSPACE'
+      ? asString(structure.args[LONG_NAME]) ?? asString(structure.args[NAME])
+      : null;
+    const storeyGlobalId = globalIdOf(storeyOf(structureId));
+
+    for (const elementId of asRefs(rel.args[4])) {
+      const type = file.typeOf(elementId);
+      if (!type || seen.has(elementId) || SPATIAL_TYPES.has(type) || NON_COMPONENT_TYPES.has(type)) continue;
+      seen.add(elementId);
+
+      const element = file.get(elementId)!;
+      const data = objectData.get(elementId);
+      elements.push({
+        globalId: asString(element.args[GLOBAL_ID]) ?? `#${elementId}`,
+        ifcType: type,
+        name: asString(element.args[NAME]),
+        predefinedType: readPredefinedType(element),
+        isExternal: isExternalProperty(data?.properties),
+        storeyGlobalId,
+        spaceName,
+        quantities: data?.quantities ?? {},
+      });
+    }
+  }
+
+  const [projectId] = file.idsOfType('IFCPROJECT');
+  const project = projectId !== undefined ? file.get(projectId) : undefined;
+
+  return {
+    schema: file.schema,
+    projectName: project ? asString(project.args[NAME]) ?? asString(project.args[LONG_NAME]) : null,
+    storeys,
+    spaces,
+    elements,
+  };
+}
+
+// ============================================================================
+// UNIFORMAT II Mapping
+// ============================================================================
+
+export interface UniformatMapping {
+  code: string;
+  name: string;
+  measure: IfcMeasure;
+}
+
+function uniformat(code: string, name: string, measure: IfcMeasure): UniformatMapping {
+  return { code, name, measure };
+}
+
+/** Canonical names for the STEP entity names the mapping knows */
+export const IFC_TYPE_NAMES: Record<string, string> = {};
+for (const name of [
+  'IfcFooting', 'IfcPile', 'IfcSlab', 'IfcBeam', 'IfcColumn', 'IfcMember', 'IfcPlate', 'IfcRoof', 'IfcWall',
+  'IfcWallStandardCase', 'IfcWallElementedCase', 'IfcCurtainWall', 'IfcWindow', 'IfcDoor', 'IfcStair',
+  'IfcStairFlight', 'IfcRamp', 'IfcRampFlight', 'IfcRailing', 'IfcCovering', 'IfcTransportElement',
+  'IfcSanitaryTerminal', 'IfcWasteTerminal', 'IfcPipeSegment', 'IfcPipeFitting', 'IfcTank', 'IfcBoiler',
+  'IfcChiller', 'IfcCoolingTower', 'IfcCondenser', 'IfcDuctSegment', 'IfcDuctFitting', 'IfcAirTerminal', 'IfcFan',
+  'IfcPump', 'IfcDamper', 'IfcUnitaryEquipment', 'IfcSpaceHeater', 'IfcAirToAirHeatRecovery', 'IfcCoil',
+  'IfcFireSuppressionTerminal', 'IfcElectricDistributionBoard', 'IfcElectricDistributionPoint', 'IfcTransformer',
+  'IfcProtectiveDevice', 'IfcCableSegment', 'IfcCableCarrierSegment', 'IfcLightFixture', 'IfcLamp', 'IfcOutlet',
+  'IfcSwitchingDevice', 'IfcSensor', 'IfcAlarm', 'IfcCommunicationsAppliance', 'IfcAudioVisualAppliance',
+  'IfcElectricGenerator', 'IfcFurnishingElement', 'IfcFurniture', 'IfcSystemFurnitureElement',
+  'IfcBuildingElementProxy', 'IfcFlowTerminal', 'IfcFlowSegment', 'IfcFlowFitting', 'IfcFlowController',
+  'IfcEnergyConversionDevice', 'IfcFlowMovingDevice',
+]) {
+  IFC_TYPE_NAMES[name.toUpperCase()] = name;
+}
+
+export function ifcTypeName(ifcType: string): string {
+  return IFC_TYPE_NAMES[ifcType] ?? ifcType;
+}
+
+/**
+ * UNIFORMAT II component for an IFC element, or null when the type says too little
+ * (proxies, generic IFC2x3 flow objects) for the assessor to decide
+ */
+export function mapIfcElementToUniformat(
+  element: Pick<IfcElement, 'ifcType' | 'predefinedType' | 'isExternal'>
+): UniformatMapping | null {
+  const predefined = element.predefinedType;
+
+  switch (element.ifcType) {
+    case 'IFCFOOTING':
+      return uniformat('A1010', 'Standard Foundations', 'volume');
+    case 'IFCPILE':
+      return uniformat('A1020', 'Special Foundations', 'length');
+    case 'IFCSLAB':
+      if (predefined === 'BASESLAB') return uniformat('A1030', 'Slab on Grade', 'area');
+      if (predefined === 'ROOF') return uniformat('B1020', 'Roof Construction', 'area');
+      if (predefined === 'LANDING') return uniformat('C2010', 'Stair Construction', 'area');
+      return uniformat('B1010', 'Floor Construction', 'area');
+    case 'IFCBEAM':
+    case 'IFCCOLUMN':
+    case 'IFCMEMBER':
+      return uniformat('B1010', 'Floor Construction', 'length');
+    case 'IFCROOF':
+      return uniformat('B3010', 'Roof Coverings', 'area');
+    case 'IFCWALL':
+    case 'IFCWALLSTANDARDCASE':
+    case 'IFCWALLELEMENTEDCASE':
+    case 'IFCPLATE':
+      return element.isExternal
+        ? uniformat('B2010', 'Exterior Walls', 'area')
+        : uniformat('C1010', 'Partitions', 'area');
+    case 'IFCCURTAINWALL':
+      return uniformat('B2020', 'Exterior Windows', 'area');
+    case 'IFCWINDOW':
+      // Windows are exterior unless the model says otherwise; interior glazing is a partition
+      return element.isExternal === false
+        ? uniformat('C1010', 'Partitions', 'count')
+        : uniformat('B2020', 'Exterior Windows', 'count');
+    case 'IFCDOOR':
+      return element.isExternal
+        ? uniformat('B2030', 'Exterior Doors', 'count')
+        : uniformat('C1020', 'Interior Doors', 'count');
+    case 'IFCSTAIR':
+    case 'IFCSTAIRFLIGHT':
+    case 'IFCRAMP':
+    case 'IFCRAMPFLIGHT':
+      return uniformat('C2010', 'Stair Construction', 'count');
+    case 'IFCRAILING':
+      return uniformat('C2010', 'Stair Construction', 'length');
+    case 'IFCCOVERING':
+      if (predefined === 'CEILING') return uniformat('C3030', 'Ceiling Finishes', 'area');
+      if (predefined === 'FLOORING') return uniformat('C3020', 'Floor Finishes', 'area');
+      if (predefined === 'ROOFING') return uniformat('B3010', 'Roof Coverings', 'area');
+      if (predefined === 'CLADDING') return uniformat('B2010', 'Exterior Walls', 'area');
+      return uniformat('C3010', 'Wall Finishes', 'area');
+    case 'IFCTRANSPORTELEMENT':
+      return predefined === 'ESCALATOR' || predefined === 'MOVINGWALKWAY'
+        ? uniformat('D1020', 'Escalators & Moving Walks', 'count')
+        : uniformat('D1010', 'Elevators & Lifts', 'count');
+    case 'IFCSANITARYTERMINAL':
+      return uniformat('D2010', 'Plumbing Fixtures', 'count');
+    case 'IFCPIPESEGMENT':
+      return uniformat('D2020', 'Domestic Water Distribution', 'length');
+    case 'IFCPIPEFITTING':
+      return uniformat('D2020', 'Domestic Water Distribution', 'count');
+    case 'IFCWASTETERMINAL':
+      return uniformat('D2030', 'Sanitary Waste', 'count');
+    case 'IFCTANK':
+      return uniformat('D2090', 'Other Plumbing Systems', 'count');
+    case 'IFCBOILER':
+      return uniformat('D3020', 'Heat Generating Systems', 'count');
+    case 'IFCCHILLER':
+    case 'IFCCOOLINGTOWER':
+    case 'IFCCONDENSER':
+      return uniformat('D3030', 'Cooling Generating Systems', 'count');
+    case 'IFCDUCTSEGMENT':
+      return uniformat('D3040', 'Distribution Systems', 'length');
+    case 'IFCDUCTFITTING':
+    case 'IFCAIRTERMINAL':
+    case 'IFCFAN':
+    case 'IFCPUMP':
+    case 'IFCDAMPER':
+      return uniformat('D3040', 'Distribution Systems', 'count');
+    case 'IFCUNITARYEQUIPMENT':
+    case 'IFCSPACEHEATER':
+    case 'IFCAIRTOAIRHEATRECOVERY':
+    case 'IFCCOIL':
+      return uniformat('D3050', 'Terminal & Package Units', 'count');
+    case 'IFCFIRESUPPRESSIONTERMINAL':
+      return predefined === 'HOSEREEL' || predefined === 'FIREHYDRANT'
+        ? uniformat('D4020', 'Standpipes', 'count')
+        : uniformat('D4010', 'Sprinklers', 'count');
+    case 'IFCELECTRICDISTRIBUTIONBOARD':
+    case 'IFCELECTRICDISTRIBUTIONPOINT':
+    case 'IFCTRANSFORMER':
+    case 'IFCPROTECTIVEDEVICE':
+      return uniformat('D5010', 'Electrical Service & Distribution', 'count');
+    case 'IFCCABLESEGMENT':
+    case 'IFCCABLECARRIERSEGMENT':
+      return uniformat('D5020', 'Lighting & Branch Wiring', 'length');
+    case 'IFCLIGHTFIXTURE':
+    case 'IFCLAMP':
+    case 'IFCOUTLET':
+    case 'IFCSWITCHINGDEVICE':
+      return uniformat('D5020', 'Lighting & Branch Wiring', 'count');
+    case 'IFCSENSOR':
+    case 'IFCALARM':
+    case 'IFCCOMMUNICATIONSAPPLIANCE':
+    case 'IFCAUDIOVISUALAPPLIANCE':
+      return uniformat('D5030', 'Communications & Security', 'count');
+    case 'IFCELECTRICGENERATOR':
+      return uniformat('D5090', 'Other Electrical Systems', 'count');
+    case 'IFCFURNISHINGELEMENT':
+    case 'IFCFURNITURE':
+    case 'IFCSYSTEMFURNITUREELEMENT':
+      return uniformat('E2010', 'Fixed Furnishings', 'count');
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Proposals
+// ============================================================================
+
+export const IFC_MEASURE_UNITS: Record<IfcMeasure, string> = {
+  area: 'm²',
+  length: 'm',
+  volume: 'm³',
+  count: 'EA',
+};
+
+/** Preferred quantity names per measure; net before gross, as assessed quantities are net */
+const QUANTITY_PREFERENCE: Record<Exclude<IfcMeasure, 'count'>, string[]> = {
+  area: ['NetSideArea', 'NetArea', 'NetFloorArea', 'NetSurfaceArea', 'GrossSideArea', 'GrossArea', 'GrossFloorArea', 'GrossSurfaceArea', 'Area'],
+  length: ['Length', 'NetLength', 'GrossLength', 'Perimeter'],
+  volume: ['NetVolume', 'GrossVolume', 'Volume'],
+};
+
+/**
+ * An element's quantity in the given measure; count is always 1 per element
+ */
+export function getElementQuantity(quantities: IfcQuantities, measure: IfcMeasure): number | null {
+  if (measure === 'count') return quantities.Count?.measure === 'count' ? quantities.Count.value : 1;
+
+  for (const name of QUANTITY_PREFERENCE[measure]) {
+    const quantity = quantities[name];
+    if (quantity?.measure === measure) return quantity.value;
+  }
+  const any = Object.values(quantities).find(quantity => quantity.measure === measure);
+  return any ? any.value : null;
+}
+
+export interface IfcSectionProposal {
+  globalId: string;
+  name: string;
+  elevation: number | null;
+  spaceCount: number;
+  /** Sum of the storey's space floor areas, in m² */
+  floorArea: number | null;
+}
+
+export interface IfcProposalElement {
+  globalId: string;
+  ifcType: string;
+  name: string | null;
+}
+
+export interface IfcComponentProposal {
+  /** Stable across re-parses: storey, component code (or IFC type when unmapped) and measure */
+  key: string;
+  storeyGlobalId: string | null;
+  storeyName: string | null;
+  componentCode: string | null;
+  componentName: string;
+  measure: IfcMeasure;
+  unit: string;
+  quantity: number;
+  elementsWithoutQuantity: number;
+  ifcTypes: string[];
+  spaces: string[];
+  elements: IfcProposalElement[];
+}
+
+export interface IfcImportPlan {
+  schema: string | null;
+  projectName: string | null;
+  sections: IfcSectionProposal[];
+  components: IfcComponentProposal[];
+  elementCount: number;
+  warnings: string[];
+}
+
+const UNASSIGNED_STOREY = 'site';
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Group a model's elements into section and component proposals
+ */
+export function planIfcImport(model: IfcModel): IfcImportPlan {
+  const warnings: string[] = [];
+  const storeyNames = new Map(model.storeys.map(storey => [storey.globalId, storey.name]));
+
+  const sections: IfcSectionProposal[] = model.storeys.map(storey => {
+    const spaces = model.spaces.filter(space => space.storeyGlobalId === storey.globalId);
+    const areas = spaces
+      .map(space => getElementQuantity(space.quantities, 'area'))
+      .filter((area): area is number => area !== null);
+    return {
+      globalId: storey.globalId,
+      name: storey.name,
+      elevation: storey.elevation === null ? null : roundQuantity(storey.elevation),
+      spaceCount: spaces.length,
+      floorArea: areas.length > 0 ? roundQuantity(areas.reduce((sum, area) => sum + area, 0)) : null,
+    };
+  });
+
+  if (model.storeys.length === 0) {
+    warnings.push('The model has no IfcBuildingStorey; components are proposed without building sections');
+  }
+
+  const groups = new Map<string, IfcComponentProposal>();
+  for (const element of model.elements) {
+    const mapping = mapIfcElementToUniformat(element);
+    const measure: IfcMeasure = mapping?.measure ?? 'count';
+    const storeyKey = element.storeyGlobalId ?? UNASSIGNED_STOREY;
+    const key = `${storeyKey}:${mapping ? mapping.code : element.ifcType}:${measure}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        storeyGlobalId: element.storeyGlobalId,
+        storeyName: element.storeyGlobalId ? storeyNames.get(element.storeyGlobalId) ?? null : null,
+        componentCode: mapping?.code ?? null,
+        componentName: mapping?.name ?? ifcTypeName(element.ifcType),
+        measure,
+        unit: IFC_MEASURE_UNITS[measure],
+        quantity: 0,
+        elementsWithoutQuantity: 0,
+        ifcTypes: [],
+        spaces: [],
+        elements: [],
+      };
+      groups.set(key, group);
+    }
+
+    const quantity = getElementQuantity(element.quantities, measure);
+    if (quantity === null) group.elementsWithoutQuantity++;
+    else group.quantity += quantity;
+
+    const typeName = ifcTypeName(element.ifcType);
+    if (!group.ifcTypes.includes(typeName)) group.ifcTypes.push(typeName);
+    if (element.spaceName && !group.spaces.includes(element.spaceName)) group.spaces.push(element.spaceName);
+    group.elements.push({ globalId: element.globalId, ifcType: element.ifcType, name: element.name });
+  }
+
+  const storeyOrder = new Map(model.storeys.map((storey, index) => [storey.globalId, index]));
+  const components = Array.from(groups.values())
+    .map(group => ({ ...group, quantity: roundQuantity(group.quantity) }))
+    .sort((a, b) =>
+      (storeyOrder.get(a.storeyGlobalId ?? '') ?? Number.MAX_SAFE_INTEGER) - (storeyOrder.get(b.storeyGlobalId ?? '') ?? Number.MAX_SAFE_INTEGER)
+      || (a.componentCode ?? '~').localeCompare(b.componentCode ?? '~')
+      || a.componentName.localeCompare(b.componentName)
+    );
+
+  for (const component of components) {
+    if (component.measure !== 'count' && component.elementsWithoutQuantity > 0) {
+      const where = component.storeyName ? ` on ${component.storeyName}` : '';
+      warnings.push(
+        `${component.componentCode} ${component.componentName}${where}: ${component.elementsWithoutQuantity} of ` +
+        `${component.elements.length} elements have no ${component.measure} quantity in the model`
+      );
+    }
+  }
+
+  const unmapped = components.filter(component => !component.componentCode).length;
+  if (unmapped > 0) {
+    warnings.push(`${unmapped} element group${unmapped === 1 ? '' : 's'} could not be mapped to UNIFORMAT; choose a component code to accept ${unmapped === 1 ? 'it' : 'them'}`);
+  }
+
+  return {
+    schema: model.schema,
+    projectName: model.projectName,
+    sections,
+    components,
+    elementCount: model.elements.length,
+    warnings,
+  };
+}
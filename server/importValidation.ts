@@ -1,4 +1,4 @@
-import { sql } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
 import { getDb } from "./db";
 import { importValidationResults, type InsertImportValidationResult } from "../drizzle/schema";
 import type { User } from "../drizzle/schema";
@@ -338,6 +338,8 @@ export async function validateBulkImport(
     projectId?: number;
     fileName?: string;
     fileSize?: number;
+    /** Stored with the session so a later commit can check it is importing what was validated */
+    metadata?: Record<string, unknown>;
   } = {}
 ): Promise<ValidationResult> {
   const sessionId = uuidv4();
@@ -427,6 +429,7 @@ export async function validateBulkImport(
     invalidDataFormats: validationErrors.filter(e => e.error.includes('format') || e.error.includes('number')).length,
     validationErrors: JSON.stringify(validationErrors),
     duplicateDetails: JSON.stringify(duplicateDetails),
+    metadata: options.metadata ?? null,
   });
 
   return {
@@ -493,19 +496,12 @@ export async function executeValidatedImport(
   // For now, just track the intent
   
   // Update validation result with execution status
-  await db.execute(sql`
-    UPDATE import_validation_results
-    SET 
-      importDecision = 'approved',
-      importBehavior = ${behavior},
-      importExecutedAt = NOW(),
-      importStatus = 'completed',
-      recordsCreated = ${recordsCreated},
-      recordsUpdated = ${recordsUpdated},
-      recordsSkipped = ${recordsSkipped},
-      recordsFailed = ${recordsFailed}
-    WHERE sessionId = ${sessionId}
-  `);
+  await recordImportExecution(sessionId, behavior, {
+    recordsCreated,
+    recordsUpdated,
+    recordsSkipped,
+    recordsFailed,
+  });
 
   return {
     success: recordsFailed === 0,
@@ -516,3 +512,54 @@ export async function executeValidatedImport(
     errors,
   };
 }
+
+/**
+ * Get a stored validation session belonging to a user
+ */
+export async function getValidationSession(sessionId: string, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [session] = await db
+    .select()
+    .from(importValidationResults)
+    .where(and(eq(importValidationResults.sessionId, sessionId), eq(importValidationResults.userId, userId)))
+    .limit(1);
+
+  return session;
+}
+
+/**
+ * Record the outcome of executing a validated import
+ */
+export async function recordImportExecution(
+  sessionId: string,
+  behavior: ImportBehavior,
+  counts: {
+    recordsCreated: number;
+    recordsUpdated: number;
+    recordsSkipped: number;
+    recordsFailed: number;
+  }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.execute(sql`
+    UPDATE import_validation_results
+    SET 
+      importDecision = ${counts.recordsFailed > 0 ? 'partial' : 'approved'},
+      importBehavior = ${behavior},
+      importExecutedAt = NOW(),
+      importStatus = ${counts.recordsFailed > 0 && counts.recordsCreated + counts.recordsUpdated === 0 ? 'failed' : 'completed'},
+      recordsCreated = ${counts.recordsCreated},
+      recordsUpdated = ${counts.recordsUpdated},
+      recordsSkipped = ${counts.recordsSkipped},
+      recordsFailed = ${counts.recordsFailed}
+    WHERE sessionId = ${sessionId}
+  `);
+}
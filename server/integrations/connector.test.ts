@@ -0,0 +1,199 @@
+/**
+ * Tests for the SAP / TRIRIGA integration connectors
+ * Tests extract parsing, record mapping, incremental filtering and unique ID generation
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  IntegrationRowError,
+  buildExternalUniqueId,
+  filterModifiedSince,
+  getConnector,
+  listConnectors,
+  normalizeCondition,
+  parseIntegrationFile,
+  parseJsonExtract,
+  parseSourceDate,
+} from "./connector";
+import { sapConnector } from "./sap.connector";
+import { tririgaConnector } from "./tririga.connector";
+
+describe("integration connectors", () => {
+  it("should register both connectors", () => {
+    expect(listConnectors().map(c => c.source).sort()).toEqual(["sap", "tririga"]);
+    expect(getConnector("sap")).toBe(sapConnector);
+  });
+
+  describe("parseJsonExtract", () => {
+    it("should read collections keyed by record type", () => {
+      const records = parseJsonExtract(sapConnector, sapConnector.sampleData());
+      expect(records).toHaveLength(5);
+      expect(records.filter(r => r.recordType === "functional_location")).toHaveLength(3);
+      expect(records.filter(r => r.recordType === "equipment")).toHaveLength(2);
+      expect(records.map(r => r.rowNumber)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should read OData results using the record-type field", () => {
+      const records = parseJsonExtract(tririgaConnector, {
+        d: { results: [{ triRecordTypeTX: "triBuilding", triIdTX: "B-1" }, { triRecordTypeTX: "Asset", triIdTX: "A-1" }] },
+      });
+      expect(records.map(r => r.recordType)).toEqual(["building", "asset"]);
+    });
+  });
+
+  describe("parseIntegrationFile", () => {
+    it("should parse a mixed CSV extract and keep leading zeros", () => {
+      const csv = [
+        "RECORD_TYPE,TPLNR,EQUNR,PLTXT,EQKTX,ZZ_UNIFORMAT",
+        "IFLOT,TOR1,,Campus,,",
+        "EQUI,TOR1-B001,000000010000123,,Boiler B-1,D3020",
+      ].join("\n");
+
+      const records = parseIntegrationFile(sapConnector, "extract.csv", Buffer.from(csv));
+      expect(records).toHaveLength(2);
+      expect(records[0].recordType).toBe("functional_location");
+      expect(records[1].recordType).toBe("equipment");
+      expect(records[1].data.EQUNR).toBe("000000010000123");
+    });
+
+    it("should reject invalid JSON", () => {
+      expect(() => parseIntegrationFile(sapConnector, "bad.json", Buffer.from("{"))).toThrow(/Invalid JSON/);
+    });
+  });
+
+  describe("SAP mapping", () => {
+    const transform = (recordType: string, data: Record<string, unknown>) =>
+      sapConnector.transform({ recordType, rowNumber: 1, data });
+
+    it("should map functional location levels to sites and buildings", () => {
+      expect(transform("functional_location", { TPLNR: "TOR1", PLTXT: "Campus" })).toMatchObject({
+        kind: "site",
+        externalId: "TOR1",
+        name: "Campus",
+      });
+      expect(transform("functional_location", { TPLNR: "TOR1-B001", PLTXT: "Tower", BAUJJ: "1965", ZZ_GROSS_AREA: "420,000" })).toMatchObject({
+        kind: "building",
+        externalId: "TOR1-B001",
+        siteExternalId: "TOR1",
+        yearBuilt: 1965,
+        squareFootage: 420000,
+      });
+    });
+
+    it("should skip floors and rooms", () => {
+      expect(transform("functional_location", { TPLNR: "TOR1-B001-F01" })).toBeNull();
+    });
+
+    it("should roll equipment up to its building", () => {
+      expect(transform("equipment", {
+        EQUNR: "10000124",
+        EQKTX: "Elevator",
+        TPLNR: "TOR1-B001-F01-R12",
+        ZZ_UNIFORMAT: "d1010",
+        INBDT: "19980301",
+        ZZ_CONDITION: "4",
+      })).toMatchObject({
+        kind: "component",
+        externalId: "10000124",
+        buildingExternalId: "TOR1-B001",
+        componentCode: "D1010",
+        componentLocation: "F01-R12",
+        installYear: 1998,
+        condition: "poor",
+      });
+    });
+
+    it("should reject equipment without a UNIFORMAT code or building", () => {
+      expect(() => transform("equipment", { EQUNR: "1", TPLNR: "TOR1-B001" })).toThrow(IntegrationRowError);
+      expect(() => transform("equipment", { EQUNR: "1", TPLNR: "TOR1", ZZ_UNIFORMAT: "D3020" })).toThrow(/site level/);
+      expect(() => transform("equipment", { EQUNR: "1", TPLNR: "TOR1-B001", ZZ_UNIFORMAT: "HVAC" })).toThrow(/invalid UNIFORMAT/);
+    });
+
+    it("should reject unknown record types", () => {
+      expect(() => transform("unknown", { TPLNR: "TOR1" })).toThrow(/Unknown record type/);
+    });
+  });
+
+  describe("TRIRIGA mapping", () => {
+    const transform = (recordType: string, data: Record<string, unknown>) =>
+      tririgaConnector.transform({ recordType, rowNumber: 1, data });
+
+    it("should map buildings to their parent property", () => {
+      expect(transform("building", { triIdTX: "B-2001", triNameTX: "Office", triParentPropertyTX: "P-1001", triYearBuiltNU: 1978 })).toMatchObject({
+        kind: "building",
+        externalId: "B-2001",
+        siteExternalId: "P-1001",
+        yearBuilt: 1978,
+      });
+    });
+
+    it("should require a parent property for buildings", () => {
+      expect(() => transform("building", { triIdTX: "B-2001" })).toThrow(/triParentPropertyTX/);
+    });
+
+    it("should map assets with a condition index", () => {
+      expect(transform("asset", {
+        triIdTX: "A-30002",
+        triNameTX: "Roof",
+        triParentBuildingTX: "B-2001",
+        triUniformatCodeTX: "B3010",
+        triFloorTX: "Roof",
+        triSpaceTX: "Zone A",
+        triConditionIndexNU: 42,
+      })).toMatchObject({
+        kind: "component",
+        buildingExternalId: "B-2001",
+        componentLocation: "Roof / Zone A",
+        condition: "poor",
+      });
+    });
+  });
+
+  describe("incremental filtering", () => {
+    it("should parse SAP, ISO and OData dates", () => {
+      expect(parseSourceDate("20260210")?.toISOString()).toBe("2026-02-10T00:00:00.000Z");
+      expect(parseSourceDate("00000000")).toBeNull();
+      expect(parseSourceDate("/Date(1767225600000)/")?.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+      expect(parseSourceDate("2026-02-11T09:30:00Z")?.toISOString()).toBe("2026-02-11T09:30:00.000Z");
+    });
+
+    it("should keep records changed since the last run and records without a change date", () => {
+      const records = parseJsonExtract(sapConnector, {
+        equipment: [
+          { EQUNR: "1", AEDAT: "20260101" },
+          { EQUNR: "2", AEDAT: "20260301" },
+          { EQUNR: "3" },
+        ],
+      });
+
+      const changed = filterModifiedSince(sapConnector, records, new Date("2026-02-01T00:00:00Z"));
+      expect(changed.map(r => r.data.EQUNR)).toEqual(["2", "3"]);
+      expect(filterModifiedSince(sapConnector, records, null)).toHaveLength(3);
+    });
+  });
+
+  describe("normalizeCondition", () => {
+    it("should map ratings, indexes and labels", () => {
+      expect(normalizeCondition("1")).toBe("good");
+      expect(normalizeCondition(3)).toBe("fair");
+      expect(normalizeCondition("5")).toBe("poor");
+      expect(normalizeCondition(80)).toBe("good");
+      expect(normalizeCondition("Very Poor")).toBe("poor");
+      expect(normalizeCondition("unknown")).toBeNull();
+      expect(normalizeCondition(null)).toBeNull();
+    });
+  });
+
+  describe("buildExternalUniqueId", () => {
+    it("should prefix the source and company", () => {
+      expect(buildExternalUniqueId("sap", 7, "TOR1-B001")).toBe("SAP-7-TOR1-B001");
+      expect(buildExternalUniqueId("tririga", 12, "B-2001")).toBe("TRIRIGA-12-B-2001");
+      expect(buildExternalUniqueId("sap", 8, "TOR1-B001")).not.toBe(buildExternalUniqueId("sap", 7, "TOR1-B001"));
+    });
+
+    it("should reject IDs that do not fit assets.uniqueId", () => {
+      expect(buildExternalUniqueId("sap", 7, "X".repeat(44))).toHaveLength(50);
+      expect(() => buildExternalUniqueId("sap", 7, "X".repeat(45))).toThrow(IntegrationRowError);
+    });
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Integration Connector Framework
+ * Shared types, registry and parsing helpers for asset-register connectors (SAP PM, IBM TRIRIGA)
+ *
+ * A connector turns a source-system extract into normalized sites, buildings and components.
+ * The integration runner then loads those onto projects, assets and assessments.
+ */
+
+import * as XLSX from "xlsx";
+
+export type IntegrationSource = 'sap' | 'tririga';
+export type IntegrationRunType = 'full' | 'incremental';
+
+/** One row from a source extract, before mapping */
+export interface RawIntegrationRecord {
+  recordType: string;
+  rowNumber: number;
+  data: Record<string, unknown>;
+}
+
+/** A site or property; loaded as a project */
+export interface IntegrationSite {
+  kind: 'site';
+  externalId: string;
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  province?: string | null;
+  postalCode?: string | null;
+  yearBuilt?: number | null;
+}
+
+/** A building; loaded as an asset keyed on assets.uniqueId */
+export interface IntegrationBuilding {
+  kind: 'building';
+  externalId: string;
+  siteExternalId: string;
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  province?: string | null;
+  postalCode?: string | null;
+  yearBuilt?: number | null;
+  squareFootage?: number | null;
+  numberOfFloors?: number | null;
+  replacementValue?: number | null;
+  primaryUse?: string | null;
+}
+
+/** A piece of equipment or building system; loaded as an assessment on its building */
+export interface IntegrationComponent {
+  kind: 'component';
+  externalId: string;
+  buildingExternalId: string;
+  componentCode: string;
+  componentName: string;
+  componentLocation?: string | null;
+  condition?: IntegrationCondition | null;
+  installYear?: number | null;
+  expectedUsefulLife?: number | null;
+  replacementValue?: number | null;
+  observations?: string | null;
+}
+
+export type IntegrationRecord = IntegrationSite | IntegrationBuilding | IntegrationComponent;
+export type IntegrationCondition = 'good' | 'fair' | 'poor' | 'not_assessed';
+
+export class IntegrationRowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrationRowError';
+  }
+}
+
+export interface AssetConnector {
+  source: IntegrationSource;
+  label: string;
+  /** Maps sheet names, JSON collection keys and record-type column values (lowercased) to record types */
+  recordTypeAliases: Record<string, string>;
+  /** Column holding the record type when a flat file mixes record types */
+  recordTypeField: string;
+  /** Columns checked, in order, for a record's source key (used when reporting failed rows) */
+  externalIdFields: string[];
+  /** Columns checked, in order, for the source's last-changed timestamp */
+  modifiedAtFields: string[];
+  /**
+   * Map one raw record; return null for records that are valid but not loaded
+   * (e.g. floors and rooms below building level). Throw IntegrationRowError for bad rows.
+   */
+  transform(record: RawIntegrationRecord): IntegrationRecord | null;
+  /** Sample extract served by the local mock endpoint */
+  sampleData(): Record<string, Record<string, unknown>[]>;
+}
+
+const connectors = new Map<IntegrationSource, AssetConnector>();
+
+export function registerConnector(connector: AssetConnector): void {
+  connectors.set(connector.source, connector);
+}
+
+export function getConnector(source: IntegrationSource): AssetConnector {
+  const connector = connectors.get(source);
+  if (!connector) {
+    throw new Error(`No integration connector registered for source "${source}"`);
+  }
+  return connector;
+}
+
+export function listConnectors(): AssetConnector[] {
+  return Array.from(connectors.values());
+}
+
+/**
+ * Build the assets.uniqueId / projects.uniqueId used to match re-imported records
+ * Unique IDs are global, so the company is part of them: two companies importing the
+ * same external ID get separate records.
+ */
+export function buildExternalUniqueId(source: IntegrationSource, companyId: number, externalId: string): string {
+  const prefix = `${source.toUpperCase()}-${companyId}-`;
+  const uniqueId = `${prefix}${externalId}`;
+  if (uniqueId.length > 50) {
+    throw new IntegrationRowError(`External ID "${externalId}" is too long to use as a unique ID (max ${50 - prefix.length} characters)`);
+  }
+  return uniqueId;
+}
+
+function resolveRecordType(connector: AssetConnector, value: unknown): string | null {
+  if (value == null) return null;
+  return connector.recordTypeAliases[String(value).trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Parse a JSON extract: either { <collection>: [...] } keyed by record type,
+ * an OData-style { d: { results: [...] } } or { value: [...] }, or a flat array with a record-type field
+ */
+export function parseJsonExtract(connector: AssetConnector, body: unknown): RawIntegrationRecord[] {
+  const records: RawIntegrationRecord[] = [];
+
+  const pushRows = (rows: unknown[], fallbackType: string | null) => {
+    for (const row of rows) {
+      if (!row || typeof row !== 'object') continue;
+      const data = row as Record<string, unknown>;
+      const recordType = resolveRecordType(connector, data[connector.recordTypeField]) ?? fallbackType;
+      records.push({ recordType: recordType ?? 'unknown', rowNumber: records.length + 1, data });
+    }
+  };
+
+  if (Array.isArray(body)) {
+    pushRows(body, null);
+    return records;
+  }
+
+  if (!body || typeof body !== 'object') {
+    throw new Error('Extract must be a JSON object or array');
+  }
+
+  const root = body as Record<string, any>;
+  if (Array.isArray(root.d?.results)) {
+    pushRows(root.d.results, null);
+    return records;
+  }
+  if (Array.isArray(root.value)) {
+    pushRows(root.value, null);
+    return records;
+  }
+
+  for (const [key, rows] of Object.entries(root)) {
+    if (!Array.isArray(rows)) continue;
+    pushRows(rows, resolveRecordType(connector, key));
+  }
+  return records;
+}
+
+/**
+ * Parse a dropped file (JSON, CSV or Excel)
+ * Workbooks may use one sheet per record type; flat files need the connector's record-type column
+ */
+export function parseIntegrationFile(connector: AssetConnector, fileName: string, content: Buffer): RawIntegrationRecord[] {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let body: unknown;
+    try {
+      body = JSON.parse(content.toString('utf8'));
+    } catch (error: any) {
+      throw new Error(`Invalid JSON in ${fileName}: ${error.message}`);
+    }
+    return parseJsonExtract(connector, body);
+  }
+
+  // Read CSV as text so SAP keys with leading zeros (e.g. 000000010000123) are preserved
+  const workbook = fileName.toLowerCase().endsWith('.csv')
+    ? XLSX.read(content.toString('utf8'), { type: 'string', raw: true })
+    : XLSX.read(content, { type: 'buffer' });
+
+  const records: RawIntegrationRecord[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const sheetType = resolveRecordType(connector, sheetName);
+    const rows: Record<string, unknown>[] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: null, raw: false });
+    for (const data of rows) {
+      const recordType = resolveRecordType(connector, data[connector.recordTypeField]) ?? sheetType;
+      records.push({ recordType: recordType ?? 'unknown', rowNumber: records.length + 1, data });
+    }
+  }
+  return records;
+}
+
+export function getRecordExternalId(connector: AssetConnector, record: RawIntegrationRecord): string | null {
+  return getText(record.data, ...connector.externalIdFields);
+}
+
+/**
+ * Read the source's last-changed timestamp from a record
+ * Accepts ISO strings, SAP YYYYMMDD dates and OData /Date(ms)/ literals
+ */
+export function getRecordModifiedAt(connector: AssetConnector, record: RawIntegrationRecord): Date | null {
+  for (const field of connector.modifiedAtFields) {
+    const date = parseSourceDate(record.data[field]);
+    if (date) return date;
+  }
+  return null;
+}
+
+export function parseSourceDate(value: unknown): Date | null {
+  if (value == null || value === '') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  const text = String(value).trim();
+  const odata = text.match(/^\/Date\((\d+)\)\/$/);
+  if (odata) return new Date(Number(odata[1]));
+
+  const sapDate = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (sapDate) {
+    if (text === '00000000') return null;
+    return new Date(`${sapDate[1]}-${sapDate[2]}-${sapDate[3]}T00:00:00.000Z`);
+  }
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Keep records changed since the given time; records without a change timestamp are kept
+ */
+export function filterModifiedSince(
+  connector: AssetConnector,
+  records: RawIntegrationRecord[],
+  since: Date | null
+): RawIntegrationRecord[] {
+  if (!since) return records;
+  return records.filter(record => {
+    const modifiedAt = getRecordModifiedAt(connector, record);
+    return !modifiedAt || modifiedAt >= since;
+  });
+}
+
+export function getText(data: Record<string, unknown>, ...fields: string[]): string | null {
+  for (const field of fields) {
+    const value = data[field];
+    if (value != null && String(value).trim() !== '') return String(value).trim();
+  }
+  return null;
+}
+
+export function requireText(data: Record<string, unknown>, ...fields: string[]): string {
+  const value = getText(data, ...fields);
+  if (!value) {
+    throw new IntegrationRowError(`Missing required field ${fields.join(' / ')}`);
+  }
+  return value;
+}
+
+export function getNumber(data: Record<string, unknown>, ...fields: string[]): number | null {
+  const text = getText(data, ...fields);
+  if (text == null) return null;
+  const value = Number(text.replace(/,/g, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+export function getYear(data: Record<string, unknown>, ...fields: string[]): number | null {
+  const text = getText(data, ...fields);
+  if (text == null) return null;
+  if (/^\d{4}$/.test(text)) return Number(text) > 0 ? Number(text) : null;
+  const date = parseSourceDate(text);
+  return date ? date.getUTCFullYear() : null;
+}
+
+/**
+ * Map a source condition to the assessment condition scale
+ * Numeric 1-5 ratings treat 1 as best; 0-100 values are read as a condition index
+ */
+export function normalizeCondition(value: unknown): IntegrationCondition | null {
+  if (value == null || value === '') return null;
+  const text = String(value).trim().toLowerCase();
+
+  const numeric = Number(text);
+  if (Number.isFinite(numeric)) {
+    if (numeric >= 1 && numeric <= 5 && Number.isInteger(numeric)) {
+      return numeric <= 2 ? 'good' : numeric === 3 ? 'fair' : 'poor';
+    }
+    if (numeric > 5 && numeric <= 100) {
+      return numeric >= 75 ? 'good' : numeric >= 50 ? 'fair' : 'poor';
+    }
+    return null;
+  }
+
+  const mapping: Record<string, IntegrationCondition> = {
+    'excellent': 'good',
+    'very good': 'good',
+    'good': 'good',
+    'fair': 'fair',
+    'average': 'fair',
+    'poor': 'poor',
+    'very poor': 'poor',
+    'critical': 'poor',
+    'failed': 'poor',
+    'not assessed': 'not_assessed',
+    'not_assessed': 'not_assessed',
+  };
+  return mapping[text] ?? null;
+}
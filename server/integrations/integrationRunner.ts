@@ -0,0 +1,618 @@
+/**
+ * Integration Runner
+ * Extracts records through a connector, maps them and loads them onto projects, assets and assessments.
+ *
+ * Every run is recorded in integration_runs with extract/transform/load counters and its failed rows.
+ * Loads are idempotent: sites match on projects.uniqueId, buildings on assets.uniqueId and
+ * components on assessments.externalId within their asset, so re-imports update in place.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import * as db from "../db";
+import { createAsset, getAssetById, searchAssetByUniqueId } from "../db-assets";
+import {
+  assessments,
+  assets,
+  buildingComponents,
+  companies,
+  integrationRuns,
+  projects,
+  type Asset,
+  type IntegrationRun,
+} from "../../drizzle/schema";
+import {
+  IntegrationRowError,
+  buildExternalUniqueId,
+  filterModifiedSince,
+  getConnector,
+  getRecordExternalId,
+  parseIntegrationFile,
+  parseJsonExtract,
+  type AssetConnector,
+  type IntegrationBuilding,
+  type IntegrationComponent,
+  type IntegrationRecord,
+  type IntegrationRunType,
+  type IntegrationSite,
+  type IntegrationSource,
+  type RawIntegrationRecord,
+} from "./connector";
+import "./sap.connector";
+import "./tririga.connector";
+
+export type IntegrationInput =
+  | { kind: 'file'; fileName: string; content: Buffer }
+  | { kind: 'drop' }
+  | { kind: 'endpoint'; url: string };
+
+export interface IntegrationFailure {
+  row: number | null;
+  recordType: string | null;
+  externalId: string | null;
+  stage: 'extract' | 'transform' | 'load';
+  message: string;
+}
+
+export interface IntegrationRunResult {
+  runId: number;
+  status: 'success' | 'failed' | 'partial';
+  runType: IntegrationRunType;
+  since: string | null;
+  recordsExtracted: number;
+  recordsTransformed: number;
+  recordsLoaded: number;
+  recordsCreated: number;
+  recordsUpdated: number;
+  recordsFailed: number;
+  failures: IntegrationFailure[];
+  errorMessage?: string;
+}
+
+const SUPPORTED_FILE_EXTENSIONS = ['.json', '.csv', '.xlsx', '.xls'];
+const ENDPOINT_TIMEOUT_MS = 60 * 1000;
+// Failed rows are stored in errorDetails; cap them so one bad extract cannot bloat the table
+const MAX_STORED_FAILURES = 500;
+
+const LOAD_ORDER: Record<IntegrationRecord['kind'], number> = { site: 0, building: 1, component: 2 };
+
+const UNIFORMAT_GROUPS: Record<string, string> = {
+  'A': 'A - Substructure',
+  'B': 'B - Shell',
+  'C': 'C - Interiors',
+  'D': 'D - Services',
+  'E': 'E - Equipment & Furnishings',
+  'F': 'F - Special Construction',
+  'G': 'G - Building Sitework',
+};
+
+/**
+ * Drop location of a company's files for a source, relative to the drop root
+ * Each company has its own subdirectory so runs never read or archive another tenant's files
+ */
+export function getIntegrationDropName(source: IntegrationSource, companyId: number): string {
+  return path.posix.join(`company-${companyId}`, source);
+}
+
+/**
+ * Directory watched for a company's file drops for a source
+ */
+export function getIntegrationDropDir(source: IntegrationSource, companyId: number): string {
+  const root = process.env.INTEGRATION_DROP_DIR || path.join(process.cwd(), 'integration-drop');
+  return path.join(root, getIntegrationDropName(source, companyId));
+}
+
+/**
+ * Configured source endpoint, if any (SAP_ENDPOINT_URL / TRIRIGA_ENDPOINT_URL)
+ */
+export function getConfiguredEndpointUrl(source: IntegrationSource): string | null {
+  return process.env[`${source.toUpperCase()}_ENDPOINT_URL`] || null;
+}
+
+/**
+ * Start of the last run that loaded data; incremental runs pick up changes from there
+ */
+async function getIncrementalSince(source: IntegrationSource, companyId: number): Promise<Date | null> {
+  const database = await getDb();
+  if (!database) return null;
+
+  const [lastRun] = await database
+    .select({ startedAt: integrationRuns.startedAt })
+    .from(integrationRuns)
+    .where(
+      and(
+        eq(integrationRuns.source, source),
+        eq(integrationRuns.companyId, companyId),
+        inArray(integrationRuns.status, ['success', 'partial'])
+      )
+    )
+    .orderBy(desc(integrationRuns.startedAt))
+    .limit(1);
+
+  return lastRun ? new Date(lastRun.startedAt) : null;
+}
+
+async function listDropFiles(source: IntegrationSource, companyId: number): Promise<string[]> {
+  const dir = getIntegrationDropDir(source, companyId);
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+  return entries
+    .filter(name => SUPPORTED_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+/**
+ * Move processed drop files aside so the next run does not import them again
+ */
+async function archiveDropFiles(source: IntegrationSource, companyId: number, files: string[], runId: number): Promise<void> {
+  const processedDir = path.join(getIntegrationDropDir(source, companyId), 'processed');
+  await fs.mkdir(processedDir, { recursive: true });
+  for (const file of files) {
+    await fs.rename(file, path.join(processedDir, `run-${runId}-${path.basename(file)}`));
+  }
+}
+
+async function fetchEndpointRecords(
+  connector: AssetConnector,
+  url: string,
+  since: Date | null
+): Promise<RawIntegrationRecord[]> {
+  const requestUrl = new URL(url);
+  if (since) requestUrl.searchParams.set('since', since.toISOString());
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  const token = process.env[`${connector.source.toUpperCase()}_ENDPOINT_TOKEN`];
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), ENDPOINT_TIMEOUT_MS);
+  try {
+    const response = await fetch(requestUrl, { headers, signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`${connector.label} endpoint returned HTTP ${response.status}`);
+    }
+    return parseJsonExtract(connector, await response.json());
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(`${connector.label} endpoint timed out after ${ENDPOINT_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Loads normalized records for one run, caching resolved projects and assets
+ */
+class IntegrationLoader {
+  private projectIds = new Map<string, number>();
+  private assetsByExternalId = new Map<string, Asset>();
+  private projectCompanies = new Map<number, string | null>();
+  private uniformatCache = new Map<string, { id: number; level: number } | null>();
+
+  constructor(
+    private source: IntegrationSource,
+    private companyId: number,
+    private companyName: string,
+    private userId: number,
+    private runId: number
+  ) {}
+
+  async load(record: IntegrationRecord): Promise<'created' | 'updated'> {
+    switch (record.kind) {
+      case 'site':
+        return this.loadSite(record);
+      case 'building':
+        return this.loadBuilding(record);
+      case 'component':
+        return this.loadComponent(record);
+    }
+  }
+
+  private async getProjectCompany(projectId: number): Promise<string | null> {
+    if (!this.projectCompanies.has(projectId)) {
+      const database = await getDb();
+      const [project] = database
+        ? await database.select({ company: projects.company }).from(projects).where(eq(projects.id, projectId)).limit(1)
+        : [];
+      this.projectCompanies.set(projectId, project?.company ?? null);
+    }
+    return this.projectCompanies.get(projectId) ?? null;
+  }
+
+  private async assertCompanyOwnsProject(projectId: number, label: string): Promise<void> {
+    if (await this.getProjectCompany(projectId) !== this.companyName) {
+      throw new IntegrationRowError(`${label} cannot be matched to a record of this company`);
+    }
+  }
+
+  private async resolveProjectId(siteExternalId: string): Promise<number | null> {
+    const cached = this.projectIds.get(siteExternalId);
+    if (cached) return cached;
+
+    const database = await getDb();
+    if (!database) return null;
+
+    const [project] = await database
+      .select({ id: projects.id, company: projects.company })
+      .from(projects)
+      .where(eq(projects.uniqueId, buildExternalUniqueId(this.source, this.companyId, siteExternalId)))
+      .limit(1);
+    if (!project) return null;
+
+    this.projectCompanies.set(project.id, project.company);
+    await this.assertCompanyOwnsProject(project.id, `Site ${siteExternalId}`);
+    this.projectIds.set(siteExternalId, project.id);
+    return project.id;
+  }
+
+  private async resolveAsset(buildingExternalId: string): Promise<Asset | null> {
+    const cached = this.assetsByExternalId.get(buildingExternalId);
+    if (cached) return cached;
+
+    const asset = await searchAssetByUniqueId(buildExternalUniqueId(this.source, this.companyId, buildingExternalId));
+    if (!asset) return null;
+
+    await this.assertCompanyOwnsProject(asset.projectId, `Building ${buildingExternalId}`);
+    this.assetsByExternalId.set(buildingExternalId, asset);
+    return asset;
+  }
+
+  private async loadSite(site: IntegrationSite): Promise<'created' | 'updated'> {
+    const database = await getDb();
+    if (!database) throw new Error('Database not available');
+
+    const values = {
+      name: site.name,
+      address: site.address ?? undefined,
+      city: site.city ?? undefined,
+      province: site.province ?? undefined,
+      postalCode: site.postalCode ?? undefined,
+      yearBuilt: site.yearBuilt ?? undefined,
+    };
+
+    const existingId = await this.resolveProjectId(site.externalId);
+    if (existingId) {
+      await database.update(projects).set(values).where(eq(projects.id, existingId));
+      return 'updated';
+    }
+
+    const projectId = await db.createProject({
+      ...values,
+      userId: this.userId,
+      uniqueId: buildExternalUniqueId(this.source, this.companyId, site.externalId),
+      status: 'in_progress',
+    }, this.companyName);
+
+    this.projectIds.set(site.externalId, projectId);
+    this.projectCompanies.set(projectId, this.companyName);
+    return 'created';
+  }
+
+  private async loadBuilding(building: IntegrationBuilding): Promise<'created' | 'updated'> {
+    const database = await getDb();
+    if (!database) throw new Error('Database not available');
+
+    const projectId = await this.resolveProjectId(building.siteExternalId);
+    const existing = await this.resolveAsset(building.externalId);
+
+    const values = {
+      name: building.name,
+      address: building.address ?? undefined,
+      city: building.city ?? undefined,
+      province: building.province ?? undefined,
+      postalCode: building.postalCode ?? undefined,
+      yearBuilt: building.yearBuilt ?? undefined,
+      squareFootage: building.squareFootage != null ? String(building.squareFootage) : undefined,
+      numberOfFloors: building.numberOfFloors ?? undefined,
+      replacementValue: building.replacementValue != null ? String(building.replacementValue) : undefined,
+      primaryUse: building.primaryUse ?? undefined,
+      metadata: {
+        integration: {
+          source: this.source,
+          externalId: building.externalId,
+          siteExternalId: building.siteExternalId,
+          lastRunId: this.runId,
+        },
+      },
+    };
+
+    if (existing) {
+      // A building moved to another site in the source follows it here
+      await database
+        .update(assets)
+        .set({ ...values, ...(projectId ? { projectId } : {}) })
+        .where(eq(assets.id, existing.id));
+      this.assetsByExternalId.set(building.externalId, { ...existing, projectId: projectId ?? existing.projectId });
+      return 'updated';
+    }
+
+    if (!projectId) {
+      throw new IntegrationRowError(`Site ${building.siteExternalId} has not been imported; include it in the extract`);
+    }
+
+    const assetId = await createAsset({
+      ...values,
+      projectId,
+      assetCode: building.externalId,
+      uniqueId: buildExternalUniqueId(this.source, this.companyId, building.externalId),
+      status: 'active',
+    });
+
+    const created = await getAssetById(assetId, projectId);
+    if (created) this.assetsByExternalId.set(building.externalId, created);
+    return 'created';
+  }
+
+  private async resolveUniformat(componentCode: string) {
+    if (!this.uniformatCache.has(componentCode)) {
+      const database = await getDb();
+      const [component] = database
+        ? await database
+            .select({ id: buildingComponents.id, level: buildingComponents.level })
+            .from(buildingComponents)
+            .where(eq(buildingComponents.code, componentCode))
+            .limit(1)
+        : [];
+      this.uniformatCache.set(componentCode, component ?? null);
+    }
+    return this.uniformatCache.get(componentCode) ?? null;
+  }
+
+  private async loadComponent(component: IntegrationComponent): Promise<'created' | 'updated'> {
+    const database = await getDb();
+    if (!database) throw new Error('Database not available');
+
+    const asset = await this.resolveAsset(component.buildingExternalId);
+    if (!asset) {
+      throw new IntegrationRowError(`Building ${component.buildingExternalId} has not been imported; include it in the extract`);
+    }
+
+    const uniformat = await this.resolveUniformat(component.componentCode);
+    const remainingUsefulLife = component.installYear && component.expectedUsefulLife
+      ? Math.max(0, component.installYear + component.expectedUsefulLife - new Date().getFullYear())
+      : undefined;
+
+    const values = {
+      projectId: asset.projectId,
+      assetId: asset.id,
+      componentCode: component.componentCode,
+      componentName: component.componentName,
+      componentLocation: component.componentLocation ?? undefined,
+      condition: component.condition ?? undefined,
+      expectedUsefulLife: component.expectedUsefulLife ?? undefined,
+      remainingUsefulLife,
+      replacementValue: component.replacementValue != null ? String(component.replacementValue) : undefined,
+      observations: component.observations ?? undefined,
+      uniformatId: uniformat?.id,
+      uniformatLevel: uniformat?.level,
+      uniformatGroup: UNIFORMAT_GROUPS[component.componentCode.charAt(0)],
+      sourceType: uniformat ? 'UNIFORMAT' as const : 'CUSTOM' as const,
+      externalId: component.externalId,
+    };
+
+    const [existing] = await database
+      .select({ id: assessments.id })
+      .from(assessments)
+      .where(and(eq(assessments.assetId, asset.id), eq(assessments.externalId, component.externalId)))
+      .limit(1);
+
+    if (existing) {
+      await database.update(assessments).set(values).where(eq(assessments.id, existing.id));
+      return 'updated';
+    }
+
+    await database.insert(assessments).values({
+      ...values,
+      status: 'initial',
+      assessedAt: new Date().toISOString(),
+    });
+    return 'created';
+  }
+}
+
+/**
+ * Execute an integration run end to end and record it in integration_runs
+ */
+export async function runIntegration(params: {
+  source: IntegrationSource;
+  runType: IntegrationRunType;
+  input: IntegrationInput;
+  companyId: number;
+  triggeredBy: number;
+}): Promise<IntegrationRunResult> {
+  const database = await getDb();
+  if (!database) throw new Error('Database not available');
+
+  const connector = getConnector(params.source);
+
+  const [company] = await database
+    .select({ name: companies.name })
+    .from(companies)
+    .where(eq(companies.id, params.companyId))
+    .limit(1);
+  if (!company) throw new Error('Company not found');
+
+  const since = params.runType === 'incremental'
+    ? await getIncrementalSince(params.source, params.companyId)
+    : null;
+
+  const dropFiles = params.input.kind === 'drop' ? await listDropFiles(params.source, params.companyId) : [];
+  const inputSource = params.input.kind === 'file'
+    ? params.input.fileName
+    : params.input.kind === 'drop'
+      ? dropFiles.map(file => path.basename(file)).join(', ') || getIntegrationDropName(params.source, params.companyId)
+      : params.input.url;
+
+  const insertResult = await database.insert(integrationRuns).values({
+    source: params.source,
+    runType: params.runType,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    companyId: params.companyId,
+    inputKind: params.input.kind,
+    inputSource: inputSource.slice(0, 500),
+    triggeredBy: params.triggeredBy,
+  });
+  const runId = Number(insertResult[0].insertId);
+
+  console.log(`[Integrations] Run ${runId}: ${params.runType} ${params.source} import from ${params.input.kind}${since ? ` since ${since.toISOString()}` : ''}`);
+
+  const failures: IntegrationFailure[] = [];
+  const counters = { extracted: 0, transformed: 0, loaded: 0, created: 0, updated: 0 };
+
+  const finish = async (status: IntegrationRunResult['status'], errorMessage?: string): Promise<IntegrationRunResult> => {
+    await database
+      .update(integrationRuns)
+      .set({
+        status,
+        completedAt: new Date().toISOString(),
+        recordsExtracted: counters.extracted,
+        recordsTransformed: counters.transformed,
+        recordsLoaded: counters.loaded,
+        recordsCreated: counters.created,
+        recordsUpdated: counters.updated,
+        recordsFailed: failures.length,
+        errorMessage: errorMessage ?? null,
+        errorDetails: failures.length > 0 ? JSON.stringify(failures.slice(0, MAX_STORED_FAILURES)) : null,
+      })
+      .where(eq(integrationRuns.id, runId));
+
+    console.log(`[Integrations] Run ${runId} ${status}: ${counters.loaded} loaded (${counters.created} created, ${counters.updated} updated), ${failures.length} failed`);
+
+    return {
+      runId,
+      status,
+      runType: params.runType,
+      since: since?.toISOString() ?? null,
+      recordsExtracted: counters.extracted,
+      recordsTransformed: counters.transformed,
+      recordsLoaded: counters.loaded,
+      recordsCreated: counters.created,
+      recordsUpdated: counters.updated,
+      recordsFailed: failures.length,
+      failures,
+      errorMessage,
+    };
+  };
+
+  // Extract
+  let rawRecords: RawIntegrationRecord[] = [];
+  try {
+    if (params.input.kind === 'file') {
+      rawRecords = parseIntegrationFile(connector, params.input.fileName, params.input.content);
+    } else if (params.input.kind === 'drop') {
+      if (dropFiles.length === 0) {
+        return finish('failed', `No ${SUPPORTED_FILE_EXTENSIONS.join('/')} files found in ${getIntegrationDropName(params.source, params.companyId)}`);
+      }
+      for (const file of dropFiles) {
+        const parsed = parseIntegrationFile(connector, path.basename(file), await fs.readFile(file));
+        rawRecords.push(...parsed.map(record => ({ ...record, rowNumber: rawRecords.length + record.rowNumber })));
+      }
+    } else {
+      rawRecords = await fetchEndpointRecords(connector, params.input.url, since);
+    }
+  } catch (error: any) {
+    console.error(`[Integrations] Run ${runId} extract failed:`, error);
+    failures.push({ row: null, recordType: null, externalId: null, stage: 'extract', message: error.message });
+    return finish('failed', `Extract failed: ${error.message}`);
+  }
+
+  const changedRecords = filterModifiedSince(connector, rawRecords, since);
+  counters.extracted = changedRecords.length;
+
+  // Transform
+  const mapped: Array<{ raw: RawIntegrationRecord; record: IntegrationRecord }> = [];
+  for (const raw of changedRecords) {
+    try {
+      const record = connector.transform(raw);
+      if (record) mapped.push({ raw, record });
+      counters.transformed++;
+    } catch (error: any) {
+      failures.push({
+        row: raw.rowNumber,
+        recordType: raw.recordType,
+        externalId: getRecordExternalId(connector, raw),
+        stage: 'transform',
+        message: error.message,
+      });
+    }
+  }
+
+  // Load parents before children so new buildings can find their site
+  mapped.sort((a, b) => LOAD_ORDER[a.record.kind] - LOAD_ORDER[b.record.kind] || a.raw.rowNumber - b.raw.rowNumber);
+
+  const loader = new IntegrationLoader(params.source, params.companyId, company.name, params.triggeredBy, runId);
+  for (const { raw, record } of mapped) {
+    try {
+      const outcome = await loader.load(record);
+      counters.loaded++;
+      counters[outcome]++;
+    } catch (error: any) {
+      if (!(error instanceof IntegrationRowError)) {
+        console.error(`[Integrations] Run ${runId} failed to load row ${raw.rowNumber}:`, error);
+      }
+      failures.push({
+        row: raw.rowNumber,
+        recordType: raw.recordType,
+        externalId: record.externalId,
+        stage: 'load',
+        message: error.message,
+      });
+    }
+  }
+
+  if (params.input.kind === 'drop') {
+    try {
+      await archiveDropFiles(params.source, params.companyId, dropFiles, runId);
+    } catch (error) {
+      console.error(`[Integrations] Run ${runId} could not archive drop files:`, error);
+    }
+  }
+
+  const status = failures.length === 0 ? 'success' : counters.loaded > 0 ? 'partial' : 'failed';
+  return finish(status, failures.length > 0 ? `${failures.length} row(s) failed` : undefined);
+}
+
+/**
+ * Recent runs for a company, newest first
+ */
+export async function getIntegrationRuns(companyId: number | null, options: {
+  source?: IntegrationSource;
+  limit?: number;
+} = {}): Promise<IntegrationRun[]> {
+  const database = await getDb();
+  if (!database) return [];
+
+  const conditions = [];
+  if (companyId != null) conditions.push(eq(integrationRuns.companyId, companyId));
+  if (options.source) conditions.push(eq(integrationRuns.source, options.source));
+
+  return database
+    .select()
+    .from(integrationRuns)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(integrationRuns.startedAt))
+    .limit(options.limit ?? 50);
+}
+
+/**
+ * Parse the failed rows stored on a run
+ */
+export function parseRunFailures(run: Pick<IntegrationRun, 'errorDetails'>): IntegrationFailure[] {
+  if (!run.errorDetails) return [];
+  try {
+    const failures = JSON.parse(run.errorDetails);
+    return Array.isArray(failures) ? failures : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * SAP Plant Maintenance Connector
+ * Maps SAP PM functional locations (IFLOT) and equipment (EQUI) onto projects, assets and assessments
+ *
+ * Functional locations follow the structure indicator SITE-BUILDING[-FLOOR[-ROOM]]:
+ * level 1 is loaded as a project, level 2 as an asset, and deeper levels only
+ * locate equipment within their building. Equipment is loaded as an assessment.
+ */
+
+import {
+  IntegrationRowError,
+  getNumber,
+  getText,
+  getYear,
+  normalizeCondition,
+  registerConnector,
+  requireText,
+  type AssetConnector,
+  type IntegrationRecord,
+  type RawIntegrationRecord,
+} from "./connector";
+
+const FUNCTIONAL_LOCATION = 'functional_location';
+const EQUIPMENT = 'equipment';
+
+const SEGMENT_SEPARATOR = '-';
+
+function splitFunctionalLocation(tplnr: string): string[] {
+  return tplnr.split(SEGMENT_SEPARATOR).map(segment => segment.trim()).filter(Boolean);
+}
+
+function formatAddress(data: Record<string, unknown>): string | null {
+  const houseNumber = getText(data, 'HOUSE_NUM1');
+  const street = getText(data, 'STREET');
+  if (!street) return null;
+  return houseNumber ? `${houseNumber} ${street}` : street;
+}
+
+function transformFunctionalLocation(data: Record<string, unknown>): IntegrationRecord | null {
+  const tplnr = requireText(data, 'TPLNR', 'FunctionalLocation');
+  const segments = splitFunctionalLocation(tplnr);
+  const name = getText(data, 'PLTXT', 'FunctionalLocationName') ?? tplnr;
+
+  const location = {
+    address: formatAddress(data),
+    city: getText(data, 'CITY1'),
+    province: getText(data, 'REGION'),
+    postalCode: getText(data, 'POST_CODE1'),
+    yearBuilt: getYear(data, 'BAUJJ'),
+  };
+
+  if (segments.length === 1) {
+    return { kind: 'site', externalId: segments[0], name, ...location };
+  }
+
+  if (segments.length === 2) {
+    return {
+      kind: 'building',
+      externalId: segments.join(SEGMENT_SEPARATOR),
+      siteExternalId: segments[0],
+      name,
+      ...location,
+      squareFootage: getNumber(data, 'GROES_AREA', 'ZZ_GROSS_AREA'),
+      numberOfFloors: getNumber(data, 'ZZ_FLOORS'),
+      replacementValue: getNumber(data, 'ZZ_REPLACEMENT_VALUE'),
+      primaryUse: getText(data, 'FLTYP_TEXT', 'ZZ_PRIMARY_USE'),
+    };
+  }
+
+  // Floors and rooms only locate equipment inside a building
+  return null;
+}
+
+function transformEquipment(data: Record<string, unknown>): IntegrationRecord {
+  const equnr = requireText(data, 'EQUNR', 'Equipment');
+  const tplnr = requireText(data, 'TPLNR', 'FunctionalLocation');
+  const segments = splitFunctionalLocation(tplnr);
+  if (segments.length < 2) {
+    throw new IntegrationRowError(`Equipment ${equnr} is installed at site level (${tplnr}); it must be within a building`);
+  }
+
+  const componentCode = getText(data, 'ZZ_UNIFORMAT', 'UniformatCode');
+  if (!componentCode) {
+    throw new IntegrationRowError(`Equipment ${equnr} has no UNIFORMAT classification (ZZ_UNIFORMAT)`);
+  }
+  if (!/^[A-G]\d{0,6}$/i.test(componentCode)) {
+    throw new IntegrationRowError(`Equipment ${equnr} has an invalid UNIFORMAT code "${componentCode}"`);
+  }
+
+  const installYear = getYear(data, 'INBDT', 'BAUJJ');
+  const usefulLife = getNumber(data, 'ZZ_USEFUL_LIFE');
+
+  return {
+    kind: 'component',
+    externalId: equnr,
+    buildingExternalId: segments.slice(0, 2).join(SEGMENT_SEPARATOR),
+    componentCode: componentCode.toUpperCase(),
+    componentName: getText(data, 'EQKTX', 'EquipmentName') ?? equnr,
+    componentLocation: segments.length > 2 ? segments.slice(2).join(SEGMENT_SEPARATOR) : null,
+    condition: normalizeCondition(getText(data, 'ZZ_CONDITION')),
+    installYear,
+    expectedUsefulLife: usefulLife != null ? Math.round(usefulLife) : null,
+    replacementValue: getNumber(data, 'ZZ_REPLACEMENT_VALUE', 'ANSWT'),
+    observations: getText(data, 'ZZ_NOTES'),
+  };
+}
+
+export const sapConnector: AssetConnector = {
+  source: 'sap',
+  label: 'SAP Plant Maintenance',
+  recordTypeAliases: {
+    'functional_location': FUNCTIONAL_LOCATION,
+    'functionallocations': FUNCTIONAL_LOCATION,
+    'functional locations': FUNCTIONAL_LOCATION,
+    'iflot': FUNCTIONAL_LOCATION,
+    'floc': FUNCTIONAL_LOCATION,
+    'equipment': EQUIPMENT,
+    'equi': EQUIPMENT,
+  },
+  recordTypeField: 'RECORD_TYPE',
+  externalIdFields: ['EQUNR', 'Equipment', 'TPLNR', 'FunctionalLocation'],
+  modifiedAtFields: ['AEDAT', 'ChangedOn', 'ERDAT'],
+
+  transform(record: RawIntegrationRecord) {
+    switch (record.recordType) {
+      case FUNCTIONAL_LOCATION:
+        return transformFunctionalLocation(record.data);
+      case EQUIPMENT:
+        return transformEquipment(record.data);
+      default:
+        throw new IntegrationRowError('Unknown record type; expected a functional location or equipment record');
+    }
+  },
+
+  sampleData() {
+    return {
+      functionalLocations: [
+        { TPLNR: 'TOR1', PLTXT: 'Toronto Civic Campus', STREET: 'Queen St W', HOUSE_NUM1: '100', CITY1: 'Toronto', REGION: 'ON', POST_CODE1: 'M5H 2N2', AEDAT: '20260105' },
+        { TPLNR: 'TOR1-B001', PLTXT: 'City Hall East Tower', STREET: 'Queen St W', HOUSE_NUM1: '100', CITY1: 'Toronto', REGION: 'ON', POST_CODE1: 'M5H 2N2', BAUJJ: '1965', ZZ_GROSS_AREA: '420000', ZZ_FLOORS: '27', ZZ_REPLACEMENT_VALUE: '385000000', FLTYP_TEXT: 'Office', AEDAT: '20260105' },
+        { TPLNR: 'TOR1-B001-F01', PLTXT: 'Ground Floor', AEDAT: '20260105' },
+      ],
+      equipment: [
+        { EQUNR: '000000010000123', EQKTX: 'Rooftop Air Handling Unit AHU-1', TPLNR: 'TOR1-B001', ZZ_UNIFORMAT: 'D3040', INBDT: '20040615', ZZ_USEFUL_LIFE: '25', ZZ_CONDITION: '3', ZZ_REPLACEMENT_VALUE: '850000', AEDAT: '20260210' },
+        { EQUNR: '000000010000124', EQKTX: 'Passenger Elevator No. 2', TPLNR: 'TOR1-B001-F01', ZZ_UNIFORMAT: 'D1010', INBDT: '19980301', ZZ_USEFUL_LIFE: '30', ZZ_CONDITION: '4', ZZ_REPLACEMENT_VALUE: '420000', AEDAT: '20260212' },
+      ],
+    };
+  },
+};
+
+registerConnector(sapConnector);
@@ -0,0 +1,140 @@
+/**
+ * IBM TRIRIGA Connector
+ * Maps TRIRIGA properties, buildings and assets onto projects, assets and assessments
+ *
+ * Records use the standard TRIRIGA business-object field names (triIdTX, triNameTX, ...),
+ * as returned by the OSLC/report REST services or an exported Data Integrator sheet.
+ */
+
+import {
+  IntegrationRowError,
+  getNumber,
+  getText,
+  getYear,
+  normalizeCondition,
+  registerConnector,
+  requireText,
+  type AssetConnector,
+  type IntegrationRecord,
+  type RawIntegrationRecord,
+} from "./connector";
+
+const PROPERTY = 'property';
+const BUILDING = 'building';
+const ASSET = 'asset';
+
+function getLocation(data: Record<string, unknown>) {
+  return {
+    address: getText(data, 'triAddressTX'),
+    city: getText(data, 'triCityTX'),
+    province: getText(data, 'triStateProvTX'),
+    postalCode: getText(data, 'triZipPostalTX'),
+    yearBuilt: getYear(data, 'triYearBuiltNU', 'triYearBuiltTX'),
+  };
+}
+
+function transformProperty(data: Record<string, unknown>): IntegrationRecord {
+  const externalId = requireText(data, 'triIdTX');
+  return {
+    kind: 'site',
+    externalId,
+    name: getText(data, 'triNameTX') ?? externalId,
+    ...getLocation(data),
+  };
+}
+
+function transformBuilding(data: Record<string, unknown>): IntegrationRecord {
+  const externalId = requireText(data, 'triIdTX');
+  return {
+    kind: 'building',
+    externalId,
+    siteExternalId: requireText(data, 'triParentPropertyTX', 'triPropertyIdTX'),
+    name: getText(data, 'triNameTX') ?? externalId,
+    ...getLocation(data),
+    squareFootage: getNumber(data, 'triGrossAreaNU'),
+    numberOfFloors: getNumber(data, 'triNumberOfFloorsNU'),
+    replacementValue: getNumber(data, 'triReplacementCostNU'),
+    primaryUse: getText(data, 'triPrimaryUseLI', 'triBuildingUseLI'),
+  };
+}
+
+function transformAsset(data: Record<string, unknown>): IntegrationRecord {
+  const externalId = requireText(data, 'triIdTX');
+
+  const componentCode = getText(data, 'triUniformatCodeTX', 'triUniformatLI');
+  if (!componentCode) {
+    throw new IntegrationRowError(`Asset ${externalId} has no UNIFORMAT classification (triUniformatCodeTX)`);
+  }
+  if (!/^[A-G]\d{0,6}$/i.test(componentCode)) {
+    throw new IntegrationRowError(`Asset ${externalId} has an invalid UNIFORMAT code "${componentCode}"`);
+  }
+
+  const floor = getText(data, 'triFloorTX');
+  const space = getText(data, 'triSpaceTX');
+  const usefulLife = getNumber(data, 'triExpectedLifeNU');
+
+  return {
+    kind: 'component',
+    externalId,
+    buildingExternalId: requireText(data, 'triParentBuildingTX', 'triBuildingIdTX'),
+    componentCode: componentCode.toUpperCase(),
+    componentName: getText(data, 'triNameTX') ?? externalId,
+    componentLocation: [floor, space].filter(Boolean).join(' / ') || null,
+    condition: normalizeCondition(getText(data, 'triConditionLI', 'triConditionIndexNU')),
+    installYear: getYear(data, 'triInstallDA', 'triInServiceDA'),
+    expectedUsefulLife: usefulLife != null ? Math.round(usefulLife) : null,
+    replacementValue: getNumber(data, 'triReplacementCostNU'),
+    observations: getText(data, 'triDescriptionTX'),
+  };
+}
+
+export const tririgaConnector: AssetConnector = {
+  source: 'tririga',
+  label: 'IBM TRIRIGA',
+  recordTypeAliases: {
+    'property': PROPERTY,
+    'properties': PROPERTY,
+    'triproperty': PROPERTY,
+    'building': BUILDING,
+    'buildings': BUILDING,
+    'tribuilding': BUILDING,
+    'asset': ASSET,
+    'assets': ASSET,
+    'triasset': ASSET,
+    'equipment': ASSET,
+    'triequipment': ASSET,
+  },
+  recordTypeField: 'triRecordTypeTX',
+  externalIdFields: ['triIdTX'],
+  modifiedAtFields: ['triModifiedSY', 'triModifiedDA', 'triCreatedSY'],
+
+  transform(record: RawIntegrationRecord) {
+    switch (record.recordType) {
+      case PROPERTY:
+        return transformProperty(record.data);
+      case BUILDING:
+        return transformBuilding(record.data);
+      case ASSET:
+        return transformAsset(record.data);
+      default:
+        throw new IntegrationRowError('Unknown record type; expected a property, building or asset record');
+    }
+  },
+
+  sampleData() {
+    return {
+      properties: [
+        { triIdTX: 'P-1001', triNameTX: 'Ottawa Government Precinct', triAddressTX: '90 Elgin St', triCityTX: 'Ottawa', triStateProvTX: 'ON', triZipPostalTX: 'K1P 5E9', triModifiedSY: '2026-01-08T14:00:00Z' },
+      ],
+      buildings: [
+        { triIdTX: 'B-2001', triNameTX: 'Elgin Street Office Building', triParentPropertyTX: 'P-1001', triAddressTX: '90 Elgin St', triCityTX: 'Ottawa', triStateProvTX: 'ON', triZipPostalTX: 'K1P 5E9', triYearBuiltNU: 1978, triGrossAreaNU: 215000, triNumberOfFloorsNU: 12, triReplacementCostNU: 142000000, triPrimaryUseLI: 'Office', triModifiedSY: '2026-01-08T14:00:00Z' },
+      ],
+      assets: [
+        { triIdTX: 'A-30001', triNameTX: 'Chiller CH-1', triParentBuildingTX: 'B-2001', triUniformatCodeTX: 'D3030', triFloorTX: 'Mechanical Penthouse', triConditionLI: 'Fair', triInstallDA: '2003-09-01', triExpectedLifeNU: 23, triReplacementCostNU: 620000, triModifiedSY: '2026-02-11T09:30:00Z' },
+        { triIdTX: 'A-30002', triNameTX: 'Built-up Roof Membrane', triParentBuildingTX: 'B-2001', triUniformatCodeTX: 'B3010', triConditionIndexNU: 42, triInstallDA: '1996-06-15', triExpectedLifeNU: 25, triReplacementCostNU: 1150000, triModifiedSY: '2026-02-11T09:30:00Z' },
+      ],
+    };
+  },
+};
+
+registerConnector(tririgaConnector);
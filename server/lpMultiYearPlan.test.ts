@@ -0,0 +1,126 @@
+/**
+ * Tests for the multi-year capital plan optimizer
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  costInYear,
+  planToBudgetAllocations,
+  priceMultiYearPlanItems,
+  solveMultiYearPlan,
+  type MultiYearCandidate,
+} from "./services/lpOptimizer.service";
+
+function candidate(key: string, cost: number, deteriorationRate: number, riskWeight = 0): MultiYearCandidate {
+  const [type, id] = key.split(":");
+  return {
+    key,
+    type: type as MultiYearCandidate["type"],
+    id: Number(id),
+    projectId: 1,
+    name: key,
+    cost,
+    deteriorationRate,
+    riskWeight,
+    priorityScore: 0,
+  };
+}
+
+const settings = {
+  startYear: 2026,
+  annualBudgets: [100000, 100000, 100000],
+  inflationRate: 0,
+  escalationRate: 0,
+};
+
+const fundedYear = (plan: ReturnType<typeof solveMultiYearPlan>, key: string) =>
+  plan.years.find(y => y.items.some(item => item.key === key))?.year;
+
+describe("multi-year capital plan optimizer", () => {
+  it("should escalate cost by inflation, escalation and deterioration", () => {
+    const cost = costInYear({ cost: 1000, deteriorationRate: 0.1 }, 2, 2, 1);
+    expect(cost).toBeCloseTo(1000 * Math.pow(1.03 * 1.1, 2), 6);
+  });
+
+  it("should fund fast-deteriorating needs first when budget is tight", () => {
+    const plan = solveMultiYearPlan(
+      [candidate("deficiency:1", 90000, 0.02), candidate("deficiency:2", 90000, 0.1)],
+      settings
+    );
+
+    expect(fundedYear(plan, "deficiency:2")).toBe(2026);
+    expect(fundedYear(plan, "deficiency:1")).toBe(2027);
+    expect(plan.years[1].items[0].deferralCost).toBeCloseTo(1800, 6);
+    expect(plan.unfunded).toEqual([]);
+    expect(plan.years.every(y => y.allocated <= y.budget)).toBe(true);
+  });
+
+  it("should not fund an item before the item it depends on", () => {
+    const plan = solveMultiYearPlan(
+      [candidate("project:1", 90000, 0.02), candidate("project:2", 90000, 0.1)],
+      { ...settings, precedence: [{ before: "project:1", after: "project:2" }] }
+    );
+
+    expect(fundedYear(plan, "project:1")).toBe(2026);
+    expect(fundedYear(plan, "project:2")).toBe(2027);
+  });
+
+  it("should fund must-fund items by their deadline", () => {
+    const plan = solveMultiYearPlan(
+      [candidate("deficiency:1", 90000, 0.1, 0.1), candidate("deficiency:2", 90000, 0)],
+      { ...settings, annualBudgets: [100000, 100000], mustFund: [{ key: "deficiency:2", byYear: 2026 }] }
+    );
+
+    expect(fundedYear(plan, "deficiency:2")).toBe(2026);
+    expect(fundedYear(plan, "deficiency:1")).toBe(2027);
+  });
+
+  it("should report needs that do not fit the horizon with their grown cost", () => {
+    const plan = solveMultiYearPlan(
+      [candidate("deficiency:1", 90000, 0.1), candidate("deficiency:2", 95000, 0.1)],
+      { ...settings, annualBudgets: [100000] }
+    );
+
+    expect(plan.unfunded).toHaveLength(1);
+    expect(plan.unfunded[0].costAfterHorizon).toBeCloseTo(plan.unfunded[0].baseCost * 1.1, 6);
+  });
+
+  it("should reject must-fund rules the yearly limits cannot meet", () => {
+    expect(() =>
+      solveMultiYearPlan([candidate("deficiency:1", 150000, 0)], {
+        ...settings,
+        mustFund: [{ key: "deficiency:1" }],
+      })
+    ).toThrow(/No feasible multi-year plan/);
+    expect(() =>
+      solveMultiYearPlan([candidate("deficiency:1", 1000, 0)], {
+        ...settings,
+        precedence: [{ before: "deficiency:9", after: "deficiency:1" }],
+      })
+    ).toThrow(/Unknown plan item/);
+  });
+
+  it("should roll plan items up into one allocation per project and year", () => {
+    const allocations = planToBudgetAllocations(7, [
+      { type: "deficiency", id: 1, projectId: 3, name: "Roof leak", year: 2027, fundedCost: 1000 },
+      { type: "deficiency", id: 2, projectId: 3, name: "Boiler", year: 2027, fundedCost: 2500.5 },
+      { type: "project", id: 4, projectId: 4, name: "Library", year: 2026, fundedCost: 500 },
+    ]);
+
+    expect(allocations).toHaveLength(2);
+    expect(allocations[0]).toMatchObject({ projectId: 4, year: 2026, priority: 1, status: "proposed" });
+    expect(allocations[1]).toMatchObject({ projectId: 3, year: 2027, allocatedAmount: "3500.50", priority: 2 });
+    expect(allocations[1].justification).toContain("2 deficiencies (Roof leak, Boiler)");
+  });
+
+  it("should price saved plan items from the candidates, not from the request", () => {
+    const cycle = { startYear: 2026, endYear: 2028, inflationRate: 0, escalationRate: 0 };
+    const [item] = priceMultiYearPlanItems([candidate("deficiency:5", 1000, 0.1)], [{ type: "deficiency", id: 5, year: 2028 }], cycle);
+
+    expect(item).toMatchObject({ key: "deficiency:5", projectId: 1, baseCost: 1000 });
+    expect(item.fundedCost).toBeCloseTo(1210, 5);
+    expect(() => priceMultiYearPlanItems([], [{ type: "project", id: 9, year: 2026 }], cycle)).toThrow("not available");
+    expect(() => priceMultiYearPlanItems([candidate("project:9", 1, 0)], [{ type: "project", id: 9, year: 2030 }], cycle))
+      .toThrow("outside the cycle years");
+  });
+});
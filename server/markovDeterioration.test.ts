@@ -0,0 +1,137 @@
+/**
+ * Tests for the Markov condition-state deterioration model
+ * Tests state mapping, prior matrices, calibration from observations and long-horizon prediction
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  FAILED_STATE,
+  buildPriorMatrix,
+  calibrateTransitionMatrix,
+  conditionToState,
+  estimateYearsToFailure,
+  getPriorModel,
+  getTypicalServiceLife,
+  parseObservedCondition,
+  predictConditionDistribution,
+  predictWithMarkov,
+  stateToCondition,
+  type ConditionObservation,
+} from "./markovDeteriorationService";
+
+const rowSums = (matrix: number[][]) => matrix.map(row => row.reduce((sum, v) => sum + v, 0));
+
+describe("Markov deterioration model", () => {
+  describe("condition states", () => {
+    it("should map percentages to five condition bands", () => {
+      expect(conditionToState(95)).toBe(0);
+      expect(conditionToState(80)).toBe(1);
+      expect(conditionToState(55)).toBe(2);
+      expect(conditionToState(25)).toBe(3);
+      expect(conditionToState(20)).toBe(FAILED_STATE);
+      expect(conditionToState(-5)).toBe(FAILED_STATE);
+      expect(stateToCondition(0)).toBe(90);
+      expect(stateToCondition(FAILED_STATE)).toBe(10);
+    });
+
+    it("should parse recorded percentages and labels", () => {
+      expect(parseObservedCondition("72")).toBe(72);
+      expect(parseObservedCondition("65%")).toBe(65);
+      expect(parseObservedCondition("Poor")).toBe(30);
+      expect(parseObservedCondition("not_assessed")).toBeNull();
+      expect(parseObservedCondition(null)).toBeNull();
+    });
+
+    it("should look up service life by class, then group", () => {
+      expect(getTypicalServiceLife("B3010")).toBe(25);
+      expect(getTypicalServiceLife("B1099")).toBe(75);
+      expect(getTypicalServiceLife("D9999")).toBe(25);
+      expect(getTypicalServiceLife("Z1000")).toBe(30);
+    });
+  });
+
+  describe("buildPriorMatrix", () => {
+    it("should produce stochastic rows with an absorbing failed state", () => {
+      const matrix = buildPriorMatrix(40);
+      rowSums(matrix).forEach(sum => expect(sum).toBeCloseTo(1));
+      expect(matrix[FAILED_STATE][FAILED_STATE]).toBe(1);
+      expect(matrix[0][1]).toBeCloseTo(0.1);
+    });
+
+    it("should put the median failure near the service life for long-lived components", () => {
+      const years = estimateYearsToFailure(buildPriorMatrix(40), 0);
+      expect(years).toBeGreaterThan(30);
+      expect(years).toBeLessThan(45);
+    });
+  });
+
+  describe("calibrateTransitionMatrix", () => {
+    it("should fall back to the prior without observations", () => {
+      const model = calibrateTransitionMatrix("B30", []);
+      expect(model.sampleSize).toBe(0);
+      const prior = buildPriorMatrix(25);
+      model.matrix.forEach((row, i) => row.forEach((p, j) => expect(p).toBeCloseTo(prior[i][j])));
+    });
+
+    it("should speed up deterioration when observations drop faster than the prior", () => {
+      const observations: ConditionObservation[] = [];
+      for (let i = 0; i < 10; i++) {
+        observations.push(
+          { sequenceKey: `c${i}`, observedAt: "2015-01-01", condition: 90 },
+          { sequenceKey: `c${i}`, observedAt: "2017-01-01", condition: 50 },
+        );
+      }
+      const model = calibrateTransitionMatrix("B20", observations);
+
+      expect(model.sampleSize).toBe(10);
+      expect(model.observationYears).toBe(20);
+      expect(model.matrix[0][1]).toBeGreaterThan(buildPriorMatrix(40)[0][1]);
+      rowSums(model.matrix).forEach(sum => expect(sum).toBeCloseTo(1));
+    });
+
+    it("should skip improvements and observations too close together", () => {
+      const model = calibrateTransitionMatrix("D30", [
+        { sequenceKey: "a", observedAt: "2020-01-01", condition: 30 },
+        { sequenceKey: "a", observedAt: "2022-01-01", condition: 95 },
+        { sequenceKey: "a", observedAt: "2022-02-01", condition: 70 },
+      ]);
+      expect(model.sampleSize).toBe(0);
+    });
+  });
+
+  describe("predictConditionDistribution", () => {
+    it("should keep probabilities normalized over long horizons", () => {
+      const points = predictConditionDistribution(buildPriorMatrix(60), 0, 80);
+      expect(points).toHaveLength(81);
+      points.forEach(p => expect(p.probabilities.reduce((a, b) => a + b, 0)).toBeCloseTo(1));
+      expect(points[80].probabilityFailed).toBeGreaterThan(points[40].probabilityFailed);
+      expect(points[80].expectedCondition).toBeLessThan(points[0].expectedCondition);
+    });
+
+    it("should cap the horizon", () => {
+      expect(predictConditionDistribution(buildPriorMatrix(30), 0, 500)).toHaveLength(101);
+    });
+  });
+
+  describe("predictWithMarkov", () => {
+    it("should project from the latest observation", () => {
+      const model = getPriorModel("B3010");
+      const prediction = predictWithMarkov(model, 1990, { year: 2026, condition: 35 }, 2026, 30);
+
+      expect(prediction.currentState).toBe(3);
+      expect(prediction.currentConditionEstimate).toBe(35);
+      expect(prediction.predictedFailureYear).toBeGreaterThan(2026);
+      expect(prediction.predictedRemainingLife).toBeLessThan(10);
+      expect(prediction.distribution).toHaveLength(31);
+    });
+
+    it("should age an as-new component from its install year", () => {
+      const model = getPriorModel("B2010");
+      const young = predictWithMarkov(model, 2020, null, 2026);
+      const old = predictWithMarkov(model, 1980, null, 2026);
+
+      expect(young.currentConditionEstimate).toBeGreaterThan(old.currentConditionEstimate);
+      expect(young.predictedRemainingLife).toBeGreaterThan(old.predictedRemainingLife);
+    });
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Markov Deterioration Service
+ *
+ * Condition-state deterioration model for long-lived components. Instead of
+ * interpolating six yearly curve points, each UNIFORMAT component class gets a
+ * yearly transition-probability matrix between discrete condition states. The
+ * matrix starts from a service-life prior and is calibrated from the condition
+ * observations recorded in assessment version snapshots and component history.
+ */
+
+import * as markovDb from "./db/markovDeterioration.db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TransitionMatrix = number[][];
+
+export interface ConditionState {
+  state: number;
+  label: string;
+  min: number; // Condition percentage (inclusive lower bound)
+  max: number;
+}
+
+export interface ConditionObservation {
+  sequenceKey: string; // Observations sharing a key describe the same physical component
+  observedAt: string | Date;
+  condition: number; // Percentage
+}
+
+export interface MarkovModel {
+  componentClass: string;
+  serviceLife: number;
+  matrix: TransitionMatrix;
+  sampleSize: number; // Observation pairs used for calibration
+  observationYears: number;
+}
+
+export interface ConditionDistributionPoint {
+  yearOffset: number;
+  probabilities: number[];
+  expectedCondition: number;
+  probabilityFailed: number;
+}
+
+export interface MarkovPrediction {
+  currentState: number;
+  currentConditionEstimate: number;
+  predictedFailureYear: number;
+  predictedRemainingLife: number;
+  deteriorationRate: number; // Expected percentage points lost per year
+  distribution: ConditionDistributionPoint[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CONDITION_STATES: ConditionState[] = [
+  { state: 0, label: "Excellent", min: 80, max: 100 },
+  { state: 1, label: "Good", min: 60, max: 80 },
+  { state: 2, label: "Fair", min: 40, max: 60 },
+  { state: 3, label: "Poor", min: 20, max: 40 },
+  { state: 4, label: "Critical", min: 0, max: 20 },
+];
+
+export const FAILED_STATE = CONDITION_STATES.length - 1;
+export const MAX_HORIZON_YEARS = 100;
+
+const MIN_INTERVAL_YEARS = 0.5;
+const DEFAULT_PRIOR_STRENGTH = 5;
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Typical service lives (years) by UNIFORMAT class, used to build the prior
+ * matrix. Looked up by three-character class, then by major group letter.
+ */
+export const TYPICAL_SERVICE_LIFE: Record<string, number> = {
+  A10: 75, A20: 75,
+  B10: 75, B20: 40, B30: 25,
+  C10: 30, C20: 40, C30: 15,
+  D10: 25, D20: 30, D30: 25, D40: 30, D50: 30,
+  E10: 15, E20: 15,
+  F10: 40, F20: 30,
+  G10: 30, G20: 25, G30: 40, G40: 30,
+  A: 75, B: 40, C: 20, D: 25, E: 15, F: 40, G: 30,
+  default: 30,
+};
+
+const CONDITION_LABELS: Record<string, number> = {
+  excellent: 90,
+  good: 70,
+  fair: 50,
+  poor: 30,
+  critical: 10,
+  failed: 10,
+};
+
+// ============================================================================
+// Condition states
+// ============================================================================
+
+/**
+ * Get the UNIFORMAT class for a component code (e.g., "B30" from "B3010")
+ */
+export function getUniformatClass(componentCode: string): string {
+  return componentCode.trim().toUpperCase().substring(0, 3);
+}
+
+/**
+ * Get the typical service life for a component class
+ */
+export function getTypicalServiceLife(componentCode: string): number {
+  const componentClass = getUniformatClass(componentCode);
+  return TYPICAL_SERVICE_LIFE[componentClass]
+    ?? TYPICAL_SERVICE_LIFE[componentClass.charAt(0)]
+    ?? TYPICAL_SERVICE_LIFE.default;
+}
+
+/**
+ * Map a condition percentage to its condition state
+ */
+export function conditionToState(condition: number): number {
+  const clamped = Math.max(0, Math.min(100, condition));
+  const index = CONDITION_STATES.findIndex(s => clamped > s.min);
+  return index === -1 ? FAILED_STATE : index;
+}
+
+/**
+ * Representative condition percentage for a state (band midpoint)
+ */
+export function stateToCondition(state: number): number {
+  const s = CONDITION_STATES[Math.max(0, Math.min(FAILED_STATE, state))];
+  return (s.min + s.max) / 2;
+}
+
+/**
+ * Parse a recorded condition value (percentage or label) into a percentage
+ */
+export function parseObservedCondition(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+
+  const text = String(value).trim().toLowerCase().replace(/%$/, "");
+  const numeric = Number(text);
+  if (text !== "" && Number.isFinite(numeric)) return numeric;
+
+  return CONDITION_LABELS[text] ?? null;
+}
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+/**
+ * Build the prior matrix for a service life: a component steps down one state
+ * at a time and spends an equal share of its life in each non-failed state.
+ */
+export function buildPriorMatrix(serviceLife: number): TransitionMatrix {
+  const steps = FAILED_STATE;
+  const stay = Math.max(0, 1 - steps / Math.max(serviceLife, steps));
+
+  return CONDITION_STATES.map((_, from) =>
+    CONDITION_STATES.map((_, to) => {
+      if (from === FAILED_STATE) return to === FAILED_STATE ? 1 : 0;
+      if (to === from) return stay;
+      if (to === from + 1) return 1 - stay;
+      return 0;
+    })
+  );
+}
+
+/**
+ * Calibrate a transition matrix from condition observations.
+ *
+ * Consecutive observations of the same component are turned into yearly
+ * transition counts: an i → j change over t years contributes one step along
+ * each state in between and t − (j − i) years of staying in state i. Pairs
+ * that improve are treated as interventions and skipped. Counts are blended
+ * with the prior so sparse classes stay close to the typical service life.
+ */
+export function calibrateTransitionMatrix(
+  componentClass: string,
+  observations: ConditionObservation[],
+  priorStrength: number = DEFAULT_PRIOR_STRENGTH
+): MarkovModel {
+  const serviceLife = getTypicalServiceLife(componentClass);
+  const prior = buildPriorMatrix(serviceLife);
+  const counts = CONDITION_STATES.map(() => CONDITION_STATES.map(() => 0));
+
+  const sequences = new Map<string, { time: number; state: number }[]>();
+  for (const obs of observations) {
+    const time = new Date(obs.observedAt).getTime();
+    if (!Number.isFinite(time) || !Number.isFinite(obs.condition)) continue;
+    if (!sequences.has(obs.sequenceKey)) sequences.set(obs.sequenceKey, []);
+    sequences.get(obs.sequenceKey)!.push({ time, state: conditionToState(obs.condition) });
+  }
+
+  let sampleSize = 0;
+  let observationYears = 0;
+
+  for (const points of Array.from(sequences.values())) {
+    points.sort((a, b) => a.time - b.time);
+
+    let start = points[0];
+    for (let i = 1; i < points.length; i++) {
+      const end = points[i];
+      const years = (end.time - start.time) / YEAR_MS;
+      if (years < MIN_INTERVAL_YEARS) continue;
+
+      if (end.state >= start.state) {
+        const steps = Math.max(1, Math.round(years));
+        const moves = end.state - start.state;
+        for (let s = start.state; s < end.state; s++) counts[s][s + 1] += 1;
+        if (start.state !== FAILED_STATE) counts[start.state][start.state] += Math.max(0, steps - moves);
+        sampleSize++;
+        observationYears += years;
+      }
+      start = end;
+    }
+  }
+
+  const matrix = prior.map((priorRow, from) => {
+    if (from === FAILED_STATE) return priorRow;
+    const blended = priorRow.map((p, to) => counts[from][to] + p * priorStrength);
+    const total = blended.reduce((sum, v) => sum + v, 0);
+    return blended.map(v => v / total);
+  });
+
+  return {
+    componentClass,
+    serviceLife,
+    matrix,
+    sampleSize,
+    observationYears: Math.round(observationYears * 10) / 10,
+  };
+}
+
+/**
+ * Prior-only model for a component class (no calibration data)
+ */
+export function getPriorModel(componentCode: string): MarkovModel {
+  const componentClass = getUniformatClass(componentCode);
+  const serviceLife = getTypicalServiceLife(componentClass);
+  return {
+    componentClass,
+    serviceLife,
+    matrix: buildPriorMatrix(serviceLife),
+    sampleSize: 0,
+    observationYears: 0,
+  };
+}
+
+// ============================================================================
+// Prediction
+// ============================================================================
+
+function stepDistribution(distribution: number[], matrix: TransitionMatrix): number[] {
+  const next = distribution.map(() => 0);
+  for (let from = 0; from < distribution.length; from++) {
+    if (distribution[from] === 0) continue;
+    for (let to = 0; to < next.length; to++) {
+      next[to] += distribution[from] * matrix[from][to];
+    }
+  }
+  return next;
+}
+
+function toPoint(yearOffset: number, probabilities: number[]): ConditionDistributionPoint {
+  const expectedCondition = probabilities.reduce((sum, p, state) => sum + p * stateToCondition(state), 0);
+  return {
+    yearOffset,
+    probabilities,
+    expectedCondition: Math.round(expectedCondition * 10) / 10,
+    probabilityFailed: probabilities[FAILED_STATE],
+  };
+}
+
+/**
+ * Predict the condition-state distribution for each year up to the horizon.
+ * `initial` is either a starting state or a probability vector over states.
+ */
+export function predictConditionDistribution(
+  matrix: TransitionMatrix,
+  initial: number | number[],
+  horizonYears: number
+): ConditionDistributionPoint[] {
+  const horizon = Math.max(0, Math.min(MAX_HORIZON_YEARS, Math.round(horizonYears)));
+  let distribution = typeof initial === "number"
+    ? CONDITION_STATES.map((_, state) => (state === initial ? 1 : 0))
+    : [...initial];
+
+  const points = [toPoint(0, distribution)];
+  for (let year = 1; year <= horizon; year++) {
+    distribution = stepDistribution(distribution, matrix);
+    points.push(toPoint(year, distribution));
+  }
+  return points;
+}
+
+/**
+ * Years until the probability of being in the failed state reaches the
+ * threshold (median time to failure by default). Capped at the max horizon.
+ */
+export function estimateYearsToFailure(
+  matrix: TransitionMatrix,
+  initialState: number,
+  threshold: number = 0.5
+): number {
+  const points = predictConditionDistribution(matrix, initialState, MAX_HORIZON_YEARS);
+  const hit = points.find(p => p.probabilityFailed >= threshold);
+  return hit ? hit.yearOffset : MAX_HORIZON_YEARS;
+}
+
+/**
+ * Predict current condition, failure timing and the forward distribution for
+ * a component from its most recent observation (or from installation).
+ */
+export function predictWithMarkov(
+  model: MarkovModel,
+  installYear: number,
+  latestObservation: { year: number; condition: number } | null,
+  currentYear: number = new Date().getFullYear(),
+  horizonYears: number = 30
+): MarkovPrediction {
+  const startYear = latestObservation ? latestObservation.year : installYear;
+  const startState = latestObservation ? conditionToState(latestObservation.condition) : 0;
+  const elapsed = Math.max(0, currentYear - startYear);
+
+  const history = predictConditionDistribution(model.matrix, startState, elapsed);
+  const current = history[history.length - 1];
+  const currentState = current.probabilities.indexOf(Math.max(...current.probabilities));
+
+  const distribution = predictConditionDistribution(model.matrix, current.probabilities, horizonYears);
+  const failureOffset = distribution.find(p => p.probabilityFailed >= 0.5)?.yearOffset
+    ?? Math.max(0, estimateYearsToFailure(model.matrix, startState) - elapsed);
+
+  const rateSpan = Math.min(10, distribution.length - 1);
+  const deteriorationRate = rateSpan > 0
+    ? (distribution[0].expectedCondition - distribution[rateSpan].expectedCondition) / rateSpan
+    : 0;
+
+  return {
+    currentState,
+    currentConditionEstimate: latestObservation && elapsed === 0
+      ? latestObservation.condition
+      : Math.round(current.expectedCondition),
+    predictedFailureYear: currentYear + failureOffset,
+    predictedRemainingLife: failureOffset,
+    deteriorationRate: Math.round(deteriorationRate * 100) / 100,
+    distribution,
+  };
+}
+
+// ============================================================================
+// Calibrated models
+// ============================================================================
+
+const CALIBRATION_TTL = 10 * 60 * 1000;
+const calibrationCache = new Map<string, { model: MarkovModel; timestamp: number }>();
+
+/**
+ * Get the calibrated model for a component's UNIFORMAT class. Calibrations are
+ * cached briefly since they scan every observation in the class.
+ */
+export async function getCalibratedModel(componentCode: string): Promise<MarkovModel> {
+  const componentClass = getUniformatClass(componentCode);
+  const cached = calibrationCache.get(componentClass);
+  if (cached && Date.now() - cached.timestamp < CALIBRATION_TTL) {
+    return cached.model;
+  }
+
+  try {
+    const records = await markovDb.getConditionObservations(componentClass);
+    const observations: ConditionObservation[] = [];
+    for (const record of records) {
+      const condition = parseObservedCondition(record.value);
+      if (condition === null || !record.observedAt) continue;
+      observations.push({ sequenceKey: record.sequenceKey, observedAt: record.observedAt, condition });
+    }
+
+    const model = calibrateTransitionMatrix(componentClass, observations);
+    calibrationCache.set(componentClass, { model, timestamp: Date.now() });
+    return model;
+  } catch (error) {
+    console.error(`[Markov] Calibration failed for ${componentClass}:`, error);
+    return getPriorModel(componentClass);
+  }
+}
+
+/**
+ * Drop cached calibrations (e.g., after bulk condition imports)
+ */
+export function clearCalibrationCache(): void {
+  calibrationCache.clear();
+}
@@ -7,6 +7,14 @@
 
 import { invokeLLM } from "./_core/llm";
 import type { Assessment } from "../drizzle/schema";
+import {
+  getPriorModel,
+  predictWithMarkov,
+  type ConditionDistributionPoint,
+  type MarkovModel,
+} from "./markovDeteriorationService";
+
+export type DeteriorationModel = "linear" | "markov";
 
 export interface HistoricalDataPoint {
   assessmentDate: string | Date; // ISO string or Date object
@@ -23,6 +31,14 @@ export interface MLPrediction {
   deteriorationRate: number; // Percentage per year
   insights: string[];
   riskLevel: "low" | "medium" | "high" | "critical";
+  model?: DeteriorationModel;
+  conditionDistribution?: ConditionDistributionPoint[]; // Markov model only
+}
+
+export interface MLPredictionOptions {
+  model?: DeteriorationModel;
+  markovModel?: MarkovModel; // Calibrated class model; prior is used when omitted
+  horizonYears?: number;
 }
 
 /**
@@ -32,8 +48,13 @@ export async function predictDeteriorationML(
   componentCode: string,
   installYear: number,
   historicalData: HistoricalDataPoint[],
-  currentYear: number = new Date().getFullYear()
+  currentYear: number = new Date().getFullYear(),
+  options: MLPredictionOptions = {}
 ): Promise<MLPrediction> {
+  if (options.model === "markov") {
+    return predictDeteriorationMarkov(componentCode, installYear, historicalData, currentYear, options);
+  }
+
   // Calculate deterioration rate from historical data
   const deteriorationRate = calculateDeteriorationRate(historicalData);
 
@@ -77,6 +98,60 @@ export async function predictDeteriorationML(
     deteriorationRate,
     insights,
     riskLevel,
+    model: "linear",
+  };
+}
+
+/**
+ * Predict deterioration with the Markov condition-state model, starting from
+ * the most recent assessment and projecting the state distribution forward
+ */
+async function predictDeteriorationMarkov(
+  componentCode: string,
+  installYear: number,
+  historicalData: HistoricalDataPoint[],
+  currentYear: number,
+  options: MLPredictionOptions
+): Promise<MLPrediction> {
+  const markovModel = options.markovModel || getPriorModel(componentCode);
+
+  const dated = historicalData
+    .map((d) => ({ year: new Date(d.assessmentDate).getFullYear(), condition: d.condition }))
+    .filter((d) => Number.isFinite(d.year));
+  const latest = dated.length > 0
+    ? dated.reduce((a, b) => (b.year > a.year ? b : a))
+    : null;
+
+  const prediction = predictWithMarkov(markovModel, installYear, latest, currentYear, options.horizonYears);
+
+  // Calibration data adds confidence on top of the component's own history
+  const confidenceScore = Math.min(
+    100,
+    calculateMLConfidence(historicalData, currentYear) + Math.min(20, markovModel.sampleSize)
+  );
+
+  const riskLevel = determineRiskLevel(
+    prediction.predictedRemainingLife,
+    prediction.currentConditionEstimate
+  );
+
+  const insights = await generateAIInsights(
+    componentCode,
+    historicalData,
+    prediction.deteriorationRate,
+    prediction.predictedRemainingLife
+  );
+
+  return {
+    predictedFailureYear: prediction.predictedFailureYear,
+    predictedRemainingLife: prediction.predictedRemainingLife,
+    currentConditionEstimate: prediction.currentConditionEstimate,
+    confidenceScore,
+    deteriorationRate: prediction.deteriorationRate,
+    insights,
+    riskLevel,
+    model: "markov",
+    conditionDistribution: prediction.distribution,
   };
 }
 
@@ -0,0 +1,41 @@
+/**
+ * Tests for 3D model annotation marker colors and stored camera vectors
+ * Shared by the glTF viewer and the asset report's viewpoint legend
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  ANNOTATION_PRIORITY_COLORS,
+  RESOLVED_ANNOTATION_COLOR,
+  UNPRIORITIZED_ANNOTATION_COLOR,
+  getAnnotationColor,
+  getAnnotationPriority,
+  parseModelVector,
+  rgbToHex,
+} from "../shared/modelAnnotations";
+
+describe("model annotations", () => {
+  it("should prefer the linked deficiency's priority over the annotation's own", () => {
+    expect(getAnnotationPriority({ priority: "low", deficiencyPriority: "immediate" })).toBe("immediate");
+    expect(getAnnotationPriority({ priority: "high" })).toBe("short_term");
+    expect(getAnnotationPriority({ priority: "medium", deficiencyPriority: null })).toBe("medium_term");
+    expect(getAnnotationPriority({})).toBeNull();
+  });
+
+  it("should color markers by priority, with resolved items shown as resolved", () => {
+    expect(getAnnotationColor({ deficiencyPriority: "short_term", status: "open" })).toEqual(ANNOTATION_PRIORITY_COLORS.short_term);
+    expect(getAnnotationColor({ deficiencyPriority: "immediate", deficiencyStatus: "resolved" })).toEqual(RESOLVED_ANNOTATION_COLOR);
+    expect(getAnnotationColor({ priority: "immediate", status: "closed" })).toEqual(RESOLVED_ANNOTATION_COLOR);
+    expect(getAnnotationColor({ status: "open" })).toEqual(UNPRIORITIZED_ANNOTATION_COLOR);
+    expect(rgbToHex([220, 38, 8])).toBe("#dc2608");
+  });
+
+  it("should read camera vectors stored as objects or JSON strings", () => {
+    expect(parseModelVector({ x: 1, y: -2.5, z: 0 })).toEqual({ x: 1, y: -2.5, z: 0 });
+    expect(parseModelVector('{"x":"3","y":4,"z":5}')).toEqual({ x: 3, y: 4, z: 5 });
+    expect(parseModelVector({ x: 1, y: null, z: 0 })).toBeNull();
+    expect(parseModelVector({ x: 1, y: 2 })).toBeNull();
+    expect(parseModelVector("not json")).toBeNull();
+    expect(parseModelVector(null)).toBeNull();
+  });
+});
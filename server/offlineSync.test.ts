@@ -2,6 +2,8 @@ import { describe, expect, it, beforeEach, vi } from "vitest";
 import { appRouter } from "./routers";
 import type { TrpcContext } from "./_core/context";
 import * as db from "./db";
+import * as assetsDb from "./db-assets";
+import * as maintenanceDb from "./db/maintenanceEntries.db";
 
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
@@ -90,7 +92,7 @@ describe("offlineSync.syncAssessment", () => {
     expect(result.offlineId).toBe("offline_assessment_123");
   });
 
-  it("handles conflict resolution when server version is newer", async () => {
+  it("returns field conflicts when the server version is newer", async () => {
     const ctx = createAuthContext("admin");
     const caller = appRouter.createCaller(ctx);
 
@@ -104,28 +106,80 @@ describe("offlineSync.syncAssessment", () => {
       name: "Test Project",
     } as any);
 
-    // Mock getAssessmentByComponent to return existing assessment
-    const mockGetAssessmentByComponent = vi.spyOn(db, "getAssessmentByComponent");
-    mockGetAssessmentByComponent.mockResolvedValue({
+    // Server assessment was saved again (version 3) after the offline edit started from version 2
+    const mockGetAssessmentById = vi.spyOn(db, "getAssessmentById");
+    mockGetAssessmentById.mockResolvedValue({
       id: 789,
+      projectId: 1,
       componentCode: "A10",
-      assessedAt: now, // Server version is newer
-      createdAt: now,
+      condition: "poor",
+      status: "active",
+      observations: "Server observation",
+      estimatedRepairCost: "5000.00",
+      version: 3,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
     } as any);
 
+    const mockUpdateIfVersion = vi.spyOn(db, "updateAssessmentIfVersion");
+    mockUpdateIfVersion.mockResolvedValue(4);
+    vi.spyOn(db, "createComponentHistory").mockResolvedValue(1 as any);
+
     const result = await caller.offlineSync.syncAssessment({
       offlineId: "offline_assessment_123",
       createdAt: olderDate.toISOString(), // Offline version is older
       projectId: 1,
+      assessmentId: 789,
+      baseVersion: 2,
+      base: { condition: "fair", status: "active", observations: "Old observation", estimatedRepairCost: 5000 },
       componentCode: "A10",
       condition: "good",
       status: "completed",
+      observations: "Old observation",
+      estimatedRepairCost: 5000,
     });
 
-    // Verify conflict resolution
+    // Status only changed offline and is merged; condition changed on both sides and is returned
     expect(result.assessmentId).toBe(789);
     expect(result.conflict).toBe(true);
-    expect(result.resolution).toBe("server_wins");
+    expect(result.resolution).toBe("needs_resolution");
+    expect(result.version).toBe(4);
+    expect(result.mergedFields).toEqual(["status"]);
+    expect(mockUpdateIfVersion).toHaveBeenCalledWith(789, 3, { status: "completed" });
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      id: "offline_assessment_123",
+      entityType: "assessment",
+      entityId: "789",
+      fields: [{ field: "condition", localValue: "good", serverValue: "poor", baseValue: "fair" }],
+    });
+  });
+
+  it("applies resolved values when the assessment has not changed again", async () => {
+    const ctx = createAuthContext("admin");
+    const caller = appRouter.createCaller(ctx);
+
+    vi.spyOn(db, "getProjectById").mockResolvedValue({ id: 1, name: "Test Project" } as any);
+    vi.spyOn(db, "getAssessmentById").mockResolvedValue({
+      id: 789,
+      projectId: 1,
+      componentCode: null,
+      condition: "poor",
+      version: 4,
+    } as any);
+    const mockUpdateIfVersion = vi.spyOn(db, "updateAssessmentIfVersion");
+    mockUpdateIfVersion.mockResolvedValue(5);
+
+    const result = await caller.offlineSync.resolveAssessmentConflict({
+      offlineId: "offline_assessment_123",
+      assessmentId: 789,
+      version: 4,
+      base: { condition: "poor" },
+      values: { condition: "good" },
+    });
+
+    expect(mockUpdateIfVersion).toHaveBeenCalledWith(789, 4, { condition: "good" });
+    expect(result).toMatchObject({ assessmentId: 789, version: 5, resolved: true, conflicts: [] });
   });
 });
 
@@ -202,6 +256,59 @@ describe("offlineSync.syncPhoto", () => {
   });
 });
 
+describe("offlineSync offline-created parents and children", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("creates an asset and returns its real ID for remapping", async () => {
+    const caller = appRouter.createCaller(createAuthContext("user"));
+
+    vi.spyOn(db, "getProjectById").mockResolvedValue({ id: 1, name: "Test Project" } as any);
+    const mockCreateAsset = vi.spyOn(assetsDb, "createAsset");
+    mockCreateAsset.mockResolvedValue(321);
+
+    const result = await caller.offlineSync.syncAsset({
+      offlineId: "offline_asset_1",
+      createdAt: new Date().toISOString(),
+      projectId: 1,
+      name: "Pump House",
+      assetType: "Utility",
+      grossFloorArea: 1200,
+      latitude: 45.42,
+    });
+
+    expect(result).toEqual({ assetId: 321, offlineId: "offline_asset_1" });
+    expect(mockCreateAsset).toHaveBeenCalledWith(expect.objectContaining({
+      projectId: 1,
+      name: "Pump House",
+      primaryUse: "Utility",
+      squareFootage: "1200",
+      latitude: "45.42",
+    }));
+  });
+
+  it("rejects a maintenance entry linked to another project's assessment", async () => {
+    const caller = appRouter.createCaller(createAuthContext("user"));
+
+    vi.spyOn(db, "getProjectById").mockResolvedValue({ id: 1, name: "Test Project" } as any);
+    vi.spyOn(db, "getAssessmentById").mockResolvedValue({ id: 55, projectId: 2 } as any);
+    const mockCreateEntry = vi.spyOn(maintenanceDb, "createMaintenanceEntry");
+
+    await expect(caller.offlineSync.syncMaintenanceEntry({
+      offlineId: "offline_maintenance_1",
+      createdAt: new Date().toISOString(),
+      projectId: 1,
+      assessmentId: 55,
+      componentName: "Roof",
+      entryType: "executed",
+      actionType: "repair",
+      description: "Patched membrane",
+    })).rejects.toThrow("Assessment not found in this project");
+    expect(mockCreateEntry).not.toHaveBeenCalled();
+  });
+});
+
 describe("Assessment ID Validation", () => {
   it("parseInt returns NaN for offline IDs", () => {
     const offlineId = "offline_assessment_123";
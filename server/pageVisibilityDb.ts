@@ -10,6 +10,7 @@ export const DASHBOARD_PAGES = {
   // Main navigation
   projects: { label: "Projects", path: "/", section: "main" },
   rsmeans: { label: "RSMeans Cost Data", path: "/rsmeans", section: "main" },
+  search: { label: "Search", path: "/search", section: "main" },
   deletedProjects: { label: "Deleted Projects", path: "/deleted-projects", section: "main" },
   
   // Analytics & Reports
@@ -1,6 +1,7 @@
 import { eq, desc } from "drizzle-orm";
 import { getDb } from "./db";
 import { projectStatusHistory, InsertProjectStatusHistory } from "../drizzle/schema";
+import { emitWebhookEvent } from "./services/webhookService";
 
 /**
  * Log a project status change to the history table
@@ -14,6 +15,19 @@ export async function logStatusChange(data: InsertProjectStatusHistory) {
 
   try {
     const result = await db.insert(projectStatusHistory).values(data);
+
+    emitWebhookEvent({
+      type: "project.status_changed",
+      projectId: data.projectId,
+      data: {
+        projectId: data.projectId,
+        previousStatus: data.previousStatus ?? null,
+        newStatus: data.newStatus,
+        changedBy: data.userId,
+        notes: data.notes ?? null,
+      },
+    });
+
     return result;
   } catch (error) {
     console.error("[Database] Failed to log status change:", error);
@@ -9,6 +9,9 @@
  * - Enforces sum(DM by horizon) = Total DM
  */
 
+import type { FloorPlanPin } from "../shared/floorPlans";
+import type { AnnotationMarkerState } from "../shared/modelAnnotations";
+
 export interface ValidationIssue {
   severity: 'error' | 'warning' | 'info';
   category: 'financial' | 'data_quality' | 'consistency' | 'template';
@@ -44,6 +47,37 @@ export interface AssetReportData {
   assessments: any[];
   deficiencies: any[];
   assessmentActions?: AssessmentAction[]; // Multiple actions per assessment
+  floorPlans?: AssetReportFloorPlan[]; // Floor plan snapshots with this asset's pins
+  modelViewpoints?: AssetReportModelViewpoint[]; // Annotated 3D viewpoint snapshots
+}
+
+export interface AssetReportFloorPlan {
+  name: string;
+  floorLevel?: string | null;
+  imageUrl: string;
+  mimeType?: string | null;
+  imageWidth?: number | null;
+  imageHeight?: number | null;
+  pins: FloorPlanPin[];
+}
+
+export interface AssetReportModelAnnotation extends AnnotationMarkerState {
+  id: number;
+  number: number; // Label drawn on the snapshot
+  title: string;
+  annotationType: string;
+  componentCode?: string | null;
+  componentName?: string | null;
+}
+
+export interface AssetReportModelViewpoint {
+  name: string;
+  description?: string | null;
+  modelName: string;
+  snapshotUrl: string;
+  snapshotWidth?: number | null;
+  snapshotHeight?: number | null;
+  annotations: AssetReportModelAnnotation[];
 }
 
 export interface PortfolioReportData {
@@ -0,0 +1,82 @@
+/**
+ * Tests for retention policy resolution, cutoffs and certificates of disposal
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildDisposalCertificate,
+  getRetentionCutoff,
+  getRetentionDays,
+  hashDisposalCertificate,
+  resolveRetentionRules,
+  type RetentionPolicyRule,
+} from "./retentionPolicy";
+
+function policy(overrides: Partial<RetentionPolicyRule>): RetentionPolicyRule {
+  return {
+    id: 1,
+    policyName: "Default",
+    dataType: "audit_logs",
+    companyId: null,
+    retentionPeriodYears: 7,
+    retentionPeriodDays: null,
+    isActive: 1,
+    createdBy: 1,
+    ...overrides,
+  };
+}
+
+describe("retention policy", () => {
+  it("should prefer a company's own active policy over the platform default", () => {
+    const policies = [
+      policy({ id: 1, dataType: "audit_logs" }),
+      policy({ id: 2, dataType: "audit_logs", companyId: 5, retentionPeriodYears: 10 }),
+      policy({ id: 3, dataType: "chatbot_sessions", retentionPeriodDays: 90 }),
+      policy({ id: 4, dataType: "chatbot_sessions", companyId: 5, isActive: 0 }),
+      policy({ id: 5, dataType: "deleted_photos", companyId: 6, retentionPeriodDays: 30 }),
+      policy({ id: 6, dataType: "assessments" }),
+    ];
+
+    const forCompany5 = resolveRetentionRules(policies, 5);
+    expect(forCompany5.get("audit_logs")?.id).toBe(2);
+    expect(forCompany5.get("chatbot_sessions")?.id).toBe(3);
+    expect(forCompany5.has("deleted_photos")).toBe(false);
+    expect(Array.from(forCompany5.keys())).not.toContain("assessments");
+
+    const forCompany7 = resolveRetentionRules(policies, 7);
+    expect(forCompany7.get("audit_logs")?.id).toBe(1);
+  });
+
+  it("should compute cutoffs from days when set and years otherwise", () => {
+    const now = new Date("2026-06-30T00:00:00Z");
+
+    expect(getRetentionDays(policy({ retentionPeriodYears: 2 }))).toBe(730);
+    expect(getRetentionCutoff(policy({ retentionPeriodDays: 30 }), now).toISOString()).toBe("2026-05-31T00:00:00.000Z");
+  });
+
+  it("should produce a certificate whose hash changes when its contents change", () => {
+    const certificate = buildDisposalCertificate({
+      companyId: 5,
+      companyName: "Acme",
+      dataType: "deleted_photos",
+      policy: policy({ id: 9, policyName: "Deleted photos", dataType: "deleted_photos", retentionPeriodDays: 30 }),
+      cutoff: new Date("2026-05-31T00:00:00Z"),
+      disposedAt: new Date("2026-06-30T02:00:00Z"),
+      cleanupReportId: 12,
+      records: [
+        { id: 1, recordedAt: "2026-04-01 10:00:00", storageKey: "photos/1.jpg" },
+        { id: 2, recordedAt: "2026-04-02 10:00:00", storageKey: null },
+      ],
+    });
+
+    expect(certificate).toMatchObject({
+      recordCount: 2,
+      policy: { id: 9, retentionDays: 30 },
+      storageKeysPendingPurge: ["photos/1.jpg"],
+    });
+
+    const hash = hashDisposalCertificate(certificate);
+    expect(hashDisposalCertificate(JSON.parse(JSON.stringify(certificate)))).toBe(hash);
+    expect(hashDisposalCertificate({ ...certificate, recordCount: 1 })).not.toBe(hash);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Retention Policy
+ * Pure rules for the retention engine: which data_retention_policies row governs each
+ * data type for a company, where its cutoff falls, and the certificate of disposal
+ * recorded when records past that cutoff are removed.
+ */
+
+import crypto from "crypto";
+import { canonicalize, type DisposedChainLink } from "./auditChain";
+import { RETENTION_DATA_TYPES, type RetentionDataType } from "../shared/retention";
+
+export { RETENTION_DATA_TYPES, RETENTION_DATA_TYPE_LABELS, type RetentionDataType } from "../shared/retention";
+
+export interface RetentionPolicyRule {
+  id: number;
+  policyName: string;
+  dataType: string;
+  companyId: number | null;
+  retentionPeriodYears: number;
+  retentionPeriodDays: number | null;
+  isActive: number;
+  createdBy: number;
+}
+
+export interface RetentionRecord {
+  id: number;
+  recordedAt: string;
+  /** Storage object that still has to be purged once the row is gone */
+  storageKey?: string | null;
+}
+
+export interface DisposalCertificate {
+  format: "bca-disposal-certificate/1";
+  companyId: number;
+  companyName: string;
+  dataType: RetentionDataType;
+  policy: { id: number; name: string; retentionDays: number };
+  cutoff: string;
+  disposedAt: string;
+  cleanupReportId: number | null;
+  recordCount: number;
+  records: RetentionRecord[];
+  storageKeysPendingPurge: string[];
+  /** Audit chain links of disposed audit entries, released once the certificate is chained */
+  chainLinks?: DisposedChainLink[];
+}
+
+export function isRetentionDataType(value: string): value is RetentionDataType {
+  return (RETENTION_DATA_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Active policy per data type for a company: the company's own policy wins over the
+ * platform default (companyId null); among equals the most recently created (highest id)
+ */
+export function resolveRetentionRules(
+  policies: RetentionPolicyRule[],
+  companyId: number
+): Map<RetentionDataType, RetentionPolicyRule> {
+  const rules = new Map<RetentionDataType, RetentionPolicyRule>();
+
+  for (const policy of policies) {
+    if (!policy.isActive || !isRetentionDataType(policy.dataType)) continue;
+    if (policy.companyId !== null && policy.companyId !== companyId) continue;
+
+    const current = rules.get(policy.dataType);
+    const outranks = !current
+      || (policy.companyId !== null && current.companyId === null)
+      || ((policy.companyId === null) === (current.companyId === null) && policy.id > current.id);
+    if (outranks) rules.set(policy.dataType, policy);
+  }
+  return rules;
+}
+
+export function getRetentionDays(policy: Pick<RetentionPolicyRule, "retentionPeriodYears" | "retentionPeriodDays">): number {
+  return policy.retentionPeriodDays ?? policy.retentionPeriodYears * 365;
+}
+
+/**
+ * Records last touched before the cutoff are past retention
+ */
+export function getRetentionCutoff(policy: Pick<RetentionPolicyRule, "retentionPeriodYears" | "retentionPeriodDays">, now: Date): Date {
+  return new Date(now.getTime() - getRetentionDays(policy) * 24 * 60 * 60 * 1000);
+}
+
+export function buildDisposalCertificate(params: {
+  companyId: number;
+  companyName: string;
+  dataType: RetentionDataType;
+  policy: RetentionPolicyRule;
+  cutoff: Date;
+  disposedAt: Date;
+  cleanupReportId: number | null;
+  records: RetentionRecord[];
+  chainLinks?: DisposedChainLink[];
+}): DisposalCertificate {
+  return {
+    format: "bca-disposal-certificate/1",
+    companyId: params.companyId,
+    companyName: params.companyName,
+    dataType: params.dataType,
+    policy: { id: params.policy.id, name: params.policy.policyName, retentionDays: getRetentionDays(params.policy) },
+    cutoff: params.cutoff.toISOString(),
+    disposedAt: params.disposedAt.toISOString(),
+    cleanupReportId: params.cleanupReportId,
+    recordCount: params.records.length,
+    records: params.records,
+    storageKeysPendingPurge: params.records
+      .map(record => record.storageKey)
+      .filter((key): key is string => Boolean(key)),
+    chainLinks: params.chainLinks,
+  };
+}
+
+/**
+ * SHA-256 of the canonical certificate, stored as the disposal request's verificationHash
+ */
+export function hashDisposalCertificate(certificate: DisposalCertificate): string {
+  return crypto.createHash("sha256").update(canonicalize(certificate)).digest("hex");
+}
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { COOKIE_NAME } from "@shared/const";
+import { checkRuleExpression, getCustomLogicExpression } from "@shared/ruleExpression";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { complianceCheckRouter } from "./routers/compliance.check.router";
@@ -50,6 +51,7 @@ import { rsmeansRouter } from "./rsmeansRouter";
 import { portfolioTargetsRouter } from "./portfolioTargetsRouter";
 import { analyticsRouter } from "./analyticsRouter";
 import { chatbotRouter } from "./routers/chatbot.router";
+import { searchRouter } from "./routers/search.router";
 import { projectPermissionsRouter } from "./routers/projectPermissions.router";
 import { ratingRouter } from "./routers/rating.router";
 import { companyRolesRouter } from "./companyRolesRouter";
@@ -57,7 +59,16 @@ import { pageVisibilityRouter } from "./pageVisibilityRouter";
 import { buildingTemplatesRouter } from "./routers/buildingTemplates.router";
 import { customReportsRouter } from "./routers/customReports.router";
 import { capitalPlanningRouter } from "./routers/capitalPlanning.router";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { reportSchedulesRouter } from "./routers/reportSchedules.router";
+import { webhooksRouter } from "./routers/webhooks.router";
+import { integrationsRouter } from "./routers/integrations.router";
+import { floorPlansRouter } from "./routers/floorPlans.router";
+import { apiKeysRouter } from "./routers/apiKeys.router";
+import { cobieRouter } from "./routers/cobie.router";
+import { gisRouter } from "./routers/gis.router";
+import { accessPoliciesRouter } from "./routers/accessPolicies.router";
+import { scimRouter } from "./routers/scim.router";
+import { publicProcedure, protectedProcedure, policyProcedure, router } from "./_core/trpc";
 import { storagePut } from "./storage";
 import * as db from "./db";
 import { getDb } from "./db";
@@ -68,6 +79,8 @@ import * as customComponentsDb from "./db-custom-components";
 import * as dashboardData from "./dashboardData";
 import { generateBCAReport } from "./reportGenerator";
 import { generateAssetReport } from "./assetReportGenerator";
+import * as floorPlansDb from "./db/floorPlans.db";
+import * as modelsDb from "./db/models.db";
 import { generateDeficienciesCSV, generateAssessmentsCSV, generateCostEstimatesCSV } from "./exportUtils";
 import { assessPhotoWithAI } from "./photoAssessment";
 import { performanceRouter } from "./routers/performance.router";
@@ -79,6 +92,16 @@ import { importValidationRouter } from "./routers/importValidation.router";
 import { cleanupJobsRouter } from "./routers/cleanupJobs.router";
 import { actionTemplatesRouter } from "./routers/actionTemplates.router";
 
+/**
+ * Reject custom_logic rules whose expression doesn't parse, pointing at the problem
+ */
+function assertValidRuleExpression(condition: string) {
+  const check = checkRuleExpression(getCustomLogicExpression(condition));
+  if (!check.ok) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: check.error.display });
+  }
+}
+
 export const appRouter = router({
   system: systemRouter,
   audio: audioRouter,
@@ -125,6 +148,7 @@ export const appRouter = router({
   analytics: analyticsRouter,
   backup: backupRouter,
   chatbot: chatbotRouter,
+  search: searchRouter,
   projectPermissions: projectPermissionsRouter,
   rating: ratingRouter,
   esgLeed: esgLeedRouter,
@@ -132,6 +156,15 @@ export const appRouter = router({
   buildingTemplates: buildingTemplatesRouter,
   customReports: customReportsRouter,
   capitalPlanning: capitalPlanningRouter,
+  reportSchedules: reportSchedulesRouter,
+  webhooks: webhooksRouter,
+  integrations: integrationsRouter,
+  floorPlans: floorPlansRouter,
+  apiKeys: apiKeysRouter,
+  cobie: cobieRouter,
+  gis: gisRouter,
+  accessPolicies: accessPoliciesRouter,
+  scim: scimRouter,
   auth: router({
     me: publicProcedure.query(opts => opts.ctx.user),
     logout: publicProcedure.mutation(({ ctx }) => {
@@ -158,6 +191,21 @@ export const appRouter = router({
         const pref = await db.getUserUnitPreference(ctx.user.id);
         return { unitPreference: pref || 'metric' };
       }),
+
+    updateLanguagePreference: protectedProcedure
+      .input(z.object({
+        languagePreference: z.enum(['en', 'fr']),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await db.updateUserLanguagePreference(ctx.user.id, input.languagePreference);
+        return { success: true, languagePreference: input.languagePreference };
+      }),
+    
+    getLanguagePreference: protectedProcedure
+      .query(async ({ ctx }) => {
+        const pref = await db.getUserLanguagePreference(ctx.user.id);
+        return { languagePreference: pref || 'en' };
+      }),
   }),
 
   complianceCheck: complianceCheckRouter,
@@ -254,6 +302,9 @@ export const appRouter = router({
         const { id, ...data } = input;
         const isAdmin = ctx.user.role === 'admin';
         const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: id });
         
         // If status is being changed, log it to history
         if (data.status) {
@@ -281,6 +332,8 @@ export const appRouter = router({
       .mutation(async ({ ctx, input }) => {
         const isAdmin = ctx.user.role === 'admin';
         const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.delete", projectId: input.id });
         await db.deleteProject(input.id, ctx.user.id, ctx.user.company, isAdmin, ctx.user.companyId, isSuperAdmin);
         return { success: true };
       }),
@@ -291,6 +344,10 @@ export const appRouter = router({
         // Delete all projects that belong to the user
         const isAdmin = ctx.user.role === "admin";
         const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        for (const id of input.ids) {
+          await assertAccess(ctx.user, { action: "project.delete", projectId: id });
+        }
         for (const id of input.ids) {
           await db.deleteProject(id, ctx.user.id, ctx.user.company, isAdmin, ctx.user.companyId, isSuperAdmin);
         }
@@ -305,9 +362,11 @@ export const appRouter = router({
         // Get all user's projects
         const allProjects = await db.getUserProjects(ctx.user.id, false, ctx.user.company, isAdmin, ctx.user.companyId, isSuperAdmin);
         
-        // Find projects with no assets
+        // Find projects with no assets that access policies let the user delete
+        const { checkAccess } = await import("./services/accessPolicy.service");
         const emptyProjectIds: number[] = [];
         for (const project of allProjects) {
+          if (!(await checkAccess(ctx.user, { action: "project.delete", projectId: project.id })).allowed) continue;
           const projectAssets = await assetsDb.getProjectAssets(project.id);
           if (projectAssets.length === 0) {
             emptyProjectIds.push(project.id);
@@ -345,6 +404,8 @@ export const appRouter = router({
       .mutation(async ({ ctx, input }) => {
         const isAdmin = ctx.user.role === 'admin';
         const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: input.id });
         await db.updateProject(input.id, ctx.user.id, { status: "archived" }, ctx.user.company, isAdmin, ctx.user.companyId, isSuperAdmin);
         return { success: true };
       }),
@@ -354,6 +415,8 @@ export const appRouter = router({
       .mutation(async ({ ctx, input }) => {
         const isAdmin = ctx.user.role === 'admin';
         const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: input.id });
         await db.updateProject(input.id, ctx.user.id, { status: "draft" }, ctx.user.company, isAdmin, ctx.user.companyId, isSuperAdmin);
         return { success: true };
       }),
@@ -742,6 +805,11 @@ export const appRouter = router({
               updatedCount.failed++;
               continue;
             }
+            const { checkAccess } = await import("./services/accessPolicy.service");
+            if (!(await checkAccess(ctx.user, { action: "project.edit", projectId })).allowed) {
+              updatedCount.failed++;
+              continue;
+            }
             
             // Log status change if status is different
             if (project.status !== input.status) {
@@ -1884,7 +1952,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
   }),
 
   assessments: router({
-    list: protectedProcedure
+    list: policyProcedure("assessment.view")
       .input(z.object({ 
         projectId: z.number(),
         status: z.enum(["initial", "active", "completed"]).optional(),
@@ -1896,7 +1964,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
         if (!project) throw new Error("Project not found");
         
-        const allAssessments = await db.getProjectAssessmentsByStatus(input.projectId, input.status);
+        const { getComponentAccessFilter } = await import("./services/accessPolicy.service");
+        const canView = await getComponentAccessFilter(ctx.user, "assessment.view", input.projectId);
+        const allAssessments = (await db.getProjectAssessmentsByStatus(input.projectId, input.status)).filter(canView);
         
         // Apply pagination if requested
         if (input.page !== undefined || input.pageSize !== undefined) {
@@ -1908,7 +1978,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         return allAssessments;
       }),
 
-    listByAsset: protectedProcedure
+    listByAsset: policyProcedure("assessment.view")
       .input(z.object({ assetId: z.number(), projectId: z.number() }))
       .query(async ({ ctx, input }) => {
         // Verify user has access to the project
@@ -1920,7 +1990,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         const asset = await assetsDb.getAssetById(input.assetId, input.projectId);
         if (!asset) throw new TRPCError({ code: "NOT_FOUND", message: "Asset not found" });
         
-        return await db.getAssetAssessments(input.assetId);
+        const { getComponentAccessFilter } = await import("./services/accessPolicy.service");
+        const canView = await getComponentAccessFilter(ctx.user, "assessment.view", input.projectId);
+        return (await db.getAssetAssessments(input.assetId)).filter(canView);
       }),
 
     statusCounts: protectedProcedure
@@ -1932,7 +2004,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         return await db.getAssessmentStatusCounts(input.projectId);
       }),
 
-    bulkUpdateStatus: protectedProcedure
+    bulkUpdateStatus: policyProcedure("assessment.edit")
       .input(z.object({
         projectId: z.number(),
         assessmentIds: z.array(z.number()),
@@ -1942,10 +2014,13 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         const isAdmin = ctx.user.role === 'admin';
         const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
         if (!project) throw new Error("Project not found");
+
+        const { assertAssessmentsAccess } = await import("./services/accessPolicy.service");
+        await assertAssessmentsAccess(ctx.user, "assessment.edit", input.projectId, input.assessmentIds);
         return await db.bulkUpdateAssessmentStatus(input.assessmentIds, input.status);
       }),
 
-    get: protectedProcedure
+    get: policyProcedure("assessment.view")
       .input(z.object({ 
         projectId: z.number(),
         componentCode: z.string() 
@@ -1957,7 +2032,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         return await db.getAssessmentByComponent(input.projectId, input.componentCode);
       }),
 
-    upsert: protectedProcedure
+    upsert: policyProcedure("assessment.edit")
       .input(z.object({
         id: z.number().optional(),
         projectId: z.number(),
@@ -2017,6 +2092,15 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         // Get existing assessment to detect changes
         const existing = input.componentCode ? await db.getAssessmentByComponent(input.projectId, input.componentCode) : null;
         const isNew = !existing;
+
+        // The policy check above saw the requested component; also check the stored one being overwritten
+        const { assertAssessmentsAccess } = await import("./services/accessPolicy.service");
+        await assertAssessmentsAccess(
+          ctx.user,
+          "assessment.edit",
+          input.projectId,
+          Array.from(new Set([input.id, existing?.id].filter((id): id is number => !!id)))
+        );
         
         const assessmentId = await db.upsertAssessment({
           ...input,
@@ -2083,6 +2167,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         // Invalidate prediction cache when assessment changes
         const { invalidateCacheOnAssessmentChange } = await import("./services/cacheInvalidation.service");
         await invalidateCacheOnAssessmentChange(input.projectId, input.componentCode);
+
+        const { queueSearchIndex } = await import("./services/searchIndex.service");
+        queueSearchIndex("assessment", assessmentId);
         
         // Trigger CI/FCI recalculation
         const { calculateBuildingCI } = await import("./ciCalculationService");
@@ -2151,6 +2238,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           throw new TRPCError({ code: "FORBIDDEN", message: "Assessment does not belong to this project" });
         }
 
+        const { assertAssessmentsAccess } = await import("./services/accessPolicy.service");
+        await assertAssessmentsAccess(ctx.user, "assessment.delete", input.projectId, [assessment.id]);
+
         // Log the deletion to audit table
         await db.logAssessmentDeletion({
           assessmentId: assessment.id,
@@ -2187,6 +2277,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         // Invalidate prediction cache when assessment is deleted
         const { invalidateCacheOnAssessmentChange } = await import("./services/cacheInvalidation.service");
         await invalidateCacheOnAssessmentChange(input.projectId, assessment.componentCode);
+
+        const { queueSearchIndex } = await import("./services/searchIndex.service");
+        queueSearchIndex("assessment", assessment.id);
         
         // Recalculate CI/FCI after deletion
         const { calculateBuildingCI } = await import("./ciCalculationService");
@@ -2248,6 +2341,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, true);
         if (!project) throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
 
+        const { assertAssessmentsAccess } = await import("./services/accessPolicy.service");
+        await assertAssessmentsAccess(ctx.user, "assessment.delete", input.projectId, input.assessmentIds);
+
         const deletedCount = await db.bulkDeleteAssessments(
           input.assessmentIds,
           input.projectId,
@@ -2316,6 +2412,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, true);
         if (!project) throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
 
+        const { assertAssessmentsAccess } = await import("./services/accessPolicy.service");
+        await assertAssessmentsAccess(ctx.user, "assessment.edit", input.projectId, [input.assessmentId]);
+
         await db.restoreAssessment(input.assessmentId);
 
         // Log the restoration
@@ -2382,6 +2481,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         const isAdmin = ctx.user.role === 'admin';
         const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
         if (!project) throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+
+        const { assertAssessmentsAccess } = await import("./services/accessPolicy.service");
+        await assertAssessmentsAccess(ctx.user, "assessment.edit", input.projectId, [input.assessmentId]);
         
         const savedActions = await db.bulkUpsertAssessmentActions(input.assessmentId, input.actions);
         
@@ -2533,11 +2635,28 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         const isAdmin = ctx.user.role === 'admin';
         const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
         if (!project) throw new Error("Project not found");
+
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: input.projectId, componentCode: input.componentCode });
         
         const deficiencyId = await db.createDeficiency({
           ...input,
           status: "open",
         });
+
+        const { queueSearchIndex } = await import("./services/searchIndex.service");
+        queueSearchIndex("deficiency", deficiencyId);
+        
+        // Log to component history (also notifies webhook subscribers)
+        const { logDeficiencyChange } = await import("./componentHistoryService");
+        await logDeficiencyChange({
+          projectId: input.projectId,
+          componentCode: input.componentCode,
+          deficiencyId,
+          userId: ctx.user.id,
+          userName: ctx.user.name || undefined,
+          isNew: true,
+        });
         
         // Trigger automatic recalculation after deficiency creation
         const { recalculateProjectMetrics } = await import("./services/recalculation.service");
@@ -2575,8 +2694,32 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           throw new TRPCError({ code: "NOT_FOUND", message: "Deficiency not found" });
         }
         
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: input.projectId, componentCode: deficiency.componentCode });
+
         const { id, projectId, ...data } = input;
         await db.updateDeficiency(id, data);
+
+        const { queueSearchIndex } = await import("./services/searchIndex.service");
+        queueSearchIndex("deficiency", id);
+        
+        // Log field changes to component history (also notifies webhook subscribers)
+        const { logDeficiencyChange, detectChanges } = await import("./componentHistoryService");
+        const changes = detectChanges(
+          Object.fromEntries(Object.keys(data).map(key => [key, (deficiency as Record<string, any>)[key]])),
+          data
+        );
+        if (deficiency.componentCode && Object.keys(changes).length > 0) {
+          await logDeficiencyChange({
+            projectId,
+            componentCode: deficiency.componentCode,
+            deficiencyId: id,
+            userId: ctx.user.id,
+            userName: ctx.user.name || undefined,
+            isNew: false,
+            changes,
+          });
+        }
         
         // Trigger automatic recalculation after deficiency update
         const { recalculateProjectMetrics } = await import("./services/recalculation.service");
@@ -2603,7 +2746,13 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           throw new TRPCError({ code: "NOT_FOUND", message: "Deficiency not found" });
         }
         
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: input.projectId, componentCode: deficiency.componentCode });
+
         await db.deleteDeficiency(input.id);
+
+        const { queueSearchIndex } = await import("./services/searchIndex.service");
+        queueSearchIndex("deficiency", input.id);
         
         // Trigger automatic recalculation after deficiency deletion
         const { recalculateProjectMetrics } = await import("./services/recalculation.service");
@@ -2670,7 +2819,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         return await db.getAssetPhotos(input.assetId, input.componentCode);
       }),
 
-    upload: protectedProcedure
+    upload: policyProcedure("project.edit")
       .input(z.object({
         projectId: z.number(),
         assessmentId: z.number().optional(),
@@ -2748,6 +2897,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           ocrConfidence: ocrConfidence?.toString(),
           uploadedBy: ctx.user.id,
         });
+
+        const { queueSearchIndex } = await import("./services/searchIndex.service");
+        queueSearchIndex("photo", photoId);
         
         return { 
           id: photoId, 
@@ -2779,9 +2931,15 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         if (!project && !isUploader && !isSuperAdmin) {
           throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to delete this photo" });
         }
+
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: photo.projectId, assetId: photo.assetId ?? undefined, componentCode: photo.componentCode });
         
         // Soft delete - set deletedAt timestamp instead of hard delete
         await db.softDeletePhoto(input.id, ctx.user.id);
+
+        const { queueSearchIndex } = await import("./services/searchIndex.service");
+        queueSearchIndex("photo", input.id);
         return { success: true };
       }),
 
@@ -2791,6 +2949,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
       .mutation(async ({ ctx, input }) => {
         const isAdmin = ctx.user.role === 'admin';
         const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+        const { assertAccess } = await import("./services/accessPolicy.service");
         
         // Verify access for each photo
         for (const photoId of input.ids) {
@@ -2803,6 +2962,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           if (!project && !isUploader && !isSuperAdmin) {
             throw new TRPCError({ code: "FORBIDDEN", message: `Not authorized to delete photo ${photoId}` });
           }
+          await assertAccess(ctx.user, { action: "project.edit", projectId: photo.projectId, assetId: photo.assetId ?? undefined, componentCode: photo.componentCode });
         }
         
         // Soft delete all photos
@@ -2838,6 +2998,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         if (!project && !isSuperAdmin) {
           throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to restore this photo" });
         }
+
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: photo.projectId, assetId: photo.assetId ?? undefined, componentCode: photo.componentCode });
         
         await db.restorePhoto(input.id);
         return { success: true };
@@ -2859,6 +3022,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         if (!project && !isSuperAdmin) {
           throw new TRPCError({ code: "FORBIDDEN", message: "Not authorized to permanently delete this photo" });
         }
+
+        const { assertAccess } = await import("./services/accessPolicy.service");
+        await assertAccess(ctx.user, { action: "project.edit", projectId: photo.projectId, assetId: photo.assetId ?? undefined, componentCode: photo.componentCode });
         
         await db.deletePhoto(input.id);
         return { success: true };
@@ -3152,12 +3318,23 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           }
         }
 
+        // Floor plans holding this asset's pins
+        const floorPlans = await floorPlansDb.getAssetReportFloorPlans(input.projectId, input.assetId, {
+          assessmentIds: assessments.map((a: any) => a.id).filter(Boolean),
+          deficiencyIds: deficiencies.map((d: any) => d.id).filter(Boolean),
+        });
+
+        // Annotated 3D viewpoint snapshots exported into this asset's report
+        const modelViewpoints = await modelsDb.getAssetReportViewpoints(input.assetId);
+
         const pdfBuffer = await generateAssetReport({
           asset,
           projectName: project.name,
           assessments: assessmentsWithPhotos,
           deficiencies,
           assessmentActions,
+          floorPlans,
+          modelViewpoints,
         });
 
         // Upload to S3
@@ -3943,24 +4120,34 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
     check: protectedProcedure
       .input(z.object({
         projectId: z.number(),
+        assetId: z.number().optional(),
         assessmentData: z.object({
           componentCode: z.string(),
+          componentName: z.string().optional(),
           condition: z.string().optional(),
+          status: z.string().optional(),
           assessedAt: z.date().optional(),
           lastTimeAction: z.number().optional(),
           remainingUsefulLife: z.number().optional(),
           expectedUsefulLife: z.number().optional(),
           estimatedRepairCost: z.number().optional(),
+          repairCost: z.number().optional(),
           replacementValue: z.number().optional(),
           actionYear: z.number().optional(),
+          reviewYear: z.number().optional(),
         }),
       }))
       .mutation(async ({ ctx, input }) => {
         const { validateAssessment } = await import("./validationService");
         const results = await validateAssessment({
           projectId: input.projectId,
+          assetId: input.assetId,
           assessmentData: input.assessmentData,
           userId: ctx.user.id,
+          company: ctx.user.company,
+          isAdmin: ctx.user.role === "admin",
+          companyId: ctx.user.companyId,
+          isSuperAdmin: ctx.user.isSuperAdmin === 1,
         });
         return results;
       }),
@@ -4027,6 +4214,9 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           if (ctx.user.role !== "admin") {
             throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
           }
+          if (input.ruleType === "custom_logic") {
+            assertValidRuleExpression(input.condition);
+          }
           const ruleId = await db.createValidationRule({
             ...input,
             isActive: input.isActive !== false ? 1 : 0,
@@ -4053,6 +4243,13 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
             throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
           }
           const { ruleId, ...updates } = input;
+          if (updates.condition !== undefined || updates.ruleType !== undefined) {
+            const existing = await db.getValidationRuleById(ruleId);
+            if (!existing) throw new TRPCError({ code: "NOT_FOUND", message: "Validation rule not found" });
+            if ((updates.ruleType ?? existing.ruleType) === "custom_logic") {
+              assertValidRuleExpression(updates.condition ?? existing.condition);
+            }
+          }
           await db.updateValidationRule(ruleId, {
             ...updates,
             isActive: updates.isActive !== undefined ? (updates.isActive ? 1 : 0) : undefined,
@@ -4081,6 +4278,27 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           });
           return { success: true };
         }),
+
+      // Rule test bench: which existing assessments a custom_logic expression would flag
+      test: protectedProcedure
+        .input(z.object({
+          expression: z.string(),
+          projectId: z.number().optional(),
+          limit: z.number().min(1).max(1000).default(200),
+        }))
+        .mutation(async ({ ctx, input }) => {
+          if (ctx.user.role !== "admin") {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
+          }
+          assertValidRuleExpression(input.expression);
+          const { testCustomLogicExpression } = await import("./validationService");
+          return await testCustomLogicExpression({
+            expression: input.expression,
+            projectId: input.projectId,
+            companyName: ctx.user.isSuperAdmin === 1 ? null : ctx.user.company,
+            limit: input.limit,
+          });
+        }),
     }),
   }),
 
@@ -4327,6 +4545,19 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
 
         await db.finalizeSubmission(input.submissionId, ctx.user.id);
 
+        const { emitWebhookEvent } = await import("./services/webhookService");
+        emitWebhookEvent({
+          type: "consultant_submission.approved",
+          projectId: submission.projectId,
+          data: {
+            submissionId: input.submissionId,
+            projectId: submission.projectId,
+            itemCount: items.filter(item => item.validationStatus !== "error").length,
+            approvedBy: { id: ctx.user.id, name: ctx.user.name ?? null },
+            reviewNotes: input.reviewNotes ?? null,
+          },
+        });
+
         return { success: true };
       }),
 
@@ -4419,6 +4650,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         projectId: z.number(),
         componentCode: z.string(),
         method: z.enum(["curve", "ml", "hybrid"]).default("curve"),
+        model: z.enum(["linear", "markov"]).default("linear"),
       }))
       .query(async ({ ctx, input }) => {
         const isAdmin = ctx.user.role === 'admin';
@@ -4426,6 +4658,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         if (!project) throw new Error("Project not found");
 
         const { predictDeteriorationML } = await import("./mlPredictionService");
+        const { getCalibratedModel } = await import("./markovDeteriorationService");
         const { predictFailureYear, calculateRemainingLife, generateCurveData, calculateConfidenceScore, DEFAULT_CURVES } = await import("./deteriorationCurveService");
 
         // Get component assessments for historical data
@@ -4446,7 +4679,11 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
           const mlPrediction = await predictDeteriorationML(
             input.componentCode,
             installYear,
-            historicalData
+            historicalData,
+            undefined,
+            input.model === "markov"
+              ? { model: "markov", markovModel: await getCalibratedModel(input.componentCode) }
+              : {}
           );
 
           // Save prediction to history
@@ -4458,7 +4695,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
             predictedCondition: mlPrediction.currentConditionEstimate,
             confidenceScore: mlPrediction.confidenceScore,
             predictionMethod: "ml_model",
-            modelVersion: "v1.0",
+            modelVersion: input.model === "markov" ? "markov-v1" : "v1.0",
           });
 
           return mlPrediction;
@@ -4504,18 +4741,57 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         }
       }),
 
+    // Get Markov condition-state distribution over a horizon for a component
+    conditionDistribution: protectedProcedure
+      .input(z.object({
+        projectId: z.number(),
+        componentCode: z.string(),
+        horizonYears: z.number().int().min(1).max(100).default(40),
+      }))
+      .query(async ({ ctx, input }) => {
+        const isAdmin = ctx.user.role === 'admin';
+        const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
+        if (!project) throw new Error("Project not found");
+
+        const { getCalibratedModel, predictWithMarkov, CONDITION_STATES } = await import("./markovDeteriorationService");
+        const model = await getCalibratedModel(input.componentCode);
+
+        const assessments = await db.getAssessmentsByComponent(input.projectId, input.componentCode);
+        const latest = assessments
+          .filter((a: any) => a.conditionPercentage && a.assessedAt)
+          .map((a: any) => ({ year: new Date(a.assessedAt).getFullYear(), condition: parseInt(a.conditionPercentage) }))
+          .filter((a: { year: number; condition: number }) => Number.isFinite(a.year) && Number.isFinite(a.condition))
+          .sort((a: { year: number }, b: { year: number }) => b.year - a.year)[0] || null;
+
+        const installYear = project.yearBuilt || new Date().getFullYear() - 20;
+        const prediction = predictWithMarkov(model, installYear, latest, undefined, input.horizonYears);
+
+        return {
+          states: CONDITION_STATES,
+          componentClass: model.componentClass,
+          serviceLife: model.serviceLife,
+          sampleSize: model.sampleSize,
+          observationYears: model.observationYears,
+          matrix: model.matrix,
+          ...prediction,
+        };
+      }),
+
     // Get all project predictions (OPTIMIZED with batching, parallelization, and caching)
     project: protectedProcedure
       .input(z.object({
         projectId: z.number(),
         method: z.enum(["curve", "ml", "hybrid"]).default("hybrid"),
+        model: z.enum(["linear", "markov"]).default("linear"),
         skipCache: z.boolean().optional().default(false),
       }))
       .query(async ({ ctx, input }) => {
+        const cacheKey = input.model === "markov" ? `${input.method}:markov` : input.method;
+
         // OPTIMIZATION 3: Check cache first (unless skipCache is true)
         if (!input.skipCache) {
           const { predictionCache } = await import("./predictionCache");
-          const cached = predictionCache.get(input.projectId, input.method);
+          const cached = predictionCache.get(input.projectId, cacheKey);
           if (cached) {
             return cached;
           }
@@ -4526,6 +4802,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         if (!project) throw new Error("Project not found");
 
         const { predictDeteriorationML, determineRiskLevel } = await import("./mlPredictionService");
+        const { getCalibratedModel } = await import("./markovDeteriorationService");
         const components = await db.getProjectComponents(input.projectId);
         
         // OPTIMIZATION 1: Batch fetch ALL assessments in one query instead of N queries
@@ -4559,7 +4836,11 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
             const mlPrediction = await predictDeteriorationML(
               component.componentCode,
               installYear,
-              historicalData
+              historicalData,
+              undefined,
+              input.model === "markov"
+                ? { model: "markov", markovModel: await getCalibratedModel(component.componentCode) }
+                : {}
             );
 
             const riskLevel = determineRiskLevel(
@@ -4578,6 +4859,22 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
               riskLevel,
               aiInsights: mlPrediction.insights,
             };
+          } else if (input.model === "markov") {
+            // Project the class model forward from installation in as-new condition
+            const { predictWithMarkov } = await import("./markovDeteriorationService");
+            const markov = predictWithMarkov(await getCalibratedModel(component.componentCode), installYear, null);
+
+            return {
+              componentCode: component.componentCode,
+              componentName: component.name,
+              lastAssessment: null,
+              condition: markov.currentConditionEstimate,
+              predictedFailureYear: markov.predictedFailureYear,
+              remainingLife: markov.predictedRemainingLife,
+              confidenceScore: 0.3, // Low confidence without assessment data
+              riskLevel: determineRiskLevel(markov.predictedRemainingLife, markov.currentConditionEstimate),
+              aiInsights: ["No assessment data available for this component", "Conduct detailed assessment to establish baseline condition"],
+            };
           } else {
             // Generate baseline prediction for components without assessments
             // Use typical deterioration curves based on component age
@@ -4616,7 +4913,7 @@ Provide helpful insights, recommendations, and analysis based on this comprehens
         // OPTIMIZATION 3: Store results in cache for 5 minutes
         if (!input.skipCache) {
           const { predictionCache } = await import("./predictionCache");
-          predictionCache.set(input.projectId, input.method, predictions);
+          predictionCache.set(input.projectId, cacheKey, predictions);
         }
 
         return predictions;
@@ -0,0 +1,241 @@
+/**
+ * Access Policies Router
+ * Manage company attribute-based access policies and explain access decisions
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import * as db from "../db";
+import * as assetsDb from "../db-assets";
+import * as companyRolesDb from "../companyRolesDb";
+import * as accessPoliciesDb from "../db/accessPolicies.db";
+import { createAuditLog } from "../auditLog";
+import { checkAccess } from "../services/accessPolicy.service";
+import {
+  ASSET_POLICY_ATTRIBUTES,
+  POLICY_ACTIONS,
+  PROJECT_POLICY_ATTRIBUTES,
+  parsePolicyRow,
+} from "../accessPolicy";
+import type { AccessPolicy, User } from "../../drizzle/schema";
+
+const COMPANY_ROLES = ["company_admin", "project_manager", "editor", "viewer"] as const;
+
+const attributeConditionsSchema = z.record(z.string(), z.array(z.string().min(1)));
+
+const policyConditionsSchema = z.object({
+  project: attributeConditionsSchema.optional(),
+  asset: attributeConditionsSchema.optional(),
+  componentGroups: z.array(z.string().min(1)).optional(),
+});
+
+const policyFieldsSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  effect: z.enum(["allow", "deny"]),
+  actions: z.array(z.enum(POLICY_ACTIONS as [string, ...string[]])).min(1),
+  subjectRoles: z.array(z.enum(COMPANY_ROLES)),
+  subjectUserIds: z.array(z.number()),
+  conditions: policyConditionsSchema,
+  isActive: z.boolean(),
+});
+
+/**
+ * Resolve the company a request operates on
+ * Super admins may target any company; everyone else is pinned to their own
+ */
+function resolveCompanyId(user: User, requestedCompanyId?: number): number {
+  if (user.isSuperAdmin === 1 && requestedCompanyId) return requestedCompanyId;
+  if (!user.companyId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "User is not associated with a company" });
+  }
+  return user.companyId;
+}
+
+/**
+ * Platform admins and company admins manage their company's policies
+ */
+async function assertCanManagePolicies(user: User, companyId: number) {
+  if (user.role === "admin" || user.isSuperAdmin === 1) return;
+
+  const membership = await companyRolesDb.getUserRoleInCompany(user.id, companyId);
+  if (!membership || membership.companyRole !== "company_admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Company admin access required to manage access policies" });
+  }
+}
+
+async function getAccessiblePolicy(user: User, policyId: number): Promise<AccessPolicy> {
+  const policy = await accessPoliciesDb.getPolicyById(policyId);
+  if (!policy || (user.isSuperAdmin !== 1 && policy.companyId !== user.companyId)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Access policy not found" });
+  }
+
+  await assertCanManagePolicies(user, policy.companyId);
+  return policy;
+}
+
+function toPolicyRecord(policy: AccessPolicy) {
+  const rule = parsePolicyRow(policy);
+  return {
+    ...rule,
+    companyId: policy.companyId,
+    description: policy.description,
+    createdBy: policy.createdBy,
+    createdAt: policy.createdAt,
+    updatedAt: policy.updatedAt,
+  };
+}
+
+export const accessPoliciesRouter = router({
+  /**
+   * Actions, roles and attributes the policy editor offers
+   */
+  options: protectedProcedure.query(() => ({
+    actions: POLICY_ACTIONS,
+    companyRoles: [...COMPANY_ROLES],
+    projectAttributes: [...PROJECT_POLICY_ATTRIBUTES],
+    assetAttributes: [...ASSET_POLICY_ATTRIBUTES],
+  })),
+
+  list: protectedProcedure
+    .input(z.object({ companyId: z.number().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const companyId = resolveCompanyId(ctx.user, input?.companyId);
+      await assertCanManagePolicies(ctx.user, companyId);
+
+      const policies = await accessPoliciesDb.getCompanyPolicies(companyId);
+      return policies.map(toPolicyRecord);
+    }),
+
+  create: protectedProcedure
+    .input(policyFieldsSchema.extend({
+      companyId: z.number().optional(),
+      subjectRoles: z.array(z.enum(COMPANY_ROLES)).default([]),
+      subjectUserIds: z.array(z.number()).default([]),
+      conditions: policyConditionsSchema.default({}),
+      isActive: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { companyId: requestedCompanyId, isActive, ...policy } = input;
+      const companyId = resolveCompanyId(ctx.user, requestedCompanyId);
+      await assertCanManagePolicies(ctx.user, companyId);
+
+      const id = await accessPoliciesDb.createPolicy({
+        ...policy,
+        companyId,
+        isActive: isActive ? 1 : 0,
+        createdBy: ctx.user.id,
+      });
+
+      await createAuditLog({
+        user: ctx.user,
+        actionType: "create",
+        entityType: "company",
+        entityId: id,
+        entityName: input.name,
+        module: "access_policies",
+        afterState: { ...policy, isActive },
+        changesSummary: `Created ${input.effect} policy "${input.name}"`,
+        status: "success",
+      });
+
+      return { id };
+    }),
+
+  update: protectedProcedure
+    .input(policyFieldsSchema.partial().extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await getAccessiblePolicy(ctx.user, input.id);
+      const { id, isActive, ...updates } = input;
+
+      await accessPoliciesDb.updatePolicy(id, existing.companyId, {
+        ...updates,
+        ...(isActive !== undefined ? { isActive: isActive ? 1 : 0 } : {}),
+      });
+
+      await createAuditLog({
+        user: ctx.user,
+        actionType: "update",
+        entityType: "company",
+        entityId: id,
+        entityName: updates.name ?? existing.name,
+        module: "access_policies",
+        beforeState: toPolicyRecord(existing),
+        afterState: { ...updates, isActive },
+        changesSummary: `Updated policy "${existing.name}"`,
+        status: "success",
+      });
+
+      return { success: true };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await getAccessiblePolicy(ctx.user, input.id);
+      await accessPoliciesDb.deletePolicy(input.id, existing.companyId);
+
+      await createAuditLog({
+        user: ctx.user,
+        actionType: "delete",
+        entityType: "company",
+        entityId: input.id,
+        entityName: existing.name,
+        module: "access_policies",
+        beforeState: toPolicyRecord(existing),
+        changesSummary: `Deleted policy "${existing.name}"`,
+        status: "success",
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Explain why an action on a project, asset or component is allowed or denied.
+   * Users can explain their own access; policy managers can check any user's.
+   */
+  explain: protectedProcedure
+    .input(z.object({
+      action: z.enum(POLICY_ACTIONS as [string, ...string[]]),
+      projectId: z.number(),
+      assetId: z.number().optional(),
+      componentCode: z.string().optional(),
+      userId: z.number().optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+      const project = await db.getProjectById(
+        input.projectId,
+        ctx.user.id,
+        ctx.user.company,
+        ctx.user.role === "admin",
+        ctx.user.companyId,
+        isSuperAdmin
+      );
+      if (!project) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+      }
+      if (input.assetId && !(await assetsDb.getAssetById(input.assetId, input.projectId))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Asset not found" });
+      }
+
+      let subject: User = ctx.user;
+
+      if (input.userId && input.userId !== ctx.user.id) {
+        const other = await db.getUserById(input.userId);
+        if (!other || !other.companyId || (!isSuperAdmin && other.companyId !== ctx.user.companyId)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+        }
+        await assertCanManagePolicies(ctx.user, other.companyId);
+        subject = other;
+      }
+
+      return await checkAccess(subject, {
+        action: input.action as (typeof POLICY_ACTIONS)[number],
+        projectId: input.projectId,
+        assetId: input.assetId,
+        componentCode: input.componentCode,
+      });
+    }),
+});
@@ -0,0 +1,230 @@
+/**
+ * API Keys Router
+ * Issue, list and revoke company-scoped keys for the public REST API (/api/v1)
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq, and, desc, count, gte, sql } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import * as companyRolesDb from "../companyRolesDb";
+import { apiKeys, auditLogs, type ApiKey, type User } from "../../drizzle/schema";
+import {
+  API_KEY_HEADER,
+  generateApiKey,
+  getKeyLookupPrefix,
+  getKeyStatus,
+  hashApiKey,
+  parseKeyScopes,
+} from "../services/apiKeyService";
+import {
+  API_KEY_ROLES,
+  API_KEY_ROLE_LEVEL,
+  API_KEY_SCOPES,
+  PUBLIC_API_VERSION,
+  resolveKeyScopes,
+  type ApiKeyRole,
+} from "../../shared/publicApi";
+
+/**
+ * Resolve the company a request operates on
+ * Super admins may target any company; everyone else is pinned to their own
+ */
+function resolveCompanyId(user: User, requestedCompanyId?: number): number {
+  if (user.isSuperAdmin === 1 && requestedCompanyId) return requestedCompanyId;
+  if (!user.companyId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "User is not associated with a company" });
+  }
+  return user.companyId;
+}
+
+/**
+ * Highest key role the user may issue for a company: platform admins may issue any role,
+ * company admins may issue up to their own role
+ */
+async function getMaxIssuableRole(user: User, companyId: number): Promise<ApiKeyRole> {
+  if (user.role === "admin" || user.isSuperAdmin === 1) return "company_admin";
+
+  const membership = await companyRolesDb.getUserRoleInCompany(user.id, companyId);
+  if (!membership || membership.companyRole !== "company_admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Company admin access required to manage API keys" });
+  }
+  return membership.companyRole;
+}
+
+async function getAccessibleKey(user: User, keyId: number): Promise<ApiKey> {
+  const database = await getDb();
+  if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+  const [key] = await database.select().from(apiKeys).where(eq(apiKeys.id, keyId)).limit(1);
+  if (!key || (user.isSuperAdmin !== 1 && key.companyId !== user.companyId)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "API key not found" });
+  }
+
+  await getMaxIssuableRole(user, key.companyId);
+  return key;
+}
+
+/**
+ * Strip the key hash and expand the effective scopes
+ */
+function toPublicKey(key: ApiKey) {
+  const { keyHash, ...rest } = key;
+  return {
+    ...rest,
+    scopes: resolveKeyScopes(key.role, parseKeyScopes(key.scopes)),
+    status: getKeyStatus(key),
+  };
+}
+
+export const apiKeysRouter = router({
+  /**
+   * Roles, scopes and usage details for the management screen
+   */
+  options: protectedProcedure.query(() => ({
+    roles: [...API_KEY_ROLES],
+    scopes: API_KEY_SCOPES,
+    header: API_KEY_HEADER,
+    baseUrl: `/api/${PUBLIC_API_VERSION}`,
+    openApiUrl: `/api/${PUBLIC_API_VERSION}/openapi.json`,
+  })),
+
+  /**
+   * List API keys for the user's company
+   */
+  list: protectedProcedure
+    .input(z.object({ companyId: z.number().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const companyId = resolveCompanyId(ctx.user, input?.companyId);
+      await getMaxIssuableRole(ctx.user, companyId);
+
+      const database = await getDb();
+      if (!database) return [];
+
+      const keys = await database
+        .select()
+        .from(apiKeys)
+        .where(eq(apiKeys.companyId, companyId))
+        .orderBy(desc(apiKeys.createdAt));
+
+      return keys.map(toPublicKey);
+    }),
+
+  /**
+   * Issue a key; the raw key is only returned here
+   */
+  create: protectedProcedure
+    .input(z.object({
+      companyId: z.number().optional(),
+      name: z.string().min(1).max(255),
+      role: z.enum(API_KEY_ROLES).default("viewer"),
+      scopes: z.array(z.enum(API_KEY_SCOPES as [string, ...string[]])).optional(),
+      rateLimitPerMinute: z.number().int().min(1).max(6000).default(60),
+      expiresAt: z.string().datetime().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const companyId = resolveCompanyId(ctx.user, input.companyId);
+      const maxRole = await getMaxIssuableRole(ctx.user, companyId);
+
+      if (API_KEY_ROLE_LEVEL[input.role] > API_KEY_ROLE_LEVEL[maxRole]) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Cannot issue a key with a higher role than your own" });
+      }
+
+      const scopes = input.scopes ? Array.from(new Set(input.scopes)) : null;
+      if (scopes && resolveKeyScopes(input.role, scopes).length !== scopes.length) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `The ${input.role} role cannot grant write scopes` });
+      }
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const rawKey = generateApiKey();
+      const result = await database.insert(apiKeys).values({
+        companyId,
+        name: input.name,
+        keyPrefix: getKeyLookupPrefix(rawKey),
+        keyHash: hashApiKey(rawKey),
+        role: input.role,
+        scopes,
+        rateLimitPerMinute: input.rateLimitPerMinute,
+        expiresAt: input.expiresAt ? input.expiresAt.slice(0, 19).replace("T", " ") : null,
+        createdBy: ctx.user.id,
+      });
+
+      return { id: Number(result[0].insertId), key: rawKey };
+    }),
+
+  /**
+   * Update a key's name or rate limit
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      name: z.string().min(1).max(255).optional(),
+      rateLimitPerMinute: z.number().int().min(1).max(6000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await getAccessibleKey(ctx.user, input.id);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const { id, ...updates } = input;
+      await database.update(apiKeys).set(updates).where(eq(apiKeys.id, id));
+      return { success: true };
+    }),
+
+  /**
+   * Revoke a key immediately; revoked keys are kept for the audit trail
+   */
+  revoke: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const key = await getAccessibleKey(ctx.user, input.id);
+      if (key.revokedAt) return { success: true };
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      await database
+        .update(apiKeys)
+        .set({ revokedAt: sql`CURRENT_TIMESTAMP`, revokedBy: ctx.user.id })
+        .where(eq(apiKeys.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Calls made with a key over the last N days, from the audit log
+   */
+  usage: protectedProcedure
+    .input(z.object({ id: z.number(), days: z.number().int().min(1).max(90).default(30) }))
+    .query(async ({ ctx, input }) => {
+      const key = await getAccessibleKey(ctx.user, input.id);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const since = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000).toISOString().slice(0, 19).replace("T", " ");
+      const rows = await database
+        .select({ status: auditLogs.status, count: count() })
+        .from(auditLogs)
+        .where(and(
+          eq(auditLogs.companyId, key.companyId),
+          eq(auditLogs.actionType, "api_access"),
+          gte(auditLogs.timestamp, since),
+          // createAuditLog stores metadata as serialized JSON text
+          sql`JSON_EXTRACT(JSON_UNQUOTE(${auditLogs.metadata}), '$.apiKeyId') = ${key.id}`
+        ))
+        .groupBy(auditLogs.status);
+
+      const usage = { total: 0, success: 0, failed: 0 };
+      for (const row of rows) {
+        if (row.status === "success") usage.success += row.count;
+        else usage.failed += row.count;
+        usage.total += row.count;
+      }
+      return usage;
+    }),
+});
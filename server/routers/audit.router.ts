@@ -4,6 +4,110 @@ import { adminProcedure, router } from "../_core/trpc";
 import { getDb } from "../db";
 import { auditLog, users } from "../../drizzle/schema";
 import { TRPCError } from "@trpc/server";
+import crypto from "crypto";
+import { getSigningKeyId, signManifest } from "../auditChain";
+import {
+  createAuditCheckpoints,
+  getAuditChainProof,
+  getAuditChainSecret,
+  getAuditChainSummaries,
+  sealAuditChains,
+  verifyAuditChain,
+} from "../services/auditChain.service";
+
+const exportLogsInput = z.object({
+  entityType: z.string().optional(),
+  startDate: z.date().optional(),
+  endDate: z.date().optional(),
+});
+
+/**
+ * Build the CSV export of audit_log entries; ids are returned for the chain proof
+ */
+async function buildAuditLogExport(input: z.infer<typeof exportLogsInput>) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+  // Build where conditions
+  const conditions = [];
+  
+  if (input.entityType) {
+    conditions.push(eq(auditLog.entityType, input.entityType));
+  }
+  
+  if (input.startDate) {
+    conditions.push(gte(auditLog.createdAt, input.startDate.toISOString()));
+  }
+  
+  if (input.endDate) {
+    conditions.push(lte(auditLog.createdAt, input.endDate.toISOString()));
+  }
+
+  // Get all matching logs
+  const logs = await db
+    .select({
+      id: auditLog.id,
+      userId: auditLog.userId,
+      userName: users.name,
+      userEmail: users.email,
+      entityType: auditLog.entityType,
+      entityId: auditLog.entityId,
+      action: auditLog.action,
+      changes: auditLog.changes,
+      ipAddress: auditLog.ipAddress,
+      userAgent: auditLog.userAgent,
+      dataClassification: auditLog.dataClassification,
+      createdAt: auditLog.createdAt,
+    })
+    .from(auditLog)
+    .leftJoin(users, eq(auditLog.userId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(auditLog.createdAt));
+
+  // Convert to CSV
+  const headers = [
+    "ID",
+    "Timestamp",
+    "User ID",
+    "User Name",
+    "User Email",
+    "Entity Type",
+    "Entity ID",
+    "Action",
+    "Changes",
+    "IP Address",
+    "User Agent",
+    "Data Classification",
+  ];
+
+  const rows = logs.map((log) => [
+    log.id,
+    new Date(log.createdAt).toISOString(),
+    log.userId,
+    log.userName || "",
+    log.userEmail || "",
+    log.entityType,
+    log.entityId,
+    log.action,
+    log.changes || "",
+    log.ipAddress || "",
+    log.userAgent || "",
+    log.dataClassification || "",
+  ]);
+
+  const csv = [
+    headers.join(","),
+    ...rows.map((row) =>
+      row.map((cell) => `"${String(cell).replace(/"/g, '""')}`).join(",")
+    ),
+  ].join("\n");
+
+  return {
+    csv,
+    filename: `audit_logs_${new Date().toISOString().split('T')[0]}.csv`,
+    ids: logs.map((log) => log.id),
+  };
+}
 
 /**
  * Audit log router - admin-only access to system audit logs
@@ -309,91 +413,68 @@ export const auditRouter = router({
    * Export audit logs to CSV for security audits
    */
   exportLogs: adminProcedure
-    .input(
-      z.object({
-        entityType: z.string().optional(),
-        startDate: z.date().optional(),
-        endDate: z.date().optional(),
-      })
-    )
+    .input(exportLogsInput)
     .query(async ({ input }) => {
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+      const { csv, filename } = await buildAuditLogExport(input);
+      return { csv, filename };
+    }),
 
-      // Build where conditions
-      const conditions = [];
-      
-      if (input.entityType) {
-        conditions.push(eq(auditLog.entityType, input.entityType));
-      }
-      
-      if (input.startDate) {
-        conditions.push(gte(auditLog.createdAt, input.startDate.toISOString()));
-      }
-      
-      if (input.endDate) {
-        conditions.push(lte(auditLog.createdAt, input.endDate.toISOString()));
-      }
+  /**
+   * Length, head and latest signed checkpoint of each company's audit chain
+   */
+  chainStatus: adminProcedure.query(async () => {
+    return await getAuditChainSummaries();
+  }),
 
-      // Get all matching logs
-      const logs = await db
-        .select({
-          id: auditLog.id,
-          userId: auditLog.userId,
-          userName: users.name,
-          userEmail: users.email,
-          entityType: auditLog.entityType,
-          entityId: auditLog.entityId,
-          action: auditLog.action,
-          changes: auditLog.changes,
-          ipAddress: auditLog.ipAddress,
-          userAgent: auditLog.userAgent,
-          dataClassification: auditLog.dataClassification,
-          createdAt: auditLog.createdAt,
-        })
-        .from(auditLog)
-        .leftJoin(users, eq(auditLog.userId, users.id))
-        .where(conditions.length > 0 ? and(...conditions) : undefined)
-        .orderBy(desc(auditLog.createdAt));
+  /**
+   * Seal pending audit entries and sign checkpoints now instead of waiting for the schedule
+   */
+  sealChain: adminProcedure.mutation(async () => {
+    const sealed = await sealAuditChains();
+    const checkpoints = await createAuditCheckpoints();
+    return { sealed, checkpoints };
+  }),
 
-      // Convert to CSV
-      const headers = [
-        "ID",
-        "Timestamp",
-        "User ID",
-        "User Name",
-        "User Email",
-        "Entity Type",
-        "Entity ID",
-        "Action",
-        "Changes",
-        "IP Address",
-        "User Agent",
-        "Data Classification",
-      ];
+  /**
+   * Verify a company's audit chain (null for the platform chain) and report the first broken link
+   */
+  verifyChain: adminProcedure
+    .input(z.object({ companyId: z.number().nullable() }))
+    .mutation(async ({ input }) => {
+      return await verifyAuditChain(input.companyId);
+    }),
 
-      const rows = logs.map((log) => [
-        log.id,
-        new Date(log.createdAt).toISOString(),
-        log.userId,
-        log.userName || "",
-        log.userEmail || "",
-        log.entityType,
-        log.entityId,
-        log.action,
-        log.changes || "",
-        log.ipAddress || "",
-        log.userAgent || "",
-        log.dataClassification || "",
-      ]);
-
-      const csv = [
-        headers.join(","),
-        ...rows.map((row) =>
-          row.map((cell) => `"${String(cell).replace(/"/g, '""')}`).join(",")
-        ),
-      ].join("\n");
-
-      return { csv, filename: `audit_logs_${new Date().toISOString().split('T')[0]}.csv` };
+  /**
+   * Export bundle for auditors: the exportLogs CSV plus the chain proof for every exported
+   * entry, the verification report and signed checkpoints of each chain involved
+   */
+  exportBundle: adminProcedure
+    .input(exportLogsInput)
+    .mutation(async ({ input }) => {
+      await sealAuditChains();
+      const { csv, filename, ids } = await buildAuditLogExport(input);
+      const proof = await getAuditChainProof("audit_log", ids);
+      const secret = getAuditChainSecret();
+
+      const manifest = {
+        format: "bca-audit-bundle/1",
+        generatedAt: new Date().toISOString(),
+        filters: {
+          entityType: input.entityType ?? null,
+          startDate: input.startDate?.toISOString() ?? null,
+          endDate: input.endDate?.toISOString() ?? null,
+        },
+        csvFilename: filename,
+        csvSha256: crypto.createHash("sha256").update(csv).digest("hex"),
+        entryCount: ids.length,
+        signingKeyId: getSigningKeyId(secret),
+        ...proof,
+      };
+
+      return {
+        filename: filename.replace(/\.csv$/, "_bundle.json"),
+        valid: proof.chains.every((chain) => chain.verification.valid),
+        bundle: JSON.stringify({ manifest, signature: signManifest(manifest, secret), csv }, null, 2),
+      };
     }),
 });
@@ -39,7 +39,7 @@ export const auditLogsRouter = router({
         // Filters
         userId: z.number().optional(),
         companyId: z.number().optional(),
-        actionType: z.enum(['create', 'update', 'delete', 'recalculate', 'import', 'export', 'bulk_delete', 'bulk_update']).optional(),
+        actionType: z.enum(['create', 'update', 'delete', 'recalculate', 'import', 'export', 'bulk_delete', 'bulk_update', 'api_access', 'share_view']).optional(),
         entityType: z.enum([
           'project',
           'asset',
@@ -163,7 +163,7 @@ export const auditLogsRouter = router({
       z.object({
         userId: z.number().optional(),
         companyId: z.number().optional(),
-        actionType: z.enum(['create', 'update', 'delete', 'recalculate', 'import', 'export', 'bulk_delete', 'bulk_update']).optional(),
+        actionType: z.enum(['create', 'update', 'delete', 'recalculate', 'import', 'export', 'bulk_delete', 'bulk_update', 'api_access', 'share_view']).optional(),
         entityType: z.enum([
           'project',
           'asset',
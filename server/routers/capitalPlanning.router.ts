@@ -2,6 +2,7 @@ import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import * as capitalPlanningDb from "../db/capitalPlanning.db";
+import { runCycleSimulation } from "../services/capitalPlanSimulation.service";
 
 /**
  * Capital Planning Router
@@ -237,4 +238,77 @@ export const capitalPlanningRouter = router({
       const analytics = await capitalPlanningDb.getCycleAnalytics(input.cycleId);
       return { success: true, analytics };
     }),
+
+  // ============================================================================
+  // MONTE CARLO SIMULATION
+  // ============================================================================
+
+  runSimulation: protectedProcedure
+    .input(
+      z.object({
+        cycleId: z.number(),
+        name: z.string().max(255).optional(),
+        iterations: z.number().int().min(100).max(5000).optional(),
+        seed: z.number().int().min(0).max(2 ** 31 - 1).optional(),
+        costUncertaintyLow: z.number().min(0).max(0.9).optional(),
+        costUncertaintyHigh: z.number().min(0).max(3).optional(),
+        inflationVolatility: z.number().min(0).max(10).optional(),
+        failureThreshold: z.number().min(0).max(90).optional(),
+        facilityId: z.number().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const cycle = await capitalPlanningDb.getCycleById(input.cycleId);
+      if (!cycle) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Cycle not found",
+        });
+      }
+
+      const { cycleId, ...overrides } = input;
+      return await runCycleSimulation(cycleId, overrides, ctx.user.id);
+    }),
+
+  getSimulationRuns: protectedProcedure
+    .input(z.object({ cycleId: z.number() }))
+    .query(async ({ input }) => {
+      return await capitalPlanningDb.getSimulationRuns(input.cycleId);
+    }),
+
+  getSimulationRun: protectedProcedure
+    .input(z.object({ runId: z.number() }))
+    .query(async ({ input }) => {
+      const run = await capitalPlanningDb.getSimulationRun(input.runId);
+      if (!run) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Simulation run not found",
+        });
+      }
+      return run;
+    }),
+
+  compareSimulationRuns: protectedProcedure
+    .input(z.object({ runIds: z.array(z.number()).min(2).max(5) }))
+    .query(async ({ input }) => {
+      const runs = await Promise.all(input.runIds.map((id) => capitalPlanningDb.getSimulationRun(id)));
+      const completed = runs.filter((run) => run?.status === "completed" && run.results);
+
+      if (completed.length !== input.runIds.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only completed simulation runs can be compared",
+        });
+      }
+
+      return completed;
+    }),
+
+  deleteSimulationRun: protectedProcedure
+    .input(z.object({ runId: z.number() }))
+    .mutation(async ({ input }) => {
+      await capitalPlanningDb.deleteSimulationRun(input.runId);
+      return { success: true };
+    }),
 });
@@ -1,8 +1,9 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
-import { invokeLLM } from "../_core/llm";
 import * as db from "../db";
 import * as assetsDb from "../db-assets";
+import { createChatbotToolContext } from "../services/chatbotTools.service";
+import { runChatbotAgent } from "../services/chatbotAgent.service";
 
 /**
  * System prompt that provides the chatbot with knowledge about the BCA app features
@@ -110,6 +111,18 @@ B³NMA is a comprehensive Building Condition Assessment platform designed for pr
 - If context about a specific project or asset is provided, use that information to give tailored advice
 - If you're unsure about something, suggest they contact support or check the documentation`;
 
+/**
+ * Instructions for answering from live portfolio data with the chatbot tools
+ */
+const PORTFOLIO_TOOLS_PROMPT = `
+
+## Live Portfolio Data
+You have read-only tools for the user's projects, assets, FCI, deficiencies and capital budget cycles. They only return records this user is allowed to see.
+- For any question about the user's own buildings, numbers or priorities, call the tools instead of answering generally. Never make up figures.
+- Combine tools over several steps when needed, e.g. search_projects to find schools, then get_project_fci and query_deficiencies with those projectIds.
+- Every record has a "ref" such as project:12. Cite each record you mention by writing its ref in square brackets right after it, e.g. "Central High School [project:12] has an FCI of 0.34". Only cite refs the tools returned.
+- If the tools return nothing that matches, say so plainly.`;
+
 /**
  * Context-aware system prompt builder that includes project/asset data when available
  */
@@ -122,7 +135,7 @@ function buildContextAwarePrompt(context?: {
   deficiencies?: any[];
   assessments?: any[];
 }): string {
-  let prompt = BCA_SYSTEM_PROMPT;
+  let prompt = BCA_SYSTEM_PROMPT + PORTFOLIO_TOOLS_PROMPT;
 
   if (context?.projectData) {
     const project = context.projectData;
@@ -186,7 +199,7 @@ You are currently helping with the following asset:
 
   prompt += `
 
-When the user asks questions, consider this context to provide relevant, specific answers. You can reference the project/asset details, statistics, and deficiencies in your responses.`;
+When the user asks questions, consider this context to provide relevant, specific answers. You can reference the project/asset details, statistics, and deficiencies in your responses.${context?.projectId ? ` This is project:${context.projectId}; pass it as projectIds when calling tools about "this project".` : ''}`;
 
   return prompt;
 }
@@ -287,16 +300,18 @@ export const chatbotRouter = router({
       ];
 
       try {
-        const response = await invokeLLM({ messages });
-        
-        const assistantMessage = response.choices[0]?.message?.content;
-        
-        if (!assistantMessage || typeof assistantMessage !== "string") {
+        const { response, citations } = await runChatbotAgent({
+          messages,
+          context: createChatbotToolContext(ctx.user),
+        });
+
+        if (!response) {
           throw new Error("Invalid response from AI service");
         }
 
         return {
-          response: assistantMessage,
+          response,
+          citations,
         };
       } catch (error) {
         console.error("[Chatbot] Error:", error);
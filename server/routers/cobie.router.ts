@@ -0,0 +1,95 @@
+/**
+ * COBie Router
+ * COBie 2.4 handover workbook export for a project, and a validate-then-commit
+ * importer that seeds assets and components from an owner's COBie file
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import * as db from "../db";
+import { commitCobieImport, exportProjectCobie, validateCobieImport } from "../services/cobie.service";
+import type { User } from "../../drizzle/schema";
+
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const workbookFile = {
+  fileName: z.string().min(1).max(255).regex(/\.xlsx$/i, "COBie workbook must be an .xlsx file"),
+  fileContent: z.string().min(1), // Base64-encoded
+};
+
+async function requireProjectAccess(user: User, projectId: number) {
+  const isAdmin = user.role === "admin";
+  const isSuperAdmin = user.isSuperAdmin === 1;
+  const project = await db.getProjectById(projectId, user.id, user.company, isAdmin, user.companyId, isSuperAdmin);
+  if (!project) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Project not found or you don't have access to it" });
+  }
+  return project;
+}
+
+function decodeWorkbook(fileContent: string): Buffer {
+  const content = Buffer.from(fileContent, "base64");
+  if (content.length > MAX_UPLOAD_BYTES) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "COBie workbook exceeds the 25MB limit" });
+  }
+  return content;
+}
+
+export const cobieRouter = router({
+  /**
+   * COBie 2.4 workbook (Contact, Facility, Floor, Space, Type, Component, Job) as base64
+   */
+  export: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const project = await requireProjectAccess(ctx.user, input.projectId);
+      const { buffer, filename } = await exportProjectCobie(project, ctx.user);
+      return { data: buffer.toString("base64"), filename };
+    }),
+
+  /**
+   * Parse a COBie workbook and run it through import validation; nothing is written to the project
+   */
+  validateImport: protectedProcedure
+    .input(z.object({ projectId: z.number(), ...workbookFile }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(ctx.user, input.projectId);
+      const content = decodeWorkbook(input.fileContent);
+
+      try {
+        return await validateCobieImport(content, input.projectId, ctx.user, input.fileName);
+      } catch (error: any) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+      }
+    }),
+
+  /**
+   * Commit a validated COBie workbook
+   */
+  import: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      ...workbookFile,
+      assetsSessionId: z.string().min(1),
+      componentsSessionId: z.string().min(1),
+      behavior: z.enum(["skip_duplicates", "update_existing"]).default("skip_duplicates"),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(ctx.user, input.projectId);
+      const content = decodeWorkbook(input.fileContent);
+
+      try {
+        return await commitCobieImport({
+          content,
+          projectId: input.projectId,
+          user: ctx.user,
+          assetsSessionId: input.assetsSessionId,
+          componentsSessionId: input.componentsSessionId,
+          behavior: input.behavior,
+        });
+      } catch (error: any) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+      }
+    }),
+});
@@ -17,6 +17,7 @@ import {
   photos,
 } from "../../drizzle/schema";
 import { ReportGeneratorService } from "../services/reportGenerator.service";
+import { resolveLanguage } from "../../shared/i18n";
 import { storagePut } from "../storage";
 import * as db from "../db";
 import * as dashboardData from "../dashboardData";
@@ -533,6 +534,8 @@ export const customReportsRouter = router({
       templateId: z.number().optional(),
       reportName: z.string().min(1).max(255),
       format: z.enum(['pdf', 'excel', 'word', 'html']).default('pdf'),
+      // Defaults to the user's language preference
+      language: z.enum(['en', 'fr']).optional(),
       sectionContent: z.array(z.object({
         sectionId: z.number().optional(),
         sectionName: z.string(),
@@ -667,7 +670,8 @@ export const customReportsRouter = router({
         sectionsForReport,
         configuration,
         reportData,
-        input.format
+        input.format,
+        input.language ?? resolveLanguage(ctx.user.languagePreference)
       );
 
       // Upload to S3
@@ -8,6 +8,13 @@ import {
 } from "../../drizzle/schema";
 import { eq, desc } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
+import { RETENTION_DATA_TYPES } from "../../shared/retention";
+import {
+  getDisposalCertificate,
+  getLegalHolds,
+  runRetentionPolicies,
+  setProjectLegalHold,
+} from "../services/retentionPolicy.service";
 
 export const dataSecurityRouter = router({
   // Get all retention policies
@@ -30,11 +37,40 @@ export const dataSecurityRouter = router({
       .orderBy(dataRetentionPolicies.dataType);
   }),
 
+  // Create a retention policy; companyId null makes it the default for every company
+  createRetentionPolicy: adminProcedure
+    .input(z.object({
+      policyName: z.string().min(1).max(255),
+      dataType: z.enum(RETENTION_DATA_TYPES),
+      companyId: z.number().nullable(),
+      retentionPeriodYears: z.number().min(1).max(50),
+      retentionPeriodDays: z.number().min(1).max(36500).nullable().optional(),
+      description: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+      const result = await db.insert(dataRetentionPolicies).values({
+        policyName: input.policyName,
+        dataType: input.dataType,
+        companyId: input.companyId,
+        retentionPeriodYears: input.retentionPeriodYears,
+        retentionPeriodDays: input.retentionPeriodDays ?? null,
+        description: input.description,
+        isActive: 1,
+        createdBy: ctx.user.id,
+      });
+
+      return { success: true, policyId: Number(result[0].insertId) };
+    }),
+
   // Update retention policy
   updateRetentionPolicy: adminProcedure
     .input(z.object({
       id: z.number(),
       retentionPeriodYears: z.number().min(1).max(50),
+      retentionPeriodDays: z.number().min(1).max(36500).nullable().optional(),
       description: z.string().optional(),
       isActive: z.number().min(0).max(1),
     }))
@@ -46,6 +82,7 @@ export const dataSecurityRouter = router({
         .update(dataRetentionPolicies)
         .set({
           retentionPeriodYears: input.retentionPeriodYears,
+          retentionPeriodDays: input.retentionPeriodDays,
           description: input.description,
           isActive: input.isActive,
         })
@@ -54,6 +91,49 @@ export const dataSecurityRouter = router({
       return { success: true };
     }),
 
+  // Preview what the retention policies would dispose of right now, without deleting anything
+  previewRetention: adminProcedure.query(async () => {
+    return await runRetentionPolicies({ dryRun: true });
+  }),
+
+  // Projects under legal hold, which retention policies never dispose of
+  getLegalHolds: adminProcedure.query(async ({ ctx }) => {
+    return await getLegalHolds(ctx.user.isSuperAdmin === 1 ? null : ctx.user.company);
+  }),
+
+  // Place or release a legal hold on a project
+  setProjectLegalHold: adminProcedure
+    .input(z.object({
+      projectId: z.number(),
+      hold: z.boolean(),
+      reason: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.hold && !input.reason?.trim()) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A reason is required to place a legal hold" });
+      }
+
+      const project = await setProjectLegalHold(
+        input.projectId,
+        input.hold,
+        input.reason?.trim() || null,
+        ctx.user,
+        ctx.user.isSuperAdmin === 1 ? null : ctx.user.company
+      );
+      if (!project) throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+
+      return { success: true, project };
+    }),
+
+  // Certificate of disposal recorded by a retention policy run
+  getDisposalCertificate: adminProcedure
+    .input(z.object({ requestId: z.number() }))
+    .query(async ({ input }) => {
+      const certificate = await getDisposalCertificate(input.requestId);
+      if (!certificate) throw new TRPCError({ code: "NOT_FOUND", message: "No certificate of disposal for this request" });
+      return certificate;
+    }),
+
   // Get encryption key metadata
   getEncryptionKeys: adminProcedure.query(async () => {
     const db = await getDb();
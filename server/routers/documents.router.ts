@@ -3,6 +3,7 @@ import { protectedProcedure, router } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import * as db from "../db";
 import { storagePut } from "../storage";
+import { extractDocumentText, isTextExtractable, queueSearchIndex } from "../services/searchIndex.service";
 import { projectDocuments, assessmentDocuments } from "../../drizzle/schema";
 import { eq, and } from "drizzle-orm";
 
@@ -17,6 +18,7 @@ export const documentsRouter = router({
    * - Validates user has access to the project
    * - Uploads file to S3
    * - Creates database record
+   * - Extracts the document's text for search in the background
    */
   uploadProjectDocument: protectedProcedure
     .input(
@@ -69,11 +71,22 @@ export const documentsRouter = router({
         fileSize,
         uploadedBy: ctx.user.id,
         description: description || null,
+        extractedText: isTextExtractable(mimeType) ? null : "",
       });
+      const documentId = Number((result as any)[0]?.insertId ?? (result as any).insertId ?? 0);
+
+      if (documentId && isTextExtractable(mimeType)) {
+        void extractDocumentText(fileBuffer, mimeType)
+          .then(extractedText => database.update(projectDocuments).set({ extractedText }).where(eq(projectDocuments.id, documentId)))
+          .then(() => queueSearchIndex("project_document", documentId))
+          .catch(error => console.error("[Documents] Failed to extract text for search:", error));
+      } else {
+        queueSearchIndex("project_document", documentId);
+      }
 
       return {
         success: true,
-        documentId: (result as any).insertId ? Number((result as any).insertId) : 0,
+        documentId,
         url,
       };
     }),
@@ -261,6 +274,7 @@ export const documentsRouter = router({
             eq(projectDocuments.projectId, projectId)
           )
         );
+      queueSearchIndex("project_document", documentId);
 
       return { success: true };
     }),
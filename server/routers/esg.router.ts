@@ -4,6 +4,7 @@ import * as esgDb from "../db/esg.db";
 import * as emissionsCalc from "../services/emissionsCalculator.service";
 import * as esgScoring from "../services/esgScoring.service";
 import { generateESGReportPDF, getESGReports } from "../services/esgReportGenerator.service";
+import { resolveLanguage } from "../../shared/i18n";
 
 export const esgRouter = router({
   // Utility consumption tracking
@@ -324,8 +325,10 @@ export const esgRouter = router({
       includeGoals: z.boolean().default(true),
       reportPeriodStart: z.date().optional(),
       reportPeriodEnd: z.date().optional(),
+      // Defaults to the user's language preference
+      language: z.enum(["en", "fr"]).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const result = await generateESGReportPDF(input.projectId, {
         includePortfolioSummary: input.includePortfolioSummary,
         includeAssetBreakdown: input.includeAssetBreakdown,
@@ -335,6 +338,7 @@ export const esgRouter = router({
         includeGoals: input.includeGoals,
         reportPeriodStart: input.reportPeriodStart,
         reportPeriodEnd: input.reportPeriodEnd,
+        language: input.language ?? resolveLanguage(ctx.user.languagePreference),
       });
       return result;
     }),
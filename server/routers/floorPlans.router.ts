@@ -0,0 +1,226 @@
+/**
+ * Floor Plans Router
+ * Upload floor plan images per building section and place photos, deficiencies
+ * and assessments on them as pins
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import * as db from "../db";
+import * as assetsDb from "../db-assets";
+import * as floorPlansDb from "../db/floorPlans.db";
+import { storagePut } from "../storage";
+import type { User } from "../../drizzle/schema";
+
+const pinTypeEnum = z.enum(['photo', 'deficiency', 'assessment']);
+const coordinate = z.number().min(0).max(1);
+
+const ALLOWED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+async function requireProjectAccess(user: User, projectId: number) {
+  const isAdmin = user.role === "admin";
+  const isSuperAdmin = user.isSuperAdmin === 1;
+  const project = await db.getProjectById(projectId, user.id, user.company, isAdmin, user.companyId, isSuperAdmin);
+  if (!project) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Project not found or you don't have access to it" });
+  }
+  return project;
+}
+
+async function requireFloorPlan(user: User, floorPlanId: number) {
+  const plan = await floorPlansDb.getFloorPlanById(floorPlanId);
+  if (!plan) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Floor plan not found" });
+  }
+  await requireProjectAccess(user, plan.projectId);
+  return plan;
+}
+
+/**
+ * Ensure the item being pinned exists and belongs to the same project as the plan
+ */
+async function requirePinTarget(type: z.infer<typeof pinTypeEnum>, id: number, projectId: number) {
+  const targetProjectId = await floorPlansDb.getPinTargetProjectId(type, id);
+  if (targetProjectId === null || targetProjectId !== projectId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `The ${type} was not found in this project` });
+  }
+}
+
+/**
+ * Ensure the section and asset a plan is attached to belong to the plan's project
+ */
+async function requirePlanPlacement(projectId: number, sectionId?: number | null, assetId?: number | null) {
+  if (sectionId) {
+    const section = await db.getBuildingSectionById(sectionId);
+    if (!section || section.projectId !== projectId) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "The building section was not found in this project" });
+    }
+  }
+  if (assetId) {
+    const asset = await assetsDb.getAssetById(assetId, projectId);
+    if (!asset) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "The asset was not found in this project" });
+    }
+  }
+}
+
+export const floorPlansRouter = router({
+  /**
+   * Floor plans for a project, optionally filtered to one building section
+   */
+  list: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      sectionId: z.number().nullable().optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectAccess(ctx.user, input.projectId);
+      return floorPlansDb.getFloorPlans(input.projectId, input.sectionId);
+    }),
+
+  /**
+   * A floor plan with all of its pins
+   */
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const plan = await requireFloorPlan(ctx.user, input.id);
+      const pins = await floorPlansDb.getFloorPlanPins(plan.id);
+      return { ...plan, pins };
+    }),
+
+  /**
+   * Project items that have not been placed on any floor plan yet
+   */
+  unplaced: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectAccess(ctx.user, input.projectId);
+      return floorPlansDb.getUnplacedPinCandidates(input.projectId);
+    }),
+
+  /**
+   * Upload a floor plan image
+   * Image dimensions are measured in the browser and used to keep pins and heat maps in proportion
+   */
+  upload: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      sectionId: z.number().nullable().optional(),
+      assetId: z.number().nullable().optional(),
+      name: z.string().min(1).max(255),
+      description: z.string().optional(),
+      floorLevel: z.string().max(50).optional(),
+      fileName: z.string().min(1),
+      fileData: z.string().min(1), // base64 encoded image
+      mimeType: z.string(),
+      imageWidth: z.number().int().positive().optional(),
+      imageHeight: z.number().int().positive().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(ctx.user, input.projectId);
+      await requirePlanPlacement(input.projectId, input.sectionId, input.assetId);
+
+      if (!ALLOWED_MIME_TYPES.includes(input.mimeType)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Floor plans must be PNG, JPEG or WebP images" });
+      }
+
+      const fileBuffer = Buffer.from(input.fileData, "base64");
+      if (fileBuffer.length > MAX_UPLOAD_BYTES) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Floor plan image exceeds the 20MB limit" });
+      }
+
+      const safeName = input.fileName.replace(/[^a-zA-Z0-9._-]/g, "_");
+      const fileKey = `projects/${input.projectId}/floor-plans/${Date.now()}-${safeName}`;
+      const { url } = await storagePut(fileKey, fileBuffer, input.mimeType);
+
+      const id = await floorPlansDb.createFloorPlan({
+        projectId: input.projectId,
+        sectionId: input.sectionId ?? null,
+        assetId: input.assetId ?? null,
+        name: input.name,
+        description: input.description || null,
+        floorLevel: input.floorLevel || null,
+        imageUrl: url,
+        fileKey,
+        mimeType: input.mimeType,
+        imageWidth: input.imageWidth ?? null,
+        imageHeight: input.imageHeight ?? null,
+        uploadedBy: ctx.user.id,
+      });
+
+      return { id, url };
+    }),
+
+  /**
+   * Update floor plan details
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      name: z.string().min(1).max(255).optional(),
+      description: z.string().nullable().optional(),
+      floorLevel: z.string().max(50).nullable().optional(),
+      sectionId: z.number().nullable().optional(),
+      assetId: z.number().nullable().optional(),
+      sortOrder: z.number().int().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const plan = await requireFloorPlan(ctx.user, input.id);
+      await requirePlanPlacement(plan.projectId, input.sectionId, input.assetId);
+      const { id, ...data } = input;
+      await floorPlansDb.updateFloorPlan(id, data);
+      return { success: true };
+    }),
+
+  /**
+   * Delete a floor plan; pinned items stay in the project but are unplaced
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireFloorPlan(ctx.user, input.id);
+      await floorPlansDb.deleteFloorPlan(input.id);
+      return { success: true };
+    }),
+
+  /**
+   * Place or move a pin
+   */
+  placePin: protectedProcedure
+    .input(z.object({
+      floorPlanId: z.number(),
+      type: pinTypeEnum,
+      id: z.number(),
+      x: coordinate,
+      y: coordinate,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const plan = await requireFloorPlan(ctx.user, input.floorPlanId);
+      await requirePinTarget(input.type, input.id, plan.projectId);
+      await floorPlansDb.setPinPosition(input.type, input.id, {
+        floorPlanId: plan.id,
+        x: input.x,
+        y: input.y,
+      });
+      return { success: true };
+    }),
+
+  /**
+   * Remove a pin from its floor plan
+   */
+  removePin: protectedProcedure
+    .input(z.object({
+      floorPlanId: z.number(),
+      type: pinTypeEnum,
+      id: z.number(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const plan = await requireFloorPlan(ctx.user, input.floorPlanId);
+      await requirePinTarget(input.type, input.id, plan.projectId);
+      await floorPlansDb.setPinPosition(input.type, input.id, null);
+      return { success: true };
+    }),
+});
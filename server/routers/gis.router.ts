@@ -0,0 +1,184 @@
+/**
+ * GIS Router
+ * GeoJSON/KML export of portfolio asset and project locations with condition metrics,
+ * and bulk asset location updates from GeoJSON
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import * as db from "../db";
+import * as gisDb from "../db/gis.db";
+import { makeRequest, type GeocodingResult } from "../_core/map";
+import { createAuditLog } from "../auditLog";
+import {
+  matchAssetLocationUpdates,
+  matchesGisFilters,
+  parseAssetLocationGeoJSON,
+  toGeoJSON,
+  toKml,
+} from "../gis";
+import type { User } from "../../drizzle/schema";
+
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+// Geocoding is a paid, rate-limited API; larger batches should carry geometry
+const MAX_GEOCODE_PER_IMPORT = 250;
+
+const filtersSchema = z.object({
+  assetType: z.string().optional(),
+  conditionLevel: z.string().optional(),
+  fundingStatus: z.string().optional(),
+  companyId: z.number().optional(),
+});
+
+async function getAccessibleProjects(user: User, companyId?: number) {
+  const isAdmin = user.role === "admin";
+  const isSuperAdmin = user.isSuperAdmin === 1;
+  // Super admins may target any company; everyone else is pinned to their own
+  const scopedCompanyId = isSuperAdmin ? companyId ?? user.companyId : user.companyId;
+  return db.getUserProjects(user.id, false, user.company, isAdmin, scopedCompanyId, isSuperAdmin);
+}
+
+async function geocodeAddress(address: string): Promise<{ lat: number; lng: number } | null> {
+  const result = await makeRequest<GeocodingResult>("/maps/api/geocode/json", { address });
+  const location = result.status === "OK" ? result.results[0]?.geometry.location : undefined;
+  return location ? { lat: location.lat, lng: location.lng } : null;
+}
+
+export const gisRouter = router({
+  /**
+   * Asset or project locations as GeoJSON or KML, filtered like ProjectFilterBar
+   */
+  export: protectedProcedure
+    .input(filtersSchema.extend({
+      scope: z.enum(["assets", "projects"]).default("assets"),
+      format: z.enum(["geojson", "kml"]).default("geojson"),
+    }))
+    .query(async ({ ctx, input }) => {
+      const projects = await getAccessibleProjects(ctx.user, input.companyId);
+      const locations = input.scope === "assets"
+        ? await gisDb.getAssetLocations(projects)
+        : await gisDb.getProjectLocations(projects);
+      const filtered = locations.filter(location => matchesGisFilters(location, input));
+
+      const date = new Date().toISOString().split("T")[0];
+      const baseName = `portfolio-${input.scope}-${date}`;
+      if (input.format === "kml") {
+        return {
+          content: toKml(filtered, `Portfolio ${input.scope} (${date})`),
+          filename: `${baseName}.kml`,
+          mimeType: "application/vnd.google-earth.kml+xml",
+          featureCount: filtered.length,
+        };
+      }
+      return {
+        content: JSON.stringify(toGeoJSON(filtered), null, 2),
+        filename: `${baseName}.geojson`,
+        mimeType: "application/geo+json",
+        featureCount: filtered.length,
+      };
+    }),
+
+  /**
+   * Update asset coordinates from a GeoJSON file; features without geometry are geocoded from their address.
+   * Run with dryRun first to review matches.
+   */
+  importAssetLocations: protectedProcedure
+    .input(z.object({
+      fileName: z.string().min(1).max(255).regex(/\.(geo)?json$/i, "File must be GeoJSON (.geojson or .json)"),
+      content: z.string().min(1),
+      geocodeMissing: z.boolean().default(true),
+      overwriteExisting: z.boolean().default(true),
+      dryRun: z.boolean().default(true),
+      companyId: z.number().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (Buffer.byteLength(input.content, "utf8") > MAX_IMPORT_BYTES) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "GeoJSON file exceeds the 20MB limit" });
+      }
+
+      const parsed = parseAssetLocationGeoJSON(input.content);
+      if (parsed.updates.length === 0 && parsed.errors.some(e => e.feature === 0)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: parsed.errors[0].message });
+      }
+
+      const projects = await getAccessibleProjects(ctx.user, input.companyId);
+      const candidates = await gisDb.getMatchableAssets(projects.map(p => p.id));
+      const { matched, unmatched } = matchAssetLocationUpdates(parsed.updates, candidates);
+      const candidatesById = new Map(candidates.map(c => [c.id, c]));
+
+      const skipped: { feature: number; message: string }[] = [];
+      const planned: { feature: number; assetId: number; assetName: string; matchedBy: string; lat: number | null; lng: number | null; geocode: string | null }[] = [];
+      let geocodeCount = 0;
+
+      for (const { update, asset, matchedBy } of matched) {
+        const current = candidatesById.get(asset.id)!;
+        if (!input.overwriteExisting && current.latitude && current.longitude) {
+          skipped.push({ feature: update.feature, message: `${asset.name} already has coordinates` });
+          continue;
+        }
+        if (update.lat === null || update.lng === null) {
+          if (!input.geocodeMissing || !update.address) {
+            skipped.push({ feature: update.feature, message: `${asset.name}: no geometry and geocoding is off` });
+            continue;
+          }
+          if (++geocodeCount > MAX_GEOCODE_PER_IMPORT) {
+            skipped.push({ feature: update.feature, message: `${asset.name}: over the ${MAX_GEOCODE_PER_IMPORT} address geocoding limit` });
+            continue;
+          }
+        }
+        planned.push({
+          feature: update.feature,
+          assetId: asset.id,
+          assetName: asset.name,
+          matchedBy,
+          lat: update.lat,
+          lng: update.lng,
+          geocode: update.lat === null ? update.address : null,
+        });
+      }
+
+      const failed: { feature: number; message: string }[] = [];
+      let updated = 0;
+      let geocoded = 0;
+
+      if (!input.dryRun) {
+        for (const item of planned) {
+          try {
+            let point = item.lat !== null && item.lng !== null ? { lat: item.lat, lng: item.lng } : null;
+            if (!point && item.geocode) {
+              point = await geocodeAddress(item.geocode);
+              if (!point) {
+                failed.push({ feature: item.feature, message: `${item.assetName}: address "${item.geocode}" could not be geocoded` });
+                continue;
+              }
+              geocoded++;
+            }
+            await gisDb.updateAssetLocation(item.assetId, point!.lat, point!.lng);
+            updated++;
+          } catch (error: any) {
+            failed.push({ feature: item.feature, message: `${item.assetName}: ${error.message}` });
+          }
+        }
+
+        await createAuditLog({
+          user: ctx.user,
+          actionType: "bulk_update",
+          entityType: "asset",
+          module: "gis",
+          changesSummary: `Updated ${updated} asset locations from ${input.fileName}`,
+          status: failed.length > 0 ? (updated > 0 ? "partial" : "failed") : "success",
+          metadata: { fileName: input.fileName, updated, geocoded, failed: failed.length },
+        });
+      }
+
+      return {
+        dryRun: input.dryRun,
+        featureCount: parsed.updates.length + parsed.errors.length,
+        planned,
+        updated,
+        geocoded,
+        issues: [...parsed.errors, ...unmatched, ...skipped, ...failed].sort((a, b) => a.feature - b.feature),
+      };
+    }),
+});
@@ -0,0 +1,196 @@
+/**
+ * Integrations Router
+ * Run SAP / TRIRIGA asset imports and review integration run history
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { integrationRuns, type User } from "../../drizzle/schema";
+import { listConnectors } from "../integrations/connector";
+import {
+  getConfiguredEndpointUrl,
+  getIntegrationDropName,
+  getIntegrationRuns,
+  parseRunFailures,
+  runIntegration,
+  type IntegrationInput,
+} from "../integrations/integrationRunner";
+
+const sourceEnum = z.enum(['sap', 'tririga']);
+const runTypeEnum = z.enum(['full', 'incremental']);
+
+// Base64 uploads are capped well below the 50MB request limit
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+function requireAdmin(user: User) {
+  if (user.role !== "admin" && user.isSuperAdmin !== 1) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
+  }
+}
+
+function requireSuperAdmin(user: User) {
+  if (user.isSuperAdmin !== 1) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only super admins can pull from integration endpoints" });
+  }
+}
+
+/**
+ * Resolve the company a run loads into
+ * Super admins may target any company; company admins are pinned to their own
+ */
+function resolveCompanyId(user: User, requestedCompanyId?: number): number {
+  if (user.isSuperAdmin === 1 && requestedCompanyId) return requestedCompanyId;
+  if (!user.companyId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "User is not associated with a company" });
+  }
+  return user.companyId;
+}
+
+async function executeRun(
+  user: User,
+  params: { source: 'sap' | 'tririga'; runType: 'full' | 'incremental'; companyId?: number },
+  input: IntegrationInput
+) {
+  try {
+    return await runIntegration({
+      source: params.source,
+      runType: params.runType,
+      input,
+      companyId: resolveCompanyId(user, params.companyId),
+      triggeredBy: user.id,
+    });
+  } catch (error: any) {
+    if (error instanceof TRPCError) throw error;
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message || "Integration run failed" });
+  }
+}
+
+export const integrationsRouter = router({
+  /**
+   * Available connectors and how each can be fed
+   */
+  connectors: protectedProcedure.query(({ ctx }) => {
+    requireAdmin(ctx.user);
+    return listConnectors().map(connector => ({
+      source: connector.source,
+      label: connector.label,
+      recordTypes: Array.from(new Set(Object.values(connector.recordTypeAliases))),
+      // Relative to the server's drop root; the absolute path is not exposed
+      dropDirectory: ctx.user.companyId ? getIntegrationDropName(connector.source, ctx.user.companyId) : null,
+      // Endpoints are configured once for the platform, so only super admins can pull from them
+      endpointConfigured: ctx.user.isSuperAdmin === 1 && getConfiguredEndpointUrl(connector.source) !== null,
+    }));
+  }),
+
+  /**
+   * Import an uploaded extract file (JSON, CSV or Excel)
+   */
+  runFromFile: protectedProcedure
+    .input(z.object({
+      source: sourceEnum,
+      runType: runTypeEnum.default('full'),
+      companyId: z.number().optional(),
+      fileName: z.string().min(1).max(255).regex(/\.(json|csv|xlsx|xls)$/i, "File must be JSON, CSV or Excel"),
+      fileContent: z.string().min(1), // Base64-encoded
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const content = Buffer.from(input.fileContent, 'base64');
+      if (content.length > MAX_UPLOAD_BYTES) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Extract file exceeds the 25MB limit" });
+      }
+
+      return executeRun(ctx.user, input, { kind: 'file', fileName: input.fileName, content });
+    }),
+
+  /**
+   * Import every file waiting in the source's drop directory
+   */
+  runFromDrop: protectedProcedure
+    .input(z.object({
+      source: sourceEnum,
+      runType: runTypeEnum.default('full'),
+      companyId: z.number().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+      return executeRun(ctx.user, input, { kind: 'drop' });
+    }),
+
+  /**
+   * Pull from the configured source endpoint, or the local mock outside production
+   * The endpoint is set per deployment rather than per company, so only super admins
+   * may pull from it, into the company they choose.
+   */
+  runFromEndpoint: protectedProcedure
+    .input(z.object({
+      source: sourceEnum,
+      runType: runTypeEnum.default('incremental'),
+      companyId: z.number().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireSuperAdmin(ctx.user);
+
+      let url = getConfiguredEndpointUrl(input.source);
+      if (!url && process.env.NODE_ENV !== "production") {
+        url = `http://127.0.0.1:${ctx.req.socket.localPort}/api/integrations/mock/${input.source}`;
+      }
+      if (!url) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: `No endpoint configured; set ${input.source.toUpperCase()}_ENDPOINT_URL`,
+        });
+      }
+
+      return executeRun(ctx.user, input, { kind: 'endpoint', url });
+    }),
+
+  /**
+   * Run history for the user's company
+   */
+  runs: protectedProcedure
+    .input(z.object({
+      source: sourceEnum.optional(),
+      companyId: z.number().optional(),
+      limit: z.number().min(1).max(200).default(50),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const companyId = ctx.user.isSuperAdmin === 1 && !input?.companyId
+        ? null
+        : resolveCompanyId(ctx.user, input?.companyId);
+
+      const runs = await getIntegrationRuns(companyId, { source: input?.source, limit: input?.limit });
+      return runs.map(({ errorDetails, ...run }) => run);
+    }),
+
+  /**
+   * A single run with its failed rows
+   */
+  getRun: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [run] = await database
+        .select()
+        .from(integrationRuns)
+        .where(eq(integrationRuns.id, input.id))
+        .limit(1);
+
+      if (!run || (ctx.user.isSuperAdmin !== 1 && run.companyId !== ctx.user.companyId)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Integration run not found" });
+      }
+
+      const { errorDetails, ...rest } = run;
+      return { ...rest, failures: parseRunFailures(run) };
+    }),
+});
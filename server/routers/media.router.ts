@@ -2,6 +2,40 @@ import { z } from "zod";
 import { publicProcedure, protectedProcedure, router } from "../_core/trpc";
 import { transcribeAudio } from "../_core/voiceTranscription";
 import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import * as db from "../db";
+import { voiceRecordings, type User } from "../../drizzle/schema";
+import { queueSearchIndex } from "../services/searchIndex.service";
+
+/**
+ * Keep the transcript with the uploaded recording so it can be searched within its project
+ */
+async function saveTranscript(user: User, audioUrl: string, transcript: string, projectId?: number) {
+  try {
+    const database = await db.getDb();
+    if (!database || !transcript.trim()) return;
+
+    let linkedProjectId: number | null = null;
+    if (projectId) {
+      const isAdmin = user.role === "admin";
+      const isSuperAdmin = user.isSuperAdmin === 1;
+      const project = await db.getProjectById(projectId, user.id, user.company, isAdmin, user.companyId, isSuperAdmin);
+      linkedProjectId = project ? projectId : null;
+    }
+
+    const recordingFilter = and(eq(voiceRecordings.url, audioUrl), eq(voiceRecordings.userId, user.id));
+    const [recording] = await database.select({ id: voiceRecordings.id }).from(voiceRecordings).where(recordingFilter).limit(1);
+    if (!recording) return;
+
+    await database
+      .update(voiceRecordings)
+      .set({ transcript, transcribedAt: new Date().toISOString().slice(0, 19).replace("T", " "), projectId: linkedProjectId })
+      .where(eq(voiceRecordings.id, recording.id));
+    queueSearchIndex("voice_transcript", recording.id);
+  } catch (error) {
+    console.error("[Transcription] Failed to save transcript:", error);
+  }
+}
 
 export const mediaRouter = router({
   /**
@@ -13,10 +47,11 @@ export const mediaRouter = router({
         audioUrl: z.string().url(),
         language: z.string().optional(),
         prompt: z.string().optional(),
+        projectId: z.number().optional(), // Project the recording was made for; its transcript becomes searchable there
       })
     )
-    .mutation(async ({ input }) => {
-      const { audioUrl, language, prompt } = input;
+    .mutation(async ({ ctx, input }) => {
+      const { audioUrl, language, prompt, projectId } = input;
       
       console.log("[Transcription] Starting transcription for:", audioUrl);
       
@@ -38,6 +73,8 @@ export const mediaRouter = router({
         }
         
         console.log("[Transcription] Success, text length:", result.text?.length || 0);
+
+        await saveTranscript(ctx.user, audioUrl, result.text || "", projectId);
         
         return {
           text: result.text || "",
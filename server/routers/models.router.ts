@@ -1,7 +1,12 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
 import { storagePut } from "../storage";
+import * as db from "../db";
 import * as modelsDb from "../db/models.db";
+import { getAssetById } from "../db-assets";
+import { acceptIfcProposals, proposeIfcImport } from "../services/ifcImport.service";
+import type { User } from "../../drizzle/schema";
 import { getApsViewerToken } from "../_core/aps";
 import {
   createBucket,
@@ -16,6 +21,22 @@ import {
 // Default bucket key for the application
 const APP_BUCKET_KEY = process.env.APS_BUCKET_KEY || generateBucketKey('bca-models');
 
+const MAX_SNAPSHOT_BYTES = 10 * 1024 * 1024;
+
+async function requireModelAccess(user: User, modelId: number) {
+  const model = await modelsDb.getFacilityModel(modelId);
+  if (!model) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Model not found" });
+  }
+  const isAdmin = user.role === "admin";
+  const isSuperAdmin = user.isSuperAdmin === 1;
+  const project = await db.getProjectById(model.projectId, user.id, user.company, isAdmin, user.companyId, isSuperAdmin);
+  if (!project) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Project not found or you don't have access to it" });
+  }
+  return model;
+}
+
 export const modelsRouter = router({
   // Upload a new 3D model with optional APS integration
   upload: protectedProcedure
@@ -389,15 +410,31 @@ export const modelsRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
-        await modelsDb.createModelAnnotation({
+        const model = await requireModelAccess(ctx.user, input.modelId);
+        // Linked items must belong to the model's project; their details are shown on the marker
+        if (input.assessmentId) {
+          const assessment = await db.getAssessmentById(input.assessmentId);
+          if (!assessment || assessment.projectId !== model.projectId) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Assessment not found in this project" });
+          }
+        }
+        if (input.deficiencyId) {
+          const deficiency = await db.getDeficiencyById(input.deficiencyId);
+          if (!deficiency || deficiency.projectId !== model.projectId) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Deficiency not found in this project" });
+          }
+        }
+
+        const result = await modelsDb.createModelAnnotation({
           ...input,
+          projectId: model.projectId,
           positionX: input.positionX.toString(),
           positionY: input.positionY.toString(),
           positionZ: input.positionZ.toString(),
           status: "open",
           createdBy: ctx.user.id,
         });
-        return { success: true };
+        return { success: true, id: Number(result[0].insertId) };
       }),
 
     list: protectedProcedure
@@ -440,6 +477,51 @@ export const modelsRouter = router({
       }),
   }),
 
+  // Local IFC parsing into building sections and UNIFORMAT components
+  ifc: router({
+    /**
+     * Parse an IFC model and propose sections and components; nothing is written
+     */
+    propose: protectedProcedure
+      .input(z.object({ modelId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const model = await requireModelAccess(ctx.user, input.modelId);
+        try {
+          return await proposeIfcImport(model);
+        } catch (error: any) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+      }),
+
+    /**
+     * Accept proposals into assessments, keeping each element's IFC GlobalId
+     */
+    accept: protectedProcedure
+      .input(z.object({
+        modelId: z.number(),
+        assetId: z.number().optional(), // Required when the model is project-level
+        selections: z.array(z.object({
+          key: z.string(),
+          componentCode: z.string().regex(/^[A-G]\d{2}(\d{2})?$/, "Use a UNIFORMAT II code such as B2010").optional(),
+        })).min(1),
+        createSections: z.boolean().default(true),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const model = await requireModelAccess(ctx.user, input.modelId);
+        try {
+          return await acceptIfcProposals({
+            model,
+            assetId: input.assetId,
+            user: ctx.user,
+            selections: input.selections,
+            createSections: input.createSections,
+          });
+        } catch (error: any) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+      }),
+  }),
+
   // Viewpoints
   viewpoints: router({
     save: protectedProcedure
@@ -457,13 +539,13 @@ export const modelsRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
-        await modelsDb.createModelViewpoint({
+        const result = await modelsDb.createModelViewpoint({
           ...input,
           cameraZoom: input.cameraZoom?.toString(),
           createdBy: ctx.user.id,
           isShared: input.isShared ? 1 : 0,
         });
-        return { success: true };
+        return { success: true, id: Number(result[0].insertId) };
       }),
 
     list: protectedProcedure
@@ -482,6 +564,61 @@ export const modelsRouter = router({
         return viewpoint;
       }),
 
+    /**
+     * Store an annotated snapshot of a viewpoint and include it in an asset's report
+     */
+    exportSnapshot: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          assetId: z.number(),
+          imageData: z.string().min(1), // base64 encoded PNG
+          width: z.number().int().positive(),
+          height: z.number().int().positive(),
+          annotationIds: z.array(z.number()).max(200), // In the order they are numbered on the image
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const viewpoint = await modelsDb.getModelViewpoint(input.id);
+        if (!viewpoint) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Viewpoint not found" });
+        }
+        const model = await requireModelAccess(ctx.user, viewpoint.modelId);
+        const asset = await getAssetById(input.assetId, model.projectId);
+        if (!asset) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Asset not found in this project" });
+        }
+
+        const buffer = Buffer.from(input.imageData, "base64");
+        if (buffer.length > MAX_SNAPSHOT_BYTES) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Snapshot exceeds the 10MB limit" });
+        }
+
+        const fileKey = `models/${model.projectId}/viewpoints/${viewpoint.id}-${Date.now()}.png`;
+        const { url } = await storagePut(fileKey, buffer, "image/png");
+        await modelsDb.updateModelViewpoint(viewpoint.id, {
+          snapshotUrl: url,
+          snapshotKey: fileKey,
+          snapshotWidth: input.width,
+          snapshotHeight: input.height,
+          snapshotAnnotationIds: input.annotationIds,
+          reportAssetId: input.assetId,
+        });
+        return { success: true, url };
+      }),
+
+    removeFromReport: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        const viewpoint = await modelsDb.getModelViewpoint(input.id);
+        if (!viewpoint) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Viewpoint not found" });
+        }
+        await requireModelAccess(ctx.user, viewpoint.modelId);
+        await modelsDb.updateModelViewpoint(viewpoint.id, { reportAssetId: null });
+        return { success: true };
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input }) => {
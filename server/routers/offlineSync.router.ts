@@ -1,7 +1,20 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
 import * as db from "../db";
+import * as assetsDb from "../db-assets";
+import * as maintenanceDb from "../db/maintenanceEntries.db";
+import type { InsertAsset } from "../../drizzle/schema";
 import { storagePut } from "../storage";
+import { TRPCError } from "@trpc/server";
+import {
+  MERGEABLE_ASSESSMENT_FIELDS,
+  buildSyncConflict,
+  pickAssessmentFields,
+  threeWayMerge,
+  type AssessmentFieldValues,
+  type ConflictField,
+  type SyncConflict,
+} from "../../shared/assessmentMerge";
 
 /**
  * Offline Sync Router
@@ -10,6 +23,80 @@ import { storagePut } from "../storage";
  * These endpoints are called by the sync engine when connection is restored.
  */
 
+const assessmentFieldValuesSchema = z.partialRecord(
+  z.enum(MERGEABLE_ASSESSMENT_FIELDS),
+  z.union([z.string(), z.number(), z.null()])
+);
+
+type ExistingAssessment = NonNullable<Awaited<ReturnType<typeof db.getAssessmentById>>>;
+
+/**
+ * Convert merged field values to column values (decimals are stored as strings)
+ */
+function toAssessmentColumns(values: AssessmentFieldValues): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(values)) {
+    columns[field] = (field === "estimatedRepairCost" || field === "replacementValue") && typeof value === "number"
+      ? value.toString()
+      : value;
+  }
+  return columns;
+}
+
+/**
+ * Three-way merge local values onto an assessment and write the non-conflicting
+ * fields, retrying against the fresh row if another save lands in between.
+ */
+async function mergeIntoAssessment(
+  existing: ExistingAssessment,
+  base: AssessmentFieldValues | null,
+  local: AssessmentFieldValues
+) {
+  let current = existing;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const merge = threeWayMerge(base, local, current);
+    if (merge.mergedFields.length === 0) {
+      return { ...merge, version: current.version };
+    }
+    
+    const version = await db.updateAssessmentIfVersion(current.id, current.version, toAssessmentColumns(merge.patch));
+    if (version !== null) {
+      return { ...merge, version };
+    }
+    
+    const fresh = await db.getAssessmentById(current.id);
+    if (!fresh) break;
+    current = fresh;
+  }
+  throw new TRPCError({ code: "CONFLICT", message: "Assessment is being edited concurrently, retry sync" });
+}
+
+async function logOfflineAssessmentChange(
+  user: { id: number; name?: string | null },
+  projectId: number,
+  componentCode: string | undefined | null,
+  assessmentId: number,
+  isNew: boolean,
+  values: AssessmentFieldValues
+) {
+  if (!componentCode) return;
+  
+  const { logAssessmentChange } = await import("../componentHistoryService");
+  await logAssessmentChange({
+    projectId,
+    componentCode,
+    assessmentId,
+    userId: user.id,
+    userName: user.name || undefined,
+    isNew,
+    changes: undefined,
+    richTextFields: {
+      ...(values.observations && { observations: String(values.observations) }),
+      ...(values.recommendations && { recommendations: String(values.recommendations) }),
+    },
+  });
+}
+
 export const offlineSyncRouter = router({
   /**
    * Sync offline assessment to server
@@ -21,9 +108,15 @@ export const offlineSyncRouter = router({
       offlineId: z.string(), // Temporary ID from IndexedDB
       createdAt: z.string(), // ISO timestamp when created offline
       
+      // Server assessment the offline edit started from (absent for assessments created offline)
+      assessmentId: z.number().optional(),
+      baseVersion: z.number().optional(),
+      base: assessmentFieldValuesSchema.optional(),
+      
       // Assessment data
       projectId: z.number(),
       assetId: z.number().optional(),
+      sectionId: z.number().optional(),
       componentCode: z.string().optional(),
       condition: z.enum(["good", "fair", "poor", "not_assessed"]).optional(),
       status: z.enum(["initial", "active", "completed"]).optional(),
@@ -43,7 +136,7 @@ export const offlineSyncRouter = router({
       validationWarnings: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const { offlineId, createdAt, ...assessmentData } = input;
+      const { offlineId, createdAt, assessmentId: serverAssessmentId, baseVersion, base, ...assessmentData } = input;
       
       // Verify project ownership
       const isAdmin = ctx.user.role === 'admin';
@@ -52,116 +145,147 @@ export const offlineSyncRouter = router({
         throw new Error("Project not found or access denied");
       }
       
-      // Check for existing assessment with same component code (conflict detection)
-      let existingAssessment = null;
-      if (input.componentCode) {
-        existingAssessment = await db.getAssessmentByComponent(input.projectId, input.componentCode);
+      // Find the server copy: the assessment the edit started from, else one for the same component
+      let existingAssessment: ExistingAssessment | null = null;
+      if (serverAssessmentId) {
+        existingAssessment = (await db.getAssessmentById(serverAssessmentId)) ?? null;
+        if (existingAssessment && existingAssessment.projectId !== input.projectId) {
+          throw new Error("Assessment does not belong to this project");
+        }
+      }
+      if (!existingAssessment && input.componentCode) {
+        const match = await db.getAssessmentByComponent(input.projectId, input.componentCode);
+        if (match) {
+          existingAssessment = (await db.getAssessmentById(match.id)) ?? null;
+        }
+      }
+      
+      const { assertAccess, assertAssessmentsAccess } = await import("../services/accessPolicy.service");
+      if (existingAssessment) {
+        await assertAssessmentsAccess(ctx.user, "assessment.edit", input.projectId, [existingAssessment.id]);
+      } else {
+        await assertAccess(ctx.user, {
+          action: "assessment.create",
+          projectId: input.projectId,
+          assetId: input.assetId,
+          componentCode: input.componentCode,
+        });
       }
       
-      // Intelligent merge conflict resolution
-      // If assessment exists, merge offline data with server data instead of discarding
+      // Merge field by field against the current server row. When nobody saved since the
+      // base version every local change applies; otherwise concurrent edits are kept and
+      // fields changed on both sides are returned as conflicts.
       if (existingAssessment) {
-        const serverModifiedAt = new Date(existingAssessment.assessedAt || existingAssessment.createdAt);
-        const offlineCreatedAt = new Date(createdAt);
+        const fastForward = baseVersion !== undefined && existingAssessment.version === baseVersion;
+        const merge = await mergeIntoAssessment(existingAssessment, base ?? null, pickAssessmentFields(assessmentData));
         
-        if (serverModifiedAt > offlineCreatedAt) {
-          // Server version is newer, but merge valuable offline data
-          // Preserve offline observations/recommendations if server doesn't have them
-          const mergedData: any = {};
-          
-          // Merge observations: use offline if server is empty
-          if (input.observations && (!existingAssessment.observations || existingAssessment.observations.trim() === '')) {
-            mergedData.observations = input.observations;
-          }
-          
-          // Merge recommendations: use offline if server is empty
-          if (input.recommendations && (!existingAssessment.recommendations || existingAssessment.recommendations.trim() === '')) {
-            mergedData.recommendations = input.recommendations;
-          }
-          
-          // Merge other fields: use offline if server is null/undefined/0
-          if (input.estimatedRepairCost && !existingAssessment.estimatedRepairCost) {
-            mergedData.estimatedRepairCost = input.estimatedRepairCost;
-          }
-          if (input.replacementValue && !existingAssessment.replacementValue) {
-            mergedData.replacementValue = input.replacementValue;
-          }
-          
-          // If we have data to merge, update the existing assessment
-          if (Object.keys(mergedData).length > 0) {
-            await db.upsertAssessment({
-              id: existingAssessment.id,
-              ...mergedData,
-            });
-            
-            // Log the merge to component history
-            const { logAssessmentChange } = await import("../componentHistoryService");
-            if (input.componentCode) {
-              await logAssessmentChange({
-                projectId: input.projectId,
-                componentCode: input.componentCode,
-                assessmentId: existingAssessment.id,
-                userId: ctx.user.id,
-                userName: ctx.user.name || undefined,
-                isNew: false,
-                changes: undefined,
-                richTextFields: {
-                  ...(mergedData.observations && { observations: mergedData.observations }),
-                  ...(mergedData.recommendations && { recommendations: mergedData.recommendations }),
-                },
-              });
-            }
-            
-            return {
-              assessmentId: existingAssessment.id,
-              conflict: true,
-              resolution: "merged",
-              message: "Server version kept, offline data merged"
-            };
-          }
-          
-          // No data to merge, keep server version as-is
-          return {
-            assessmentId: existingAssessment.id,
-            conflict: true,
-            resolution: "server_wins",
-            message: "Server version is newer, no offline data to merge"
-          };
+        if (merge.mergedFields.length > 0) {
+          await logOfflineAssessmentChange(ctx.user, input.projectId, input.componentCode, existingAssessment.id, false, merge.patch);
         }
+        
+        const conflicts = merge.conflicts.length > 0
+          ? [buildSyncConflict(
+              offlineId,
+              existingAssessment.id,
+              new Date(createdAt).getTime(),
+              new Date(existingAssessment.updatedAt).getTime(),
+              merge.conflicts
+            )]
+          : [];
+        
+        return {
+          assessmentId: existingAssessment.id,
+          conflict: merge.conflicts.length > 0 || !fastForward,
+          resolution: merge.conflicts.length > 0
+            ? "needs_resolution" as const
+            : fastForward ? "fast_forward" as const
+            : merge.mergedFields.length > 0 ? "merged" as const : "server_wins" as const,
+          version: merge.version,
+          mergedFields: merge.mergedFields,
+          conflicts,
+          offlineId,
+          message: merge.conflicts.length > 0
+            ? `${merge.conflicts.length} field(s) were changed on the server and offline`
+            : merge.mergedFields.length > 0
+              ? "Offline changes merged with server changes"
+              : "Server already has these changes",
+        };
       }
       
-      // No conflict or offline version is newer, proceed with upsert
+      // New assessment
       const assessmentId = await db.upsertAssessment({
         ...assessmentData,
         assessedAt: createdAt, // Use offline creation time
       });
       
-      // Log to component history
-      const { logAssessmentChange } = await import("../componentHistoryService");
-      
-      if (input.componentCode) {
-        await logAssessmentChange({
-          projectId: input.projectId,
-          componentCode: input.componentCode,
-          assessmentId,
-          userId: ctx.user.id,
-          userName: ctx.user.name || undefined,
-          isNew: !existingAssessment,
-          changes: undefined, // Could implement change detection here
-          richTextFields: {
-            ...(input.observations && { observations: input.observations }),
-            ...(input.recommendations && { recommendations: input.recommendations }),
-          },
-        });
-      }
+      await logOfflineAssessmentChange(ctx.user, input.projectId, input.componentCode, assessmentId, true, pickAssessmentFields(assessmentData));
       
       return {
         assessmentId,
         conflict: false,
+        resolution: "created" as const,
+        version: 1,
+        mergedFields: [] as string[],
+        conflicts: [] as SyncConflict[],
         offlineId, // Return for mapping in sync engine
       };
     }),
 
+  /**
+   * Apply the user's choices for fields that conflicted during sync.
+   * `base` holds the server values the user was shown; if the assessment has
+   * been saved again since, the choices are merged against that save and any
+   * new clashes are returned instead of overwriting it.
+   */
+  resolveAssessmentConflict: protectedProcedure
+    .input(z.object({
+      offlineId: z.string(),
+      assessmentId: z.number(),
+      version: z.number(),
+      base: assessmentFieldValuesSchema,
+      values: assessmentFieldValuesSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await db.getAssessmentById(input.assessmentId);
+      if (!existing || !existing.projectId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Assessment not found" });
+      }
+      
+      const isAdmin = ctx.user.role === 'admin';
+      const project = await db.getProjectById(existing.projectId, ctx.user.id, ctx.user.company, isAdmin);
+      if (!project) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Project not found or access denied" });
+      }
+      
+      const values = pickAssessmentFields(input.values);
+      let applied: AssessmentFieldValues = values;
+      let version = existing.version === input.version
+        ? await db.updateAssessmentIfVersion(existing.id, input.version, toAssessmentColumns(values))
+        : null;
+      let remaining: ConflictField[] = [];
+      
+      if (version === null) {
+        const current = (await db.getAssessmentById(existing.id)) ?? existing;
+        const merge = await mergeIntoAssessment(current, pickAssessmentFields(input.base), values);
+        applied = merge.patch;
+        version = merge.version;
+        remaining = merge.conflicts;
+      }
+      
+      if (Object.keys(applied).length > 0) {
+        await logOfflineAssessmentChange(ctx.user, existing.projectId, existing.componentCode ?? undefined, existing.id, false, applied);
+      }
+      
+      return {
+        assessmentId: existing.id,
+        version,
+        resolved: remaining.length === 0,
+        conflicts: remaining.length > 0
+          ? [buildSyncConflict(input.offlineId, existing.id, Date.now(), Date.now(), remaining)]
+          : [] as SyncConflict[],
+      };
+    }),
+
   /**
    * Sync offline photo to server
    * Uploads photo blob that was stored in IndexedDB while offline
@@ -284,6 +408,178 @@ export const offlineSyncRouter = router({
       };
     }),
 
+  /**
+   * Sync offline asset to server
+   * The returned assetId replaces the offline ID on assessments and photos created under it
+   */
+  syncAsset: protectedProcedure
+    .input(z.object({
+      // Offline metadata
+      offlineId: z.string(), // Temporary ID from IndexedDB
+      createdAt: z.string(), // ISO timestamp when created offline
+      
+      // Asset data
+      projectId: z.number(),
+      name: z.string().min(1),
+      assetType: z.string().optional(),
+      description: z.string().optional(),
+      address: z.string().optional(),
+      city: z.string().optional(),
+      province: z.string().optional(),
+      postalCode: z.string().optional(),
+      latitude: z.number().min(-90).max(90).optional(),
+      longitude: z.number().min(-180).max(180).optional(),
+      yearBuilt: z.number().optional(),
+      grossFloorArea: z.number().optional(),
+      numberOfStories: z.number().optional(),
+      constructionType: z.string().optional(),
+      replacementValue: z.number().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // Verify project ownership
+      const isAdmin = ctx.user.role === 'admin';
+      const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
+      if (!project) {
+        throw new Error("Project not found or access denied");
+      }
+      
+      const assetId = await assetsDb.createAsset({
+        projectId: input.projectId,
+        name: input.name,
+        description: input.description,
+        primaryUse: input.assetType,
+        address: input.address,
+        city: input.city,
+        province: input.province,
+        postalCode: input.postalCode,
+        latitude: input.latitude?.toString(),
+        longitude: input.longitude?.toString(),
+        yearBuilt: input.yearBuilt,
+        squareFootage: input.grossFloorArea?.toString(),
+        numberOfFloors: input.numberOfStories,
+        constructionType: input.constructionType,
+        replacementValue: input.replacementValue?.toString(),
+      } as InsertAsset);
+      
+      return {
+        assetId,
+        offlineId: input.offlineId, // Return for mapping in sync engine
+      };
+    }),
+
+  /**
+   * Sync offline building section to server
+   */
+  syncBuildingSection: protectedProcedure
+    .input(z.object({
+      // Offline metadata
+      offlineId: z.string(), // Temporary ID from IndexedDB
+      createdAt: z.string(), // ISO timestamp when created offline
+      
+      // Section data
+      projectId: z.number(),
+      name: z.string().min(1),
+      description: z.string().optional(),
+      sectionType: z.enum(["original", "extension", "addition", "renovation"]),
+      installDate: z.string().optional(),
+      expectedLifespan: z.number().optional(),
+      grossFloorArea: z.number().optional(),
+      numberOfStories: z.number().optional(),
+      constructionType: z.string().optional(),
+      notes: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { offlineId, createdAt, ...sectionData } = input;
+      
+      // Verify project ownership
+      const isAdmin = ctx.user.role === 'admin';
+      const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
+      if (!project) {
+        throw new Error("Project not found or access denied");
+      }
+      
+      const sectionId = await db.createBuildingSection(sectionData);
+      
+      return {
+        sectionId,
+        offlineId, // Return for mapping in sync engine
+      };
+    }),
+
+  /**
+   * Sync offline maintenance entry to server
+   * assessmentId must already be a real ID (the sync engine remaps offline assessment IDs first)
+   */
+  syncMaintenanceEntry: protectedProcedure
+    .input(z.object({
+      // Offline metadata
+      offlineId: z.string(), // Temporary ID from IndexedDB
+      createdAt: z.string(), // ISO timestamp when created offline
+      
+      // Maintenance entry data
+      projectId: z.number(),
+      assessmentId: z.number().optional(),
+      componentName: z.string(),
+      location: z.string().optional(),
+      entryType: z.enum(["identified", "executed"]),
+      actionType: z.enum([
+        "repair",
+        "rehabilitation",
+        "replacement",
+        "preventive_maintenance",
+        "emergency_repair",
+        "inspection",
+        "upgrade",
+      ]),
+      description: z.string(),
+      workPerformed: z.string().optional(),
+      findings: z.string().optional(),
+      estimatedCost: z.number().optional(),
+      actualCost: z.number().optional(),
+      status: z.enum(["planned", "approved", "in_progress", "completed", "deferred", "cancelled"]).default("planned"),
+      priority: z.enum(["immediate", "high", "medium", "low"]).default("medium"),
+      dateIdentified: z.string().optional(),
+      dateScheduled: z.string().optional(),
+      dateCompleted: z.string().optional(),
+      contractor: z.string().optional(),
+      notes: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { offlineId, createdAt, ...entryData } = input;
+      
+      // Verify project ownership
+      const isAdmin = ctx.user.role === 'admin';
+      const project = await db.getProjectById(input.projectId, ctx.user.id, ctx.user.company, isAdmin);
+      if (!project) {
+        throw new Error("Project not found or access denied");
+      }
+      
+      if (input.assessmentId) {
+        const assessment = await db.getAssessmentById(input.assessmentId);
+        if (!assessment || assessment.projectId !== input.projectId) {
+          throw new Error("Assessment not found in this project");
+        }
+      }
+      
+      const entryId = await maintenanceDb.createMaintenanceEntry({
+        ...entryData,
+        estimatedCost: input.estimatedCost?.toString(),
+        actualCost: input.actualCost?.toString(),
+        dateIdentified: input.dateIdentified ?? createdAt,
+        createdBy: ctx.user.id,
+      });
+      
+      // Keep lifecycle cost totals current, as for entries created online
+      if (input.status === "completed" && input.actualCost) {
+        await maintenanceDb.updateCumulativeCost(input.projectId, input.componentName);
+      }
+      
+      return {
+        entryId,
+        offlineId, // Return for mapping in sync engine
+      };
+    }),
+
   /**
    * Batch sync multiple assessments at once
    * More efficient than individual syncs for large queues
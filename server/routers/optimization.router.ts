@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
+import * as db from "../db";
 import {
   createOptimizationScenario,
   updateOptimizationScenario,
@@ -18,6 +19,32 @@ import {
   type OptimizationConfig,
 } from "../services/optimization.service";
 import * as lpOptimizer from "../services/lpOptimizer.service";
+import {
+  createBudgetAllocation,
+  deleteProposedAllocations,
+  getBudgetCycleById,
+} from "../db/prioritization.db";
+
+/**
+ * Ids of the projects a user can plan for
+ */
+async function getPlannableProjectIds(user: {
+  id: number;
+  role: string;
+  company: string | null;
+  companyId: number | null;
+  isSuperAdmin: number | null;
+}): Promise<number[]> {
+  const projects = await db.getUserProjects(
+    user.id,
+    false,
+    user.company,
+    user.role === "admin",
+    user.companyId,
+    user.isSuperAdmin === 1
+  );
+  return projects.map((project) => project.id);
+}
 
 /**
  * Optimization router for scenario modeling and strategy comparison
@@ -342,6 +369,78 @@ export const optimizationRouter = router({
       return await lpOptimizer.optimizePortfolio(input);
     }),
 
+  /**
+   * Schedule projects or deficiencies across the years of a budget cycle
+   */
+  optimizeMultiYearPlan: protectedProcedure
+    .input(
+      z.object({
+        cycleId: z.number(),
+        source: z.enum(["projects", "deficiencies"]).default("projects"),
+        facilityId: z.number().optional(),
+        mustFund: z.array(z.object({ key: z.string(), byYear: z.number().int().optional() })).optional(),
+        precedence: z.array(z.object({ before: z.string(), after: z.string() })).optional(),
+        excludedKeys: z.array(z.string()).optional(),
+        timeoutMs: z.number().int().min(1000).max(60000).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { cycleId, ...options } = input;
+      const projectIds = await getPlannableProjectIds(ctx.user);
+      return await lpOptimizer.optimizeMultiYearPlan(cycleId, { ...options, projectIds });
+    }),
+
+  /**
+   * Save an optimized multi-year plan as proposed budget allocations
+   * Only the chosen items and years come from the client; projects and costs are
+   * looked up again, and replacing proposals only touches the caller's projects.
+   */
+  saveMultiYearPlan: protectedProcedure
+    .input(
+      z.object({
+        cycleId: z.number(),
+        items: z.array(
+          z.object({
+            type: z.enum(["project", "deficiency"]),
+            id: z.number(),
+            year: z.number().int(),
+          })
+        ),
+        replaceProposed: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const cycle = await getBudgetCycleById(input.cycleId);
+      if (!cycle) {
+        throw new Error("Cycle not found");
+      }
+
+      const projectIds = await getPlannableProjectIds(ctx.user);
+      const [projectCandidates, deficiencyCandidates] = await Promise.all([
+        input.items.some((item) => item.type === "project")
+          ? lpOptimizer.getMultiYearCandidates("projects", undefined, projectIds)
+          : [],
+        input.items.some((item) => item.type === "deficiency")
+          ? lpOptimizer.getMultiYearCandidates("deficiencies", undefined, projectIds)
+          : [],
+      ]);
+      const items = lpOptimizer.priceMultiYearPlanItems([...projectCandidates, ...deficiencyCandidates], input.items, {
+        startYear: cycle.startYear,
+        endYear: cycle.endYear,
+        inflationRate: parseFloat(String(cycle.inflationRate || 0)),
+        escalationRate: parseFloat(String(cycle.escalationRate || 0)),
+      });
+
+      const replaced = input.replaceProposed ? await deleteProposedAllocations(input.cycleId, projectIds) : 0;
+      const allocations = lpOptimizer.planToBudgetAllocations(input.cycleId, items);
+      const allocationIds: number[] = [];
+      for (const allocation of allocations) {
+        allocationIds.push(await createBudgetAllocation(allocation));
+      }
+
+      return { allocationIds, replaced };
+    }),
+
   /**
    * Analyze budget sensitivity
    */
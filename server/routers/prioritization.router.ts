@@ -185,6 +185,101 @@ export const prioritizationRouter = router({
       );
     }),
 
+  // ============================================================================
+  // STRATEGIC OBJECTIVES
+  // ============================================================================
+
+  getObjectives: protectedProcedure
+    .input(z.object({ includeInactive: z.boolean().default(false) }).optional())
+    .query(async ({ input }) => {
+      return await prioritizationDb.getAllObjectives(input?.includeInactive);
+    }),
+
+  createObjective: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(200),
+        description: z.string().optional(),
+        category: z.string().max(100).optional(),
+        targetYear: z.number().int().optional(),
+        displayOrder: z.number().int().default(0),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const objectiveId = await prioritizationDb.createObjective(input);
+      return { objectiveId };
+    }),
+
+  updateObjective: protectedProcedure
+    .input(
+      z.object({
+        objectiveId: z.number(),
+        name: z.string().min(1).max(200).optional(),
+        description: z.string().nullable().optional(),
+        category: z.string().max(100).nullable().optional(),
+        targetYear: z.number().int().nullable().optional(),
+        isActive: z.boolean().optional(),
+        displayOrder: z.number().int().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { objectiveId, isActive, ...updates } = input;
+      const objective = await prioritizationDb.getObjectiveById(objectiveId);
+      if (!objective) throw new Error("Strategic objective not found");
+
+      await prioritizationDb.updateObjective(objectiveId, {
+        ...updates,
+        ...(isActive !== undefined && { isActive: isActive ? 1 : 0 }),
+      });
+      return { success: true };
+    }),
+
+  deleteObjective: protectedProcedure
+    .input(z.object({ objectiveId: z.number() }))
+    .mutation(async ({ input }) => {
+      await prioritizationDb.deleteObjective(input.objectiveId);
+      return { success: true };
+    }),
+
+  getCriteriaObjectiveLinks: protectedProcedure
+    .input(z.object({ criteriaId: z.number().optional() }).optional())
+    .query(async ({ input }) => {
+      return await prioritizationDb.getCriteriaObjectiveLinks(input?.criteriaId);
+    }),
+
+  setCriteriaObjectives: protectedProcedure
+    .input(
+      z.object({
+        criteriaId: z.number(),
+        links: z.array(
+          z.object({
+            objectiveId: z.number(),
+            alignmentStrength: z.number().min(0).max(1).default(1),
+          })
+        ),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const criteria = await prioritizationDb.getCriteriaById(input.criteriaId);
+      if (!criteria) throw new Error("Criteria not found");
+
+      const objectives = await prioritizationDb.getAllObjectives(true);
+      const unknown = input.links.find((link) => !objectives.some((o) => o.id === link.objectiveId));
+      if (unknown) throw new Error(`Strategic objective ${unknown.objectiveId} not found`);
+
+      await prioritizationDb.setCriteriaObjectiveLinks(input.criteriaId, input.links);
+      return { success: true };
+    }),
+
+  getObjectiveContributionReport: protectedProcedure
+    .input(z.object({ cycleId: z.number() }))
+    .query(async ({ input }) => {
+      const cycle = await prioritizationDb.getBudgetCycleById(input.cycleId);
+      if (!cycle) throw new Error("Budget cycle not found");
+
+      return await prioritizationService.getObjectiveContributionReport(input.cycleId);
+    }),
+
   // ============================================================================
   // CAPITAL BUDGET CYCLES
   // ============================================================================
@@ -425,6 +520,96 @@ export const prioritizationRouter = router({
       return await prioritizationEnhancedDb.getCriteriaByModelVersion(input.versionId);
     }),
 
+  // ============================================================================
+  // WEIGHTING PRESETS
+  // ============================================================================
+
+  getPresets: protectedProcedure.query(async () => {
+    return await prioritizationEnhancedDb.getAllPresets();
+  }),
+
+  createPreset: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        description: z.string().optional(),
+        weights: z.record(z.string(), z.number().min(0)).optional(), // { [criteriaId]: weight }; defaults to current weights
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      let weights = input.weights;
+      if (!weights) {
+        const criteria = await prioritizationDb.getAllCriteria();
+        weights = Object.fromEntries(criteria.map((c) => [String(c.id), parseFloat(c.weight)]));
+      }
+
+      const presetId = await prioritizationEnhancedDb.createPreset({
+        name: input.name,
+        description: input.description,
+        configuration: { weights },
+        createdBy: ctx.user.id,
+      });
+      return { presetId };
+    }),
+
+  updatePreset: protectedProcedure
+    .input(
+      z.object({
+        presetId: z.number(),
+        name: z.string().min(1).max(100).optional(),
+        description: z.string().nullable().optional(),
+        weights: z.record(z.string(), z.number().min(0)).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const preset = await prioritizationEnhancedDb.getPresetById(input.presetId);
+      if (!preset) throw new Error("Preset not found");
+
+      await prioritizationEnhancedDb.updatePreset(input.presetId, {
+        name: input.name,
+        description: input.description,
+        configuration: input.weights ? { weights: input.weights } : undefined,
+      });
+      return { success: true };
+    }),
+
+  deletePreset: protectedProcedure
+    .input(z.object({ presetId: z.number() }))
+    .mutation(async ({ input }) => {
+      await prioritizationEnhancedDb.deletePreset(input.presetId);
+      return { success: true };
+    }),
+
+  applyPreset: protectedProcedure
+    .input(
+      z.object({
+        presetId: z.number(),
+        versionName: z.string().min(1).max(255),
+        description: z.string().optional(),
+        reason: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { presetId, ...options } = input;
+      return await criteriaManagementService.applyCriteriaPreset(presetId, ctx.user, options);
+    }),
+
+  comparePresetRankings: protectedProcedure
+    .input(z.object({ presetIds: z.array(z.number()).min(1).max(6) }))
+    .query(async ({ input }) => {
+      const presets = await Promise.all(input.presetIds.map((id) => prioritizationEnhancedDb.getPresetById(id)));
+      const missing = input.presetIds.find((id, index) => !presets[index]);
+      if (missing !== undefined) throw new Error(`Preset ${missing} not found`);
+
+      return await prioritizationService.compareRankingScenarios(
+        presets.map((preset) => ({
+          name: preset!.name,
+          presetId: preset!.id,
+          weights: preset!.configuration.weights,
+        }))
+      );
+    }),
+
   // ============================================================================
   // ENHANCED SCORING WITH STATUS
   // ============================================================================
@@ -0,0 +1,369 @@
+/**
+ * Report Schedules Router
+ * CRUD for scheduled report delivery, run history and manual run/retry
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import * as db from "../db";
+import { eq, or, and, desc, inArray } from "drizzle-orm";
+import { reportSchedules, reportScheduleRuns, reportTemplates, type ReportSchedule, type User } from "../../drizzle/schema";
+import {
+  executeReportSchedule,
+  retryReportRun,
+  getReportScheduleRuns,
+  getNextScheduledRunTime,
+  resolveCronExpression,
+  validateCronExpression,
+  parseRecipientEmails,
+  DEFAULT_REPORT_TIMEZONE,
+} from "../services/reportScheduler";
+
+const frequencyEnum = z.enum(['daily', 'weekly', 'monthly']);
+const reportTypeEnum = z.enum(['custom_report', 'portfolio_report']);
+const formatEnum = z.enum(['pdf', 'excel', 'word', 'html']);
+
+// Portfolio reports are rendered server-side as a workbook or HTML document
+const PORTFOLIO_FORMATS = ['excel', 'html'];
+
+// Fields without defaults, so partial updates only carry the keys the client sent
+const scheduleFields = z.object({
+  projectId: z.number(),
+  name: z.string().min(1).max(255),
+  reportType: reportTypeEnum,
+  templateId: z.number().optional(),
+  format: formatEnum,
+  options: z.record(z.string(), z.any()).optional(),
+  frequency: frequencyEnum,
+  dayOfWeek: z.number().min(0).max(6).optional(),
+  dayOfMonth: z.number().min(1).max(28).optional(),
+  cronExpression: z.string().max(100).optional(),
+  timezone: z.string().max(100),
+  recipientEmails: z.array(z.string().email()).min(1),
+  maxRetries: z.number().min(0).max(10),
+  active: z.boolean(),
+});
+
+const scheduleInput = scheduleFields.extend({
+  reportType: reportTypeEnum.default('custom_report'),
+  format: formatEnum.default('pdf'),
+  timezone: z.string().max(100).default(DEFAULT_REPORT_TIMEZONE),
+  maxRetries: z.number().min(0).max(10).default(3),
+  active: z.boolean().default(true),
+});
+
+/**
+ * Load a schedule and verify the user may manage it
+ * Super admins see all schedules; others see their own and their company's
+ */
+async function getAccessibleSchedule(user: User, scheduleId: number): Promise<ReportSchedule> {
+  const database = await getDb();
+  if (!database) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+
+  const [schedule] = await database
+    .select()
+    .from(reportSchedules)
+    .where(eq(reportSchedules.id, scheduleId))
+    .limit(1);
+
+  const canAccess = schedule && (
+    user.isSuperAdmin === 1 ||
+    schedule.createdBy === user.id ||
+    (user.companyId != null && schedule.companyId === user.companyId)
+  );
+
+  if (!canAccess) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Report schedule not found' });
+  }
+
+  // Schedules, their runs and generated files are only reachable by users who can view the project
+  const project = await db.getProjectById(
+    schedule.projectId,
+    user.id,
+    user.company,
+    user.role === 'admin',
+    user.companyId,
+    user.isSuperAdmin === 1
+  );
+  if (!project) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Report schedule not found' });
+  }
+
+  return schedule;
+}
+
+/**
+ * Validate the report configuration, project access and cron settings for a schedule
+ */
+async function validateScheduleConfig(
+  user: User,
+  config: {
+    projectId: number;
+    reportType: 'custom_report' | 'portfolio_report';
+    templateId?: number | null;
+    format: 'pdf' | 'excel' | 'word' | 'html';
+    cronExpression?: string | null;
+    timezone: string;
+  }
+) {
+  const isAdmin = user.role === 'admin';
+  const isSuperAdmin = user.isSuperAdmin === 1;
+  const project = await db.getProjectById(config.projectId, user.id, user.company, isAdmin, user.companyId, isSuperAdmin);
+  if (!project) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found or access denied' });
+  }
+
+  if (config.reportType === 'custom_report') {
+    if (!config.templateId) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'A report template is required for custom report schedules' });
+    }
+
+    const database = await getDb();
+    if (!database) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+
+    const [template] = await database
+      .select()
+      .from(reportTemplates)
+      .where(eq(reportTemplates.id, config.templateId))
+      .limit(1);
+
+    const canUseTemplate = template && (
+      template.isGlobal === 1 ||
+      template.createdBy === user.id ||
+      (user.companyId != null && template.companyId === user.companyId)
+    );
+    if (!canUseTemplate) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Report template not found' });
+    }
+  } else if (!PORTFOLIO_FORMATS.includes(config.format)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Portfolio reports can only be scheduled as Excel or HTML' });
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: config.timezone });
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Unknown timezone: ${config.timezone}` });
+  }
+
+  if (config.cronExpression) {
+    const cronError = validateCronExpression(config.cronExpression);
+    if (cronError) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: cronError });
+    }
+  }
+}
+
+export const reportSchedulesRouter = router({
+  /**
+   * List report schedules visible to the user
+   */
+  list: protectedProcedure
+    .input(z.object({
+      projectId: z.number().optional(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const database = await getDb();
+      if (!database) return [];
+
+      const accessCondition = ctx.user.isSuperAdmin === 1
+        ? undefined
+        : ctx.user.companyId
+          ? or(eq(reportSchedules.createdBy, ctx.user.id), eq(reportSchedules.companyId, ctx.user.companyId))
+          : eq(reportSchedules.createdBy, ctx.user.id);
+
+      const conditions = [accessCondition];
+      if (ctx.user.isSuperAdmin !== 1) {
+        // Only schedules of projects the user can view
+        const projects = await db.getUserProjects(ctx.user.id, false, ctx.user.company, ctx.user.role === 'admin', ctx.user.companyId);
+        if (projects.length === 0) return [];
+        conditions.push(inArray(reportSchedules.projectId, projects.map(project => project.id)));
+      }
+      if (input?.projectId) {
+        conditions.push(eq(reportSchedules.projectId, input.projectId));
+      }
+
+      return database
+        .select()
+        .from(reportSchedules)
+        .where(and(...conditions))
+        .orderBy(desc(reportSchedules.createdAt));
+    }),
+
+  /**
+   * Get a single schedule with its recent runs
+   */
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const schedule = await getAccessibleSchedule(ctx.user, input.id);
+      const runs = await getReportScheduleRuns(schedule.id, 20);
+      return { ...schedule, runs };
+    }),
+
+  /**
+   * Create a report schedule
+   */
+  create: protectedProcedure
+    .input(scheduleInput)
+    .mutation(async ({ ctx, input }) => {
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+
+      await validateScheduleConfig(ctx.user, input);
+
+      const nextRun = getNextScheduledRunTime(
+        resolveCronExpression({
+          cronExpression: input.cronExpression || null,
+          frequency: input.frequency,
+          dayOfWeek: input.dayOfWeek ?? null,
+          dayOfMonth: input.dayOfMonth ?? null,
+        }),
+        input.timezone
+      );
+
+      const result = await database.insert(reportSchedules).values({
+        projectId: input.projectId,
+        companyId: ctx.user.companyId,
+        createdBy: ctx.user.id,
+        name: input.name,
+        reportType: input.reportType,
+        templateId: input.reportType === 'custom_report' ? input.templateId : null,
+        format: input.format,
+        options: input.options || null,
+        frequency: input.frequency,
+        dayOfWeek: input.dayOfWeek,
+        dayOfMonth: input.dayOfMonth,
+        cronExpression: input.cronExpression || null,
+        timezone: input.timezone,
+        recipientEmails: parseRecipientEmails(input.recipientEmails.join(',')).join(','),
+        maxRetries: input.maxRetries,
+        active: input.active ? 1 : 0,
+        nextRun: nextRun.toISOString(),
+      });
+
+      return { id: Number(result[0].insertId), nextRun: nextRun.toISOString() };
+    }),
+
+  /**
+   * Update a report schedule
+   */
+  update: protectedProcedure
+    .input(scheduleFields.partial().omit({ projectId: true }).extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+
+      const existing = await getAccessibleSchedule(ctx.user, input.id);
+      const { id, recipientEmails, active, ...updates } = input;
+
+      const merged = {
+        projectId: existing.projectId,
+        reportType: updates.reportType ?? existing.reportType,
+        templateId: updates.templateId ?? existing.templateId,
+        format: updates.format ?? existing.format,
+        cronExpression: updates.cronExpression !== undefined ? updates.cronExpression || null : existing.cronExpression,
+        timezone: updates.timezone ?? existing.timezone,
+        frequency: updates.frequency ?? existing.frequency,
+        dayOfWeek: updates.dayOfWeek ?? existing.dayOfWeek,
+        dayOfMonth: updates.dayOfMonth ?? existing.dayOfMonth,
+      };
+
+      await validateScheduleConfig(ctx.user, merged);
+
+      // Recalculate the next run whenever the cadence changes or a paused schedule is resumed
+      const cadenceChanged = ['cronExpression', 'frequency', 'dayOfWeek', 'dayOfMonth', 'timezone']
+        .some(key => (updates as Record<string, unknown>)[key] !== undefined);
+      const resumed = active === true && existing.active === 0;
+      const nextRun = cadenceChanged || resumed
+        ? getNextScheduledRunTime(resolveCronExpression(merged), merged.timezone).toISOString()
+        : undefined;
+
+      await database
+        .update(reportSchedules)
+        .set({
+          ...updates,
+          cronExpression: merged.cronExpression,
+          templateId: merged.reportType === 'custom_report' ? merged.templateId : null,
+          ...(recipientEmails ? { recipientEmails: parseRecipientEmails(recipientEmails.join(',')).join(',') } : {}),
+          ...(active !== undefined ? { active: active ? 1 : 0 } : {}),
+          ...(nextRun ? { nextRun } : {}),
+        })
+        .where(eq(reportSchedules.id, id));
+
+      return { success: true, nextRun: nextRun ?? existing.nextRun };
+    }),
+
+  /**
+   * Delete a report schedule and its run history
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+
+      await getAccessibleSchedule(ctx.user, input.id);
+
+      await database.delete(reportScheduleRuns).where(eq(reportScheduleRuns.scheduleId, input.id));
+      await database.delete(reportSchedules).where(eq(reportSchedules.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Run a schedule immediately without changing its cadence
+   */
+  runNow: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getAccessibleSchedule(ctx.user, input.id);
+
+      const result = await executeReportSchedule(input.id, { trigger: 'manual' });
+      if (!result.success && !result.runId) {
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: result.error || 'Failed to run report schedule' });
+      }
+      return result;
+    }),
+
+  /**
+   * Get the run history for a schedule
+   */
+  runs: protectedProcedure
+    .input(z.object({
+      scheduleId: z.number(),
+      limit: z.number().min(1).max(200).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      await getAccessibleSchedule(ctx.user, input.scheduleId);
+      return getReportScheduleRuns(input.scheduleId, input.limit);
+    }),
+
+  /**
+   * Retry a failed run immediately
+   */
+  retryRun: protectedProcedure
+    .input(z.object({ runId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database not available' });
+
+      const [run] = await database
+        .select()
+        .from(reportScheduleRuns)
+        .where(eq(reportScheduleRuns.id, input.runId))
+        .limit(1);
+      if (!run) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Run not found' });
+      }
+
+      await getAccessibleSchedule(ctx.user, run.scheduleId);
+
+      const result = await retryReportRun(input.runId);
+      if (!result.success && !result.runId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: result.error || 'Failed to retry run' });
+      }
+      return result;
+    }),
+});
@@ -0,0 +1,206 @@
+/**
+ * SCIM Router
+ * Issue and revoke a company's SCIM provisioning tokens and map pushed groups to company roles
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { desc, eq, sql } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import * as companyRolesDb from "../companyRolesDb";
+import { createAuditLog } from "../auditLog";
+import { scimTokens, type ScimToken, type User } from "../../drizzle/schema";
+import {
+  generateScimToken,
+  getCompanyScimGroups,
+  getScimGroup,
+  getScimTokenLookupPrefix,
+  getScimTokenStatus,
+  hashScimToken,
+  setScimGroupRole,
+} from "../services/scimService";
+
+const COMPANY_ROLES = ["company_admin", "project_manager", "editor", "viewer"] as const;
+
+/**
+ * Resolve the company a request operates on
+ * Super admins may target any company; everyone else is pinned to their own
+ */
+function resolveCompanyId(user: User, requestedCompanyId?: number): number {
+  if (user.isSuperAdmin === 1 && requestedCompanyId) return requestedCompanyId;
+  if (!user.companyId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "User is not associated with a company" });
+  }
+  return user.companyId;
+}
+
+/**
+ * Provisioning controls who can sign in, so it is limited to platform and company admins
+ */
+async function assertCanManageProvisioning(user: User, companyId: number) {
+  if (user.role === "admin" || user.isSuperAdmin === 1) return;
+
+  const membership = await companyRolesDb.getUserRoleInCompany(user.id, companyId);
+  if (!membership || membership.companyRole !== "company_admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Company admin access required to manage SCIM provisioning" });
+  }
+}
+
+/**
+ * Strip the token hash
+ */
+function toPublicToken(token: ScimToken) {
+  const { tokenHash, ...rest } = token;
+  return { ...rest, status: getScimTokenStatus(token) };
+}
+
+export const scimRouter = router({
+  /**
+   * Endpoint details for configuring the identity provider
+   */
+  options: protectedProcedure.query(() => ({
+    baseUrl: "/api/scim/v2",
+    roles: [...COMPANY_ROLES],
+  })),
+
+  /**
+   * List SCIM tokens for the user's company
+   */
+  listTokens: protectedProcedure
+    .input(z.object({ companyId: z.number().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const companyId = resolveCompanyId(ctx.user, input?.companyId);
+      await assertCanManageProvisioning(ctx.user, companyId);
+
+      const database = await getDb();
+      if (!database) return [];
+
+      const tokens = await database
+        .select()
+        .from(scimTokens)
+        .where(eq(scimTokens.companyId, companyId))
+        .orderBy(desc(scimTokens.createdAt));
+
+      return tokens.map(toPublicToken);
+    }),
+
+  /**
+   * Issue a token; the raw token is only returned here
+   */
+  createToken: protectedProcedure
+    .input(z.object({
+      companyId: z.number().optional(),
+      name: z.string().min(1).max(255),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const companyId = resolveCompanyId(ctx.user, input.companyId);
+      await assertCanManageProvisioning(ctx.user, companyId);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const rawToken = generateScimToken();
+      const result = await database.insert(scimTokens).values({
+        companyId,
+        name: input.name,
+        tokenPrefix: getScimTokenLookupPrefix(rawToken),
+        tokenHash: hashScimToken(rawToken),
+        createdBy: ctx.user.id,
+      });
+      const id = Number(result[0].insertId);
+
+      await createAuditLog({
+        user: ctx.user,
+        companyId,
+        actionType: "create",
+        entityType: "company",
+        entityId: companyId,
+        entityName: input.name,
+        module: "scim",
+        changesSummary: `SCIM token "${input.name}" issued`,
+        status: "success",
+        metadata: { scimTokenId: id, tokenPrefix: getScimTokenLookupPrefix(rawToken) },
+      });
+
+      return { id, token: rawToken };
+    }),
+
+  /**
+   * Revoke a token immediately; revoked tokens are kept for the audit trail
+   */
+  revokeToken: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [token] = await database.select().from(scimTokens).where(eq(scimTokens.id, input.id)).limit(1);
+      if (!token || (ctx.user.isSuperAdmin !== 1 && token.companyId !== ctx.user.companyId)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "SCIM token not found" });
+      }
+      await assertCanManageProvisioning(ctx.user, token.companyId);
+      if (token.revokedAt) return { success: true };
+
+      await database
+        .update(scimTokens)
+        .set({ revokedAt: sql`CURRENT_TIMESTAMP`, revokedBy: ctx.user.id })
+        .where(eq(scimTokens.id, input.id));
+
+      await createAuditLog({
+        user: ctx.user,
+        companyId: token.companyId,
+        actionType: "delete",
+        entityType: "company",
+        entityId: token.companyId,
+        entityName: token.name,
+        module: "scim",
+        changesSummary: `SCIM token "${token.name}" revoked`,
+        status: "success",
+        metadata: { scimTokenId: token.id, tokenPrefix: token.tokenPrefix },
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Groups pushed by the identity provider with the role each maps to
+   */
+  groups: protectedProcedure
+    .input(z.object({ companyId: z.number().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const companyId = resolveCompanyId(ctx.user, input?.companyId);
+      await assertCanManageProvisioning(ctx.user, companyId);
+
+      const groups = await getCompanyScimGroups(companyId);
+      return groups.map(group => ({
+        id: group.id,
+        displayName: group.displayName,
+        externalId: group.externalId,
+        companyRole: group.companyRole,
+        memberCount: group.members.length,
+        updatedAt: group.updatedAt,
+      }));
+    }),
+
+  /**
+   * Change the company role a group maps to; members' roles are re-synced immediately
+   */
+  setGroupRole: protectedProcedure
+    .input(z.object({
+      companyId: z.number().optional(),
+      groupId: z.number(),
+      companyRole: z.enum(COMPANY_ROLES),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const companyId = resolveCompanyId(ctx.user, input.companyId);
+      await assertCanManageProvisioning(ctx.user, companyId);
+
+      if (!(await getScimGroup(companyId, input.groupId))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "SCIM group not found" });
+      }
+
+      const roleChanges = await setScimGroupRole(ctx.user, companyId, input.groupId, input.companyRole);
+      return { success: true, updatedMembers: roleChanges.length };
+    }),
+});
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, protectedProcedure, router } from "../_core/trpc";
+import * as db from "../db";
+import { getCompanyById } from "../companyRolesDb";
+import { SEARCH_SOURCE_TYPES, type SearchSourceType } from "../searchIndex";
+import {
+  getSearchIndexStatus,
+  resetSearchIndexCursors,
+  runSearchIndexSweep,
+  searchIndex,
+} from "../services/searchIndex.service";
+
+function requireSuperAdmin(user: { isSuperAdmin: number | null }) {
+  if (user.isSuperAdmin !== 1) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only super admins can manage the search index" });
+  }
+}
+
+/**
+ * Page a search result opens: the asset when the record belongs to one, otherwise the project
+ */
+function resultUrl(sourceType: SearchSourceType, projectId: number, assetId: number | null) {
+  if (assetId && sourceType !== "project_document") return `/projects/${projectId}/assets/${assetId}`;
+  return `/projects/${projectId}`;
+}
+
+export const searchRouter = router({
+  /**
+   * Search observations, recommendations, deficiencies, photo OCR text, project documents and
+   * voice transcripts by meaning (when an embedding model is configured) and by keyword
+   */
+  query: protectedProcedure
+    .input(z.object({
+      query: z.string().trim().min(2).max(200),
+      companyId: z.number().optional(),
+      projectIds: z.array(z.number()).max(500).optional(),
+      componentCode: z.string().trim().max(20).regex(/^[A-Za-z0-9]*$/).optional(),
+      sourceTypes: z.array(z.enum(SEARCH_SOURCE_TYPES)).optional(),
+      limit: z.number().int().min(1).max(100).default(25),
+    }))
+    .query(async ({ ctx, input }) => {
+      const isAdmin = ctx.user.role === "admin";
+      const isSuperAdmin = ctx.user.isSuperAdmin === 1;
+      let projects = await db.getUserProjects(ctx.user.id, false, ctx.user.company, isAdmin, ctx.user.companyId, isSuperAdmin);
+
+      if (input.companyId) {
+        if (!isSuperAdmin && input.companyId !== ctx.user.companyId) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You can only search your own company" });
+        }
+        const company = await getCompanyById(input.companyId);
+        if (!company) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Company not found" });
+        }
+        projects = projects.filter(project => project.company === company.name);
+      }
+      if (input.projectIds && input.projectIds.length > 0) {
+        projects = projects.filter(project => input.projectIds!.includes(project.id));
+      }
+
+      const { mode, truncated, results } = await searchIndex({
+        query: input.query,
+        projectIds: projects.map(project => project.id),
+        componentCode: input.componentCode || undefined,
+        sourceTypes: input.sourceTypes,
+        limit: input.limit,
+      });
+
+      const projectNames = new Map(projects.map(project => [project.id, project.name]));
+      return {
+        mode,
+        truncated,
+        results: results.map(result => ({
+          sourceType: result.sourceType,
+          sourceId: result.sourceId,
+          projectId: result.projectId,
+          projectName: projectNames.get(result.projectId) ?? null,
+          assetId: result.assetId,
+          componentCode: result.componentCode,
+          title: result.title,
+          snippet: result.snippet,
+          score: result.score,
+          matchedBy: result.matchedBy,
+          sourceUpdatedAt: result.sourceUpdatedAt,
+          url: resultUrl(result.sourceType, result.projectId, result.assetId),
+        })),
+      };
+    }),
+
+  /**
+   * Index coverage per source and the embedding model in use
+   */
+  status: adminProcedure.query(async ({ ctx }) => {
+    requireSuperAdmin(ctx.user);
+    return getSearchIndexStatus();
+  }),
+
+  /**
+   * Re-read every source from the start; runs in the background and continues on the scheduled sweeps
+   */
+  rebuild: adminProcedure.mutation(async ({ ctx }) => {
+    requireSuperAdmin(ctx.user);
+    await resetSearchIndexCursors();
+    void runSearchIndexSweep({ prune: true }).catch(error => {
+      console.error("[SearchIndex] Rebuild failed:", error);
+    });
+    return { success: true };
+  }),
+});
@@ -1,10 +1,114 @@
 import { z } from "zod";
-import { eq, and } from "drizzle-orm";
-import { protectedProcedure, router } from "../_core/trpc";
-import { getDb } from "../db";
-import { projectPermissions, projects, users } from "../../drizzle/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { getDb, getProjectById } from "../db";
+import { getAssetById } from "../db-assets";
+import {
+  assets,
+  companies,
+  externalShareLinks,
+  projectPermissions,
+  projects,
+  users,
+  type ExternalShareLink,
+  type User,
+} from "../../drizzle/schema";
 import { hasPermission } from "../permissions";
+import { assertAccess } from "../services/accessPolicy.service";
 import { TRPCError } from "@trpc/server";
+import {
+  MAX_SHARE_LINK_DAYS,
+  SHARE_LINK_FAILURE_MESSAGES,
+  generateShareToken,
+  getShareLinkExpiry,
+  getShareLinkStatus,
+  getShareTokenLookupPrefix,
+  hashSharePassword,
+  hashShareToken,
+  recordShareView,
+  resolveShareLink,
+} from "../services/shareLinkService";
+import { getSingleAssetReportData } from "./singleAssetReport.router";
+import { generatePortfolioReportData, getProjectAssetsWithMetrics } from "../db-portfolioReport";
+import { aggregatePortfolioMetrics } from "../portfolioReportCalculations";
+
+/**
+ * Load a project the user may share externally
+ */
+async function getShareableProject(user: User, projectId: number) {
+  if (!hasPermission(user.role, "project.share")) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to share projects" });
+  }
+
+  const project = await getProjectById(
+    projectId,
+    user.id,
+    user.company,
+    user.role === "admin",
+    user.companyId,
+    user.isSuperAdmin === 1
+  );
+  if (!project) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+  }
+  await assertAccess(user, { action: "project.share", projectId });
+  return project;
+}
+
+/**
+ * Strip the token hash and password hash and add the link status
+ */
+function toPublicShareLink(link: ExternalShareLink) {
+  const { tokenHash, passwordHash, ...rest } = link;
+  return {
+    ...rest,
+    passwordProtected: Boolean(passwordHash),
+    status: getShareLinkStatus(link),
+  };
+}
+
+/**
+ * Read-only project overview for external viewers
+ */
+async function getSharedProjectOverview(projectId: number) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+  const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+  if (!project) throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+
+  const projectAssets = await db
+    .select({
+      id: assets.id,
+      name: assets.name,
+      address: assets.address,
+      city: assets.city,
+      yearBuilt: assets.yearBuilt,
+      primaryUse: assets.primaryUse,
+      squareFootage: assets.squareFootage,
+      overallCondition: assets.overallCondition,
+      fciScore: assets.fciScore,
+      replacementValue: assets.replacementValue,
+    })
+    .from(assets)
+    .where(eq(assets.projectId, projectId));
+
+  const summary = aggregatePortfolioMetrics(await getProjectAssetsWithMetrics(projectId));
+
+  return {
+    project: {
+      name: project.name,
+      address: project.address,
+      clientName: project.clientName,
+      propertyType: project.propertyType,
+      yearBuilt: project.yearBuilt,
+      status: project.status,
+      assessmentDate: project.assessmentDate,
+    },
+    assets: projectAssets,
+    summary,
+  };
+}
 
 /**
  * Project sharing router - manage project-level permissions
@@ -44,6 +148,7 @@ export const sharingRouter = router({
       if (project.userId !== ctx.user.id) {
         throw new TRPCError({ code: "FORBIDDEN", message: "You can only share your own projects" });
       }
+      await assertAccess(ctx.user, { action: "project.share", projectId: input.projectId });
 
       // Check if permission already exists
       const [existing] = await db
@@ -101,6 +206,7 @@ export const sharingRouter = router({
       if (!project || project.userId !== ctx.user.id) {
         throw new TRPCError({ code: "FORBIDDEN", message: "You can only manage sharing for your own projects" });
       }
+      await assertAccess(ctx.user, { action: "project.share", projectId: input.projectId });
 
       await db
         .delete(projectPermissions)
@@ -213,4 +319,156 @@ export const sharingRouter = router({
 
       return { hasAccess: false, permission: null, isOwner: false };
     }),
+
+  /**
+   * Create an expiring read-only link for someone without an account.
+   * The raw token is only returned here.
+   */
+  createExternalLink: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        resourceType: z.enum(["project", "asset_report", "portfolio_report"]),
+        assetId: z.number().optional(),
+        label: z.string().max(255).optional(),
+        expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS).default(7),
+        password: z.string().min(6).max(128).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const project = await getShareableProject(ctx.user, input.projectId);
+
+      if (input.resourceType === "asset_report") {
+        if (!input.assetId) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "An asset is required for asset report links" });
+        }
+        const asset = await getAssetById(input.assetId, input.projectId);
+        if (!asset) throw new TRPCError({ code: "NOT_FOUND", message: "Asset not found" });
+      }
+
+      const [company] = project.company
+        ? await db.select().from(companies).where(eq(companies.name, project.company)).limit(1)
+        : [];
+
+      // Privacy lock: only the company's own members may send its data outside
+      if (company?.privacyLockEnabled === 1 && ctx.user.companyId !== company.id && ctx.user.company !== company.name) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "This company has privacy lock enabled. Only its members can create external share links.",
+        });
+      }
+
+      const rawToken = generateShareToken();
+      const expiresAt = getShareLinkExpiry(input.expiresInDays);
+      const result = await db.insert(externalShareLinks).values({
+        companyId: company?.id ?? null,
+        projectId: input.projectId,
+        assetId: input.resourceType === "asset_report" ? input.assetId : null,
+        resourceType: input.resourceType,
+        label: input.label || project.name,
+        tokenPrefix: getShareTokenLookupPrefix(rawToken),
+        tokenHash: hashShareToken(rawToken),
+        passwordHash: input.password ? hashSharePassword(input.password) : null,
+        expiresAt,
+        createdBy: ctx.user.id,
+      });
+
+      return { id: Number(result[0].insertId), token: rawToken, expiresAt };
+    }),
+
+  /**
+   * List external links for a project
+   */
+  listExternalLinks: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await getShareableProject(ctx.user, input.projectId);
+
+      const db = await getDb();
+      if (!db) return [];
+
+      const links = await db
+        .select()
+        .from(externalShareLinks)
+        .where(eq(externalShareLinks.projectId, input.projectId))
+        .orderBy(desc(externalShareLinks.createdAt));
+
+      return links.map(toPublicShareLink);
+    }),
+
+  /**
+   * Revoke an external link immediately; revoked links are kept for the audit trail
+   */
+  revokeExternalLink: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [link] = await db.select().from(externalShareLinks).where(eq(externalShareLinks.id, input.id)).limit(1);
+      if (!link) throw new TRPCError({ code: "NOT_FOUND", message: "Share link not found" });
+
+      await getShareableProject(ctx.user, link.projectId);
+      if (link.revokedAt) return { success: true };
+
+      await db
+        .update(externalShareLinks)
+        .set({ revokedAt: sql`CURRENT_TIMESTAMP`, revokedBy: ctx.user.id })
+        .where(eq(externalShareLinks.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Read-only view behind an external link; no session required
+   * A mutation so the token and password travel in the request body, never in a URL.
+   */
+  viewExternalLink: publicProcedure
+    .input(
+      z.object({
+        token: z.string().max(128),
+        password: z.string().max(128).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const resolved = await resolveShareLink(input.token, input.password);
+      if ("error" in resolved) {
+        const code = resolved.error === "password_required" || resolved.error === "invalid_password"
+          ? "UNAUTHORIZED"
+          : resolved.error === "privacy_locked" ? "FORBIDDEN" : "NOT_FOUND";
+        throw new TRPCError({ code, message: SHARE_LINK_FAILURE_MESSAGES[resolved.error] });
+      }
+
+      const { link } = resolved;
+      const base = {
+        resourceType: link.resourceType,
+        label: link.label,
+        expiresAt: link.expiresAt,
+      };
+
+      let data;
+      if (link.resourceType === "asset_report" && link.assetId) {
+        data = { ...base, resourceType: "asset_report" as const, report: await getSingleAssetReportData({
+          assetId: link.assetId,
+          includePhotos: true,
+          maxPhotosPerComponent: 4,
+        }) };
+      } else if (link.resourceType === "portfolio_report") {
+        const report = await generatePortfolioReportData(link.projectId);
+        if (!report) throw new TRPCError({ code: "NOT_FOUND", message: "Report not available" });
+        data = { ...base, resourceType: "portfolio_report" as const, report };
+      } else {
+        data = { ...base, resourceType: "project" as const, overview: await getSharedProjectOverview(link.projectId) };
+      }
+
+      await recordShareView(link, {
+        ipAddress: ctx.req.ip,
+        userAgent: ctx.req.headers["user-agent"],
+      });
+
+      return data;
+    }),
 });
@@ -0,0 +1,360 @@
+/**
+ * Webhooks Router
+ * Manage company webhook subscriptions, inspect the delivery log and replay deliveries
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq, and, desc, count, inArray } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { webhookSubscriptions, webhookDeliveryLog, type User, type WebhookSubscription } from "../../drizzle/schema";
+import {
+  WEBHOOK_EVENT_TYPES,
+  checkWebhookUrl,
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  parseSubscribedEvents,
+  replayWebhookDelivery,
+  sendTestWebhook,
+} from "../services/webhookService";
+
+const eventTypeEnum = z.enum(WEBHOOK_EVENT_TYPES);
+
+// Fields without defaults, so partial updates only carry the keys the client sent
+const subscriptionFields = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  url: z.string().url().max(1000).refine(url => /^https?:\/\//i.test(url), {
+    message: "Webhook URL must use http or https",
+  }),
+  events: z.array(eventTypeEnum).min(1),
+  isActive: z.boolean(),
+});
+
+const subscriptionInput = subscriptionFields.extend({
+  isActive: z.boolean().default(true),
+});
+
+/**
+ * Refuse receiver URLs that resolve to loopback, private, link-local or metadata addresses
+ */
+async function assertDeliverableUrl(url: string) {
+  const reason = await checkWebhookUrl(url);
+  if (reason) throw new TRPCError({ code: "BAD_REQUEST", message: reason });
+}
+
+function requireAdmin(user: User) {
+  if (user.role !== "admin" && user.isSuperAdmin !== 1) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
+  }
+}
+
+/**
+ * Resolve the company a request operates on
+ * Super admins may target any company; company admins are pinned to their own
+ */
+function resolveCompanyId(user: User, requestedCompanyId?: number): number {
+  if (user.isSuperAdmin === 1 && requestedCompanyId) return requestedCompanyId;
+  if (!user.companyId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "User is not associated with a company" });
+  }
+  return user.companyId;
+}
+
+/**
+ * Load a subscription and verify the user may manage it
+ */
+async function getAccessibleSubscription(user: User, subscriptionId: number): Promise<WebhookSubscription> {
+  const database = await getDb();
+  if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+  const [subscription] = await database
+    .select()
+    .from(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, subscriptionId))
+    .limit(1);
+
+  const canAccess = subscription && (user.isSuperAdmin === 1 || subscription.companyId === user.companyId);
+  if (!canAccess) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Webhook subscription not found" });
+  }
+
+  return subscription;
+}
+
+/**
+ * Strip the signing secret, leaving a short hint so admins can tell secrets apart
+ */
+function toPublicSubscription(subscription: WebhookSubscription) {
+  const { secret, ...rest } = subscription;
+  return {
+    ...rest,
+    events: parseSubscribedEvents(subscription.events),
+    secretHint: `${secret.slice(0, 10)}…${secret.slice(-4)}`,
+  };
+}
+
+export const webhooksRouter = router({
+  /**
+   * Event types available for subscription
+   */
+  eventTypes: protectedProcedure.query(() => ({
+    eventTypes: [...WEBHOOK_EVENT_TYPES],
+    signatureHeader: WEBHOOK_SIGNATURE_HEADER,
+  })),
+
+  /**
+   * List webhook subscriptions for the user's company
+   */
+  list: protectedProcedure
+    .input(z.object({ companyId: z.number().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) return [];
+
+      const companyId = resolveCompanyId(ctx.user, input?.companyId);
+      const subscriptions = await database
+        .select()
+        .from(webhookSubscriptions)
+        .where(eq(webhookSubscriptions.companyId, companyId))
+        .orderBy(desc(webhookSubscriptions.createdAt));
+
+      return subscriptions.map(toPublicSubscription);
+    }),
+
+  /**
+   * Create a subscription; the signing secret is only returned here and on rotation
+   */
+  create: protectedProcedure
+    .input(subscriptionInput.extend({ companyId: z.number().optional() }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const companyId = resolveCompanyId(ctx.user, input.companyId);
+      await assertDeliverableUrl(input.url);
+      const secret = generateWebhookSecret();
+
+      const result = await database.insert(webhookSubscriptions).values({
+        companyId,
+        name: input.name,
+        description: input.description || null,
+        url: input.url,
+        secret,
+        events: Array.from(new Set(input.events)),
+        isActive: input.isActive ? 1 : 0,
+        createdBy: ctx.user.id,
+      });
+
+      return { id: Number(result[0].insertId), secret };
+    }),
+
+  /**
+   * Update a subscription
+   */
+  update: protectedProcedure
+    .input(subscriptionFields.partial().extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const existing = await getAccessibleSubscription(ctx.user, input.id);
+      const { id, isActive, events, ...updates } = input;
+      if (updates.url !== undefined) await assertDeliverableUrl(updates.url);
+
+      // Re-enabling a subscription clears its failure streak
+      const reactivated = isActive === true && existing.isActive === 0;
+
+      await database
+        .update(webhookSubscriptions)
+        .set({
+          ...updates,
+          ...(events ? { events: Array.from(new Set(events)) } : {}),
+          ...(isActive !== undefined ? { isActive: isActive ? 1 : 0 } : {}),
+          ...(reactivated ? { consecutiveFailures: 0 } : {}),
+        })
+        .where(eq(webhookSubscriptions.id, id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Delete a subscription and its delivery history
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      await getAccessibleSubscription(ctx.user, input.id);
+
+      await database.delete(webhookDeliveryLog).where(eq(webhookDeliveryLog.subscriptionId, input.id));
+      await database.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Replace the signing secret for a subscription
+   */
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      await getAccessibleSubscription(ctx.user, input.id);
+
+      const secret = generateWebhookSecret();
+      await database
+        .update(webhookSubscriptions)
+        .set({ secret })
+        .where(eq(webhookSubscriptions.id, input.id));
+
+      return { secret };
+    }),
+
+  /**
+   * Send a signed test ping to a subscription
+   */
+  sendTest: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+      await getAccessibleSubscription(ctx.user, input.id);
+      return sendTestWebhook(input.id);
+    }),
+
+  /**
+   * List deliveries with filtering
+   */
+  deliveries: protectedProcedure
+    .input(z.object({
+      companyId: z.number().optional(),
+      subscriptionId: z.number().optional(),
+      status: z.enum(["pending", "delivered", "retrying", "failed", "all"]).optional().default("all"),
+      eventType: z.string().max(100).optional(),
+      limit: z.number().min(1).max(100).optional().default(50),
+      offset: z.number().min(0).optional().default(0),
+    }))
+    .query(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const companyId = resolveCompanyId(ctx.user, input.companyId);
+      const conditions = [eq(webhookDeliveryLog.companyId, companyId)];
+
+      if (input.subscriptionId) {
+        conditions.push(eq(webhookDeliveryLog.subscriptionId, input.subscriptionId));
+      }
+      if (input.status !== "all") {
+        conditions.push(eq(webhookDeliveryLog.status, input.status));
+      }
+      if (input.eventType) {
+        conditions.push(eq(webhookDeliveryLog.eventType, input.eventType));
+      }
+
+      const deliveries = await database
+        .select({
+          delivery: webhookDeliveryLog,
+          subscriptionName: webhookSubscriptions.name,
+          subscriptionUrl: webhookSubscriptions.url,
+        })
+        .from(webhookDeliveryLog)
+        .leftJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveryLog.subscriptionId))
+        .where(and(...conditions))
+        .orderBy(desc(webhookDeliveryLog.createdAt))
+        .limit(input.limit)
+        .offset(input.offset);
+
+      const [totalResult] = await database
+        .select({ count: count() })
+        .from(webhookDeliveryLog)
+        .where(and(...conditions));
+      const total = totalResult?.count || 0;
+
+      return {
+        deliveries: deliveries.map(row => ({
+          ...row.delivery,
+          subscriptionName: row.subscriptionName,
+          subscriptionUrl: row.subscriptionUrl,
+        })),
+        total,
+        hasMore: input.offset + deliveries.length < total,
+      };
+    }),
+
+  /**
+   * Delivery counts by status for the user's company
+   */
+  stats: protectedProcedure
+    .input(z.object({ companyId: z.number().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const companyId = resolveCompanyId(ctx.user, input?.companyId);
+      const rows = await database
+        .select({ status: webhookDeliveryLog.status, count: count() })
+        .from(webhookDeliveryLog)
+        .where(eq(webhookDeliveryLog.companyId, companyId))
+        .groupBy(webhookDeliveryLog.status);
+
+      const stats = { total: 0, pending: 0, delivered: 0, retrying: 0, failed: 0 };
+      for (const row of rows) {
+        stats[row.status] = row.count;
+        stats.total += row.count;
+      }
+      return stats;
+    }),
+
+  /**
+   * Replay one or more deliveries with their original payload
+   */
+  replay: protectedProcedure
+    .input(z.object({ deliveryIds: z.array(z.number()).min(1).max(50) }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.user);
+
+      const database = await getDb();
+      if (!database) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const deliveries = await database
+        .select({ id: webhookDeliveryLog.id, companyId: webhookDeliveryLog.companyId })
+        .from(webhookDeliveryLog)
+        .where(inArray(webhookDeliveryLog.id, input.deliveryIds));
+
+      const accessible = deliveries.filter(d => ctx.user.isSuperAdmin === 1 || d.companyId === ctx.user.companyId);
+      if (accessible.length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Delivery not found" });
+      }
+
+      const results = [];
+      for (const delivery of accessible) {
+        const result = await replayWebhookDelivery(delivery.id, ctx.user.id);
+        results.push({ originalDeliveryId: delivery.id, ...result });
+      }
+
+      return {
+        replayed: results.length,
+        delivered: results.filter(r => r.success).length,
+        results,
+      };
+    }),
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for the custom_logic rule expression language
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  checkRuleExpression,
+  compileRuleExpression,
+  evaluateCustomLogicRule,
+  evaluateRuleExpression,
+  getCustomLogicExpression,
+  type RuleScopeData,
+} from "../shared/ruleExpression";
+
+function evaluate(expression: string, data: RuleScopeData): boolean {
+  return evaluateRuleExpression(compileRuleExpression(expression), data);
+}
+
+function errorOf(expression: string) {
+  const check = checkRuleExpression(expression);
+  if (check.ok) throw new Error(`Expected "${expression}" to be rejected`);
+  return check.error;
+}
+
+describe("rule expressions", () => {
+  it("should evaluate the QA rules against assessment and asset fields", () => {
+    const poor = { condition: "Poor", remainingUsefulLife: 12, repairCost: "70000.00", replacementValue: "100000.00" };
+
+    expect(evaluate('condition is "poor" and remainingUsefulLife > 10', { assessment: poor })).toBe(true);
+    expect(evaluate('condition is "poor" and remainingUsefulLife > 10', { assessment: { ...poor, remainingUsefulLife: 5 } })).toBe(false);
+    expect(evaluate("repairCost > replacementValue × 0.6", { assessment: poor })).toBe(true);
+    expect(evaluate("repairCost > replacementValue * 0.6", { assessment: { ...poor, repairCost: "50000" } })).toBe(false);
+    expect(evaluate('condition in ["poor", "critical"]', { assessment: poor })).toBe(true);
+    expect(
+      evaluate("asset.yearBuilt < 1950 and not isBlank(asset.constructionType)", {
+        assessment: poor,
+        asset: { yearBuilt: 1931, constructionType: "Masonry" },
+      })
+    ).toBe(true);
+    expect(evaluate('assessedAt >= "2024-01-01"', { assessment: { assessedAt: "2024-03-05 10:00:00" } })).toBe(true);
+  });
+
+  it("should treat missing values as null so rules do not fire on incomplete data", () => {
+    expect(evaluate("repairCost > replacementValue × 0.6", { assessment: { repairCost: "5000" } })).toBe(false);
+    expect(evaluate("asset.yearBuilt < 1950", { assessment: {} })).toBe(false);
+    expect(evaluate("repairCost / replacementValue > 0.5", { assessment: { repairCost: 10, replacementValue: 0 } })).toBe(false);
+    expect(evaluate("replacementValue is null", { assessment: { replacementValue: "" } })).toBe(true);
+    expect(evaluate("coalesce(repairCost, estimatedRepairCost, 0) > 100", { assessment: { estimatedRepairCost: 500 } })).toBe(true);
+  });
+
+  it("should reject invalid expressions with a position and a hint", () => {
+    const bareWord = errorOf("condition = poor");
+    expect(bareWord.message).toContain('put it in quotes: "poor"');
+    expect(bareWord.start).toBe(12);
+
+    expect(errorOf("remainingUsefullife > 10").message).toContain('did you mean "remainingUsefulLife"');
+    expect(errorOf("asset.yearBuit < 1950").message).toContain('did you mean "asset.yearBuilt"');
+    expect(errorOf("repairCost > 10 repairCost").message).toContain('missing "and" or "or"');
+    expect(errorOf("(repairCost > 10").message).toContain('Expected ")"');
+    expect(errorOf("repairCost * 2").message).toContain("true/false condition");
+    expect(errorOf('repairCost > "high"').message).toContain("Can't compare");
+    expect(errorOf("eval(condition)").message).toContain('Unknown function "eval"');
+    expect(errorOf("constructor.prototype == 1").message).toContain('Unknown record "constructor"');
+    expect(errorOf("1 < repairCost < 5").message).toContain("can't be chained");
+    expect(errorOf("(".repeat(40) + "true" + ")".repeat(40)).message).toContain("nested too deeply");
+  });
+
+  it("should read the expression from a rule's condition and report a violation when it is true", () => {
+    const condition = JSON.stringify({ expression: "repairCost > replacementValue × 0.6" });
+    expect(getCustomLogicExpression(condition)).toBe("repairCost > replacementValue × 0.6");
+    expect(getCustomLogicExpression("remainingUsefulLife > 10")).toBe("remainingUsefulLife > 10");
+
+    const compiled = compileRuleExpression(getCustomLogicExpression(condition));
+    const rule = { id: 7, field: "repairCost", severity: "warning", message: "Repair exceeds 60% of replacement", condition };
+
+    expect(evaluateCustomLogicRule(rule, compiled, { assessment: { repairCost: 70, replacementValue: 100 } })).toEqual({
+      isValid: false,
+      severity: "warning",
+      field: "repairCost",
+      message: "Repair exceeds 60% of replacement",
+      ruleId: 7,
+      canOverride: true,
+    });
+    expect(evaluateCustomLogicRule(rule, compiled, { assessment: { repairCost: 50, replacementValue: 100 } })).toBeNull();
+    expect(compiled.scopes).toEqual(["assessment"]);
+  });
+});
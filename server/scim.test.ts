@@ -0,0 +1,143 @@
+/**
+ * Tests for SCIM 2.0 resource mapping, filters, PATCH operations and provisioning tokens
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  ScimError,
+  applyGroupPatch,
+  applyUserPatch,
+  inferGroupRole,
+  parseListParams,
+  parseScimFilter,
+  parseScimUser,
+  resolveRoleFromGroups,
+  toScimUser,
+  type ScimUserAttributes,
+} from "./scim";
+import {
+  USER_FILTER_ATTRIBUTES,
+  extractBearerToken,
+  generateScimToken,
+  getScimTokenLookupPrefix,
+  hashScimToken,
+  isWellFormedScimToken,
+} from "./services/scimService";
+
+const jane: ScimUserAttributes = {
+  userName: "jane.doe@city.example",
+  externalId: "a1b2",
+  displayName: "Jane Doe",
+  givenName: "Jane",
+  familyName: "Doe",
+  email: "jane.doe@city.example",
+  active: true,
+};
+
+describe("SCIM provisioning", () => {
+  it("should parse a user resource and render it back", () => {
+    const attributes = parseScimUser({
+      schemas: ["urn:ietf:params:scim:schemas:core:2.0:User"],
+      userName: "jdoe",
+      externalId: "a1b2",
+      name: { givenName: "Jane", familyName: "Doe" },
+      emails: [{ value: "home@example.com", type: "home" }, { value: "jane.doe@city.example", type: "work" }],
+      title: "Facility Planner",
+    });
+
+    expect(attributes).toMatchObject({ userName: "jdoe", email: "jane.doe@city.example", active: true, displayName: null });
+
+    const resource = toScimUser({
+      userId: 42,
+      name: "Jane Doe",
+      email: "jane.doe@city.example",
+      externalId: "a1b2",
+      active: false,
+      groups: [{ id: 3, displayName: "BCA Editors" }],
+      createdAt: "2026-03-01 12:00:00",
+      updatedAt: "2026-03-02 08:30:00",
+    }, "https://bca.example/api/scim/v2");
+
+    expect(resource).toMatchObject({
+      id: "42",
+      userName: "jane.doe@city.example",
+      active: false,
+      name: { givenName: "Jane", familyName: "Doe" },
+      groups: [{ value: "3", display: "BCA Editors" }],
+      meta: { created: "2026-03-01T12:00:00.000Z", location: "https://bca.example/api/scim/v2/Users/42" },
+    });
+    expect(() => parseScimUser({ emails: [] })).toThrow(ScimError);
+  });
+
+  it("should apply user PATCH operations from different identity providers", () => {
+    // Azure AD style: path per attribute and string booleans
+    const deactivated = applyUserPatch(jane, {
+      Operations: [
+        { op: "Replace", path: "active", value: "False" },
+        { op: "replace", path: 'emails[type eq "work"].value', value: "jane@city.example" },
+      ],
+    });
+    expect(deactivated).toMatchObject({ active: false, email: "jane@city.example", userName: jane.userName });
+    expect(jane.active).toBe(true);
+
+    // Okta style: no path, attribute object value
+    const renamed = applyUserPatch(jane, {
+      Operations: [{ op: "replace", value: { active: true, name: { familyName: "Smith" }, displayName: "Jane Smith" } }],
+    });
+    expect(renamed).toMatchObject({ familyName: "Smith", displayName: "Jane Smith" });
+
+    expect(() => applyUserPatch(jane, { Operations: [{ op: "remove", path: "active" }] })).toThrow(ScimError);
+    expect(() => applyUserPatch(jane, { Operations: [{ op: "move", path: "active" }] })).toThrow(/Unsupported/);
+  });
+
+  it("should add, remove and replace group members", () => {
+    const group = { displayName: "BCA Editors", externalId: null, memberIds: [1, 2] };
+
+    expect(applyGroupPatch(group, {
+      Operations: [{ op: "add", path: "members", value: [{ value: "3" }, { value: "2" }] }],
+    }).memberIds).toEqual([1, 2, 3]);
+
+    expect(applyGroupPatch(group, {
+      Operations: [{ op: "remove", path: 'members[value eq "1"]' }],
+    }).memberIds).toEqual([2]);
+
+    expect(applyGroupPatch(group, {
+      Operations: [{ op: "replace", value: { id: "9", displayName: "BCA Assessors", members: [{ value: "5" }] } }],
+    })).toEqual({ displayName: "BCA Assessors", externalId: null, memberIds: [5] });
+
+    expect(() => applyGroupPatch(group, {
+      Operations: [{ op: "add", path: "members", value: [{ value: "abc" }] }],
+    })).toThrow(ScimError);
+  });
+
+  it("should map groups to the highest company role", () => {
+    expect(inferGroupRole("BCA Admins")).toBe("company_admin");
+    expect(inferGroupRole("Facility Managers")).toBe("project_manager");
+    expect(inferGroupRole("Assessors")).toBe("editor");
+    expect(inferGroupRole("All Staff")).toBe("viewer");
+
+    expect(resolveRoleFromGroups(["viewer", "project_manager", "editor"])).toBe("project_manager");
+    expect(resolveRoleFromGroups([])).toBe("viewer");
+  });
+
+  it("should parse eq filters and paging parameters", () => {
+    expect(parseScimFilter('username eq "jane.doe@city.example"', USER_FILTER_ATTRIBUTES))
+      .toEqual({ attribute: "userName", value: "jane.doe@city.example" });
+    expect(parseScimFilter(undefined, USER_FILTER_ATTRIBUTES)).toBeNull();
+    expect(() => parseScimFilter('title eq "Planner"', USER_FILTER_ATTRIBUTES)).toThrow(/not supported/);
+    expect(() => parseScimFilter('userName sw "jane"', USER_FILTER_ATTRIBUTES)).toThrow(ScimError);
+
+    expect(parseListParams({})).toEqual({ startIndex: 1, count: 200 });
+    expect(parseListParams({ startIndex: "11", count: "5000" })).toEqual({ startIndex: 11, count: 200 });
+    expect(parseListParams({ startIndex: "0", count: "0" })).toEqual({ startIndex: 1, count: 0 });
+  });
+
+  it("should issue well-formed bearer tokens", () => {
+    const token = generateScimToken();
+    expect(isWellFormedScimToken(token)).toBe(true);
+    expect(getScimTokenLookupPrefix(token)).toBe(token.slice(0, 12));
+    expect(hashScimToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    expect(extractBearerToken(`Bearer ${token}`)).toBe(token);
+    expect(extractBearerToken("Basic abc")).toBeNull();
+  });
+});
@@ -0,0 +1,608 @@
+/**
+ * SCIM 2.0 Resource Mapping
+ * Pure helpers for the /api/scim/v2 provisioning endpoint: mapping company members and
+ * SCIM groups to SCIM resources, parsing filters and applying PATCH operations.
+ * Attributes the app does not store (addresses, titles, phone numbers...) are ignored.
+ */
+
+import { z } from "zod";
+import type { CompanyRole } from "./accessPolicy";
+
+export const SCIM_CONTENT_TYPE = "application/scim+json";
+
+export const SCIM_SCHEMAS = {
+  user: "urn:ietf:params:scim:schemas:core:2.0:User",
+  enterpriseUser: "urn:ietf:params:scim:schemas:extension:enterprise:2.0:User",
+  group: "urn:ietf:params:scim:schemas:core:2.0:Group",
+  listResponse: "urn:ietf:params:scim:api:messages:2.0:ListResponse",
+  patchOp: "urn:ietf:params:scim:api:messages:2.0:PatchOp",
+  error: "urn:ietf:params:scim:api:messages:2.0:Error",
+  serviceProviderConfig: "urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig",
+  resourceType: "urn:ietf:params:scim:schemas:core:2.0:ResourceType",
+  schema: "urn:ietf:params:scim:schemas:core:2.0:Schema",
+} as const;
+
+export const SCIM_MAX_PAGE_SIZE = 200;
+
+export type ScimErrorType =
+  | "invalidFilter"
+  | "invalidSyntax"
+  | "invalidPath"
+  | "invalidValue"
+  | "mutability"
+  | "noTarget"
+  | "uniqueness";
+
+export class ScimError extends Error {
+  constructor(public status: number, message: string, public scimType?: ScimErrorType) {
+    super(message);
+  }
+}
+
+export function toScimErrorBody(status: number, detail: string, scimType?: ScimErrorType) {
+  return {
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    ...(scimType ? { scimType } : {}),
+    detail,
+  };
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * User attributes the app keeps: userName is the sign-in email
+ */
+export interface ScimUserAttributes {
+  userName: string;
+  externalId: string | null;
+  displayName: string | null;
+  givenName: string | null;
+  familyName: string | null;
+  email: string | null;
+  active: boolean;
+}
+
+export interface ScimGroupAttributes {
+  displayName: string;
+  externalId: string | null;
+  memberIds: number[];
+}
+
+/**
+ * A company member as stored: users row joined with its company_users membership
+ */
+export interface ScimMemberRecord {
+  userId: number;
+  name: string | null;
+  email: string | null;
+  externalId: string | null;
+  active: boolean;
+  groups: { id: number; displayName: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScimGroupRecord {
+  id: number;
+  displayName: string;
+  externalId: string | null;
+  companyRole: CompanyRole;
+  members: { userId: number; name: string | null }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScimFilter {
+  attribute: string;
+  value: string;
+}
+
+// ============================================================================
+// Group to role mapping
+// ============================================================================
+
+const COMPANY_ROLE_LEVEL: Record<CompanyRole, number> = {
+  company_admin: 4,
+  project_manager: 3,
+  editor: 2,
+  viewer: 1,
+};
+
+/**
+ * Default role for a newly pushed group, guessed from its name
+ * Company admins can change the mapping afterwards
+ */
+export function inferGroupRole(displayName: string): CompanyRole {
+  const name = displayName.toLowerCase();
+  if (/admin/.test(name)) return "company_admin";
+  if (/manager|\bpm\b/.test(name)) return "project_manager";
+  if (/editor|assessor|contributor/.test(name)) return "editor";
+  return "viewer";
+}
+
+/**
+ * A member's company role is the highest role among their groups; no groups means viewer
+ */
+export function resolveRoleFromGroups(roles: readonly CompanyRole[]): CompanyRole {
+  return roles.reduce<CompanyRole>(
+    (best, role) => (COMPANY_ROLE_LEVEL[role] > COMPANY_ROLE_LEVEL[best] ? role : best),
+    "viewer"
+  );
+}
+
+/**
+ * Global users.role for a provisioned member; SCIM never grants platform admin
+ */
+export function toPlatformRole(companyRole: CompanyRole): "viewer" | "editor" | "project_manager" {
+  if (companyRole === "company_admin" || companyRole === "project_manager") return "project_manager";
+  return companyRole;
+}
+
+// ============================================================================
+// Parsing request bodies
+// ============================================================================
+
+const emailSchema = z.looseObject({
+  value: z.string(),
+  type: z.string().nullish(),
+  primary: z.union([z.boolean(), z.string()]).nullish(),
+});
+
+const userSchema = z.looseObject({
+  userName: z.string().trim().min(1).max(320),
+  externalId: z.string().max(255).nullish(),
+  displayName: z.string().nullish(),
+  name: z.looseObject({
+    formatted: z.string().nullish(),
+    givenName: z.string().nullish(),
+    familyName: z.string().nullish(),
+  }).nullish(),
+  emails: z.array(emailSchema).nullish(),
+  active: z.union([z.boolean(), z.string()]).nullish(),
+});
+
+const groupSchema = z.looseObject({
+  displayName: z.string().trim().min(1).max(255),
+  externalId: z.string().max(255).nullish(),
+  members: z.array(z.looseObject({ value: z.union([z.string(), z.number()]) })).nullish(),
+});
+
+const patchSchema = z.object({
+  Operations: z.array(z.looseObject({
+    op: z.string(),
+    path: z.string().optional(),
+    value: z.unknown().optional(),
+  })).min(1),
+});
+
+function invalid(error: z.ZodError): ScimError {
+  const detail = error.issues.map(issue => `${issue.path.join(".") || "body"}: ${issue.message}`).join("; ");
+  return new ScimError(400, detail, "invalidValue");
+}
+
+/**
+ * Accept real booleans and the "True"/"False" strings some identity providers send
+ */
+export function parseScimBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string" && /^(true|false)$/i.test(value)) return value.toLowerCase() === "true";
+  throw new ScimError(400, `Expected a boolean, got ${JSON.stringify(value)}`, "invalidValue");
+}
+
+/**
+ * Pick the primary email, then a work email, then the first one
+ */
+export function pickPrimaryEmail(emails: readonly { value: string; type?: string | null; primary?: unknown }[]): string | null {
+  const primary = emails.find(email => email.primary === true || email.primary === "true" || email.primary === "True");
+  const work = emails.find(email => email.type?.toLowerCase() === "work");
+  return (primary ?? work ?? emails[0])?.value ?? null;
+}
+
+/**
+ * Parse a full SCIM User resource (POST and PUT)
+ */
+export function parseScimUser(body: unknown): ScimUserAttributes {
+  const parsed = userSchema.safeParse(body);
+  if (!parsed.success) throw invalid(parsed.error);
+  const user = parsed.data;
+
+  return {
+    userName: user.userName,
+    externalId: user.externalId ?? null,
+    displayName: user.displayName ?? user.name?.formatted ?? null,
+    givenName: user.name?.givenName ?? null,
+    familyName: user.name?.familyName ?? null,
+    email: user.emails ? pickPrimaryEmail(user.emails) : null,
+    active: user.active == null ? true : parseScimBoolean(user.active),
+  };
+}
+
+/**
+ * Parse a full SCIM Group resource (POST and PUT); member ids are user ids
+ */
+export function parseScimGroup(body: unknown): ScimGroupAttributes {
+  const parsed = groupSchema.safeParse(body);
+  if (!parsed.success) throw invalid(parsed.error);
+
+  return {
+    displayName: parsed.data.displayName,
+    externalId: parsed.data.externalId ?? null,
+    memberIds: parseMemberIds(parsed.data.members ?? []),
+  };
+}
+
+function parseMemberIds(members: unknown): number[] {
+  if (!Array.isArray(members)) {
+    throw new ScimError(400, "members must be an array", "invalidValue");
+  }
+  const ids = members.map(member => Number((member as { value?: unknown })?.value));
+  if (ids.some(id => !Number.isInteger(id) || id <= 0)) {
+    throw new ScimError(400, "Group members must reference user ids", "invalidValue");
+  }
+  return Array.from(new Set(ids));
+}
+
+/**
+ * The email the app signs a member in with: the mapped email, falling back to userName
+ */
+export function getSignInEmail(attributes: ScimUserAttributes): string {
+  return (attributes.email ?? attributes.userName).trim().toLowerCase();
+}
+
+/**
+ * Name stored on the users row
+ */
+export function formatMemberName(attributes: ScimUserAttributes): string {
+  const fromParts = [attributes.givenName, attributes.familyName].filter(Boolean).join(" ").trim();
+  return attributes.displayName?.trim() || fromParts || attributes.userName;
+}
+
+// ============================================================================
+// Filters and paging
+// ============================================================================
+
+/**
+ * Parse the single-clause `attribute eq "value"` filters identity providers use for lookups
+ * Attribute names are case-insensitive and returned as listed in `supported`
+ */
+export function parseScimFilter(filter: string | undefined, supported: readonly string[]): ScimFilter | null {
+  if (!filter || !filter.trim()) return null;
+
+  const match = filter.match(/^\s*([A-Za-z][\w.]*)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i);
+  if (!match) {
+    throw new ScimError(400, 'Only filters of the form attribute eq "value" are supported', "invalidFilter");
+  }
+
+  const attribute = supported.find(name => name.toLowerCase() === match[1].toLowerCase());
+  if (!attribute) {
+    throw new ScimError(400, `Filtering on ${match[1]} is not supported`, "invalidFilter");
+  }
+  return { attribute, value: match[2].replace(/\\(.)/g, "$1") };
+}
+
+/**
+ * SCIM paging: 1-based startIndex and a count capped at SCIM_MAX_PAGE_SIZE
+ */
+export function parseListParams(query: Record<string, unknown>): { startIndex: number; count: number } {
+  const startIndex = Math.max(1, Math.floor(Number(query.startIndex)) || 1);
+  const requested = query.count === undefined ? SCIM_MAX_PAGE_SIZE : Math.floor(Number(query.count));
+  const count = Number.isFinite(requested) ? Math.min(Math.max(requested, 0), SCIM_MAX_PAGE_SIZE) : SCIM_MAX_PAGE_SIZE;
+  return { startIndex, count };
+}
+
+export function toListResponse(resources: unknown[], totalResults: number, startIndex: number) {
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  };
+}
+
+// ============================================================================
+// PATCH
+// ============================================================================
+
+function parsePatchOperations(body: unknown) {
+  const parsed = patchSchema.safeParse(body);
+  if (!parsed.success) throw new ScimError(400, "PATCH body must contain Operations", "invalidSyntax");
+
+  return parsed.data.Operations.map(operation => {
+    const op = operation.op.toLowerCase();
+    if (op !== "add" && op !== "replace" && op !== "remove") {
+      throw new ScimError(400, `Unsupported PATCH op "${operation.op}"`, "invalidSyntax");
+    }
+    return { op, path: operation.path?.trim() || undefined, value: operation.value };
+  });
+}
+
+function optionalString(value: unknown, path: string): string | null {
+  if (value == null) return null;
+  if (typeof value !== "string") throw new ScimError(400, `${path} must be a string`, "invalidValue");
+  return value;
+}
+
+function setUserAttribute(user: ScimUserAttributes, path: string, value: unknown): void {
+  const key = path.replace(`${SCIM_SCHEMAS.user}:`, "").toLowerCase();
+
+  if (key === "username") {
+    const userName = optionalString(value, path)?.trim();
+    if (!userName) throw new ScimError(400, "userName is required", "mutability");
+    user.userName = userName;
+  } else if (key === "externalid") {
+    user.externalId = optionalString(value, path);
+  } else if (key === "displayname" || key === "name.formatted") {
+    user.displayName = optionalString(value, path);
+  } else if (key === "name.givenname") {
+    user.givenName = optionalString(value, path);
+  } else if (key === "name.familyname") {
+    user.familyName = optionalString(value, path);
+  } else if (key === "name") {
+    const name = (value ?? {}) as Record<string, unknown>;
+    for (const [part, partValue] of Object.entries(name)) setUserAttribute(user, `name.${part}`, partValue);
+  } else if (key === "emails") {
+    const emails = z.array(emailSchema).safeParse(value ?? []);
+    if (!emails.success) throw invalid(emails.error);
+    user.email = pickPrimaryEmail(emails.data);
+  } else if (/^emails\[.*\]\.value$/.test(key)) {
+    user.email = optionalString(value, path);
+  } else if (key === "active") {
+    if (value == null) throw new ScimError(400, "active cannot be removed", "mutability");
+    user.active = parseScimBoolean(value);
+  }
+}
+
+/**
+ * Apply PatchOp operations to a user's attributes
+ * Operations without a path carry an object of attribute values
+ */
+export function applyUserPatch(current: ScimUserAttributes, body: unknown): ScimUserAttributes {
+  const user = { ...current };
+
+  for (const { op, path, value } of parsePatchOperations(body)) {
+    if (op === "remove") {
+      if (!path) throw new ScimError(400, "remove requires a path", "noTarget");
+      setUserAttribute(user, path, null);
+    } else if (path) {
+      setUserAttribute(user, path, value);
+    } else {
+      if (!value || typeof value !== "object") {
+        throw new ScimError(400, `${op} without a path requires an object value`, "invalidValue");
+      }
+      for (const [attribute, attributeValue] of Object.entries(value)) {
+        setUserAttribute(user, attribute, attributeValue);
+      }
+    }
+  }
+
+  return user;
+}
+
+/**
+ * Apply PatchOp operations to a group: rename and add, remove or replace members
+ */
+export function applyGroupPatch(current: ScimGroupAttributes, body: unknown): ScimGroupAttributes {
+  const group = { ...current, memberIds: [...current.memberIds] };
+
+  const setAttribute = (op: string, path: string, value: unknown) => {
+    const memberFilter = path.match(/^members\[\s*value\s+eq\s+"?(\d+)"?\s*\]$/i);
+    const key = path.toLowerCase();
+
+    if (memberFilter) {
+      if (op !== "remove") throw new ScimError(400, `Cannot ${op} a filtered member`, "invalidPath");
+      group.memberIds = group.memberIds.filter(id => id !== Number(memberFilter[1]));
+    } else if (key === "members") {
+      if (op === "remove") {
+        const removed = value == null ? group.memberIds : parseMemberIds(value);
+        group.memberIds = group.memberIds.filter(id => !removed.includes(id));
+      } else {
+        const ids = parseMemberIds(value ?? []);
+        group.memberIds = op === "add" ? Array.from(new Set([...group.memberIds, ...ids])) : ids;
+      }
+    } else if (key === "displayname") {
+      const displayName = optionalString(value, path)?.trim();
+      if (!displayName) throw new ScimError(400, "displayName is required", "mutability");
+      group.displayName = displayName;
+    } else if (key === "externalid") {
+      group.externalId = op === "remove" ? null : optionalString(value, path);
+    }
+  };
+
+  for (const { op, path, value } of parsePatchOperations(body)) {
+    if (path) {
+      setAttribute(op, path, value);
+    } else if (op === "remove") {
+      throw new ScimError(400, "remove requires a path", "noTarget");
+    } else {
+      if (!value || typeof value !== "object") {
+        throw new ScimError(400, `${op} without a path requires an object value`, "invalidValue");
+      }
+      for (const [attribute, attributeValue] of Object.entries(value)) {
+        if (attribute !== "id") setAttribute(op, attribute, attributeValue);
+      }
+    }
+  }
+
+  return group;
+}
+
+// ============================================================================
+// Resource output
+// ============================================================================
+
+/**
+ * MySQL timestamp string to an ISO 8601 date-time
+ */
+function toScimDateTime(value: string): string {
+  const date = new Date(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+function splitName(name: string | null): { givenName: string | null; familyName: string | null } {
+  const parts = (name ?? "").trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return { givenName: null, familyName: null };
+  return { givenName: parts[0], familyName: parts.slice(1).join(" ") || null };
+}
+
+/**
+ * Attributes of a stored member, as the base for PUT comparisons and PATCH
+ */
+export function toUserAttributes(member: ScimMemberRecord): ScimUserAttributes {
+  return {
+    userName: member.email ?? "",
+    externalId: member.externalId,
+    displayName: member.name,
+    ...splitName(member.name),
+    email: member.email,
+    active: member.active,
+  };
+}
+
+export function toScimUser(member: ScimMemberRecord, baseUrl: string) {
+  return {
+    schemas: [SCIM_SCHEMAS.user],
+    id: String(member.userId),
+    ...(member.externalId ? { externalId: member.externalId } : {}),
+    userName: member.email ?? "",
+    displayName: member.name,
+    name: { formatted: member.name, ...splitName(member.name) },
+    emails: member.email ? [{ value: member.email, type: "work", primary: true }] : [],
+    active: member.active,
+    groups: member.groups.map(group => ({
+      value: String(group.id),
+      display: group.displayName,
+      $ref: `${baseUrl}/Groups/${group.id}`,
+    })),
+    meta: {
+      resourceType: "User",
+      created: toScimDateTime(member.createdAt),
+      lastModified: toScimDateTime(member.updatedAt),
+      location: `${baseUrl}/Users/${member.userId}`,
+    },
+  };
+}
+
+export function toScimGroup(group: ScimGroupRecord, baseUrl: string) {
+  return {
+    schemas: [SCIM_SCHEMAS.group],
+    id: String(group.id),
+    ...(group.externalId ? { externalId: group.externalId } : {}),
+    displayName: group.displayName,
+    members: group.members.map(member => ({
+      value: String(member.userId),
+      display: member.name,
+      $ref: `${baseUrl}/Users/${member.userId}`,
+    })),
+    meta: {
+      resourceType: "Group",
+      created: toScimDateTime(group.createdAt),
+      lastModified: toScimDateTime(group.updatedAt),
+      location: `${baseUrl}/Groups/${group.id}`,
+    },
+  };
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+export function buildServiceProviderConfig(baseUrl: string) {
+  return {
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    documentationUri: `${baseUrl}/ServiceProviderConfig`,
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: SCIM_MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: "oauthbearertoken",
+      name: "Bearer token",
+      description: "Per-company SCIM token issued from the Admin screen",
+      primary: true,
+    }],
+    meta: { resourceType: "ServiceProviderConfig", location: `${baseUrl}/ServiceProviderConfig` },
+  };
+}
+
+export function buildResourceTypes(baseUrl: string) {
+  return [
+    {
+      schemas: [SCIM_SCHEMAS.resourceType],
+      id: "User",
+      name: "User",
+      endpoint: "/Users",
+      schema: SCIM_SCHEMAS.user,
+      meta: { resourceType: "ResourceType", location: `${baseUrl}/ResourceTypes/User` },
+    },
+    {
+      schemas: [SCIM_SCHEMAS.resourceType],
+      id: "Group",
+      name: "Group",
+      endpoint: "/Groups",
+      schema: SCIM_SCHEMAS.group,
+      meta: { resourceType: "ResourceType", location: `${baseUrl}/ResourceTypes/Group` },
+    },
+  ];
+}
+
+function attribute(name: string, type: string, extra: Record<string, unknown> = {}) {
+  return {
+    name,
+    type,
+    multiValued: false,
+    required: false,
+    caseExact: false,
+    mutability: "readWrite",
+    returned: "default",
+    uniqueness: "none",
+    ...extra,
+  };
+}
+
+/**
+ * Schema definitions for the attributes the endpoint stores
+ */
+export function buildSchemas(baseUrl: string) {
+  return [
+    {
+      schemas: [SCIM_SCHEMAS.schema],
+      id: SCIM_SCHEMAS.user,
+      name: "User",
+      attributes: [
+        attribute("userName", "string", { required: true, uniqueness: "server" }),
+        attribute("externalId", "string", { caseExact: true }),
+        attribute("displayName", "string"),
+        attribute("name", "complex", {
+          subAttributes: [attribute("formatted", "string"), attribute("givenName", "string"), attribute("familyName", "string")],
+        }),
+        attribute("emails", "complex", {
+          multiValued: true,
+          subAttributes: [attribute("value", "string"), attribute("type", "string"), attribute("primary", "boolean")],
+        }),
+        attribute("active", "boolean"),
+        attribute("groups", "complex", { multiValued: true, mutability: "readOnly" }),
+      ],
+      meta: { resourceType: "Schema", location: `${baseUrl}/Schemas/${SCIM_SCHEMAS.user}` },
+    },
+    {
+      schemas: [SCIM_SCHEMAS.schema],
+      id: SCIM_SCHEMAS.group,
+      name: "Group",
+      attributes: [
+        attribute("displayName", "string", { required: true, uniqueness: "server" }),
+        attribute("externalId", "string", { caseExact: true }),
+        attribute("members", "complex", {
+          multiValued: true,
+          subAttributes: [attribute("value", "string", { mutability: "immutable" }), attribute("display", "string")],
+        }),
+      ],
+      meta: { resourceType: "Schema", location: `${baseUrl}/Schemas/${SCIM_SCHEMAS.group}` },
+    },
+  ];
+}
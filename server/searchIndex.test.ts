@@ -0,0 +1,97 @@
+/**
+ * Tests for search index text handling: chunking, plain-text ranking, embeddings and rank fusion
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  MAX_CHUNKS_PER_SOURCE,
+  bm25Scores,
+  buildSnippet,
+  chunkText,
+  cosineSimilarity,
+  decodeEmbedding,
+  encodeEmbedding,
+  fuseRankings,
+  htmlToPlainText,
+  likePatterns,
+  queryTerms,
+  topMatches,
+} from "./searchIndex";
+
+describe("search index", () => {
+  it("should turn rich text into plain text with line breaks kept", () => {
+    expect(htmlToPlainText("<p>Efflorescence on <strong>north</strong> wall</p><p>Mortar &amp; brick</p>"))
+      .toBe("Efflorescence on north wall\nMortar & brick");
+    expect(htmlToPlainText(null)).toBe("");
+  });
+
+  it("should split long text into overlapping chunks at word boundaries", () => {
+    const text = Array.from({ length: 400 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkText(text, 200, 40);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.length <= 200)).toBe(true);
+    expect(chunks.every(chunk => /^word\d+/.test(chunk) && /word\d+$/.test(chunk))).toBe(true);
+    // Consecutive chunks share their boundary words
+    const lastWord = chunks[0].split(" ").pop()!;
+    expect(chunks[1].split(" ")).toContain(lastWord);
+    expect(chunkText("x ".repeat(100_000), 100, 10)).toHaveLength(MAX_CHUNKS_PER_SOURCE);
+    expect(chunkText("   ")).toEqual([]);
+  });
+
+  it("should match plural and past-tense forms and drop filler words from queries", () => {
+    expect(queryTerms("Find all instances of efflorescence on north walls")).toEqual(["efflorescence", "north", "wall"]);
+    expect(queryTerms("cracked cracking")).toEqual(["crack"]);
+    expect(likePatterns(["100%_done"])).toEqual(["%100\\%\\_done%"]);
+  });
+
+  it("should rank records mentioning every query term first", () => {
+    const terms = queryTerms("efflorescence north walls");
+    const scores = bm25Scores(terms, [
+      "South wall repainted in 2019",
+      "Efflorescence and spalling on the north wall near the loading dock",
+      "Efflorescence at the foundation",
+      "North elevation walls in good condition",
+    ]);
+
+    const ranked = scores.map((score, i) => ({ score, i })).sort((a, b) => b.score - a.score).map(item => item.i);
+    expect(ranked[0]).toBe(1);
+    expect(scores.every(score => score > 0)).toBe(true);
+  });
+
+  it("should store embeddings as unit vectors and compare them by cosine", () => {
+    const a = decodeEmbedding(encodeEmbedding([3, 4, 0]));
+    const b = decodeEmbedding(encodeEmbedding([6, 8, 0]));
+    const c = decodeEmbedding(encodeEmbedding([0, 0, 2]));
+
+    expect(Array.from(a).map(value => Number(value.toFixed(4)))).toEqual([0.6, 0.8, 0]);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1, 5);
+    expect(cosineSimilarity(a, c)).toBeCloseTo(0, 5);
+    expect(cosineSimilarity(a, decodeEmbedding(encodeEmbedding([1, 0])))).toBe(0);
+  });
+
+  it("should keep the best vector matches across scanned batches", () => {
+    let best: { id: number; similarity: number }[] = [];
+    for (const batch of [[{ id: 9, similarity: 0.3 }, { id: 8, similarity: 0.1 }], [{ id: 2, similarity: 0.9 }], [{ id: 1, similarity: 0.5 }]]) {
+      best = topMatches([...best, ...batch], 2, 0.25);
+    }
+    expect(best.map(match => match.id)).toEqual([2, 1]);
+  });
+
+  it("should favour records found by both text and semantic search", () => {
+    const fused = fuseRankings([[1, 2, 3], [4, 2]]);
+    const order = Array.from(fused.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id);
+    expect(order[0]).toBe(2);
+    expect(order).toHaveLength(4);
+  });
+
+  it("should excerpt the text around the first matching term", () => {
+    const content = `${"Roof membrane inspected and found serviceable. ".repeat(10)}Heavy efflorescence on the north wall below the parapet. ${"Windows fine. ".repeat(20)}`;
+    const snippet = buildSnippet(content, queryTerms("efflorescence"), 120);
+
+    expect(snippet).toContain("efflorescence on the north wall");
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(buildSnippet("Short note", ["missing"])).toBe("Short note");
+  });
+});
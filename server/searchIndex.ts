@@ -0,0 +1,202 @@
+/**
+ * Search index text handling
+ *
+ * Pure helpers behind semantic search: turning rich text into chunks, the tokenizer and
+ * BM25 scoring used for plain-text matching, embedding encoding, and fusing the text and
+ * vector rankings into one list. Database access lives in services/searchIndex.service.ts.
+ */
+
+import { stripHtml } from "./htmlSanitizer";
+
+export const SEARCH_SOURCE_TYPES = ["assessment", "deficiency", "photo", "project_document", "voice_transcript"] as const;
+export type SearchSourceType = typeof SEARCH_SOURCE_TYPES[number];
+
+// Chunks are sized for small embedding models (roughly 300 tokens)
+export const CHUNK_SIZE = 1200;
+export const CHUNK_OVERLAP = 200;
+export const MAX_CHUNKS_PER_SOURCE = 40;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is", "it", "its",
+  "of", "on", "or", "that", "the", "this", "to", "was", "were", "with", "all", "any", "find", "show",
+  "instances", "instance", "where", "which", "what",
+]);
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'", apos: "'", nbsp: " " };
+
+/**
+ * Plain text from rich-text HTML, keeping paragraph and line breaks as whitespace
+ */
+export function htmlToPlainText(html: string | null | undefined): string {
+  if (!html) return "";
+  const withBreaks = html.replace(/<(br|\/p|\/div|\/li|\/h[1-6]|\/tr)\b[^>]*>/gi, "\n");
+  return stripHtml(withBreaks)
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp);/g, (_entity, name: string) => ENTITIES[name])
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+/**
+ * Split text into overlapping chunks, breaking at whitespace where possible
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const clean = text.trim();
+  if (!clean) return [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length && chunks.length < MAX_CHUNKS_PER_SOURCE) {
+    let end = Math.min(start + size, clean.length);
+    if (end < clean.length) {
+      const breakAt = clean.lastIndexOf(" ", end);
+      if (breakAt > start + size / 2) end = breakAt;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+
+    const next = end - overlap;
+    const wordStart = clean.indexOf(" ", next);
+    start = wordStart > next && wordStart < end ? wordStart + 1 : next;
+  }
+  return chunks;
+}
+
+/**
+ * Light English stemmer so "walls" finds "wall" and "cracking" finds "cracked"
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.endsWith("ing") && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith("ed") && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss") && !word.endsWith("us")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Lowercased, stemmed words without stop words; accented Latin letters count as letters for French records
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Distinct query terms, in order
+ */
+export function queryTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query)));
+}
+
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * SQL LIKE patterns that prefilter candidates containing any query term
+ */
+export function likePatterns(terms: string[]): string[] {
+  return terms.map(term => `%${escapeLike(term)}%`);
+}
+
+/**
+ * BM25 scores of documents against the query terms; idf is taken over the documents given
+ */
+export function bm25Scores(terms: string[], documents: string[], k1 = 1.2, b = 0.75): number[] {
+  if (terms.length === 0 || documents.length === 0) return documents.map(() => 0);
+
+  const tokenized = documents.map(tokenize);
+  const averageLength = tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    const unique = new Set(tokens);
+    for (const term of terms) {
+      if (unique.has(term)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return tokenized.map(tokens => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+
+    return terms.reduce((score, term) => {
+      const frequency = counts.get(term) ?? 0;
+      if (frequency === 0) return score;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      return score + idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * tokens.length / averageLength));
+    }, 0);
+  });
+}
+
+/**
+ * Store a vector as base64 of its unit-length Float32 values
+ */
+export function encodeEmbedding(vector: number[]): string {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  const floats = Float32Array.from(vector, value => value / norm);
+  return Buffer.from(floats.buffer).toString("base64");
+}
+
+export function decodeEmbedding(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+/**
+ * Cosine similarity of two unit-length vectors; 0 when their dimensions differ
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Highest-similarity matches at or above the threshold, best first; merging each scanned
+ * batch with the previous result keeps a running top list over any number of vectors
+ */
+export function topMatches<T extends { similarity: number }>(matches: T[], limit: number, minSimilarity = 0): T[] {
+  return matches
+    .filter(match => match.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Reciprocal rank fusion: items ranked high in any list come first, items in several lists get a boost
+ */
+export function fuseRankings<T extends string | number>(rankings: T[][], k = 60): Map<T, number> {
+  const scores = new Map<T, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((key, rank) => scores.set(key, (scores.get(key) ?? 0) + 1 / (k + rank + 1)));
+  }
+  return scores;
+}
+
+/**
+ * Excerpt of the content around the first query term, or its start when no term appears
+ */
+export function buildSnippet(content: string, terms: string[], length = 240): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (text.length <= length) return text;
+
+  let at = -1;
+  const words = /[a-z0-9\u00c0-\u024f]+/gi;
+  let match: RegExpExecArray | null;
+  while (at < 0 && (match = words.exec(text))) {
+    if (terms.includes(stem(match[0].toLowerCase()))) at = match.index;
+  }
+
+  const start = at < 0 ? 0 : Math.max(0, at - Math.floor(length / 3));
+  const wordStart = start > 0 ? text.indexOf(" ", start) + 1 : 0;
+  const end = Math.min(text.length, wordStart + length);
+  const wordEnd = end < text.length ? text.lastIndexOf(" ", end) : end;
+  return `${wordStart > 0 ? "…" : ""}${text.slice(wordStart, wordEnd > wordStart ? wordEnd : end)}${end < text.length ? "…" : ""}`;
+}
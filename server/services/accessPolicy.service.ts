@@ -0,0 +1,272 @@
+/**
+ * Access Policy Service
+ * Loads the subject and resource attributes for a request and evaluates company policies
+ */
+
+import { TRPCError } from "@trpc/server";
+import { eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import { assessments, assets, companies, projects, type Asset, type Project, type User } from "../../drizzle/schema";
+import { getUserRoleInCompany } from "../companyRolesDb";
+import { getActivePolicyRules } from "../db/accessPolicies.db";
+import {
+  evaluatePolicies,
+  formatDenial,
+  type CompanyRole,
+  type PolicyDecision,
+  type PolicyRule,
+} from "../accessPolicy";
+import type { Permission } from "../permissions";
+import type { AuthenticatedApiKey } from "./apiKeyService";
+
+export interface AccessRequest {
+  action: Permission;
+  projectId?: number;
+  assetId?: number;
+  componentCode?: string | null;
+}
+
+export interface AccessExplanation extends PolicyDecision {
+  action: Permission;
+  exempt: boolean;
+  companyRole: CompanyRole | null;
+  message: string;
+}
+
+type PolicyUser = Pick<User, "id" | "role" | "isSuperAdmin">;
+
+async function getCompanyIdByName(name: string | null | undefined): Promise<number | null> {
+  if (!name) return null;
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select({ id: companies.id }).from(companies).where(eq(companies.name, name)).limit(1);
+  return result[0]?.id ?? null;
+}
+
+function exemption(action: Permission, reason: string, companyRole: CompanyRole | null): AccessExplanation {
+  return {
+    action,
+    allowed: true,
+    exempt: true,
+    companyRole,
+    reason,
+    message: reason,
+    decidingPolicy: null,
+    evaluations: [],
+  };
+}
+
+/**
+ * Evaluate the policies of the project's company for a user.
+ * Platform admins and company admins are exempt so they can always repair policies.
+ */
+export async function evaluateForProject(
+  user: PolicyUser,
+  action: Permission,
+  project: Pick<Project, "company"> & Record<string, unknown>,
+  asset?: Asset | null,
+  componentCode?: string | null
+): Promise<AccessExplanation> {
+  if (user.role === "admin" || user.isSuperAdmin) {
+    return exemption(action, "Administrators are not subject to access policies", null);
+  }
+
+  const companyId = await getCompanyIdByName(project.company);
+  if (!companyId) {
+    return exemption(action, "Project is not owned by a company with access policies", null);
+  }
+
+  const membership = await getUserRoleInCompany(user.id, companyId);
+  const companyRole = (membership?.companyRole ?? null) as CompanyRole | null;
+  if (companyRole === "company_admin") {
+    return exemption(action, "Company admins are not subject to access policies", companyRole);
+  }
+
+  const policies = await getActivePolicyRules(companyId);
+  return explainDecision(policies, user.id, companyRole, action, project, asset, componentCode);
+}
+
+function explainDecision(
+  policies: PolicyRule[],
+  userId: number,
+  companyRole: CompanyRole | null,
+  action: Permission,
+  project: Record<string, unknown>,
+  asset?: Asset | null,
+  componentCode?: string | null
+): AccessExplanation {
+  const decision = evaluatePolicies(policies, { userId, companyRole }, action, {
+    project,
+    asset: asset ?? null,
+    componentCode: componentCode ?? null,
+  });
+
+  return {
+    ...decision,
+    action,
+    exempt: false,
+    companyRole,
+    message: formatDenial(decision, action),
+  };
+}
+
+/**
+ * The project and asset a request names, or the reason it has none
+ */
+async function loadRequestResources(
+  request: AccessRequest
+): Promise<{ project: Project; asset: Asset | null } | { missing: string }> {
+  const db = await getDb();
+  if (!db) return { missing: "Database not available" };
+
+  let asset: Asset | null = null;
+  let projectId = request.projectId;
+
+  if (request.assetId) {
+    const assetResult = await db.select().from(assets).where(eq(assets.id, request.assetId)).limit(1);
+    asset = assetResult[0] ?? null;
+    projectId = projectId ?? asset?.projectId;
+  }
+
+  if (!projectId) {
+    return { missing: "Request does not reference a project" };
+  }
+
+  const projectResult = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+  const project = projectResult[0];
+  if (!project) {
+    return { missing: "Project not found" };
+  }
+
+  return { project, asset };
+}
+
+/**
+ * Load the project (and asset) named in a request and evaluate policies for it.
+ * Requests without a resolvable project are left to the existing checks.
+ */
+export async function checkAccess(user: PolicyUser, request: AccessRequest): Promise<AccessExplanation> {
+  const resources = await loadRequestResources(request);
+  if ("missing" in resources) {
+    return exemption(request.action, resources.missing, null);
+  }
+
+  return evaluateForProject(user, request.action, resources.project, resources.asset, request.componentCode);
+}
+
+/**
+ * Evaluate policies for a public API key, as the company role the key was issued with
+ */
+export async function checkApiKeyAccess(
+  key: Pick<AuthenticatedApiKey, "companyId" | "role" | "createdBy">,
+  request: AccessRequest
+): Promise<AccessExplanation> {
+  if (key.role === "company_admin") {
+    return exemption(request.action, "Company admins are not subject to access policies", key.role);
+  }
+
+  const resources = await loadRequestResources(request);
+  if ("missing" in resources) {
+    return exemption(request.action, resources.missing, key.role);
+  }
+
+  const policies = await getActivePolicyRules(key.companyId);
+  return explainDecision(
+    policies,
+    key.createdBy ?? 0,
+    key.role,
+    request.action,
+    resources.project,
+    resources.asset,
+    request.componentCode
+  );
+}
+
+/**
+ * Throw FORBIDDEN with the policy explanation when access is denied
+ */
+export async function assertAccess(user: PolicyUser, request: AccessRequest): Promise<void> {
+  const result = await checkAccess(user, request);
+  if (!result.allowed) {
+    console.warn(`[Security] Access policy denied user ${user.id} ${request.action} on project ${request.projectId ?? "-"} asset ${request.assetId ?? "-"}: ${result.reason}`);
+    throw new TRPCError({ code: "FORBIDDEN", message: result.message });
+  }
+}
+
+/**
+ * Check the stored asset and component of existing assessments, not what the
+ * request claims, and require them to belong to the project
+ */
+export async function assertAssessmentsAccess(
+  user: PolicyUser,
+  action: Permission,
+  projectId: number,
+  assessmentIds: number[]
+): Promise<void> {
+  if (assessmentIds.length === 0) return;
+  const db = await getDb();
+  // Without a database there are no stored rows or policies to check, as in checkAccess
+  if (!db) return;
+
+  const rows = await db
+    .select({ id: assessments.id, projectId: assessments.projectId, assetId: assessments.assetId, componentCode: assessments.componentCode })
+    .from(assessments)
+    .where(inArray(assessments.id, assessmentIds));
+
+  if (rows.length !== new Set(assessmentIds).size) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Assessment not found" });
+  }
+  if (rows.some(row => row.projectId !== projectId)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Assessment does not belong to this project" });
+  }
+
+  const canAct = await getComponentAccessFilter(user, action, projectId);
+  const denied = rows.find(row => !canAct(row));
+  if (denied) {
+    await assertAccess(user, { action, projectId, assetId: denied.assetId ?? undefined, componentCode: denied.componentCode });
+  }
+}
+
+export interface ComponentItem {
+  assetId?: number | null;
+  componentCode?: string | null;
+}
+
+/**
+ * Build a predicate keeping only the items (e.g. assessments of one project)
+ * the user may act on, checked per asset and component
+ */
+export async function getComponentAccessFilter(
+  user: PolicyUser,
+  action: Permission,
+  projectId: number
+): Promise<(item: ComponentItem) => boolean> {
+  const allowAll = () => true;
+  if (user.role === "admin" || user.isSuperAdmin) return allowAll;
+
+  const db = await getDb();
+  if (!db) return allowAll;
+
+  const projectResult = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+  const project = projectResult[0];
+  if (!project) return allowAll;
+
+  const companyId = await getCompanyIdByName(project.company);
+  if (!companyId) return allowAll;
+
+  const membership = await getUserRoleInCompany(user.id, companyId);
+  const companyRole = (membership?.companyRole ?? null) as CompanyRole | null;
+  if (companyRole === "company_admin") return allowAll;
+
+  const policies = await getActivePolicyRules(companyId);
+  if (policies.length === 0) return allowAll;
+
+  const projectAssets = await db.select().from(assets).where(eq(assets.projectId, projectId));
+  const assetsById = new Map(projectAssets.map(a => [a.id, a]));
+
+  return item => {
+    const asset = item.assetId ? assetsById.get(item.assetId) ?? null : null;
+    return explainDecision(policies, user.id, companyRole, action, project, asset, item.componentCode).allowed;
+  };
+}
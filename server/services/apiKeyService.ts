@@ -0,0 +1,150 @@
+/**
+ * API Key Service
+ * Issues and verifies company-scoped keys for the public REST API.
+ * Keys are shown once at creation; only the lookup prefix and a SHA-256 hash
+ * are stored, and each key carries a company role that bounds its scopes.
+ */
+
+import crypto from 'crypto';
+import { getDb } from '../db';
+import { apiKeys, companies, type ApiKey } from '../../drizzle/schema';
+import { eq, sql } from 'drizzle-orm';
+import {
+  API_KEY_PREFIX,
+  API_KEY_LOOKUP_LENGTH,
+  resolveKeyScopes,
+  type ApiKeyRole,
+  type ApiKeyScope,
+} from '../../shared/publicApi';
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+export interface AuthenticatedApiKey {
+  id: number;
+  companyId: number;
+  companyName: string | null;
+  name: string;
+  keyPrefix: string;
+  role: ApiKeyRole;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  createdBy: number | null; // Attributed as the acting user for writes
+}
+
+export type ApiKeyFailureReason = 'missing' | 'malformed' | 'unknown' | 'revoked' | 'expired';
+
+// ============================================================================
+// Key material
+// ============================================================================
+
+/**
+ * Generate a new raw API key ("bca_" followed by 40 hex characters)
+ */
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${crypto.randomBytes(20).toString('hex')}`;
+}
+
+export function hashApiKey(rawKey: string): string {
+  return crypto.createHash('sha256').update(rawKey).digest('hex');
+}
+
+export function getKeyLookupPrefix(rawKey: string): string {
+  return rawKey.slice(0, API_KEY_LOOKUP_LENGTH);
+}
+
+/**
+ * Read the raw key from the X-API-Key header or an "Authorization: Bearer" header
+ */
+export function extractApiKey(headers: Record<string, string | string[] | undefined>): string | null {
+  const header = headers[API_KEY_HEADER.toLowerCase()];
+  const direct = Array.isArray(header) ? header[0] : header;
+  if (direct) return direct.trim();
+
+  const authorization = headers.authorization;
+  const value = Array.isArray(authorization) ? authorization[0] : authorization;
+  const match = value?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+export function isWellFormedApiKey(rawKey: string): boolean {
+  return new RegExp(`^${API_KEY_PREFIX}[0-9a-f]{40}$`).test(rawKey);
+}
+
+export function parseKeyScopes(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((s): s is string => typeof s === 'string');
+  if (typeof value === 'string') {
+    try {
+      return parseKeyScopes(JSON.parse(value));
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+/**
+ * Check a stored key row against the current time
+ */
+export function getKeyStatus(key: Pick<ApiKey, 'revokedAt' | 'expiresAt'>, now: Date = new Date()): 'active' | 'revoked' | 'expired' {
+  if (key.revokedAt) return 'revoked';
+  if (key.expiresAt && new Date(key.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Resolve a raw key to its company, role and scopes
+ */
+export async function authenticateApiKey(
+  rawKey: string | null,
+  ipAddress?: string
+): Promise<{ key: AuthenticatedApiKey } | { error: ApiKeyFailureReason }> {
+  if (!rawKey) return { error: 'missing' };
+  if (!isWellFormedApiKey(rawKey)) return { error: 'malformed' };
+
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const candidates = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.keyPrefix, getKeyLookupPrefix(rawKey)));
+
+  const expected = Buffer.from(hashApiKey(rawKey), 'hex');
+  const match = candidates.find(candidate =>
+    crypto.timingSafeEqual(Buffer.from(candidate.keyHash, 'hex'), expected)
+  );
+  if (!match) return { error: 'unknown' };
+
+  const status = getKeyStatus(match);
+  if (status !== 'active') return { error: status };
+
+  const [company] = await db
+    .select({ name: companies.name })
+    .from(companies)
+    .where(eq(companies.id, match.companyId))
+    .limit(1);
+
+  // Usage tracking is best-effort and must not fail the request
+  db.update(apiKeys)
+    .set({ lastUsedAt: sql`CURRENT_TIMESTAMP`, lastUsedIp: ipAddress ?? null })
+    .where(eq(apiKeys.id, match.id))
+    .catch(error => console.error('[ApiKeys] Failed to record key usage:', error));
+
+  return {
+    key: {
+      id: match.id,
+      companyId: match.companyId,
+      companyName: company?.name ?? null,
+      name: match.name,
+      keyPrefix: match.keyPrefix,
+      role: match.role,
+      scopes: resolveKeyScopes(match.role, parseKeyScopes(match.scopes)),
+      rateLimitPerMinute: match.rateLimitPerMinute,
+      createdBy: match.createdBy,
+    },
+  };
+}
@@ -0,0 +1,649 @@
+/**
+ * Audit Chain Service
+ * Seals new rows from the audit tables into per-company hash chains, signs periodic
+ * checkpoints of each chain head and verifies chains against the current audit rows.
+ * A scheduled job seals every row not yet linked, shortly after it is written. Retention
+ * disposals are chained as entries for their certificate of disposal.
+ */
+
+import cron from 'node-cron';
+import { and, asc, count, desc, eq, gt, inArray, isNull, max, type SQL } from 'drizzle-orm';
+import type { MySqlColumn, MySqlTable } from 'drizzle-orm/mysql-core';
+import { getDb } from '../db';
+import { ENV } from '../_core/env';
+import {
+  auditChainCheckpoints,
+  auditChainLinks,
+  auditLog,
+  auditLogs,
+  companies,
+  criteriaAuditLog,
+  dataDisposalRequests,
+  mfaAuditLog,
+  projects,
+  scoringAuditLog,
+  users,
+} from '../../drizzle/schema';
+import {
+  AUDIT_CHAIN_SOURCES,
+  DISPOSAL_CHAIN_SOURCE,
+  buildChainLinks,
+  collectDisposedLinks,
+  describeChainBreak,
+  findChainBreak,
+  findCheckpointBreak,
+  getSigningKeyId,
+  hashAuditRow,
+  signCheckpoint,
+  type AuditChainSource,
+  type ChainBreak,
+  type ChainCheckpoint,
+  type ChainHead,
+  type ChainLink,
+  type DisposedChainLink,
+} from '../auditChain';
+
+const SEAL_BATCH_SIZE = 1000;
+const MAX_SEAL_BATCHES_PER_RUN = 50;
+const VERIFY_BATCH_SIZE = 1000;
+
+type AuditRow = Record<string, unknown> & { id: number };
+type StoredCertificate = { chainLinks?: DisposedChainLink[] };
+
+interface SourceDefinition {
+  table: MySqlTable;
+  id: MySqlColumn;
+  /** Columns covered by the content hash; fixed so later schema additions don't invalidate old links */
+  columns: Record<string, MySqlColumn>;
+  timestampField: string;
+  resolveCompanies: (rows: AuditRow[]) => Promise<Map<number, number | null>>;
+}
+
+export interface ChainVerificationReport {
+  companyId: number | null;
+  valid: boolean;
+  checkedEntries: number;
+  lastSequence: number;
+  checkpointsVerified: number;
+  lastCheckpointAt: string | null;
+  firstBreak: (ChainBreak & { message: string }) | null;
+  verifiedAt: string;
+}
+
+/**
+ * Secret used to sign checkpoints and export bundles
+ */
+export function getAuditChainSecret(): string {
+  return process.env.AUDIT_CHAIN_SECRET || ENV.cookieSecret;
+}
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+  return db;
+}
+
+type Database = Awaited<ReturnType<typeof requireDb>>;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+function chainCondition(column: MySqlColumn, companyId: number | null): SQL {
+  return companyId === null ? isNull(column) : eq(column, companyId);
+}
+
+function toMySqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  const time = new Date(String(value ?? '')).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+function pickColumns(table: MySqlTable, names: string[]): Record<string, MySqlColumn> {
+  const columns = (table as unknown as Record<string, MySqlColumn>);
+  return Object.fromEntries(names.map(name => [name, columns[name]]));
+}
+
+async function companiesByUser(rows: AuditRow[]): Promise<Map<number, number | null>> {
+  const db = await requireDb();
+  const userIds = Array.from(new Set(rows.map(row => Number(row.userId))));
+  const found = await db
+    .select({ id: users.id, companyId: users.companyId })
+    .from(users)
+    .where(inArray(users.id, userIds));
+
+  return new Map(rows.map(row => [row.id, found.find(user => user.id === row.userId)?.companyId ?? null]));
+}
+
+async function companiesByProject(rows: AuditRow[]): Promise<Map<number, number | null>> {
+  const db = await requireDb();
+  const projectIds = Array.from(new Set(rows.map(row => Number(row.projectId))));
+  // Projects reference their company by name
+  const found = await db
+    .select({ id: projects.id, companyId: companies.id })
+    .from(projects)
+    .leftJoin(companies, eq(companies.name, projects.company))
+    .where(inArray(projects.id, projectIds));
+
+  return new Map(rows.map(row => [row.id, found.find(project => project.id === row.projectId)?.companyId ?? null]));
+}
+
+const SOURCES: Record<AuditChainSource, SourceDefinition> = {
+  audit_logs: {
+    table: auditLogs,
+    id: auditLogs.id,
+    columns: pickColumns(auditLogs, [
+      'id', 'timestamp', 'userId', 'userName', 'userEmail', 'companyId', 'companyName', 'actionType',
+      'entityType', 'entityId', 'entityName', 'module', 'beforeState', 'afterState', 'changesSummary',
+      'status', 'errorMessage', 'ipAddress', 'userAgent', 'sessionId', 'requestId', 'metadata',
+    ]),
+    timestampField: 'timestamp',
+    resolveCompanies: async rows => new Map(rows.map(row => [row.id, (row.companyId as number | null) ?? null])),
+  },
+  audit_log: {
+    table: auditLog,
+    id: auditLog.id,
+    columns: pickColumns(auditLog, [
+      'id', 'userId', 'entityType', 'entityId', 'action', 'changes', 'metadata', 'createdAt',
+      'dataClassification', 'complianceTags', 'retentionPolicy', 'ipAddress', 'userAgent', 'sessionId',
+    ]),
+    timestampField: 'createdAt',
+    resolveCompanies: companiesByUser,
+  },
+  mfa_audit_log: {
+    table: mfaAuditLog,
+    id: mfaAuditLog.id,
+    columns: pickColumns(mfaAuditLog, [
+      'id', 'userId', 'action', 'success', 'ipAddress', 'userAgent', 'deviceFingerprint', 'failureReason', 'createdAt',
+    ]),
+    timestampField: 'createdAt',
+    resolveCompanies: companiesByUser,
+  },
+  criteria_audit_log: {
+    table: criteriaAuditLog,
+    id: criteriaAuditLog.id,
+    columns: pickColumns(criteriaAuditLog, [
+      'id', 'criteriaId', 'action', 'oldName', 'newName', 'oldDescription', 'newDescription', 'oldCategory',
+      'newCategory', 'oldWeight', 'newWeight', 'oldIsActive', 'newIsActive', 'oldStatus', 'newStatus',
+      'changedBy', 'changedAt', 'reason', 'changeDetails', 'impactedProjects',
+    ]),
+    timestampField: 'changedAt',
+    // Prioritization criteria are shared across companies, so their history is on the platform chain
+    resolveCompanies: async rows => new Map(rows.map(row => [row.id, null])),
+  },
+  scoring_audit_log: {
+    table: scoringAuditLog,
+    id: scoringAuditLog.id,
+    columns: pickColumns(scoringAuditLog, [
+      'id', 'projectScoreId', 'projectId', 'criteriaId', 'action', 'oldScore', 'newScore', 'oldJustification',
+      'newJustification', 'oldStatus', 'newStatus', 'changedBy', 'changedAt', 'reason',
+    ]),
+    timestampField: 'changedAt',
+    resolveCompanies: companiesByProject,
+  },
+};
+
+async function loadCertificates(ids: number[]): Promise<Map<number, StoredCertificate | null>> {
+  const db = await requireDb();
+  const certificates = new Map<number, StoredCertificate | null>(ids.map(id => [id, null]));
+  if (ids.length === 0) return certificates;
+
+  const rows = await db
+    .select({ id: dataDisposalRequests.id, certificate: dataDisposalRequests.certificate })
+    .from(dataDisposalRequests)
+    .where(inArray(dataDisposalRequests.id, ids));
+  for (const row of rows) certificates.set(row.id, (row.certificate as StoredCertificate | null) ?? null);
+  return certificates;
+}
+
+/**
+ * Current content hashes of source rows, keyed "table:id"; deleted rows map to null
+ * A disposal entry's content is its certificate.
+ */
+async function loadContentHashes(links: Pick<ChainLink, 'sourceTable' | 'sourceId'>[]): Promise<Map<string, string | null>> {
+  const db = await requireDb();
+  const hashes = new Map<string, string | null>();
+
+  for (const sourceTable of AUDIT_CHAIN_SOURCES) {
+    const ids = links.filter(link => link.sourceTable === sourceTable).map(link => link.sourceId);
+    if (ids.length === 0) continue;
+
+    const source = SOURCES[sourceTable];
+    const rows = await db.select(source.columns).from(source.table).where(inArray(source.id, ids)) as AuditRow[];
+    for (const id of ids) hashes.set(`${sourceTable}:${id}`, null);
+    for (const row of rows) hashes.set(`${sourceTable}:${row.id}`, hashAuditRow(row));
+  }
+
+  const disposalIds = links.filter(link => link.sourceTable === DISPOSAL_CHAIN_SOURCE).map(link => link.sourceId);
+  for (const [id, certificate] of Array.from((await loadCertificates(disposalIds)).entries())) {
+    hashes.set(`${DISPOSAL_CHAIN_SOURCE}:${id}`, certificate ? hashAuditRow(certificate) : null);
+  }
+  return hashes;
+}
+
+// ============================================================================
+// Sealing and checkpoints
+// ============================================================================
+
+async function getChainHead(companyId: number | null): Promise<ChainHead | null> {
+  const db = await requireDb();
+  const [head] = await db
+    .select({ sequence: auditChainLinks.sequence, entryHash: auditChainLinks.entryHash })
+    .from(auditChainLinks)
+    .where(chainCondition(auditChainLinks.companyId, companyId))
+    .orderBy(desc(auditChainLinks.sequence))
+    .limit(1);
+  return head ?? null;
+}
+
+/**
+ * Append links to a chain atomically; the head is locked so a concurrent sealer
+ * (e.g. on another instance) waits instead of reusing its sequence numbers
+ */
+async function appendChainLinks(
+  tx: Transaction,
+  companyId: number | null,
+  entries: Pick<ChainLink, 'sourceTable' | 'sourceId' | 'contentHash'>[]
+): Promise<void> {
+  const [head] = await tx
+    .select({ sequence: auditChainLinks.sequence, entryHash: auditChainLinks.entryHash })
+    .from(auditChainLinks)
+    .where(chainCondition(auditChainLinks.companyId, companyId))
+    .orderBy(desc(auditChainLinks.sequence))
+    .limit(1)
+    .for('update');
+
+  const links = buildChainLinks(head ?? null, entries);
+  for (let i = 0; i < links.length; i += 500) {
+    await tx.insert(auditChainLinks).values(links.slice(i, i + 500).map(link => ({ ...link, companyId })));
+  }
+}
+
+/**
+ * Seal one batch of unsealed rows from every source; returns the number of rows sealed
+ * Rows are found by an anti-join on the links, so rows committed out of id order are
+ * still sealed rather than skipped.
+ */
+async function sealBatch(): Promise<number> {
+  const db = await requireDb();
+  const pending: (ChainLink & { companyId: number | null; time: number; order: number })[] = [];
+
+  for (const [order, sourceTable] of Array.from(AUDIT_CHAIN_SOURCES.entries())) {
+    const source = SOURCES[sourceTable];
+    const rows = await db
+      .select(source.columns)
+      .from(source.table)
+      .leftJoin(
+        auditChainLinks,
+        and(eq(auditChainLinks.sourceTable, sourceTable), eq(auditChainLinks.sourceId, source.id))
+      )
+      .where(isNull(auditChainLinks.id))
+      .orderBy(asc(source.id))
+      .limit(SEAL_BATCH_SIZE) as AuditRow[];
+    if (rows.length === 0) continue;
+
+    const companyIds = await source.resolveCompanies(rows);
+    for (const row of rows) {
+      pending.push({
+        sourceTable,
+        sourceId: row.id,
+        contentHash: hashAuditRow(row),
+        companyId: companyIds.get(row.id) ?? null,
+        time: toTime(row[source.timestampField]),
+        order,
+        // Filled in by buildChainLinks
+        sequence: 0,
+        prevHash: '',
+        entryHash: '',
+      });
+    }
+  }
+
+  pending.sort((a, b) => a.time - b.time || a.order - b.order || a.sourceId - b.sourceId);
+
+  const byCompany = new Map<number | null, typeof pending>();
+  for (const entry of pending) {
+    byCompany.set(entry.companyId, [...(byCompany.get(entry.companyId) ?? []), entry]);
+  }
+
+  for (const [companyId, entries] of Array.from(byCompany.entries())) {
+    await db.transaction(tx => appendChainLinks(
+      tx,
+      companyId,
+      entries.map(({ sourceTable, sourceId, contentHash }) => ({ sourceTable, sourceId, contentHash }))
+    ));
+  }
+
+  return pending.length;
+}
+
+let sealing: Promise<number> | null = null;
+
+/**
+ * Seal every unsealed audit row into its company's chain
+ * Concurrent callers share the run in progress so no row is linked twice
+ */
+export function sealAuditChains(): Promise<number> {
+  if (!sealing) {
+    sealing = (async () => {
+      let total = 0;
+      for (let batch = 0; batch < MAX_SEAL_BATCHES_PER_RUN; batch++) {
+        const sealed = await sealBatch();
+        total += sealed;
+        if (sealed === 0) break;
+      }
+      return total;
+    })().finally(() => {
+      sealing = null;
+    });
+  }
+  return sealing;
+}
+
+/**
+ * Sign a checkpoint for every chain that has grown since its last checkpoint
+ */
+export async function createAuditCheckpoints(): Promise<number> {
+  const db = await requireDb();
+  const secret = getAuditChainSecret();
+  if (!secret) console.warn('[AuditChain] No signing secret configured; set AUDIT_CHAIN_SECRET');
+
+  const chains = await db
+    .select({ companyId: auditChainLinks.companyId })
+    .from(auditChainLinks)
+    .groupBy(auditChainLinks.companyId);
+
+  let created = 0;
+  for (const { companyId } of chains) {
+    const head = await getChainHead(companyId);
+    if (!head) continue;
+
+    const [last] = await db
+      .select({ sequence: auditChainCheckpoints.sequence })
+      .from(auditChainCheckpoints)
+      .where(chainCondition(auditChainCheckpoints.companyId, companyId))
+      .orderBy(desc(auditChainCheckpoints.sequence))
+      .limit(1);
+    if (last && last.sequence >= head.sequence) continue;
+
+    const checkpoint = { companyId, sequence: head.sequence, entryHash: head.entryHash, createdAt: toMySqlTimestamp(new Date()) };
+    await db.insert(auditChainCheckpoints).values({
+      ...checkpoint,
+      signature: signCheckpoint(checkpoint, secret),
+      keyId: getSigningKeyId(secret),
+    });
+    created++;
+  }
+  return created;
+}
+
+/**
+ * Links of sealed rows in a company's chain, for the certificate of disposal that removes them
+ */
+export async function getDisposedChainLinks(
+  companyId: number,
+  sourceTable: AuditChainSource,
+  sourceIds: number[]
+): Promise<DisposedChainLink[]> {
+  const db = await requireDb();
+  const links: DisposedChainLink[] = [];
+
+  for (let i = 0; i < sourceIds.length; i += 1000) {
+    const batch = await db
+      .select({ sequence: auditChainLinks.sequence, entryHash: auditChainLinks.entryHash })
+      .from(auditChainLinks)
+      .where(and(
+        eq(auditChainLinks.companyId, companyId),
+        eq(auditChainLinks.sourceTable, sourceTable),
+        inArray(auditChainLinks.sourceId, sourceIds.slice(i, i + 1000))
+      ));
+    links.push(...batch);
+  }
+  return links.sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Chain a certificate of disposal into the company's chain; verification then accepts
+ * the missing rows of the links it lists, for as long as the certificate is unchanged
+ */
+export async function appendDisposalChainEntry(companyId: number, certificateId: number, certificateHash: string): Promise<void> {
+  const db = await requireDb();
+  await db.transaction(tx => appendChainLinks(tx, companyId, [
+    { sourceTable: DISPOSAL_CHAIN_SOURCE, sourceId: certificateId, contentHash: certificateHash },
+  ]));
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+async function getCheckpoints(companyId: number | null): Promise<ChainCheckpoint[]> {
+  const db = await requireDb();
+  return db
+    .select({
+      id: auditChainCheckpoints.id,
+      companyId: auditChainCheckpoints.companyId,
+      sequence: auditChainCheckpoints.sequence,
+      entryHash: auditChainCheckpoints.entryHash,
+      createdAt: auditChainCheckpoints.createdAt,
+      signature: auditChainCheckpoints.signature,
+    })
+    .from(auditChainCheckpoints)
+    .where(chainCondition(auditChainCheckpoints.companyId, companyId))
+    .orderBy(asc(auditChainCheckpoints.sequence));
+}
+
+/**
+ * Walk a company's chain (null for the platform chain) and report the first broken link
+ */
+export async function verifyAuditChain(companyId: number | null): Promise<ChainVerificationReport> {
+  const db = await requireDb();
+  const checkpoints = await getCheckpoints(companyId);
+  const checkpointSequences = new Set(checkpoints.map(checkpoint => checkpoint.sequence));
+  const entryHashes = new Map<number, string>();
+
+  const disposalEntries = await db
+    .select({ sequence: auditChainLinks.sequence, sourceId: auditChainLinks.sourceId, contentHash: auditChainLinks.contentHash })
+    .from(auditChainLinks)
+    .where(and(
+      chainCondition(auditChainLinks.companyId, companyId),
+      eq(auditChainLinks.sourceTable, DISPOSAL_CHAIN_SOURCE)
+    ));
+  const disposedLinks = collectDisposedLinks(
+    disposalEntries,
+    await loadCertificates(disposalEntries.map(entry => entry.sourceId))
+  );
+
+  let previous: ChainHead | null = null;
+  let checkedEntries = 0;
+  let linkBreak: ChainBreak | null = null;
+
+  while (!linkBreak) {
+    const links = await db
+      .select({
+        sequence: auditChainLinks.sequence,
+        sourceTable: auditChainLinks.sourceTable,
+        sourceId: auditChainLinks.sourceId,
+        contentHash: auditChainLinks.contentHash,
+        prevHash: auditChainLinks.prevHash,
+        entryHash: auditChainLinks.entryHash,
+      })
+      .from(auditChainLinks)
+      .where(and(
+        chainCondition(auditChainLinks.companyId, companyId),
+        gt(auditChainLinks.sequence, previous?.sequence ?? 0)
+      ))
+      .orderBy(asc(auditChainLinks.sequence))
+      .limit(VERIFY_BATCH_SIZE);
+    if (links.length === 0) break;
+
+    linkBreak = findChainBreak(links, await loadContentHashes(links), previous, disposedLinks);
+    for (const link of links) {
+      if (linkBreak && link.sequence >= linkBreak.sequence) break;
+      if (checkpointSequences.has(link.sequence)) entryHashes.set(link.sequence, link.entryHash);
+      previous = link;
+      checkedEntries++;
+    }
+  }
+
+  // Checkpoints past a broken link can't be compared, so only earlier ones are checked then
+  const checkpointBreak = findCheckpointBreak(
+    linkBreak ? checkpoints.filter(checkpoint => checkpoint.sequence < linkBreak!.sequence) : checkpoints,
+    entryHashes,
+    getAuditChainSecret()
+  );
+  const firstBreak = [linkBreak, checkpointBreak]
+    .filter((candidate): candidate is ChainBreak => candidate !== null)
+    .sort((a, b) => a.sequence - b.sequence)[0] ?? null;
+
+  const verifiedCheckpoints = checkpoints.filter(checkpoint => !firstBreak || checkpoint.sequence < firstBreak.sequence);
+  return {
+    companyId,
+    valid: firstBreak === null,
+    checkedEntries,
+    lastSequence: (previous as ChainHead | null)?.sequence ?? 0,
+    checkpointsVerified: verifiedCheckpoints.length,
+    lastCheckpointAt: verifiedCheckpoints.at(-1)?.createdAt ?? null,
+    firstBreak: firstBreak ? { ...firstBreak, message: describeChainBreak(firstBreak) } : null,
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Length, head and latest checkpoint of every chain
+ */
+export async function getAuditChainSummaries() {
+  const db = await requireDb();
+  const chains = await db
+    .select({
+      companyId: auditChainLinks.companyId,
+      entries: count(),
+      lastSequence: max(auditChainLinks.sequence),
+      lastSealedAt: max(auditChainLinks.createdAt),
+    })
+    .from(auditChainLinks)
+    .groupBy(auditChainLinks.companyId);
+
+  const checkpoints = await db
+    .select({
+      companyId: auditChainCheckpoints.companyId,
+      lastCheckpointSequence: max(auditChainCheckpoints.sequence),
+      lastCheckpointAt: max(auditChainCheckpoints.createdAt),
+    })
+    .from(auditChainCheckpoints)
+    .groupBy(auditChainCheckpoints.companyId);
+
+  const companyIds = chains.map(chain => chain.companyId).filter((id): id is number => id !== null);
+  const names = companyIds.length > 0
+    ? await db.select({ id: companies.id, name: companies.name }).from(companies).where(inArray(companies.id, companyIds))
+    : [];
+
+  return chains.map(chain => {
+    const checkpoint = checkpoints.find(candidate => candidate.companyId === chain.companyId);
+    return {
+      ...chain,
+      companyName: chain.companyId === null ? 'Platform' : names.find(company => company.id === chain.companyId)?.name ?? `Company ${chain.companyId}`,
+      lastCheckpointSequence: checkpoint?.lastCheckpointSequence ?? null,
+      lastCheckpointAt: checkpoint?.lastCheckpointAt ?? null,
+    };
+  });
+}
+
+/**
+ * Chain proof for exported rows: their links, plus a verification report and the signed
+ * checkpoints of every chain they belong to
+ */
+export async function getAuditChainProof(sourceTable: AuditChainSource, sourceIds: number[]) {
+  const db = await requireDb();
+  const links: (ChainLink & { companyId: number | null })[] = [];
+
+  for (let i = 0; i < sourceIds.length; i += 1000) {
+    const batch = await db
+      .select({
+        companyId: auditChainLinks.companyId,
+        sequence: auditChainLinks.sequence,
+        sourceTable: auditChainLinks.sourceTable,
+        sourceId: auditChainLinks.sourceId,
+        contentHash: auditChainLinks.contentHash,
+        prevHash: auditChainLinks.prevHash,
+        entryHash: auditChainLinks.entryHash,
+      })
+      .from(auditChainLinks)
+      .where(and(
+        eq(auditChainLinks.sourceTable, sourceTable),
+        inArray(auditChainLinks.sourceId, sourceIds.slice(i, i + 1000))
+      ));
+    links.push(...batch);
+  }
+
+  const chainIds = Array.from(new Set(links.map(link => link.companyId)));
+  const chains = [];
+  for (const companyId of chainIds) {
+    chains.push({
+      companyId,
+      verification: await verifyAuditChain(companyId),
+      checkpoints: await getCheckpoints(companyId),
+    });
+  }
+
+  const sealedIds = new Set(links.map(link => link.sourceId));
+  return {
+    links,
+    unsealedIds: sourceIds.filter(id => !sealedIds.has(id)),
+    chains,
+  };
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+let sealerTask: ReturnType<typeof cron.schedule> | null = null;
+let checkpointTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Seal new audit rows every minute and sign chain checkpoints hourly
+ */
+export function startAuditChainSealer(): void {
+  if (sealerTask) {
+    console.log('[AuditChain] Sealer already running');
+    return;
+  }
+
+  sealerTask = cron.schedule('* * * * *', async () => {
+    try {
+      await sealAuditChains();
+    } catch (error) {
+      console.error('[AuditChain] Error sealing audit entries:', error);
+    }
+  }, {
+    name: 'audit-chain-sealer',
+    noOverlap: true,
+  });
+
+  checkpointTask = cron.schedule('30 * * * *', async () => {
+    try {
+      await sealAuditChains();
+      await createAuditCheckpoints();
+    } catch (error) {
+      console.error('[AuditChain] Error creating checkpoints:', error);
+    }
+  }, {
+    name: 'audit-chain-checkpoints',
+    noOverlap: true,
+  });
+
+  console.log('[AuditChain] Sealer started');
+}
+
+export function stopAuditChainSealer(): void {
+  sealerTask?.stop();
+  checkpointTask?.stop();
+  sealerTask = null;
+  checkpointTask = null;
+}
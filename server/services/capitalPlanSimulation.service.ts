@@ -0,0 +1,484 @@
+/**
+ * Capital Plan Simulation Service
+ *
+ * Monte Carlo simulation of capital plan funding risk. Each iteration samples
+ * deficiency cost uncertainty, annual inflation, and component remaining life
+ * (from best/design/worst deterioration curves), then funds the backlog year by
+ * year against the cycle's budget. Percentiles across iterations replace the
+ * single-point backlog and unfunded-risk figures in capitalPlanning.db.ts.
+ */
+
+import {
+  predictFailureYear,
+  DEFAULT_CURVES,
+  type CurveParameters,
+} from "../deteriorationCurveService";
+import * as capitalPlanningDb from "../db/capitalPlanning.db";
+import type { CapitalBudgetCycle, DeteriorationCurve } from "../../drizzle/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SimulationParameters {
+  iterations: number;
+  seed: number;
+  /** Cost can come in this fraction below estimate (triangular low bound) */
+  costUncertaintyLow: number;
+  /** Cost can come in this fraction above estimate (triangular high bound) */
+  costUncertaintyHigh: number;
+  /** Standard deviation of annual inflation, in percentage points */
+  inflationVolatility: number;
+  /** Condition % at which a curve counts as failed when deriving life ranges */
+  failureThreshold: number;
+  facilityId?: number;
+}
+
+export const DEFAULT_SIMULATION_PARAMETERS: Omit<SimulationParameters, "seed"> = {
+  iterations: 1000,
+  costUncertaintyLow: 0.15,
+  costUncertaintyHigh: 0.3,
+  inflationVolatility: 1.0,
+  failureThreshold: 20,
+};
+
+export interface SimulationDeficiency {
+  id: number;
+  estimatedCost: number;
+  severity: "low" | "medium" | "high" | "critical";
+  priority: "immediate" | "short_term" | "medium_term" | "long_term";
+}
+
+/** A component that becomes a critical renewal need when its sampled remaining life runs out */
+export interface SimulationComponent {
+  id: number;
+  replacementCost: number;
+  remainingLife: { worst: number; design: number; best: number };
+}
+
+export interface SimulationInput {
+  startYear: number;
+  endYear: number;
+  /** Percent, as stored on capital_budget_cycles */
+  inflationRate: number;
+  escalationRate: number;
+  /** Budget available in each cycle year, indexed from startYear */
+  annualBudgets: number[];
+  currentReplacementValue: number;
+  deficiencies: SimulationDeficiency[];
+  components: SimulationComponent[];
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export interface SimulationYearResult {
+  year: number;
+  backlog: Percentiles;
+  fci: Percentiles;
+  /** Share of iterations where at least one critical need went unfunded this year */
+  probabilityUnfundedCritical: number;
+  unfundedCriticalCount: Percentiles;
+}
+
+export interface SimulationResult {
+  years: SimulationYearResult[];
+  finalBacklog: Percentiles;
+  finalFci: Percentiles;
+  /** Share of iterations where a critical need went unfunded in any cycle year */
+  probabilityUnfundedCritical: number;
+  iterations: number;
+  deficiencyCount: number;
+  componentCount: number;
+}
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+/**
+ * Seeded PRNG (mulberry32) so a stored run can be reproduced from its seed
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleTriangular(random: () => number, min: number, mode: number, max: number): number {
+  if (max <= min) return mode;
+  const u = random();
+  const split = (mode - min) / (max - min);
+  if (u < split) {
+    return min + Math.sqrt(u * (max - min) * (mode - min));
+  }
+  return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+export function sampleNormal(random: () => number, mean: number, standardDeviation: number): number {
+  if (standardDeviation <= 0) return mean;
+  // Box-Muller; guard against log(0)
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return mean + standardDeviation * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Linear-interpolated percentile of an ascending-sorted array
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function summarize(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean,
+  };
+}
+
+// ============================================================================
+// REMAINING LIFE FROM DETERIORATION CURVES
+// ============================================================================
+
+export interface CurveSet {
+  best: CurveParameters;
+  design: CurveParameters;
+  worst: CurveParameters;
+  interpolationType?: "linear" | "polynomial" | "exponential";
+}
+
+/**
+ * Default curves for a UNIFORMAT code, matched on the level-2 prefix (e.g. D30)
+ */
+export function getDefaultCurveSet(componentCode: string | null | undefined): CurveSet {
+  const prefix = (componentCode || "").toUpperCase().slice(0, 3);
+  return DEFAULT_CURVES[prefix] || DEFAULT_CURVES.default;
+}
+
+/**
+ * Spread an assessed remaining life into worst/design/best values
+ * The design curve is taken to match the assessed remaining life; best and worst
+ * scale it by how much longer or shorter those curves take to reach failure.
+ */
+export function deriveRemainingLifeRange(
+  assessedRemainingLife: number,
+  curves: CurveSet,
+  failureThreshold: number = DEFAULT_SIMULATION_PARAMETERS.failureThreshold
+): { worst: number; design: number; best: number } {
+  const lifespan = (params: CurveParameters) =>
+    Math.max(1, predictFailureYear(params, 0, failureThreshold, curves.interpolationType));
+
+  const designLife = lifespan(curves.design);
+  const worst = assessedRemainingLife * (lifespan(curves.worst) / designLife);
+  const best = assessedRemainingLife * (lifespan(curves.best) / designLife);
+
+  return {
+    worst: Math.min(worst, assessedRemainingLife),
+    design: assessedRemainingLife,
+    best: Math.max(best, assessedRemainingLife),
+  };
+}
+
+// ============================================================================
+// SIMULATION ENGINE
+// ============================================================================
+
+const SEVERITY_RANK: Record<SimulationDeficiency["severity"], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+const PRIORITY_RANK: Record<SimulationDeficiency["priority"], number> = {
+  immediate: 0,
+  short_term: 1,
+  medium_term: 2,
+  long_term: 3,
+};
+
+interface SimulationNeed {
+  baseCost: number;
+  critical: boolean;
+  rank: number;
+  componentIndex: number | null;
+}
+
+/**
+ * Run the Monte Carlo simulation
+ * Budgets are spent each year in priority order (critical first); a need that does
+ * not fit the remaining budget is skipped so smaller needs can still be funded.
+ * Unspent budget does not carry over to the next year.
+ */
+export function simulateCapitalPlan(input: SimulationInput, params: SimulationParameters): SimulationResult {
+  const yearCount = Math.max(1, input.endYear - input.startYear + 1);
+  const random = createRandom(params.seed);
+
+  // Fixed funding order: deficiencies by severity then priority, component renewals as critical
+  const needs: SimulationNeed[] = [
+    ...input.deficiencies.map((d): SimulationNeed => ({
+      baseCost: Math.max(0, d.estimatedCost),
+      critical: d.severity === "critical",
+      rank: SEVERITY_RANK[d.severity] * 10 + PRIORITY_RANK[d.priority],
+      componentIndex: null,
+    })),
+    ...input.components.map((c, index): SimulationNeed => ({
+      baseCost: Math.max(0, c.replacementCost),
+      critical: true,
+      rank: 0,
+      componentIndex: index,
+    })),
+  ].sort((a, b) => a.rank - b.rank);
+
+  const backlogByYear: number[][] = Array.from({ length: yearCount }, () => []);
+  const fciByYear: number[][] = Array.from({ length: yearCount }, () => []);
+  const unfundedCriticalByYear: number[][] = Array.from({ length: yearCount }, () => []);
+  let iterationsWithUnfundedCritical = 0;
+
+  const cost = new Float64Array(needs.length);
+  const activeFrom = new Int32Array(needs.length);
+  const funded = new Uint8Array(needs.length);
+
+  for (let iteration = 0; iteration < params.iterations; iteration++) {
+    // Sample this iteration's costs and component failure years
+    for (let i = 0; i < needs.length; i++) {
+      const need = needs[i];
+      cost[i] = need.baseCost * sampleTriangular(random, 1 - params.costUncertaintyLow, 1, 1 + params.costUncertaintyHigh);
+      funded[i] = 0;
+
+      if (need.componentIndex === null) {
+        activeFrom[i] = 0;
+      } else {
+        const life = input.components[need.componentIndex].remainingLife;
+        const sampledLife = sampleTriangular(random, life.worst, life.design, life.best);
+        // Components outliving the cycle never become a need in this run
+        activeFrom[i] = sampledLife < yearCount ? Math.max(0, Math.floor(sampledLife)) : yearCount;
+      }
+    }
+
+    let costIndex = 1;
+    let anyUnfundedCritical = false;
+
+    for (let year = 0; year < yearCount; year++) {
+      if (year > 0) {
+        const inflation = sampleNormal(random, input.inflationRate, params.inflationVolatility);
+        costIndex *= 1 + (inflation + input.escalationRate) / 100;
+      }
+
+      let budget = input.annualBudgets[year] ?? 0;
+      let backlog = 0;
+      let unfundedCritical = 0;
+
+      for (let i = 0; i < needs.length; i++) {
+        if (funded[i] || activeFrom[i] > year) continue;
+        const escalatedCost = cost[i] * costIndex;
+        if (escalatedCost <= budget) {
+          budget -= escalatedCost;
+          funded[i] = 1;
+        } else {
+          backlog += escalatedCost;
+          if (needs[i].critical) unfundedCritical++;
+        }
+      }
+
+      const replacementValue = input.currentReplacementValue * costIndex;
+      backlogByYear[year].push(backlog);
+      fciByYear[year].push(replacementValue > 0 ? backlog / replacementValue : 0);
+      unfundedCriticalByYear[year].push(unfundedCritical);
+      if (unfundedCritical > 0) anyUnfundedCritical = true;
+    }
+
+    if (anyUnfundedCritical) iterationsWithUnfundedCritical++;
+  }
+
+  const iterations = Math.max(1, params.iterations);
+  const years = backlogByYear.map((backlogs, index): SimulationYearResult => ({
+    year: input.startYear + index,
+    backlog: summarize(backlogs),
+    fci: summarize(fciByYear[index]),
+    probabilityUnfundedCritical: unfundedCriticalByYear[index].filter(count => count > 0).length / iterations,
+    unfundedCriticalCount: summarize(unfundedCriticalByYear[index]),
+  }));
+
+  return {
+    years,
+    finalBacklog: years[years.length - 1].backlog,
+    finalFci: years[years.length - 1].fci,
+    probabilityUnfundedCritical: iterationsWithUnfundedCritical / iterations,
+    iterations: params.iterations,
+    deficiencyCount: input.deficiencies.length,
+    componentCount: input.components.length,
+  };
+}
+
+// ============================================================================
+// INPUT ASSEMBLY
+// ============================================================================
+
+type SimulationSourceData = Awaited<ReturnType<typeof capitalPlanningDb.getSimulationSourceData>>;
+
+const toNumber = (value: unknown) => {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(n) ? n : 0;
+};
+
+const toCurveParameters = (curve: DeteriorationCurve): CurveParameters => ({
+  param1: curve.param1,
+  param2: curve.param2,
+  param3: curve.param3,
+  param4: curve.param4,
+  param5: curve.param5,
+  param6: curve.param6,
+});
+
+/**
+ * Pick the best/design/worst curves for a component
+ * Project-specific configuration wins, then default curves saved for the component
+ * type, then the built-in UNIFORMAT defaults.
+ */
+export function resolveCurveSet(
+  component: { componentCode: string | null; bestCaseCurveId: number | null; designCaseCurveId: number | null; worstCaseCurveId: number | null },
+  curves: DeteriorationCurve[]
+): CurveSet {
+  const fallback = getDefaultCurveSet(component.componentCode);
+  const byId = (id: number | null) => (id ? curves.find(c => c.id === id) : undefined);
+  const typeDefault = (curveType: DeteriorationCurve["curveType"]) =>
+    curves.find(c =>
+      c.isDefault === 1 &&
+      c.curveType === curveType &&
+      !!c.componentType &&
+      !!component.componentCode &&
+      component.componentCode.toUpperCase().startsWith(c.componentType.toUpperCase())
+    );
+
+  const pick = (curveType: DeteriorationCurve["curveType"], id: number | null) => {
+    const curve = byId(id) || typeDefault(curveType);
+    return curve ? toCurveParameters(curve) : fallback[curveType];
+  };
+
+  const design = byId(component.designCaseCurveId) || typeDefault("design");
+  return {
+    best: pick("best", component.bestCaseCurveId),
+    design: pick("design", component.designCaseCurveId),
+    worst: pick("worst", component.worstCaseCurveId),
+    interpolationType: design?.interpolationType || "linear",
+  };
+}
+
+/**
+ * Annual budget for each cycle year
+ * Approved/funded allocations take precedence, then the cycle's yearly funding
+ * constraints, then the total budget spread evenly.
+ */
+export function resolveAnnualBudgets(
+  cycle: { startYear: number; endYear: number; totalBudget: unknown; fundingConstraints: string | null },
+  allocationsByYear: Array<{ year: number; amount: unknown }>
+): number[] {
+  const yearCount = Math.max(1, cycle.endYear - cycle.startYear + 1);
+  let constraints: Record<string, number> = {};
+  if (cycle.fundingConstraints) {
+    try {
+      constraints = JSON.parse(cycle.fundingConstraints);
+    } catch {
+      constraints = {};
+    }
+  }
+  const evenSplit = toNumber(cycle.totalBudget) / yearCount;
+
+  return Array.from({ length: yearCount }, (_, index) => {
+    const year = cycle.startYear + index;
+    const allocated = toNumber(allocationsByYear.find(a => Number(a.year) === year)?.amount);
+    if (allocated > 0) return allocated;
+    const constraint = toNumber(constraints[String(year)]);
+    if (constraint > 0) return constraint;
+    return evenSplit;
+  });
+}
+
+/**
+ * Turn cycle settings and portfolio rows into simulation input
+ */
+export function buildSimulationInput(
+  cycle: CapitalBudgetCycle,
+  source: SimulationSourceData,
+  failureThreshold: number
+): SimulationInput {
+  return {
+    startYear: cycle.startYear,
+    endYear: cycle.endYear,
+    inflationRate: toNumber(cycle.inflationRate),
+    escalationRate: toNumber(cycle.escalationRate),
+    annualBudgets: resolveAnnualBudgets(cycle, source.allocationsByYear),
+    currentReplacementValue: toNumber(source.currentReplacementValue),
+    deficiencies: source.deficiencies.map((d: any) => ({
+      id: Number(d.id),
+      estimatedCost: toNumber(d.estimatedCost),
+      severity: d.severity,
+      priority: d.priority,
+    })),
+    components: source.components.map((c: any) => ({
+      id: Number(c.id),
+      replacementCost: toNumber(c.replacementValue) || toNumber(c.renewCost),
+      remainingLife: deriveRemainingLifeRange(toNumber(c.remainingUsefulLife), resolveCurveSet(c, source.curves), failureThreshold),
+    })),
+  };
+}
+
+// ============================================================================
+// RUN ORCHESTRATION
+// ============================================================================
+
+/**
+ * Simulate a capital budget cycle and store the run
+ * The run row is written first so failures are recorded alongside successful runs
+ */
+export async function runCycleSimulation(
+  cycleId: number,
+  overrides: Partial<SimulationParameters> & { name?: string },
+  userId: number
+) {
+  const cycle = await capitalPlanningDb.getCycleById(cycleId);
+  if (!cycle) throw new Error("Cycle not found");
+
+  const { name, ...parameterOverrides } = overrides;
+  const params: SimulationParameters = {
+    ...DEFAULT_SIMULATION_PARAMETERS,
+    seed: Math.floor(Math.random() * 2 ** 31),
+    ...parameterOverrides,
+  };
+
+  const runId = await capitalPlanningDb.createSimulationRun({
+    cycleId,
+    name: name || null,
+    iterations: params.iterations,
+    seed: params.seed,
+    parameters: JSON.stringify(params),
+    createdBy: userId,
+  });
+
+  const startedAt = Date.now();
+  try {
+    const source = await capitalPlanningDb.getSimulationSourceData(params.facilityId);
+    const result = simulateCapitalPlan(buildSimulationInput(cycle, source, params.failureThreshold), params);
+
+    await capitalPlanningDb.completeSimulationRun(runId, result, Date.now() - startedAt);
+    console.log(`[CapitalPlanSimulation] Run ${runId} for cycle ${cycleId} completed: ${params.iterations} iterations in ${Date.now() - startedAt}ms`);
+  } catch (error: any) {
+    console.error(`[CapitalPlanSimulation] Run ${runId} for cycle ${cycleId} failed:`, error);
+    await capitalPlanningDb.failSimulationRun(runId, error.message || "Simulation failed", Date.now() - startedAt);
+  }
+
+  return capitalPlanningDb.getSimulationRun(runId);
+}
@@ -0,0 +1,167 @@
+/**
+ * Tests for the capital plan Monte Carlo simulation
+ * Tests sampling helpers, remaining-life ranges, budget resolution and the funding loop
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SIMULATION_PARAMETERS,
+  createRandom,
+  deriveRemainingLifeRange,
+  getDefaultCurveSet,
+  percentile,
+  resolveAnnualBudgets,
+  sampleTriangular,
+  simulateCapitalPlan,
+  type SimulationInput,
+  type SimulationParameters,
+} from "./capitalPlanSimulation.service";
+
+const params = (overrides: Partial<SimulationParameters> = {}): SimulationParameters => ({
+  ...DEFAULT_SIMULATION_PARAMETERS,
+  iterations: 200,
+  seed: 42,
+  ...overrides,
+});
+
+const certain = { costUncertaintyLow: 0, costUncertaintyHigh: 0, inflationVolatility: 0 };
+
+const baseInput = (overrides: Partial<SimulationInput> = {}): SimulationInput => ({
+  startYear: 2026,
+  endYear: 2029,
+  inflationRate: 2,
+  escalationRate: 0,
+  annualBudgets: [0, 0, 0, 0],
+  currentReplacementValue: 1_000_000,
+  deficiencies: [],
+  components: [],
+  ...overrides,
+});
+
+describe("capital plan simulation", () => {
+  describe("sampling helpers", () => {
+    it("should reproduce the same sequence from a seed", () => {
+      const a = createRandom(7);
+      const b = createRandom(7);
+      const first = [a(), a(), a()];
+      expect([b(), b(), b()]).toEqual(first);
+      expect(first.every(v => v >= 0 && v < 1)).toBe(true);
+    });
+
+    it("should keep triangular samples within bounds", () => {
+      const random = createRandom(1);
+      for (let i = 0; i < 500; i++) {
+        const value = sampleTriangular(random, 0.85, 1, 1.3);
+        expect(value).toBeGreaterThanOrEqual(0.85);
+        expect(value).toBeLessThanOrEqual(1.3);
+      }
+      expect(sampleTriangular(random, 5, 5, 5)).toBe(5);
+    });
+
+    it("should interpolate percentiles", () => {
+      expect(percentile([0, 10, 20, 30, 40], 0.5)).toBe(20);
+      expect(percentile([0, 10], 0.1)).toBe(1);
+      expect(percentile([], 0.5)).toBe(0);
+    });
+  });
+
+  describe("deriveRemainingLifeRange", () => {
+    it("should spread remaining life using best and worst curves", () => {
+      const range = deriveRemainingLifeRange(10, getDefaultCurveSet("D3020"));
+      expect(range.design).toBe(10);
+      expect(range.worst).toBeLessThan(10);
+      expect(range.best).toBeGreaterThan(10);
+    });
+
+    it("should fall back to the default curves for unknown codes", () => {
+      expect(getDefaultCurveSet("Z9999")).toBe(getDefaultCurveSet(null));
+    });
+  });
+
+  describe("resolveAnnualBudgets", () => {
+    it("should prefer allocations, then funding constraints, then an even split", () => {
+      const budgets = resolveAnnualBudgets(
+        { startYear: 2026, endYear: 2029, totalBudget: "400000.00", fundingConstraints: JSON.stringify({ "2027": 250000 }) },
+        [{ year: 2026, amount: "150000.00" }]
+      );
+      expect(budgets).toEqual([150000, 250000, 100000, 100000]);
+    });
+
+    it("should ignore malformed funding constraints", () => {
+      expect(resolveAnnualBudgets({ startYear: 2026, endYear: 2027, totalBudget: 0, fundingConstraints: "{" }, [])).toEqual([0, 0]);
+    });
+  });
+
+  describe("simulateCapitalPlan", () => {
+    it("should clear the backlog when the budget covers every need", () => {
+      const result = simulateCapitalPlan(
+        baseInput({
+          annualBudgets: [500_000, 0, 0, 0],
+          deficiencies: [{ id: 1, estimatedCost: 100_000, severity: "critical", priority: "immediate" }],
+        }),
+        params(certain)
+      );
+
+      expect(result.finalBacklog.p90).toBe(0);
+      expect(result.probabilityUnfundedCritical).toBe(0);
+    });
+
+    it("should escalate an unfunded backlog with inflation and flag critical needs", () => {
+      const result = simulateCapitalPlan(
+        baseInput({ deficiencies: [{ id: 1, estimatedCost: 100_000, severity: "critical", priority: "immediate" }] }),
+        params(certain)
+      );
+
+      expect(result.years.map(y => Math.round(y.backlog.p50))).toEqual([100000, 102000, 104040, 106121]);
+      expect(result.years[0].fci.p50).toBeCloseTo(0.1);
+      expect(result.probabilityUnfundedCritical).toBe(1);
+      expect(result.years[0].probabilityUnfundedCritical).toBe(1);
+    });
+
+    it("should fund critical needs before lower severities", () => {
+      const result = simulateCapitalPlan(
+        baseInput({
+          annualBudgets: [100_000, 0, 0, 0],
+          inflationRate: 0,
+          deficiencies: [
+            { id: 1, estimatedCost: 100_000, severity: "low", priority: "immediate" },
+            { id: 2, estimatedCost: 100_000, severity: "critical", priority: "long_term" },
+          ],
+        }),
+        params(certain)
+      );
+
+      expect(result.years[0].backlog.p50).toBe(100_000);
+      expect(result.probabilityUnfundedCritical).toBe(0);
+    });
+
+    it("should turn components into critical needs when their remaining life runs out", () => {
+      const input = baseInput({
+        inflationRate: 0,
+        components: [{ id: 1, replacementCost: 50_000, remainingLife: { worst: 1, design: 2, best: 3 } }],
+      });
+      const result = simulateCapitalPlan(input, params(certain));
+
+      expect(result.years[0].backlog.p90).toBe(0);
+      expect(result.years[3].backlog.p50).toBe(50_000);
+      expect(result.years[1].probabilityUnfundedCritical).toBeGreaterThan(0);
+      expect(result.years[1].probabilityUnfundedCritical).toBeLessThan(1);
+    });
+
+    it("should produce ordered percentiles and be reproducible from the seed", () => {
+      const input = baseInput({
+        deficiencies: [
+          { id: 1, estimatedCost: 80_000, severity: "high", priority: "short_term" },
+          { id: 2, estimatedCost: 40_000, severity: "medium", priority: "medium_term" },
+        ],
+      });
+
+      const first = simulateCapitalPlan(input, params());
+      const second = simulateCapitalPlan(input, params());
+
+      expect(second).toEqual(first);
+      expect(first.finalBacklog.p10).toBeLessThan(first.finalBacklog.p50);
+      expect(first.finalBacklog.p50).toBeLessThan(first.finalBacklog.p90);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Chatbot Agent
+ *
+ * Runs a chat turn as a tool-calling loop: the model may call the read-only chatbot tools
+ * over several steps before answering. Records the tools returned are cited in the answer
+ * as [type:id] markers, which are replaced with links to the record; markers for records
+ * no tool returned in this turn are dropped so the model cannot invent sources.
+ */
+
+import { invokeLLM, type InvokeParams, type InvokeResult, type Message } from "../_core/llm";
+import {
+  CHATBOT_TOOLS,
+  toLlmTools,
+  type ChatbotCitation,
+  type ChatbotTool,
+  type ChatbotToolContext,
+} from "./chatbotTools.service";
+
+// Tool results are sent back to the model as JSON; keep each under this many characters
+const MAX_TOOL_RESULT_CHARS = 12000;
+const MAX_SOURCES = 10;
+const CITATION_PATTERN = /\[((?:project|asset|deficiency|capital_cycle):\d+)\]/g;
+
+export interface ChatbotAgentToolCall {
+  name: string;
+  arguments: unknown;
+  error?: string;
+}
+
+export interface ChatbotAgentResult {
+  response: string;
+  citations: ChatbotCitation[];
+  toolCalls: ChatbotAgentToolCall[];
+}
+
+export interface RunChatbotAgentOptions {
+  messages: Message[];
+  context: ChatbotToolContext;
+  /** The LLM call; replaced with a stub in tests */
+  invoke?: (params: InvokeParams) => Promise<InvokeResult>;
+  tools?: ChatbotTool[];
+  maxSteps?: number;
+}
+
+const messageText = (content: InvokeResult["choices"][number]["message"]["content"]) =>
+  // Tool-call turns usually come back with null content
+  !content
+    ? ""
+    : typeof content === "string"
+    ? content
+    : content.map(part => (part.type === "text" ? part.text : "")).join("");
+
+/**
+ * Replace [type:id] markers with markdown links to the cited records
+ * A marker written right after the record's name turns that name into the link
+ */
+export function linkCitations(text: string, known: Map<string, ChatbotCitation>) {
+  const cited = new Map<string, ChatbotCitation>();
+  let response = "";
+  let last = 0;
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(CITATION_PATTERN.source, "g");
+
+  while ((match = pattern.exec(text))) {
+    response += text.slice(last, match.index);
+    last = match.index + match[0].length;
+    const citation = known.get(match[1]);
+    if (!citation) continue;
+    cited.set(citation.ref, citation);
+
+    const label = citation.label.replace(/[[\]]/g, "");
+    const before = response.replace(/ +$/, "");
+    if (label && before.endsWith(label)) {
+      response = before.slice(0, -label.length);
+    }
+    response += `[${label}](${citation.url})`;
+  }
+  response = (response + text.slice(last)).replace(/ +([.,;:])/g, "$1");
+
+  return { response, citations: Array.from(cited.values()) };
+}
+
+export async function runChatbotAgent({
+  messages,
+  context,
+  invoke = invokeLLM,
+  tools = CHATBOT_TOOLS,
+  maxSteps = 5,
+}: RunChatbotAgentOptions): Promise<ChatbotAgentResult> {
+  const conversation = [...messages];
+  const known = new Map<string, ChatbotCitation>();
+  const toolCalls: ChatbotAgentToolCall[] = [];
+  const llmTools = toLlmTools(tools);
+
+  for (let step = 1; step <= maxSteps; step++) {
+    // The last step goes without tools so the model has to answer with what it has
+    const result = await invoke(step < maxSteps
+      ? { messages: conversation, tools: llmTools, toolChoice: "auto" }
+      : { messages: conversation });
+    const message = result.choices[0]?.message;
+    if (!message) break;
+
+    const calls = message.tool_calls ?? [];
+    if (calls.length === 0 || step === maxSteps) {
+      const { response, citations } = linkCitations(messageText(message.content), known);
+      return {
+        response,
+        // Fall back to the records the tools returned when the model cited none
+        citations: citations.length > 0 ? citations : Array.from(known.values()).slice(0, MAX_SOURCES),
+        toolCalls,
+      };
+    }
+
+    conversation.push({ role: "assistant", content: messageText(message.content), tool_calls: calls });
+
+    for (const call of calls) {
+      const output = await runToolCall(call.function.name, call.function.arguments, tools, context);
+      toolCalls.push(output.call);
+      for (const citation of output.citations) known.set(citation.ref, citation);
+
+      let content = JSON.stringify(output.data);
+      if (content.length > MAX_TOOL_RESULT_CHARS) {
+        content = `${content.slice(0, MAX_TOOL_RESULT_CHARS)}... [truncated; narrow the query]`;
+      }
+      conversation.push({ role: "tool", tool_call_id: call.id, name: call.function.name, content });
+    }
+  }
+
+  return {
+    response: "I wasn't able to complete that request. Please try rephrasing your question.",
+    citations: [],
+    toolCalls,
+  };
+}
+
+/**
+ * Run one tool call; bad arguments and tool failures go back to the model as an error it can correct
+ */
+async function runToolCall(name: string, rawArguments: string, tools: ChatbotTool[], context: ChatbotToolContext) {
+  const tool = tools.find(candidate => candidate.name === name);
+  let args: unknown;
+  const fail = (error: string) => ({
+    call: { name, arguments: args ?? rawArguments, error },
+    data: { error },
+    citations: [] as ChatbotCitation[],
+  });
+
+  if (!tool) return fail(`Unknown tool "${name}"`);
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return fail("Arguments must be a JSON object");
+  }
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    return fail(`Invalid arguments: ${parsed.error.issues.map(issue => `${issue.path.join(".") || "arguments"}: ${issue.message}`).join("; ")}`);
+  }
+
+  try {
+    const result = await tool.run(parsed.data, context);
+    return { call: { name, arguments: parsed.data }, data: result.data, citations: result.citations };
+  } catch (error) {
+    console.error(`[Chatbot] Tool ${name} failed:`, error);
+    return fail("The tool failed to load data");
+  }
+}
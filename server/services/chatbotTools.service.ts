@@ -0,0 +1,388 @@
+/**
+ * Chatbot Tools
+ *
+ * Read-only tools the assistant can call to answer from live portfolio data. Every tool
+ * works within the projects the user can see (getUserProjects with the user's company and
+ * role), so a question can never reach another company's records. Each record a tool
+ * returns carries a `ref` such as "project:12"; the assistant cites refs in its answer and
+ * they are turned into links to the record.
+ */
+
+import { z } from "zod";
+import * as db from "../db";
+import * as assetsDb from "../db-assets";
+import * as capitalPlanningDb from "../db/capitalPlanning.db";
+import type { Tool } from "../_core/llm";
+import type { Project, User } from "../../drizzle/schema";
+
+// Upper bounds on per-project lookups and on records returned to the model per call
+const MAX_PROJECTS_PER_CALL = 100;
+const MAX_RECORDS = 50;
+
+export type ChatbotCitationType = "project" | "asset" | "deficiency" | "capital_cycle";
+
+export interface ChatbotCitation {
+  ref: string;
+  type: ChatbotCitationType;
+  id: number;
+  label: string;
+  url: string;
+}
+
+export interface ChatbotToolResult {
+  data: unknown;
+  citations: ChatbotCitation[];
+}
+
+export interface ChatbotToolContext {
+  user: User;
+  /** Projects the user can see, loaded once per chat turn */
+  getProjects: () => Promise<Project[]>;
+}
+
+export interface ChatbotTool {
+  name: string;
+  description: string;
+  schema: z.ZodObject<any>;
+  run: (args: any, context: ChatbotToolContext) => Promise<ChatbotToolResult>;
+}
+
+export function createChatbotToolContext(user: User): ChatbotToolContext {
+  let projects: Promise<Project[]> | null = null;
+  return {
+    user,
+    getProjects: () => {
+      if (!projects) {
+        const isAdmin = user.role === "admin";
+        const isSuperAdmin = user.isSuperAdmin === 1;
+        projects = db.getUserProjects(user.id, false, user.company, isAdmin, user.companyId, isSuperAdmin);
+      }
+      return projects;
+    },
+  };
+}
+
+const projectCitation = (project: Pick<Project, "id" | "name">): ChatbotCitation => ({
+  ref: `project:${project.id}`,
+  type: "project",
+  id: project.id,
+  label: project.name,
+  url: `/projects/${project.id}`,
+});
+
+/**
+ * Restrict requested project ids to the ones the user can see; all visible projects when none are requested
+ */
+async function resolveProjects(context: ChatbotToolContext, projectIds?: number[]) {
+  const projects = await context.getProjects();
+  const scoped = projectIds && projectIds.length > 0
+    ? projects.filter(project => projectIds.includes(project.id))
+    : projects;
+  return {
+    projects: scoped.slice(0, MAX_PROJECTS_PER_CALL),
+    truncated: scoped.length > MAX_PROJECTS_PER_CALL,
+    // Ids the user asked for but cannot see are reported as not found, never as forbidden
+    notFound: (projectIds ?? []).filter(id => !projects.some(project => project.id === id)),
+  };
+}
+
+const matches = (query: string | undefined, ...values: (string | null | undefined)[]) => {
+  if (!query) return true;
+  const needle = query.toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(needle));
+};
+
+const toNumber = (value: unknown) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const projectIdsSchema = z.array(z.number().int()).max(MAX_PROJECTS_PER_CALL).optional()
+  .describe("Project ids from search_projects; omit to use every project the user can see");
+
+const searchProjects: ChatbotTool = {
+  name: "search_projects",
+  description: "Find projects (buildings or properties) by name, unique ID, address, client or property type, e.g. 'school'.",
+  schema: z.object({
+    query: z.string().max(100).optional().describe("Text to match; omit to list all projects"),
+    status: z.enum(["draft", "in_progress", "completed", "archived"]).optional(),
+    limit: z.number().int().min(1).max(MAX_RECORDS).default(20),
+  }),
+  run: async (args, context) => {
+    const projects = (await context.getProjects()).filter(project =>
+      matches(args.query, project.name, project.uniqueId, project.address, project.clientName, project.propertyType, project.projectNumber)
+      && (!args.status || project.status === args.status)
+    );
+    const results = projects.slice(0, args.limit);
+    return {
+      data: {
+        total: projects.length,
+        projects: results.map(project => ({
+          ref: `project:${project.id}`,
+          id: project.id,
+          name: project.name,
+          uniqueId: project.uniqueId,
+          address: project.address,
+          clientName: project.clientName,
+          propertyType: project.propertyType,
+          yearBuilt: project.yearBuilt,
+          status: project.status,
+        })),
+      },
+      citations: results.map(projectCitation),
+    };
+  },
+};
+
+const listAssets: ChatbotTool = {
+  name: "list_assets",
+  description: "List assets (individual buildings or structures) in projects, optionally filtered by name, use (e.g. 'school') or city.",
+  schema: z.object({
+    projectIds: projectIdsSchema,
+    query: z.string().max(100).optional(),
+    limit: z.number().int().min(1).max(MAX_RECORDS).default(25),
+  }),
+  run: async (args, context) => {
+    const { projects, truncated, notFound } = await resolveProjects(context, args.projectIds);
+    const assets = (await Promise.all(projects.map(async project =>
+      (await assetsDb.getProjectAssets(project.id)).map(asset => ({ asset, project }))
+    ))).flat().filter(({ asset }) =>
+      matches(args.query, asset.name, asset.assetCode, asset.uniqueId, asset.primaryUse, asset.secondaryUse, asset.city)
+    );
+    const results = assets.slice(0, args.limit);
+
+    return {
+      data: {
+        total: assets.length,
+        truncated,
+        notFound,
+        assets: results.map(({ asset, project }) => ({
+          ref: `asset:${asset.id}`,
+          id: asset.id,
+          name: asset.name,
+          projectRef: `project:${project.id}`,
+          projectName: project.name,
+          primaryUse: asset.primaryUse,
+          city: asset.city,
+          yearBuilt: asset.yearBuilt,
+          overallCondition: asset.overallCondition,
+          fci: toNumber(asset.fciScore),
+          replacementValue: toNumber(asset.replacementValue),
+        })),
+      },
+      citations: results.map(({ asset, project }) => ({
+        ref: `asset:${asset.id}`,
+        type: "asset" as const,
+        id: asset.id,
+        label: asset.name,
+        url: `/projects/${project.id}/assets/${asset.id}`,
+      })),
+    };
+  },
+};
+
+const getProjectFci: ChatbotTool = {
+  name: "get_project_fci",
+  description: "Facility Condition Index (repair cost / replacement value, as a 0-1 ratio) per project, calculated from current assessments. Ratings: good <= 0.05, fair <= 0.10, poor <= 0.30, critical > 0.30.",
+  schema: z.object({
+    projectIds: projectIdsSchema,
+    minFci: z.number().min(0).optional().describe("Only projects with FCI above this ratio, e.g. 0.3"),
+    maxFci: z.number().min(0).optional(),
+    limit: z.number().int().min(1).max(MAX_RECORDS).default(25),
+  }),
+  run: async (args, context) => {
+    const { projects, truncated, notFound } = await resolveProjects(context, args.projectIds);
+    const rows = (await Promise.all(projects.map(async project => ({ project, fci: await db.getProjectFCI(project.id) }))))
+      .filter((row): row is { project: Project; fci: NonNullable<typeof row.fci> } => row.fci !== null)
+      .filter(({ fci }) => (args.minFci === undefined || fci.fci > args.minFci) && (args.maxFci === undefined || fci.fci <= args.maxFci))
+      .sort((a, b) => b.fci.fci - a.fci.fci);
+    const results = rows.slice(0, args.limit);
+
+    return {
+      data: {
+        total: rows.length,
+        truncated,
+        notFound,
+        projects: results.map(({ project, fci }) => ({
+          ref: `project:${project.id}`,
+          name: project.name,
+          fci: fci.fci,
+          rating: fci.rating,
+          totalRepairCost: fci.totalRepairCost,
+          totalReplacementValue: fci.totalReplacementValue,
+        })),
+      },
+      citations: results.map(({ project }) => projectCitation(project)),
+    };
+  },
+};
+
+const queryDeficiencies: ChatbotTool = {
+  name: "query_deficiencies",
+  description: "Deficiencies in projects filtered by severity, priority and status, with counts and estimated costs per project. Status defaults to unresolved (open, in progress or deferred).",
+  schema: z.object({
+    projectIds: projectIdsSchema,
+    severity: z.array(z.enum(["low", "medium", "high", "critical"])).optional(),
+    priority: z.array(z.enum(["immediate", "short_term", "medium_term", "long_term"])).optional(),
+    status: z.array(z.enum(["open", "in_progress", "resolved", "deferred"])).optional(),
+    componentCode: z.string().max(20).optional().describe("UNIFORMAT code prefix, e.g. 'D30' for HVAC"),
+    limit: z.number().int().min(1).max(MAX_RECORDS).default(25),
+  }),
+  run: async (args, context) => {
+    const { projects, truncated, notFound } = await resolveProjects(context, args.projectIds);
+    const statuses: string[] = args.status ?? ["open", "in_progress", "deferred"];
+
+    const perProject = await Promise.all(projects.map(async project => ({
+      project,
+      deficiencies: (await db.getProjectDeficiencies(project.id)).filter(deficiency =>
+        statuses.includes(deficiency.status)
+        && (!args.severity || args.severity.includes(deficiency.severity))
+        && (!args.priority || args.priority.includes(deficiency.priority))
+        && (!args.componentCode || deficiency.componentCode.startsWith(args.componentCode.toUpperCase()))
+      ),
+    })));
+    const withMatches = perProject.filter(row => row.deficiencies.length > 0);
+
+    // Most urgent first, so the records the model sees are the ones worth citing
+    const severityOrder = ["critical", "high", "medium", "low"];
+    const all = withMatches
+      .flatMap(({ project, deficiencies }) => deficiencies.map(deficiency => ({ project, deficiency })))
+      .sort((a, b) => severityOrder.indexOf(a.deficiency.severity) - severityOrder.indexOf(b.deficiency.severity)
+        || (b.deficiency.estimatedCost ?? 0) - (a.deficiency.estimatedCost ?? 0));
+    const results = all.slice(0, args.limit);
+
+    return {
+      data: {
+        total: all.length,
+        truncated,
+        notFound,
+        byProject: withMatches.map(({ project, deficiencies }) => ({
+          ref: `project:${project.id}`,
+          name: project.name,
+          count: deficiencies.length,
+          estimatedCost: deficiencies.reduce((sum, deficiency) => sum + (deficiency.estimatedCost ?? 0), 0),
+        })),
+        deficiencies: results.map(({ project, deficiency }) => ({
+          ref: `deficiency:${deficiency.id}`,
+          projectRef: `project:${project.id}`,
+          title: deficiency.title,
+          componentCode: deficiency.componentCode,
+          location: deficiency.location,
+          severity: deficiency.severity,
+          priority: deficiency.priority,
+          status: deficiency.status,
+          estimatedCost: deficiency.estimatedCost,
+        })),
+      },
+      citations: [
+        ...withMatches.map(({ project }) => projectCitation(project)),
+        ...results.map(({ project, deficiency }) => ({
+          ref: `deficiency:${deficiency.id}`,
+          type: "deficiency" as const,
+          id: deficiency.id,
+          label: `${deficiency.componentCode} ${deficiency.title}`,
+          url: `/projects/${project.id}`,
+        })),
+      ],
+    };
+  },
+};
+
+const getCapitalPlanSummary: ChatbotTool = {
+  name: "get_capital_plan_summary",
+  description: "Capital budget cycles. Without cycleId, lists the cycles; with cycleId, summarizes that cycle's budget allocations by year, status and project.",
+  schema: z.object({
+    cycleId: z.number().int().optional(),
+  }),
+  run: async (args, context) => {
+    const cycleCitation = (cycle: { id: number; name: string }): ChatbotCitation => ({
+      ref: `capital_cycle:${cycle.id}`,
+      type: "capital_cycle",
+      id: cycle.id,
+      label: cycle.name,
+      url: "/capital-budget",
+    });
+
+    if (!args.cycleId) {
+      const cycles = (await capitalPlanningDb.getAllCycles()).filter(cycle => cycle.status !== "archived");
+      return {
+        data: {
+          cycles: cycles.slice(0, MAX_RECORDS).map(cycle => ({
+            ref: `capital_cycle:${cycle.id}`,
+            id: cycle.id,
+            name: cycle.name,
+            startYear: cycle.startYear,
+            endYear: cycle.endYear,
+            status: cycle.status,
+            totalBudget: toNumber(cycle.totalBudget),
+          })),
+        },
+        citations: cycles.slice(0, MAX_RECORDS).map(cycleCitation),
+      };
+    }
+
+    const cycle = await capitalPlanningDb.getCycleById(args.cycleId);
+    if (!cycle) {
+      return { data: { error: `Capital budget cycle ${args.cycleId} not found` }, citations: [] };
+    }
+
+    // Allocations are only summarized for projects the user can see
+    const visible = new Map((await context.getProjects()).map(project => [project.id, project]));
+    const allocations = (await capitalPlanningDb.getAllocationsForCycle(cycle.id)).filter(allocation => visible.has(allocation.projectId));
+
+    const sumBy = (key: (allocation: typeof allocations[number]) => string | number) => {
+      const totals = new Map<string | number, number>();
+      for (const allocation of allocations) {
+        totals.set(key(allocation), (totals.get(key(allocation)) ?? 0) + (toNumber(allocation.allocatedAmount) ?? 0));
+      }
+      return totals;
+    };
+    const byProject = Array.from(sumBy(allocation => allocation.projectId).entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_RECORDS);
+
+    return {
+      data: {
+        ref: `capital_cycle:${cycle.id}`,
+        name: cycle.name,
+        startYear: cycle.startYear,
+        endYear: cycle.endYear,
+        status: cycle.status,
+        totalBudget: toNumber(cycle.totalBudget),
+        allocated: allocations.reduce((sum, allocation) => sum + (toNumber(allocation.allocatedAmount) ?? 0), 0),
+        byYear: Object.fromEntries(sumBy(allocation => allocation.year)),
+        byStatus: Object.fromEntries(sumBy(allocation => allocation.status)),
+        byProject: byProject.map(([projectId, amount]) => ({
+          ref: `project:${projectId}`,
+          name: visible.get(Number(projectId))!.name,
+          allocated: amount,
+        })),
+      },
+      citations: [
+        cycleCitation(cycle),
+        ...byProject.map(([projectId]) => projectCitation(visible.get(Number(projectId))!)),
+      ],
+    };
+  },
+};
+
+export const CHATBOT_TOOLS: ChatbotTool[] = [
+  searchProjects,
+  listAssets,
+  getProjectFci,
+  queryDeficiencies,
+  getCapitalPlanSummary,
+];
+
+/**
+ * Tool definitions in the shape invokeLLM sends to the model
+ */
+export function toLlmTools(tools: ChatbotTool[]): Tool[] {
+  return tools.map(tool => {
+    const { $schema, ...parameters } = z.toJSONSchema(tool.schema, { io: "input", unrepresentable: "any" }) as Record<string, unknown>;
+    return {
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters },
+    };
+  });
+}
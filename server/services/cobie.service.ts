@@ -0,0 +1,337 @@
+/**
+ * COBie Service
+ *
+ * Loads project data for the COBie 2.4 handover export and seeds assets and
+ * assessment components from an owner's COBie workbook. Imports are two-step:
+ * the workbook is first run through importValidation.validateBulkImport (assets
+ * and components as separate sessions), and only a clean validation of the same
+ * workbook for the same project can be committed.
+ */
+
+import { createHash } from "crypto";
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import * as db from "../db";
+import { createAsset } from "../db-assets";
+import { getMaintenanceEntries } from "../db/maintenanceEntries.db";
+import {
+  getValidationSession,
+  recordImportExecution,
+  validateBulkImport,
+  type ValidationResult,
+} from "../importValidation";
+import {
+  planCobieImport,
+  projectToCobieWorkbook,
+  readCobieWorkbook,
+  toValidationRows,
+  type CobieImportPlan,
+} from "../cobie";
+import { assessments, assets, buildingComponents, type Project, type User } from "../../drizzle/schema";
+
+export type CobieImportBehavior = "skip_duplicates" | "update_existing";
+
+export const UNIFORMAT_GROUPS: Record<string, string> = {
+  A: "A - Substructure",
+  B: "B - Shell",
+  C: "C - Interiors",
+  D: "D - Services",
+  E: "E - Equipment & Furnishings",
+  F: "F - Special Construction",
+  G: "G - Building Sitework",
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Build the COBie workbook for a project the caller has already been authorized for
+ */
+export async function exportProjectCobie(project: Project, user: User): Promise<{ buffer: Buffer; filename: string }> {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+
+  const [sections, projectAssets, maintenance] = await Promise.all([
+    db.getBuildingSections(project.id),
+    db.getProjectAssets(project.id),
+    getMaintenanceEntries({ projectId: project.id }),
+  ]);
+
+  const components = await database
+    .select({
+      id: assessments.id,
+      assetId: assessments.assetId,
+      sectionId: assessments.sectionId,
+      componentCode: assessments.componentCode,
+      componentName: assessments.componentName,
+      componentLocation: assessments.componentLocation,
+      condition: assessments.condition,
+      expectedUsefulLife: assessments.expectedUsefulLife,
+      estimatedServiceLife: assessments.estimatedServiceLife,
+      replacementValue: assessments.replacementValue,
+      lastTimeAction: assessments.lastTimeAction,
+      externalId: assessments.externalId,
+      assessedAt: assessments.assessedAt,
+      createdAt: assessments.createdAt,
+    })
+    .from(assessments)
+    .innerJoin(assets, eq(assessments.assetId, assets.id))
+    .where(and(eq(assets.projectId, project.id), isNull(assessments.deletedAt)))
+    .orderBy(desc(assessments.createdAt));
+
+  const buffer = await projectToCobieWorkbook({
+    project,
+    contact: { email: user.email || `user-${user.id}@unknown`, name: user.name, company: user.company },
+    createdOn: new Date(),
+    sections,
+    assets: projectAssets,
+    components,
+    maintenance,
+  });
+
+  const safeName = project.name.replace(/[^\w\- ]+/g, "").trim() || `project-${project.id}`;
+  return { buffer, filename: `${safeName}-COBie.xlsx` };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export interface CobieValidationResult {
+  facilityName: string | null;
+  assets: ValidationResult;
+  components: ValidationResult;
+  warnings: string[];
+  canProceed: boolean;
+}
+
+async function parseCobieFile(content: Buffer): Promise<CobieImportPlan> {
+  try {
+    return planCobieImport(await readCobieWorkbook(content));
+  } catch (error: any) {
+    throw new Error(`Could not read COBie workbook: ${error.message}`);
+  }
+}
+
+/**
+ * Validate a COBie workbook against a project without writing any assets or components
+ */
+export async function validateCobieImport(
+  content: Buffer,
+  projectId: number,
+  user: User,
+  fileName?: string
+): Promise<CobieValidationResult> {
+  const plan = await parseCobieFile(content);
+  const rows = toValidationRows(plan);
+  const options = {
+    projectId,
+    fileName,
+    fileSize: content.length,
+    metadata: { projectId, contentHash: hashWorkbook(content) },
+  };
+
+  const assetResult = await validateBulkImport(rows.assets, "assets", user, options);
+  const componentResult = await validateBulkImport(rows.components, "assessments", user, options);
+
+  return {
+    facilityName: plan.facilityName,
+    assets: assetResult,
+    components: componentResult,
+    warnings: plan.warnings,
+    canProceed: assetResult.canProceed && componentResult.canProceed && rows.assets.length > 0,
+  };
+}
+
+function hashWorkbook(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Load a clean validation session for this exact workbook and project
+ */
+async function requireValidatedSession(
+  sessionId: string,
+  user: User,
+  importType: "assets" | "assessments",
+  projectId: number,
+  contentHash: string
+) {
+  const session = await getValidationSession(sessionId, user.id);
+  if (!session || session.importType !== importType) {
+    throw new Error("Validation session not found; validate the workbook again");
+  }
+  const metadata = (typeof session.metadata === "string" ? JSON.parse(session.metadata) : session.metadata) as
+    { projectId?: number; contentHash?: string } | null;
+  if (metadata?.projectId !== projectId) {
+    throw new Error("This validation was for a different project; validate the workbook again");
+  }
+  if (metadata.contentHash !== contentHash) {
+    throw new Error("Workbook changed since it was validated; validate it again");
+  }
+  if (session.importStatus !== "not_started") {
+    throw new Error("This validation has already been imported");
+  }
+  if (session.invalidRows > 0) {
+    throw new Error("Workbook has validation errors; fix them and validate again");
+  }
+  return session;
+}
+
+/**
+ * Seed assets and components from a previously validated COBie workbook
+ */
+export async function commitCobieImport(params: {
+  content: Buffer;
+  projectId: number;
+  user: User;
+  assetsSessionId: string;
+  componentsSessionId: string;
+  behavior: CobieImportBehavior;
+}) {
+  const { content, projectId, user, behavior } = params;
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+
+  const contentHash = hashWorkbook(content);
+  await requireValidatedSession(params.assetsSessionId, user, "assets", projectId, contentHash);
+  await requireValidatedSession(params.componentsSessionId, user, "assessments", projectId, contentHash);
+
+  const plan = await parseCobieFile(content);
+
+  const assetCounts = { recordsCreated: 0, recordsUpdated: 0, recordsSkipped: 0, recordsFailed: 0 };
+  const componentCounts = { recordsCreated: 0, recordsUpdated: 0, recordsSkipped: 0, recordsFailed: 0 };
+  const errors: string[] = [];
+
+  // Assets: match existing project assets by name
+  const existingAssets = await db.getProjectAssets(projectId);
+  const assetIds = new Map<string, number>();
+  for (const existing of existingAssets) {
+    assetIds.set(existing.name.trim().toLowerCase(), existing.id);
+  }
+
+  for (const asset of plan.assets) {
+    const key = asset.name.trim().toLowerCase();
+    const values = {
+      name: asset.name,
+      description: asset.description ?? undefined,
+      primaryUse: asset.primaryUse ?? undefined,
+      squareFootage: asset.grossArea != null ? String(asset.grossArea) : undefined,
+    };
+
+    try {
+      const existingId = assetIds.get(key);
+      if (existingId) {
+        if (behavior === "update_existing") {
+          await database.update(assets).set(values).where(eq(assets.id, existingId));
+          assetCounts.recordsUpdated++;
+        } else {
+          assetCounts.recordsSkipped++;
+        }
+        continue;
+      }
+
+      const assetId = await createAsset({
+        ...values,
+        projectId,
+        assetCode: asset.assetCode ?? undefined,
+        status: "active",
+        metadata: { cobie: { floorName: asset.floorName, facilityName: plan.facilityName } },
+      });
+      assetIds.set(key, Number(assetId));
+      assetCounts.recordsCreated++;
+    } catch (error: any) {
+      assetCounts.recordsFailed++;
+      errors.push(`Space "${asset.name}": ${error.message}`);
+    }
+  }
+
+  // Components: match on externalId within the asset, like the integration connectors
+  const codes = Array.from(new Set(plan.components.map(c => c.componentCode).filter((c): c is string => !!c)));
+  const uniformat = new Map<string, { id: number; level: number }>();
+  if (codes.length > 0) {
+    const rows = await database
+      .select({ id: buildingComponents.id, code: buildingComponents.code, level: buildingComponents.level })
+      .from(buildingComponents)
+      .where(inArray(buildingComponents.code, codes));
+    for (const row of rows) uniformat.set(row.code, { id: row.id, level: row.level });
+  }
+
+  const currentYear = new Date().getFullYear();
+  for (const component of plan.components) {
+    const assetId = assetIds.get(component.assetName.trim().toLowerCase());
+    if (!assetId) {
+      componentCounts.recordsFailed++;
+      errors.push(`Component "${component.name}": space "${component.assetName}" was not imported`);
+      continue;
+    }
+
+    const match = component.componentCode ? uniformat.get(component.componentCode) : undefined;
+    const values = {
+      projectId,
+      assetId,
+      componentCode: component.componentCode ?? undefined,
+      componentName: component.componentName,
+      componentLocation: component.componentLocation ?? undefined,
+      expectedUsefulLife: component.expectedUsefulLife ?? undefined,
+      remainingUsefulLife: component.installYear && component.expectedUsefulLife
+        ? Math.max(0, component.installYear + component.expectedUsefulLife - currentYear)
+        : undefined,
+      lastTimeAction: component.installYear ?? undefined,
+      replacementValue: component.replacementValue != null ? String(component.replacementValue) : undefined,
+      uniformatId: match?.id,
+      uniformatLevel: match?.level,
+      uniformatGroup: component.componentCode ? UNIFORMAT_GROUPS[component.componentCode.charAt(0)] : undefined,
+      sourceType: match ? "UNIFORMAT" as const : "CUSTOM" as const,
+      externalId: component.externalId,
+    };
+
+    try {
+      const [existing] = await database
+        .select({ id: assessments.id })
+        .from(assessments)
+        .where(and(eq(assessments.assetId, assetId), eq(assessments.externalId, component.externalId)))
+        .limit(1);
+
+      if (existing) {
+        if (behavior === "update_existing") {
+          await database
+            .update(assessments)
+            .set({ ...values, updatedAt: sql`CURRENT_TIMESTAMP` })
+            .where(eq(assessments.id, existing.id));
+          componentCounts.recordsUpdated++;
+        } else {
+          componentCounts.recordsSkipped++;
+        }
+        continue;
+      }
+
+      await database.insert(assessments).values({
+        ...values,
+        condition: "not_assessed",
+        status: "initial",
+        assessedAt: new Date().toISOString().slice(0, 19).replace("T", " "),
+      });
+      componentCounts.recordsCreated++;
+    } catch (error: any) {
+      componentCounts.recordsFailed++;
+      errors.push(`Component "${component.name}": ${error.message}`);
+    }
+  }
+
+  await recordImportExecution(params.assetsSessionId, behavior, assetCounts);
+  await recordImportExecution(params.componentsSessionId, behavior, componentCounts);
+
+  console.log(
+    `[COBie] Imported into project ${projectId}: ${assetCounts.recordsCreated} assets and ` +
+    `${componentCounts.recordsCreated} components created, ${errors.length} failures`
+  );
+
+  return {
+    success: errors.length === 0,
+    assets: assetCounts,
+    components: componentCounts,
+    errors,
+  };
+}
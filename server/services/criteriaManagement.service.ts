@@ -1,6 +1,10 @@
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
 import { createAuditLog } from "../auditLog";
+import { logCriteriaAudit } from "../db/criteriaAudit.db";
+import { createModelVersion, getPresetById } from "../db/prioritizationEnhanced.db";
+import { getScoringCriteria } from "../db/prioritization.db";
+import type { User } from "../../drizzle/schema";
 
 /**
  * Criteria Management Service
@@ -468,3 +472,83 @@ export async function enableCriterion(
     normalizedWeights,
   };
 }
+
+/**
+ * Apply a saved weighting preset to the live criteria as a new model version
+ * Each changed weight is recorded in the criteria audit log with the preset and
+ * version it came from; the new version becomes the active model.
+ */
+export async function applyCriteriaPreset(
+  presetId: number,
+  user: User,
+  options: { versionName: string; description?: string; reason?: string }
+): Promise<CriteriaManagementResult & { modelVersionId?: number }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { normalizeWeightSet } = await import("./prioritization.service");
+
+  const preset = await getPresetById(presetId);
+  if (!preset) {
+    return { success: false, message: "Preset not found." };
+  }
+
+  const criteria = await getScoringCriteria();
+
+  if (criteria.length === 0) {
+    return { success: false, message: "There are no active criteria to apply the preset to." };
+  }
+
+  const weights = normalizeWeightSet(preset.configuration.weights, criteria.map((c) => c.id));
+  const changed = criteria.filter((c) => Math.abs(parseFloat(String(c.weight)) - weights[String(c.id)]) >= 0.000001);
+
+  for (const criterion of changed) {
+    await db.execute(sql`
+      UPDATE prioritization_criteria
+      SET weight = ${weights[String(criterion.id)].toFixed(6)}, updatedAt = NOW()
+      WHERE id = ${criterion.id}
+    `);
+  }
+
+  // Links every active criterion, including the reweighted ones, to the new version
+  const modelVersionId = await createModelVersion({
+    name: options.versionName,
+    description: options.description || `Weights from preset "${preset.name}"`,
+    createdBy: user.id,
+  });
+
+  for (const criterion of changed) {
+    await logCriteriaAudit({
+      criteriaId: criterion.id,
+      action: 'updated',
+      oldName: criterion.name,
+      newName: criterion.name,
+      oldWeight: parseFloat(String(criterion.weight)).toFixed(6),
+      newWeight: weights[String(criterion.id)].toFixed(6),
+      changedBy: user.id,
+      reason: options.reason || `Applied preset "${preset.name}"`,
+      changeDetails: JSON.stringify({ presetId, presetName: preset.name, modelVersionId }),
+    });
+  }
+
+  await createAuditLog({
+    user,
+    actionType: "update",
+    entityType: "criteria",
+    entityId: presetId,
+    entityName: preset.name,
+    module: "prioritization",
+    afterState: { modelVersionId, weights },
+    changesSummary: `Preset "${preset.name}" applied as model version "${options.versionName}". ${changed.length} criteria reweighted.`,
+    status: "success",
+  });
+
+  await recalculateAllProjectScores();
+
+  return {
+    success: true,
+    message: `Preset "${preset.name}" applied. ${changed.length} criteria reweighted.`,
+    normalizedWeights: Object.fromEntries(criteria.map((c) => [c.id, weights[String(c.id)]])),
+    modelVersionId,
+  };
+}
@@ -363,3 +363,62 @@ Log in to the BCA System admin panel to view detailed error logs and retry the b
     html: htmlContent,
   });
 }
+
+/**
+ * Send a scheduled report delivery email with a link to the generated file
+ */
+export async function sendScheduledReportEmail(data: {
+  to: string;
+  scheduleName: string;
+  projectName: string;
+  reportLabel: string;
+  fileName: string;
+  fileUrl: string;
+  generatedAt: string;
+}): Promise<boolean> {
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">Scheduled Report: ${data.scheduleName}</h2>
+      
+      <p>A new ${data.reportLabel} has been generated for <strong>${data.projectName}</strong>.</p>
+      
+      <div style="background-color: #eff6ff; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2563eb;">
+        <h3 style="margin-top: 0; color: #1f2937;">Report Details</h3>
+        <p><strong>Project:</strong> ${data.projectName}</p>
+        <p><strong>File:</strong> ${data.fileName}</p>
+        <p><strong>Generated At:</strong> ${data.generatedAt}</p>
+      </div>
+      
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${data.fileUrl}" 
+           style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Download Report
+        </a>
+      </div>
+      
+      <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #9ca3af; font-size: 12px;">
+        <p>You are receiving this email because you are a recipient of the "${data.scheduleName}" report schedule.</p>
+      </div>
+    </div>
+  `;
+
+  const textContent = `
+Scheduled Report: ${data.scheduleName}
+
+A new ${data.reportLabel} has been generated for ${data.projectName}.
+
+Report Details:
+- Project: ${data.projectName}
+- File: ${data.fileName}
+- Generated At: ${data.generatedAt}
+
+Download the report: ${data.fileUrl}
+  `.trim();
+
+  return sendEmail({
+    to: data.to,
+    subject: `Scheduled Report: ${data.scheduleName} (${data.projectName})`,
+    text: textContent,
+    html: htmlContent,
+  });
+}
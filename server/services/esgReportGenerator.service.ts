@@ -2,23 +2,17 @@ import PDFDocument from "pdfkit";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
 import { storagePut } from "../storage";
-
-// Letter grade descriptors
-const GRADE_DESCRIPTORS: Record<string, string> = {
-  "A+": "Exceptional",
-  "A": "Excellent",
-  "A-": "Very Good",
-  "B+": "Good",
-  "B": "Above Average",
-  "B-": "Satisfactory",
-  "C+": "Fair",
-  "C": "Average",
-  "C-": "Below Average",
-  "D+": "Needs Improvement",
-  "D": "Poor",
-  "D-": "Critical",
-  "F": "Failing"
-};
+import {
+  DEFAULT_LANGUAGE,
+  formatLocalizedCurrency,
+  formatLocalizedDate,
+  getTranslator,
+  type Language,
+  type MessageKey,
+} from "../../shared/i18n";
+
+// Letter grades with a descriptor in the i18n catalog (esg.grade.*)
+const LETTER_GRADES = ["A+", "A", "A-", "B+", "B", "B-", "C+", "C", "C-", "D+", "D", "D-", "F"];
 
 // Zone colors for PDF
 const ZONE_COLORS: Record<string, string> = {
@@ -93,11 +87,14 @@ export async function generateESGReportPDF(
     includeGoals?: boolean;
     reportPeriodStart?: Date;
     reportPeriodEnd?: Date;
+    language?: Language;
   }
 ): Promise<{ url: string; fileKey: string; reportData: ESGReportData }> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
+  const language = options?.language ?? DEFAULT_LANGUAGE;
+  const t = getTranslator(language);
   const reportDate = new Date();
   const reportPeriodStart = options?.reportPeriodStart || new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
   const reportPeriodEnd = options?.reportPeriodEnd || new Date();
@@ -234,7 +231,7 @@ export async function generateESGReportPDF(
   }
 
   // Generate PDF
-  const pdfBuffer = await createPDFDocument(reportData);
+  const pdfBuffer = await createPDFDocument(reportData, language);
 
   // Upload to S3
   const timestamp = Date.now();
@@ -251,7 +248,7 @@ export async function generateESGReportPDF(
       NOW(),
       ${reportPeriodStart.toISOString()},
       ${reportPeriodEnd.toISOString()},
-      ${projectId ? `ESG Report - ${reportData.projectName}` : 'Portfolio ESG Report'},
+      ${projectId ? t("esg.recordTitleProject", { name: reportData.projectName ?? "" }) : t("esg.recordTitlePortfolio")},
       ${JSON.stringify(reportData)},
       ${url},
       ${fileKey},
@@ -279,7 +276,10 @@ function getLetterGrade(score: number): string {
   return "F";
 }
 
-async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
+async function createPDFDocument(data: ESGReportData, language: Language): Promise<Buffer> {
+  const t = getTranslator(language);
+  const date = (value: Date | string) => formatLocalizedDate(value, language);
+
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({ 
       size: "LETTER",
@@ -293,20 +293,20 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
     doc.on("error", reject);
 
     // Header
-    doc.fontSize(24).fillColor("#1e3a5f").text("ESG Compliance Report", { align: "center" });
+    doc.fontSize(24).fillColor("#1e3a5f").text(t("esg.title"), { align: "center" });
     doc.moveDown(0.5);
     
     if (data.projectName) {
       doc.fontSize(16).fillColor("#4a5568").text(data.projectName, { align: "center" });
     } else {
-      doc.fontSize(16).fillColor("#4a5568").text("Portfolio Summary", { align: "center" });
+      doc.fontSize(16).fillColor("#4a5568").text(t("esg.portfolioSummary"), { align: "center" });
     }
     
     doc.moveDown(0.5);
     doc.fontSize(10).fillColor("#718096")
-      .text(`Report Date: ${data.reportDate.toLocaleDateString()}`, { align: "center" });
+      .text(t("esg.reportDate", { date: date(data.reportDate) }), { align: "center" });
     doc.text(
-      `Report Period: ${data.reportPeriod.start.toLocaleDateString()} - ${data.reportPeriod.end.toLocaleDateString()}`,
+      t("esg.reportPeriod", { start: date(data.reportPeriod.start), end: date(data.reportPeriod.end) }),
       { align: "center" }
     );
     
@@ -314,7 +314,7 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
 
     // Portfolio Summary Section
     if (data.portfolioSummary) {
-      doc.fontSize(14).fillColor("#1e3a5f").text("Portfolio Summary", { underline: true });
+      doc.fontSize(14).fillColor("#1e3a5f").text(t("esg.portfolioSummary"), { underline: true });
       doc.moveDown(0.5);
 
       const summary = data.portfolioSummary;
@@ -326,16 +326,16 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
       doc.fontSize(28).fillColor(getGradeColor(summary.avgGrade))
         .text(summary.avgScore.toFixed(1), 60, boxY);
       doc.fontSize(12).fillColor("#4a5568")
-        .text(`Grade: ${summary.avgGrade}`, 60, boxY + 35);
-      doc.text(`(${GRADE_DESCRIPTORS[summary.avgGrade] || "N/A"})`, 130, boxY + 35);
+        .text(t("esg.grade", { grade: summary.avgGrade }), 60, boxY + 35);
+      doc.text(`(${getGradeDescriptor(summary.avgGrade, language)})`, 130, boxY + 35);
 
       // Stats
       doc.fontSize(11).fillColor("#2d3748");
-      doc.text(`Total Projects: ${summary.totalProjects}`, 280, boxY);
-      doc.text(`Excellent Zone: ${summary.zoneDistribution.excellent}`, 280, boxY + 15);
-      doc.text(`Good Zone: ${summary.zoneDistribution.good}`, 280, boxY + 30);
-      doc.text(`Fair Zone: ${summary.zoneDistribution.fair}`, 400, boxY + 15);
-      doc.text(`Poor Zone: ${summary.zoneDistribution.poor}`, 400, boxY + 30);
+      doc.text(t("esg.totalProjects", { count: summary.totalProjects }), 280, boxY);
+      doc.text(t("esg.excellentZone", { count: summary.zoneDistribution.excellent }), 280, boxY + 15);
+      doc.text(t("esg.goodZone", { count: summary.zoneDistribution.good }), 280, boxY + 30);
+      doc.text(t("esg.fairZone", { count: summary.zoneDistribution.fair }), 400, boxY + 15);
+      doc.text(t("esg.poorZone", { count: summary.zoneDistribution.poor }), 400, boxY + 30);
 
       doc.y = boxY + 70;
       doc.moveDown(1);
@@ -343,13 +343,13 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
 
     // Project Scores Table
     if (data.projectScores && data.projectScores.length > 0) {
-      doc.fontSize(14).fillColor("#1e3a5f").text("Project ESG Ratings", { underline: true });
+      doc.fontSize(14).fillColor("#1e3a5f").text(t("esg.projectRatings"), { underline: true });
       doc.moveDown(0.5);
 
       // Table header
       const tableTop = doc.y;
       const colWidths = [180, 60, 60, 60, 60, 60];
-      const headers = ["Project", "Score", "Grade", "Energy", "Water", "Waste"];
+      const headers = [t("report.project"), t("esg.score"), t("esg.gradeColumn"), t("esg.energy"), t("esg.water"), t("esg.waste")];
       
       doc.fontSize(10).fillColor("#4a5568");
       let x = 50;
@@ -396,7 +396,7 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
     if (data.certifications && data.certifications.length > 0) {
       if (doc.y > 650) doc.addPage();
       
-      doc.fontSize(14).fillColor("#1e3a5f").text("Certifications", { underline: true });
+      doc.fontSize(14).fillColor("#1e3a5f").text(t("esg.certifications"), { underline: true });
       doc.moveDown(0.5);
 
       doc.fontSize(10).fillColor("#2d3748");
@@ -404,7 +404,7 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
         doc.text(`• ${cert.type.toUpperCase()}${cert.level ? ` - ${cert.level}` : ""} (${cert.status})`);
         if (cert.expirationDate) {
           doc.fontSize(9).fillColor("#718096")
-            .text(`  Expires: ${new Date(cert.expirationDate).toLocaleDateString()}`);
+            .text(`  ${t("esg.expires", { date: date(cert.expirationDate) })}`);
         }
         doc.moveDown(0.3);
       }
@@ -415,16 +415,16 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
     if (data.improvementActions && data.improvementActions.length > 0) {
       if (doc.y > 600) doc.addPage();
       
-      doc.fontSize(14).fillColor("#1e3a5f").text("Improvement Actions", { underline: true });
+      doc.fontSize(14).fillColor("#1e3a5f").text(t("esg.improvementActions"), { underline: true });
       doc.moveDown(0.5);
 
       doc.fontSize(10).fillColor("#2d3748");
       for (const action of data.improvementActions.slice(0, 10)) {
         doc.text(`• ${action.title}`);
         doc.fontSize(9).fillColor("#718096")
-          .text(`  Type: ${action.type.replace(/_/g, " ")} | Status: ${action.status}`);
+          .text(`  ${t("esg.actionTypeStatus", { type: action.type.replace(/_/g, " "), status: action.status })}`);
         if (action.estimatedCost) {
-          doc.text(`  Est. Cost: $${action.estimatedCost.toLocaleString()}`);
+          doc.text(`  ${t("esg.estimatedCost", { cost: formatLocalizedCurrency(action.estimatedCost, language) })}`);
         }
         doc.moveDown(0.3);
         doc.fontSize(10).fillColor("#2d3748");
@@ -436,7 +436,7 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
     if (data.goals && data.goals.length > 0) {
       if (doc.y > 600) doc.addPage();
       
-      doc.fontSize(14).fillColor("#1e3a5f").text("Sustainability Goals", { underline: true });
+      doc.fontSize(14).fillColor("#1e3a5f").text(t("esg.goals"), { underline: true });
       doc.moveDown(0.5);
 
       doc.fontSize(10).fillColor("#2d3748");
@@ -446,7 +446,7 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
           : "N/A";
         doc.text(`• ${goal.type.replace(/_/g, " ").toUpperCase()}`);
         doc.fontSize(9).fillColor("#718096")
-          .text(`  Baseline: ${goal.baseline} → Target: ${goal.target} | Status: ${goal.status}`);
+          .text(`  ${t("esg.goalProgress", { baseline: goal.baseline, target: goal.target, status: goal.status })}`);
         doc.moveDown(0.3);
         doc.fontSize(10).fillColor("#2d3748");
       }
@@ -458,7 +458,7 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
       doc.switchToPage(i);
       doc.fontSize(8).fillColor("#a0aec0")
         .text(
-          `Page ${i + 1} of ${pageCount} | Generated by B³NMA Building Condition Assessment System`,
+          t("esg.footer", { page: i + 1, total: pageCount }),
           50,
           doc.page.height - 30,
           { align: "center", width: doc.page.width - 100 }
@@ -469,6 +469,11 @@ async function createPDFDocument(data: ESGReportData): Promise<Buffer> {
   });
 }
 
+function getGradeDescriptor(grade: string, language: Language): string {
+  const t = getTranslator(language);
+  return LETTER_GRADES.includes(grade) ? t(`esg.grade.${grade}` as MessageKey) : t("common.notAvailable");
+}
+
 function getGradeColor(grade: string): string {
   if (grade.startsWith("A")) return "#22c55e";
   if (grade.startsWith("B")) return "#84cc16";
@@ -0,0 +1,279 @@
+/**
+ * IFC Import Service
+ *
+ * Parses a facility model's IFC file locally and turns the proposals the assessor
+ * accepts into building sections and assessment components. Each component is linked
+ * to the IFC elements behind it (ifc_element_links, by GlobalId), so re-parsing the
+ * same model shows what is already accepted and only new elements are added.
+ */
+
+import { and, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import * as db from "../db";
+import { getAssetById } from "../db-assets";
+import {
+  planIfcImport,
+  readIfcModel,
+  type IfcComponentProposal,
+  type IfcImportPlan,
+  type IfcSectionProposal,
+} from "../ifc";
+import { UNIFORMAT_GROUPS } from "./cobie.service";
+import { getComponentAccessFilter } from "./accessPolicy.service";
+import {
+  assessments,
+  buildingComponents,
+  buildingSections,
+  ifcElementLinks,
+  type FacilityModel,
+  type User,
+} from "../../drizzle/schema";
+
+const MAX_IFC_BYTES = 200 * 1024 * 1024;
+const LINK_BATCH_SIZE = 500;
+
+export interface IfcProposalResult extends IfcImportPlan {
+  modelId: number;
+  assetId: number | null;
+  sections: (IfcSectionProposal & { sectionId: number | null })[];
+  components: (IfcComponentProposal & { linkedElements: number; assessmentId: number | null })[];
+}
+
+export interface IfcAcceptSelection {
+  key: string;
+  /** Required for groups the mapping could not place; overrides the proposed code otherwise */
+  componentCode?: string;
+}
+
+async function loadIfcPlan(model: FacilityModel): Promise<IfcImportPlan> {
+  if (model.format !== "ifc") {
+    throw new Error("Only IFC models can be parsed");
+  }
+  if (model.fileSize && model.fileSize > MAX_IFC_BYTES) {
+    throw new Error("IFC files over 200MB can't be parsed locally");
+  }
+
+  const response = await fetch(model.fileUrl);
+  if (!response.ok) {
+    throw new Error("Failed to download model file from storage");
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+
+  try {
+    // STEP files are ISO 8859-1; non-ASCII text is escaped and decoded by the parser
+    return planIfcImport(readIfcModel(buffer.toString("latin1")));
+  } catch (error: any) {
+    throw new Error(`Could not read IFC file: ${error.message}`);
+  }
+}
+
+async function getLinkedElements(modelId: number): Promise<Map<string, number>> {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+
+  const links = await database
+    .select({ globalId: ifcElementLinks.globalId, assessmentId: ifcElementLinks.assessmentId })
+    .from(ifcElementLinks)
+    .where(eq(ifcElementLinks.modelId, modelId));
+  return new Map(links.map(link => [link.globalId, link.assessmentId]));
+}
+
+async function getIfcSections(projectId: number): Promise<Map<string, number>> {
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+
+  const sections = await database
+    .select({ id: buildingSections.id, ifcGlobalId: buildingSections.ifcGlobalId })
+    .from(buildingSections)
+    .where(and(eq(buildingSections.projectId, projectId), isNotNull(buildingSections.ifcGlobalId)));
+  return new Map(sections.map(section => [section.ifcGlobalId!, section.id]));
+}
+
+/**
+ * Parse a model and propose sections and components, marking what is already accepted
+ */
+export async function proposeIfcImport(model: FacilityModel): Promise<IfcProposalResult> {
+  const plan = await loadIfcPlan(model);
+  const [linked, sectionIds] = await Promise.all([getLinkedElements(model.id), getIfcSections(model.projectId)]);
+
+  return {
+    ...plan,
+    modelId: model.id,
+    assetId: model.assetId,
+    sections: plan.sections.map(section => ({ ...section, sectionId: sectionIds.get(section.globalId) ?? null })),
+    components: plan.components.map(component => {
+      const linkedIds = component.elements
+        .map(element => linked.get(element.globalId))
+        .filter((id): id is number => id !== undefined);
+      return { ...component, linkedElements: linkedIds.length, assessmentId: linkedIds[0] ?? null };
+    }),
+  };
+}
+
+/**
+ * Create sections and components for the accepted proposals and link their IFC elements
+ */
+export async function acceptIfcProposals(params: {
+  model: FacilityModel;
+  assetId?: number;
+  user: User;
+  selections: IfcAcceptSelection[];
+  createSections: boolean;
+}) {
+  const { model, user, selections } = params;
+  const database = await getDb();
+  if (!database) throw new Error("Database not available");
+
+  const assetId = model.assetId ?? params.assetId;
+  if (!assetId) {
+    throw new Error("Choose the asset the model's components belong to");
+  }
+  const asset = await getAssetById(assetId, model.projectId);
+  if (!asset) {
+    throw new Error("Asset not found in this project");
+  }
+
+  const plan = await loadIfcPlan(model);
+  const proposals = new Map(plan.components.map(component => [component.key, component]));
+  const sectionProposals = new Map(plan.sections.map(section => [section.globalId, section]));
+  const [linked, sectionIds, canEdit] = await Promise.all([
+    getLinkedElements(model.id),
+    getIfcSections(model.projectId),
+    getComponentAccessFilter(user, "assessment.edit", model.projectId),
+  ]);
+
+  const codes = Array.from(new Set(
+    selections
+      .map(selection => selection.componentCode ?? proposals.get(selection.key)?.componentCode)
+      .filter((code): code is string => !!code)
+  ));
+  const uniformat = new Map<string, { id: number; level: number; name: string }>();
+  if (codes.length > 0) {
+    const rows = await database
+      .select({ id: buildingComponents.id, code: buildingComponents.code, level: buildingComponents.level, name: buildingComponents.name })
+      .from(buildingComponents)
+      .where(inArray(buildingComponents.code, codes));
+    for (const row of rows) uniformat.set(row.code, { id: row.id, level: row.level, name: row.name });
+  }
+
+  const counts = { sectionsCreated: 0, componentsCreated: 0, componentsUpdated: 0, elementsLinked: 0, skipped: 0 };
+  const errors: string[] = [];
+
+  const ensureSection = async (storeyGlobalId: string | null): Promise<number | undefined> => {
+    if (!storeyGlobalId) return undefined;
+    const existing = sectionIds.get(storeyGlobalId);
+    if (existing || !params.createSections) return existing;
+
+    const storey = sectionProposals.get(storeyGlobalId);
+    if (!storey) return undefined;
+    const sectionId = Number(await db.createBuildingSection({
+      projectId: model.projectId,
+      name: storey.name,
+      description: `Storey from IFC model "${model.name}"`,
+      sectionType: "original",
+      numberOfStories: 1,
+      grossFloorArea: storey.floorArea != null ? String(storey.floorArea) : undefined,
+      ifcGlobalId: storeyGlobalId,
+    }));
+    sectionIds.set(storeyGlobalId, sectionId);
+    counts.sectionsCreated++;
+    return sectionId;
+  };
+
+  for (const selection of selections) {
+    const proposal = proposals.get(selection.key);
+    if (!proposal) {
+      errors.push(`Proposal ${selection.key} is no longer in the model`);
+      continue;
+    }
+
+    const label = `${proposal.componentName}${proposal.storeyName ? ` on ${proposal.storeyName}` : ""}`;
+    const componentCode = selection.componentCode ?? proposal.componentCode;
+    if (!componentCode) {
+      errors.push(`${label}: choose a UNIFORMAT component code`);
+      continue;
+    }
+    if (!canEdit({ assetId, componentCode })) {
+      errors.push(`${label}: access policies do not allow editing ${componentCode} on this asset`);
+      continue;
+    }
+
+    const newElements = proposal.elements.filter(element => !linked.has(element.globalId));
+    if (newElements.length === 0) {
+      counts.skipped++;
+      continue;
+    }
+
+    try {
+      const sectionId = await ensureSection(proposal.storeyGlobalId);
+      const match = uniformat.get(componentCode);
+      const externalId = `ifc:${proposal.storeyGlobalId ?? "site"}:${componentCode}:${proposal.measure}`;
+      const values = {
+        projectId: model.projectId,
+        assetId,
+        sectionId,
+        componentCode,
+        componentName: match?.name ?? proposal.componentName,
+        componentLocation: [proposal.storeyName, proposal.spaces.slice(0, 5).join(", ")].filter(Boolean).join(" - ") || undefined,
+        quantity: String(proposal.measure === "count" ? proposal.elements.length : proposal.quantity),
+        unit: proposal.unit,
+        uniformatId: match?.id,
+        uniformatLevel: match?.level,
+        uniformatGroup: UNIFORMAT_GROUPS[componentCode.charAt(0)],
+        sourceType: match ? "UNIFORMAT" as const : "CUSTOM" as const,
+        externalId,
+      };
+
+      const [existing] = await database
+        .select({ id: assessments.id })
+        .from(assessments)
+        .where(and(eq(assessments.assetId, assetId), eq(assessments.externalId, externalId)))
+        .limit(1);
+
+      let assessmentId: number;
+      if (existing) {
+        await database
+          .update(assessments)
+          .set({ ...values, updatedAt: sql`CURRENT_TIMESTAMP` })
+          .where(eq(assessments.id, existing.id));
+        assessmentId = existing.id;
+        counts.componentsUpdated++;
+      } else {
+        const result = await database.insert(assessments).values({
+          ...values,
+          condition: "not_assessed",
+          status: "initial",
+          assessedAt: new Date().toISOString().slice(0, 19).replace("T", " "),
+        });
+        assessmentId = Number(result[0].insertId);
+        counts.componentsCreated++;
+      }
+
+      for (let i = 0; i < newElements.length; i += LINK_BATCH_SIZE) {
+        await database.insert(ifcElementLinks).values(
+          newElements.slice(i, i + LINK_BATCH_SIZE).map(element => ({
+            modelId: model.id,
+            assessmentId,
+            globalId: element.globalId,
+            ifcType: element.ifcType,
+            name: element.name?.slice(0, 255) ?? null,
+            storeyGlobalId: proposal.storeyGlobalId,
+            createdBy: user.id,
+          }))
+        );
+      }
+      for (const element of newElements) linked.set(element.globalId, assessmentId);
+      counts.elementsLinked += newElements.length;
+    } catch (error: any) {
+      errors.push(`${label}: ${error.message}`);
+    }
+  }
+
+  console.log(
+    `[IFC] Accepted from model ${model.id} into asset ${assetId}: ${counts.sectionsCreated} sections, ` +
+    `${counts.componentsCreated} components created, ${counts.componentsUpdated} updated, ` +
+    `${counts.elementsLinked} elements linked, ${errors.length} failures`
+  );
+
+  return { success: errors.length === 0, ...counts, errors };
+}
@@ -1,6 +1,10 @@
 import solver from "javascript-lp-solver";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
+import * as capitalPlanningDb from "../db/capitalPlanning.db";
+import * as prioritizationDb from "../db/prioritization.db";
+import { resolveAnnualBudgets } from "./capitalPlanSimulation.service";
+import type { InsertBudgetAllocation } from "../../drizzle/schema";
 
 /**
  * Linear Programming Portfolio Optimization Service
@@ -462,3 +466,456 @@ export async function getCostEffectivenessRanking(): Promise<Array<{
 
   return ranked;
 }
+
+/**
+ * Multi-Year Capital Plan Optimization
+ *
+ * Schedules projects or deficiencies across the years of a capital budget
+ * cycle instead of picking one set against a single budget.
+ *
+ * Formulation:
+ * - Decision variables: x_i_t ∈ {0,1}, item i funded in plan year t
+ * - Cost in year t: cost_i * ((1 + inflation + escalation) * (1 + deterioration_i))^t
+ * - Deferral penalty: cost in year t + riskWeight_i * cost_i * t (exposure while unfixed)
+ * - Objective: minimize Σ x_i_t * (penalty_i(t) - penalty_i(H)), i.e. the penalty
+ *   avoided versus leaving the item unfunded past the horizon H
+ * - Constraints:
+ *   - Yearly funding: Σ_i cost_i(t) * x_i_t <= budget_t
+ *   - Funded at most once: Σ_t x_i_t <= 1 (= 1 for must-fund items, within their deadline)
+ *   - Precedence: an item cannot be funded before the items it depends on
+ */
+
+export interface MultiYearCandidate {
+  /** Stable key used by must-fund and precedence rules, e.g. "project:12" or "deficiency:40" */
+  key: string;
+  type: "project" | "deficiency";
+  id: number;
+  projectId: number;
+  name: string;
+  /** Cost in start-year dollars */
+  cost: number;
+  /** Annual cost growth from continued deterioration (0.05 = 5%/year) */
+  deteriorationRate: number;
+  /** Annual penalty for leaving the need open, as a fraction of its cost */
+  riskWeight: number;
+  priorityScore: number;
+}
+
+export interface MultiYearPlanSettings {
+  startYear: number;
+  /** Funding available in each plan year, indexed from startYear */
+  annualBudgets: number[];
+  /** Percent, as stored on capital_budget_cycles */
+  inflationRate: number;
+  escalationRate: number;
+  mustFund?: Array<{ key: string; byYear?: number }>;
+  precedence?: Array<{ before: string; after: string }>;
+  excludedKeys?: string[];
+  timeoutMs?: number;
+}
+
+export interface MultiYearPlanItem {
+  key: string;
+  type: MultiYearCandidate["type"];
+  id: number;
+  projectId: number;
+  name: string;
+  year: number;
+  baseCost: number;
+  fundedCost: number;
+  /** Escalation and deterioration added by funding in this year instead of the start year */
+  deferralCost: number;
+}
+
+export interface MultiYearPlanResult {
+  startYear: number;
+  endYear: number;
+  years: Array<{
+    year: number;
+    budget: number;
+    allocated: number;
+    remaining: number;
+    items: MultiYearPlanItem[];
+  }>;
+  unfunded: Array<{
+    key: string;
+    type: MultiYearCandidate["type"];
+    id: number;
+    projectId: number;
+    name: string;
+    baseCost: number;
+    /** Cost if the need is carried past the end of the plan */
+    costAfterHorizon: number;
+  }>;
+  totalBaseCost: number;
+  totalFundedCost: number;
+  totalDeferralCost: number;
+  budgetUtilization: number;
+  /** False when the solver stopped at its time limit with the best plan found so far */
+  optimal: boolean;
+}
+
+/** Annual cost growth by deficiency severity when nothing is done */
+export const DEFICIENCY_DETERIORATION_RATES: Record<string, number> = {
+  critical: 0.15,
+  high: 0.1,
+  medium: 0.05,
+  low: 0.02,
+};
+
+/** Annual deferral penalty by deficiency severity, as a fraction of cost */
+export const DEFICIENCY_RISK_WEIGHTS: Record<string, number> = {
+  critical: 0.1,
+  high: 0.05,
+  medium: 0.02,
+  low: 0.01,
+};
+
+/**
+ * Cost growth for a whole project from its condition index
+ * Same bands as the project risk score: poorer buildings deteriorate faster
+ */
+export function projectDeteriorationRate(currentCI: number): number {
+  return currentCI < 50 ? 0.1 : currentCI < 70 ? 0.05 : 0.02;
+}
+
+/**
+ * Cost of a candidate when funded `yearOffset` years after the start year
+ */
+export function costInYear(
+  candidate: Pick<MultiYearCandidate, "cost" | "deteriorationRate">,
+  yearOffset: number,
+  inflationRate: number,
+  escalationRate: number
+): number {
+  const annualGrowth = (1 + (inflationRate + escalationRate) / 100) * (1 + candidate.deteriorationRate);
+  return candidate.cost * Math.pow(annualGrowth, yearOffset);
+}
+
+/**
+ * Build and solve the multi-period model
+ */
+export function solveMultiYearPlan(
+  candidates: MultiYearCandidate[],
+  settings: MultiYearPlanSettings
+): MultiYearPlanResult {
+  const yearCount = settings.annualBudgets.length;
+  if (yearCount === 0) {
+    throw new Error("Plan needs at least one budget year");
+  }
+
+  const excluded = new Set(settings.excludedKeys ?? []);
+  const items = candidates.filter((c) => c.cost > 0 && !excluded.has(c.key));
+  const indexByKey = new Map(items.map((item, index) => [item.key, index]));
+  const knownKeys = new Set(candidates.map((c) => c.key));
+
+  for (const key of [
+    ...(settings.mustFund ?? []).map((rule) => rule.key),
+    ...(settings.precedence ?? []).flatMap((rule) => [rule.before, rule.after]),
+  ]) {
+    if (!knownKeys.has(key)) {
+      throw new Error(`Unknown plan item: ${key}`);
+    }
+  }
+
+  // Last year offset each item may be funded in
+  const deadlines = new Map<number, number>();
+  for (const rule of settings.mustFund ?? []) {
+    const index = indexByKey.get(rule.key);
+    if (index === undefined) {
+      throw new Error(`Must-fund item ${rule.key} is excluded from the plan`);
+    }
+    const lastOffset = rule.byYear === undefined ? yearCount - 1 : rule.byYear - settings.startYear;
+    deadlines.set(index, Math.max(0, Math.min(yearCount - 1, lastOffset)));
+  }
+
+  const penalty = (item: MultiYearCandidate, offset: number) =>
+    costInYear(item, offset, settings.inflationRate, settings.escalationRate) + item.riskWeight * item.cost * offset;
+
+  const model: any = {
+    optimize: "planCost",
+    opType: "min",
+    constraints: {},
+    variables: {},
+    binaries: {},
+    options: { timeout: settings.timeoutMs ?? 10000 },
+  };
+
+  settings.annualBudgets.forEach((budget, t) => {
+    model.constraints[`budget_${t}`] = { max: Math.max(0, budget) };
+  });
+
+  items.forEach((item, i) => {
+    const lastOffset = deadlines.get(i) ?? yearCount - 1;
+    model.constraints[`once_${i}`] = deadlines.has(i) ? { equal: 1 } : { max: 1 };
+
+    const unfundedPenalty = penalty(item, yearCount);
+    for (let t = 0; t <= lastOffset; t++) {
+      const varName = `x_${i}_${t}`;
+      model.variables[varName] = {
+        planCost: penalty(item, t) - unfundedPenalty,
+        [`budget_${t}`]: costInYear(item, t, settings.inflationRate, settings.escalationRate),
+        [`once_${i}`]: 1,
+      };
+      model.binaries[varName] = 1;
+    }
+  });
+
+  // Funded by year t: Σ_{τ<=t} x_after_τ - Σ_{τ<=t} x_before_τ <= 0
+  (settings.precedence ?? []).forEach((rule, k) => {
+    const after = indexByKey.get(rule.after);
+    if (after === undefined) return;
+    const before = indexByKey.get(rule.before);
+
+    for (let t = 0; t < yearCount; t++) {
+      const constraint = `prec_${k}_${t}`;
+      model.constraints[constraint] = { max: 0 };
+      for (let tau = 0; tau <= t; tau++) {
+        const afterVar = model.variables[`x_${after}_${tau}`];
+        if (afterVar) afterVar[constraint] = 1;
+        const beforeVar = before === undefined ? undefined : model.variables[`x_${before}_${tau}`];
+        if (beforeVar) beforeVar[constraint] = -1;
+      }
+    }
+  });
+
+  const solution = solver.Solve(model);
+
+  if (!solution || !solution.feasible) {
+    throw new Error("No feasible multi-year plan found. Must-fund items may exceed the yearly funding limits.");
+  }
+
+  const years: MultiYearPlanResult["years"] = settings.annualBudgets.map((budget, t) => ({
+    year: settings.startYear + t,
+    budget,
+    allocated: 0,
+    remaining: budget,
+    items: [],
+  }));
+  const unfunded: MultiYearPlanResult["unfunded"] = [];
+  let totalBaseCost = 0;
+  let totalFundedCost = 0;
+
+  items.forEach((item, i) => {
+    const fundedOffset = years.findIndex((_, t) => Math.round(solution[`x_${i}_${t}`] ?? 0) === 1);
+
+    if (fundedOffset === -1) {
+      unfunded.push({
+        key: item.key,
+        type: item.type,
+        id: item.id,
+        projectId: item.projectId,
+        name: item.name,
+        baseCost: item.cost,
+        costAfterHorizon: costInYear(item, yearCount, settings.inflationRate, settings.escalationRate),
+      });
+      return;
+    }
+
+    const fundedCost = costInYear(item, fundedOffset, settings.inflationRate, settings.escalationRate);
+    const year = years[fundedOffset];
+    year.items.push({
+      key: item.key,
+      type: item.type,
+      id: item.id,
+      projectId: item.projectId,
+      name: item.name,
+      year: year.year,
+      baseCost: item.cost,
+      fundedCost,
+      deferralCost: fundedCost - item.cost,
+    });
+    year.allocated += fundedCost;
+    year.remaining = year.budget - year.allocated;
+    totalBaseCost += item.cost;
+    totalFundedCost += fundedCost;
+  });
+
+  const totalBudget = settings.annualBudgets.reduce((sum, budget) => sum + Math.max(0, budget), 0);
+
+  return {
+    startYear: settings.startYear,
+    endYear: settings.startYear + yearCount - 1,
+    years,
+    unfunded,
+    totalBaseCost,
+    totalFundedCost,
+    totalDeferralCost: totalFundedCost - totalBaseCost,
+    budgetUtilization: totalBudget > 0 ? (totalFundedCost / totalBudget) * 100 : 0,
+    optimal: solution.isIntegral !== false,
+  };
+}
+
+/**
+ * Candidates for multi-year planning: whole projects (deferred maintenance)
+ * or individual open deficiencies, optionally limited to one facility and to
+ * the projects the caller can access
+ */
+export async function getMultiYearCandidates(
+  source: "projects" | "deficiencies",
+  facilityId?: number,
+  projectIds?: number[]
+): Promise<MultiYearCandidate[]> {
+  if (projectIds && projectIds.length === 0) return [];
+
+  if (source === "projects") {
+    const projects = await getProjectsForOptimization();
+    return projects
+      .filter((p) => facilityId === undefined || p.projectId === facilityId)
+      .filter((p) => !projectIds || projectIds.includes(p.projectId))
+      .map((p) => ({
+        key: `project:${p.projectId}`,
+        type: "project" as const,
+        id: p.projectId,
+        projectId: p.projectId,
+        name: p.projectName,
+        cost: p.estimatedCost,
+        deteriorationRate: projectDeteriorationRate(p.currentCI),
+        riskWeight: p.riskScore / 100,
+        priorityScore: p.priorityScore,
+      }));
+  }
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.execute(sql`
+    SELECT d.id, d.projectId, d.title, d.severity, d.estimatedCost
+    FROM deficiencies d
+    WHERE d.status != 'resolved'
+      AND COALESCE(d.estimatedCost, 0) > 0
+      ${facilityId ? sql`AND d.projectId = ${facilityId}` : sql``}
+      ${projectIds ? sql`AND d.projectId IN (${sql.join(projectIds.map((id) => sql`${id}`), sql`, `)})` : sql``}
+  `);
+
+  const rows = Array.isArray(result[0]) ? result[0] : [];
+
+  return rows.map((row: any) => ({
+    key: `deficiency:${row.id}`,
+    type: "deficiency" as const,
+    id: Number(row.id),
+    projectId: Number(row.projectId),
+    name: String(row.title),
+    cost: parseFloat(String(row.estimatedCost || 0)),
+    deteriorationRate: DEFICIENCY_DETERIORATION_RATES[row.severity] ?? DEFICIENCY_DETERIORATION_RATES.medium,
+    riskWeight: DEFICIENCY_RISK_WEIGHTS[row.severity] ?? DEFICIENCY_RISK_WEIGHTS.medium,
+    priorityScore: 0,
+  }));
+}
+
+/**
+ * Optimize a capital budget cycle
+ * Yearly limits come from the cycle's funding constraints (or its total budget
+ * spread evenly), less what approved or funded allocations already commit.
+ */
+export async function optimizeMultiYearPlan(
+  cycleId: number,
+  options: Pick<MultiYearPlanSettings, "mustFund" | "precedence" | "excludedKeys" | "timeoutMs"> & {
+    source: "projects" | "deficiencies";
+    facilityId?: number;
+    projectIds?: number[];
+  }
+): Promise<MultiYearPlanResult & { cycleId: number }> {
+  const cycle = await capitalPlanningDb.getCycleById(cycleId);
+  if (!cycle) throw new Error("Cycle not found");
+
+  const [candidates, allocations] = await Promise.all([
+    getMultiYearCandidates(options.source, options.facilityId, options.projectIds),
+    prioritizationDb.getAllocationsForCycle(cycleId),
+  ]);
+
+  if (candidates.length === 0) {
+    throw new Error("No projects available for optimization");
+  }
+
+  const annualBudgets = resolveAnnualBudgets(cycle, []).map((budget, index) => {
+    const committed = allocations
+      .filter((a) => a.year === cycle.startYear + index && a.status !== "proposed")
+      .reduce((sum, a) => sum + parseFloat(String(a.allocatedAmount || 0)), 0);
+    return Math.max(0, budget - committed);
+  });
+
+  const plan = solveMultiYearPlan(candidates, {
+    startYear: cycle.startYear,
+    annualBudgets,
+    inflationRate: parseFloat(String(cycle.inflationRate || 0)),
+    escalationRate: parseFloat(String(cycle.escalationRate || 0)),
+    mustFund: options.mustFund,
+    precedence: options.precedence,
+    excludedKeys: options.excludedKeys,
+    timeoutMs: options.timeoutMs,
+  });
+
+  return { ...plan, cycleId };
+}
+
+/**
+ * Price the items of a plan being saved from the candidates themselves, so the
+ * stored amounts never come from the client; unknown or out-of-cycle items are rejected
+ */
+export function priceMultiYearPlanItems(
+  candidates: MultiYearCandidate[],
+  items: Array<Pick<MultiYearPlanItem, "type" | "id" | "year">>,
+  settings: Pick<MultiYearPlanSettings, "startYear" | "inflationRate" | "escalationRate"> & { endYear: number }
+): MultiYearPlanItem[] {
+  const byKey = new Map(candidates.map((candidate) => [candidate.key, candidate]));
+
+  return items.map((item) => {
+    const candidate = byKey.get(`${item.type}:${item.id}`);
+    if (!candidate) {
+      throw new Error(`${item.type} ${item.id} is not available for this plan`);
+    }
+    if (item.year < settings.startYear || item.year > settings.endYear) {
+      throw new Error(`${candidate.name} is planned for ${item.year}, outside the cycle years`);
+    }
+
+    const fundedCost = costInYear(candidate, item.year - settings.startYear, settings.inflationRate, settings.escalationRate);
+    return {
+      key: candidate.key,
+      type: candidate.type,
+      id: candidate.id,
+      projectId: candidate.projectId,
+      name: candidate.name,
+      year: item.year,
+      baseCost: candidate.cost,
+      fundedCost,
+      deferralCost: fundedCost - candidate.cost,
+    };
+  });
+}
+
+/**
+ * Roll plan items up into one proposed budget allocation per project and year
+ * Priority follows funding order: earlier years first, then larger amounts.
+ */
+export function planToBudgetAllocations(
+  cycleId: number,
+  items: Array<Pick<MultiYearPlanItem, "type" | "id" | "projectId" | "name" | "year" | "fundedCost">>
+): Array<Omit<InsertBudgetAllocation, "createdAt" | "updatedAt">> {
+  const groups = new Map<string, { projectId: number; year: number; amount: number; names: string[]; deficiencies: number }>();
+
+  for (const item of items) {
+    const groupKey = `${item.projectId}:${item.year}`;
+    const group = groups.get(groupKey) ?? { projectId: item.projectId, year: item.year, amount: 0, names: [], deficiencies: 0 };
+    group.amount += item.fundedCost;
+    if (item.type === "deficiency") {
+      group.deficiencies += 1;
+      group.names.push(item.name);
+    }
+    groups.set(groupKey, group);
+  }
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.year - b.year || b.amount - a.amount)
+    .map((group, index) => ({
+      cycleId,
+      projectId: group.projectId,
+      year: group.year,
+      allocatedAmount: group.amount.toFixed(2),
+      priority: index + 1,
+      status: "proposed" as const,
+      justification: group.deficiencies > 0
+        ? `Multi-year optimization: ${group.deficiencies} deficienc${group.deficiencies === 1 ? "y" : "ies"} (${group.names.join(", ")})`
+        : "Multi-year optimization: deferred maintenance program",
+    }));
+}
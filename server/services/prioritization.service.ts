@@ -1,5 +1,6 @@
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
+import * as prioritizationDb from "../db/prioritization.db";
 
 /**
  * Multi-Criteria Prioritization Service
@@ -35,6 +36,27 @@ export interface RankedProject {
   energySavingsScore?: number;
   totalCost?: number;
   costEffectivenessScore?: number; // composite score / cost
+  alignmentScore?: number; // part of the composite score earned through criteria linked to strategic objectives
+  objectiveAlignment?: ObjectiveAlignment[];
+}
+
+export interface ObjectiveAlignment {
+  objectiveId: number;
+  objectiveName: string;
+  score: number; // contribution to the composite score, same scale
+  share: number; // fraction of the composite score (0-1)
+  criteria: Array<{
+    criteriaId: number;
+    criteriaName: string;
+    alignmentStrength: number;
+    contribution: number;
+  }>;
+}
+
+export interface ProjectAlignment {
+  compositeScore: number;
+  alignmentScore: number;
+  objectiveAlignment: ObjectiveAlignment[];
 }
 
 /**
@@ -301,6 +323,8 @@ export async function getRankedProjects(options?: {
   const result = await db.execute(query);
   const rows = Array.isArray(result[0]) ? result[0] : [];
 
+  const alignments = await getProjectAlignments(rows.map((row: any) => Number(row.projectId)));
+
   return rows.map((row: any) => ({
     projectId: row.projectId,
     projectName: row.projectName,
@@ -318,64 +342,209 @@ export async function getRankedProjects(options?: {
       row.totalCost && parseFloat(row.totalCost) > 0
         ? parseFloat(row.compositeScore) / (parseFloat(row.totalCost) / 1000)
         : undefined,
+    alignmentScore: alignments.get(Number(row.projectId))?.alignmentScore,
+    objectiveAlignment: alignments.get(Number(row.projectId))?.objectiveAlignment,
   }));
 }
 
 /**
- * Compare different weighting scenarios
+ * Compare one project's composite score under different weighting scenarios
+ * Weights are keyed by criteria name and normalized over the scoring criteria,
+ * the same way compareRankingScenarios treats preset weights.
  */
 export async function compareWeightingScenarios(
   projectId: number,
   scenarios: Array<{ name: string; weights: Record<string, number> }>
 ): Promise<Array<{ scenarioName: string; compositeScore: number; criteriaScores: CriteriaScore[] }>> {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  const { criteria, projects } = await loadScoringModel([projectId]);
+  const criteriaIds = criteria.map((c) => c.id);
+  const scores = projects[0]?.scores ?? {};
+
+  return scenarios.map((scenario) => {
+    const weights = normalizeWeightSet(
+      Object.fromEntries(criteria.map((c) => [String(c.id), scenario.weights[c.name] ?? 0])),
+      criteriaIds
+    );
+    const criteriaScores: CriteriaScore[] = criteria.map((c) => {
+      const score = scores[String(c.id)] ?? 0;
+      const weight = weights[String(c.id)];
+      return { criteriaId: c.id, criteriaName: c.name, score, weight, weightedScore: weight * score };
+    });
 
-  // Get project scores
-  const scoresResult = await db.execute(sql`
-    SELECT ps.criteriaId, ps.score, ps.justification, pc.name as criteriaName
-    FROM project_scores ps
-    JOIN prioritization_criteria pc ON ps.criteriaId = pc.id
-    WHERE ps.projectId = ${projectId} AND pc.isActive = 1
-  `);
+    return {
+      scenarioName: scenario.name,
+      compositeScore: criteriaScores.reduce((sum, c) => sum + c.weightedScore, 0) / 100,
+      criteriaScores,
+    };
+  });
+}
 
-  const scores = Array.isArray(scoresResult[0]) ? scoresResult[0] : [];
+// ============================================================================
+// RANKING COMPARISON ACROSS WEIGHT SETS
+// ============================================================================
 
-  const results = [];
+export interface RankingScenario {
+  name: string;
+  presetId?: number;
+  /** Criteria weights keyed by criteria id; normalized to 100% before scoring */
+  weights: Record<string, number>;
+}
 
-  for (const scenario of scenarios) {
-    const criteriaScores: CriteriaScore[] = [];
-    let compositeScore = 0;
+export interface ScoredProject {
+  projectId: number;
+  projectName: string;
+  /** Criterion score keyed by criteria id */
+  scores: Record<string, number>;
+}
 
-    for (const [criteriaName, weight] of Object.entries(scenario.weights)) {
-      const projectScore = scores.find((s: any) => s.criteriaName === criteriaName);
-      const score = projectScore ? parseFloat(projectScore.score) : 0;
-      const weightedScore = weight * score; // weight × score
+export interface RankingComparison {
+  scenarios: Array<{ name: string; presetId?: number; weights: Record<string, number> }>;
+  projects: Array<{
+    projectId: number;
+    projectName: string;
+    baselineScore: number;
+    baselineRank: number;
+    results: Array<{
+      scenario: string;
+      compositeScore: number;
+      rank: number;
+      /** Positive when the project moves up the ranking versus the current weights */
+      rankChange: number;
+    }>;
+  }>;
+}
 
-      criteriaScores.push({
-        criteriaId: projectScore?.criteriaId || 0,
-        criteriaName,
-        score,
-        weight,
-        weightedScore,
-        justification: projectScore?.justification,
-      });
+/**
+ * Scale a weight set over the given criteria so it sums to 100
+ * Criteria missing from the set get zero weight; an all-zero set is spread evenly
+ */
+export function normalizeWeightSet(
+  weights: Record<string, number>,
+  criteriaIds: number[]
+): Record<string, number> {
+  const total = criteriaIds.reduce((sum, id) => sum + Math.max(0, weights[String(id)] ?? 0), 0);
+  const normalized: Record<string, number> = {};
+  for (const id of criteriaIds) {
+    normalized[String(id)] = total > 0
+      ? (Math.max(0, weights[String(id)] ?? 0) / total) * 100
+      : 100 / criteriaIds.length;
+  }
+  return normalized;
+}
 
-      compositeScore += weightedScore;
-    }
+/**
+ * Rank projects under one weight set: sum(weight × score) / 100, ties by project id
+ */
+export function rankProjectsByWeights(
+  projects: ScoredProject[],
+  weights: Record<string, number>
+): Map<number, { compositeScore: number; rank: number }> {
+  const scored = projects
+    .map((project) => ({
+      projectId: project.projectId,
+      compositeScore: Object.entries(weights).reduce(
+        (sum, [criteriaId, weight]) => sum + weight * (project.scores[criteriaId] ?? 0),
+        0
+      ) / 100,
+    }))
+    .sort((a, b) => b.compositeScore - a.compositeScore || a.projectId - b.projectId);
+
+  return new Map(scored.map((p, index) => [p.projectId, { compositeScore: p.compositeScore, rank: index + 1 }]));
+}
 
-    // Divide by 100 to get final composite score
-    // Formula: sum(weight × score) / 100
-    compositeScore = compositeScore / 100;
+/**
+ * Side-by-side rankings for several weight sets against a baseline
+ */
+export function compareRankings(
+  projects: ScoredProject[],
+  criteriaIds: number[],
+  baselineWeights: Record<string, number>,
+  scenarios: RankingScenario[]
+): RankingComparison {
+  const baseline = rankProjectsByWeights(projects, normalizeWeightSet(baselineWeights, criteriaIds));
+  const normalizedScenarios = scenarios.map((scenario) => ({
+    ...scenario,
+    weights: normalizeWeightSet(scenario.weights, criteriaIds),
+  }));
+  const rankings = normalizedScenarios.map((scenario) => rankProjectsByWeights(projects, scenario.weights));
 
-    results.push({
-      scenarioName: scenario.name,
-      compositeScore,
-      criteriaScores,
-    });
+  return {
+    scenarios: normalizedScenarios,
+    projects: projects
+      .map((project) => {
+        const base = baseline.get(project.projectId)!;
+        return {
+          projectId: project.projectId,
+          projectName: project.projectName,
+          baselineScore: base.compositeScore,
+          baselineRank: base.rank,
+          results: normalizedScenarios.map((scenario, index) => {
+            const result = rankings[index].get(project.projectId)!;
+            return {
+              scenario: scenario.name,
+              compositeScore: result.compositeScore,
+              rank: result.rank,
+              rankChange: base.rank - result.rank,
+            };
+          }),
+        };
+      })
+      .sort((a, b) => a.baselineRank - b.baselineRank),
+  };
+}
+
+/**
+ * The scoring criteria (as applyCriteriaPreset sees them) and the scores projects have for them
+ * Only projects with at least one score are returned, as in calculateAllProjectScores.
+ */
+async function loadScoringModel(projectIds?: number[]): Promise<{
+  criteria: Array<{ id: number; name: string; weight: number }>;
+  projects: ScoredProject[];
+}> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const criteria = (await prioritizationDb.getScoringCriteria()).map((c) => ({
+    id: c.id,
+    name: c.name,
+    weight: parseFloat(String(c.weight)),
+  }));
+  if (criteria.length === 0 || (projectIds && projectIds.length === 0)) {
+    return { criteria, projects: [] };
   }
 
-  return results;
+  const scoresResult = await db.execute(sql`
+    SELECT ps.projectId, ps.criteriaId, ps.score, p.name as projectName
+    FROM project_scores ps
+    JOIN projects p ON ps.projectId = p.id
+    WHERE ps.score IS NOT NULL
+      AND ps.criteriaId IN (${sql.join(criteria.map((c) => sql`${c.id}`), sql`, `)})
+      ${projectIds ? sql`AND ps.projectId IN (${sql.join(projectIds.map((id) => sql`${id}`), sql`, `)})` : sql``}
+  `);
+  const scoreRows = Array.isArray(scoresResult[0]) ? scoresResult[0] : [];
+
+  const projects = new Map<number, ScoredProject>();
+  for (const row of scoreRows as any[]) {
+    const project = projects.get(row.projectId) ?? { projectId: row.projectId, projectName: row.projectName, scores: {} };
+    project.scores[String(row.criteriaId)] = parseFloat(row.score);
+    projects.set(row.projectId, project);
+  }
+
+  return { criteria, projects: Array.from(projects.values()) };
+}
+
+/**
+ * Compare project rankings under the current criteria weights and other weight sets
+ */
+export async function compareRankingScenarios(scenarios: RankingScenario[]): Promise<RankingComparison> {
+  const { criteria, projects } = await loadScoringModel();
+
+  return compareRankings(
+    projects,
+    criteria.map((c) => c.id),
+    Object.fromEntries(criteria.map((c) => [String(c.id), c.weight])),
+    scenarios
+  );
 }
 
 /**
@@ -413,3 +582,188 @@ export async function getScoringStatus(): Promise<{
     unscoredProjects,
   };
 }
+
+// ============================================================================
+// STRATEGIC OBJECTIVE ALIGNMENT
+// ============================================================================
+
+/**
+ * Split a project's composite score across the strategic objectives its criteria serve
+ * A criterion linked to several objectives has its strengths scaled down to sum to
+ * at most 1, so objective scores add up to no more than the composite score.
+ */
+export function calculateObjectiveAlignment(
+  criteriaScores: Array<Pick<CriteriaScore, "criteriaId" | "criteriaName" | "score" | "weight">>,
+  links: Array<{ criteriaId: number; objectiveId: number; alignmentStrength: number | string }>,
+  objectives: Array<{ id: number; name: string }>
+): ProjectAlignment {
+  const objectiveIds = new Set(objectives.map((o) => o.id));
+  const activeLinks = links.filter((link) => objectiveIds.has(link.objectiveId));
+
+  const compositeScore = criteriaScores.reduce((sum, c) => sum + c.weight * c.score, 0) / 100;
+
+  const objectiveAlignment: ObjectiveAlignment[] = objectives.map((objective) => {
+    const criteria: ObjectiveAlignment["criteria"] = [];
+
+    for (const link of activeLinks.filter((l) => l.objectiveId === objective.id)) {
+      const criterion = criteriaScores.find((c) => c.criteriaId === link.criteriaId);
+      if (!criterion) continue;
+
+      const totalStrength = activeLinks
+        .filter((l) => l.criteriaId === link.criteriaId)
+        .reduce((sum, l) => sum + Number(l.alignmentStrength), 0);
+      const alignmentStrength = Number(link.alignmentStrength);
+      const effectiveStrength = alignmentStrength / Math.max(1, totalStrength);
+
+      criteria.push({
+        criteriaId: criterion.criteriaId,
+        criteriaName: criterion.criteriaName,
+        alignmentStrength,
+        contribution: (criterion.weight * criterion.score * effectiveStrength) / 100,
+      });
+    }
+
+    const score = criteria.reduce((sum, c) => sum + c.contribution, 0);
+    return {
+      objectiveId: objective.id,
+      objectiveName: objective.name,
+      score,
+      share: compositeScore > 0 ? score / compositeScore : 0,
+      criteria,
+    };
+  });
+
+  return {
+    compositeScore,
+    alignmentScore: objectiveAlignment.reduce((sum, o) => sum + o.score, 0),
+    objectiveAlignment,
+  };
+}
+
+/**
+ * Objective alignment for a set of projects, from their current criteria scores
+ */
+export async function getProjectAlignments(projectIds: number[]): Promise<Map<number, ProjectAlignment>> {
+  const alignments = new Map<number, ProjectAlignment>();
+  if (projectIds.length === 0) return alignments;
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [criteriaResult, scoresResult, links, objectives] = await Promise.all([
+    db.execute(sql`
+      SELECT id, name, weight
+      FROM prioritization_criteria
+      WHERE isActive = 1
+      ORDER BY displayOrder
+    `),
+    db.execute(sql`
+      SELECT ps.projectId, ps.criteriaId, ps.score
+      FROM project_scores ps
+      JOIN prioritization_criteria pc ON ps.criteriaId = pc.id
+      WHERE pc.isActive = 1
+        AND ps.projectId IN (${sql.join(projectIds.map((id) => sql`${id}`), sql`, `)})
+    `),
+    prioritizationDb.getCriteriaObjectiveLinks(),
+    prioritizationDb.getAllObjectives(),
+  ]);
+
+  const criteria = Array.isArray(criteriaResult[0]) ? criteriaResult[0] : [];
+  const scores = Array.isArray(scoresResult[0]) ? scoresResult[0] : [];
+
+  for (const projectId of projectIds) {
+    const criteriaScores = criteria.map((criterion: any) => {
+      const projectScore = scores.find((s: any) => Number(s.projectId) === projectId && s.criteriaId === criterion.id);
+      return {
+        criteriaId: criterion.id,
+        criteriaName: criterion.name,
+        score: projectScore ? parseFloat(projectScore.score) : 0,
+        weight: parseFloat(criterion.weight),
+      };
+    });
+
+    alignments.set(projectId, calculateObjectiveAlignment(criteriaScores, links, objectives));
+  }
+
+  return alignments;
+}
+
+/**
+ * How much committed funding in a budget cycle advances each strategic objective
+ * Each allocation is attributed to objectives in proportion to their share of the
+ * project's composite score; the rest is reported as unaligned.
+ */
+export async function getObjectiveContributionReport(cycleId: number): Promise<{
+  cycleId: number;
+  totalFunded: number;
+  alignedFunded: number;
+  unalignedFunded: number;
+  objectives: Array<{
+    objectiveId: number;
+    objectiveName: string;
+    category: string | null;
+    targetYear: number | null;
+    fundedAmount: number;
+    percentOfFunded: number;
+    projects: Array<{ projectId: number; projectName: string; amount: number; share: number }>;
+  }>;
+}> {
+  const allocations = (await prioritizationDb.getAllocationsForCycle(cycleId))
+    .filter((a) => a.status !== "proposed");
+  const objectives = await prioritizationDb.getAllObjectives();
+  const alignments = await getProjectAlignments(Array.from(new Set(allocations.map((a) => a.projectId))));
+
+  const report = objectives.map((objective) => ({
+    objectiveId: objective.id,
+    objectiveName: objective.name,
+    category: objective.category,
+    targetYear: objective.targetYear,
+    fundedAmount: 0,
+    percentOfFunded: 0,
+    projects: [] as Array<{ projectId: number; projectName: string; amount: number; share: number }>,
+  }));
+
+  let totalFunded = 0;
+  let alignedFunded = 0;
+
+  for (const allocation of allocations) {
+    const amount = parseFloat(String(allocation.allocatedAmount || 0));
+    totalFunded += amount;
+
+    const alignment = alignments.get(allocation.projectId);
+    for (const objectiveShare of alignment?.objectiveAlignment ?? []) {
+      if (objectiveShare.share <= 0) continue;
+      const entry = report.find((r) => r.objectiveId === objectiveShare.objectiveId);
+      if (!entry) continue;
+
+      const attributed = amount * objectiveShare.share;
+      entry.fundedAmount += attributed;
+      alignedFunded += attributed;
+
+      const project = entry.projects.find((p) => p.projectId === allocation.projectId);
+      if (project) {
+        project.amount += attributed;
+      } else {
+        entry.projects.push({
+          projectId: allocation.projectId,
+          projectName: (allocation as any).projectName,
+          amount: attributed,
+          share: objectiveShare.share,
+        });
+      }
+    }
+  }
+
+  for (const entry of report) {
+    entry.percentOfFunded = totalFunded > 0 ? (entry.fundedAmount / totalFunded) * 100 : 0;
+    entry.projects.sort((a, b) => b.amount - a.amount);
+  }
+
+  return {
+    cycleId,
+    totalFunded,
+    alignedFunded,
+    unalignedFunded: totalFunded - alignedFunded,
+    objectives: report,
+  };
+}
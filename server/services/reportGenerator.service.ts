@@ -3,6 +3,7 @@ import ExcelJS from "exceljs";
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, Table, TableRow, TableCell, WidthType } from "docx";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import { DEFAULT_LANGUAGE, getLocale, getTranslator, type Language, type Translator } from "../../shared/i18n";
 
 export interface ReportData {
   project: any;
@@ -30,27 +31,30 @@ export interface GeneratedReport {
 export class ReportGeneratorService {
   /**
    * Generate report in specified format
+   * Labels are rendered in the requested language; user-entered text is left as stored
    */
   async generateReport(
     template: ReportTemplate,
     sections: ReportSection[],
     configuration: ReportConfiguration | null,
     data: ReportData,
-    format: "pdf" | "excel" | "word" | "html"
+    format: "pdf" | "excel" | "word" | "html",
+    language: Language = DEFAULT_LANGUAGE
   ): Promise<GeneratedReport> {
+    const t = getTranslator(language);
     const sortedSections = sections
       .filter(s => s.isEnabled)
       .sort((a, b) => a.orderIndex - b.orderIndex);
 
     switch (format) {
       case "pdf":
-        return this.generatePDF(template, sortedSections, configuration, data);
+        return this.generatePDF(template, sortedSections, configuration, data, language, t);
       case "excel":
-        return this.generateExcel(template, sortedSections, configuration, data);
+        return this.generateExcel(template, sortedSections, configuration, data, language, t);
       case "word":
-        return this.generateWord(template, sortedSections, configuration, data);
+        return this.generateWord(template, sortedSections, configuration, data, language, t);
       case "html":
-        return this.generateHTML(template, sortedSections, configuration, data);
+        return this.generateHTML(template, sortedSections, configuration, data, language, t);
       default:
         throw new Error(`Unsupported format: ${format}`);
     }
@@ -63,7 +67,9 @@ export class ReportGeneratorService {
     template: ReportTemplate,
     sections: ReportSection[],
     configuration: ReportConfiguration | null,
-    data: ReportData
+    data: ReportData,
+    language: Language,
+    t: Translator
   ): Promise<GeneratedReport> {
     const doc = new jsPDF({
       orientation: (configuration?.pageOptions as any)?.orientation || "portrait",
@@ -88,12 +94,12 @@ export class ReportGeneratorService {
       
       if ((configuration?.coverPageOptions as any)?.includeProjectInfo) {
         doc.setFontSize(12);
-        doc.text(`Project: ${data.project.name}`, pageWidth / 2, 100, { align: "center" });
-        doc.text(`Address: ${data.project.address}`, pageWidth / 2, 110, { align: "center" });
+        doc.text(`${t("report.project")}: ${data.project.name}`, pageWidth / 2, 100, { align: "center" });
+        doc.text(`${t("report.address")}: ${data.project.address}`, pageWidth / 2, 110, { align: "center" });
       }
       
       if ((configuration?.coverPageOptions as any)?.includeDate) {
-        doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth / 2, 130, { align: "center" });
+        doc.text(`${t("report.generated")}: ${new Date().toLocaleDateString(getLocale(language))}`, pageWidth / 2, 130, { align: "center" });
       }
       
       doc.addPage();
@@ -122,7 +128,7 @@ export class ReportGeneratorService {
       doc.setFontSize(11);
 
       // Render section content
-      yPosition = await this.renderPDFSection(doc, section, data, yPosition, margins, pageWidth, pageHeight);
+      yPosition = await this.renderPDFSection(doc, section, data, yPosition, margins, pageWidth, pageHeight, t);
 
       if ((section.layoutOptions as any)?.pageBreakAfter) {
         doc.addPage();
@@ -137,7 +143,7 @@ export class ReportGeneratorService {
         doc.setPage(i);
         doc.setFontSize(9);
         doc.text(configuration.footerText, margins.left, pageHeight - 10);
-        doc.text(`Page ${i} of ${pageCount}`, pageWidth - margins.right - 20, pageHeight - 10);
+        doc.text(t("common.page", { page: i, total: pageCount }), pageWidth - margins.right - 20, pageHeight - 10);
       }
     }
 
@@ -145,7 +151,7 @@ export class ReportGeneratorService {
     if (configuration?.disclaimerText) {
       doc.addPage();
       doc.setFontSize(10);
-      doc.text("Disclaimer", margins.left, margins.top);
+      doc.text(t("report.disclaimer"), margins.left, margins.top);
       const disclaimerLines = doc.splitTextToSize(configuration.disclaimerText, pageWidth - margins.left - margins.right);
       doc.text(disclaimerLines, margins.left, margins.top + 10);
     }
@@ -171,20 +177,21 @@ export class ReportGeneratorService {
     yPosition: number,
     margins: any,
     pageWidth: number,
-    pageHeight: number
+    pageHeight: number,
+    t: Translator
   ): Promise<number> {
     const contentWidth = pageWidth - margins.left - margins.right;
 
     switch (section.sectionType) {
       case "executive_summary":
         if (data.facilitySummary) {
-          doc.text(`Facility: ${data.project.name}`, margins.left, yPosition);
+          doc.text(`${t("report.facility")}: ${data.project.name}`, margins.left, yPosition);
           yPosition += 7;
-          doc.text(`Overall Condition: ${data.facilitySummary.condition.overallRating}`, margins.left, yPosition);
+          doc.text(`${t("report.overallCondition")}: ${data.facilitySummary.condition.overallRating}`, margins.left, yPosition);
           yPosition += 7;
-          doc.text(`Health Score: ${data.facilitySummary.condition.healthScore}/100`, margins.left, yPosition);
+          doc.text(`${t("report.healthScore")}: ${data.facilitySummary.condition.healthScore}/100`, margins.left, yPosition);
           yPosition += 7;
-          doc.text(`FCI: ${data.facilitySummary.condition.fci}%`, margins.left, yPosition);
+          doc.text(`${t("report.fci")}: ${data.facilitySummary.condition.fci}%`, margins.left, yPosition);
           yPosition += 10;
         }
         break;
@@ -194,13 +201,13 @@ export class ReportGeneratorService {
           const conditionData = data.assessments.map(a => [
             a.componentName,
             a.conditionRating,
-            `${a.remainingUsefulLife} years`,
+            t("common.years", { count: a.remainingUsefulLife }),
             `$${a.estimatedRepairCost?.toLocaleString() || "0"}`,
           ]);
 
           (doc as any).autoTable({
             startY: yPosition,
-            head: [["Component", "Condition", "Remaining Life", "Repair Cost"]],
+            head: [[t("report.component"), t("report.condition"), t("report.remainingLife"), t("report.repairCost")]],
             body: conditionData,
             margin: { left: margins.left, right: margins.right },
             styles: { fontSize: 9 },
@@ -214,15 +221,15 @@ export class ReportGeneratorService {
       case "cost_tables":
         if (data.facilitySummary?.financial) {
           const costData = [
-            ["Identified Costs", `$${data.facilitySummary.financial.identifiedCosts.toLocaleString()}`],
-            ["Planned Costs", `$${data.facilitySummary.financial.plannedCosts.toLocaleString()}`],
-            ["Executed Costs", `$${data.facilitySummary.financial.executedCosts.toLocaleString()}`],
-            ["Total Costs", `$${data.facilitySummary.financial.totalCosts.toLocaleString()}`],
+            [t("report.identifiedCosts"), `$${data.facilitySummary.financial.identifiedCosts.toLocaleString()}`],
+            [t("report.plannedCosts"), `$${data.facilitySummary.financial.plannedCosts.toLocaleString()}`],
+            [t("report.executedCosts"), `$${data.facilitySummary.financial.executedCosts.toLocaleString()}`],
+            [t("report.totalCosts"), `$${data.facilitySummary.financial.totalCosts.toLocaleString()}`],
           ];
 
           (doc as any).autoTable({
             startY: yPosition,
-            head: [["Cost Type", "Amount"]],
+            head: [[t("report.costType"), t("report.amount")]],
             body: costData,
             margin: { left: margins.left, right: margins.right },
             styles: { fontSize: 10 },
@@ -244,7 +251,7 @@ export class ReportGeneratorService {
 
           (doc as any).autoTable({
             startY: yPosition,
-            head: [["Description", "Priority", "Cost", "Urgency"]],
+            head: [[t("report.description"), t("report.priority"), t("report.cost"), t("report.urgency")]],
             body: defData,
             margin: { left: margins.left, right: margins.right },
             styles: { fontSize: 9 },
@@ -264,7 +271,7 @@ export class ReportGeneratorService {
         break;
 
       default:
-        doc.text(`[${section.sectionType} content]`, margins.left, yPosition);
+        doc.text(t("report.sectionContent", { section: section.sectionType }), margins.left, yPosition);
         yPosition += 10;
     }
 
@@ -278,27 +285,29 @@ export class ReportGeneratorService {
     template: ReportTemplate,
     sections: ReportSection[],
     configuration: ReportConfiguration | null,
-    data: ReportData
+    data: ReportData,
+    language: Language,
+    t: Translator
   ): Promise<GeneratedReport> {
     const workbook = new ExcelJS.Workbook();
     workbook.creator = "BCA System";
     workbook.created = new Date();
 
     // Summary sheet
-    const summarySheet = workbook.addWorksheet("Summary");
+    const summarySheet = workbook.addWorksheet(t("report.summary"));
     summarySheet.columns = [
-      { header: "Property", key: "property", width: 30 },
-      { header: "Value", key: "value", width: 50 },
+      { header: t("report.property"), key: "property", width: 30 },
+      { header: t("report.value"), key: "value", width: 50 },
     ];
 
-    summarySheet.addRow({ property: "Project Name", value: data.project.name });
-    summarySheet.addRow({ property: "Address", value: data.project.address });
-    summarySheet.addRow({ property: "Report Generated", value: new Date().toLocaleString() });
-    summarySheet.addRow({ property: "Template", value: template.name });
+    summarySheet.addRow({ property: t("report.projectName"), value: data.project.name });
+    summarySheet.addRow({ property: t("report.address"), value: data.project.address });
+    summarySheet.addRow({ property: t("report.reportGenerated"), value: new Date().toLocaleString(getLocale(language)) });
+    summarySheet.addRow({ property: t("report.template"), value: template.name });
 
     // Process sections
     for (const section of sections) {
-      await this.renderExcelSection(workbook, section, data);
+      await this.renderExcelSection(workbook, section, data, t);
     }
 
     const buffer = await workbook.xlsx.writeBuffer();
@@ -318,7 +327,8 @@ export class ReportGeneratorService {
   private async renderExcelSection(
     workbook: ExcelJS.Workbook,
     section: ReportSection,
-    data: ReportData
+    data: ReportData,
+    t: Translator
   ): Promise<void> {
     const sheetName = section.title || section.sectionType.replace(/_/g, " ");
 
@@ -327,11 +337,11 @@ export class ReportGeneratorService {
         if (data.assessments && data.assessments.length > 0) {
           const sheet = workbook.addWorksheet(sheetName);
           sheet.columns = [
-            { header: "Component", key: "component", width: 30 },
-            { header: "Location", key: "location", width: 25 },
-            { header: "Condition", key: "condition", width: 15 },
-            { header: "Remaining Life (years)", key: "remainingLife", width: 20 },
-            { header: "Repair Cost", key: "repairCost", width: 15 },
+            { header: t("report.component"), key: "component", width: 30 },
+            { header: t("report.location"), key: "location", width: 25 },
+            { header: t("report.condition"), key: "condition", width: 15 },
+            { header: t("report.remainingLifeYears"), key: "remainingLife", width: 20 },
+            { header: t("report.repairCost"), key: "repairCost", width: 15 },
           ];
 
           data.assessments.forEach(a => {
@@ -358,10 +368,10 @@ export class ReportGeneratorService {
         if (data.deficiencies && data.deficiencies.length > 0) {
           const sheet = workbook.addWorksheet(sheetName);
           sheet.columns = [
-            { header: "Description", key: "description", width: 50 },
-            { header: "Priority", key: "priority", width: 15 },
-            { header: "Urgency", key: "urgency", width: 15 },
-            { header: "Estimated Cost", key: "cost", width: 15 },
+            { header: t("report.description"), key: "description", width: 50 },
+            { header: t("report.priority"), key: "priority", width: 15 },
+            { header: t("report.urgency"), key: "urgency", width: 15 },
+            { header: t("report.estimatedCost"), key: "cost", width: 15 },
           ];
 
           data.deficiencies.forEach(d => {
@@ -386,14 +396,14 @@ export class ReportGeneratorService {
         if (data.facilitySummary?.financial) {
           const sheet = workbook.addWorksheet(sheetName);
           sheet.columns = [
-            { header: "Cost Type", key: "type", width: 30 },
-            { header: "Amount", key: "amount", width: 20 },
+            { header: t("report.costType"), key: "type", width: 30 },
+            { header: t("report.amount"), key: "amount", width: 20 },
           ];
 
-          sheet.addRow({ type: "Identified Costs", amount: data.facilitySummary.financial.identifiedCosts });
-          sheet.addRow({ type: "Planned Costs", amount: data.facilitySummary.financial.plannedCosts });
-          sheet.addRow({ type: "Executed Costs", amount: data.facilitySummary.financial.executedCosts });
-          sheet.addRow({ type: "Total Costs", amount: data.facilitySummary.financial.totalCosts });
+          sheet.addRow({ type: t("report.identifiedCosts"), amount: data.facilitySummary.financial.identifiedCosts });
+          sheet.addRow({ type: t("report.plannedCosts"), amount: data.facilitySummary.financial.plannedCosts });
+          sheet.addRow({ type: t("report.executedCosts"), amount: data.facilitySummary.financial.executedCosts });
+          sheet.addRow({ type: t("report.totalCosts"), amount: data.facilitySummary.financial.totalCosts });
 
           sheet.getRow(1).font = { bold: true };
           sheet.getRow(1).fill = {
@@ -413,7 +423,9 @@ export class ReportGeneratorService {
     template: ReportTemplate,
     sections: ReportSection[],
     configuration: ReportConfiguration | null,
-    data: ReportData
+    data: ReportData,
+    language: Language,
+    t: Translator
   ): Promise<GeneratedReport> {
     const docSections: any[] = [];
 
@@ -434,12 +446,12 @@ export class ReportGeneratorService {
             spacing: { after: 400 },
           }),
           new Paragraph({
-            text: `Project: ${data.project.name}`,
+            text: `${t("report.project")}: ${data.project.name}`,
             alignment: AlignmentType.CENTER,
             spacing: { after: 200 },
           }),
           new Paragraph({
-            text: `Generated: ${new Date().toLocaleDateString()}`,
+            text: `${t("report.generated")}: ${new Date().toLocaleDateString(getLocale(language))}`,
             alignment: AlignmentType.CENTER,
             spacing: { after: 200 },
           }),
@@ -450,7 +462,7 @@ export class ReportGeneratorService {
     // Process sections
     const sectionContent: Paragraph[] = [];
     for (const section of sections) {
-      const content = await this.renderWordSection(section, data);
+      const content = await this.renderWordSection(section, data, t);
       sectionContent.push(...content);
     }
 
@@ -479,7 +491,8 @@ export class ReportGeneratorService {
    */
   private async renderWordSection(
     section: ReportSection,
-    data: ReportData
+    data: ReportData,
+    t: Translator
   ): Promise<Paragraph[]> {
     const paragraphs: Paragraph[] = [];
 
@@ -498,21 +511,21 @@ export class ReportGeneratorService {
           paragraphs.push(
             new Paragraph({
               children: [
-                new TextRun({ text: "Facility: ", bold: true }),
+                new TextRun({ text: `${t("report.facility")}: `, bold: true }),
                 new TextRun(data.project.name),
               ],
               spacing: { after: 100 },
             }),
             new Paragraph({
               children: [
-                new TextRun({ text: "Overall Condition: ", bold: true }),
+                new TextRun({ text: `${t("report.overallCondition")}: `, bold: true }),
                 new TextRun(data.facilitySummary.condition.overallRating),
               ],
               spacing: { after: 100 },
             }),
             new Paragraph({
               children: [
-                new TextRun({ text: "Health Score: ", bold: true }),
+                new TextRun({ text: `${t("report.healthScore")}: `, bold: true }),
                 new TextRun(`${data.facilitySummary.condition.healthScore}/100`),
               ],
               spacing: { after: 100 },
@@ -535,7 +548,7 @@ export class ReportGeneratorService {
       default:
         paragraphs.push(
           new Paragraph({
-            text: `[${section.sectionType} content will be rendered here]`,
+            text: t("report.sectionPending", { section: section.sectionType }),
             spacing: { after: 200 },
           })
         );
@@ -551,14 +564,16 @@ export class ReportGeneratorService {
     template: ReportTemplate,
     sections: ReportSection[],
     configuration: ReportConfiguration | null,
-    data: ReportData
+    data: ReportData,
+    language: Language,
+    t: Translator
   ): Promise<GeneratedReport> {
     const colorScheme = (configuration?.colorScheme as any) || {};
     const fontOptions = (configuration?.fontOptions as any) || {};
 
     let html = `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${language}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -636,9 +651,9 @@ export class ReportGeneratorService {
   <div class="cover-page">
     <h1>${(configuration?.coverPageOptions as any)?.title || template.name}</h1>
     <p style="font-size: 18pt;">${(configuration?.coverPageOptions as any)?.subtitle || ""}</p>
-    <p>Project: ${data.project.name}</p>
-    <p>Address: ${data.project.address}</p>
-    <p>Generated: ${new Date().toLocaleDateString()}</p>
+    <p>${t("report.project")}: ${data.project.name}</p>
+    <p>${t("report.address")}: ${data.project.address}</p>
+    <p>${t("report.generated")}: ${new Date().toLocaleDateString(getLocale(language))}</p>
   </div>
   <div style="page-break-after: always;"></div>
 `;
@@ -655,7 +670,7 @@ export class ReportGeneratorService {
 
     // Sections
     for (const section of sections) {
-      html += await this.renderHTMLSection(section, data);
+      html += await this.renderHTMLSection(section, data, t);
     }
 
     // Footer
@@ -688,7 +703,8 @@ export class ReportGeneratorService {
    */
   private async renderHTMLSection(
     section: ReportSection,
-    data: ReportData
+    data: ReportData,
+    t: Translator
   ): Promise<string> {
     let html = `<h2>${section.title || section.sectionType.replace(/_/g, " ").toUpperCase()}</h2>`;
 
@@ -696,10 +712,10 @@ export class ReportGeneratorService {
       case "executive_summary":
         if (data.facilitySummary) {
           html += `
-            <p><strong>Facility:</strong> ${data.project.name}</p>
-            <p><strong>Overall Condition:</strong> ${data.facilitySummary.condition.overallRating}</p>
-            <p><strong>Health Score:</strong> ${data.facilitySummary.condition.healthScore}/100</p>
-            <p><strong>FCI:</strong> ${data.facilitySummary.condition.fci}%</p>
+            <p><strong>${t("report.facility")}:</strong> ${data.project.name}</p>
+            <p><strong>${t("report.overallCondition")}:</strong> ${data.facilitySummary.condition.overallRating}</p>
+            <p><strong>${t("report.healthScore")}:</strong> ${data.facilitySummary.condition.healthScore}/100</p>
+            <p><strong>${t("report.fci")}:</strong> ${data.facilitySummary.condition.fci}%</p>
           `;
         }
         break;
@@ -710,11 +726,11 @@ export class ReportGeneratorService {
             <table>
               <thead>
                 <tr>
-                  <th>Component</th>
-                  <th>Location</th>
-                  <th>Condition</th>
-                  <th>Remaining Life</th>
-                  <th>Repair Cost</th>
+                  <th>${t("report.component")}</th>
+                  <th>${t("report.location")}</th>
+                  <th>${t("report.condition")}</th>
+                  <th>${t("report.remainingLife")}</th>
+                  <th>${t("report.repairCost")}</th>
                 </tr>
               </thead>
               <tbody>
@@ -725,7 +741,7 @@ export class ReportGeneratorService {
                   <td>${a.componentName}</td>
                   <td>${a.location}</td>
                   <td>${a.conditionRating}</td>
-                  <td>${a.remainingUsefulLife} years</td>
+                  <td>${t("common.years", { count: a.remainingUsefulLife })}</td>
                   <td>$${a.estimatedRepairCost?.toLocaleString() || "0"}</td>
                 </tr>
             `;
@@ -743,10 +759,10 @@ export class ReportGeneratorService {
             <table>
               <thead>
                 <tr>
-                  <th>Description</th>
-                  <th>Priority</th>
-                  <th>Urgency</th>
-                  <th>Estimated Cost</th>
+                  <th>${t("report.description")}</th>
+                  <th>${t("report.priority")}</th>
+                  <th>${t("report.urgency")}</th>
+                  <th>${t("report.estimatedCost")}</th>
                 </tr>
               </thead>
               <tbody>
@@ -774,15 +790,15 @@ export class ReportGeneratorService {
             <table>
               <thead>
                 <tr>
-                  <th>Cost Type</th>
-                  <th>Amount</th>
+                  <th>${t("report.costType")}</th>
+                  <th>${t("report.amount")}</th>
                 </tr>
               </thead>
               <tbody>
-                <tr><td>Identified Costs</td><td>$${data.facilitySummary.financial.identifiedCosts.toLocaleString()}</td></tr>
-                <tr><td>Planned Costs</td><td>$${data.facilitySummary.financial.plannedCosts.toLocaleString()}</td></tr>
-                <tr><td>Executed Costs</td><td>$${data.facilitySummary.financial.executedCosts.toLocaleString()}</td></tr>
-                <tr><td><strong>Total Costs</strong></td><td><strong>$${data.facilitySummary.financial.totalCosts.toLocaleString()}</strong></td></tr>
+                <tr><td>${t("report.identifiedCosts")}</td><td>$${data.facilitySummary.financial.identifiedCosts.toLocaleString()}</td></tr>
+                <tr><td>${t("report.plannedCosts")}</td><td>$${data.facilitySummary.financial.plannedCosts.toLocaleString()}</td></tr>
+                <tr><td>${t("report.executedCosts")}</td><td>$${data.facilitySummary.financial.executedCosts.toLocaleString()}</td></tr>
+                <tr><td><strong>${t("report.totalCosts")}</strong></td><td><strong>$${data.facilitySummary.financial.totalCosts.toLocaleString()}</strong></td></tr>
               </tbody>
             </table>
           `;
@@ -796,7 +812,7 @@ export class ReportGeneratorService {
         break;
 
       default:
-        html += `<p>[${section.sectionType} content]</p>`;
+        html += `<p>${t("report.sectionContent", { section: section.sectionType })}</p>`;
     }
 
     if ((section.layoutOptions as any)?.pageBreakAfter) {
@@ -0,0 +1,138 @@
+/**
+ * Tests for Report Scheduler Service
+ * Tests cron parsing, next-run calculation, retry backoff and recipient parsing
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  parseCronExpression,
+  getNextScheduledRunTime,
+  buildCronExpression,
+  resolveCronExpression,
+  validateCronExpression,
+  calculateRetryDelayMs,
+  parseRecipientEmails,
+  BASE_RETRY_DELAY_MS,
+  MAX_RETRY_DELAY_MS,
+} from "./reportScheduler";
+
+describe("reportScheduler", () => {
+  describe("parseCronExpression", () => {
+    it("should expand wildcards, ranges, lists and steps", () => {
+      const fields = parseCronExpression("*/15 8-10 1,15 * 1-5");
+
+      expect(Array.from(fields.minutes)).toEqual([0, 15, 30, 45]);
+      expect(Array.from(fields.hours)).toEqual([8, 9, 10]);
+      expect(Array.from(fields.daysOfMonth)).toEqual([1, 15]);
+      expect(fields.months.size).toBe(12);
+      expect(Array.from(fields.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+      expect(fields.dayOfMonthRestricted).toBe(true);
+      expect(fields.dayOfWeekRestricted).toBe(true);
+    });
+
+    it("should treat day-of-week 7 as Sunday", () => {
+      const fields = parseCronExpression("0 6 * * 7");
+      expect(Array.from(fields.daysOfWeek)).toEqual([0]);
+    });
+
+    it("should reject expressions with the wrong number of fields", () => {
+      expect(() => parseCronExpression("0 6 * *")).toThrow(/Expected format/);
+    });
+
+    it("should reject out-of-range values", () => {
+      expect(() => parseCronExpression("0 25 * * *")).toThrow(/allowed 0-23/);
+    });
+  });
+
+  describe("getNextScheduledRunTime", () => {
+    it("should find the next daily run later the same day", () => {
+      const from = new Date("2026-03-10T04:30:00.000Z");
+      const next = getNextScheduledRunTime("0 6 * * *", "UTC", from);
+      expect(next.toISOString()).toBe("2026-03-10T06:00:00.000Z");
+    });
+
+    it("should roll over to the next day once today's run has passed", () => {
+      const from = new Date("2026-03-10T06:00:00.000Z");
+      const next = getNextScheduledRunTime("0 6 * * *", "UTC", from);
+      expect(next.toISOString()).toBe("2026-03-11T06:00:00.000Z");
+    });
+
+    it("should honour day-of-week for weekly schedules", () => {
+      // 2026-03-10 is a Tuesday; next Monday is 2026-03-16
+      const from = new Date("2026-03-10T12:00:00.000Z");
+      const next = getNextScheduledRunTime("0 6 * * 1", "UTC", from);
+      expect(next.toISOString()).toBe("2026-03-16T06:00:00.000Z");
+    });
+
+    it("should honour day-of-month for monthly schedules", () => {
+      const from = new Date("2026-03-10T12:00:00.000Z");
+      const next = getNextScheduledRunTime("0 6 1 * *", "UTC", from);
+      expect(next.toISOString()).toBe("2026-04-01T06:00:00.000Z");
+    });
+
+    it("should evaluate the expression in the schedule's timezone", () => {
+      // 6:00 AM in Toronto is 11:00 UTC in winter (EST) and 10:00 UTC in summer (EDT)
+      const winter = getNextScheduledRunTime("0 6 * * *", "America/Toronto", new Date("2026-01-15T00:00:00.000Z"));
+      const summer = getNextScheduledRunTime("0 6 * * *", "America/Toronto", new Date("2026-07-15T00:00:00.000Z"));
+      expect(winter.toISOString()).toBe("2026-01-15T11:00:00.000Z");
+      expect(summer.toISOString()).toBe("2026-07-15T10:00:00.000Z");
+    });
+  });
+
+  describe("buildCronExpression", () => {
+    it("should build expressions for each frequency", () => {
+      expect(buildCronExpression("daily")).toBe("0 6 * * *");
+      expect(buildCronExpression("weekly", 3)).toBe("0 6 * * 3");
+      expect(buildCronExpression("monthly", null, 15)).toBe("0 6 15 * *");
+    });
+
+    it("should prefer an explicit cron expression over the frequency fields", () => {
+      expect(resolveCronExpression({
+        cronExpression: "30 7 * * 1-5",
+        frequency: "daily",
+        dayOfWeek: null,
+        dayOfMonth: null,
+      })).toBe("30 7 * * 1-5");
+
+      expect(resolveCronExpression({
+        cronExpression: null,
+        frequency: "weekly",
+        dayOfWeek: 5,
+        dayOfMonth: null,
+      })).toBe("0 6 * * 5");
+    });
+  });
+
+  describe("validateCronExpression", () => {
+    it("should accept valid expressions and reject invalid ones", () => {
+      expect(validateCronExpression("0 6 * * 1")).toBeNull();
+      expect(validateCronExpression("not a cron")).not.toBeNull();
+    });
+  });
+
+  describe("calculateRetryDelayMs", () => {
+    it("should back off exponentially", () => {
+      expect(calculateRetryDelayMs(1)).toBe(BASE_RETRY_DELAY_MS);
+      expect(calculateRetryDelayMs(2)).toBe(BASE_RETRY_DELAY_MS * 2);
+      expect(calculateRetryDelayMs(3)).toBe(BASE_RETRY_DELAY_MS * 4);
+    });
+
+    it("should cap the delay", () => {
+      expect(calculateRetryDelayMs(20)).toBe(MAX_RETRY_DELAY_MS);
+    });
+  });
+
+  describe("parseRecipientEmails", () => {
+    it("should split, normalize and de-duplicate addresses", () => {
+      expect(parseRecipientEmails("a@example.com, B@example.com;a@example.com\nc@example.com")).toEqual([
+        "a@example.com",
+        "b@example.com",
+        "c@example.com",
+      ]);
+    });
+
+    it("should drop invalid addresses", () => {
+      expect(parseRecipientEmails("not-an-email, ok@example.com,")).toEqual(["ok@example.com"]);
+    });
+  });
+});
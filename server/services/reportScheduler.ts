@@ -0,0 +1,814 @@
+/**
+ * Report Scheduler Service
+ * Runs saved custom report templates and portfolio report configurations on a
+ * cron cadence and emails the generated file to each schedule's recipients.
+ * Failed runs are retried with exponential backoff up to the schedule's maxRetries.
+ */
+
+import cron from 'node-cron';
+import ExcelJS from 'exceljs';
+import { getDb } from '../db';
+import * as db from '../db';
+import {
+  reportSchedules,
+  reportScheduleRuns,
+  reportTemplates,
+  reportTemplateSections,
+  reportConfigurations,
+  reportHistory,
+  projects,
+  type ReportSchedule,
+  type ReportScheduleRun,
+} from '../../drizzle/schema';
+import { eq, and, lte, desc, sql } from 'drizzle-orm';
+import { ReportGeneratorService, type GeneratedReport } from './reportGenerator.service';
+import { resolveLanguage } from '../../shared/i18n';
+import { generatePortfolioReportData, type PortfolioReportData } from '../db-portfolioReport';
+import { storagePut } from '../storage';
+import { sendScheduledReportEmail } from './emailService';
+
+export const DEFAULT_REPORT_TIMEZONE = 'America/Toronto';
+export const DEFAULT_REPORT_HOUR = 6; // Reports go out at 6:00 AM local time
+export const BASE_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+export const MAX_RETRY_DELAY_MS = 4 * 60 * 60 * 1000; // 4 hours
+
+export type ReportScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+export type ReportRunTrigger = 'schedule' | 'manual' | 'retry';
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Parse a single cron field into the set of values it matches
+ * Supports: *, single values, ranges (1-5), lists (1,3,5) and steps (*\/15, 1-30/5)
+ */
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in cron field "${field}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*') {
+      const [startStr, endStr] = rangePart.split('-');
+      start = parseInt(startStr, 10);
+      end = endStr === undefined ? (stepPart === undefined ? start : max) : parseInt(endStr, 10);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron field "${field}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression: minute hour day-of-month month day-of-week
+ */
+export function parseCronExpression(cronExpression: string): CronFields {
+  const parts = cronExpression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Invalid cron expression. Expected format: minute hour day-of-month month day-of-week');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*',
+  };
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone, expressed as a UTC timestamp
+ */
+function toZonedWallClock(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+}
+
+/**
+ * Convert a wall-clock time (expressed as a UTC timestamp) in a timezone back to an instant
+ */
+function fromZonedWallClock(wallClock: number, timezone: string): Date {
+  let instant = wallClock;
+  // Two passes settle the offset across DST transitions
+  for (let i = 0; i < 2; i++) {
+    const offset = toZonedWallClock(new Date(instant), timezone) - instant;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Calculate the next time a cron expression fires after `from`, evaluated in the given timezone
+ */
+export function getNextScheduledRunTime(
+  cronExpression: string,
+  timezone: string = DEFAULT_REPORT_TIMEZONE,
+  from: Date = new Date()
+): Date {
+  const fields = parseCronExpression(cronExpression);
+  const MINUTE = 60 * 1000;
+  const HOUR = 60 * MINUTE;
+
+  // Start at the next whole minute, in wall-clock time
+  const startWallClock = toZonedWallClock(from, timezone);
+  let cursor = new Date(Math.floor(startWallClock / MINUTE) * MINUTE + MINUTE);
+  const limit = startWallClock + 366 * 24 * HOUR;
+
+  const dayMatches = (d: Date) => {
+    const domMatch = fields.daysOfMonth.has(d.getUTCDate());
+    const dowMatch = fields.daysOfWeek.has(d.getUTCDay());
+    // Standard cron semantics: when both are restricted, either may match
+    if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) return domMatch || dowMatch;
+    if (fields.dayOfMonthRestricted) return domMatch;
+    if (fields.dayOfWeekRestricted) return dowMatch;
+    return true;
+  };
+
+  while (cursor.getTime() <= limit) {
+    if (!fields.months.has(cursor.getUTCMonth() + 1)) {
+      cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+      continue;
+    }
+    if (!dayMatches(cursor)) {
+      cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth(), cursor.getUTCDate() + 1));
+      continue;
+    }
+    if (!fields.hours.has(cursor.getUTCHours())) {
+      cursor = new Date(Math.floor(cursor.getTime() / HOUR) * HOUR + HOUR);
+      continue;
+    }
+    if (!fields.minutes.has(cursor.getUTCMinutes())) {
+      cursor = new Date(cursor.getTime() + MINUTE);
+      continue;
+    }
+    return fromZonedWallClock(cursor.getTime(), timezone);
+  }
+
+  throw new Error(`Cron expression "${cronExpression}" has no run time within the next year`);
+}
+
+/**
+ * Build a cron expression from the simple frequency fields on report_schedules
+ */
+export function buildCronExpression(
+  frequency: ReportScheduleFrequency,
+  dayOfWeek?: number | null,
+  dayOfMonth?: number | null,
+  hour: number = DEFAULT_REPORT_HOUR
+): string {
+  switch (frequency) {
+    case 'daily':
+      return `0 ${hour} * * *`;
+    case 'weekly':
+      return `0 ${hour} * * ${dayOfWeek ?? 1}`;
+    case 'monthly':
+      return `0 ${hour} ${dayOfMonth ?? 1} * *`;
+    default:
+      throw new Error(`Unsupported frequency: ${frequency}`);
+  }
+}
+
+/**
+ * Resolve the effective cron expression for a schedule
+ */
+export function resolveCronExpression(
+  schedule: Pick<ReportSchedule, 'cronExpression' | 'frequency' | 'dayOfWeek' | 'dayOfMonth'>
+): string {
+  return schedule.cronExpression || buildCronExpression(schedule.frequency, schedule.dayOfWeek, schedule.dayOfMonth);
+}
+
+/**
+ * Validate a cron expression, returning an error message or null
+ */
+export function validateCronExpression(cronExpression: string): string | null {
+  if (!cron.validate(cronExpression)) {
+    return 'Invalid cron expression';
+  }
+  try {
+    getNextScheduledRunTime(cronExpression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+/**
+ * Delay before retrying a failed run: 5 min, 10 min, 20 min, ... capped at 4 hours
+ */
+export function calculateRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Split the stored recipient list (comma, semicolon or newline separated) into unique addresses
+ */
+export function parseRecipientEmails(recipientEmails: string): string[] {
+  const emails = recipientEmails
+    .split(/[,;\n]/)
+    .map(email => email.trim().toLowerCase())
+    .filter(email => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
+  return Array.from(new Set(emails));
+}
+
+/**
+ * Render portfolio report data as an Excel workbook
+ */
+export async function renderPortfolioReportWorkbook(data: PortfolioReportData): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'BCA System';
+  workbook.created = new Date();
+
+  const summarySheet = workbook.addWorksheet('Summary');
+  summarySheet.columns = [
+    { header: 'Metric', key: 'metric', width: 40 },
+    { header: 'Value', key: 'value', width: 25 },
+  ];
+  summarySheet.addRows([
+    { metric: 'Project', value: data.project.name },
+    { metric: 'Generated At', value: data.generatedAt },
+    { metric: 'Total Assets', value: data.summary.totalAssets },
+    { metric: 'Current Replacement Value', value: data.summary.totalCurrentReplacementValue },
+    { metric: 'Deferred Maintenance Cost', value: data.summary.totalDeferredMaintenanceCost },
+    { metric: 'Portfolio FCI (%)', value: data.summary.portfolioFCI },
+    { metric: 'Portfolio FCI Rating', value: data.summary.portfolioFCIRating },
+    { metric: 'Average Condition Score', value: data.summary.averageConditionScore },
+    { metric: 'Average Condition Rating', value: data.summary.averageConditionRating },
+    { metric: 'Total Deficiencies', value: data.summary.totalDeficiencies },
+    { metric: 'Total Assessments', value: data.summary.totalAssessments },
+    { metric: 'Funding Gap', value: data.summary.fundingGap },
+  ]);
+  summarySheet.getRow(1).font = { bold: true };
+
+  if (data.assetMetrics.length > 0) {
+    const assetSheet = workbook.addWorksheet('Assets');
+    assetSheet.columns = [
+      { header: 'Asset', key: 'assetName', width: 35 },
+      { header: 'Replacement Value', key: 'currentReplacementValue', width: 20 },
+      { header: 'Deferred Maintenance', key: 'deferredMaintenanceCost', width: 22 },
+      { header: 'FCI (%)', key: 'fci', width: 10 },
+      { header: 'FCI Rating', key: 'fciRating', width: 12 },
+      { header: 'Condition', key: 'conditionRating', width: 14 },
+      { header: 'Deficiencies', key: 'deficiencyCount', width: 14 },
+      { header: 'Priority Score', key: 'priorityScore', width: 14 },
+    ];
+    assetSheet.addRows(data.assetMetrics);
+    assetSheet.getRow(1).font = { bold: true };
+  }
+
+  if (data.categoryBreakdown.length > 0) {
+    const categorySheet = workbook.addWorksheet('Categories');
+    categorySheet.columns = [
+      { header: 'Code', key: 'categoryCode', width: 10 },
+      { header: 'Category', key: 'category', width: 35 },
+      { header: 'Repair Cost', key: 'totalRepairCost', width: 18 },
+      { header: 'Replacement Value', key: 'totalReplacementValue', width: 20 },
+      { header: 'FCI (%)', key: 'fci', width: 10 },
+      { header: 'Assessments', key: 'assessmentCount', width: 14 },
+    ];
+    categorySheet.addRows(data.categoryBreakdown);
+    categorySheet.getRow(1).font = { bold: true };
+  }
+
+  if (data.capitalForecast.length > 0) {
+    const forecastSheet = workbook.addWorksheet('Capital Forecast');
+    forecastSheet.columns = [
+      { header: 'Year', key: 'year', width: 10 },
+      { header: 'Immediate', key: 'immediateNeeds', width: 16 },
+      { header: 'Short Term', key: 'shortTermNeeds', width: 16 },
+      { header: 'Medium Term', key: 'mediumTermNeeds', width: 16 },
+      { header: 'Long Term', key: 'longTermNeeds', width: 16 },
+      { header: 'Total', key: 'totalProjectedCost', width: 16 },
+      { header: 'Cumulative', key: 'cumulativeCost', width: 16 },
+    ];
+    forecastSheet.addRows(data.capitalForecast);
+    forecastSheet.getRow(1).font = { bold: true };
+  }
+
+  const arrayBuffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(arrayBuffer);
+}
+
+/**
+ * Render portfolio report data as a standalone HTML document
+ */
+export function renderPortfolioReportHtml(data: PortfolioReportData): string {
+  const escape = (value: unknown) =>
+    String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const money = (value: number) => `$${Math.round(value || 0).toLocaleString('en-CA')}`;
+
+  const assetRows = data.assetMetrics
+    .map(a => `<tr><td>${escape(a.assetName)}</td><td>${money(a.currentReplacementValue)}</td><td>${money(a.deferredMaintenanceCost)}</td><td>${a.fci.toFixed(1)}%</td><td>${escape(a.conditionRating)}</td></tr>`)
+    .join('');
+  const forecastRows = data.capitalForecast
+    .map(f => `<tr><td>${f.year}</td><td>${money(f.totalProjectedCost)}</td><td>${money(f.cumulativeCost)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Portfolio Report - ${escape(data.project.name)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 40px; color: #1f2937; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+    th, td { border: 1px solid #e5e7eb; padding: 6px 10px; text-align: left; }
+    th { background: #f3f4f6; }
+  </style>
+</head>
+<body>
+  <h1>Portfolio Report - ${escape(data.project.name)}</h1>
+  <p>Generated ${escape(data.generatedAt)}</p>
+  <h2>Summary</h2>
+  <table>
+    <tr><th>Total Assets</th><td>${data.summary.totalAssets}</td></tr>
+    <tr><th>Current Replacement Value</th><td>${money(data.summary.totalCurrentReplacementValue)}</td></tr>
+    <tr><th>Deferred Maintenance Cost</th><td>${money(data.summary.totalDeferredMaintenanceCost)}</td></tr>
+    <tr><th>Portfolio FCI</th><td>${data.summary.portfolioFCI.toFixed(1)}% (${escape(data.summary.portfolioFCIRating)})</td></tr>
+    <tr><th>Total Deficiencies</th><td>${data.summary.totalDeficiencies}</td></tr>
+  </table>
+  ${assetRows ? `<h2>Assets</h2><table><tr><th>Asset</th><th>Replacement Value</th><th>Deferred Maintenance</th><th>FCI</th><th>Condition</th></tr>${assetRows}</table>` : ''}
+  ${forecastRows ? `<h2>Capital Renewal Forecast</h2><table><tr><th>Year</th><th>Projected Cost</th><th>Cumulative</th></tr>${forecastRows}</table>` : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Generate the report file for a schedule
+ */
+async function generateScheduledReport(schedule: ReportSchedule): Promise<GeneratedReport & {
+  projectName: string;
+  reportLabel: string;
+}> {
+  const database = await getDb();
+  if (!database) throw new Error('Database not available');
+
+  const [project] = await database
+    .select()
+    .from(projects)
+    .where(eq(projects.id, schedule.projectId))
+    .limit(1);
+  if (!project) throw new Error(`Project ${schedule.projectId} not found`);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const options = (schedule.options || {}) as Record<string, any>;
+
+  if (schedule.reportType === 'portfolio_report') {
+    const reportData = await generatePortfolioReportData(schedule.projectId);
+    if (!reportData) throw new Error('Failed to generate portfolio report data');
+
+    // Apply the saved portfolio report section options
+    const filtered: PortfolioReportData = {
+      ...reportData,
+      assetMetrics: options.includeAssetDetails === false ? [] : reportData.assetMetrics,
+      categoryBreakdown: options.includeCategoryBreakdown === false ? [] : reportData.categoryBreakdown,
+      priorityMatrix: options.includePriorityMatrix === false ? [] : reportData.priorityMatrix,
+      capitalForecast: options.includeCapitalForecast === false ? [] : reportData.capitalForecast,
+    };
+
+    const baseName = `portfolio-report-${project.name.replace(/\s+/g, '-')}-${timestamp}`;
+    if (schedule.format === 'html') {
+      const buffer = Buffer.from(renderPortfolioReportHtml(filtered), 'utf8');
+      return {
+        buffer,
+        fileName: `${baseName}.html`,
+        mimeType: 'text/html',
+        fileSize: buffer.length,
+        projectName: project.name,
+        reportLabel: 'portfolio report',
+      };
+    }
+
+    const buffer = await renderPortfolioReportWorkbook(filtered);
+    return {
+      buffer,
+      fileName: `${baseName}.xlsx`,
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      fileSize: buffer.length,
+      projectName: project.name,
+      reportLabel: 'portfolio report',
+    };
+  }
+
+  // Custom report template
+  if (!schedule.templateId) throw new Error('Custom report schedule has no template');
+
+  const [template] = await database
+    .select()
+    .from(reportTemplates)
+    .where(eq(reportTemplates.id, schedule.templateId))
+    .limit(1);
+  if (!template) throw new Error(`Report template ${schedule.templateId} not found`);
+
+  const templateSections = await database
+    .select()
+    .from(reportTemplateSections)
+    .where(eq(reportTemplateSections.templateId, schedule.templateId))
+    .orderBy(reportTemplateSections.displayOrder);
+
+  const [configuration] = await database
+    .select()
+    .from(reportConfigurations)
+    .where(eq(reportConfigurations.templateId, schedule.templateId))
+    .limit(1);
+
+  // Gather report data
+  const projectAssessments = await db.getProjectAssessments(schedule.projectId);
+  const projectDeficiencies = await db.getProjectDeficiencies(schedule.projectId);
+  const projectAssets = await db.getProjectAssets(schedule.projectId);
+
+  const projectPhotos: any[] = [];
+  if (options.includePhotos !== false) {
+    for (const assessment of projectAssessments) {
+      const assessmentPhotos = await db.getAssessmentPhotos(assessment.id);
+      projectPhotos.push(...assessmentPhotos);
+    }
+  }
+
+  const fciData = await db.getProjectFCI(schedule.projectId);
+
+  const reportData = {
+    project,
+    assessments: projectAssessments,
+    deficiencies: projectDeficiencies,
+    photos: projectPhotos,
+    assets: projectAssets,
+    facilitySummary: {
+      condition: {
+        overallRating: fciData?.rating || 'N/A',
+        healthScore: fciData ? Math.round((1 - fciData.fci / 100) * 100) : 0,
+        fci: fciData?.fci || 0,
+      },
+      financial: {
+        identifiedCosts: fciData?.totalRepairCost || 0,
+        plannedCosts: 0,
+        executedCosts: 0,
+        totalCosts: fciData?.totalRepairCost || 0,
+        replacementValue: fciData?.totalReplacementValue || 0,
+      },
+    },
+  };
+
+  const sectionsForReport = templateSections.map(s => ({
+    id: s.id,
+    templateId: s.templateId,
+    sectionType: s.sectionType as any,
+    title: s.sectionName,
+    orderIndex: s.displayOrder,
+    isEnabled: 1,
+    layoutOptions: null,
+    contentOptions: s.defaultContent ? { customText: s.defaultContent } : null,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+  }));
+
+  const reportService = new ReportGeneratorService();
+  const generated = await reportService.generateReport(
+    template,
+    sectionsForReport,
+    configuration || null,
+    reportData,
+    schedule.format,
+    // Scheduled reports render in the language of the user who set up the schedule
+    resolveLanguage(schedule.createdBy ? await db.getUserLanguagePreference(schedule.createdBy) : null)
+  );
+
+  return {
+    ...generated,
+    projectName: project.name,
+    reportLabel: template.name,
+  };
+}
+
+/**
+ * Execute a report schedule once and record the run
+ */
+export async function executeReportSchedule(
+  scheduleId: number,
+  options: {
+    trigger?: ReportRunTrigger;
+    attempt?: number;
+    retryOfRunId?: number;
+  } = {}
+): Promise<{
+  success: boolean;
+  runId?: number;
+  fileUrl?: string;
+  error?: string;
+}> {
+  const database = await getDb();
+  if (!database) return { success: false, error: 'Database not available' };
+
+  const { trigger = 'schedule', attempt = 1, retryOfRunId } = options;
+
+  const [schedule] = await database
+    .select()
+    .from(reportSchedules)
+    .where(eq(reportSchedules.id, scheduleId))
+    .limit(1);
+
+  if (!schedule) {
+    return { success: false, error: 'Schedule not found' };
+  }
+
+  // Advance the schedule before generating so a slow run isn't picked up twice
+  if (trigger === 'schedule') {
+    const nextRun = getNextScheduledRunTime(resolveCronExpression(schedule), schedule.timezone);
+    await database
+      .update(reportSchedules)
+      .set({ nextRun: nextRun.toISOString() })
+      .where(eq(reportSchedules.id, scheduleId));
+  }
+
+  const runResult = await database.insert(reportScheduleRuns).values({
+    scheduleId,
+    trigger,
+    attempt,
+    retryOfRunId,
+    status: 'running',
+  });
+  const runId = Number(runResult[0].insertId);
+  const startTime = Date.now();
+
+  try {
+    const recipients = parseRecipientEmails(schedule.recipientEmails);
+    if (recipients.length === 0) {
+      throw new Error('Schedule has no valid recipient email addresses');
+    }
+
+    const report = await generateScheduledReport(schedule);
+
+    const fileKey = `projects/${schedule.projectId}/scheduled-reports/${schedule.id}/${report.fileName}`;
+    const { url } = await storagePut(fileKey, report.buffer, report.mimeType);
+
+    const generatedAt = new Date().toLocaleString('en-US', { timeZone: schedule.timezone });
+    let deliveredCount = 0;
+    for (const recipient of recipients) {
+      const sent = await sendScheduledReportEmail({
+        to: recipient,
+        scheduleName: schedule.name,
+        projectName: report.projectName,
+        reportLabel: report.reportLabel,
+        fileName: report.fileName,
+        fileUrl: url,
+        generatedAt,
+      }).catch(error => {
+        console.error(`[ReportScheduler] Failed to email ${recipient}:`, error);
+        return false;
+      });
+      if (sent) deliveredCount++;
+    }
+
+    if (deliveredCount === 0) {
+      throw new Error(`Report generated but could not be emailed to any of ${recipients.length} recipient(s)`);
+    }
+
+    await database
+      .update(reportScheduleRuns)
+      .set({
+        status: 'success',
+        completedAt: sql`CURRENT_TIMESTAMP`,
+        durationMs: Date.now() - startTime,
+        fileName: report.fileName,
+        fileUrl: url,
+        fileSize: report.fileSize,
+        recipientCount: recipients.length,
+        deliveredCount,
+      })
+      .where(eq(reportScheduleRuns.id, runId));
+
+    if (schedule.reportType === 'custom_report' && schedule.templateId) {
+      await database.insert(reportHistory).values({
+        projectId: schedule.projectId,
+        templateId: schedule.templateId,
+        userId: schedule.createdBy || 0,
+        format: schedule.format,
+        fileName: report.fileName,
+        fileUrl: url,
+        fileSize: report.fileSize,
+        status: 'completed',
+      });
+    }
+
+    await database
+      .update(reportSchedules)
+      .set({
+        lastRun: sql`CURRENT_TIMESTAMP`,
+        lastRunStatus: 'success',
+      })
+      .where(eq(reportSchedules.id, scheduleId));
+
+    console.log(`[ReportScheduler] Delivered "${schedule.name}" to ${deliveredCount}/${recipients.length} recipient(s)`);
+
+    return { success: true, runId, fileUrl: url };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const canRetry = attempt <= schedule.maxRetries;
+    const nextRetryAt = canRetry ? new Date(Date.now() + calculateRetryDelayMs(attempt)) : null;
+
+    await database
+      .update(reportScheduleRuns)
+      .set({
+        status: canRetry ? 'retry_pending' : 'failed',
+        completedAt: sql`CURRENT_TIMESTAMP`,
+        durationMs: Date.now() - startTime,
+        nextRetryAt: nextRetryAt ? nextRetryAt.toISOString() : null,
+        errorMessage,
+      })
+      .where(eq(reportScheduleRuns.id, runId));
+
+    await database
+      .update(reportSchedules)
+      .set({
+        lastRun: sql`CURRENT_TIMESTAMP`,
+        lastRunStatus: 'failed',
+      })
+      .where(eq(reportSchedules.id, scheduleId));
+
+    console.error(
+      `[ReportScheduler] Run ${runId} of "${schedule.name}" failed (attempt ${attempt})${canRetry ? `, retrying at ${nextRetryAt!.toISOString()}` : ''}:`,
+      error
+    );
+
+    return { success: false, runId, error: errorMessage };
+  }
+}
+
+/**
+ * Retry a failed or retry-pending run immediately or when its backoff has elapsed
+ */
+export async function retryReportRun(runId: number): Promise<{
+  success: boolean;
+  runId?: number;
+  fileUrl?: string;
+  error?: string;
+}> {
+  const database = await getDb();
+  if (!database) return { success: false, error: 'Database not available' };
+
+  const [run] = await database
+    .select()
+    .from(reportScheduleRuns)
+    .where(eq(reportScheduleRuns.id, runId))
+    .limit(1);
+
+  if (!run) return { success: false, error: 'Run not found' };
+  if (run.status !== 'failed' && run.status !== 'retry_pending') {
+    return { success: false, error: `Only failed runs can be retried (run is ${run.status})` };
+  }
+
+  // The pending retry is being consumed now, so close it out
+  if (run.status === 'retry_pending') {
+    await database
+      .update(reportScheduleRuns)
+      .set({ status: 'failed', nextRetryAt: null })
+      .where(eq(reportScheduleRuns.id, runId));
+  }
+
+  return executeReportSchedule(run.scheduleId, {
+    trigger: 'retry',
+    attempt: run.attempt + 1,
+    retryOfRunId: run.id,
+  });
+}
+
+/**
+ * Execute all schedules that are due and all pending retries whose backoff has elapsed
+ */
+export async function checkAndExecuteDueReports(): Promise<void> {
+  try {
+    const database = await getDb();
+    if (!database) return;
+
+    const now = new Date().toISOString();
+
+    const dueSchedules = await database
+      .select()
+      .from(reportSchedules)
+      .where(
+        and(
+          eq(reportSchedules.active, 1),
+          lte(reportSchedules.nextRun, now)
+        )
+      );
+
+    for (const schedule of dueSchedules) {
+      console.log(`[ReportScheduler] Executing due report schedule: ${schedule.name}`);
+      await executeReportSchedule(schedule.id, { trigger: 'schedule' });
+    }
+
+    const dueRetries = await database
+      .select()
+      .from(reportScheduleRuns)
+      .where(
+        and(
+          eq(reportScheduleRuns.status, 'retry_pending'),
+          lte(reportScheduleRuns.nextRetryAt, now)
+        )
+      );
+
+    for (const run of dueRetries) {
+      console.log(`[ReportScheduler] Retrying run ${run.id} (attempt ${run.attempt + 1})`);
+      await retryReportRun(run.id);
+    }
+  } catch (error) {
+    // Connection errors are transient and will resolve on the next check
+    if (error instanceof Error && (error.message.includes('ECONNRESET') || error.message.includes('connection'))) {
+      return;
+    }
+    console.error('[ReportScheduler] Error in checkAndExecuteDueReports:', error);
+  }
+}
+
+/**
+ * Get the run history for a schedule, newest first
+ */
+export async function getReportScheduleRuns(scheduleId: number, limit: number = 50): Promise<ReportScheduleRun[]> {
+  const database = await getDb();
+  if (!database) return [];
+
+  return database
+    .select()
+    .from(reportScheduleRuns)
+    .where(eq(reportScheduleRuns.scheduleId, scheduleId))
+    .orderBy(desc(reportScheduleRuns.startedAt), desc(reportScheduleRuns.id))
+    .limit(limit);
+}
+
+let schedulerTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Start the report scheduler
+ * Checks for due reports and pending retries every minute
+ */
+export function startReportScheduler(): void {
+  if (schedulerTask) {
+    console.log('[ReportScheduler] Scheduler already running');
+    return;
+  }
+
+  schedulerTask = cron.schedule('* * * * *', async () => {
+    try {
+      await checkAndExecuteDueReports();
+    } catch (error) {
+      console.error('[ReportScheduler] Error checking due reports:', error);
+    }
+  }, {
+    name: 'report-scheduler',
+    noOverlap: true,
+  });
+
+  console.log('[ReportScheduler] Scheduler started');
+}
+
+/**
+ * Stop the report scheduler
+ */
+export function stopReportScheduler(): void {
+  if (schedulerTask) {
+    schedulerTask.stop();
+    schedulerTask = null;
+    console.log('[ReportScheduler] Scheduler stopped');
+  }
+}
@@ -0,0 +1,535 @@
+/**
+ * Retention Policy Service
+ * Applies data_retention_policies to each company: finds records past their retention
+ * cutoff, leaves anything under a project legal hold in place and, when enforcing,
+ * deletes the rest and records a certificate of disposal in data_disposal_requests.
+ * Dry runs only report what would be removed. Runs as part of the scheduled cleanup job.
+ */
+
+import { and, asc, count, desc, eq, inArray, isNotNull, isNull, lt, ne, notInArray, or, type SQL } from 'drizzle-orm';
+import { getDb } from '../db';
+import {
+  auditLogs,
+  chatbotFeedback,
+  chatbotSessions,
+  companies,
+  dataDisposalRequests,
+  dataRetentionPolicies,
+  photos,
+  projects,
+  users,
+  voiceRecordings,
+  type User,
+} from '../../drizzle/schema';
+import { createAuditLog } from '../auditLog';
+import { appendDisposalChainEntry, getDisposedChainLinks, sealAuditChains } from './auditChain.service';
+import type { AuditChainSource } from '../auditChain';
+import {
+  RETENTION_DATA_TYPE_LABELS,
+  buildDisposalCertificate,
+  getRetentionCutoff,
+  getRetentionDays,
+  hashDisposalCertificate,
+  resolveRetentionRules,
+  type DisposalCertificate,
+  type RetentionDataType,
+  type RetentionRecord,
+} from '../retentionPolicy';
+
+/** Records disposed per company and data type in one run; the rest wait for the next run */
+const MAX_RECORDS_PER_RULE = 5000;
+const DELETE_CHUNK_SIZE = 500;
+const REPORT_SAMPLE_SIZE = 50;
+
+interface CompanyScope {
+  id: number;
+  name: string;
+}
+
+interface RetentionCandidates {
+  records: RetentionRecord[];
+  heldCount: number;
+}
+
+interface RetentionHandler {
+  findCandidates: (company: CompanyScope, cutoff: string, limit: number) => Promise<RetentionCandidates>;
+  /** Deletes what it still may and returns the ids it actually deleted */
+  dispose: (ids: number[]) => Promise<number[]>;
+  /** Audit chain the records are sealed into, so the certificate can release their links */
+  chainSource?: AuditChainSource;
+}
+
+export interface RetentionRuleResult {
+  companyId: number;
+  companyName: string;
+  dataType: RetentionDataType;
+  policyId: number;
+  policyName: string;
+  retentionDays: number;
+  cutoff: string;
+  eligibleCount: number;
+  heldCount: number;
+  disposedCount: number;
+  /** More records are past retention than one run handles */
+  truncated: boolean;
+  sampleIds: number[];
+  certificateId: number | null;
+}
+
+export interface RetentionRunResult {
+  dryRun: boolean;
+  startedAt: string;
+  results: RetentionRuleResult[];
+  eligibleCount: number;
+  disposedCount: number;
+  heldCount: number;
+  errors: string[];
+}
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+  return db;
+}
+
+function toMySqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Run `remove` over the ids in chunks; returns the ids it reports deleted
+ */
+async function deleteInChunks(ids: number[], remove: (chunk: number[]) => Promise<number[]>): Promise<number[]> {
+  const deleted: number[] = [];
+  for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+    deleted.push(...await remove(ids.slice(i, i + DELETE_CHUNK_SIZE)));
+  }
+  return deleted;
+}
+
+async function getHeldProjectIds(company: CompanyScope): Promise<number[]> {
+  const db = await requireDb();
+  const held = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.company, company.name), eq(projects.legalHold, 1)));
+  return held.map(project => project.id);
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+const HANDLERS: Record<RetentionDataType, RetentionHandler> = {
+  deleted_projects: {
+    findCandidates: async (company, cutoff, limit) => {
+      const db = await requireDb();
+      const pastRetention = and(
+        eq(projects.company, company.name),
+        eq(projects.status, 'deleted'),
+        lt(projects.deletedAt, cutoff)
+      );
+      const rows = await db
+        .select({ id: projects.id, recordedAt: projects.deletedAt })
+        .from(projects)
+        .where(and(pastRetention, eq(projects.legalHold, 0)))
+        .orderBy(asc(projects.deletedAt))
+        .limit(limit);
+      const [{ held }] = await db
+        .select({ held: count() })
+        .from(projects)
+        .where(and(pastRetention, eq(projects.legalHold, 1)));
+
+      return { records: rows.map(row => ({ id: row.id, recordedAt: row.recordedAt ?? '' })), heldCount: held };
+    },
+    dispose: async ids => {
+      const db = await requireDb();
+      return deleteInChunks(ids, async chunk => {
+        // Re-check the hold so a hold placed during the run still protects the project
+        const unheld = await db
+          .select({ id: projects.id })
+          .from(projects)
+          .where(and(inArray(projects.id, chunk), eq(projects.legalHold, 0)));
+        const unheldIds = unheld.map(project => project.id);
+        if (unheldIds.length === 0) return [];
+
+        await db.delete(photos).where(inArray(photos.projectId, unheldIds));
+        await db.delete(projects).where(inArray(projects.id, unheldIds));
+        return unheldIds;
+      });
+    },
+  },
+
+  deleted_photos: {
+    findCandidates: async (company, cutoff, limit) => {
+      const db = await requireDb();
+      const pastRetention = and(
+        eq(projects.company, company.name),
+        isNotNull(photos.deletedAt),
+        lt(photos.deletedAt, cutoff)
+      );
+      const rows = await db
+        .select({ id: photos.id, recordedAt: photos.deletedAt, storageKey: photos.fileKey })
+        .from(photos)
+        .innerJoin(projects, eq(projects.id, photos.projectId))
+        .where(and(pastRetention, eq(projects.legalHold, 0)))
+        .orderBy(asc(photos.deletedAt))
+        .limit(limit);
+      const [{ held }] = await db
+        .select({ held: count() })
+        .from(photos)
+        .innerJoin(projects, eq(projects.id, photos.projectId))
+        .where(and(pastRetention, eq(projects.legalHold, 1)));
+
+      return { records: rows.map(row => ({ ...row, recordedAt: row.recordedAt ?? '' })), heldCount: held };
+    },
+    dispose: async ids => {
+      const db = await requireDb();
+      return deleteInChunks(ids, async chunk => {
+        // A photo restored, or whose project was put on hold, during the run is kept
+        const stillDeleted = await db
+          .select({ id: photos.id })
+          .from(photos)
+          .innerJoin(projects, eq(projects.id, photos.projectId))
+          .where(and(inArray(photos.id, chunk), isNotNull(photos.deletedAt), eq(projects.legalHold, 0)));
+        const deletedIds = stillDeleted.map(photo => photo.id);
+        if (deletedIds.length > 0) await db.delete(photos).where(inArray(photos.id, deletedIds));
+        return deletedIds;
+      });
+    },
+  },
+
+  voice_recordings: {
+    findCandidates: async (company, cutoff, limit) => {
+      const db = await requireDb();
+      const pastRetention = and(eq(voiceRecordings.companyId, company.id), lt(voiceRecordings.createdAt, cutoff));
+      // Recordings made for a project under legal hold are kept with the project
+      const rows = await db
+        .select({ id: voiceRecordings.id, recordedAt: voiceRecordings.createdAt, storageKey: voiceRecordings.fileKey })
+        .from(voiceRecordings)
+        .leftJoin(projects, eq(projects.id, voiceRecordings.projectId))
+        .where(and(pastRetention, or(isNull(projects.id), eq(projects.legalHold, 0))))
+        .orderBy(asc(voiceRecordings.createdAt))
+        .limit(limit);
+      const [{ held }] = await db
+        .select({ held: count() })
+        .from(voiceRecordings)
+        .innerJoin(projects, eq(projects.id, voiceRecordings.projectId))
+        .where(and(pastRetention, eq(projects.legalHold, 1)));
+
+      return { records: rows, heldCount: held };
+    },
+    dispose: async ids => {
+      const db = await requireDb();
+      return deleteInChunks(ids, async chunk => {
+        // Re-check the hold so a hold placed during the run still protects the recording
+        const existing = await db
+          .select({ id: voiceRecordings.id })
+          .from(voiceRecordings)
+          .leftJoin(projects, eq(projects.id, voiceRecordings.projectId))
+          .where(and(inArray(voiceRecordings.id, chunk), or(isNull(projects.id), eq(projects.legalHold, 0))));
+        const existingIds = existing.map(recording => recording.id);
+        if (existingIds.length > 0) await db.delete(voiceRecordings).where(inArray(voiceRecordings.id, existingIds));
+        return existingIds;
+      });
+    },
+  },
+
+  chatbot_sessions: {
+    findCandidates: async (company, cutoff, limit) => {
+      const db = await requireDb();
+      // Sessions follow the company of the user who owns them; retention runs from the last message
+      const rows = await db
+        .select({ id: chatbotSessions.id, recordedAt: chatbotSessions.updatedAt })
+        .from(chatbotSessions)
+        .innerJoin(users, eq(users.id, chatbotSessions.userId))
+        .where(and(eq(users.companyId, company.id), lt(chatbotSessions.updatedAt, cutoff)))
+        .orderBy(asc(chatbotSessions.updatedAt))
+        .limit(limit);
+
+      return { records: rows, heldCount: 0 };
+    },
+    dispose: async ids => {
+      const db = await requireDb();
+      return deleteInChunks(ids, async chunk => {
+        const existing = await db.select({ id: chatbotSessions.id }).from(chatbotSessions).where(inArray(chatbotSessions.id, chunk));
+        const existingIds = existing.map(session => session.id);
+        if (existingIds.length === 0) return [];
+
+        await db.delete(chatbotFeedback).where(inArray(chatbotFeedback.sessionId, existingIds));
+        await db.delete(chatbotSessions).where(inArray(chatbotSessions.id, existingIds));
+        return existingIds;
+      });
+    },
+  },
+
+  audit_logs: {
+    findCandidates: async (company, cutoff, limit) => {
+      const db = await requireDb();
+      const heldProjectIds = await getHeldProjectIds(company);
+      const pastRetention = and(eq(auditLogs.companyId, company.id), lt(auditLogs.timestamp, cutoff));
+      // Entries about a project under legal hold are kept with the project
+      const notHeld: SQL | undefined = heldProjectIds.length > 0
+        ? or(ne(auditLogs.entityType, 'project'), isNull(auditLogs.entityId), notInArray(auditLogs.entityId, heldProjectIds))
+        : undefined;
+
+      const rows = await db
+        .select({ id: auditLogs.id, recordedAt: auditLogs.timestamp })
+        .from(auditLogs)
+        .where(and(pastRetention, notHeld))
+        .orderBy(asc(auditLogs.id))
+        .limit(limit);
+
+      let heldCount = 0;
+      if (heldProjectIds.length > 0) {
+        const [{ held }] = await db
+          .select({ held: count() })
+          .from(auditLogs)
+          .where(and(pastRetention, eq(auditLogs.entityType, 'project'), inArray(auditLogs.entityId, heldProjectIds)));
+        heldCount = held;
+      }
+
+      return { records: rows, heldCount };
+    },
+    dispose: async ids => {
+      const db = await requireDb();
+      return deleteInChunks(ids, async chunk => {
+        const existing = await db.select({ id: auditLogs.id }).from(auditLogs).where(inArray(auditLogs.id, chunk));
+        const existingIds = existing.map(entry => entry.id);
+        if (existingIds.length > 0) await db.delete(auditLogs).where(inArray(auditLogs.id, existingIds));
+        return existingIds;
+      });
+    },
+    chainSource: 'audit_logs',
+  },
+};
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+async function recordDisposal(
+  company: CompanyScope,
+  rule: RetentionRuleResult,
+  certificate: DisposalCertificate,
+  requestedBy: number
+): Promise<number> {
+  const db = await requireDb();
+  const now = toMySqlTimestamp(new Date(certificate.disposedAt));
+  const pendingPurge = certificate.storageKeysPendingPurge.length;
+  const verificationHash = hashDisposalCertificate(certificate);
+
+  const result = await db.insert(dataDisposalRequests).values({
+    requestType: 'retention_policy',
+    targetId: rule.policyId,
+    targetType: rule.dataType,
+    companyId: company.id,
+    requestedBy,
+    status: 'completed',
+    reason: `${rule.policyName}: ${RETENTION_DATA_TYPE_LABELS[rule.dataType].toLowerCase()} older than ${rule.retentionDays} days`,
+    disposalMethod: 'retention_policy',
+    verificationHash,
+    certificate,
+    approvedAt: now,
+    completedAt: now,
+    notes: pendingPurge > 0 ? `${pendingPurge} storage objects pending purge` : null,
+  });
+  const certificateId = Number(result[0].insertId);
+
+  // Chaining the certificate is what lets verification accept the missing audit entries
+  if (certificate.chainLinks && certificate.chainLinks.length > 0) {
+    await appendDisposalChainEntry(company.id, certificateId, verificationHash);
+  }
+
+  await createAuditLog({
+    companyId: company.id,
+    actionType: 'bulk_delete',
+    entityType: 'company',
+    entityId: company.id,
+    entityName: company.name,
+    module: 'retention',
+    changesSummary: `Disposed ${certificate.recordCount} ${RETENTION_DATA_TYPE_LABELS[rule.dataType].toLowerCase()} under retention policy "${rule.policyName}"`,
+    metadata: { dataType: rule.dataType, policyId: rule.policyId, certificateId, cutoff: rule.cutoff },
+  });
+
+  return certificateId;
+}
+
+/**
+ * Apply every active retention policy to every company
+ * With dryRun nothing is deleted and no certificates are written; the result lists what
+ * would be disposed. Failures are collected per company and data type so one bad rule
+ * doesn't stop the rest.
+ */
+export async function runRetentionPolicies(options: {
+  dryRun: boolean;
+  cleanupReportId?: number | null;
+  now?: Date;
+}): Promise<RetentionRunResult> {
+  const db = await requireDb();
+  const now = options.now ?? new Date();
+  const run: RetentionRunResult = {
+    dryRun: options.dryRun,
+    startedAt: now.toISOString(),
+    results: [],
+    eligibleCount: 0,
+    disposedCount: 0,
+    heldCount: 0,
+    errors: [],
+  };
+
+  const policies = await db.select().from(dataRetentionPolicies).where(eq(dataRetentionPolicies.isActive, 1));
+  if (policies.length === 0) return run;
+
+  // Seal pending audit rows first so disposed entries stay accounted for in the chain
+  if (!options.dryRun) await sealAuditChains();
+
+  const companyList = await db.select({ id: companies.id, name: companies.name }).from(companies).orderBy(asc(companies.id));
+
+  for (const company of companyList) {
+    for (const [dataType, policy] of Array.from(resolveRetentionRules(policies, company.id).entries())) {
+      try {
+        const cutoff = getRetentionCutoff(policy, now);
+        const candidates = await HANDLERS[dataType].findCandidates(company, toMySqlTimestamp(cutoff), MAX_RECORDS_PER_RULE + 1);
+        const records = candidates.records.slice(0, MAX_RECORDS_PER_RULE);
+
+        const rule: RetentionRuleResult = {
+          companyId: company.id,
+          companyName: company.name,
+          dataType,
+          policyId: policy.id,
+          policyName: policy.policyName,
+          retentionDays: getRetentionDays(policy),
+          cutoff: cutoff.toISOString(),
+          eligibleCount: records.length,
+          heldCount: candidates.heldCount,
+          disposedCount: 0,
+          truncated: candidates.records.length > MAX_RECORDS_PER_RULE,
+          sampleIds: records.slice(0, REPORT_SAMPLE_SIZE).map(record => record.id),
+          certificateId: null,
+        };
+
+        if (!options.dryRun && records.length > 0) {
+          const handler = HANDLERS[dataType];
+          // Records put on hold or restored during the run are kept, so only what was deleted is certified
+          const deletedIds = await handler.dispose(records.map(record => record.id));
+          const deleted = new Set(deletedIds);
+          const disposed = records.filter(record => deleted.has(record.id));
+          rule.disposedCount = disposed.length;
+
+          if (disposed.length > 0) {
+            const certificate = buildDisposalCertificate({
+              companyId: company.id,
+              companyName: company.name,
+              dataType,
+              policy,
+              cutoff,
+              disposedAt: new Date(),
+              cleanupReportId: options.cleanupReportId ?? null,
+              records: disposed,
+              chainLinks: handler.chainSource
+                ? await getDisposedChainLinks(company.id, handler.chainSource, deletedIds)
+                : undefined,
+            });
+            rule.certificateId = await recordDisposal(company, rule, certificate, policy.createdBy);
+          }
+        }
+
+        if (rule.eligibleCount > 0 || rule.heldCount > 0) run.results.push(rule);
+        run.eligibleCount += rule.eligibleCount;
+        run.disposedCount += rule.disposedCount;
+        run.heldCount += rule.heldCount;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Retention] ${company.name} / ${dataType} failed:`, message);
+        run.errors.push(`${company.name} / ${dataType}: ${message}`);
+      }
+    }
+  }
+
+  return run;
+}
+
+// ============================================================================
+// Legal holds and certificates
+// ============================================================================
+
+/**
+ * Place or release a legal hold; held projects, their photos, voice recordings and audit entries
+ * are skipped by every retention policy. With companyName, only that company's projects
+ * are found.
+ */
+export async function setProjectLegalHold(
+  projectId: number,
+  hold: boolean,
+  reason: string | null,
+  user: User,
+  companyName?: string | null
+) {
+  const db = await requireDb();
+  const [project] = await db
+    .select({ id: projects.id, name: projects.name, company: projects.company, legalHold: projects.legalHold })
+    .from(projects)
+    .where(and(eq(projects.id, projectId), companyName ? eq(projects.company, companyName) : undefined))
+    .limit(1);
+  if (!project) return null;
+
+  await db
+    .update(projects)
+    .set(hold
+      ? { legalHold: 1, legalHoldReason: reason, legalHoldBy: user.id, legalHoldAt: toMySqlTimestamp(new Date()) }
+      : { legalHold: 0, legalHoldReason: null, legalHoldBy: null, legalHoldAt: null })
+    .where(eq(projects.id, projectId));
+
+  await createAuditLog({
+    user,
+    actionType: 'update',
+    entityType: 'project',
+    entityId: project.id,
+    entityName: project.name,
+    module: 'retention',
+    beforeState: { legalHold: project.legalHold },
+    afterState: { legalHold: hold ? 1 : 0, legalHoldReason: reason },
+    changesSummary: hold ? `Placed legal hold${reason ? `: ${reason}` : ''}` : 'Released legal hold',
+  });
+
+  return { ...project, legalHold: hold ? 1 : 0 };
+}
+
+export async function getLegalHolds(companyName?: string | null) {
+  const db = await requireDb();
+  return db
+    .select({
+      id: projects.id,
+      name: projects.name,
+      company: projects.company,
+      status: projects.status,
+      legalHoldReason: projects.legalHoldReason,
+      legalHoldBy: projects.legalHoldBy,
+      legalHoldAt: projects.legalHoldAt,
+    })
+    .from(projects)
+    .where(and(eq(projects.legalHold, 1), companyName ? eq(projects.company, companyName) : undefined))
+    .orderBy(desc(projects.legalHoldAt));
+}
+
+/**
+ * Certificate of disposal with a check that it still matches its recorded hash
+ */
+export async function getDisposalCertificate(requestId: number) {
+  const db = await requireDb();
+  const [request] = await db
+    .select()
+    .from(dataDisposalRequests)
+    .where(and(eq(dataDisposalRequests.id, requestId), eq(dataDisposalRequests.requestType, 'retention_policy')))
+    .limit(1);
+  if (!request?.certificate) return null;
+
+  const certificate = request.certificate as DisposalCertificate;
+  return {
+    requestId: request.id,
+    certificate,
+    verificationHash: request.verificationHash,
+    verified: hashDisposalCertificate(certificate) === request.verificationHash,
+  };
+}
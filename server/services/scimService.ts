@@ -0,0 +1,803 @@
+/**
+ * SCIM Provisioning Service
+ * Per-company bearer tokens for /api/scim/v2 and the provisioning operations behind it.
+ * Users are created, updated and deactivated in users and company_users, SCIM groups map
+ * to company roles, and every change is written to audit_logs.
+ */
+
+import crypto from 'crypto';
+import { and, asc, count, eq, inArray, ne, or, sql, type SQL } from 'drizzle-orm';
+import { getDb } from '../db';
+import {
+  companies,
+  companyUsers,
+  scimGroupMembers,
+  scimGroups,
+  scimTokens,
+  users,
+  type InsertUser,
+  type ScimToken,
+  type User,
+} from '../../drizzle/schema';
+import { createAuditLog } from '../auditLog';
+import type { CompanyRole } from '../accessPolicy';
+import {
+  ScimError,
+  formatMemberName,
+  getSignInEmail,
+  inferGroupRole,
+  resolveRoleFromGroups,
+  toPlatformRole,
+  type ScimFilter,
+  type ScimGroupAttributes,
+  type ScimGroupRecord,
+  type ScimMemberRecord,
+  type ScimUserAttributes,
+} from '../scim';
+
+export const SCIM_TOKEN_PREFIX = 'scim_';
+export const SCIM_TOKEN_LOOKUP_LENGTH = 12;
+
+export const USER_FILTER_ATTRIBUTES = ['id', 'userName', 'externalId', 'emails.value'] as const;
+export const GROUP_FILTER_ATTRIBUTES = ['id', 'displayName', 'externalId'] as const;
+
+export interface AuthenticatedScimToken {
+  id: number;
+  companyId: number;
+  companyName: string;
+  companyCity: string | null;
+  name: string;
+  tokenPrefix: string;
+  createdBy: number | null; // Recorded as the inviter of provisioned members
+}
+
+export type ScimTokenFailureReason = 'missing' | 'malformed' | 'unknown' | 'revoked';
+
+/**
+ * Caller details recorded with each provisioning change
+ */
+export interface ScimRequestContext {
+  token: AuthenticatedScimToken;
+  ipAddress?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+export interface ScimRoleChange {
+  userId: number;
+  from: CompanyRole;
+  to: CompanyRole;
+}
+
+// ============================================================================
+// Token material
+// ============================================================================
+
+/**
+ * Generate a new raw SCIM token ("scim_" followed by 48 hex characters)
+ */
+export function generateScimToken(): string {
+  return `${SCIM_TOKEN_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function hashScimToken(rawToken: string): string {
+  return crypto.createHash('sha256').update(rawToken).digest('hex');
+}
+
+export function getScimTokenLookupPrefix(rawToken: string): string {
+  return rawToken.slice(0, SCIM_TOKEN_LOOKUP_LENGTH);
+}
+
+export function isWellFormedScimToken(rawToken: string): boolean {
+  return new RegExp(`^${SCIM_TOKEN_PREFIX}[0-9a-f]{48}$`).test(rawToken);
+}
+
+/**
+ * Read the raw token from an "Authorization: Bearer" header
+ */
+export function extractBearerToken(authorization: string | string[] | undefined): string | null {
+  const value = Array.isArray(authorization) ? authorization[0] : authorization;
+  const match = value?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+export function getScimTokenStatus(token: Pick<ScimToken, 'revokedAt'>): 'active' | 'revoked' {
+  return token.revokedAt ? 'revoked' : 'active';
+}
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+  return db;
+}
+
+/**
+ * Resolve a raw bearer token to the company it provisions
+ */
+export async function authenticateScimToken(
+  rawToken: string | null,
+  ipAddress?: string
+): Promise<{ token: AuthenticatedScimToken } | { error: ScimTokenFailureReason }> {
+  if (!rawToken) return { error: 'missing' };
+  if (!isWellFormedScimToken(rawToken)) return { error: 'malformed' };
+
+  const db = await requireDb();
+  const candidates = await db
+    .select()
+    .from(scimTokens)
+    .where(eq(scimTokens.tokenPrefix, getScimTokenLookupPrefix(rawToken)));
+
+  const expected = Buffer.from(hashScimToken(rawToken), 'hex');
+  const match = candidates.find(candidate =>
+    crypto.timingSafeEqual(Buffer.from(candidate.tokenHash, 'hex'), expected)
+  );
+  if (!match) return { error: 'unknown' };
+  if (getScimTokenStatus(match) !== 'active') return { error: 'revoked' };
+
+  const [company] = await db
+    .select({ name: companies.name, city: companies.city })
+    .from(companies)
+    .where(eq(companies.id, match.companyId))
+    .limit(1);
+  if (!company) return { error: 'unknown' };
+
+  // Usage tracking is best-effort and must not fail the request
+  db.update(scimTokens)
+    .set({ lastUsedAt: sql`CURRENT_TIMESTAMP`, lastUsedIp: ipAddress ?? null })
+    .where(eq(scimTokens.id, match.id))
+    .catch(error => console.error('[SCIM] Failed to record token usage:', error));
+
+  return {
+    token: {
+      id: match.id,
+      companyId: match.companyId,
+      companyName: company.name,
+      companyCity: company.city,
+      name: match.name,
+      tokenPrefix: match.tokenPrefix,
+      createdBy: match.createdBy,
+    },
+  };
+}
+
+function audit(
+  ctx: ScimRequestContext,
+  entry: Pick<Parameters<typeof createAuditLog>[0], 'actionType' | 'entityType' | 'entityId' | 'entityName' | 'beforeState' | 'afterState' | 'changesSummary'> & { metadata?: Record<string, unknown> }
+) {
+  return createAuditLog({
+    ...entry,
+    companyId: ctx.token.companyId,
+    module: 'scim',
+    status: 'success',
+    ipAddress: ctx.ipAddress,
+    userAgent: ctx.userAgent,
+    requestId: ctx.requestId,
+    metadata: { ...entry.metadata, scimTokenId: ctx.token.id, scimTokenName: ctx.token.name },
+  });
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+const memberColumns = {
+  userId: users.id,
+  name: users.name,
+  email: users.email,
+  accountStatus: users.accountStatus,
+  homeCompanyId: users.companyId,
+  role: users.role,
+  membershipId: companyUsers.id,
+  status: companyUsers.status,
+  externalId: companyUsers.scimExternalId,
+  createdAt: companyUsers.createdAt,
+  updatedAt: companyUsers.updatedAt,
+};
+
+type MemberRow = {
+  userId: number;
+  name: string | null;
+  email: string | null;
+  accountStatus: User['accountStatus'];
+  homeCompanyId: number | null;
+  membershipId: number;
+  status: 'active' | 'inactive' | 'pending';
+  externalId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+function isActiveMember(row: Pick<MemberRow, 'status' | 'accountStatus'>): boolean {
+  return row.status === 'active' && row.accountStatus !== 'suspended';
+}
+
+function userFilterCondition(filter: ScimFilter): SQL {
+  switch (filter.attribute) {
+    case 'id':
+      return eq(users.id, /^\d+$/.test(filter.value) ? Number(filter.value) : 0);
+    case 'externalId':
+      return eq(companyUsers.scimExternalId, filter.value);
+    default:
+      return eq(users.email, filter.value.trim().toLowerCase());
+  }
+}
+
+async function attachGroups(companyId: number, rows: MemberRow[]): Promise<ScimMemberRecord[]> {
+  if (rows.length === 0) return [];
+
+  const db = await requireDb();
+  const memberships = await db
+    .select({ userId: scimGroupMembers.userId, id: scimGroups.id, displayName: scimGroups.displayName })
+    .from(scimGroupMembers)
+    .innerJoin(scimGroups, eq(scimGroupMembers.groupId, scimGroups.id))
+    .where(and(
+      eq(scimGroups.companyId, companyId),
+      inArray(scimGroupMembers.userId, rows.map(row => row.userId))
+    ));
+
+  return rows.map(row => ({
+    userId: row.userId,
+    name: row.name,
+    email: row.email,
+    externalId: row.externalId,
+    active: isActiveMember(row),
+    groups: memberships
+      .filter(membership => membership.userId === row.userId)
+      .map(({ id, displayName }) => ({ id, displayName })),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }));
+}
+
+async function getMemberRow(companyId: number, userId: number): Promise<MemberRow | undefined> {
+  const db = await requireDb();
+  const [row] = await db
+    .select(memberColumns)
+    .from(companyUsers)
+    .innerJoin(users, eq(companyUsers.userId, users.id))
+    .where(and(eq(companyUsers.companyId, companyId), eq(companyUsers.userId, userId)))
+    .limit(1);
+  return row;
+}
+
+async function requireMemberRow(companyId: number, userId: number): Promise<MemberRow> {
+  const row = await getMemberRow(companyId, userId);
+  if (!row) throw new ScimError(404, `User ${userId} not found`);
+  return row;
+}
+
+/**
+ * Members of the company, optionally narrowed by a filter; startIndex is 1-based
+ */
+export async function listScimUsers(
+  companyId: number,
+  filter: ScimFilter | null,
+  page: { startIndex: number; count: number }
+): Promise<{ total: number; members: ScimMemberRecord[] }> {
+  const db = await requireDb();
+  const where = and(eq(companyUsers.companyId, companyId), filter ? userFilterCondition(filter) : undefined);
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(companyUsers)
+    .innerJoin(users, eq(companyUsers.userId, users.id))
+    .where(where);
+
+  const rows = page.count === 0 ? [] : await db
+    .select(memberColumns)
+    .from(companyUsers)
+    .innerJoin(users, eq(companyUsers.userId, users.id))
+    .where(where)
+    .orderBy(asc(users.id))
+    .limit(page.count)
+    .offset(page.startIndex - 1);
+
+  return { total, members: await attachGroups(companyId, rows) };
+}
+
+export async function getScimUser(companyId: number, userId: number): Promise<ScimMemberRecord | null> {
+  const row = await getMemberRow(companyId, userId);
+  if (!row) return null;
+  const [member] = await attachGroups(companyId, [row]);
+  return member;
+}
+
+/**
+ * Reject activating a member once the company is at its seat limit
+ */
+async function assertSeatAvailable(companyId: number): Promise<void> {
+  const db = await requireDb();
+  const [company] = await db
+    .select({ maxUsers: companies.maxUsers })
+    .from(companies)
+    .where(eq(companies.id, companyId))
+    .limit(1);
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(companyUsers)
+    .where(and(eq(companyUsers.companyId, companyId), eq(companyUsers.status, 'active')));
+
+  const maxUsers = company?.maxUsers ?? 100;
+  if (total >= maxUsers) {
+    throw new ScimError(403, `Company has reached its maximum user limit of ${maxUsers}`);
+  }
+}
+
+/**
+ * Provision a member: reuse an unaffiliated account with the same email or create one,
+ * then add it to the company as a viewer until group memberships assign a role.
+ * Platform admins and accounts naming another company are never linked.
+ */
+export async function createScimUser(ctx: ScimRequestContext, attributes: ScimUserAttributes): Promise<ScimMemberRecord> {
+  const db = await requireDb();
+  const { companyId, companyName } = ctx.token;
+  const email = getSignInEmail(attributes);
+  const name = formatMemberName(attributes);
+  // SAML sign-in with an email NameID derives the same openId, so the first login lands on this row
+  const openId = `saml:${email}`;
+
+  const [existing] = await db
+    .select()
+    .from(users)
+    .where(or(eq(users.email, email), eq(users.openId, openId)))
+    .limit(1);
+
+  if (existing) {
+    if (await getMemberRow(companyId, existing.id)) {
+      throw new ScimError(409, `User ${email} is already provisioned`, 'uniqueness');
+    }
+    if (
+      (existing.companyId && existing.companyId !== companyId) ||
+      (!existing.companyId && existing.company && existing.company !== companyName)
+    ) {
+      throw new ScimError(409, `User ${email} belongs to another company`, 'uniqueness');
+    }
+    if (existing.role === 'admin' || existing.isSuperAdmin === 1) {
+      throw new ScimError(409, `User ${email} is a platform administrator and cannot be provisioned via SCIM`, 'uniqueness');
+    }
+  }
+  if (attributes.active) await assertSeatAvailable(companyId);
+
+  const accountStatus = attributes.active ? 'active' as const : 'suspended' as const;
+  let userId: number;
+  if (existing) {
+    await db
+      .update(users)
+      .set({ name, email, company: companyName, companyId, accountStatus })
+      .where(eq(users.id, existing.id));
+    userId = existing.id;
+  } else {
+    const result = await db.insert(users).values({
+      openId,
+      name,
+      email,
+      loginMethod: 'saml',
+      role: toPlatformRole('viewer'),
+      company: companyName,
+      companyId,
+      city: ctx.token.companyCity,
+      accountStatus,
+    });
+    userId = Number(result[0].insertId);
+  }
+
+  await db.insert(companyUsers).values({
+    companyId,
+    userId,
+    companyRole: 'viewer',
+    status: attributes.active ? 'active' : 'inactive',
+    scimExternalId: attributes.externalId,
+    invitedBy: ctx.token.createdBy,
+  });
+
+  await audit(ctx, {
+    actionType: 'create',
+    entityType: 'user',
+    entityId: userId,
+    entityName: name,
+    afterState: { email, name, active: attributes.active, externalId: attributes.externalId },
+    changesSummary: `Provisioned ${email} via SCIM${existing ? ' (linked existing account)' : ''}`,
+  });
+
+  return (await getScimUser(companyId, userId))!;
+}
+
+/**
+ * Apply a member's full attribute set (PUT, or the result of a PATCH)
+ * Name, email and account status are only written when this company is the
+ * member's home company; for other members only the membership changes.
+ */
+export async function updateScimUser(
+  ctx: ScimRequestContext,
+  userId: number,
+  attributes: ScimUserAttributes
+): Promise<ScimMemberRecord> {
+  const db = await requireDb();
+  const { companyId } = ctx.token;
+  const row = await requireMemberRow(companyId, userId);
+  const isHomeCompany = row.homeCompanyId === companyId;
+  const email = isHomeCompany ? getSignInEmail(attributes) : row.email ?? '';
+  const name = isHomeCompany ? formatMemberName(attributes) : row.name ?? '';
+
+  if (isHomeCompany && email !== row.email?.toLowerCase()) {
+    const [taken] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.email, email), ne(users.id, userId)))
+      .limit(1);
+    if (taken) throw new ScimError(409, `Another user already uses ${email}`, 'uniqueness');
+  }
+
+  const wasActive = isActiveMember(row);
+  if (attributes.active && row.status !== 'active') await assertSeatAvailable(companyId);
+
+  if (isHomeCompany) {
+    const userUpdates: Partial<InsertUser> = { name, email };
+    if (attributes.active !== wasActive) {
+      userUpdates.accountStatus = attributes.active ? 'active' : 'suspended';
+    }
+    await db.update(users).set(userUpdates).where(eq(users.id, userId));
+  }
+  await db
+    .update(companyUsers)
+    .set({
+      status: attributes.active ? 'active' : 'inactive',
+      scimExternalId: attributes.externalId,
+      updatedAt: sql`CURRENT_TIMESTAMP`,
+    })
+    .where(eq(companyUsers.id, row.membershipId));
+
+  const summary = attributes.active === wasActive
+    ? `Updated ${email} via SCIM`
+    : `${attributes.active ? 'Reactivated' : 'Deactivated'} ${email} via SCIM`;
+
+  await audit(ctx, {
+    actionType: 'update',
+    entityType: 'user',
+    entityId: userId,
+    entityName: name,
+    beforeState: { email: row.email, name: row.name, active: wasActive, externalId: row.externalId },
+    afterState: { email, name, active: attributes.active, externalId: attributes.externalId },
+    changesSummary: summary,
+  });
+
+  return (await getScimUser(companyId, userId))!;
+}
+
+/**
+ * Deprovision a member: drop their company membership and SCIM group memberships
+ * The users row is kept (suspended if this was their home company) for the audit trail
+ */
+export async function deleteScimUser(ctx: ScimRequestContext, userId: number): Promise<void> {
+  const db = await requireDb();
+  const { companyId } = ctx.token;
+  const row = await requireMemberRow(companyId, userId);
+
+  const groupIds = (await db
+    .select({ id: scimGroups.id })
+    .from(scimGroups)
+    .where(eq(scimGroups.companyId, companyId))).map(group => group.id);
+  if (groupIds.length > 0) {
+    await db
+      .delete(scimGroupMembers)
+      .where(and(eq(scimGroupMembers.userId, userId), inArray(scimGroupMembers.groupId, groupIds)));
+  }
+
+  await db.delete(companyUsers).where(eq(companyUsers.id, row.membershipId));
+  if (row.homeCompanyId === companyId) {
+    await db.update(users).set({ accountStatus: 'suspended' }).where(eq(users.id, userId));
+  }
+
+  await audit(ctx, {
+    actionType: 'delete',
+    entityType: 'user',
+    entityId: userId,
+    entityName: row.name,
+    beforeState: { email: row.email, name: row.name, active: isActiveMember(row), externalId: row.externalId },
+    changesSummary: `Deprovisioned ${row.email ?? `user ${userId}`} via SCIM`,
+  });
+}
+
+// ============================================================================
+// Groups and roles
+// ============================================================================
+
+/**
+ * Recompute company roles for the given members from the SCIM groups they belong to
+ * Members the IdP has not put in any group fall back to viewer
+ */
+export async function syncMemberRoles(companyId: number, userIds: number[]): Promise<ScimRoleChange[]> {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) return [];
+
+  const db = await requireDb();
+  const memberships = await db
+    .select({
+      membershipId: companyUsers.id,
+      userId: companyUsers.userId,
+      companyRole: companyUsers.companyRole,
+      homeCompanyId: users.companyId,
+      role: users.role,
+    })
+    .from(companyUsers)
+    .innerJoin(users, eq(companyUsers.userId, users.id))
+    .where(and(eq(companyUsers.companyId, companyId), inArray(companyUsers.userId, ids)));
+
+  const groupRoles = await db
+    .select({ userId: scimGroupMembers.userId, companyRole: scimGroups.companyRole })
+    .from(scimGroupMembers)
+    .innerJoin(scimGroups, eq(scimGroupMembers.groupId, scimGroups.id))
+    .where(and(eq(scimGroups.companyId, companyId), inArray(scimGroupMembers.userId, ids)));
+
+  const changes: ScimRoleChange[] = [];
+  for (const membership of memberships) {
+    const role = resolveRoleFromGroups(
+      groupRoles.filter(group => group.userId === membership.userId).map(group => group.companyRole)
+    );
+    if (role === membership.companyRole) continue;
+
+    await db
+      .update(companyUsers)
+      .set({ companyRole: role, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(companyUsers.id, membership.membershipId));
+
+    // Platform admins keep their global role; it is never granted or removed over SCIM
+    if (membership.homeCompanyId === companyId && membership.role !== 'admin') {
+      await db.update(users).set({ role: toPlatformRole(role) }).where(eq(users.id, membership.userId));
+    }
+    changes.push({ userId: membership.userId, from: membership.companyRole, to: role });
+  }
+  return changes;
+}
+
+function groupFilterCondition(filter: ScimFilter): SQL {
+  switch (filter.attribute) {
+    case 'id':
+      return eq(scimGroups.id, /^\d+$/.test(filter.value) ? Number(filter.value) : 0);
+    case 'externalId':
+      return eq(scimGroups.externalId, filter.value);
+    default:
+      return eq(scimGroups.displayName, filter.value);
+  }
+}
+
+async function loadGroups(
+  companyId: number,
+  condition: SQL | undefined,
+  page?: { startIndex: number; count: number }
+): Promise<ScimGroupRecord[]> {
+  const db = await requireDb();
+  const query = db
+    .select()
+    .from(scimGroups)
+    .where(and(eq(scimGroups.companyId, companyId), condition))
+    .orderBy(asc(scimGroups.id));
+  const groups = page ? await query.limit(page.count).offset(page.startIndex - 1) : await query;
+  if (groups.length === 0) return [];
+
+  const members = await db
+    .select({ groupId: scimGroupMembers.groupId, userId: scimGroupMembers.userId, name: users.name })
+    .from(scimGroupMembers)
+    .innerJoin(users, eq(scimGroupMembers.userId, users.id))
+    .where(inArray(scimGroupMembers.groupId, groups.map(group => group.id)));
+
+  return groups.map(group => ({
+    id: group.id,
+    displayName: group.displayName,
+    externalId: group.externalId,
+    companyRole: group.companyRole,
+    members: members
+      .filter(member => member.groupId === group.id)
+      .map(({ userId, name }) => ({ userId, name })),
+    createdAt: group.createdAt,
+    updatedAt: group.updatedAt,
+  }));
+}
+
+export async function listScimGroups(
+  companyId: number,
+  filter: ScimFilter | null,
+  page: { startIndex: number; count: number }
+): Promise<{ total: number; groups: ScimGroupRecord[] }> {
+  const db = await requireDb();
+  const condition = filter ? groupFilterCondition(filter) : undefined;
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(scimGroups)
+    .where(and(eq(scimGroups.companyId, companyId), condition));
+
+  const groups = page.count === 0 ? [] : await loadGroups(companyId, condition, page);
+  return { total, groups };
+}
+
+export async function getScimGroup(companyId: number, groupId: number): Promise<ScimGroupRecord | null> {
+  const [group] = await loadGroups(companyId, eq(scimGroups.id, groupId));
+  return group ?? null;
+}
+
+/**
+ * All of a company's SCIM groups, for the role mapping screen
+ */
+export async function getCompanyScimGroups(companyId: number): Promise<ScimGroupRecord[]> {
+  return loadGroups(companyId, undefined);
+}
+
+async function requireGroup(companyId: number, groupId: number): Promise<ScimGroupRecord> {
+  const group = await getScimGroup(companyId, groupId);
+  if (!group) throw new ScimError(404, `Group ${groupId} not found`);
+  return group;
+}
+
+async function assertDisplayNameAvailable(companyId: number, displayName: string, exceptGroupId?: number) {
+  const db = await requireDb();
+  const [taken] = await db
+    .select({ id: scimGroups.id })
+    .from(scimGroups)
+    .where(and(
+      eq(scimGroups.companyId, companyId),
+      eq(scimGroups.displayName, displayName),
+      exceptGroupId ? ne(scimGroups.id, exceptGroupId) : undefined
+    ))
+    .limit(1);
+  if (taken) throw new ScimError(409, `Group "${displayName}" already exists`, 'uniqueness');
+}
+
+/**
+ * Group members must already be provisioned into the company
+ */
+async function assertMembersBelong(companyId: number, memberIds: number[]) {
+  if (memberIds.length === 0) return;
+
+  const db = await requireDb();
+  const found = await db
+    .select({ userId: companyUsers.userId })
+    .from(companyUsers)
+    .where(and(eq(companyUsers.companyId, companyId), inArray(companyUsers.userId, memberIds)));
+
+  const unknown = memberIds.filter(id => !found.some(row => row.userId === id));
+  if (unknown.length > 0) {
+    throw new ScimError(400, `Unknown group members: ${unknown.join(', ')}`, 'invalidValue');
+  }
+}
+
+export async function createScimGroup(ctx: ScimRequestContext, attributes: ScimGroupAttributes): Promise<ScimGroupRecord> {
+  const db = await requireDb();
+  const { companyId } = ctx.token;
+  await assertDisplayNameAvailable(companyId, attributes.displayName);
+  await assertMembersBelong(companyId, attributes.memberIds);
+
+  const companyRole = inferGroupRole(attributes.displayName);
+  const result = await db.insert(scimGroups).values({
+    companyId,
+    displayName: attributes.displayName,
+    externalId: attributes.externalId,
+    companyRole,
+  });
+  const groupId = Number(result[0].insertId);
+
+  if (attributes.memberIds.length > 0) {
+    await db.insert(scimGroupMembers).values(attributes.memberIds.map(userId => ({ groupId, userId })));
+  }
+  const roleChanges = await syncMemberRoles(companyId, attributes.memberIds);
+
+  await audit(ctx, {
+    actionType: 'create',
+    entityType: 'company',
+    entityId: companyId,
+    entityName: ctx.token.companyName,
+    afterState: { displayName: attributes.displayName, companyRole, memberIds: attributes.memberIds },
+    changesSummary: `SCIM group "${attributes.displayName}" created, mapped to ${companyRole}`,
+    metadata: { scimGroupId: groupId, roleChanges },
+  });
+
+  return requireGroup(companyId, groupId);
+}
+
+/**
+ * Apply a group's full attribute set (PUT, or the result of a PATCH)
+ */
+export async function updateScimGroup(
+  ctx: ScimRequestContext,
+  groupId: number,
+  attributes: ScimGroupAttributes
+): Promise<ScimGroupRecord> {
+  const db = await requireDb();
+  const { companyId } = ctx.token;
+  const group = await requireGroup(companyId, groupId);
+
+  if (attributes.displayName !== group.displayName) {
+    await assertDisplayNameAvailable(companyId, attributes.displayName, groupId);
+  }
+  await assertMembersBelong(companyId, attributes.memberIds);
+
+  const currentIds = group.members.map(member => member.userId);
+  const added = attributes.memberIds.filter(id => !currentIds.includes(id));
+  const removed = currentIds.filter(id => !attributes.memberIds.includes(id));
+
+  await db
+    .update(scimGroups)
+    .set({ displayName: attributes.displayName, externalId: attributes.externalId, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(scimGroups.id, groupId));
+  if (removed.length > 0) {
+    await db
+      .delete(scimGroupMembers)
+      .where(and(eq(scimGroupMembers.groupId, groupId), inArray(scimGroupMembers.userId, removed)));
+  }
+  if (added.length > 0) {
+    await db.insert(scimGroupMembers).values(added.map(userId => ({ groupId, userId })));
+  }
+  const roleChanges = await syncMemberRoles(companyId, [...added, ...removed]);
+
+  await audit(ctx, {
+    actionType: 'update',
+    entityType: 'company',
+    entityId: companyId,
+    entityName: ctx.token.companyName,
+    beforeState: { displayName: group.displayName, memberIds: currentIds },
+    afterState: { displayName: attributes.displayName, memberIds: attributes.memberIds },
+    changesSummary: `SCIM group "${attributes.displayName}" updated (${added.length} added, ${removed.length} removed)`,
+    metadata: { scimGroupId: groupId, roleChanges },
+  });
+
+  return requireGroup(companyId, groupId);
+}
+
+export async function deleteScimGroup(ctx: ScimRequestContext, groupId: number): Promise<void> {
+  const db = await requireDb();
+  const { companyId } = ctx.token;
+  const group = await requireGroup(companyId, groupId);
+  const memberIds = group.members.map(member => member.userId);
+
+  await db.delete(scimGroupMembers).where(eq(scimGroupMembers.groupId, groupId));
+  await db.delete(scimGroups).where(eq(scimGroups.id, groupId));
+  const roleChanges = await syncMemberRoles(companyId, memberIds);
+
+  await audit(ctx, {
+    actionType: 'delete',
+    entityType: 'company',
+    entityId: companyId,
+    entityName: ctx.token.companyName,
+    beforeState: { displayName: group.displayName, companyRole: group.companyRole, memberIds },
+    changesSummary: `SCIM group "${group.displayName}" deleted`,
+    metadata: { scimGroupId: groupId, roleChanges },
+  });
+}
+
+/**
+ * Change the company role a group maps to and re-sync its members (admin screen)
+ */
+export async function setScimGroupRole(
+  user: User,
+  companyId: number,
+  groupId: number,
+  companyRole: CompanyRole
+): Promise<ScimRoleChange[]> {
+  const db = await requireDb();
+  const group = await getScimGroup(companyId, groupId);
+  if (!group) throw new Error('SCIM group not found');
+  if (group.companyRole === companyRole) return [];
+
+  await db
+    .update(scimGroups)
+    .set({ companyRole, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(scimGroups.id, groupId));
+  const roleChanges = await syncMemberRoles(companyId, group.members.map(member => member.userId));
+
+  await createAuditLog({
+    user,
+    companyId,
+    actionType: 'update',
+    entityType: 'company',
+    entityId: companyId,
+    entityName: group.displayName,
+    module: 'scim',
+    beforeState: { companyRole: group.companyRole },
+    afterState: { companyRole },
+    changesSummary: `SCIM group "${group.displayName}" now maps to ${companyRole}`,
+    status: 'success',
+    metadata: { scimGroupId: groupId, roleChanges },
+  });
+
+  return roleChanges;
+}
@@ -0,0 +1,763 @@
+/**
+ * Search Index Service
+ *
+ * Keeps search_index_entries in step with the records it covers and answers searches.
+ * Records are re-indexed shortly after the write paths that change them call
+ * queueSearchIndex, and a scheduled sweep catches everything else: it reads each source
+ * table forward from a (changedAt, id) cursor, embeds chunks that have none for the current
+ * model and prunes entries whose record was deleted. Search ranks plain-text (BM25) and,
+ * when an embedding model is configured, vector matches, and fuses the two rankings.
+ */
+
+import cron from "node-cron";
+import { createHash } from "crypto";
+import { and, asc, desc, eq, gt, inArray, isNotNull, isNull, like, lt, ne, or, sql, type SQL } from "drizzle-orm";
+import type { MySqlColumn } from "drizzle-orm/mysql-core";
+import { getDb } from "../db";
+import { embedTexts, getEmbeddingModel } from "../_core/embeddings";
+import {
+  assessments,
+  assets,
+  deficiencies,
+  photos,
+  projectDocuments,
+  searchIndexEntries,
+  searchIndexState,
+  voiceRecordings,
+} from "../../drizzle/schema";
+import {
+  SEARCH_SOURCE_TYPES,
+  bm25Scores,
+  buildSnippet,
+  chunkText,
+  cosineSimilarity,
+  decodeEmbedding,
+  encodeEmbedding,
+  escapeLike,
+  fuseRankings,
+  htmlToPlainText,
+  likePatterns,
+  queryTerms,
+  topMatches,
+  type SearchSourceType,
+} from "../searchIndex";
+
+const QUEUE_DELAY_MS = 2000;
+const SWEEP_BATCH = 200;
+const EMBED_BATCH = 200;
+// Candidate pools per search: text matches are prefiltered in SQL, vectors are scored in
+// process a batch at a time; a search that hits either limit reports its results as truncated
+const MAX_TEXT_CANDIDATES = 2000;
+const VECTOR_SCAN_BATCH = 2000;
+const MAX_VECTOR_SCAN = 100_000;
+const MAX_VECTOR_MATCHES = 100;
+const MIN_SIMILARITY = 0.25;
+const MAX_DOCUMENT_TEXT = 2_000_000;
+const MAX_DOCUMENT_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+
+interface IndexableRecord {
+  projectId: number;
+  assetId: number | null;
+  componentCode: string | null;
+  title: string;
+  text: string;
+  updatedAt: string | null;
+}
+
+interface SearchSource {
+  table: typeof assessments | typeof deficiencies | typeof photos | typeof projectDocuments | typeof voiceRecordings;
+  id: MySqlColumn;
+  /** Column the sweep reads forward on */
+  changedAt: MySqlColumn;
+  /** The record as it should be indexed; null when it should not be in the index */
+  load: (id: number) => Promise<IndexableRecord | null>;
+  /** Ids of indexed records that no longer qualify */
+  findRemoved: (ids: number[]) => Promise<number[]>;
+}
+
+const joinText = (...parts: (string | null | undefined)[]) =>
+  parts.map(part => part?.trim()).filter(Boolean).join("\n");
+
+const label = (code: string | null | undefined, name: string | null | undefined) =>
+  [code, name].map(part => part?.trim()).filter(Boolean).join(" ");
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+/**
+ * Ids from the list whose rows are missing or fail the condition
+ */
+async function missingIds(column: MySqlColumn, ids: number[], present: SQL | undefined, table: SearchSource["table"]) {
+  if (ids.length === 0) return [];
+  const db = await requireDb();
+  const rows = await db.select({ id: column }).from(table).where(and(inArray(column, ids), present));
+  const found = new Set(rows.map(row => Number(row.id)));
+  return ids.filter(id => !found.has(id));
+}
+
+const SOURCES: Record<SearchSourceType, SearchSource> = {
+  assessment: {
+    table: assessments,
+    id: assessments.id,
+    changedAt: assessments.updatedAt,
+    load: async (id) => {
+      const db = await requireDb();
+      const [row] = await db
+        .select({
+          assessment: assessments,
+          assetProjectId: assets.projectId,
+        })
+        .from(assessments)
+        .leftJoin(assets, eq(assets.id, assessments.assetId))
+        .where(eq(assessments.id, id))
+        .limit(1);
+      if (!row || row.assessment.deletedAt || row.assessment.hidden) return null;
+
+      const { assessment } = row;
+      const projectId = assessment.projectId ?? row.assetProjectId;
+      if (!projectId) return null;
+      return {
+        projectId,
+        assetId: assessment.assetId,
+        componentCode: assessment.componentCode,
+        title: label(assessment.componentCode, assessment.componentName) || `Assessment #${assessment.id}`,
+        text: joinText(
+          htmlToPlainText(assessment.observations),
+          htmlToPlainText(assessment.recommendations),
+          assessment.componentLocation,
+        ),
+        updatedAt: assessment.updatedAt,
+      };
+    },
+    findRemoved: (ids) => missingIds(assessments.id, ids, and(isNull(assessments.deletedAt), eq(assessments.hidden, 0)), assessments),
+  },
+
+  deficiency: {
+    table: deficiencies,
+    id: deficiencies.id,
+    changedAt: deficiencies.updatedAt,
+    load: async (id) => {
+      const db = await requireDb();
+      const [row] = await db
+        .select({ deficiency: deficiencies, assetId: assessments.assetId })
+        .from(deficiencies)
+        .leftJoin(assessments, eq(assessments.id, deficiencies.assessmentId))
+        .where(eq(deficiencies.id, id))
+        .limit(1);
+      if (!row) return null;
+
+      const { deficiency } = row;
+      return {
+        projectId: deficiency.projectId,
+        assetId: row.assetId ?? null,
+        componentCode: deficiency.componentCode,
+        title: deficiency.title,
+        text: joinText(
+          htmlToPlainText(deficiency.description),
+          deficiency.location,
+          htmlToPlainText(deficiency.recommendedAction),
+        ),
+        updatedAt: deficiency.updatedAt,
+      };
+    },
+    findRemoved: (ids) => missingIds(deficiencies.id, ids, undefined, deficiencies),
+  },
+
+  photo: {
+    table: photos,
+    id: photos.id,
+    changedAt: photos.createdAt,
+    load: async (id) => {
+      const db = await requireDb();
+      const [photo] = await db.select().from(photos).where(eq(photos.id, id)).limit(1);
+      if (!photo || photo.deletedAt) return null;
+
+      const caption = htmlToPlainText(photo.caption);
+      return {
+        projectId: photo.projectId,
+        assetId: photo.assetId,
+        componentCode: photo.componentCode,
+        title: caption ? caption.slice(0, 120) : `Photo #${photo.id}`,
+        text: joinText(caption, photo.ocrText),
+        updatedAt: photo.createdAt,
+      };
+    },
+    findRemoved: (ids) => missingIds(photos.id, ids, isNull(photos.deletedAt), photos),
+  },
+
+  project_document: {
+    table: projectDocuments,
+    id: projectDocuments.id,
+    changedAt: projectDocuments.createdAt,
+    load: async (id) => {
+      const db = await requireDb();
+      const [document] = await db.select().from(projectDocuments).where(eq(projectDocuments.id, id)).limit(1);
+      if (!document) return null;
+
+      let extractedText = document.extractedText;
+      if (extractedText === null) {
+        // Documents uploaded before text extraction existed are read once from storage
+        extractedText = await downloadDocumentText(document.url, document.mimeType);
+        await db.update(projectDocuments).set({ extractedText }).where(eq(projectDocuments.id, id));
+      }
+
+      return {
+        projectId: document.projectId,
+        assetId: null,
+        componentCode: null,
+        title: document.fileName,
+        text: joinText(document.description, extractedText),
+        updatedAt: document.createdAt,
+      };
+    },
+    findRemoved: (ids) => missingIds(projectDocuments.id, ids, undefined, projectDocuments),
+  },
+
+  voice_transcript: {
+    table: voiceRecordings,
+    id: voiceRecordings.id,
+    changedAt: voiceRecordings.transcribedAt,
+    load: async (id) => {
+      const db = await requireDb();
+      const [recording] = await db.select().from(voiceRecordings).where(eq(voiceRecordings.id, id)).limit(1);
+      // Recordings not made for a project have no project permissions to search them under
+      if (!recording?.projectId || !recording.transcript?.trim()) return null;
+
+      return {
+        projectId: recording.projectId,
+        assetId: null,
+        componentCode: null,
+        title: `Voice note ${recording.createdAt.slice(0, 10)}`,
+        text: recording.transcript,
+        updatedAt: recording.transcribedAt,
+      };
+    },
+    findRemoved: (ids) => missingIds(
+      voiceRecordings.id,
+      ids,
+      and(isNotNull(voiceRecordings.projectId), isNotNull(voiceRecordings.transcript)),
+      voiceRecordings,
+    ),
+  },
+};
+
+// ============================================================================
+// DOCUMENT TEXT
+// ============================================================================
+
+const WORD_MIME_TYPES = [
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/msword",
+];
+
+export function isTextExtractable(mimeType: string): boolean {
+  return mimeType === "application/pdf" || WORD_MIME_TYPES.includes(mimeType) || mimeType.startsWith("text/");
+}
+
+/**
+ * Plain text of an uploaded document; '' when the type is not supported or it cannot be read
+ */
+export async function extractDocumentText(buffer: Buffer, mimeType: string): Promise<string> {
+  try {
+    let text = "";
+    if (mimeType === "application/pdf") {
+      const { extractTextFromPDF } = await import("../ai-document-parser");
+      text = await extractTextFromPDF(buffer);
+    } else if (WORD_MIME_TYPES.includes(mimeType)) {
+      const { extractTextFromWord } = await import("../ai-document-parser");
+      text = await extractTextFromWord(buffer);
+    } else if (mimeType.startsWith("text/")) {
+      text = mimeType === "text/html" ? htmlToPlainText(buffer.toString("utf8")) : buffer.toString("utf8");
+    }
+    return text.slice(0, MAX_DOCUMENT_TEXT);
+  } catch (error) {
+    console.warn(`[SearchIndex] Could not extract text from ${mimeType} document:`, error);
+    return "";
+  }
+}
+
+async function downloadDocumentText(url: string, mimeType: string): Promise<string> {
+  if (!isTextExtractable(mimeType)) return "";
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(60_000) });
+    if (!response.ok) return "";
+    const size = Number(response.headers.get("content-length") ?? 0);
+    if (size > MAX_DOCUMENT_DOWNLOAD_BYTES) return "";
+    return extractDocumentText(Buffer.from(await response.arrayBuffer()), mimeType);
+  } catch (error) {
+    console.warn("[SearchIndex] Could not download document for indexing:", error);
+    return "";
+  }
+}
+
+// ============================================================================
+// INDEXING
+// ============================================================================
+
+const hashChunk = (title: string, content: string) =>
+  createHash("sha256").update(`${title}\n${content}`).digest("hex");
+
+/**
+ * Bring one record's index entries up to date, or remove them when it no longer qualifies
+ * Chunks whose text is unchanged keep their embedding
+ */
+export async function indexSource(sourceType: SearchSourceType, sourceId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const record = await SOURCES[sourceType].load(sourceId);
+  const sourceFilter = and(eq(searchIndexEntries.sourceType, sourceType), eq(searchIndexEntries.sourceId, sourceId));
+  const chunks = record ? chunkText(joinText(record.title, record.text)) : [];
+
+  if (!record || chunks.length === 0) {
+    await db.delete(searchIndexEntries).where(sourceFilter);
+    return 0;
+  }
+
+  const existing = await db
+    .select({
+      chunkIndex: searchIndexEntries.chunkIndex,
+      contentHash: searchIndexEntries.contentHash,
+      embedding: searchIndexEntries.embedding,
+      embeddingModel: searchIndexEntries.embeddingModel,
+    })
+    .from(searchIndexEntries)
+    .where(sourceFilter);
+  const existingByChunk = new Map(existing.map(entry => [entry.chunkIndex, entry]));
+
+  const title = record.title.slice(0, 255);
+  const model = getEmbeddingModel();
+  const entries = chunks.map((content, chunkIndex) => {
+    const contentHash = hashChunk(title, content);
+    const previous = existingByChunk.get(chunkIndex);
+    const reusable = previous?.contentHash === contentHash && previous.embedding && previous.embeddingModel === model;
+    return {
+      content,
+      chunkIndex,
+      contentHash,
+      embedding: reusable ? previous!.embedding : null,
+      embeddingModel: reusable ? previous!.embeddingModel : null,
+    };
+  });
+
+  const toEmbed = entries.filter(entry => !entry.embedding);
+  if (model && toEmbed.length > 0) {
+    const vectors = await embedTexts(toEmbed.map(entry => entry.content));
+    vectors?.forEach((vector, i) => {
+      toEmbed[i].embedding = encodeEmbedding(vector);
+      toEmbed[i].embeddingModel = model;
+    });
+  }
+
+  for (const entry of entries) {
+    const values = {
+      projectId: record.projectId,
+      assetId: record.assetId,
+      componentCode: record.componentCode?.slice(0, 20) ?? null,
+      title,
+      content: entry.content,
+      contentHash: entry.contentHash,
+      embedding: entry.embedding,
+      embeddingModel: entry.embeddingModel,
+      sourceUpdatedAt: record.updatedAt,
+    };
+    await db
+      .insert(searchIndexEntries)
+      .values({ sourceType, sourceId, chunkIndex: entry.chunkIndex, ...values })
+      .onDuplicateKeyUpdate({ set: values });
+  }
+
+  await db.delete(searchIndexEntries).where(and(sourceFilter, sql`${searchIndexEntries.chunkIndex} >= ${entries.length}`));
+  return entries.length;
+}
+
+const pending = new Map<string, { sourceType: SearchSourceType; sourceId: number }>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+/**
+ * Re-index a record shortly after it changes; repeated calls for the same record are coalesced
+ * Safe to call from request handlers: indexing runs after the response and failures are only logged
+ */
+export function queueSearchIndex(sourceType: SearchSourceType, sourceId: number | null | undefined): void {
+  if (!sourceId) return;
+  pending.set(`${sourceType}:${sourceId}`, { sourceType, sourceId });
+  if (flushTimer) return;
+
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushSearchIndexQueue();
+  }, QUEUE_DELAY_MS);
+  flushTimer.unref?.();
+}
+
+export async function flushSearchIndexQueue(): Promise<void> {
+  while (flushing) await flushing;
+
+  flushing = (async () => {
+    const items = Array.from(pending.values());
+    pending.clear();
+    for (const { sourceType, sourceId } of items) {
+      try {
+        await indexSource(sourceType, sourceId);
+      } catch (error) {
+        console.error(`[SearchIndex] Failed to index ${sourceType} ${sourceId}:`, error);
+      }
+    }
+  })();
+
+  try {
+    await flushing;
+  } finally {
+    flushing = null;
+  }
+}
+
+/**
+ * Index one batch of records changed since the source's cursor and advance it
+ */
+async function sweepSource(sourceType: SearchSourceType): Promise<number> {
+  const db = await requireDb();
+  const source = SOURCES[sourceType];
+  const [state] = await db.select().from(searchIndexState).where(eq(searchIndexState.sourceType, sourceType)).limit(1);
+
+  const after = state?.cursorAt
+    ? or(gt(source.changedAt, state.cursorAt), and(eq(source.changedAt, state.cursorAt), gt(source.id, state.cursorId)))
+    : isNotNull(source.changedAt);
+  const changed = await db
+    .select({ id: source.id, changedAt: source.changedAt })
+    .from(source.table)
+    .where(after)
+    .orderBy(asc(source.changedAt), asc(source.id))
+    .limit(SWEEP_BATCH);
+
+  for (const row of changed) {
+    try {
+      await indexSource(sourceType, Number(row.id));
+    } catch (error) {
+      console.error(`[SearchIndex] Failed to index ${sourceType} ${row.id}:`, error);
+    }
+  }
+
+  const last = changed[changed.length - 1];
+  const cursor = {
+    cursorAt: last ? String(last.changedAt) : state?.cursorAt ?? null,
+    cursorId: last ? Number(last.id) : state?.cursorId ?? 0,
+    lastRunAt: sql`CURRENT_TIMESTAMP`,
+  };
+  await db.insert(searchIndexState).values({ sourceType, ...cursor }).onDuplicateKeyUpdate({ set: cursor });
+  return changed.length;
+}
+
+/**
+ * Embed a batch of entries that have no embedding from the current model,
+ * e.g. after an embedding model is configured or changed
+ */
+async function embedMissing(): Promise<number> {
+  const model = getEmbeddingModel();
+  if (!model) return 0;
+
+  const db = await requireDb();
+  const entries = await db
+    .select({ id: searchIndexEntries.id, content: searchIndexEntries.content })
+    .from(searchIndexEntries)
+    .where(or(isNull(searchIndexEntries.embeddingModel), ne(searchIndexEntries.embeddingModel, model)))
+    .limit(EMBED_BATCH);
+
+  const vectors = entries.length > 0 ? await embedTexts(entries.map(entry => entry.content)) : null;
+  if (!vectors) return 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    await db
+      .update(searchIndexEntries)
+      .set({ embedding: encodeEmbedding(vectors[i]), embeddingModel: model })
+      .where(eq(searchIndexEntries.id, entries[i].id));
+  }
+  return entries.length;
+}
+
+/**
+ * Remove entries whose record was deleted; updates are picked up by the cursor, hard deletes are not
+ */
+async function pruneRemoved(sourceType: SearchSourceType): Promise<number> {
+  const db = await requireDb();
+  let removed = 0;
+  let afterId = 0;
+
+  for (;;) {
+    const rows = await db
+      .selectDistinct({ sourceId: searchIndexEntries.sourceId })
+      .from(searchIndexEntries)
+      .where(and(eq(searchIndexEntries.sourceType, sourceType), gt(searchIndexEntries.sourceId, afterId)))
+      .orderBy(asc(searchIndexEntries.sourceId))
+      .limit(1000);
+    if (rows.length === 0) break;
+
+    const gone = await SOURCES[sourceType].findRemoved(rows.map(row => row.sourceId));
+    if (gone.length > 0) {
+      await db
+        .delete(searchIndexEntries)
+        .where(and(eq(searchIndexEntries.sourceType, sourceType), inArray(searchIndexEntries.sourceId, gone)));
+      removed += gone.length;
+    }
+    afterId = rows[rows.length - 1].sourceId;
+  }
+  return removed;
+}
+
+export interface SearchIndexSweepResult {
+  indexed: Record<SearchSourceType, number>;
+  embedded: number;
+  pruned: number;
+}
+
+export async function runSearchIndexSweep(options: { prune?: boolean } = {}): Promise<SearchIndexSweepResult> {
+  await flushSearchIndexQueue();
+
+  const indexed = {} as Record<SearchSourceType, number>;
+  for (const sourceType of SEARCH_SOURCE_TYPES) {
+    indexed[sourceType] = await sweepSource(sourceType);
+  }
+
+  const embedded = await embedMissing();
+
+  let pruned = 0;
+  if (options.prune) {
+    for (const sourceType of SEARCH_SOURCE_TYPES) pruned += await pruneRemoved(sourceType);
+  }
+  return { indexed, embedded, pruned };
+}
+
+/**
+ * Start over from the beginning of every source table on the next sweeps
+ */
+export async function resetSearchIndexCursors(): Promise<void> {
+  const db = await requireDb();
+  await db.delete(searchIndexState);
+}
+
+export async function getSearchIndexStatus() {
+  const db = await requireDb();
+  const model = getEmbeddingModel();
+  const counts = await db
+    .select({
+      sourceType: searchIndexEntries.sourceType,
+      entries: sql<number>`COUNT(*)`,
+      records: sql<number>`COUNT(DISTINCT ${searchIndexEntries.sourceId})`,
+      embedded: model
+        ? sql<number>`SUM(CASE WHEN ${searchIndexEntries.embeddingModel} = ${model} THEN 1 ELSE 0 END)`
+        : sql<number>`0`,
+    })
+    .from(searchIndexEntries)
+    .groupBy(searchIndexEntries.sourceType);
+  const states = await db.select().from(searchIndexState);
+
+  return {
+    embeddingModel: model,
+    sources: SEARCH_SOURCE_TYPES.map(sourceType => {
+      const count = counts.find(row => row.sourceType === sourceType);
+      const state = states.find(row => row.sourceType === sourceType);
+      return {
+        sourceType,
+        records: Number(count?.records ?? 0),
+        entries: Number(count?.entries ?? 0),
+        embedded: Number(count?.embedded ?? 0),
+        indexedThrough: state?.cursorAt ?? null,
+        lastRunAt: state?.lastRunAt ?? null,
+      };
+    }),
+  };
+}
+
+let sweepTask: ReturnType<typeof cron.schedule> | null = null;
+let pruneTask: ReturnType<typeof cron.schedule> | null = null;
+
+export function startSearchIndexer(): void {
+  if (sweepTask) {
+    console.log("[SearchIndex] Indexer already running");
+    return;
+  }
+
+  sweepTask = cron.schedule("*/5 * * * *", async () => {
+    try {
+      await runSearchIndexSweep();
+    } catch (error) {
+      console.error("[SearchIndex] Error indexing changed records:", error);
+    }
+  }, {
+    name: "search-index-sweep",
+    noOverlap: true,
+  });
+
+  pruneTask = cron.schedule("15 3 * * *", async () => {
+    try {
+      await runSearchIndexSweep({ prune: true });
+    } catch (error) {
+      console.error("[SearchIndex] Error pruning deleted records:", error);
+    }
+  }, {
+    name: "search-index-prune",
+    noOverlap: true,
+  });
+
+  console.log("[SearchIndex] Indexer started");
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+export interface SearchIndexQuery {
+  query: string;
+  /** Projects to search; callers pass only projects the user can access */
+  projectIds: number[];
+  componentCode?: string;
+  sourceTypes?: SearchSourceType[];
+  limit?: number;
+}
+
+export interface SearchIndexHit {
+  sourceType: SearchSourceType;
+  sourceId: number;
+  projectId: number;
+  assetId: number | null;
+  componentCode: string | null;
+  title: string;
+  snippet: string;
+  score: number;
+  matchedBy: ("text" | "semantic")[];
+  sourceUpdatedAt: string | null;
+}
+
+export async function searchIndex({ query, projectIds, componentCode, sourceTypes, limit = 25 }: SearchIndexQuery): Promise<{
+  mode: "semantic" | "text";
+  /** Some candidates went unscored, so better matches may exist outside the results */
+  truncated: boolean;
+  results: SearchIndexHit[];
+}> {
+  const db = await getDb();
+  if (!db || projectIds.length === 0) return { mode: "text", truncated: false, results: [] };
+
+  const scope = and(
+    inArray(searchIndexEntries.projectId, projectIds),
+    componentCode ? like(searchIndexEntries.componentCode, `${escapeLike(componentCode.toUpperCase())}%`) : undefined,
+    sourceTypes && sourceTypes.length > 0 ? inArray(searchIndexEntries.sourceType, sourceTypes) : undefined,
+  );
+  const terms = queryTerms(query);
+  let truncated = false;
+
+  // Plain-text matches: prefilter on any term, then rank with BM25
+  let textRanking: number[] = [];
+  if (terms.length > 0) {
+    const matchesAnyTerm = or(...likePatterns(terms).flatMap(pattern => [
+      like(searchIndexEntries.content, pattern),
+      like(searchIndexEntries.title, pattern),
+    ]));
+    const candidates = await db
+      .select({ id: searchIndexEntries.id, title: searchIndexEntries.title, content: searchIndexEntries.content })
+      .from(searchIndexEntries)
+      .where(and(scope, matchesAnyTerm))
+      .orderBy(desc(searchIndexEntries.id))
+      .limit(MAX_TEXT_CANDIDATES);
+    truncated = candidates.length >= MAX_TEXT_CANDIDATES;
+    const scores = bm25Scores(terms, candidates.map(candidate => `${candidate.title}\n${candidate.content}`));
+    textRanking = candidates
+      .map((candidate, i) => ({ id: candidate.id, score: scores[i] }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(candidate => candidate.id);
+  }
+
+  // Vector matches, when an embedding model is configured and reachable
+  let semanticRanking: number[] = [];
+  const model = getEmbeddingModel();
+  const [queryVector] = (model ? await embedTexts([query]) : null) ?? [];
+  if (model && queryVector) {
+    const target = decodeEmbedding(encodeEmbedding(queryVector));
+    let best: { id: number; similarity: number }[] = [];
+    let scanned = 0;
+    let beforeId: number | null = null;
+
+    // Walk the embedded entries newest first, keeping only the best matches between batches
+    while (true) {
+      const batch = await db
+        .select({ id: searchIndexEntries.id, embedding: searchIndexEntries.embedding })
+        .from(searchIndexEntries)
+        .where(and(
+          scope,
+          eq(searchIndexEntries.embeddingModel, model),
+          beforeId !== null ? lt(searchIndexEntries.id, beforeId) : undefined
+        ))
+        .orderBy(desc(searchIndexEntries.id))
+        .limit(VECTOR_SCAN_BATCH);
+      const scored = batch.map(candidate => ({
+        id: candidate.id,
+        similarity: cosineSimilarity(target, decodeEmbedding(candidate.embedding ?? "")),
+      }));
+      best = topMatches([...best, ...scored], MAX_VECTOR_MATCHES, MIN_SIMILARITY);
+      scanned += batch.length;
+
+      if (batch.length < VECTOR_SCAN_BATCH) break;
+      if (scanned >= MAX_VECTOR_SCAN) {
+        truncated = true;
+        break;
+      }
+      beforeId = batch[batch.length - 1].id;
+    }
+    semanticRanking = best.map(candidate => candidate.id);
+  }
+
+  const fused = Array.from(fuseRankings([textRanking, semanticRanking]).entries()).sort((a, b) => b[1] - a[1]);
+  if (fused.length === 0) return { mode: queryVector ? "semantic" : "text", truncated, results: [] };
+
+  const entries = await db
+    .select({
+      id: searchIndexEntries.id,
+      sourceType: searchIndexEntries.sourceType,
+      sourceId: searchIndexEntries.sourceId,
+      projectId: searchIndexEntries.projectId,
+      assetId: searchIndexEntries.assetId,
+      componentCode: searchIndexEntries.componentCode,
+      title: searchIndexEntries.title,
+      content: searchIndexEntries.content,
+      sourceUpdatedAt: searchIndexEntries.sourceUpdatedAt,
+    })
+    .from(searchIndexEntries)
+    .where(inArray(searchIndexEntries.id, fused.slice(0, limit * 4).map(([id]) => id)));
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+  const textMatches = new Set(textRanking);
+  const semanticMatches = new Set(semanticRanking);
+
+  // One result per record: its best-ranked chunk
+  const seen = new Set<string>();
+  const results: SearchIndexHit[] = [];
+  for (const [id, score] of fused) {
+    const entry = entriesById.get(id);
+    if (!entry) continue;
+    const key = `${entry.sourceType}:${entry.sourceId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    results.push({
+      sourceType: entry.sourceType,
+      sourceId: entry.sourceId,
+      projectId: entry.projectId,
+      assetId: entry.assetId,
+      componentCode: entry.componentCode,
+      title: entry.title,
+      snippet: buildSnippet(entry.content, terms),
+      score: Number(score.toFixed(5)),
+      matchedBy: [
+        ...(textMatches.has(id) ? ["text" as const] : []),
+        ...(semanticMatches.has(id) ? ["semantic" as const] : []),
+      ],
+      sourceUpdatedAt: entry.sourceUpdatedAt,
+    });
+    if (results.length >= limit) break;
+  }
+
+  return { mode: queryVector ? "semantic" : "text", truncated, results };
+}
@@ -0,0 +1,203 @@
+/**
+ * External Share Link Service
+ * Issues and verifies read-only share tokens for people without an account.
+ * Tokens are shown once at creation; only the lookup prefix and a SHA-256 hash
+ * are stored. Optional passwords are hashed with scrypt.
+ */
+
+import crypto from 'crypto';
+import { eq, sql } from 'drizzle-orm';
+import { getDb } from '../db';
+import { companies, externalShareLinks, projects, users, type ExternalShareLink } from '../../drizzle/schema';
+import { createAuditLog } from '../auditLog';
+
+export const SHARE_TOKEN_PREFIX = 'shr_';
+export const SHARE_TOKEN_LOOKUP_LENGTH = 12;
+export const MAX_SHARE_LINK_DAYS = 90;
+
+export type ShareLinkFailureReason =
+  | 'malformed'
+  | 'unknown'
+  | 'revoked'
+  | 'expired'
+  | 'password_required'
+  | 'invalid_password'
+  | 'privacy_locked';
+
+export const SHARE_LINK_FAILURE_MESSAGES: Record<ShareLinkFailureReason, string> = {
+  malformed: 'This share link is not valid',
+  unknown: 'This share link is not valid',
+  revoked: 'This share link has been revoked',
+  expired: 'This share link has expired',
+  password_required: 'This share link is password protected',
+  invalid_password: 'Incorrect password',
+  privacy_locked: "This share link is disabled by the owning company's privacy settings",
+};
+
+// ============================================================================
+// Token and password material
+// ============================================================================
+
+/**
+ * Generate a new raw share token ("shr_" followed by 48 hex characters)
+ */
+export function generateShareToken(): string {
+  return `${SHARE_TOKEN_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function hashShareToken(rawToken: string): string {
+  return crypto.createHash('sha256').update(rawToken).digest('hex');
+}
+
+export function getShareTokenLookupPrefix(rawToken: string): string {
+  return rawToken.slice(0, SHARE_TOKEN_LOOKUP_LENGTH);
+}
+
+export function isWellFormedShareToken(rawToken: string): boolean {
+  return new RegExp(`^${SHARE_TOKEN_PREFIX}[0-9a-f]{48}$`).test(rawToken);
+}
+
+export function hashSharePassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifySharePassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check a stored link row against the current time
+ */
+export function getShareLinkStatus(
+  link: Pick<ExternalShareLink, 'revokedAt' | 'expiresAt'>,
+  now: Date = new Date()
+): 'active' | 'revoked' | 'expired' {
+  if (link.revokedAt) return 'revoked';
+  if (new Date(link.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+/**
+ * MySQL timestamp string for a link expiring in the given number of days
+ */
+export function getShareLinkExpiry(days: number, now: Date = new Date()): string {
+  const expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  return expiresAt.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Resolve a raw token to its link, checking expiry, revocation (including deletion
+ * of the shared project), password and the owning company's privacy lock
+ */
+export async function resolveShareLink(
+  rawToken: string,
+  password?: string
+): Promise<{ link: ExternalShareLink } | { error: ShareLinkFailureReason }> {
+  if (!isWellFormedShareToken(rawToken)) return { error: 'malformed' };
+
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+
+  const candidates = await db
+    .select()
+    .from(externalShareLinks)
+    .where(eq(externalShareLinks.tokenPrefix, getShareTokenLookupPrefix(rawToken)));
+
+  const expected = Buffer.from(hashShareToken(rawToken), 'hex');
+  const link = candidates.find(candidate =>
+    crypto.timingSafeEqual(Buffer.from(candidate.tokenHash, 'hex'), expected)
+  );
+  if (!link) return { error: 'unknown' };
+
+  const status = getShareLinkStatus(link);
+  if (status !== 'active') return { error: status };
+
+  const [project] = await db
+    .select({ status: projects.status, deletedAt: projects.deletedAt })
+    .from(projects)
+    .where(eq(projects.id, link.projectId))
+    .limit(1);
+  if (!project || project.status === 'deleted' || project.deletedAt) return { error: 'revoked' };
+
+  if (link.passwordHash) {
+    if (!password) return { error: 'password_required' };
+    if (!verifySharePassword(password, link.passwordHash)) return { error: 'invalid_password' };
+  }
+
+  // With the privacy lock on, only links issued by the company's own members stay valid
+  if (link.companyId) {
+    const [company] = await db
+      .select({ name: companies.name, privacyLockEnabled: companies.privacyLockEnabled })
+      .from(companies)
+      .where(eq(companies.id, link.companyId))
+      .limit(1);
+
+    if (company?.privacyLockEnabled === 1) {
+      const [creator] = await db
+        .select({ company: users.company, companyId: users.companyId })
+        .from(users)
+        .where(eq(users.id, link.createdBy))
+        .limit(1);
+
+      const isMember = creator && (creator.companyId === link.companyId || creator.company === company.name);
+      if (!isMember) return { error: 'privacy_locked' };
+    }
+  }
+
+  return { link };
+}
+
+/**
+ * Count a view on the link and record it in the audit log
+ * Tracking is best-effort and must not fail the request
+ */
+export async function recordShareView(
+  link: ExternalShareLink,
+  request: { ipAddress?: string; userAgent?: string }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db
+      .update(externalShareLinks)
+      .set({
+        viewCount: sql`${externalShareLinks.viewCount} + 1`,
+        lastViewedAt: sql`CURRENT_TIMESTAMP`,
+      })
+      .where(eq(externalShareLinks.id, link.id));
+
+    await createAuditLog({
+      companyId: link.companyId,
+      actionType: 'share_view',
+      entityType: link.resourceType === 'project' ? 'project' : 'report',
+      entityId: link.resourceType === 'asset_report' ? link.assetId : link.projectId,
+      entityName: link.label,
+      module: 'external_share',
+      changesSummary: `External ${link.resourceType.replace('_', ' ')} link viewed`,
+      status: 'success',
+      ipAddress: request.ipAddress,
+      userAgent: request.userAgent,
+      metadata: {
+        shareLinkId: link.id,
+        tokenPrefix: link.tokenPrefix,
+        projectId: link.projectId,
+        assetId: link.assetId,
+        viewNumber: link.viewCount + 1,
+      },
+    });
+  } catch (error) {
+    console.error('[ShareLinks] Failed to record share view:', error);
+  }
+}
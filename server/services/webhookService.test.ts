@@ -0,0 +1,126 @@
+/**
+ * Tests for Webhook Service
+ * Tests payload signing, signature verification, retry backoff and event parsing
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import crypto from "crypto";
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  calculateWebhookRetryDelayMs,
+  parseSubscribedEvents,
+  isBlockedWebhookAddress,
+  checkWebhookUrl,
+  pinnedLookup,
+  BASE_RETRY_DELAY_MS,
+  MAX_RETRY_DELAY_MS,
+} from "./webhookService";
+
+describe("webhookService", () => {
+  const secret = "whsec_test_secret";
+  const body = JSON.stringify({ id: "evt_1", type: "deficiency.created", data: { deficiencyId: 42 } });
+
+  describe("generateWebhookSecret", () => {
+    it("should generate unique prefixed secrets", () => {
+      const a = generateWebhookSecret();
+      const b = generateWebhookSecret();
+      expect(a).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe("signWebhookPayload", () => {
+    it("should sign the timestamp and body with HMAC-SHA256", () => {
+      const expected = crypto.createHmac("sha256", secret).update(`1700000000.${body}`).digest("hex");
+      expect(signWebhookPayload(secret, 1700000000, body)).toBe(`t=1700000000,v1=${expected}`);
+    });
+  });
+
+  describe("verifyWebhookSignature", () => {
+    const now = 1700000000 * 1000;
+
+    it("should accept a valid signature", () => {
+      const header = signWebhookPayload(secret, 1700000000, body);
+      expect(verifyWebhookSignature(secret, header, body, 300, now)).toBe(true);
+    });
+
+    it("should reject a tampered body or wrong secret", () => {
+      const header = signWebhookPayload(secret, 1700000000, body);
+      expect(verifyWebhookSignature(secret, header, body + " ", 300, now)).toBe(false);
+      expect(verifyWebhookSignature("whsec_other", header, body, 300, now)).toBe(false);
+    });
+
+    it("should reject signatures outside the tolerance window", () => {
+      const header = signWebhookPayload(secret, 1700000000 - 600, body);
+      expect(verifyWebhookSignature(secret, header, body, 300, now)).toBe(false);
+    });
+
+    it("should reject malformed headers", () => {
+      expect(verifyWebhookSignature(secret, "garbage", body, 300, now)).toBe(false);
+      expect(verifyWebhookSignature(secret, "t=1700000000", body, 300, now)).toBe(false);
+    });
+  });
+
+  describe("calculateWebhookRetryDelayMs", () => {
+    it("should back off by a factor of four", () => {
+      expect(calculateWebhookRetryDelayMs(1)).toBe(BASE_RETRY_DELAY_MS);
+      expect(calculateWebhookRetryDelayMs(2)).toBe(BASE_RETRY_DELAY_MS * 4);
+      expect(calculateWebhookRetryDelayMs(3)).toBe(BASE_RETRY_DELAY_MS * 16);
+    });
+
+    it("should cap the delay", () => {
+      expect(calculateWebhookRetryDelayMs(20)).toBe(MAX_RETRY_DELAY_MS);
+    });
+  });
+
+  describe("parseSubscribedEvents", () => {
+    it("should accept arrays and JSON strings and drop unknown events", () => {
+      expect(parseSubscribedEvents(["deficiency.created", "unknown.event"])).toEqual(["deficiency.created"]);
+      expect(parseSubscribedEvents('["project.status_changed"]')).toEqual(["project.status_changed"]);
+    });
+
+    it("should return an empty list for invalid input", () => {
+      expect(parseSubscribedEvents("not json")).toEqual([]);
+      expect(parseSubscribedEvents(null)).toEqual([]);
+    });
+  });
+
+  describe("isBlockedWebhookAddress", () => {
+    it("should block loopback, private, link-local and metadata addresses", () => {
+      for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.5", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:10.0.0.1"]) {
+        expect(isBlockedWebhookAddress(address), address).toBe(true);
+      }
+    });
+
+    it("should allow public addresses", () => {
+      expect(isBlockedWebhookAddress("93.184.216.34")).toBe(false);
+      expect(isBlockedWebhookAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(false);
+    });
+  });
+
+  describe("checkWebhookUrl", () => {
+    it("should reject non-http schemes and internal IP hosts", async () => {
+      expect(await checkWebhookUrl("ftp://example.com/hook")).toMatch(/http or https/);
+      expect(await checkWebhookUrl("http://169.254.169.254/latest/meta-data")).toMatch(/public address/);
+      expect(await checkWebhookUrl("http://[::1]:8080/hook")).toMatch(/public address/);
+      expect(await checkWebhookUrl("https://93.184.216.34/hook")).toBeNull();
+    });
+  });
+
+  describe("pinnedLookup", () => {
+    it("should answer with the checked addresses whatever host is looked up", () => {
+      const lookup = pinnedLookup(["93.184.216.34", "2606:2800:220:1:248:1893:25c8:1946"]);
+      const single = vi.fn();
+      const all = vi.fn();
+      lookup("rebinding.example", {}, single);
+      lookup("rebinding.example", { all: true }, all);
+      expect(single).toHaveBeenCalledWith(null, "93.184.216.34", 4);
+      expect(all).toHaveBeenCalledWith(null, [
+        { address: "93.184.216.34", family: 4 },
+        { address: "2606:2800:220:1:248:1893:25c8:1946", family: 6 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,583 @@
+/**
+ * Webhook Service
+ * Delivers signed JSON payloads to company-scoped webhook subscriptions when
+ * assessments, deficiencies, projects and consultant submissions change.
+ * Failed deliveries are retried with exponential backoff and every attempt is
+ * recorded in webhook_delivery_log so admins can replay failures.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import cron from 'node-cron';
+import { getDb } from '../db';
+import {
+  webhookSubscriptions,
+  webhookDeliveryLog,
+  projects,
+  companies,
+  type WebhookSubscription,
+} from '../../drizzle/schema';
+import { eq, and, lte, sql } from 'drizzle-orm';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'assessment.status_changed',
+  'deficiency.created',
+  'deficiency.resolved',
+  'project.status_changed',
+  'consultant_submission.approved',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-BCA-Signature';
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+export const DEFAULT_MAX_ATTEMPTS = 6;
+export const BASE_RETRY_DELAY_MS = 30 * 1000; // 30 seconds
+export const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  companyId: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Generate a signing secret for a new subscription
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a payload: HMAC-SHA256 over "<timestamp>.<body>"
+ * Receivers verify by recomputing the signature with their copy of the secret
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a signature header produced by signWebhookPayload
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signatureHeader: string,
+  body: string,
+  toleranceSeconds: number = 300,
+  now: number = Date.now()
+): boolean {
+  const parts = Object.fromEntries(
+    signatureHeader.split(',').map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.trim(), rest.join('=')];
+    })
+  );
+
+  const timestamp = parseInt(parts.t, 10);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) return false;
+
+  const expected = signWebhookPayload(secret, timestamp, body);
+  const received = `t=${timestamp},v1=${parts.v1}`;
+  return expected.length === received.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+}
+
+/**
+ * Delay before the next attempt: 30s, 2m, 8m, 32m, ... capped at 6 hours
+ */
+export function calculateWebhookRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(4, Math.max(0, attempt - 1)), MAX_RETRY_DELAY_MS);
+}
+
+// Receivers must be public: loopback, private, link-local (cloud metadata), CGNAT and reserved ranges are refused
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is one webhooks may not be delivered to
+ */
+export function isBlockedWebhookAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  if (family === 6) {
+    // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as IPv4
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+    return BLOCKED_ADDRESSES.check(address, 'ipv6');
+  }
+  return BLOCKED_ADDRESSES.check(address, 'ipv4');
+}
+
+interface WebhookTarget {
+  url: URL;
+  /** Checked public addresses of the host; requests connect only to these */
+  addresses: string[];
+}
+
+/**
+ * Parse and resolve a webhook URL, refusing non-http(s) URLs and hosts with any non-public address
+ */
+async function resolveWebhookTarget(url: string): Promise<WebhookTarget | { error: string }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { error: 'Webhook URL is not valid' };
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { error: 'Webhook URL must use http or https' };
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    return { error: `Webhook host ${host} could not be resolved` };
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedWebhookAddress)) {
+    return { error: 'Webhook URL must resolve to a public address' };
+  }
+  return { url: parsed, addresses };
+}
+
+/**
+ * Reject webhook URLs that are not http(s) or whose host resolves to a non-public address
+ * Returns the reason, or null when the URL may be delivered to
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  const target = await resolveWebhookTarget(url);
+  return 'error' in target ? target.error : null;
+}
+
+/**
+ * DNS lookup that answers with already-checked addresses, so a host cannot resolve to
+ * a public address for the check and an internal one for the connection (DNS rebinding)
+ */
+export function pinnedLookup(addresses: string[]): net.LookupFunction {
+  const entries = addresses.map(address => ({ address, family: net.isIP(address) }));
+  return (_hostname, options, callback) => {
+    if (options.all) callback(null, entries);
+    else callback(null, entries[0].address, entries[0].family);
+  };
+}
+
+/**
+ * POST to a checked target over a connection to one of its checked addresses
+ * Redirects are not followed, as they could lead to an internal address.
+ */
+function postToWebhookTarget(
+  target: WebhookTarget,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<{ status: number; body: string }> {
+  const client = target.url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(target.url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: pinnedLookup(target.addresses),
+      signal,
+    }, response => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (text.length < MAX_RESPONSE_BODY_LENGTH) text += chunk;
+      });
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body: text.slice(0, MAX_RESPONSE_BODY_LENGTH) }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Parse the stored events column into a list of event types
+ */
+export function parseSubscribedEvents(events: unknown): WebhookEventType[] {
+  const list = typeof events === 'string' ? safeJsonParse(events) : events;
+  if (!Array.isArray(list)) return [];
+  return list.filter((e): e is WebhookEventType => (WEBHOOK_EVENT_TYPES as readonly string[]).includes(e));
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the company that owns a project (projects reference companies by name)
+ */
+async function resolveProjectCompanyId(projectId: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const [row] = await db
+    .select({ companyId: companies.id })
+    .from(projects)
+    .innerJoin(companies, eq(companies.name, projects.company))
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  return row?.companyId ?? null;
+}
+
+/**
+ * Record and attempt delivery of an event to every matching subscription
+ */
+async function dispatchWebhookEvent(params: {
+  type: WebhookEventType;
+  projectId?: number;
+  companyId?: number | null;
+  data: Record<string, unknown>;
+}): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const companyId = params.companyId ?? (params.projectId ? await resolveProjectCompanyId(params.projectId) : null);
+  if (!companyId) return 0;
+
+  const subscriptions = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.companyId, companyId), eq(webhookSubscriptions.isActive, 1)));
+
+  const matching = subscriptions.filter(s => parseSubscribedEvents(s.events).includes(params.type));
+  if (matching.length === 0) return 0;
+
+  const event: WebhookEvent = {
+    id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+    type: params.type,
+    createdAt: new Date().toISOString(),
+    companyId,
+    data: params.data,
+  };
+  const payload = JSON.stringify(event);
+
+  for (const subscription of matching) {
+    const result = await db.insert(webhookDeliveryLog).values({
+      subscriptionId: subscription.id,
+      companyId,
+      eventId: event.id,
+      eventType: event.type,
+      payload,
+      status: 'pending',
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    });
+    await attemptWebhookDelivery(Number(result[0].insertId), subscription);
+  }
+
+  return matching.length;
+}
+
+/**
+ * Emit a lifecycle event to subscribed webhooks
+ * Runs in the background so webhook receivers never slow down or fail the caller
+ */
+export function emitWebhookEvent(params: {
+  type: WebhookEventType;
+  projectId?: number;
+  companyId?: number | null;
+  data: Record<string, unknown>;
+}): void {
+  dispatchWebhookEvent(params).catch(error => {
+    console.error(`[Webhooks] Failed to dispatch ${params.type}:`, error);
+  });
+}
+
+/**
+ * POST a delivery to its subscription and update the delivery log
+ */
+export async function attemptWebhookDelivery(
+  deliveryId: number,
+  subscription?: WebhookSubscription
+): Promise<{ success: boolean; status: string; responseStatus?: number; error?: string }> {
+  const db = await getDb();
+  if (!db) return { success: false, status: 'failed', error: 'Database not available' };
+
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveryLog)
+    .where(eq(webhookDeliveryLog.id, deliveryId))
+    .limit(1);
+  if (!delivery) return { success: false, status: 'failed', error: 'Delivery not found' };
+
+  if (!subscription) {
+    [subscription] = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, delivery.subscriptionId))
+      .limit(1);
+  }
+  if (!subscription) {
+    await db
+      .update(webhookDeliveryLog)
+      .set({ status: 'failed', nextAttemptAt: null, failureReason: 'Subscription no longer exists' })
+      .where(eq(webhookDeliveryLog.id, deliveryId));
+    return { success: false, status: 'failed', error: 'Subscription no longer exists' };
+  }
+
+  const attempt = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startTime = Date.now();
+  let responseStatus: number | undefined;
+  let responseBody: string | undefined;
+  let failureReason: string | undefined;
+
+  try {
+    // Resolved again on every attempt so a host re-pointed at an internal address is caught,
+    // and the request connects to the addresses checked here rather than resolving again
+    const target = await resolveWebhookTarget(subscription.url);
+    if ('error' in target) throw new Error(target.error);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+    try {
+      const response = await postToWebhookTarget(target, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'BCA-Webhooks/1.0',
+        'X-BCA-Event': delivery.eventType,
+        'X-BCA-Event-Id': delivery.eventId,
+        'X-BCA-Delivery': String(delivery.id),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, delivery.payload),
+      }, delivery.payload, controller.signal);
+      responseStatus = response.status;
+      responseBody = response.body;
+      if (response.status < 200 || response.status >= 300) {
+        failureReason = `Receiver responded with HTTP ${response.status}`;
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  } catch (error) {
+    failureReason = error instanceof Error && error.name === 'AbortError'
+      ? `Timed out after ${WEBHOOK_TIMEOUT_MS / 1000}s`
+      : error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const durationMs = Date.now() - startTime;
+
+  if (!failureReason) {
+    await db
+      .update(webhookDeliveryLog)
+      .set({
+        status: 'delivered',
+        attempts: attempt,
+        nextAttemptAt: null,
+        responseStatus,
+        responseBody,
+        failureReason: null,
+        durationMs,
+        deliveredAt: sql`CURRENT_TIMESTAMP`,
+      })
+      .where(eq(webhookDeliveryLog.id, deliveryId));
+
+    await db
+      .update(webhookSubscriptions)
+      .set({
+        lastDeliveryAt: sql`CURRENT_TIMESTAMP`,
+        lastDeliveryStatus: 'delivered',
+        consecutiveFailures: 0,
+      })
+      .where(eq(webhookSubscriptions.id, subscription.id));
+
+    return { success: true, status: 'delivered', responseStatus };
+  }
+
+  const willRetry = attempt < delivery.maxAttempts;
+  const nextAttemptAt = willRetry ? new Date(Date.now() + calculateWebhookRetryDelayMs(attempt)) : null;
+
+  await db
+    .update(webhookDeliveryLog)
+    .set({
+      status: willRetry ? 'retrying' : 'failed',
+      attempts: attempt,
+      nextAttemptAt: nextAttemptAt ? nextAttemptAt.toISOString() : null,
+      responseStatus,
+      responseBody,
+      failureReason,
+      durationMs,
+    })
+    .where(eq(webhookDeliveryLog.id, deliveryId));
+
+  await db
+    .update(webhookSubscriptions)
+    .set({
+      lastDeliveryAt: sql`CURRENT_TIMESTAMP`,
+      lastDeliveryStatus: 'failed',
+      consecutiveFailures: sql`${webhookSubscriptions.consecutiveFailures} + 1`,
+    })
+    .where(eq(webhookSubscriptions.id, subscription.id));
+
+  console.warn(
+    `[Webhooks] Delivery ${deliveryId} (${delivery.eventType}) failed on attempt ${attempt}/${delivery.maxAttempts}: ${failureReason}`
+  );
+
+  return { success: false, status: willRetry ? 'retrying' : 'failed', responseStatus, error: failureReason };
+}
+
+/**
+ * Replay a delivery as a new log entry with the same event payload
+ */
+export async function replayWebhookDelivery(
+  deliveryId: number,
+  replayedBy?: number
+): Promise<{ success: boolean; deliveryId?: number; status: string; error?: string }> {
+  const db = await getDb();
+  if (!db) return { success: false, status: 'failed', error: 'Database not available' };
+
+  const [original] = await db
+    .select()
+    .from(webhookDeliveryLog)
+    .where(eq(webhookDeliveryLog.id, deliveryId))
+    .limit(1);
+  if (!original) return { success: false, status: 'failed', error: 'Delivery not found' };
+
+  // A replay supersedes any automatic retry still pending on the original
+  if (original.status === 'retrying') {
+    await db
+      .update(webhookDeliveryLog)
+      .set({ status: 'failed', nextAttemptAt: null })
+      .where(eq(webhookDeliveryLog.id, deliveryId));
+  }
+
+  const result = await db.insert(webhookDeliveryLog).values({
+    subscriptionId: original.subscriptionId,
+    companyId: original.companyId,
+    eventId: original.eventId,
+    eventType: original.eventType,
+    payload: original.payload,
+    status: 'pending',
+    // Manual replays get a single attempt; failures can be replayed again
+    maxAttempts: 1,
+    replayOfDeliveryId: original.id,
+    replayedBy,
+  });
+  const newDeliveryId = Number(result[0].insertId);
+
+  const outcome = await attemptWebhookDelivery(newDeliveryId);
+  return { success: outcome.success, deliveryId: newDeliveryId, status: outcome.status, error: outcome.error };
+}
+
+/**
+ * Send a test ping to a subscription regardless of its event filter
+ */
+export async function sendTestWebhook(subscriptionId: number): Promise<{ success: boolean; status: string; responseStatus?: number; error?: string }> {
+  const db = await getDb();
+  if (!db) return { success: false, status: 'failed', error: 'Database not available' };
+
+  const [subscription] = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, subscriptionId))
+    .limit(1);
+  if (!subscription) return { success: false, status: 'failed', error: 'Subscription not found' };
+
+  const event = {
+    id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+    type: 'ping',
+    createdAt: new Date().toISOString(),
+    companyId: subscription.companyId,
+    data: { message: 'Test delivery from BCA System', subscriptionId },
+  };
+
+  const result = await db.insert(webhookDeliveryLog).values({
+    subscriptionId,
+    companyId: subscription.companyId,
+    eventId: event.id,
+    eventType: event.type,
+    payload: JSON.stringify(event),
+    status: 'pending',
+    maxAttempts: 1,
+  });
+
+  return attemptWebhookDelivery(Number(result[0].insertId), subscription);
+}
+
+/**
+ * Retry deliveries whose backoff has elapsed
+ */
+export async function processPendingWebhookRetries(): Promise<number> {
+  try {
+    const db = await getDb();
+    if (!db) return 0;
+
+    const due = await db
+      .select({ id: webhookDeliveryLog.id })
+      .from(webhookDeliveryLog)
+      .where(
+        and(
+          eq(webhookDeliveryLog.status, 'retrying'),
+          lte(webhookDeliveryLog.nextAttemptAt, new Date().toISOString())
+        )
+      )
+      .limit(100);
+
+    for (const delivery of due) {
+      await attemptWebhookDelivery(delivery.id);
+    }
+
+    return due.length;
+  } catch (error) {
+    console.error('[Webhooks] Error processing pending retries:', error);
+    return 0;
+  }
+}
+
+let retryTask: ReturnType<typeof cron.schedule> | null = null;
+
+/**
+ * Start the webhook retry worker
+ * Checks for deliveries due for retry every minute
+ */
+export function startWebhookRetryWorker(): void {
+  if (retryTask) {
+    console.log('[Webhooks] Retry worker already running');
+    return;
+  }
+
+  retryTask = cron.schedule('* * * * *', async () => {
+    await processPendingWebhookRetries();
+  }, {
+    name: 'webhook-retries',
+    noOverlap: true,
+  });
+
+  console.log('[Webhooks] Retry worker started');
+}
+
+/**
+ * Stop the webhook retry worker
+ */
+export function stopWebhookRetryWorker(): void {
+  if (retryTask) {
+    retryTask.stop();
+    retryTask = null;
+    console.log('[Webhooks] Retry worker stopped');
+  }
+}
@@ -9,6 +9,8 @@ vi.mock("./db", async (importOriginal) => {
     ...actual,
     updateUserUnitPreference: vi.fn().mockResolvedValue(undefined),
     getUserUnitPreference: vi.fn().mockResolvedValue("metric"),
+    updateUserLanguagePreference: vi.fn().mockResolvedValue(undefined),
+    getUserLanguagePreference: vi.fn().mockResolvedValue("fr"),
   };
 });
 
@@ -135,4 +137,52 @@ describe("settings router", () => {
       await expect(caller.settings.getUnitPreference()).rejects.toThrow();
     });
   });
+
+  describe("updateLanguagePreference", () => {
+    it("should update language preference to French", async () => {
+      const ctx = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
+      const result = await caller.settings.updateLanguagePreference({ 
+        languagePreference: "fr" 
+      });
+
+      expect(result).toEqual({ success: true, languagePreference: "fr" });
+      expect(db.updateUserLanguagePreference).toHaveBeenCalledWith(1, "fr");
+    });
+
+    it("should reject unsupported languages", async () => {
+      const ctx = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(
+        caller.settings.updateLanguagePreference({ 
+          languagePreference: "de" as any 
+        })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("getLanguagePreference", () => {
+    it("should return user language preference", async () => {
+      const ctx = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
+      const result = await caller.settings.getLanguagePreference();
+
+      expect(result).toEqual({ languagePreference: "fr" });
+      expect(db.getUserLanguagePreference).toHaveBeenCalledWith(1);
+    });
+
+    it("should return English as default when no preference is set", async () => {
+      vi.mocked(db.getUserLanguagePreference).mockResolvedValueOnce(null);
+      
+      const ctx = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
+      const result = await caller.settings.getLanguagePreference();
+
+      expect(result).toEqual({ languagePreference: "en" });
+    });
+  });
 });
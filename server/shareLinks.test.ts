@@ -0,0 +1,45 @@
+/**
+ * Tests for external share link tokens, passwords and expiry
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  generateShareToken,
+  getShareLinkExpiry,
+  getShareLinkStatus,
+  getShareTokenLookupPrefix,
+  hashSharePassword,
+  hashShareToken,
+  isWellFormedShareToken,
+  verifySharePassword,
+} from "./services/shareLinkService";
+
+describe("external share links", () => {
+  it("should issue unique well-formed tokens with a stable lookup prefix", () => {
+    const token = generateShareToken();
+    expect(isWellFormedShareToken(token)).toBe(true);
+    expect(token).not.toBe(generateShareToken());
+    expect(getShareTokenLookupPrefix(token)).toBe(token.slice(0, 12));
+    expect(hashShareToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    expect(isWellFormedShareToken("bca_" + "a".repeat(48))).toBe(false);
+  });
+
+  it("should verify passwords against a salted hash", () => {
+    const stored = hashSharePassword("council-2026");
+    expect(stored).not.toContain("council-2026");
+    expect(verifySharePassword("council-2026", stored)).toBe(true);
+    expect(verifySharePassword("council-2025", stored)).toBe(false);
+    expect(verifySharePassword("council-2026", "garbage")).toBe(false);
+    expect(hashSharePassword("council-2026")).not.toBe(stored);
+  });
+
+  it("should report revoked and expired links", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    const expiresAt = getShareLinkExpiry(7, now);
+
+    expect(expiresAt).toBe("2026-03-08 12:00:00");
+    expect(getShareLinkStatus({ expiresAt, revokedAt: null }, now)).toBe("active");
+    expect(getShareLinkStatus({ expiresAt, revokedAt: "2026-03-02 09:00:00" }, now)).toBe("revoked");
+    expect(getShareLinkStatus({ expiresAt, revokedAt: null }, new Date("2026-03-09T00:00:00Z"))).toBe("expired");
+  });
+});
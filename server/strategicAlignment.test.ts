@@ -0,0 +1,66 @@
+/**
+ * Tests for strategic objective alignment of prioritization scores
+ */
+
+import { describe, expect, it } from "vitest";
+import { calculateObjectiveAlignment } from "./services/prioritization.service";
+
+describe("strategic objective alignment", () => {
+  const criteriaScores = [
+    { criteriaId: 1, criteriaName: "Safety", score: 8, weight: 50 },
+    { criteriaId: 2, criteriaName: "Energy Savings", score: 6, weight: 30 },
+    { criteriaId: 3, criteriaName: "Urgency", score: 10, weight: 20 },
+  ];
+  const objectives = [
+    { id: 10, name: "Safe public facilities" },
+    { id: 11, name: "Net zero by 2040" },
+  ];
+
+  it("should attribute linked criteria to their objectives", () => {
+    const result = calculateObjectiveAlignment(
+      criteriaScores,
+      [
+        { criteriaId: 1, objectiveId: 10, alignmentStrength: "1.00" },
+        { criteriaId: 2, objectiveId: 11, alignmentStrength: "0.50" },
+      ],
+      objectives
+    );
+
+    expect(result.compositeScore).toBeCloseTo(7.8, 6);
+    expect(result.objectiveAlignment[0].score).toBeCloseTo(4, 6);
+    expect(result.objectiveAlignment[1].score).toBeCloseTo(0.9, 6);
+    expect(result.alignmentScore).toBeCloseTo(4.9, 6);
+    expect(result.objectiveAlignment[0].share).toBeCloseTo(4 / 7.8, 6);
+    expect(result.objectiveAlignment[1].criteria).toEqual([
+      { criteriaId: 2, criteriaName: "Energy Savings", alignmentStrength: 0.5, contribution: 0.9 },
+    ]);
+  });
+
+  it("should not count a criterion serving several objectives more than once", () => {
+    const result = calculateObjectiveAlignment(
+      criteriaScores,
+      [
+        { criteriaId: 2, objectiveId: 10, alignmentStrength: 1 },
+        { criteriaId: 2, objectiveId: 11, alignmentStrength: 1 },
+      ],
+      objectives
+    );
+
+    expect(result.objectiveAlignment.map(o => o.score)).toEqual([0.9, 0.9]);
+    expect(result.alignmentScore).toBeCloseTo(1.8, 6);
+  });
+
+  it("should ignore links to inactive objectives", () => {
+    const result = calculateObjectiveAlignment(
+      criteriaScores,
+      [
+        { criteriaId: 1, objectiveId: 10, alignmentStrength: 1 },
+        { criteriaId: 1, objectiveId: 99, alignmentStrength: 1 },
+      ],
+      objectives
+    );
+
+    expect(result.objectiveAlignment[0].score).toBeCloseTo(4, 6);
+    expect(result.objectiveAlignment[1]).toMatchObject({ score: 0, share: 0, criteria: [] });
+  });
+});
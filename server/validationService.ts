@@ -1,4 +1,16 @@
+import { and, desc, eq, inArray, isNull, type SQL } from "drizzle-orm";
 import * as db from "./db";
+import { getAssetById } from "./db-assets";
+import { assessments, assets, projects } from "../drizzle/schema";
+import {
+  compileRuleExpression,
+  evaluateCustomLogicRule,
+  evaluateRuleExpression,
+  getCustomLogicExpression,
+  RuleExpressionError,
+  type CompiledRuleExpression,
+  type RuleScopeData,
+} from "../shared/ruleExpression";
 
 export interface ValidationResult {
   isValid: boolean;
@@ -11,9 +23,16 @@ export interface ValidationResult {
 
 export interface ValidationContext {
   projectId: number;
+  /** Asset the assessment belongs to, for custom rules that read asset fields */
+  assetId?: number;
   assessmentData?: any;
   deficiencyData?: any;
   userId: number;
+  /** Caller's company and roles, so project lookups apply the same access checks as the routers */
+  company?: string | null;
+  isAdmin?: boolean;
+  companyId?: number | null;
+  isSuperAdmin?: boolean;
 }
 
 /**
@@ -53,6 +72,11 @@ async function evaluateRule(
   data: any,
   context: ValidationContext
 ): Promise<ValidationResult | null> {
+  // custom_logic conditions are expressions rather than JSON settings
+  if (rule.ruleType === "custom_logic") {
+    return evaluateCustomLogic(rule, data, context);
+  }
+
   const condition = JSON.parse(rule.condition);
   
   switch (rule.ruleType) {
@@ -68,9 +92,6 @@ async function evaluateRule(
     case "required_field":
       return evaluateRequiredField(rule, data, condition);
     
-    case "custom_logic":
-      return evaluateCustomLogic(rule, data, condition, context);
-    
     default:
       return null;
   }
@@ -87,7 +108,7 @@ async function evaluateSameYearInspection(
   context: ValidationContext
 ): Promise<ValidationResult | null> {
   // Get project installation year
-  const project = await db.getProjectById(context.projectId, context.userId);
+  const project = await db.getProjectById(context.projectId, context.userId, context.company, context.isAdmin, context.companyId, context.isSuperAdmin);
   if (!project || !project.yearBuilt) {
     return null;
   }
@@ -233,17 +254,99 @@ function evaluateRequiredField(
 }
 
 /**
- * Evaluate custom validation logic
+ * Evaluate custom validation logic: the rule's expression (see shared/ruleExpression)
+ * fires when it is true for the assessment and its asset and project
  */
 async function evaluateCustomLogic(
   rule: any,
   data: any,
-  condition: any,
   context: ValidationContext
 ): Promise<ValidationResult | null> {
-  // Custom logic can be extended here
-  // For now, return null (no validation)
-  return null;
+  let compiled: CompiledRuleExpression;
+  try {
+    compiled = compileRuleExpression(getCustomLogicExpression(rule.condition));
+  } catch (error) {
+    // Rules are checked when saved, so this only happens for rules saved before that
+    if (error instanceof RuleExpressionError) {
+      console.warn(`[Validation] Skipping custom rule ${rule.id}: ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+
+  const scopes: RuleScopeData = { assessment: data };
+  if (compiled.scopes.includes("asset") && context.assetId) {
+    scopes.asset = await getAssetById(context.assetId, context.projectId);
+  }
+  if (compiled.scopes.includes("project")) {
+    scopes.project = await db.getProjectById(context.projectId, context.userId, context.company, context.isAdmin, context.companyId, context.isSuperAdmin);
+  }
+
+  return evaluateCustomLogicRule(rule, compiled, scopes);
+}
+
+export interface CustomLogicTestMatch {
+  assessmentId: number;
+  projectId: number | null;
+  projectName: string | null;
+  assetId: number | null;
+  assetName: string | null;
+  componentCode: string | null;
+  componentName: string | null;
+  condition: string | null;
+}
+
+/**
+ * Run a custom_logic expression against the most recently updated assessments, for
+ * the rule test bench. Only projects of companyName are used when it is given.
+ */
+export async function testCustomLogicExpression(params: {
+  expression: string;
+  projectId?: number;
+  companyName?: string | null;
+  limit: number;
+}): Promise<{ tested: number; matches: CustomLogicTestMatch[] }> {
+  const compiled = compileRuleExpression(params.expression);
+
+  const database = await db.getDb();
+  if (!database) throw new Error("Database not available");
+
+  const conditions: SQL[] = [isNull(assessments.deletedAt)];
+  if (params.projectId) conditions.push(eq(assessments.projectId, params.projectId));
+  if (params.companyName) conditions.push(eq(projects.company, params.companyName));
+
+  const rows = await database
+    .select({ assessment: assessments, project: projects })
+    .from(assessments)
+    .innerJoin(projects, eq(assessments.projectId, projects.id))
+    .where(and(...conditions))
+    .orderBy(desc(assessments.updatedAt))
+    .limit(params.limit);
+
+  const assetIds = Array.from(new Set(rows.map(row => row.assessment.assetId).filter((id): id is number => id !== null)));
+  const assetRows = assetIds.length > 0
+    ? await database.select().from(assets).where(inArray(assets.id, assetIds))
+    : [];
+  const assetsById = new Map(assetRows.map(asset => [asset.id, asset]));
+
+  const matches: CustomLogicTestMatch[] = [];
+  for (const { assessment, project } of rows) {
+    const asset = assessment.assetId !== null ? assetsById.get(assessment.assetId) : undefined;
+    if (!evaluateRuleExpression(compiled, { assessment, asset, project })) continue;
+
+    matches.push({
+      assessmentId: assessment.id,
+      projectId: assessment.projectId,
+      projectName: project.name,
+      assetId: assessment.assetId,
+      assetName: asset?.name ?? null,
+      componentCode: assessment.componentCode,
+      componentName: assessment.componentName,
+      condition: assessment.condition,
+    });
+  }
+
+  return { tested: rows.length, matches };
 }
 
 /**
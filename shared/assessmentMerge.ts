@@ -0,0 +1,183 @@
+/**
+ * Field-level three-way merge for assessments edited offline.
+ *
+ * The offline client keeps a snapshot of the server assessment it started
+ * editing from (the "base", with its version number). At sync time each field
+ * is compared across base, local and the current server row:
+ * - only local changed  -> take the local value
+ * - only server changed -> keep the server value
+ * - both changed to different values -> conflict, returned for the user to resolve
+ */
+
+export const MERGEABLE_ASSESSMENT_FIELDS = [
+  "condition",
+  "status",
+  "conditionPercentage",
+  "componentName",
+  "componentLocation",
+  "observations",
+  "recommendations",
+  "remainingUsefulLife",
+  "expectedUsefulLife",
+  "reviewYear",
+  "lastTimeAction",
+  "estimatedRepairCost",
+  "replacementValue",
+  "actionYear",
+] as const;
+
+export type MergeableAssessmentField = (typeof MERGEABLE_ASSESSMENT_FIELDS)[number];
+
+export type AssessmentFieldValue = string | number | null;
+
+export type AssessmentFieldValues = Partial<Record<MergeableAssessmentField, AssessmentFieldValue | undefined>>;
+
+export const ASSESSMENT_FIELD_LABELS: Record<MergeableAssessmentField, string> = {
+  condition: "Condition",
+  status: "Status",
+  conditionPercentage: "Condition %",
+  componentName: "Component Name",
+  componentLocation: "Location",
+  observations: "Observations",
+  recommendations: "Recommendations",
+  remainingUsefulLife: "Remaining Useful Life",
+  expectedUsefulLife: "Expected Useful Life",
+  reviewYear: "Review Year",
+  lastTimeAction: "Last Time Action",
+  estimatedRepairCost: "Estimated Repair Cost",
+  replacementValue: "Replacement Value",
+  actionYear: "Action Year",
+};
+
+// Decimal columns come back from MySQL as strings ("1250.00")
+const NUMERIC_FIELDS = new Set<MergeableAssessmentField>([
+  "remainingUsefulLife",
+  "expectedUsefulLife",
+  "reviewYear",
+  "lastTimeAction",
+  "estimatedRepairCost",
+  "replacementValue",
+  "actionYear",
+]);
+
+export interface ConflictField {
+  field: MergeableAssessmentField;
+  label: string;
+  localValue: AssessmentFieldValue;
+  serverValue: AssessmentFieldValue;
+  baseValue?: AssessmentFieldValue;
+}
+
+/**
+ * Shape consumed by ConflictResolutionDialog
+ */
+export interface SyncConflict {
+  id: string;
+  entityType: "assessment";
+  entityId: string;
+  localTimestamp: number;
+  serverTimestamp: number;
+  fields: ConflictField[];
+}
+
+export interface ThreeWayMergeResult {
+  /** Local values that can be written without overwriting a concurrent server edit */
+  patch: AssessmentFieldValues;
+  mergedFields: MergeableAssessmentField[];
+  conflicts: ConflictField[];
+}
+
+/**
+ * Normalize a field value for comparison: empty -> null, decimals -> numbers
+ */
+export function normalizeFieldValue(field: MergeableAssessmentField, value: unknown): AssessmentFieldValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" && value.trim() === "") return null;
+  if (NUMERIC_FIELDS.has(field)) {
+    const num = typeof value === "number" ? value : Number(value);
+    return Number.isFinite(num) ? num : null;
+  }
+  return typeof value === "string" ? value : String(value);
+}
+
+/**
+ * Pick the mergeable fields out of an assessment row or form payload
+ */
+export function pickAssessmentFields(source: Record<string, unknown>): AssessmentFieldValues {
+  const values: AssessmentFieldValues = {};
+  for (const field of MERGEABLE_ASSESSMENT_FIELDS) {
+    if (field in source && source[field] !== undefined) {
+      values[field] = normalizeFieldValue(field, source[field]);
+    }
+  }
+  return values;
+}
+
+/**
+ * Three-way merge of local edits onto the current server row.
+ *
+ * Without a base (an assessment created offline for a component that was
+ * assessed on the server meanwhile) fields only set on one side are merged and
+ * fields set differently on both sides are conflicts.
+ */
+export function threeWayMerge(
+  base: AssessmentFieldValues | null | undefined,
+  local: AssessmentFieldValues,
+  server: Record<string, unknown>
+): ThreeWayMergeResult {
+  const patch: AssessmentFieldValues = {};
+  const mergedFields: MergeableAssessmentField[] = [];
+  const conflicts: ConflictField[] = [];
+
+  for (const field of MERGEABLE_ASSESSMENT_FIELDS) {
+    // With a base, a field missing locally means the user cleared it;
+    // without one only the fields the client actually sent take part.
+    const inLocal = field in local && local[field] !== undefined;
+    if (!inLocal && !(base && field in base)) continue;
+
+    const localValue = normalizeFieldValue(field, local[field]);
+    const serverValue = normalizeFieldValue(field, server[field]);
+    if (localValue === serverValue) continue;
+
+    if (base) {
+      const baseValue = normalizeFieldValue(field, base[field]);
+      if (localValue === baseValue) continue;
+      if (serverValue === baseValue) {
+        patch[field] = localValue;
+        mergedFields.push(field);
+        continue;
+      }
+      conflicts.push({ field, label: ASSESSMENT_FIELD_LABELS[field], localValue, serverValue, baseValue });
+      continue;
+    }
+
+    if (serverValue === null) {
+      patch[field] = localValue;
+      mergedFields.push(field);
+    } else if (localValue !== null) {
+      conflicts.push({ field, label: ASSESSMENT_FIELD_LABELS[field], localValue, serverValue, baseValue: null });
+    }
+  }
+
+  return { patch, mergedFields, conflicts };
+}
+
+/**
+ * Wrap unresolved fields in the conflict shape the client dialog renders
+ */
+export function buildSyncConflict(
+  offlineId: string,
+  assessmentId: number,
+  localTimestamp: number,
+  serverTimestamp: number,
+  fields: ConflictField[]
+): SyncConflict {
+  return {
+    id: offlineId,
+    entityType: "assessment",
+    entityId: String(assessmentId),
+    localTimestamp,
+    serverTimestamp,
+    fields,
+  };
+}
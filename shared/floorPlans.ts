@@ -0,0 +1,145 @@
+/**
+ * Floor plan pins and heat-map overlays
+ * Shared by the floor plan viewer and the PDF report snapshots so both render the same picture
+ */
+
+export type FloorPlanPinType = 'photo' | 'deficiency' | 'assessment';
+export type FloorPlanHeatmapMode = 'condition' | 'severity';
+
+/**
+ * A photo, deficiency or assessment placed on a floor plan
+ * x and y are fractions (0-1) of the image width and height, so pins survive image resizing
+ */
+export interface FloorPlanPin {
+  type: FloorPlanPinType;
+  id: number;
+  x: number;
+  y: number;
+  label: string;
+  componentCode?: string | null;
+  condition?: string | null;
+  severity?: string | null;
+  priority?: string | null;
+  status?: string | null;
+  thumbnailUrl?: string | null;
+}
+
+export interface FloorPlanHeatmapGrid {
+  columns: number;
+  rows: number;
+  /** Row-major intensities, 0 (no concern) to 1 (worst) */
+  cells: number[];
+}
+
+// Higher weight = worse; excellent/good components barely register on the overlay
+export const CONDITION_WEIGHTS: Record<string, number> = {
+  excellent: 0,
+  good: 0.15,
+  fair: 0.5,
+  poor: 0.8,
+  critical: 1,
+};
+
+export const SEVERITY_WEIGHTS: Record<string, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+  critical: 1,
+};
+
+export const PIN_COLORS: Record<FloorPlanPinType, [number, number, number]> = {
+  photo: [59, 130, 246],
+  deficiency: [239, 68, 68],
+  assessment: [64, 182, 176],
+};
+
+/**
+ * Map the 1-5 condition rating used by older assessments onto condition names
+ */
+function ratingToCondition(rating: string): string | null {
+  const map: Record<string, string> = { '1': 'excellent', '2': 'good', '3': 'fair', '4': 'poor', '5': 'critical' };
+  return map[rating] ?? null;
+}
+
+/**
+ * Weight a pin contributes to the heat map, or null if it does not apply to the mode
+ * Condition maps use assessment pins; severity maps use deficiency pins
+ */
+export function getPinHeatWeight(pin: FloorPlanPin, mode: FloorPlanHeatmapMode): number | null {
+  if (mode === 'condition') {
+    if (pin.type !== 'assessment' || !pin.condition) return null;
+    const condition = pin.condition.toLowerCase();
+    const weight = CONDITION_WEIGHTS[condition] ?? CONDITION_WEIGHTS[ratingToCondition(condition) ?? ''];
+    return weight ?? null;
+  }
+
+  if (pin.type !== 'deficiency' || !pin.severity) return null;
+  // Resolved deficiencies no longer contribute to hot spots
+  if (pin.status === 'resolved') return null;
+  return SEVERITY_WEIGHTS[pin.severity.toLowerCase()] ?? null;
+}
+
+/**
+ * Rasterize pins into a grid of intensities
+ * Each pin spreads a Gaussian falloff; overlapping pins keep the strongest value so
+ * a cluster of minor issues never outweighs a single critical one.
+ *
+ * @param aspectRatio image width / height, so the falloff is circular on screen
+ * @param radius falloff standard deviation as a fraction of the image height
+ */
+export function computeHeatmapGrid(
+  pins: FloorPlanPin[],
+  mode: FloorPlanHeatmapMode,
+  options: { aspectRatio?: number; columns?: number; radius?: number } = {}
+): FloorPlanHeatmapGrid {
+  const aspectRatio = options.aspectRatio && options.aspectRatio > 0 ? options.aspectRatio : 1;
+  const columns = options.columns ?? 48;
+  const rows = Math.max(1, Math.round(columns / aspectRatio));
+  const radius = options.radius ?? 0.08;
+  const twoSigmaSquared = 2 * radius * radius;
+
+  const sources = pins
+    .map(pin => ({ pin, weight: getPinHeatWeight(pin, mode) }))
+    .filter((s): s is { pin: FloorPlanPin; weight: number } => s.weight !== null && s.weight > 0);
+
+  const cells = new Array<number>(columns * rows).fill(0);
+  if (sources.length === 0) return { columns, rows, cells };
+
+  for (let row = 0; row < rows; row++) {
+    const cy = (row + 0.5) / rows;
+    for (let col = 0; col < columns; col++) {
+      const cx = (col + 0.5) / columns;
+      let value = 0;
+      for (const { pin, weight } of sources) {
+        const dx = (cx - pin.x) * aspectRatio;
+        const dy = cy - pin.y;
+        const contribution = weight * Math.exp(-(dx * dx + dy * dy) / twoSigmaSquared);
+        if (contribution > value) value = contribution;
+      }
+      cells[row * columns + col] = value;
+    }
+  }
+
+  return { columns, rows, cells };
+}
+
+/**
+ * Green → amber → red ramp for heat-map intensities
+ */
+export function heatmapColor(value: number): [number, number, number] {
+  const v = Math.min(1, Math.max(0, value));
+  if (v < 0.5) {
+    const t = v / 0.5;
+    return [Math.round(76 + (255 - 76) * t), Math.round(175 + (193 - 175) * t), Math.round(80 - 73 * t)];
+  }
+  const t = (v - 0.5) / 0.5;
+  return [Math.round(255 - 11 * t), Math.round(193 - 126 * t), Math.round(7 + 47 * t)];
+}
+
+/**
+ * Clamp a pin coordinate into the image bounds
+ */
+export function clampPinCoordinate(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(1, Math.max(0, value));
+}
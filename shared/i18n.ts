@@ -0,0 +1,983 @@
+/**
+ * Localization utilities for English/French UI text, enum labels and generated reports
+ * Used by the client LanguageContext and by the server-side report generators
+ */
+
+export type Language = 'en' | 'fr';
+
+export const SUPPORTED_LANGUAGES: readonly Language[] = ['en', 'fr'] as const;
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  fr: 'Français',
+};
+
+// Intl locales; fr-CA matches the Canadian French used in the catalog
+const LOCALES: Record<Language, string> = {
+  en: 'en-US',
+  fr: 'fr-CA',
+};
+
+// ============================================
+// MESSAGE CATALOGS
+// ============================================
+
+const en = {
+  // Common
+  'common.signIn': 'Sign in',
+  'common.signInPrompt': 'Please sign in to continue',
+  'common.logout': 'Logout',
+  'common.user': 'User',
+  'common.language': 'Language',
+  'common.clearAll': 'Clear all',
+  'common.filterBy': 'Filter by:',
+  'common.filtersActive': '{count} filters active',
+  'common.filterActive': '1 filter active',
+  'common.noFilters': 'No filters applied',
+  'common.notAvailable': 'N/A',
+  'common.years': '{count} years',
+  'common.page': 'Page {page} of {total}',
+
+  // Navigation
+  'nav.projects': 'Projects',
+  'nav.rsmeans': 'RSMeans Cost Data',
+  'nav.search': 'Search',
+  'nav.reportingAnalytics': 'Reporting & Analytics',
+  'nav.portfolioAnalytics': 'Portfolio Analytics and BI',
+  'nav.predictions': 'Predictions',
+  'nav.prioritization': 'Prioritization',
+  'nav.capitalBudget': 'Capital Budget',
+  'nav.singleAssetReport': 'Single Asset Report',
+  'nav.portfolioWideReport': 'Portfolio-Wide Report',
+  'nav.sustainabilityEsg': 'Sustainability & ESG',
+  'nav.esgDashboard': 'ESG Dashboard',
+  'nav.esgLeed': 'ESG & LEED',
+  'nav.aiCarbonRecommendations': 'AI Carbon Recommendations',
+  'nav.leedComplianceReport': 'LEED Compliance Report',
+  'nav.sustainability': 'Sustainability',
+  'nav.carbonFootprint': 'Carbon Footprint',
+  'nav.deletedProjects': 'Deleted Projects',
+  'nav.administration': 'Administration',
+  'nav.adminDashboard': 'Admin Dashboard',
+  'nav.buildingTemplates': 'Building Templates',
+  'nav.bulkServiceLife': 'Bulk Service Life',
+  'nav.compliance': 'Compliance',
+  'nav.dataSecurity': 'Data Security',
+  'nav.auditTrail': 'Audit Trail',
+  'nav.archive': 'Archive',
+  'nav.economicIndicators': 'Economic Indicators',
+  'nav.portfolioTargets': 'Portfolio Targets',
+
+  // Filters
+  'filters.assetType': 'Asset Type',
+  'filters.allAssetTypes': 'All Asset Types',
+  'filters.condition': 'Condition',
+  'filters.allConditions': 'All Conditions',
+  'filters.status': 'Status',
+  'filters.allStatus': 'All Status',
+  'funding.funded': 'Funded',
+  'funding.proposed': 'Proposed',
+  'funding.deferred': 'Deferred',
+
+  // Enum labels
+  'condition.excellent': 'Excellent',
+  'condition.good': 'Good',
+  'condition.fair': 'Fair',
+  'condition.poor': 'Poor',
+  'condition.critical': 'Critical',
+  'condition.failed': 'Failed',
+  'condition.not_assessed': 'Not Assessed',
+  'severity.low': 'Low',
+  'severity.medium': 'Medium',
+  'severity.high': 'High',
+  'severity.critical': 'Critical',
+  'priority.immediate': 'Immediate',
+  'priority.short_term': 'Short Term',
+  'priority.medium_term': 'Medium Term',
+  'priority.long_term': 'Long Term',
+  'priority.high': 'High',
+  'priority.medium': 'Medium',
+  'priority.low': 'Low',
+
+  // Shared report labels
+  'report.project': 'Project',
+  'report.address': 'Address',
+  'report.generated': 'Generated',
+  'report.disclaimer': 'Disclaimer',
+  'report.facility': 'Facility',
+  'report.overallCondition': 'Overall Condition',
+  'report.healthScore': 'Health Score',
+  'report.fci': 'FCI',
+  'report.component': 'Component',
+  'report.location': 'Location',
+  'report.condition': 'Condition',
+  'report.remainingLife': 'Remaining Life',
+  'report.remainingLifeYears': 'Remaining Life (years)',
+  'report.repairCost': 'Repair Cost',
+  'report.costType': 'Cost Type',
+  'report.amount': 'Amount',
+  'report.identifiedCosts': 'Identified Costs',
+  'report.plannedCosts': 'Planned Costs',
+  'report.executedCosts': 'Executed Costs',
+  'report.totalCosts': 'Total Costs',
+  'report.description': 'Description',
+  'report.priority': 'Priority',
+  'report.urgency': 'Urgency',
+  'report.cost': 'Cost',
+  'report.estimatedCost': 'Estimated Cost',
+  'report.summary': 'Summary',
+  'report.property': 'Property',
+  'report.value': 'Value',
+  'report.projectName': 'Project Name',
+  'report.reportGenerated': 'Report Generated',
+  'report.template': 'Template',
+  'report.sectionContent': '[{section} content]',
+  'report.sectionPending': '[{section} content will be rendered here]',
+
+  // ESG report
+  'esg.title': 'ESG Compliance Report',
+  'esg.portfolioSummary': 'Portfolio Summary',
+  'esg.reportDate': 'Report Date: {date}',
+  'esg.reportPeriod': 'Report Period: {start} - {end}',
+  'esg.grade': 'Grade: {grade}',
+  'esg.totalProjects': 'Total Projects: {count}',
+  'esg.excellentZone': 'Excellent Zone: {count}',
+  'esg.goodZone': 'Good Zone: {count}',
+  'esg.fairZone': 'Fair Zone: {count}',
+  'esg.poorZone': 'Poor Zone: {count}',
+  'esg.projectRatings': 'Project ESG Ratings',
+  'esg.score': 'Score',
+  'esg.gradeColumn': 'Grade',
+  'esg.energy': 'Energy',
+  'esg.water': 'Water',
+  'esg.waste': 'Waste',
+  'esg.certifications': 'Certifications',
+  'esg.expires': 'Expires: {date}',
+  'esg.improvementActions': 'Improvement Actions',
+  'esg.actionTypeStatus': 'Type: {type} | Status: {status}',
+  'esg.estimatedCost': 'Est. Cost: {cost}',
+  'esg.goals': 'Sustainability Goals',
+  'esg.goalProgress': 'Baseline: {baseline} → Target: {target} | Status: {status}',
+  'esg.footer': 'Page {page} of {total} | Generated by B³NMA Building Condition Assessment System',
+  'esg.recordTitleProject': 'ESG Report - {name}',
+  'esg.recordTitlePortfolio': 'Portfolio ESG Report',
+  'esg.grade.A+': 'Exceptional',
+  'esg.grade.A': 'Excellent',
+  'esg.grade.A-': 'Very Good',
+  'esg.grade.B+': 'Good',
+  'esg.grade.B': 'Above Average',
+  'esg.grade.B-': 'Satisfactory',
+  'esg.grade.C+': 'Fair',
+  'esg.grade.C': 'Average',
+  'esg.grade.C-': 'Below Average',
+  'esg.grade.D+': 'Needs Improvement',
+  'esg.grade.D': 'Poor',
+  'esg.grade.D-': 'Critical',
+  'esg.grade.F': 'Failing',
+
+  // Professional BCA report
+  'bca.title': 'Building Condition Assessment - BCA',
+  'bca.propertyPhoto': 'Property Photo {number}',
+  'bca.northwestView': 'Northwest View',
+  'bca.southwestView': 'Southwest View',
+  'bca.property': 'Property:',
+  'bca.client': 'Client:',
+  'bca.clientLogo': 'Client Logo',
+  'bca.issued': 'Issued:',
+  'bca.revision': 'Revision #{number}',
+  'bca.finalForClient': 'Final for Client Distribution',
+  'bca.internalReview': 'For Internal Review',
+  'bca.coverPage': 'Cover Page',
+  'bca.tocHeading': '1) Table Of Contents',
+  'bca.tocPending': '(Table of Contents will be generated after all sections)',
+  'bca.toc': 'Table of Contents',
+  'bca.introduction': '2) Introduction',
+  'bca.scopeTitle': 'Scope Work and Objective',
+  'bca.scopeText': `Commissioned by {client}, B3NMA has carried out a Building Condition Assessment (BCA) for the {property}.
+
+This report provides an on-site visual review and assessment of the property's major systems, including the building envelope, mechanical & electrical systems (referred to in this report as "Services"), and exposed structural components and assemblies, with a focus on their current performance, durability, and remaining service life.
+
+The purpose of this report is to assist the Client in developing a clear understanding of the current condition of the property and to identify potential issues or maintenance requirements that may arise in the short, medium, and long term. This information is intended to support proactive planning, budgeting, and decision-making related to the repair, renewal, and overall management of the building's assets.`,
+  'bca.propertyInformation': 'Property Information',
+  'bca.propertyDescription': 'Description:',
+  'bca.name': 'Name: {value}',
+  'bca.address': 'Address: {value}',
+  'bca.typeOfConstruction': 'Type of Construction: {value}',
+  'bca.occupancy': 'Occupancy: {value}',
+  'bca.numberOfBuildings': 'Number of Units / Buildings: {value}',
+  'bca.numberOfStoreys': 'Height / Number of Storeys: {value}',
+  'bca.yearOfConstruction': 'Year of Construction: {value}',
+  'bca.buildingCode': 'Applicable Building Code: {value}',
+  'bca.dashboard': 'Dashboard',
+  'bca.metric': 'Metric',
+  'bca.value': 'Value',
+  'bca.totalAssets': 'Total Assets',
+  'bca.totalComponents': 'Total Components',
+  'bca.totalCRV': 'Total Current Replacement Value (CRV)',
+  'bca.totalDeferredMaintenance': 'Total Deferred Maintenance',
+  'bca.portfolioFCI': 'Portfolio Facility Condition Index (FCI)',
+  'bca.criticalItems': 'Critical Items (0-5 years)',
+  'bca.necessaryItems': 'Necessary Items (6-10 years)',
+  'bca.recommendedItems': 'Recommended Items (11-20 years)',
+  'bca.fiveYearCapitalNeed': '5-Year Capital Need',
+  'bca.unknownGroup': 'Unknown',
+  'bca.conditionOfEsl': '{label} – {percentage}% of ESL',
+  'bca.conditionLabel': 'Condition:',
+  'bca.estimatedServiceLife': 'Estimated Service Life:',
+  'bca.reviewYear': 'Review Year:',
+  'bca.lastTimeAction': 'Last Time Action:',
+  'bca.actionDescription': 'Action Description',
+  'bca.priority': 'Priority',
+  'bca.actionYear': 'Action Year',
+  'bca.currentCost': 'Current Cost',
+  'bca.actionsList': 'Actions List',
+  'bca.code': 'Code',
+  'bca.component': 'Component',
+  'bca.action': 'Action',
+  'bca.year': 'Year',
+  'bca.cost': 'Cost',
+  'bca.closingRemarks': 'Closing Remarks',
+  'bca.closingText': `This Building Condition Assessment report has been prepared to provide {client} with a comprehensive overview of the current condition of {property}.
+
+The findings and recommendations contained in this report are based on visual observations made during the site assessment and should be used as a guide for planning and budgeting purposes. Actual costs may vary based on market conditions, scope refinement, and detailed engineering assessments.
+
+We recommend that the client review this report with their facilities management team and prioritize actions based on available budget and operational requirements.
+
+For questions or clarification regarding this report, please contact B3NMA at {email} or {phone}.`,
+  'bca.progress.init': 'Initializing PDF generator...',
+  'bca.progress.cover': 'Generating cover page...',
+  'bca.progress.toc': 'Generating table of contents...',
+  'bca.progress.introduction': 'Generating introduction...',
+  'bca.progress.summary': 'Generating executive summary...',
+  'bca.progress.components': 'Generating component assessments...',
+  'bca.progress.component': 'Processing component {current} of {total}...',
+  'bca.progress.actions': 'Generating actions list...',
+  'bca.progress.closing': 'Generating closing remarks...',
+  'bca.progress.footers': 'Adding footers...',
+  'bca.progress.saving': 'Saving PDF...',
+  'bca.progress.complete': 'Complete!',
+  'bca.fileName': 'BCA_Report',
+
+  // Common actions
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.export': 'Export',
+  'common.import': 'Import',
+  'common.archive': 'Archive',
+  'common.unarchive': 'Unarchive',
+  'common.restore': 'Restore',
+  'common.hide': 'Hide',
+  'common.voiceInput': 'Voice Input',
+  'common.search': 'Search',
+  'common.areYouSure': 'Are you sure?',
+  'common.sortBy': 'Sort by:',
+  'common.filters': 'Filters:',
+  'common.ascending': 'Ascending',
+  'common.descending': 'Descending',
+  'common.from': 'From:',
+  'common.to': 'To:',
+  'common.unknown': 'Unknown',
+  'common.days': '{count} days',
+  'common.day': '1 day',
+
+  // Project status
+  'projectStatus.draft': 'Draft',
+  'projectStatus.in_progress': 'In Progress',
+  'projectStatus.completed': 'Completed',
+  'projectStatus.archived': 'Archived',
+  'projectStatus.deleted': 'Deleted',
+
+  // Projects page
+  'projects.subtitle': 'Manage your building condition assessment projects',
+  'projects.importJson': 'Import JSON',
+  'projects.newProject': 'New Project',
+  'projects.createTitle': 'Create New Project',
+  'projects.createDescription': 'Enter the details for your building condition assessment project',
+  'projects.createProject': 'Create Project',
+  'projects.field.name': 'Project Name *',
+  'projects.field.propertyAddress': 'Property Address',
+  'projects.field.propertyAddressPlaceholder': 'Enter property address',
+  'projects.field.streetAddress': 'Street Address',
+  'projects.field.city': 'City',
+  'projects.field.province': 'Province',
+  'projects.field.postalCode': 'Postal Code',
+  'projects.field.autoFilled': 'Auto-filled from address above',
+  'projects.field.address': 'Address',
+  'projects.field.clientName': 'Client Name',
+  'projects.field.propertyType': 'Property Type',
+  'projects.field.constructionType': 'Construction Type',
+  'projects.field.yearBuilt': 'Year Built',
+  'projects.field.numberOfUnits': 'Number of Units',
+  'projects.field.numberOfStories': 'Number of Stories',
+  'projects.field.buildingCode': 'Building Code',
+  'projects.field.observations': 'Initial Observations',
+  'projects.field.observationsPlaceholder': 'Enter any initial observations about the facility...',
+  'projects.field.selectType': 'Select type',
+  'projects.propertyType.residential': 'Residential',
+  'projects.propertyType.commercial': 'Commercial',
+  'projects.propertyType.industrial': 'Industrial',
+  'projects.propertyType.mixedUse': 'Mixed Use',
+  'projects.constructionType.woodFrame': 'Wood Frame',
+  'projects.constructionType.concrete': 'Concrete',
+  'projects.constructionType.steel': 'Steel',
+  'projects.constructionType.masonry': 'Masonry',
+  'projects.validation.yearBuilt': 'Year must be between 1800 and {max}',
+  'projects.validation.numberOfUnits': 'Number of units must be between 0 and 10,000',
+  'projects.validation.numberOfStories': 'Number of stories must be between 0 and 200',
+  'projects.validation.fixErrors': 'Please fix validation errors before submitting',
+  'projects.searchPlaceholder': 'Search projects...',
+  'projects.selectedCount': '{count} project(s) selected',
+  'projects.selectAll': 'Select All ({count})',
+  'projects.clearSelection': 'Clear Selection',
+  'projects.exportSelected': 'Export Selected',
+  'projects.changeStatus': 'Change Status',
+  'projects.deleteSelected': 'Delete Selected',
+  'projects.sort.updatedAt': 'Last Updated',
+  'projects.sort.createdAt': 'Date Created',
+  'projects.sort.name': 'Project Name',
+  'projects.clearFilter': 'Clear {count} filter',
+  'projects.clearFilters': 'Clear {count} filters',
+  'projects.showArchived': 'Show Archived',
+  'projects.showing': 'Showing {shown} of {total} projects',
+  'projects.loading': 'Loading projects...',
+  'projects.export.json': 'Full Project (JSON)',
+  'projects.export.excel': 'Data (Excel)',
+  'projects.export.assessmentsCsv': 'Assessments (CSV)',
+  'projects.export.deficienciesCsv': 'Deficiencies (CSV)',
+  'projects.export.cobie': 'COBie 2.4 (Excel)',
+  'projects.csvType.assessments': 'Assessments',
+  'projects.csvType.deficiencies': 'Deficiencies',
+  'projects.importCobie': 'Import COBie',
+  'projects.client': 'Client: {name}',
+  'projects.updated': 'Updated {date}',
+  'projects.built': 'Built: {year}',
+  'projects.noMatchTitle': 'No projects match your filters',
+  'projects.noMatchDescription': "Try adjusting your search query or filter criteria to find what you're looking for",
+  'projects.clearAllFilters': 'Clear All Filters',
+  'projects.emptyTitle': 'No projects yet',
+  'projects.emptyDescription': 'Get started by creating your first building condition assessment project and begin tracking facility conditions',
+  'projects.createFirst': 'Create Your First Project',
+  'projects.editTitle': 'Edit Project',
+  'projects.editDescription': 'Update the project information below.',
+  'projects.updateProject': 'Update Project',
+  'projects.deleteDescription': 'This will permanently delete the project "{name}" and all associated assessments, deficiencies, and photos. This action cannot be undone.',
+  'projects.deleteProject': 'Delete Project',
+  'projects.bulkDeleteTitle': 'Delete {count} Projects?',
+  'projects.bulkDeleteDescription': 'This will permanently delete {count} project(s) and all associated assessments, deficiencies, and photos. This action cannot be undone.',
+  'projects.bulkDeleteConfirm': 'Delete {count} Projects',
+  'projects.bulkStatusTitle': 'Change Status for {count} Projects',
+  'projects.bulkStatusDescription': 'Select the new status for the selected {count} project(s).',
+  'projects.newStatus': 'New Status',
+  'projects.selectedProjects': 'Selected projects: {names}',
+  'projects.updateStatus': 'Update Status',
+  'projects.importTitle': 'Import Project',
+  'projects.importDescription': 'Upload a JSON file exported from another BCA project',
+  'projects.importFile': 'Select JSON File',
+  'projects.importSelected': 'Selected: {name} ({size} KB)',
+  'projects.toast.bulkExported': 'Successfully exported {count} project(s) to Excel',
+  'projects.toast.bulkExportFailed': 'Failed to export selected projects',
+  'projects.toast.exported': 'Project exported successfully',
+  'projects.toast.exportFailed': 'Failed to export project',
+  'projects.toast.csvExported': '{type} exported to CSV successfully',
+  'projects.toast.csvExportFailed': 'Failed to export {type} to CSV',
+  'projects.toast.excelExported': 'Data exported to Excel successfully',
+  'projects.toast.excelExportFailed': 'Failed to export to Excel',
+  'projects.toast.cobieExported': 'COBie workbook exported successfully',
+  'projects.toast.cobieExportFailed': 'Failed to export COBie workbook',
+  'projects.toast.updated': 'Project updated successfully',
+  'projects.toast.updateFailed': 'Failed to update project',
+  'projects.toast.deleted': 'Project deleted successfully',
+  'projects.toast.deleteFailed': 'Failed to delete project',
+  'projects.toast.bulkDeleted': '{count} project(s) deleted successfully',
+  'projects.toast.bulkDeleteFailed': 'Failed to delete projects',
+  'projects.toast.statusUpdated': '{count} project(s) status updated successfully',
+  'projects.toast.statusPartial': '{count} project(s) failed to update',
+  'projects.toast.statusFailed': 'Failed to update project status',
+  'projects.toast.archived': 'Project archived successfully',
+  'projects.toast.archiveFailed': 'Failed to archive project',
+  'projects.toast.unarchived': 'Project unarchived successfully',
+  'projects.toast.unarchiveFailed': 'Failed to unarchive project',
+  'projects.toast.imported': 'Project imported successfully',
+  'projects.toast.importFailed': 'Failed to import project',
+  'projects.toast.selectFile': 'Please select a file to import',
+  'projects.toast.invalidJson': 'Invalid JSON file: {message}',
+  'projects.toast.created': 'Project created successfully',
+  'projects.toast.createFailed': 'Failed to create project: {message}',
+
+  // Deleted projects page
+  'deletedProjects.loading': 'Loading deleted projects...',
+  'deletedProjects.subtitle': 'Projects deleted within the last 90 days can be restored. After 90 days, they will be permanently deleted.',
+  'deletedProjects.emptyTitle': 'No deleted projects',
+  'deletedProjects.emptyDescription': 'Projects you delete will appear here for 90 days before being permanently removed.',
+  'deletedProjects.expiringSoon': 'Expiring Soon',
+  'deletedProjects.deletedOn': 'Deleted:',
+  'deletedProjects.daysRemaining': 'Days remaining:',
+  'deletedProjects.expiringWarning': 'This project will be permanently deleted in {days}. Restore it now to prevent data loss.',
+  'deletedProjects.restoreTitle': 'Restore Project',
+  'deletedProjects.restoreDescription': 'Are you sure you want to restore this project? It will be moved back to your active projects with a "Draft" status.',
+  'deletedProjects.toast.restored': 'Project restored successfully',
+  'deletedProjects.toast.restoreFailed': 'Failed to restore project: {message}',
+
+  // Not found page
+  'notFound.title': 'Page Not Found',
+  'notFound.description': "Sorry, the page you are looking for doesn't exist.",
+  'notFound.hint': 'It may have been moved or deleted.',
+  'notFound.goHome': 'Go Home',
+
+  // Search page
+  'search.subtitle': 'Find findings across all of your assessments, e.g. "efflorescence on north walls" or "water staining below roof drains".',
+  'search.placeholder': 'Describe what you are looking for...',
+  'search.allCompanies': 'All companies',
+  'search.allProjects': 'All projects',
+  'search.componentPlaceholder': 'UNIFORMAT code, e.g. B20',
+  'search.source.assessment': 'Observations',
+  'search.source.deficiency': 'Deficiencies',
+  'search.source.photo': 'Photo text',
+  'search.source.project_document': 'Documents',
+  'search.source.voice_transcript': 'Voice notes',
+  'search.result': '1 result',
+  'search.results': '{count} results',
+  'search.semantic': 'Semantic',
+  'search.keyword': 'Keyword matching',
+  'search.related': 'Related',
+  'search.noMatchesTitle': 'No matches',
+  'search.noMatchesDescription': 'Try different wording or fewer filters.',
+  'search.truncated': 'Not every record could be compared for this search. Narrow it to a project or source to see all matches.',
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+// Typed against the English catalog so a missing French string fails the type-check
+const fr: Record<MessageKey, string> = {
+  // Common
+  'common.signIn': 'Se connecter',
+  'common.signInPrompt': 'Veuillez vous connecter pour continuer',
+  'common.logout': 'Déconnexion',
+  'common.user': 'Utilisateur',
+  'common.language': 'Langue',
+  'common.clearAll': 'Tout effacer',
+  'common.filterBy': 'Filtrer par :',
+  'common.filtersActive': '{count} filtres actifs',
+  'common.filterActive': '1 filtre actif',
+  'common.noFilters': 'Aucun filtre appliqué',
+  'common.notAvailable': 'S.O.',
+  'common.years': '{count} ans',
+  'common.page': 'Page {page} de {total}',
+
+  // Navigation
+  'nav.projects': 'Projets',
+  'nav.rsmeans': 'Données de coûts RSMeans',
+  'nav.search': 'Recherche',
+  'nav.reportingAnalytics': 'Rapports et analyses',
+  'nav.portfolioAnalytics': 'Analyse du portefeuille et BI',
+  'nav.predictions': 'Prévisions',
+  'nav.prioritization': 'Priorisation',
+  'nav.capitalBudget': "Budget d'immobilisations",
+  'nav.singleAssetReport': 'Rapport par actif',
+  'nav.portfolioWideReport': "Rapport sur l'ensemble du portefeuille",
+  'nav.sustainabilityEsg': 'Durabilité et ESG',
+  'nav.esgDashboard': 'Tableau de bord ESG',
+  'nav.esgLeed': 'ESG et LEED',
+  'nav.aiCarbonRecommendations': 'Recommandations carbone (IA)',
+  'nav.leedComplianceReport': 'Rapport de conformité LEED',
+  'nav.sustainability': 'Durabilité',
+  'nav.carbonFootprint': 'Empreinte carbone',
+  'nav.deletedProjects': 'Projets supprimés',
+  'nav.administration': 'Administration',
+  'nav.adminDashboard': "Tableau de bord d'administration",
+  'nav.buildingTemplates': 'Modèles de bâtiments',
+  'nav.bulkServiceLife': 'Durée de vie en lot',
+  'nav.compliance': 'Conformité',
+  'nav.dataSecurity': 'Sécurité des données',
+  'nav.auditTrail': "Piste d'audit",
+  'nav.archive': 'Archives',
+  'nav.economicIndicators': 'Indicateurs économiques',
+  'nav.portfolioTargets': 'Cibles du portefeuille',
+
+  // Filters
+  'filters.assetType': "Type d'actif",
+  'filters.allAssetTypes': "Tous les types d'actifs",
+  'filters.condition': 'État',
+  'filters.allConditions': 'Tous les états',
+  'filters.status': 'Statut',
+  'filters.allStatus': 'Tous les statuts',
+  'funding.funded': 'Financé',
+  'funding.proposed': 'Proposé',
+  'funding.deferred': 'Reporté',
+
+  // Enum labels
+  'condition.excellent': 'Excellent',
+  'condition.good': 'Bon',
+  'condition.fair': 'Passable',
+  'condition.poor': 'Mauvais',
+  'condition.critical': 'Critique',
+  'condition.failed': 'Défaillant',
+  'condition.not_assessed': 'Non évalué',
+  'severity.low': 'Faible',
+  'severity.medium': 'Moyenne',
+  'severity.high': 'Élevée',
+  'severity.critical': 'Critique',
+  'priority.immediate': 'Immédiate',
+  'priority.short_term': 'Court terme',
+  'priority.medium_term': 'Moyen terme',
+  'priority.long_term': 'Long terme',
+  'priority.high': 'Élevée',
+  'priority.medium': 'Moyenne',
+  'priority.low': 'Faible',
+
+  // Shared report labels
+  'report.project': 'Projet',
+  'report.address': 'Adresse',
+  'report.generated': 'Généré le',
+  'report.disclaimer': 'Avis de non-responsabilité',
+  'report.facility': 'Installation',
+  'report.overallCondition': 'État général',
+  'report.healthScore': 'Indice de santé',
+  'report.fci': 'IEI',
+  'report.component': 'Composant',
+  'report.location': 'Emplacement',
+  'report.condition': 'État',
+  'report.remainingLife': 'Durée de vie restante',
+  'report.remainingLifeYears': 'Durée de vie restante (ans)',
+  'report.repairCost': 'Coût de réparation',
+  'report.costType': 'Type de coût',
+  'report.amount': 'Montant',
+  'report.identifiedCosts': 'Coûts identifiés',
+  'report.plannedCosts': 'Coûts planifiés',
+  'report.executedCosts': 'Coûts engagés',
+  'report.totalCosts': 'Coûts totaux',
+  'report.description': 'Description',
+  'report.priority': 'Priorité',
+  'report.urgency': 'Urgence',
+  'report.cost': 'Coût',
+  'report.estimatedCost': 'Coût estimé',
+  'report.summary': 'Sommaire',
+  'report.property': 'Propriété',
+  'report.value': 'Valeur',
+  'report.projectName': 'Nom du projet',
+  'report.reportGenerated': 'Rapport généré le',
+  'report.template': 'Modèle',
+  'report.sectionContent': '[Contenu : {section}]',
+  'report.sectionPending': '[Le contenu « {section} » sera affiché ici]',
+
+  // ESG report
+  'esg.title': 'Rapport de conformité ESG',
+  'esg.portfolioSummary': 'Sommaire du portefeuille',
+  'esg.reportDate': 'Date du rapport : {date}',
+  'esg.reportPeriod': 'Période visée : {start} - {end}',
+  'esg.grade': 'Cote : {grade}',
+  'esg.totalProjects': 'Nombre de projets : {count}',
+  'esg.excellentZone': 'Zone excellente : {count}',
+  'esg.goodZone': 'Zone bonne : {count}',
+  'esg.fairZone': 'Zone passable : {count}',
+  'esg.poorZone': 'Zone faible : {count}',
+  'esg.projectRatings': 'Cotes ESG des projets',
+  'esg.score': 'Note',
+  'esg.gradeColumn': 'Cote',
+  'esg.energy': 'Énergie',
+  'esg.water': 'Eau',
+  'esg.waste': 'Déchets',
+  'esg.certifications': 'Certifications',
+  'esg.expires': 'Expire le : {date}',
+  'esg.improvementActions': "Mesures d'amélioration",
+  'esg.actionTypeStatus': 'Type : {type} | Statut : {status}',
+  'esg.estimatedCost': 'Coût estimé : {cost}',
+  'esg.goals': 'Objectifs de durabilité',
+  'esg.goalProgress': 'Référence : {baseline} → Cible : {target} | Statut : {status}',
+  'esg.footer': "Page {page} de {total} | Généré par le système d'évaluation de l'état des bâtiments B³NMA",
+  'esg.recordTitleProject': 'Rapport ESG - {name}',
+  'esg.recordTitlePortfolio': 'Rapport ESG du portefeuille',
+  'esg.grade.A+': 'Exceptionnel',
+  'esg.grade.A': 'Excellent',
+  'esg.grade.A-': 'Très bien',
+  'esg.grade.B+': 'Bien',
+  'esg.grade.B': 'Supérieur à la moyenne',
+  'esg.grade.B-': 'Satisfaisant',
+  'esg.grade.C+': 'Passable',
+  'esg.grade.C': 'Moyen',
+  'esg.grade.C-': 'Inférieur à la moyenne',
+  'esg.grade.D+': 'À améliorer',
+  'esg.grade.D': 'Faible',
+  'esg.grade.D-': 'Critique',
+  'esg.grade.F': 'Échec',
+
+  // Professional BCA report
+  'bca.title': "Évaluation de l'état du bâtiment - EEB",
+  'bca.propertyPhoto': 'Photo de la propriété {number}',
+  'bca.northwestView': 'Vue nord-ouest',
+  'bca.southwestView': 'Vue sud-ouest',
+  'bca.property': 'Propriété :',
+  'bca.client': 'Client :',
+  'bca.clientLogo': 'Logo du client',
+  'bca.issued': 'Émis le :',
+  'bca.revision': 'Révision nº {number}',
+  'bca.finalForClient': 'Version finale pour diffusion au client',
+  'bca.internalReview': 'Pour révision interne',
+  'bca.coverPage': 'Page couverture',
+  'bca.tocHeading': '1) Table des matières',
+  'bca.tocPending': '(La table des matières sera générée après toutes les sections)',
+  'bca.toc': 'Table des matières',
+  'bca.introduction': '2) Introduction',
+  'bca.scopeTitle': 'Portée des travaux et objectif',
+  'bca.scopeText': `À la demande de {client}, B3NMA a réalisé une évaluation de l'état du bâtiment (EEB) pour {property}.
+
+Ce rapport présente un examen visuel sur place et une évaluation des principaux systèmes de la propriété, notamment l'enveloppe du bâtiment, les systèmes mécaniques et électriques (appelés « Services » dans ce rapport) ainsi que les composants et assemblages structuraux apparents, en mettant l'accent sur leur performance actuelle, leur durabilité et leur durée de vie restante.
+
+Ce rapport vise à aider le client à bien comprendre l'état actuel de la propriété et à cerner les problèmes potentiels ou les besoins d'entretien susceptibles de survenir à court, moyen et long terme. Ces renseignements sont destinés à appuyer la planification proactive, l'établissement des budgets et la prise de décisions relatives à la réparation, au renouvellement et à la gestion globale des actifs du bâtiment.`,
+  'bca.propertyInformation': 'Renseignements sur la propriété',
+  'bca.propertyDescription': 'Description :',
+  'bca.name': 'Nom : {value}',
+  'bca.address': 'Adresse : {value}',
+  'bca.typeOfConstruction': 'Type de construction : {value}',
+  'bca.occupancy': 'Occupation : {value}',
+  'bca.numberOfBuildings': "Nombre d'unités / de bâtiments : {value}",
+  'bca.numberOfStoreys': "Hauteur / nombre d'étages : {value}",
+  'bca.yearOfConstruction': 'Année de construction : {value}',
+  'bca.buildingCode': 'Code du bâtiment applicable : {value}',
+  'bca.dashboard': 'Tableau de bord',
+  'bca.metric': 'Indicateur',
+  'bca.value': 'Valeur',
+  'bca.totalAssets': "Nombre total d'actifs",
+  'bca.totalComponents': 'Nombre total de composants',
+  'bca.totalCRV': 'Valeur de remplacement actuelle totale (VRA)',
+  'bca.totalDeferredMaintenance': "Total de l'entretien différé",
+  'bca.portfolioFCI': "Indice d'état des installations du portefeuille (IEI)",
+  'bca.criticalItems': 'Éléments critiques (0-5 ans)',
+  'bca.necessaryItems': 'Éléments nécessaires (6-10 ans)',
+  'bca.recommendedItems': 'Éléments recommandés (11-20 ans)',
+  'bca.fiveYearCapitalNeed': "Besoin en immobilisations sur 5 ans",
+  'bca.unknownGroup': 'Inconnu',
+  'bca.conditionOfEsl': '{label} – {percentage} % de la DVE',
+  'bca.conditionLabel': 'État :',
+  'bca.estimatedServiceLife': 'Durée de vie estimée :',
+  'bca.reviewYear': "Année d'examen :",
+  'bca.lastTimeAction': 'Dernière intervention :',
+  'bca.actionDescription': "Description de l'intervention",
+  'bca.priority': 'Priorité',
+  'bca.actionYear': "Année d'intervention",
+  'bca.currentCost': 'Coût actuel',
+  'bca.actionsList': 'Liste des interventions',
+  'bca.code': 'Code',
+  'bca.component': 'Composant',
+  'bca.action': 'Intervention',
+  'bca.year': 'Année',
+  'bca.cost': 'Coût',
+  'bca.closingRemarks': 'Remarques finales',
+  'bca.closingText': `Ce rapport d'évaluation de l'état du bâtiment a été préparé afin de fournir à {client} un aperçu complet de l'état actuel de {property}.
+
+Les constatations et recommandations contenues dans ce rapport reposent sur les observations visuelles effectuées lors de la visite des lieux et doivent servir de guide à des fins de planification et d'établissement des budgets. Les coûts réels peuvent varier selon les conditions du marché, la précision de la portée et des évaluations techniques détaillées.
+
+Nous recommandons au client d'examiner ce rapport avec son équipe de gestion des installations et de prioriser les interventions selon le budget disponible et les exigences opérationnelles.
+
+Pour toute question ou précision concernant ce rapport, veuillez communiquer avec B3NMA à {email} ou au {phone}.`,
+  'bca.progress.init': 'Initialisation du générateur PDF...',
+  'bca.progress.cover': 'Création de la page couverture...',
+  'bca.progress.toc': 'Création de la table des matières...',
+  'bca.progress.introduction': "Création de l'introduction...",
+  'bca.progress.summary': 'Création du sommaire...',
+  'bca.progress.components': 'Création des évaluations des composants...',
+  'bca.progress.component': 'Traitement du composant {current} de {total}...',
+  'bca.progress.actions': 'Création de la liste des interventions...',
+  'bca.progress.closing': 'Création des remarques finales...',
+  'bca.progress.footers': 'Ajout des pieds de page...',
+  'bca.progress.saving': 'Enregistrement du PDF...',
+  'bca.progress.complete': 'Terminé!',
+  'bca.fileName': 'Rapport_EEB',
+
+  // Common actions
+  'common.cancel': 'Annuler',
+  'common.edit': 'Modifier',
+  'common.delete': 'Supprimer',
+  'common.export': 'Exporter',
+  'common.import': 'Importer',
+  'common.archive': 'Archiver',
+  'common.unarchive': 'Désarchiver',
+  'common.restore': 'Restaurer',
+  'common.hide': 'Masquer',
+  'common.voiceInput': 'Saisie vocale',
+  'common.search': 'Rechercher',
+  'common.areYouSure': 'Êtes-vous certain?',
+  'common.sortBy': 'Trier par :',
+  'common.filters': 'Filtres :',
+  'common.ascending': 'Croissant',
+  'common.descending': 'Décroissant',
+  'common.from': 'Du :',
+  'common.to': 'Au :',
+  'common.unknown': 'Inconnu',
+  'common.days': '{count} jours',
+  'common.day': '1 jour',
+
+  // Project status
+  'projectStatus.draft': 'Brouillon',
+  'projectStatus.in_progress': 'En cours',
+  'projectStatus.completed': 'Terminé',
+  'projectStatus.archived': 'Archivé',
+  'projectStatus.deleted': 'Supprimé',
+
+  // Projects page
+  'projects.subtitle': "Gérez vos projets d'évaluation de l'état des bâtiments",
+  'projects.importJson': 'Importer JSON',
+  'projects.newProject': 'Nouveau projet',
+  'projects.createTitle': 'Créer un projet',
+  'projects.createDescription': "Saisissez les détails de votre projet d'évaluation de l'état du bâtiment",
+  'projects.createProject': 'Créer le projet',
+  'projects.field.name': 'Nom du projet *',
+  'projects.field.propertyAddress': 'Adresse de la propriété',
+  'projects.field.propertyAddressPlaceholder': "Saisissez l'adresse de la propriété",
+  'projects.field.streetAddress': 'Adresse municipale',
+  'projects.field.city': 'Ville',
+  'projects.field.province': 'Province',
+  'projects.field.postalCode': 'Code postal',
+  'projects.field.autoFilled': "Rempli automatiquement à partir de l'adresse ci-dessus",
+  'projects.field.address': 'Adresse',
+  'projects.field.clientName': 'Nom du client',
+  'projects.field.propertyType': 'Type de propriété',
+  'projects.field.constructionType': 'Type de construction',
+  'projects.field.yearBuilt': 'Année de construction',
+  'projects.field.numberOfUnits': "Nombre d'unités",
+  'projects.field.numberOfStories': "Nombre d'étages",
+  'projects.field.buildingCode': 'Code du bâtiment',
+  'projects.field.observations': 'Observations initiales',
+  'projects.field.observationsPlaceholder': "Saisissez vos observations initiales sur l'installation...",
+  'projects.field.selectType': 'Sélectionnez un type',
+  'projects.propertyType.residential': 'Résidentiel',
+  'projects.propertyType.commercial': 'Commercial',
+  'projects.propertyType.industrial': 'Industriel',
+  'projects.propertyType.mixedUse': 'Usage mixte',
+  'projects.constructionType.woodFrame': 'Ossature de bois',
+  'projects.constructionType.concrete': 'Béton',
+  'projects.constructionType.steel': 'Acier',
+  'projects.constructionType.masonry': 'Maçonnerie',
+  'projects.validation.yearBuilt': "L'année doit être entre 1800 et {max}",
+  'projects.validation.numberOfUnits': "Le nombre d'unités doit être entre 0 et 10 000",
+  'projects.validation.numberOfStories': "Le nombre d'étages doit être entre 0 et 200",
+  'projects.validation.fixErrors': 'Veuillez corriger les erreurs avant de soumettre',
+  'projects.searchPlaceholder': 'Rechercher des projets...',
+  'projects.selectedCount': '{count} projet(s) sélectionné(s)',
+  'projects.selectAll': 'Tout sélectionner ({count})',
+  'projects.clearSelection': 'Effacer la sélection',
+  'projects.exportSelected': 'Exporter la sélection',
+  'projects.changeStatus': 'Changer le statut',
+  'projects.deleteSelected': 'Supprimer la sélection',
+  'projects.sort.updatedAt': 'Dernière mise à jour',
+  'projects.sort.createdAt': 'Date de création',
+  'projects.sort.name': 'Nom du projet',
+  'projects.clearFilter': 'Effacer {count} filtre',
+  'projects.clearFilters': 'Effacer {count} filtres',
+  'projects.showArchived': 'Afficher les projets archivés',
+  'projects.showing': '{shown} projets affichés sur {total}',
+  'projects.loading': 'Chargement des projets...',
+  'projects.export.json': 'Projet complet (JSON)',
+  'projects.export.excel': 'Données (Excel)',
+  'projects.export.assessmentsCsv': 'Évaluations (CSV)',
+  'projects.export.deficienciesCsv': 'Déficiences (CSV)',
+  'projects.export.cobie': 'COBie 2.4 (Excel)',
+  'projects.csvType.assessments': 'Évaluations',
+  'projects.csvType.deficiencies': 'Déficiences',
+  'projects.importCobie': 'Importer COBie',
+  'projects.client': 'Client : {name}',
+  'projects.updated': 'Mis à jour le {date}',
+  'projects.built': 'Construction : {year}',
+  'projects.noMatchTitle': 'Aucun projet ne correspond à vos filtres',
+  'projects.noMatchDescription': 'Modifiez votre recherche ou vos critères de filtre pour trouver ce que vous cherchez',
+  'projects.clearAllFilters': 'Effacer tous les filtres',
+  'projects.emptyTitle': 'Aucun projet pour le moment',
+  'projects.emptyDescription': "Commencez par créer votre premier projet d'évaluation de l'état des bâtiments pour suivre l'état de vos installations",
+  'projects.createFirst': 'Créer votre premier projet',
+  'projects.editTitle': 'Modifier le projet',
+  'projects.editDescription': 'Mettez à jour les renseignements du projet ci-dessous.',
+  'projects.updateProject': 'Mettre à jour le projet',
+  'projects.deleteDescription': 'Le projet « {name} » ainsi que toutes les évaluations, déficiences et photos associées seront supprimés définitivement. Cette action est irréversible.',
+  'projects.deleteProject': 'Supprimer le projet',
+  'projects.bulkDeleteTitle': 'Supprimer {count} projets?',
+  'projects.bulkDeleteDescription': '{count} projet(s) ainsi que toutes les évaluations, déficiences et photos associées seront supprimés définitivement. Cette action est irréversible.',
+  'projects.bulkDeleteConfirm': 'Supprimer {count} projets',
+  'projects.bulkStatusTitle': 'Changer le statut de {count} projets',
+  'projects.bulkStatusDescription': 'Sélectionnez le nouveau statut des {count} projet(s) sélectionné(s).',
+  'projects.newStatus': 'Nouveau statut',
+  'projects.selectedProjects': 'Projets sélectionnés : {names}',
+  'projects.updateStatus': 'Mettre à jour le statut',
+  'projects.importTitle': 'Importer un projet',
+  'projects.importDescription': "Téléversez un fichier JSON exporté d'un autre projet d'EEB",
+  'projects.importFile': 'Sélectionner un fichier JSON',
+  'projects.importSelected': 'Sélectionné : {name} ({size} Ko)',
+  'projects.toast.bulkExported': '{count} projet(s) exporté(s) vers Excel',
+  'projects.toast.bulkExportFailed': "Échec de l'exportation des projets sélectionnés",
+  'projects.toast.exported': 'Projet exporté',
+  'projects.toast.exportFailed': "Échec de l'exportation du projet",
+  'projects.toast.csvExported': '{type} exportées en CSV',
+  'projects.toast.csvExportFailed': "Échec de l'exportation CSV : {type}",
+  'projects.toast.excelExported': 'Données exportées vers Excel',
+  'projects.toast.excelExportFailed': "Échec de l'exportation vers Excel",
+  'projects.toast.cobieExported': 'Classeur COBie exporté',
+  'projects.toast.cobieExportFailed': "Échec de l'exportation du classeur COBie",
+  'projects.toast.updated': 'Projet mis à jour',
+  'projects.toast.updateFailed': 'Échec de la mise à jour du projet',
+  'projects.toast.deleted': 'Projet supprimé',
+  'projects.toast.deleteFailed': 'Échec de la suppression du projet',
+  'projects.toast.bulkDeleted': '{count} projet(s) supprimé(s)',
+  'projects.toast.bulkDeleteFailed': 'Échec de la suppression des projets',
+  'projects.toast.statusUpdated': 'Statut mis à jour pour {count} projet(s)',
+  'projects.toast.statusPartial': 'Échec de la mise à jour de {count} projet(s)',
+  'projects.toast.statusFailed': 'Échec de la mise à jour du statut des projets',
+  'projects.toast.archived': 'Projet archivé',
+  'projects.toast.archiveFailed': "Échec de l'archivage du projet",
+  'projects.toast.unarchived': 'Projet désarchivé',
+  'projects.toast.unarchiveFailed': 'Échec du désarchivage du projet',
+  'projects.toast.imported': 'Projet importé',
+  'projects.toast.importFailed': "Échec de l'importation du projet",
+  'projects.toast.selectFile': 'Veuillez sélectionner un fichier à importer',
+  'projects.toast.invalidJson': 'Fichier JSON invalide : {message}',
+  'projects.toast.created': 'Projet créé',
+  'projects.toast.createFailed': 'Échec de la création du projet : {message}',
+
+  // Deleted projects page
+  'deletedProjects.loading': 'Chargement des projets supprimés...',
+  'deletedProjects.subtitle': 'Les projets supprimés depuis moins de 90 jours peuvent être restaurés. Après 90 jours, ils sont supprimés définitivement.',
+  'deletedProjects.emptyTitle': 'Aucun projet supprimé',
+  'deletedProjects.emptyDescription': "Les projets que vous supprimez restent ici pendant 90 jours avant d'être retirés définitivement.",
+  'deletedProjects.expiringSoon': 'Expire bientôt',
+  'deletedProjects.deletedOn': 'Supprimé le :',
+  'deletedProjects.daysRemaining': 'Jours restants :',
+  'deletedProjects.expiringWarning': 'Ce projet sera supprimé définitivement dans {days}. Restaurez-le maintenant pour éviter toute perte de données.',
+  'deletedProjects.restoreTitle': 'Restaurer le projet',
+  'deletedProjects.restoreDescription': 'Voulez-vous vraiment restaurer ce projet? Il sera replacé dans vos projets actifs avec le statut « Brouillon ».',
+  'deletedProjects.toast.restored': 'Projet restauré',
+  'deletedProjects.toast.restoreFailed': 'Échec de la restauration du projet : {message}',
+
+  // Not found page
+  'notFound.title': 'Page introuvable',
+  'notFound.description': "Désolé, la page que vous cherchez n'existe pas.",
+  'notFound.hint': 'Elle a peut-être été déplacée ou supprimée.',
+  'notFound.goHome': "Retour à l'accueil",
+
+  // Search page
+  'search.subtitle': "Retrouvez des constatations dans toutes vos évaluations, p. ex. « efflorescence sur les murs nord » ou « taches d'eau sous les drains de toit ».",
+  'search.placeholder': 'Décrivez ce que vous cherchez...',
+  'search.allCompanies': 'Toutes les entreprises',
+  'search.allProjects': 'Tous les projets',
+  'search.componentPlaceholder': 'Code UNIFORMAT, p. ex. B20',
+  'search.source.assessment': 'Observations',
+  'search.source.deficiency': 'Déficiences',
+  'search.source.photo': 'Texte des photos',
+  'search.source.project_document': 'Documents',
+  'search.source.voice_transcript': 'Notes vocales',
+  'search.result': '1 résultat',
+  'search.results': '{count} résultats',
+  'search.semantic': 'Sémantique',
+  'search.keyword': 'Correspondance par mots-clés',
+  'search.related': 'Connexe',
+  'search.noMatchesTitle': 'Aucun résultat',
+  'search.noMatchesDescription': "Essayez d'autres mots ou moins de filtres.",
+  'search.truncated': "Tous les enregistrements n'ont pas pu être comparés pour cette recherche. Limitez-la à un projet ou à une source pour voir toutes les correspondances.",
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en, fr };
+
+// ============================================
+// TRANSLATION
+// ============================================
+
+export function isSupportedLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve a stored or requested language, falling back to English
+ */
+export function resolveLanguage(value: unknown): Language {
+  return isSupportedLanguage(value) ? value : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Translate a message key, substituting {placeholders} from params
+ * Unknown keys fall back to English, then to the key itself
+ */
+export function translate(
+  language: Language,
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string {
+  const template = MESSAGES[language]?.[key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Bind translate to a language, for generators that render a whole document in one language
+ */
+export function getTranslator(language: Language) {
+  return (key: MessageKey, params?: Record<string, string | number>) => translate(language, key, params);
+}
+
+export type Translator = ReturnType<typeof getTranslator>;
+
+// ============================================
+// ENUM LABELS
+// ============================================
+
+function enumLabel(language: Language, prefix: string, value: string | null | undefined): string {
+  if (!value) return translate(language, 'common.notAvailable');
+  const key = `${prefix}.${value.toLowerCase().replace(/[\s-]+/g, '_')}`;
+  // Values outside the catalog (custom rating scales, free text) are shown as stored
+  return key in en ? translate(language, key as MessageKey) : value;
+}
+
+/**
+ * Condition rating label (excellent, good, fair, poor, critical, failed, not_assessed)
+ */
+export function getConditionLabel(language: Language, condition: string | null | undefined): string {
+  return enumLabel(language, 'condition', condition);
+}
+
+/**
+ * Deficiency severity label (low, medium, high, critical)
+ */
+export function getSeverityLabel(language: Language, severity: string | null | undefined): string {
+  return enumLabel(language, 'severity', severity);
+}
+
+/**
+ * Priority label for both horizon (immediate, short_term, ...) and level (high, medium, low) priorities
+ */
+export function getPriorityLabel(language: Language, priority: string | null | undefined): string {
+  return enumLabel(language, 'priority', priority);
+}
+
+/**
+ * Project status label (draft, in_progress, completed, archived, deleted)
+ */
+export function getProjectStatusLabel(language: Language, status: string | null | undefined): string {
+  return enumLabel(language, 'projectStatus', status);
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function getLocale(language: Language): string {
+  return LOCALES[language];
+}
+
+export function formatLocalizedNumber(value: number, language: Language, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(getLocale(language), options).format(value);
+}
+
+export function formatLocalizedCurrency(value: number, language: Language, decimals: number = 0): string {
+  return new Intl.NumberFormat(getLocale(language), {
+    style: 'currency',
+    currency: 'USD',
+    currencyDisplay: 'narrowSymbol',
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(value);
+}
+
+export function formatLocalizedDate(value: Date | string, language: Language): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return date.toLocaleDateString(getLocale(language));
+}
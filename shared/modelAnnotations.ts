@@ -0,0 +1,94 @@
+/**
+ * 3D model annotation markers and viewpoints
+ * Shared by the glTF viewer and the PDF report snapshots so markers keep the same colors in both
+ */
+
+export interface ModelVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type AnnotationPriority = 'immediate' | 'short_term' | 'medium_term' | 'long_term';
+
+/**
+ * The fields of an annotation that decide its marker color
+ * deficiencyPriority and deficiencyStatus come from the linked deficiency, when there is one
+ */
+export interface AnnotationMarkerState {
+  priority?: string | null;
+  status?: string | null;
+  deficiencyPriority?: string | null;
+  deficiencyStatus?: string | null;
+}
+
+export const ANNOTATION_PRIORITY_COLORS: Record<AnnotationPriority, [number, number, number]> = {
+  immediate: [220, 38, 38],
+  short_term: [249, 115, 22],
+  medium_term: [234, 179, 8],
+  long_term: [59, 130, 246],
+};
+
+export const ANNOTATION_PRIORITY_LABELS: Record<AnnotationPriority, string> = {
+  immediate: 'Immediate',
+  short_term: 'Short Term',
+  medium_term: 'Medium Term',
+  long_term: 'Long Term',
+};
+
+export const UNPRIORITIZED_ANNOTATION_COLOR: [number, number, number] = [107, 114, 128];
+export const RESOLVED_ANNOTATION_COLOR: [number, number, number] = [34, 197, 94];
+
+// Annotations carry their own high/medium/low priority when they are not linked to a deficiency
+const ANNOTATION_TO_DEFICIENCY_PRIORITY: Record<string, AnnotationPriority> = {
+  immediate: 'immediate',
+  high: 'short_term',
+  medium: 'medium_term',
+  low: 'long_term',
+};
+
+/**
+ * Deficiency priority of an annotation: the linked deficiency's, otherwise its own mapped onto the same scale
+ */
+export function getAnnotationPriority(marker: AnnotationMarkerState): AnnotationPriority | null {
+  if (marker.deficiencyPriority && marker.deficiencyPriority in ANNOTATION_PRIORITY_COLORS) {
+    return marker.deficiencyPriority as AnnotationPriority;
+  }
+  return marker.priority ? ANNOTATION_TO_DEFICIENCY_PRIORITY[marker.priority] ?? null : null;
+}
+
+export function isAnnotationResolved(marker: AnnotationMarkerState): boolean {
+  return marker.status === 'resolved' || marker.status === 'closed' || marker.deficiencyStatus === 'resolved';
+}
+
+export function getAnnotationColor(marker: AnnotationMarkerState): [number, number, number] {
+  if (isAnnotationResolved(marker)) return RESOLVED_ANNOTATION_COLOR;
+  const priority = getAnnotationPriority(marker);
+  return priority ? ANNOTATION_PRIORITY_COLORS[priority] : UNPRIORITIZED_ANNOTATION_COLOR;
+}
+
+export function rgbToHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Read a camera position or target stored as JSON; null unless x, y and z are all finite numbers
+ */
+export function parseModelVector(value: unknown): ModelVector | null {
+  let parsed = value;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const { x, y, z } = parsed as Record<string, unknown>;
+  const coords = [x, y, z].map(Number);
+  if (coords.some(coord => !Number.isFinite(coord)) || [x, y, z].some(coord => coord === null || coord === '')) {
+    return null;
+  }
+  return { x: coords[0], y: coords[1], z: coords[2] };
+}
@@ -0,0 +1,53 @@
+/**
+ * Public REST API keys and scopes
+ * Shared by the /api/v1 key middleware and the API key management screen
+ */
+
+export const PUBLIC_API_VERSION = 'v1';
+export const API_KEY_PREFIX = 'bca_';
+/** Characters of the raw key stored in clear for lookup and display */
+export const API_KEY_LOOKUP_LENGTH = 12;
+
+export const PUBLIC_API_RESOURCES = ['projects', 'assets', 'assessments', 'deficiencies', 'photos'] as const;
+export type PublicApiResource = typeof PUBLIC_API_RESOURCES[number];
+
+export type PublicApiAccess = 'read' | 'write';
+export type ApiKeyScope = `${PublicApiResource}:${PublicApiAccess}`;
+
+export const API_KEY_SCOPES: ApiKeyScope[] = PUBLIC_API_RESOURCES.flatMap(resource => [
+  `${resource}:read` as ApiKeyScope,
+  `${resource}:write` as ApiKeyScope,
+]);
+
+/** Company roles from company_users; a key acts with the permissions of one of them */
+export const API_KEY_ROLES = ['company_admin', 'project_manager', 'editor', 'viewer'] as const;
+export type ApiKeyRole = typeof API_KEY_ROLES[number];
+
+export const API_KEY_ROLE_LEVEL: Record<ApiKeyRole, number> = {
+  company_admin: 4,
+  project_manager: 3,
+  editor: 2,
+  viewer: 1,
+};
+
+/**
+ * Scopes a company role may grant: viewers read, editors and above may also write
+ */
+export function getRoleScopes(role: ApiKeyRole): ApiKeyScope[] {
+  if (API_KEY_ROLE_LEVEL[role] >= API_KEY_ROLE_LEVEL.editor) return [...API_KEY_SCOPES];
+  return API_KEY_SCOPES.filter(scope => scope.endsWith(':read'));
+}
+
+/**
+ * Effective scopes for a key: the requested scopes narrowed to what its role allows
+ * A key without explicit scopes gets everything the role allows
+ */
+export function resolveKeyScopes(role: ApiKeyRole, requested?: readonly string[] | null): ApiKeyScope[] {
+  const allowed = getRoleScopes(role);
+  if (!requested || requested.length === 0) return allowed;
+  return allowed.filter(scope => requested.includes(scope));
+}
+
+export function hasScope(scopes: readonly string[], resource: PublicApiResource, access: PublicApiAccess): boolean {
+  return scopes.includes(`${resource}:${access}`);
+}
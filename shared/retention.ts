@@ -0,0 +1,22 @@
+/**
+ * Retention policy data types
+ * Shared by the retention engine and the data security screen
+ */
+
+/** Values of data_retention_policies.dataType that the retention engine enforces */
+export const RETENTION_DATA_TYPES = [
+  'deleted_projects',
+  'deleted_photos',
+  'voice_recordings',
+  'chatbot_sessions',
+  'audit_logs',
+] as const;
+export type RetentionDataType = typeof RETENTION_DATA_TYPES[number];
+
+export const RETENTION_DATA_TYPE_LABELS: Record<RetentionDataType, string> = {
+  deleted_projects: 'Deleted projects',
+  deleted_photos: 'Deleted photos',
+  voice_recordings: 'Voice recordings',
+  chatbot_sessions: 'Chatbot sessions',
+  audit_logs: 'Audit log entries',
+};
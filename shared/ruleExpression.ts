@@ -0,0 +1,1037 @@
+/**
+ * Rule Expression Language
+ * Sandboxed expressions for custom_logic validation rules, shared by the server's
+ * validation service and the client's useValidation hook so both evaluate a rule the
+ * same way.
+ *
+ * A rule fires when its expression is true, e.g.
+ *   condition is "poor" and remainingUsefulLife > 10
+ *   repairCost > replacementValue × 0.6
+ *   asset.yearBuilt < 1950 and not isBlank(asset.constructionType)
+ *
+ * Bare field names refer to the assessment; `asset.` and `project.` reach the related
+ * records. Only the fields and functions listed here can be used; expressions are
+ * interpreted from a syntax tree, never executed as code. Missing values are null:
+ * arithmetic on null gives null, and any comparison with null (other than `is null`)
+ * is false, so rules don't fire on incomplete data. Text comparisons ignore case.
+ */
+
+export const RULE_SCOPES = ['assessment', 'asset', 'project'] as const;
+export type RuleScope = typeof RULE_SCOPES[number];
+
+export type RuleFieldType = 'number' | 'string' | 'date';
+type RuleType = RuleFieldType | 'boolean' | 'list' | 'null' | 'any';
+
+export const RULE_FIELDS: Record<RuleScope, Record<string, RuleFieldType>> = {
+  assessment: {
+    componentCode: 'string',
+    componentName: 'string',
+    componentLocation: 'string',
+    condition: 'string',
+    conditionPercentage: 'string',
+    conditionRating: 'string',
+    status: 'string',
+    recommendedAction: 'string',
+    deficiencySeverity: 'string',
+    priorityLevel: 'string',
+    uniformatGroup: 'string',
+    remainingUsefulLife: 'number',
+    expectedUsefulLife: 'number',
+    estimatedServiceLife: 'number',
+    reviewYear: 'number',
+    lastTimeAction: 'number',
+    actionYear: 'number',
+    estimatedRepairCost: 'number',
+    repairCost: 'number',
+    renewCost: 'number',
+    replacementValue: 'number',
+    quantity: 'number',
+    unit: 'string',
+    safetyHazard: 'number',
+    codeViolation: 'number',
+    accessibilityIssue: 'number',
+    assessedAt: 'date',
+  },
+  asset: {
+    name: 'string',
+    assetCode: 'string',
+    status: 'string',
+    overallCondition: 'string',
+    occupancyType: 'string',
+    ownershipType: 'string',
+    constructionType: 'string',
+    primaryUse: 'string',
+    yearBuilt: 'number',
+    yearRenovated: 'number',
+    squareFootage: 'number',
+    numberOfFloors: 'number',
+    numberOfUnits: 'number',
+    replacementValue: 'number',
+    insuranceValue: 'number',
+    annualMaintenanceCost: 'number',
+    fciScore: 'number',
+    lastInspectionDate: 'date',
+  },
+  project: {
+    name: 'string',
+    status: 'string',
+    propertyType: 'string',
+    constructionType: 'string',
+    facilityType: 'string',
+    criticalityLevel: 'string',
+    occupancyStatus: 'string',
+    city: 'string',
+    province: 'string',
+    yearBuilt: 'number',
+    numberOfStories: 'number',
+    designLife: 'number',
+    ci: 'number',
+    fci: 'number',
+    currentReplacementValue: 'number',
+    deferredMaintenanceCost: 'number',
+  },
+};
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 32;
+const MAX_LIST_ITEMS = 100;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class RuleExpressionError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = 'RuleExpressionError';
+  }
+}
+
+/**
+ * Error message followed by the expression with the offending part underlined
+ */
+export function formatRuleExpressionError(source: string, error: RuleExpressionError): string {
+  const start = Math.min(error.start, source.length);
+  const width = Math.max(1, Math.min(error.end, source.length) - start);
+  return `${error.message}\n  ${source}\n  ${' '.repeat(start)}${'^'.repeat(width)}`;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'keyword' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'is', 'in', 'true', 'false', 'null']);
+
+/** Longest first, so "<=" wins over "<" */
+const OPERATORS = ['==', '!=', '<>', '<=', '>=', '&&', '||', '=', '<', '>', '+', '-', '*', '×', '/', '÷', '%', '!'];
+const PUNCTUATION = ['(', ')', '[', ']', ',', '.'];
+
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', "'": "'", '“': '”', '‘': '’' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      const lower = match[0].toLowerCase();
+      tokens.push({
+        type: KEYWORDS.has(lower) ? 'keyword' : 'identifier',
+        value: KEYWORDS.has(lower) ? lower : match[0],
+        start: i,
+        end: i + match[0].length,
+      });
+      i += match[0].length;
+      continue;
+    }
+
+    if (QUOTE_PAIRS[char]) {
+      const close = QUOTE_PAIRS[char];
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== close) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j++];
+        }
+      }
+      if (j >= source.length) throw new RuleExpressionError(`Text starting here is missing its closing ${close}`, i, source.length);
+      tokens.push({ type: 'string', value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, i));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new RuleExpressionError(`Unexpected character "${char}"`, i, i + 1);
+  }
+
+  tokens.push({ type: 'end', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+export type RuleValue = number | string | boolean | null | RuleValue[];
+
+export type BinaryOperator =
+  | 'and' | 'or'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | 'in' | 'not in'
+  | '+' | '-' | '*' | '/' | '%';
+
+export type RuleExpressionNode = { start: number; end: number } & (
+  | { kind: 'literal'; value: number | string | boolean | null }
+  | { kind: 'list'; items: RuleExpressionNode[] }
+  | { kind: 'field'; scope: RuleScope; field: string; path: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: RuleExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: RuleExpressionNode; right: RuleExpressionNode }
+  | { kind: 'call'; name: string; args: RuleExpressionNode[] }
+);
+
+const COMPARISON_OPERATORS: Record<string, BinaryOperator> = {
+  '==': '==', '=': '==', '!=': '!=', '<>': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+};
+
+function isComparison(operator: BinaryOperator): boolean {
+  return ['==', '!=', '<', '<=', '>', '>=', 'in', 'not in'].includes(operator);
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): RuleExpressionNode {
+    if (this.peek().type === 'end') throw new RuleExpressionError('The expression is empty', 0, 0);
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new RuleExpressionError(`Unexpected "${next.value}" after a complete expression; are you missing "and" or "or"?`, next.start, next.end);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matches(type: TokenType, ...values: string[]): boolean {
+    const token = this.peek();
+    return token.type === type && values.includes(token.value);
+  }
+
+  private expect(type: TokenType, value: string, context: string): Token {
+    const token = this.peek();
+    if (token.type !== type || token.value !== value) {
+      const found = token.type === 'end' ? 'the end of the expression' : `"${token.value}"`;
+      throw new RuleExpressionError(`Expected "${value}" ${context}, found ${found}`, token.start, token.end);
+    }
+    return this.next();
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      const token = this.peek();
+      throw new RuleExpressionError('The expression is nested too deeply', token.start, token.end);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private binary(operator: BinaryOperator, left: RuleExpressionNode, right: RuleExpressionNode): RuleExpressionNode {
+    return { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseOr(): RuleExpressionNode {
+    let left = this.parseAnd();
+    while (this.matches('keyword', 'or') || this.matches('operator', '||')) {
+      this.next();
+      left = this.binary('or', left, this.parseAnd());
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleExpressionNode {
+    let left = this.parseNot();
+    while (this.matches('keyword', 'and') || this.matches('operator', '&&')) {
+      this.next();
+      left = this.binary('and', left, this.parseNot());
+    }
+    return left;
+  }
+
+  private parseNot(): RuleExpressionNode {
+    if (this.matches('keyword', 'not') || this.matches('operator', '!')) {
+      const token = this.next();
+      const operand = this.nested(() => this.parseNot());
+      return { kind: 'unary', operator: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparisonOperator(): BinaryOperator | null {
+    const token = this.peek();
+    if (token.type === 'operator' && COMPARISON_OPERATORS[token.value]) {
+      this.next();
+      return COMPARISON_OPERATORS[token.value];
+    }
+    if (this.matches('keyword', 'is')) {
+      this.next();
+      if (this.matches('keyword', 'not')) {
+        this.next();
+        return '!=';
+      }
+      return '==';
+    }
+    if (this.matches('keyword', 'in')) {
+      this.next();
+      return 'in';
+    }
+    if (this.matches('keyword', 'not') && this.peek(1).type === 'keyword' && this.peek(1).value === 'in') {
+      this.index += 2;
+      return 'not in';
+    }
+    return null;
+  }
+
+  private parseComparison(): RuleExpressionNode {
+    const left = this.parseAdditive();
+    const operator = this.parseComparisonOperator();
+    if (!operator) return left;
+
+    const node = this.binary(operator, left, this.parseAdditive());
+    const chained = this.peek();
+    if (this.parseComparisonOperator()) {
+      throw new RuleExpressionError('Comparisons can\'t be chained; join them with "and"', chained.start, chained.end);
+    }
+    return node;
+  }
+
+  private parseAdditive(): RuleExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.matches('operator', '+', '-')) {
+      const operator = this.next().value as '+' | '-';
+      left = this.binary(operator, left, this.parseMultiplicative());
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): RuleExpressionNode {
+    let left = this.parseUnary();
+    while (this.matches('operator', '*', '×', '/', '÷', '%')) {
+      const symbol = this.next().value;
+      const operator = symbol === '×' ? '*' : symbol === '÷' ? '/' : symbol as '*' | '/' | '%';
+      left = this.binary(operator, left, this.parseUnary());
+    }
+    return left;
+  }
+
+  private parseUnary(): RuleExpressionNode {
+    if (this.matches('operator', '-')) {
+      const token = this.next();
+      const operand = this.nested(() => this.parseUnary());
+      return { kind: 'unary', operator: '-', operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { kind: 'literal', value: Number(token.value), start: token.start, end: token.end };
+
+      case 'string':
+        this.next();
+        return { kind: 'literal', value: token.value, start: token.start, end: token.end };
+
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false' || token.value === 'null') {
+          this.next();
+          const value = token.value === 'null' ? null : token.value === 'true';
+          return { kind: 'literal', value, start: token.start, end: token.end };
+        }
+        throw new RuleExpressionError(`"${token.value}" needs a value before it`, token.start, token.end);
+
+      case 'identifier':
+        return this.parseIdentifier();
+
+      case 'punctuation':
+        if (token.value === '(') {
+          this.next();
+          const inner = this.nested(() => this.parseOr());
+          const close = this.expect('punctuation', ')', 'to close the parenthesis');
+          return { ...inner, start: token.start, end: close.end };
+        }
+        if (token.value === '[') return this.parseList();
+        break;
+
+      case 'end':
+        throw new RuleExpressionError('The expression ends too early; a value is missing', token.start, token.end);
+    }
+
+    throw new RuleExpressionError(`Expected a value, found "${token.value}"`, token.start, token.end);
+  }
+
+  private parseList(): RuleExpressionNode {
+    const open = this.next();
+    const items: RuleExpressionNode[] = [];
+    if (!this.matches('punctuation', ']')) {
+      do {
+        items.push(this.nested(() => this.parseAdditive()));
+        if (items.length > MAX_LIST_ITEMS) {
+          throw new RuleExpressionError(`Lists can have at most ${MAX_LIST_ITEMS} items`, open.start, this.peek().end);
+        }
+      } while (this.matches('punctuation', ',') && this.next());
+    }
+    const close = this.expect('punctuation', ']', 'to close the list');
+    return { kind: 'list', items, start: open.start, end: close.end };
+  }
+
+  private parseIdentifier(): RuleExpressionNode {
+    const first = this.next();
+
+    if (this.matches('punctuation', '(')) {
+      this.next();
+      const args: RuleExpressionNode[] = [];
+      if (!this.matches('punctuation', ')')) {
+        do {
+          args.push(this.nested(() => this.parseOr()));
+        } while (this.matches('punctuation', ',') && this.next());
+      }
+      const close = this.expect('punctuation', ')', `to close the call to ${first.value}()`);
+      return { kind: 'call', name: first.value, args, start: first.start, end: close.end };
+    }
+
+    if (this.matches('punctuation', '.')) {
+      this.next();
+      const second = this.peek();
+      if (second.type !== 'identifier') {
+        throw new RuleExpressionError(`Expected a field name after "${first.value}."`, second.start, second.end);
+      }
+      this.next();
+      if (!(RULE_SCOPES as readonly string[]).includes(first.value)) {
+        throw new RuleExpressionError(
+          `Unknown record "${first.value}"; use ${RULE_SCOPES.map(scope => `"${scope}."`).join(', ')}`,
+          first.start,
+          first.end
+        );
+      }
+      const path = `${first.value}.${second.value}`;
+      return { kind: 'field', scope: first.value as RuleScope, field: second.value, path, start: first.start, end: second.end };
+    }
+
+    return { kind: 'field', scope: 'assessment', field: first.value, path: first.value, start: first.start, end: first.end };
+  }
+}
+
+/**
+ * Parse without checking field names or types
+ */
+export function parseRuleExpression(source: string): RuleExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new RuleExpressionError(`Expressions can be at most ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH, source.length);
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+interface RuleFunction {
+  description: string;
+  args: RuleType[];
+  /** Further arguments repeat the last argument type */
+  variadic?: boolean;
+  minArgs?: number;
+  returns: RuleType | ((argTypes: RuleType[]) => RuleType);
+  call: (args: RuleValue[]) => RuleValue;
+}
+
+function toYear(value: RuleValue): number | null {
+  if (typeof value === 'number') return Math.trunc(value);
+  if (typeof value !== 'string') return null;
+  const match = /^(\d{4})/.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+function mapNumber(value: RuleValue, map: (n: number) => number): RuleValue {
+  return typeof value === 'number' ? map(value) : null;
+}
+
+function numbersOf(args: RuleValue[]): number[] {
+  return args.filter((arg): arg is number => typeof arg === 'number');
+}
+
+export const RULE_FUNCTIONS: Record<string, RuleFunction> = {
+  abs: { description: 'Absolute value', args: ['number'], returns: 'number', call: ([n]) => mapNumber(n, Math.abs) },
+  round: {
+    description: 'Round to a number of decimal places (default 0)',
+    args: ['number', 'number'],
+    minArgs: 1,
+    returns: 'number',
+    call: ([n, digits]) => {
+      const factor = 10 ** (typeof digits === 'number' ? digits : 0);
+      return mapNumber(n, value => Math.round(value * factor) / factor);
+    },
+  },
+  floor: { description: 'Round down', args: ['number'], returns: 'number', call: ([n]) => mapNumber(n, Math.floor) },
+  ceil: { description: 'Round up', args: ['number'], returns: 'number', call: ([n]) => mapNumber(n, Math.ceil) },
+  min: {
+    description: 'Smallest of the values, ignoring missing ones',
+    args: ['number'],
+    variadic: true,
+    returns: 'number',
+    call: args => (numbersOf(args).length > 0 ? Math.min(...numbersOf(args)) : null),
+  },
+  max: {
+    description: 'Largest of the values, ignoring missing ones',
+    args: ['number'],
+    variadic: true,
+    returns: 'number',
+    call: args => (numbersOf(args).length > 0 ? Math.max(...numbersOf(args)) : null),
+  },
+  coalesce: {
+    description: 'First value that is not missing',
+    args: ['any'],
+    variadic: true,
+    returns: argTypes => argTypes.find(type => type !== 'null') ?? 'null',
+    call: args => args.find(arg => arg !== null) ?? null,
+  },
+  isBlank: {
+    description: 'True when the value is missing or empty text',
+    args: ['any'],
+    returns: 'boolean',
+    call: ([value]) => value === null || (typeof value === 'string' && value.trim() === ''),
+  },
+  len: {
+    description: 'Length of text',
+    args: ['string'],
+    returns: 'number',
+    call: ([value]) => (typeof value === 'string' ? value.length : null),
+  },
+  lower: {
+    description: 'Text in lower case',
+    args: ['string'],
+    returns: 'string',
+    call: ([value]) => (typeof value === 'string' ? value.toLowerCase() : null),
+  },
+  upper: {
+    description: 'Text in upper case',
+    args: ['string'],
+    returns: 'string',
+    call: ([value]) => (typeof value === 'string' ? value.toUpperCase() : null),
+  },
+  contains: {
+    description: 'True when the text contains the other text (ignoring case)',
+    args: ['string', 'string'],
+    returns: 'boolean',
+    call: ([value, part]) => typeof value === 'string' && typeof part === 'string' && value.toLowerCase().includes(part.toLowerCase()),
+  },
+  startsWith: {
+    description: 'True when the text starts with the other text (ignoring case)',
+    args: ['string', 'string'],
+    returns: 'boolean',
+    call: ([value, prefix]) => typeof value === 'string' && typeof prefix === 'string' && value.toLowerCase().startsWith(prefix.toLowerCase()),
+  },
+  year: { description: 'Year of a date', args: ['date'], returns: 'number', call: ([value]) => toYear(value) },
+  currentYear: { description: 'The current year', args: [], returns: 'number', call: () => new Date().getFullYear() },
+  yearsSince: {
+    description: 'Whole years from a date or year until the current year',
+    args: ['date'],
+    returns: 'number',
+    call: ([value]) => {
+      const year = toYear(value);
+      return year === null ? null : new Date().getFullYear() - year;
+    },
+  },
+};
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+export interface CompiledRuleExpression {
+  source: string;
+  ast: RuleExpressionNode;
+  /** Records the expression reads from, so callers only load what is needed */
+  scopes: RuleScope[];
+}
+
+const TYPE_NAMES: Record<RuleType, string> = {
+  number: 'a number',
+  string: 'text',
+  date: 'a date',
+  boolean: 'true/false',
+  list: 'a list',
+  null: 'null',
+  any: 'a value',
+};
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function suggest(name: string, candidates: string[]): string | null {
+  const lower = name.toLowerCase();
+  let best: { candidate: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance <= Math.max(2, Math.floor(name.length / 4)) && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+  return best?.candidate ?? null;
+}
+
+function describe(node: RuleExpressionNode): string {
+  if (node.kind === 'field') return node.path;
+  if (node.kind === 'literal') return typeof node.value === 'string' ? `"${node.value}"` : String(node.value);
+  if (node.kind === 'call') return `${node.name}()`;
+  return 'the expression';
+}
+
+function isCompatible(actual: RuleType, expected: RuleType): boolean {
+  return actual === expected || actual === 'any' || actual === 'null' || expected === 'any'
+    || (expected === 'date' && (actual === 'string' || actual === 'number'));
+}
+
+class TypeChecker {
+  scopes = new Set<RuleScope>();
+
+  check(node: RuleExpressionNode): RuleType {
+    switch (node.kind) {
+      case 'literal':
+        return node.value === null ? 'null' : typeof node.value === 'number' ? 'number' : typeof node.value === 'string' ? 'string' : 'boolean';
+
+      case 'list':
+        node.items.forEach(item => this.check(item));
+        return 'list';
+
+      case 'field':
+        return this.checkField(node);
+
+      case 'unary': {
+        const type = this.check(node.operand);
+        const expected: RuleType = node.operator === 'not' ? 'boolean' : 'number';
+        if (!isCompatible(type, expected) || type === 'date') {
+          throw new RuleExpressionError(
+            `"${node.operator}" needs ${TYPE_NAMES[expected]}, but ${describe(node.operand)} is ${TYPE_NAMES[type]}`,
+            node.operand.start,
+            node.operand.end
+          );
+        }
+        return expected;
+      }
+
+      case 'binary':
+        return this.checkBinary(node);
+
+      case 'call':
+        return this.checkCall(node);
+    }
+  }
+
+  private checkField(node: Extract<RuleExpressionNode, { kind: 'field' }>): RuleType {
+    const fields = RULE_FIELDS[node.scope];
+    if (Object.prototype.hasOwnProperty.call(fields, node.field)) {
+      this.scopes.add(node.scope);
+      return fields[node.field];
+    }
+
+    const known = Object.keys(fields);
+    const close = suggest(node.field, known);
+    const where = node.path.includes('.') ? ` on ${node.scope}` : '';
+    let message = `Unknown field "${node.field}"${where}`;
+    if (close) {
+      message += `; did you mean "${node.path.includes('.') ? `${node.scope}.` : ''}${close}"?`;
+    } else if (!node.path.includes('.')) {
+      message += `; to compare with text, put it in quotes: "${node.field}"`;
+    }
+    throw new RuleExpressionError(message, node.start, node.end);
+  }
+
+  private checkBinary(node: Extract<RuleExpressionNode, { kind: 'binary' }>): RuleType {
+    const left = this.check(node.left);
+    const right = this.check(node.right);
+    const mismatch = (side: RuleExpressionNode, type: RuleType, expected: string) =>
+      new RuleExpressionError(`"${node.operator}" needs ${expected}, but ${describe(side)} is ${TYPE_NAMES[type]}`, side.start, side.end);
+
+    switch (node.operator) {
+      case 'and':
+      case 'or':
+        if (!isCompatible(left, 'boolean')) throw mismatch(node.left, left, 'true/false on both sides');
+        if (!isCompatible(right, 'boolean')) throw mismatch(node.right, right, 'true/false on both sides');
+        return 'boolean';
+
+      case '+':
+      case '-':
+      case '*':
+      case '/':
+      case '%':
+        if (!isCompatible(left, 'number') || left === 'date') throw mismatch(node.left, left, 'numbers');
+        if (!isCompatible(right, 'number') || right === 'date') throw mismatch(node.right, right, 'numbers');
+        return 'number';
+
+      case 'in':
+      case 'not in':
+        if (right !== 'list') throw mismatch(node.right, right, 'a list on the right, e.g. ["poor", "critical"]');
+        return 'boolean';
+
+      default: {
+        if (left === 'list' || right === 'list') {
+          throw new RuleExpressionError(`Use "in" to compare with a list`, node.start, node.end);
+        }
+        const comparable = left === right || left === 'any' || right === 'any' || left === 'null' || right === 'null'
+          || (left === 'date' && right === 'string') || (left === 'string' && right === 'date');
+        if (!comparable) {
+          throw new RuleExpressionError(
+            `Can't compare ${describe(node.left)} (${TYPE_NAMES[left]}) with ${describe(node.right)} (${TYPE_NAMES[right]})`,
+            node.start,
+            node.end
+          );
+        }
+        if (left === 'boolean' && !['==', '!='].includes(node.operator)) {
+          throw mismatch(node.left, left, 'numbers, text or dates');
+        }
+        return 'boolean';
+      }
+    }
+  }
+
+  private checkCall(node: Extract<RuleExpressionNode, { kind: 'call' }>): RuleType {
+    if (!Object.prototype.hasOwnProperty.call(RULE_FUNCTIONS, node.name)) {
+      const close = suggest(node.name, Object.keys(RULE_FUNCTIONS));
+      throw new RuleExpressionError(
+        `Unknown function "${node.name}"${close ? `; did you mean "${close}"?` : ''}`,
+        node.start,
+        node.end
+      );
+    }
+
+    const fn = RULE_FUNCTIONS[node.name];
+    const minArgs = fn.minArgs ?? (fn.variadic ? 1 : fn.args.length);
+    if (node.args.length < minArgs || (!fn.variadic && node.args.length > fn.args.length)) {
+      const expected = fn.variadic ? `at least ${minArgs}` : minArgs === fn.args.length ? `${minArgs}` : `${minArgs} to ${fn.args.length}`;
+      throw new RuleExpressionError(
+        `${node.name}() takes ${expected} argument${fn.args.length === 1 && !fn.variadic ? '' : 's'}, not ${node.args.length}`,
+        node.start,
+        node.end
+      );
+    }
+
+    const argTypes = node.args.map((arg, index) => {
+      const type = this.check(arg);
+      const expected = fn.args[Math.min(index, fn.args.length - 1)];
+      if (!isCompatible(type, expected)) {
+        throw new RuleExpressionError(
+          `${node.name}() needs ${TYPE_NAMES[expected]}, but ${describe(arg)} is ${TYPE_NAMES[type]}`,
+          arg.start,
+          arg.end
+        );
+      }
+      return type;
+    });
+
+    return typeof fn.returns === 'function' ? fn.returns(argTypes) : fn.returns;
+  }
+}
+
+/**
+ * Parse and check an expression; throws RuleExpressionError with the position of the problem
+ */
+export function compileRuleExpression(source: string): CompiledRuleExpression {
+  const ast = parseRuleExpression(source);
+  const checker = new TypeChecker();
+  const type = checker.check(ast);
+  if (!isCompatible(type, 'boolean')) {
+    throw new RuleExpressionError(
+      `A rule must be a true/false condition such as "remainingUsefulLife > 10", but this is ${TYPE_NAMES[type]}`,
+      ast.start,
+      ast.end
+    );
+  }
+  return { source, ast, scopes: Array.from(checker.scopes) };
+}
+
+export interface RuleExpressionCheck {
+  ok: boolean;
+  compiled: CompiledRuleExpression | null;
+  error: { message: string; start: number; end: number; display: string } | null;
+}
+
+/**
+ * compileRuleExpression without throwing, for editors
+ */
+export function checkRuleExpression(source: string): RuleExpressionCheck {
+  try {
+    return { ok: true, compiled: compileRuleExpression(source), error: null };
+  } catch (error) {
+    if (!(error instanceof RuleExpressionError)) throw error;
+    return {
+      ok: false,
+      compiled: null,
+      error: { message: error.message, start: error.start, end: error.end, display: formatRuleExpressionError(source, error) },
+    };
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export type RuleScopeData = Partial<Record<RuleScope, Record<string, unknown> | null | undefined>>;
+
+function readField(data: RuleScopeData, scope: RuleScope, field: string): RuleValue {
+  const record = data[scope];
+  if (!record || !Object.prototype.hasOwnProperty.call(record, field)) return null;
+
+  const raw = record[field];
+  if (raw === null || raw === undefined || raw === '') return null;
+
+  switch (RULE_FIELDS[scope][field]) {
+    case 'number': {
+      // Decimal columns arrive as strings and flags as booleans
+      const value = typeof raw === 'boolean' ? Number(raw) : typeof raw === 'number' ? raw : Number(String(raw).trim());
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'date':
+      return raw instanceof Date ? raw.toISOString() : typeof raw === 'number' ? raw : String(raw);
+    default:
+      return String(raw);
+  }
+}
+
+/**
+ * Milliseconds for a date value; "YYYY-MM-DD HH:MM:SS" database strings are read as UTC
+ * so server and browser agree
+ */
+function toTime(value: RuleValue): number | null {
+  if (typeof value === 'number') return Date.UTC(value, 0, 1);
+  if (typeof value !== 'string') return null;
+  const normalized = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+  const time = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : normalized).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function valuesEqual(left: RuleValue, right: RuleValue, dates: boolean): boolean {
+  if (left === null || right === null) return left === right;
+  if (dates) {
+    const [a, b] = [toTime(left), toTime(right)];
+    return a !== null && a === b;
+  }
+  if (typeof left === 'string' && typeof right === 'string') return left.toLowerCase() === right.toLowerCase();
+  return left === right;
+}
+
+function compareOrder(left: RuleValue, right: RuleValue, dates: boolean): number | null {
+  if (left === null || right === null) return null;
+  if (dates) {
+    const [a, b] = [toTime(left), toTime(right)];
+    return a === null || b === null ? null : a - b;
+  }
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  if (typeof left === 'string' && typeof right === 'string') {
+    const [a, b] = [left.toLowerCase(), right.toLowerCase()];
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return null;
+}
+
+function isDateNode(node: RuleExpressionNode): boolean {
+  return node.kind === 'field' && RULE_FIELDS[node.scope][node.field] === 'date';
+}
+
+function evaluateNode(node: RuleExpressionNode, data: RuleScopeData): RuleValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'list':
+      return node.items.map(item => evaluateNode(item, data));
+
+    case 'field':
+      return readField(data, node.scope, node.field);
+
+    case 'unary': {
+      const value = evaluateNode(node.operand, data);
+      if (node.operator === 'not') return value === null ? null : !value;
+      return typeof value === 'number' ? -value : null;
+    }
+
+    case 'call':
+      return RULE_FUNCTIONS[node.name].call(node.args.map(arg => evaluateNode(arg, data)));
+
+    case 'binary': {
+      if (node.operator === 'and') {
+        return evaluateNode(node.left, data) === true && evaluateNode(node.right, data) === true;
+      }
+      if (node.operator === 'or') {
+        return evaluateNode(node.left, data) === true || evaluateNode(node.right, data) === true;
+      }
+
+      const left = evaluateNode(node.left, data);
+      const right = evaluateNode(node.right, data);
+      const dates = isDateNode(node.left) || isDateNode(node.right);
+
+      switch (node.operator) {
+        case '+':
+        case '-':
+        case '*':
+        case '/':
+        case '%': {
+          if (typeof left !== 'number' || typeof right !== 'number') return null;
+          if ((node.operator === '/' || node.operator === '%') && right === 0) return null;
+          const result = node.operator === '+' ? left + right
+            : node.operator === '-' ? left - right
+            : node.operator === '*' ? left * right
+            : node.operator === '/' ? left / right
+            : left % right;
+          return Number.isFinite(result) ? result : null;
+        }
+        case '==':
+          return valuesEqual(left, right, dates);
+        case '!=':
+          return !valuesEqual(left, right, dates);
+        case 'in':
+        case 'not in': {
+          if (left === null) return false;
+          const found = (right as RuleValue[]).some(item => valuesEqual(left, item, dates));
+          return node.operator === 'in' ? found : !found;
+        }
+        default: {
+          const order = compareOrder(left, right, dates);
+          if (order === null) return false;
+          return node.operator === '<' ? order < 0
+            : node.operator === '<=' ? order <= 0
+            : node.operator === '>' ? order > 0
+            : order >= 0;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * True when the expression holds for the given records
+ */
+export function evaluateRuleExpression(compiled: CompiledRuleExpression, data: RuleScopeData): boolean {
+  return evaluateNode(compiled.ast, data) === true;
+}
+
+// ============================================================================
+// Custom logic rules
+// ============================================================================
+
+export interface CustomLogicRule {
+  id?: number;
+  field: string;
+  severity?: 'error' | 'warning' | 'info' | string | null;
+  message?: string | null;
+  condition: string;
+}
+
+export interface RuleViolation {
+  isValid: false;
+  severity: 'error' | 'warning' | 'info';
+  field: string;
+  message: string;
+  ruleId?: number;
+  canOverride: boolean;
+}
+
+/**
+ * Expression stored in a custom_logic rule's condition: {"expression": "..."} or the bare text
+ */
+export function getCustomLogicExpression(condition: string): string {
+  try {
+    const parsed = JSON.parse(condition);
+    if (parsed && typeof parsed === 'object' && typeof parsed.expression === 'string') return parsed.expression;
+  } catch {
+    // Not JSON; the condition is the expression itself
+  }
+  return condition;
+}
+
+/**
+ * Evaluate a custom_logic rule; returns the violation when its expression is true
+ */
+export function evaluateCustomLogicRule(
+  rule: CustomLogicRule,
+  compiled: CompiledRuleExpression,
+  data: RuleScopeData
+): RuleViolation | null {
+  if (!evaluateRuleExpression(compiled, data)) return null;
+
+  const severity = rule.severity === 'error' || rule.severity === 'info' ? rule.severity : 'warning';
+  return {
+    isValid: false,
+    severity,
+    field: rule.field,
+    message: rule.message || `Custom rule failed: ${compiled.source}`,
+    ruleId: rule.id,
+    canOverride: severity !== 'error',
+  };
+}
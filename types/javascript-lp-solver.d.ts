@@ -6,11 +6,14 @@ declare module 'javascript-lp-solver' {
     variables: Record<string, Record<string, number>>;
     ints?: Record<string, number>;
     binaries?: Record<string, number>;
+    options?: { timeout?: number; tolerance?: number };
   }
 
   interface LPSolution {
     feasible: boolean;
     result: number;
+    bounded?: boolean;
+    isIntegral?: boolean;
     [key: string]: any;
   }
 